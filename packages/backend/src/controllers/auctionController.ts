@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { auctionService } from '../services/auctionService';
+import { AppError } from '../utils/errors';
+
+// Validation schemas
+const auctionSchema = z.object({
+  startsAt: z.string().transform(str => new Date(str)),
+  endsAt: z.string().transform(str => new Date(str)),
+  minimumDecrement: z.number().positive(),
+  decrementIsPercent: z.boolean().optional(),
+  startingPrice: z.number().positive().optional(),
+  extensionWindowMinutes: z.number().int().min(0).max(60).optional(),
+  extensionMinutes: z.number().int().min(1).max(60).optional(),
+  maxExtensions: z.number().int().min(0).optional()
+});
+
+class AuctionController {
+  /**
+   * Schedule a reverse auction on an RFQ
+   */
+  async createAuction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = auctionSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const auction = await auctionService.createAuction(req.params.rfqId, validatedData, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Auction scheduled successfully',
+        data: auction
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an auction with live standings
+   */
+  async getAuction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const auction = await auctionService.getAuction(req.params.rfqId);
+
+      res.json({
+        success: true,
+        data: auction
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel an auction before it closes
+   */
+  async cancelAuction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const auction = await auctionService.cancelAuction(req.params.rfqId, userId);
+
+      res.json({
+        success: true,
+        message: 'Auction cancelled',
+        data: auction
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const auctionController = new AuctionController();
@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ItemCategory } from '@prisma/client';
+import { consolidationService } from '../services/consolidationService';
+import { rfqService } from '../services/rfqService';
+import { purchaseOrderService } from '../services/purchaseOrderService';
+import { AppError } from '../utils/errors';
+
+// Validation schemas
+const candidateFiltersSchema = z.object({
+  category: z.nativeEnum(ItemCategory).optional(),
+  portCode: z.string().length(5).optional(),
+  vesselIds: z.string().transform(str => str.split(',').filter(Boolean)).optional(),
+  portWindowDays: z.string().transform(str => parseInt(str, 10)).pipe(z.number().int().positive().max(60)).optional()
+});
+
+const consolidatedRFQSchema = z.object({
+  requisitionIds: z.array(z.string().cuid()).min(2, 'At least two requisitions are required'),
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  currency: z.string().length(3).optional(),
+  deliveryLocation: z.string().optional(),
+  deliveryPortCode: z.string().regex(/^[A-Z]{5}$/, 'Port code must be a 5-letter UN/LOCODE').optional(),
+  responseDeadline: z.string().transform(str => new Date(str)).optional(),
+  isSealed: z.boolean().optional(),
+  minimumResponses: z.number().int().min(1).max(20).optional()
+});
+
+const fanOutSchema = z.object({
+  deliveryInstructions: z.string().optional(),
+  specialTerms: z.string().optional(),
+  notes: z.string().optional()
+});
+
+class ConsolidationController {
+  /**
+   * Consolidation workbench: requisitions that can be bought together
+   */
+  async getCandidates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = candidateFiltersSchema.parse(req.query);
+      const groups = await consolidationService.getConsolidationCandidates(filters);
+
+      res.json({
+        success: true,
+        data: groups,
+        count: groups.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create one RFQ covering requisitions from several vessels
+   */
+  async createConsolidatedRFQ(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = consolidatedRFQSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const rfq = await rfqService.createConsolidatedRFQ(validatedData, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Consolidated RFQ created successfully',
+        data: rfq
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Per-vessel delivery splits of a consolidated RFQ and their purchase orders
+   */
+  async getConsolidatedRFQ(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rfq = await consolidationService.getConsolidatedRFQ(req.params.rfqId);
+
+      res.json({
+        success: true,
+        data: rfq
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Fan an accepted quote out into one purchase order per originating requisition
+   */
+  async generatePurchaseOrders(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = fanOutSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const purchaseOrders = await purchaseOrderService.generateConsolidatedPurchaseOrders({
+        ...validatedData,
+        quoteId: req.params.quoteId,
+        approvedBy: userId
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `${purchaseOrders.length} purchase orders generated`,
+        data: purchaseOrders
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const consolidationController = new ConsolidationController();
@@ -0,0 +1,238 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { contractService } from '../services/contractService';
+import { purchaseOrderService } from '../services/purchaseOrderService';
+import { AppError } from '../utils/errors';
+
+// Validation schemas
+const volumeTierSchema = z.object({
+  minQuantity: z.number().positive(),
+  unitPrice: z.number().positive()
+});
+
+const priceItemSchema = z.object({
+  itemCatalogId: z.string().cuid().optional(),
+  impaCode: z.string().optional(),
+  unitPrice: z.number().positive(),
+  minOrderQuantity: z.number().positive().optional(),
+  volumeTiers: z.array(volumeTierSchema).optional()
+}).refine(item => item.itemCatalogId || item.impaCode, {
+  message: 'Each priced item needs an itemCatalogId or IMPA code'
+});
+
+const contractTermsSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  validFrom: z.string().transform(str => new Date(str)),
+  validTo: z.string().transform(str => new Date(str)),
+  currency: z.string().length(3).optional(),
+  portCodes: z.array(z.string().length(5)).optional(),
+  spendCap: z.number().positive().optional(),
+  paymentTerms: z.string().optional(),
+  deliveryTerms: z.string().optional(),
+  leadTimeDays: z.number().int().min(0).optional(),
+  priceItems: z.array(priceItemSchema).min(1, 'At least one priced item is required')
+});
+
+const contractCreationSchema = contractTermsSchema.extend({
+  vendorId: z.string().cuid()
+});
+
+const contractUpdateSchema = contractTermsSchema.partial();
+
+const contractStatusSchema = z.object({
+  status: z.enum(['ACTIVE', 'SUSPENDED', 'EXPIRED', 'TERMINATED']),
+  reason: z.string().optional()
+});
+
+const contractFiltersSchema = z.object({
+  vendorId: z.string().cuid().optional(),
+  status: z.enum(['DRAFT', 'ACTIVE', 'SUSPENDED', 'EXPIRED', 'TERMINATED']).optional(),
+  itemCatalogId: z.string().cuid().optional(),
+  activeOn: z.string().transform(str => str ? new Date(str) : undefined).optional()
+});
+
+const contractPOSchema = z.object({
+  contractId: z.string().cuid().optional(),
+  deliveryInstructions: z.string().optional(),
+  specialTerms: z.string().optional(),
+  notes: z.string().optional()
+});
+
+class ContractController {
+  /**
+   * Create a vendor contract
+   */
+  async createContract(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = contractCreationSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const contract = await contractService.createContract(validatedData, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Contract created successfully',
+        data: contract
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List vendor contracts
+   */
+  async getContracts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = contractFiltersSchema.parse(req.query);
+      const contracts = await contractService.getContracts(filters);
+
+      res.json({
+        success: true,
+        data: contracts,
+        count: contracts.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a contract with its price list
+   */
+  async getContractById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const contract = await contractService.getContractById(req.params.id);
+
+      res.json({
+        success: true,
+        data: contract
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update contract terms or replace its price list
+   */
+  async updateContract(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = contractUpdateSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const contract = await contractService.updateContract(req.params.id, validatedData, userId);
+
+      res.json({
+        success: true,
+        message: 'Contract updated successfully',
+        data: contract
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Activate, suspend, expire or terminate a contract
+   */
+  async updateContractStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { status, reason } = contractStatusSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const contract = await contractService.updateContractStatus(req.params.id, status, userId, reason);
+
+      res.json({
+        success: true,
+        message: `Contract ${status.toLowerCase()}`,
+        data: contract
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Contract utilisation report
+   */
+  async getUtilisationReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { vendorId, contractId } = req.query;
+
+      const report = await contractService.getUtilisationReport({
+        vendorId: vendorId as string | undefined,
+        contractId: contractId as string | undefined
+      });
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Check whether a requisition can be bought at contract price
+   */
+  async getRequisitionCoverage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const coverage = await contractService.checkRequisitionCoverage(
+        req.params.requisitionId,
+        req.query.contractId as string | undefined
+      );
+
+      res.json({
+        success: true,
+        data: coverage
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Convert a covered requisition straight to a purchase order at contract price
+   */
+  async createPurchaseOrderFromContract(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = contractPOSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const purchaseOrder = await purchaseOrderService.generatePurchaseOrderFromContract({
+        ...validatedData,
+        requisitionId: req.params.requisitionId,
+        approvedBy: userId
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Purchase order generated at contract price',
+        data: purchaseOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const contractController = new ContractController();
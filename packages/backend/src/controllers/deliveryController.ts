@@ -1,24 +1,35 @@
 import { Request, Response, NextFunction } from 'express';
 import { deliveryService, CreateDeliveryData, UpdateDeliveryData, DeliveryConfirmationData } from '../services/deliveryService';
+import { portCallService } from '../services/portCallService';
+import { customsDocumentService, CustomsDocumentType } from '../services/customsDocumentService';
+import { hasVesselAccess } from '../middleware/vesselAccess';
 import { AppError } from '../utils/errors';
 import { DeliveryStatus } from '@prisma/client';
 
+const assertVesselAccess = (req: Request, vesselId: string): void => {
+  if (!req.user || !hasVesselAccess(req.user, vesselId)) {
+    throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+  }
+};
+
 export class DeliveryController {
   /**
    * Create delivery schedule for purchase order
    */
   async createDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { purchaseOrderId, scheduledDate, deliveryAddress, carrier, trackingNumber, notes } = req.body;
+      const { purchaseOrderId, scheduledDate, deliveryAddress, portCallId, carrier, trackingNumber, notes } = req.body;
 
-      if (!purchaseOrderId || !scheduledDate || !deliveryAddress) {
-        throw new AppError('Purchase order ID, scheduled date, and delivery address are required', 400, 'MISSING_REQUIRED_FIELDS');
+      // A port call supplies the delivery address
+      if (!purchaseOrderId || !scheduledDate || (!deliveryAddress && !portCallId)) {
+        throw new AppError('Purchase order ID, scheduled date, and delivery address or port call are required', 400, 'MISSING_REQUIRED_FIELDS');
       }
 
       const data: CreateDeliveryData = {
         purchaseOrderId,
         scheduledDate: new Date(scheduledDate),
         deliveryAddress,
+        portCallId,
         carrier,
         trackingNumber,
         notes
@@ -72,7 +83,7 @@ export class DeliveryController {
   async confirmDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
-      const { receivedBy, actualDate, photoUrls, notes, discrepancies } = req.body;
+      const { receivedBy, actualDate, photoUrls, notes, discrepancies, lines } = req.body;
 
       if (!receivedBy || !actualDate || !photoUrls || photoUrls.length === 0) {
         throw new AppError('Received by, actual date, and at least one photo are required', 400, 'MISSING_CONFIRMATION_DATA');
@@ -84,7 +95,8 @@ export class DeliveryController {
         actualDate: new Date(actualDate),
         photoUrls,
         notes,
-        discrepancies
+        discrepancies,
+        lines
       };
 
       const confirmedDelivery = await deliveryService.confirmDelivery(data, req.user.id);
@@ -99,6 +111,47 @@ export class DeliveryController {
     }
   }
 
+  /**
+   * Get received and outstanding quantities per PO line
+   */
+  async getPurchaseOrderReceiptStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { purchaseOrderId } = req.params;
+
+      const receiptStatus = await deliveryService.getPurchaseOrderReceiptStatus(purchaseOrderId);
+
+      res.json({
+        success: true,
+        data: {
+          lines: receiptStatus,
+          isFullyReceived: receiptStatus.every(line => line.isFullyReceived)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Suggest the vessel port call to deliver a purchase order to
+   */
+  async getPortCallSuggestion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { purchaseOrderId } = req.params;
+
+      assertVesselAccess(req, await deliveryService.getPurchaseOrderVesselId(purchaseOrderId));
+
+      const suggestion = await portCallService.suggestForPurchaseOrder(purchaseOrderId);
+
+      res.json({
+        success: true,
+        data: suggestion
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get delivery tracking information
    */
@@ -117,6 +170,80 @@ export class DeliveryController {
     }
   }
 
+  /**
+   * Goods, values and customs clearance progress of a delivery
+   */
+  async getCustomsSummary(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      assertVesselAccess(req, await deliveryService.getDeliveryVesselId(req.params.id));
+
+      const summary = await customsDocumentService.getCustomsSummary(req.params.id);
+
+      res.json({
+        success: true,
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download a commercial invoice, packing list or ship's spares declaration
+   */
+  async getCustomsDocument(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // commercial-invoice -> COMMERCIAL_INVOICE
+      const type = req.params.type.toUpperCase().replace(/-/g, '_') as CustomsDocumentType;
+
+      assertVesselAccess(req, await deliveryService.getDeliveryVesselId(req.params.id));
+
+      const document = await customsDocumentService.getDocument(req.params.id, type, req.user.id);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${document.fileName}"`);
+      res.send(document.pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Record a customs clearance step for a delivery
+   */
+  async recordCustomsEvent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { status, reference, location, notes, occurredAt } = req.body;
+
+      if (!status) {
+        throw new AppError('Clearance status is required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const parsedOccurredAt = occurredAt ? new Date(occurredAt) : undefined;
+      if (parsedOccurredAt && isNaN(parsedOccurredAt.getTime())) {
+        throw new AppError('Invalid occurred at date', 400, 'INVALID_EVENT_TIME');
+      }
+
+      assertVesselAccess(req, await deliveryService.getDeliveryVesselId(req.params.id));
+
+      const event = await customsDocumentService.recordClearanceEvent(req.params.id, {
+        status,
+        reference,
+        location,
+        notes,
+        occurredAt: parsedOccurredAt
+      }, req.user.id);
+
+      res.status(201).json({
+        success: true,
+        data: event,
+        message: 'Customs clearance updated'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Calculate estimated delivery time
    */
@@ -0,0 +1,183 @@
+import { Request, Response, NextFunction } from 'express';
+import { InventoryTransactionType } from '@prisma/client';
+import { inventoryService, StockLevelData, StockIssueData, StockCountData } from '../services/inventoryService';
+import { hasVesselAccess } from '../middleware/vesselAccess';
+import { AppError } from '../utils/errors';
+
+export class InventoryController {
+  /**
+   * Get Remaining On Board for a vessel
+   */
+  async getVesselInventory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { vesselId } = req.params;
+      const { category, search, belowReorderPoint } = req.query;
+
+      const items = await inventoryService.getVesselInventory(vesselId, {
+        category: category as string,
+        search: search as string,
+        belowReorderPoint: belowReorderPoint === 'true'
+      });
+
+      res.json({
+        success: true,
+        data: items,
+        count: items.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get inventory item with recent movements
+   */
+  async getInventoryItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const item = await inventoryService.getInventoryItem(id);
+
+      // The route is keyed by item, so the vessel is only known once it is loaded
+      if (!req.user || !hasVesselAccess(req.user, item.vesselId)) {
+        throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+      }
+
+      res.json({
+        success: true,
+        data: item
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set min/max stock levels for an item on board
+   */
+  async setStockLevels(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { vesselId } = req.params;
+      const { itemCatalogId, minStock, maxStock, reorderPoint, location } = req.body;
+
+      if (!itemCatalogId) {
+        throw new AppError('Item catalog ID is required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const data: StockLevelData = {
+        vesselId,
+        itemCatalogId,
+        minStock,
+        maxStock,
+        reorderPoint,
+        location
+      };
+
+      const item = await inventoryService.setStockLevels(data, req.user!.id);
+
+      res.json({
+        success: true,
+        data: item,
+        message: 'Stock levels updated successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Record stock issued or consumed on board
+   */
+  async recordIssue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { vesselId } = req.params;
+      const { itemCatalogId, quantity, type = 'CONSUMPTION', reference, notes } = req.body;
+
+      if (!itemCatalogId || quantity === undefined) {
+        throw new AppError('Item catalog ID and quantity are required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      if (type !== 'ISSUE' && type !== 'CONSUMPTION') {
+        throw new AppError('Type must be ISSUE or CONSUMPTION', 400, 'INVALID_TRANSACTION_TYPE');
+      }
+
+      const data: StockIssueData = {
+        vesselId,
+        itemCatalogId,
+        quantity: Number(quantity),
+        type,
+        reference,
+        notes
+      };
+
+      const transaction = await inventoryService.recordIssue(data, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: transaction,
+        message: 'Stock movement recorded successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Record a physical stock count
+   */
+  async recordStockCount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { vesselId } = req.params;
+      const { itemCatalogId, countedQuantity, reference, notes } = req.body;
+
+      if (!itemCatalogId || countedQuantity === undefined) {
+        throw new AppError('Item catalog ID and counted quantity are required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const data: StockCountData = {
+        vesselId,
+        itemCatalogId,
+        countedQuantity: Number(countedQuantity),
+        reference,
+        notes
+      };
+
+      const transaction = await inventoryService.recordStockCount(data, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: transaction,
+        message: 'Stock count recorded successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get stock movement history for a vessel
+   */
+  async getTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { vesselId } = req.params;
+      const { itemCatalogId, type, startDate, endDate } = req.query;
+
+      const transactions = await inventoryService.getTransactions(vesselId, {
+        itemCatalogId: itemCatalogId as string,
+        type: type as InventoryTransactionType,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: transactions,
+        count: transactions.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const inventoryController = new InventoryController();
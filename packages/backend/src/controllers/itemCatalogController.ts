@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { itemCatalogService, ItemCatalogCreateData, ItemCatalogUpdateData, ItemCatalogSearchFilters } from '../services/itemCatalogService.js';
 import { ItemCategory, CriticalityLevel } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { dangerousGoodsService } from '../services/dangerousGoodsService.js';
 
 export class ItemCatalogController {
   /**
@@ -127,6 +128,32 @@ export class ItemCatalogController {
     }
   }
 
+  /**
+   * Get item by maker (OEM) part number
+   */
+  async getItemByPartNumber(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { partNumber } = req.params;
+      const maker = req.query.maker as string | undefined;
+      const item = await itemCatalogService.getItemByPartNumber(partNumber, maker);
+
+      if (!item) {
+        return res.status(404).json({
+          success: false,
+          error: `No single item found for part number ${partNumber}${maker ? ` (${maker})` : ''}`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: item
+      });
+    } catch (error) {
+      logger.error('Error in getItemByPartNumber controller:', error);
+      next(error);
+    }
+  }
+
   /**
    * Search items with advanced filtering
    */
@@ -142,7 +169,9 @@ export class ItemCatalogController {
         issaCode: req.query.issaCode as string,
         minPrice: req.query.minPrice ? parseFloat(req.query.minPrice as string) : undefined,
         maxPrice: req.query.maxPrice ? parseFloat(req.query.maxPrice as string) : undefined,
-        maxLeadTime: req.query.maxLeadTime ? parseInt(req.query.maxLeadTime as string) : undefined
+        maxLeadTime: req.query.maxLeadTime ? parseInt(req.query.maxLeadTime as string) : undefined,
+        partNumber: req.query.partNumber as string,
+        maker: req.query.maker as string
       };
 
       const page = parseInt(req.query.page as string) || 1;
@@ -540,6 +569,236 @@ export class ItemCatalogController {
     }
   }
 
+  /**
+   * Add a maker part number cross-reference
+   */
+  async addPartReference(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { maker, partNumber, notes } = req.body;
+
+      if (!maker || !partNumber) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: maker, partNumber'
+        });
+      }
+
+      const reference = await itemCatalogService.addPartReference(id, { maker, partNumber, notes }, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: reference
+      });
+    } catch (error) {
+      logger.error('Error in addPartReference controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a maker part number cross-reference
+   */
+  async removePartReference(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id, referenceId } = req.params;
+      await itemCatalogService.removePartReference(id, referenceId, req.user?.id);
+
+      res.json({
+        success: true,
+        message: 'Part reference removed successfully'
+      });
+    } catch (error) {
+      logger.error('Error in removePartReference controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * Create an equivalence group of interchangeable items
+   */
+  async createEquivalenceGroup(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { name, description, itemIds } = req.body;
+
+      if (!name || !Array.isArray(itemIds)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: name, itemIds (array)'
+        });
+      }
+
+      const group = await itemCatalogService.createEquivalenceGroup({ name, description, itemIds }, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: group
+      });
+    } catch (error) {
+      logger.error('Error in createEquivalenceGroup controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * Move an item into or out of an equivalence group
+   */
+  async setEquivalenceGroup(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { groupId } = req.body;
+      const item = await itemCatalogService.setEquivalenceGroup(id, groupId || null, req.user?.id);
+
+      res.json({
+        success: true,
+        data: item
+      });
+    } catch (error) {
+      logger.error('Error in setEquivalenceGroup controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * Get items interchangeable with an item
+   */
+  async getEquivalentItems(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const items = await itemCatalogService.getEquivalentItems(id);
+
+      res.json({
+        success: true,
+        data: items
+      });
+    } catch (error) {
+      logger.error('Error in getEquivalentItems controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * Get an item's supersession chain and current replacement
+   */
+  async getSupersessionChain(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const chain = await itemCatalogService.getSupersessionChain(id);
+
+      if (chain.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: `Item with ID ${id} not found`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          chain,
+          currentItem: chain[chain.length - 1],
+          superseded: chain.length > 1
+        }
+      });
+    } catch (error) {
+      logger.error('Error in getSupersessionChain controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * Mark an item as superseded by a replacement part
+   */
+  async supersedeItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { replacementId, note } = req.body;
+
+      if (!replacementId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required field: replacementId'
+        });
+      }
+
+      const item = await itemCatalogService.supersedeItem(id, replacementId, note, req.user?.id);
+
+      res.json({
+        success: true,
+        data: item
+      });
+    } catch (error) {
+      logger.error('Error in supersedeItem controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw an item's supersession
+   */
+  async clearSupersession(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const item = await itemCatalogService.clearSupersession(id, req.user?.id);
+
+      res.json({
+        success: true,
+        data: item
+      });
+    } catch (error) {
+      logger.error('Error in clearSupersession controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * List the safety data sheets held for an item
+   */
+  async getSafetyDataSheets(req: Request, res: Response, next: NextFunction) {
+    try {
+      const sheets = await dangerousGoodsService.getSafetyDataSheets(req.params.id);
+
+      res.json({
+        success: true,
+        data: sheets
+      });
+    } catch (error) {
+      logger.error('Error in getSafetyDataSheets controller:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * Attach a safety data sheet revision to an item
+   */
+  async addSafetyDataSheet(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { documentUrl, revisionDate, language, supplierName } = req.body;
+
+      if (!documentUrl || !revisionDate) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: documentUrl, revisionDate'
+        });
+      }
+
+      const sheet = await dangerousGoodsService.addSafetyDataSheet(req.params.id, {
+        documentUrl,
+        revisionDate: new Date(revisionDate),
+        language,
+        supplierName
+      }, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: sheet
+      });
+    } catch (error) {
+      logger.error('Error in addSafetyDataSheet controller:', error);
+      next(error);
+    }
+  }
+
   /**
    * Delete item from catalog
    */
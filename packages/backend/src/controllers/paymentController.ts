@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { paymentService, PaymentRequest } from '../services/paymentService';
+import { adjustmentNoteService, ADJUSTMENT_REASON_CODES } from '../services/adjustmentNoteService';
 import { auditService } from '../services/auditService';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errors';
@@ -52,8 +53,8 @@ export class PaymentController {
         throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
       }
 
-      // Validate payment amount
-      const remainingAmount = invoice.totalAmount - (invoice.paidAmount || 0);
+      // Validate payment amount against the balance net of credit/debit notes
+      const { outstanding: remainingAmount } = await paymentService.getOutstandingBalance(invoiceId);
       if (amount > remainingAmount) {
         throw new AppError('Payment amount exceeds remaining balance', 400, 'AMOUNT_EXCEEDS_BALANCE');
       }
@@ -430,6 +431,9 @@ export class PaymentController {
               vendor: true,
               vessel: true
             }
+          },
+          adjustmentNotes: {
+            where: { status: 'APPLIED' }
           }
         },
         orderBy: {
@@ -439,8 +443,8 @@ export class PaymentController {
 
       // Calculate total pending amount
       const totalPending = pendingPayments.reduce((sum, invoice) => {
-        const remainingAmount = invoice.totalAmount - (invoice.paidAmount || 0);
-        return sum + remainingAmount;
+        const { outstanding } = paymentService.calculateInvoiceBalance(invoice, invoice.adjustmentNotes);
+        return sum + outstanding;
       }, 0);
 
       res.json({
@@ -469,6 +473,261 @@ export class PaymentController {
       }
     }
   }
+
+  async createAdjustmentNote(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        invoiceId,
+        type,
+        amount,
+        reasonCode,
+        reason,
+        lineItems,
+        vendorReference,
+        resolvesDispute,
+        issueDate
+      } = req.body;
+
+      if (!invoiceId || !type || !reasonCode || !reason) {
+        throw new AppError('Missing required fields', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      if (!['CREDIT', 'DEBIT'].includes(type)) {
+        throw new AppError('Note type must be CREDIT or DEBIT', 400, 'INVALID_NOTE_TYPE');
+      }
+
+      if (!ADJUSTMENT_REASON_CODES.includes(reasonCode)) {
+        throw new AppError('Invalid reason code', 400, 'INVALID_REASON_CODE');
+      }
+
+      if (lineItems !== undefined && (!Array.isArray(lineItems) ||
+          lineItems.some((line: any) => !line.description || typeof line.amount !== 'number'))) {
+        throw new AppError('Each note line needs a description and amount', 400, 'INVALID_NOTE_LINES');
+      }
+
+      // Verify invoice exists and user has access
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: invoiceId },
+        include: {
+          purchaseOrder: true
+        }
+      });
+
+      if (!invoice) {
+        throw new AppError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+      }
+
+      const userVessels = req.user.vessels.map((v: any) => v.id);
+      if (!userVessels.includes(invoice.purchaseOrder.vesselId)) {
+        throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+      }
+
+      const note = await adjustmentNoteService.createAdjustmentNote({
+        invoiceId,
+        type,
+        amount: amount !== undefined ? parseFloat(amount) : undefined,
+        reasonCode,
+        reason,
+        lineItems,
+        vendorReference,
+        resolvesDispute,
+        issueDate: issueDate ? new Date(issueDate) : undefined
+      }, req.user.id);
+
+      res.status(201).json({
+        success: true,
+        data: note
+      });
+    } catch (error) {
+      logger.error('Adjustment note creation failed:', error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.errorCode
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to create adjustment note'
+        });
+      }
+    }
+  }
+
+  async getAdjustmentNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const { invoiceId, purchaseOrderId, vendorId, type, status } = req.query;
+
+      const notes = await adjustmentNoteService.getAdjustmentNotes({
+        invoiceId: invoiceId as string | undefined,
+        purchaseOrderId: purchaseOrderId as string | undefined,
+        vendorId: vendorId as string | undefined,
+        type: type as any,
+        status: status as any
+      });
+
+      // Only return notes on vessels the user can access
+      const userVessels = req.user.vessels.map((v: any) => v.id);
+      const accessibleNotes = notes.filter(note => userVessels.includes(note.purchaseOrder.vesselId));
+
+      res.json({
+        success: true,
+        data: accessibleNotes
+      });
+    } catch (error) {
+      logger.error('Get adjustment notes failed:', error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.errorCode
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get adjustment notes'
+        });
+      }
+    }
+  }
+
+  async issueAdjustmentNote(req: Request, res: Response): Promise<void> {
+    try {
+      const { noteId } = req.params;
+
+      const existing = await adjustmentNoteService.getAdjustmentNoteById(noteId);
+      const userVessels = req.user.vessels.map((v: any) => v.id);
+      if (!userVessels.includes(existing.purchaseOrder.vesselId)) {
+        throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+      }
+
+      const note = await adjustmentNoteService.issueAdjustmentNote(noteId, req.user.id);
+
+      res.json({
+        success: true,
+        data: note
+      });
+    } catch (error) {
+      logger.error('Adjustment note issue failed:', error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.errorCode
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to issue adjustment note'
+        });
+      }
+    }
+  }
+
+  async applyAdjustmentNote(req: Request, res: Response): Promise<void> {
+    try {
+      const { noteId } = req.params;
+
+      const existing = await adjustmentNoteService.getAdjustmentNoteById(noteId);
+      const userVessels = req.user.vessels.map((v: any) => v.id);
+      if (!userVessels.includes(existing.purchaseOrder.vesselId)) {
+        throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+      }
+
+      const result = await paymentService.applyAdjustmentNote(noteId, req.user.id);
+
+      logger.info(`Adjustment note ${existing.noteNumber} applied`, {
+        invoiceId: existing.invoiceId,
+        outstanding: result.balance.outstanding,
+        userId: req.user.id
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Adjustment note application failed:', error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.errorCode
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to apply adjustment note'
+        });
+      }
+    }
+  }
+
+  async cancelAdjustmentNote(req: Request, res: Response): Promise<void> {
+    try {
+      const { noteId } = req.params;
+      const { reason } = req.body;
+
+      const existing = await adjustmentNoteService.getAdjustmentNoteById(noteId);
+      const userVessels = req.user.vessels.map((v: any) => v.id);
+      if (!userVessels.includes(existing.purchaseOrder.vesselId)) {
+        throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+      }
+
+      const note = await adjustmentNoteService.cancelAdjustmentNote(noteId, req.user.id, reason);
+
+      res.json({
+        success: true,
+        data: note
+      });
+    } catch (error) {
+      logger.error('Adjustment note cancellation failed:', error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.errorCode
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to cancel adjustment note'
+        });
+      }
+    }
+  }
+
+  async getVendorStatement(req: Request, res: Response): Promise<void> {
+    try {
+      const { vendorId } = req.params;
+      const { from, to } = req.query;
+
+      const statement = await paymentService.getVendorStatement(vendorId, {
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: statement
+      });
+    } catch (error) {
+      logger.error('Get vendor statement failed:', error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.errorCode
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get vendor statement'
+        });
+      }
+    }
+  }
 }
 
 export const paymentController = new PaymentController();
\ No newline at end of file
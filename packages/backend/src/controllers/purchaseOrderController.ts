@@ -1,8 +1,31 @@
 import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import { purchaseOrderService, CreatePOData, POApprovalData } from '../services/purchaseOrderService';
+import { poAmendmentService, POAmendmentLineChange } from '../services/poAmendmentService';
+import { purchaseOrderDocumentService } from '../services/purchaseOrderDocumentService';
+import { ihmService } from '../services/ihmService';
+import { dangerousGoodsService } from '../services/dangerousGoodsService';
+import { customsDocumentService } from '../services/customsDocumentService';
 import { AppError } from '../utils/errors';
 import { POStatus } from '@prisma/client';
 
+// Vendor copies of PO documents presented for verification
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only PDF files are allowed.'));
+    }
+  }
+});
+
+export const documentUploadMiddleware = upload.single('document');
+
 export class PurchaseOrderController {
   /**
    * Generate purchase order from approved quote
@@ -216,6 +239,295 @@ export class PurchaseOrderController {
     }
   }
 
+  /**
+   * Amend quantities, prices or delivery date of an issued purchase order
+   */
+  async createAmendment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { reason, lineChanges, deliveryDate } = req.body;
+
+      if (!reason) {
+        throw new AppError('Amendment reason is required', 400, 'MISSING_REASON');
+      }
+
+      if (lineChanges !== undefined && !Array.isArray(lineChanges)) {
+        throw new AppError('Line changes must be a list', 400, 'INVALID_LINE_CHANGE');
+      }
+
+      if (lineChanges?.some((change: POAmendmentLineChange) => !['ADD', 'UPDATE', 'REMOVE'].includes(change.action))) {
+        throw new AppError('Line change action must be ADD, UPDATE or REMOVE', 400, 'INVALID_LINE_CHANGE');
+      }
+
+      const parsedDeliveryDate = deliveryDate ? new Date(deliveryDate) : undefined;
+      if (parsedDeliveryDate && isNaN(parsedDeliveryDate.getTime())) {
+        throw new AppError('Invalid delivery date', 400, 'INVALID_DELIVERY_DATE');
+      }
+
+      const amendment = await poAmendmentService.createAmendment(
+        id,
+        { reason, lineChanges, deliveryDate: parsedDeliveryDate },
+        req.user.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: amendment,
+        message: amendment.requiresApproval
+          ? 'Amendment submitted for approval'
+          : `Amendment issued as revision ${amendment.revision}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List amendments raised against a purchase order
+   */
+  async getAmendments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const amendments = await poAmendmentService.getAmendments(id);
+
+      res.json({
+        success: true,
+        data: amendments,
+        count: amendments.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve an amendment held for re-approval
+   */
+  async approveAmendment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { amendmentId } = req.params;
+      const { comments } = req.body;
+
+      const amendment = await poAmendmentService.approveAmendment(amendmentId, req.user.id, comments);
+
+      res.json({
+        success: true,
+        data: amendment,
+        message: `Amendment approved and issued as revision ${amendment.revision}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reject an amendment held for re-approval
+   */
+  async rejectAmendment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { amendmentId } = req.params;
+      const { reason } = req.body;
+
+      if (!reason) {
+        throw new AppError('Rejection reason is required', 400, 'MISSING_REASON');
+      }
+
+      const amendment = await poAmendmentService.rejectAmendment(amendmentId, req.user.id, reason);
+
+      res.json({
+        success: true,
+        data: amendment,
+        message: 'Amendment rejected'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download the signed PDF of the purchase order's current revision
+   */
+  async getPurchaseOrderDocument(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const document = await purchaseOrderDocumentService.getDocument(id, req.user.id);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${document.fileName}"`);
+      res.setHeader('X-Content-Hash', document.contentHash);
+      res.send(document.pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Check whether a copy of a purchase order document is unaltered
+   */
+  async verifyPurchaseOrderDocument(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.file) {
+        throw new AppError('Document file is required', 400, 'MISSING_DOCUMENT');
+      }
+
+      const verification = await purchaseOrderDocumentService.verifyDocument(id, req.file.buffer);
+
+      res.json({
+        success: true,
+        data: verification
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Material Declaration and SDoC status of each line
+   */
+  async getIhmDeclarations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = await ihmService.getPurchaseOrderStatus(req.params.id);
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Attach a Material Declaration or SDoC received from the vendor to a line
+   */
+  async submitIhmDeclaration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { type, documentUrl, declarationNumber, declarationDate, supplierName, declaredMaterials } = req.body;
+
+      if (!type || !documentUrl || !declarationDate) {
+        throw new AppError('Missing required fields: type, documentUrl, declarationDate', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const declaration = await ihmService.submitDeclaration(req.params.lineItemId, {
+        type,
+        documentUrl,
+        declarationNumber,
+        declarationDate: new Date(declarationDate),
+        supplierName,
+        declaredMaterials
+      }, { userId: req.user.id });
+
+      res.status(201).json({
+        success: true,
+        data: declaration
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Accept or reject a declaration
+   */
+  async reviewIhmDeclaration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { accepted, reason } = req.body;
+
+      if (typeof accepted !== 'boolean') {
+        throw new AppError('accepted must be true or false', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const declaration = await ihmService.reviewDeclaration(req.params.declarationId, accepted, req.user.id, reason);
+
+      res.json({
+        success: true,
+        data: declaration
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm the declared hazardous materials have been entered in the vessel's IHM
+   */
+  async recordIhmDeclaration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const declaration = await ihmService.recordInIhm(req.params.declarationId, req.user.id);
+
+      res.json({
+        success: true,
+        data: declaration
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Dangerous goods on the order, checked for segregation and against the delivery port
+   */
+  async getDangerousGoods(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { portCode, date } = req.query;
+
+      const parsedDate = date ? new Date(date as string) : undefined;
+      if (parsedDate && isNaN(parsedDate.getTime())) {
+        throw new AppError('Invalid date', 400, 'INVALID_DATE');
+      }
+
+      const check = await dangerousGoodsService.checkPurchaseOrder(
+        req.params.id,
+        portCode as string | undefined,
+        parsedDate
+      );
+
+      res.json({
+        success: true,
+        data: check
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download the dangerous goods declaration for the forwarder
+   */
+  async getDangerousGoodsDeclaration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const declaration = await dangerousGoodsService.getDeclaration(req.params.id, req.user.id);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${declaration.fileName}"`);
+      res.send(declaration.pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set the HS code and country of origin of a line for customs documents
+   */
+  async updateLineCustomsData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { hsCode, countryOfOrigin } = req.body;
+
+      const line = await customsDocumentService.updateLineCustomsData(req.params.lineItemId, { hsCode, countryOfOrigin }, { userId: req.user.id });
+
+      res.json({
+        success: true,
+        data: line
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get purchase order statistics
    */
@@ -1,7 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import { quoteComparisonService } from '../services/quoteComparisonService';
+import { splitAwardService } from '../services/splitAwardService';
+import { landedCostService } from '../services/landedCostService';
 import { AppError } from '../utils/errors';
 
+const costComponentSchema = z.object({
+  freight: z.number().min(0).optional(),
+  duty: z.number().min(0).optional(),
+  customsClearance: z.number().min(0).optional(),
+  agencyFees: z.number().min(0).optional()
+});
+
+const landedCostAssumptionsSchema = z.object({
+  domesticFreightPercent: z.number().min(0).max(100).optional(),
+  internationalFreightPercent: z.number().min(0).max(100).optional(),
+  minimumFreight: z.number().min(0).optional(),
+  dutyRatePercent: z.number().min(0).max(100).optional(),
+  customsFeePerDocument: z.number().min(0).optional(),
+  agencyFee: z.number().min(0).optional(),
+  vendorOverrides: z.record(costComponentSchema).optional()
+});
+
 export class QuoteComparisonController {
   /**
    * Score and compare quotes for an RFQ
@@ -121,6 +141,76 @@ export class QuoteComparisonController {
     }
   }
 
+  /**
+   * Compute the lowest-cost split award for an RFQ
+   */
+  async optimiseSplitAward(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { rfqId } = req.params;
+      const { requiredBy, perVendorOrderCost } = req.body;
+
+      if (!rfqId) {
+        throw new AppError('RFQ ID is required', 400, 'MISSING_RFQ_ID');
+      }
+
+      const plan = await splitAwardService.optimiseSplitAward(rfqId, {
+        requiredBy: requiredBy ? new Date(requiredBy) : undefined,
+        perVendorOrderCost: perVendorOrderCost !== undefined ? Number(perVendorOrderCost) : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        data: plan,
+        message: 'Split award optimised successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Award quote lines across vendors and generate purchase orders
+   */
+  async awardLineItems(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { rfqId } = req.params;
+      const { awards, justification, deliveryInstructions } = req.body;
+      const userId = req.user?.id;
+
+      if (!rfqId) {
+        throw new AppError('RFQ ID is required', 400, 'MISSING_RFQ_ID');
+      }
+
+      if (!Array.isArray(awards) || awards.length === 0) {
+        throw new AppError('At least one quote line award is required', 400, 'MISSING_AWARDS');
+      }
+
+      if (!justification) {
+        throw new AppError('Justification is required for split awards', 400, 'MISSING_JUSTIFICATION');
+      }
+
+      if (!userId) {
+        throw new AppError('User authentication required', 401, 'AUTHENTICATION_REQUIRED');
+      }
+
+      const result = await splitAwardService.awardLineItems({
+        rfqId,
+        awards,
+        approvedBy: userId,
+        justification,
+        deliveryInstructions
+      }, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: `Quote lines awarded to ${result.awardedQuoteIds.length} vendor(s) successfully`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get side-by-side quote comparison
    */
@@ -158,7 +248,10 @@ export class QuoteComparisonController {
         rfqTitle: report.rfqTitle,
         quotes: filteredQuotes,
         comparisonMatrix: report.comparisonMatrix,
-        scoringCriteria: report.scoringCriteria
+        scoringCriteria: report.scoringCriteria,
+        landedCostAssumptions: report.landedCostAssumptions,
+        currency: report.currency,
+        fxSensitivity: report.fxSensitivity
       };
 
       res.status(200).json({
@@ -207,6 +300,35 @@ export class QuoteComparisonController {
     }
   }
 
+  /**
+   * Update the freight, duty and agency assumptions behind landed-cost comparison
+   */
+  async updateLandedCostAssumptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { rfqId } = req.params;
+      const userId = req.user?.id;
+
+      if (!rfqId) {
+        throw new AppError('RFQ ID is required', 400, 'MISSING_RFQ_ID');
+      }
+
+      if (!userId) {
+        throw new AppError('User authentication required', 401, 'AUTHENTICATION_REQUIRED');
+      }
+
+      const assumptions = landedCostAssumptionsSchema.parse(req.body);
+      const updated = await landedCostService.updateAssumptions(rfqId, assumptions, userId);
+
+      res.status(200).json({
+        success: true,
+        data: updated,
+        message: 'Landed cost assumptions updated; re-score quotes to apply them'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get quote scoring details
    */
@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { RecurrenceUnit, UrgencyLevel } from '@prisma/client';
+import { requisitionTemplateService } from '../services/requisitionTemplateService';
+import { hasFleetAccess, hasVesselAccess } from '../middleware/vesselAccess';
+import { AppError } from '../utils/errors';
+
+// Validation schemas
+const templateItemSchema = z.object({
+  itemCatalogId: z.string().cuid(),
+  quantity: z.number().positive(),
+  unitPrice: z.number().min(0).optional(),
+  scaleWithCrew: z.boolean().optional(),
+  specifications: z.string().optional(),
+  notes: z.string().optional()
+});
+
+const templateSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  vesselId: z.string().cuid(),
+  urgencyLevel: z.nativeEnum(UrgencyLevel).optional(),
+  currency: z.string().length(3).optional(),
+  deliveryLocation: z.string().optional(),
+  justification: z.string().optional(),
+  recurrenceUnit: z.nativeEnum(RecurrenceUnit),
+  recurrenceInterval: z.number().int().positive().optional(),
+  nextDueDate: z.string().transform(str => new Date(str)),
+  leadTimeDays: z.number().int().min(0).max(90).optional(),
+  baseCrewSize: z.number().int().positive(),
+  items: z.array(templateItemSchema).min(1, 'At least one item is required')
+});
+
+const templateUpdateSchema = templateSchema.omit({ vesselId: true }).partial().extend({
+  isActive: z.boolean().optional()
+});
+
+const templateFiltersSchema = z.object({
+  vesselId: z.string().cuid().optional(),
+  isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+});
+
+const assertVesselAccess = (req: Request, vesselId: string): void => {
+  if (!req.user || !hasVesselAccess(req.user, vesselId)) {
+    throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+  }
+};
+
+// Loads the template first so its vessel can be checked
+const assertTemplateAccess = async (req: Request): Promise<void> => {
+  const template = await requisitionTemplateService.getTemplateById(req.params.id);
+  assertVesselAccess(req, template.vesselId);
+};
+
+class RequisitionTemplateController {
+  /**
+   * Save a recurring requisition template
+   */
+  async createTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = templateSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      assertVesselAccess(req, validatedData.vesselId);
+
+      const template = await requisitionTemplateService.createTemplate(validatedData, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Requisition template created successfully',
+        data: template
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List requisition templates
+   */
+  async getTemplates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = templateFiltersSchema.parse(req.query);
+
+      if (filters.vesselId) {
+        assertVesselAccess(req, filters.vesselId);
+      }
+
+      const templates = await requisitionTemplateService.getTemplates({
+        ...filters,
+        vesselIds: req.user && !hasFleetAccess(req.user) ? req.user.vessels : undefined
+      });
+
+      res.json({
+        success: true,
+        data: templates,
+        count: templates.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a requisition template
+   */
+  async getTemplateById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const template = await requisitionTemplateService.getTemplateById(req.params.id);
+      assertVesselAccess(req, template.vesselId);
+
+      res.json({
+        success: true,
+        data: template
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a template, its recurrence or its items
+   */
+  async updateTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = templateUpdateSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      await assertTemplateAccess(req);
+
+      const template = await requisitionTemplateService.updateTemplate(req.params.id, validatedData, userId);
+
+      res.json({
+        success: true,
+        message: 'Requisition template updated successfully',
+        data: template
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Preview the next auto-drafted requisition with crew scaling applied
+   */
+  async previewDraft(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await assertTemplateAccess(req);
+
+      const preview = await requisitionTemplateService.previewDraft(req.params.id);
+
+      res.json({
+        success: true,
+        data: preview
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Draft the next occurrence immediately
+   */
+  async draftNow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      await assertTemplateAccess(req);
+
+      const requisition = await requisitionTemplateService.draftNow(req.params.id, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Draft requisition created from template',
+        data: requisition
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const requisitionTemplateController = new RequisitionTemplateController();
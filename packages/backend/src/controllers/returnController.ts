@@ -0,0 +1,261 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { returnService, RETURN_REASONS } from '../services/returnService';
+import { deliveryService } from '../services/deliveryService';
+import { hasFleetAccess, hasVesselAccess } from '../middleware/vesselAccess';
+import { AppError } from '../utils/errors';
+
+// Validation schemas
+const returnRequestSchema = z.object({
+  deliveryId: z.string().cuid(),
+  reason: z.enum(RETURN_REASONS),
+  description: z.string().min(1, 'Description is required'),
+  photoUrls: z.array(z.string().url()).optional(),
+  lines: z.array(z.object({
+    deliveryLineId: z.string().cuid(),
+    quantity: z.number().positive(),
+    notes: z.string().optional()
+  })).min(1, 'At least one delivery line must be returned')
+});
+
+const acknowledgementSchema = z.object({
+  accepted: z.boolean(),
+  vendorReference: z.string().optional(),
+  notes: z.string().optional()
+});
+
+const pickupSchema = z.object({
+  portCode: z.string().length(5),
+  pickupDate: z.string().transform(str => new Date(str)),
+  pickupAgent: z.string().optional()
+});
+
+const collectionSchema = z.object({
+  collectedAt: z.string().transform(str => new Date(str)).optional()
+});
+
+const resolutionSchema = z.object({
+  resolution: z.enum(['REPLACEMENT', 'CREDIT']),
+  scheduledDate: z.string().transform(str => new Date(str)).optional(),
+  deliveryAddress: z.string().optional(),
+  carrier: z.string().optional(),
+  invoiceId: z.string().cuid().optional()
+}).refine(data => data.resolution !== 'REPLACEMENT' || data.scheduledDate, {
+  message: 'A scheduled date is required for a replacement delivery'
+});
+
+const returnFiltersSchema = z.object({
+  vendorId: z.string().cuid().optional(),
+  purchaseOrderId: z.string().cuid().optional(),
+  deliveryId: z.string().cuid().optional(),
+  status: z.enum(['REQUESTED', 'ACKNOWLEDGED', 'PICKUP_SCHEDULED', 'COLLECTED', 'RESOLVED', 'REJECTED', 'CANCELLED']).optional()
+});
+
+const assertVesselAccess = (req: Request, vesselId: string): void => {
+  if (!req.user || !hasVesselAccess(req.user, vesselId)) {
+    throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+  }
+};
+
+// Loads the return first so the vessel on its purchase order can be checked
+const assertReturnAccess = async (req: Request): Promise<void> => {
+  const { purchaseOrder } = await returnService.getReturnRequestById(req.params.id);
+  assertVesselAccess(req, purchaseOrder.vesselId);
+};
+
+class ReturnController {
+  /**
+   * Raise a return against a confirmed delivery
+   */
+  async createReturnRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = returnRequestSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      assertVesselAccess(req, await deliveryService.getDeliveryVesselId(validatedData.deliveryId));
+
+      const returnRequest = await returnService.createReturnRequest(validatedData, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Return request created successfully',
+        data: returnRequest
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List return requests
+   */
+  async getReturnRequests(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = returnFiltersSchema.parse(req.query);
+      const returns = await returnService.getReturnRequests({
+        ...filters,
+        vesselIds: req.user && !hasFleetAccess(req.user) ? req.user.vessels : undefined
+      });
+
+      res.json({
+        success: true,
+        data: returns,
+        count: returns.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a return request with its lines
+   */
+  async getReturnRequestById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const returnRequest = await returnService.getReturnRequestById(req.params.id);
+      assertVesselAccess(req, returnRequest.purchaseOrder.vesselId);
+
+      res.json({
+        success: true,
+        data: returnRequest
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Record the vendor's acknowledgement received outside the portal
+   */
+  async acknowledgeReturn(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = acknowledgementSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      await assertReturnAccess(req);
+
+      const returnRequest = await returnService.acknowledgeReturn(req.params.id, validatedData, { userId });
+
+      res.json({
+        success: true,
+        message: validatedData.accepted ? 'Return acknowledged' : 'Return disputed by vendor',
+        data: returnRequest
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Arrange pickup of the returned goods at a port
+   */
+  async schedulePickup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = pickupSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      await assertReturnAccess(req);
+
+      const returnRequest = await returnService.schedulePickup(req.params.id, validatedData, userId);
+
+      res.json({
+        success: true,
+        message: 'Pickup scheduled successfully',
+        data: returnRequest
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm the vendor has collected the goods
+   */
+  async confirmCollection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { collectedAt } = collectionSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      await assertReturnAccess(req);
+
+      const returnRequest = await returnService.confirmCollection(req.params.id, userId, collectedAt);
+
+      res.json({
+        success: true,
+        message: 'Collection confirmed',
+        data: returnRequest
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Resolve a return by replacement delivery or credit note
+   */
+  async resolveReturn(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = resolutionSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      await assertReturnAccess(req);
+
+      const returnRequest = await returnService.resolveReturn(req.params.id, validatedData, userId);
+
+      res.json({
+        success: true,
+        message: `Return resolved by ${validatedData.resolution.toLowerCase()}`,
+        data: returnRequest
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel a return before collection
+   */
+  async cancelReturn(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      await assertReturnAccess(req);
+
+      const returnRequest = await returnService.cancelReturn(req.params.id, userId, req.body.reason);
+
+      res.json({
+        success: true,
+        message: 'Return cancelled',
+        data: returnRequest
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const returnController = new ReturnController();
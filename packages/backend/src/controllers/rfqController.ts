@@ -1,5 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { rfqService, RFQCreationData, RFQUpdateData } from '../services/rfqService';
+import { contractService } from '../services/contractService';
+import { purchaseOrderService } from '../services/purchaseOrderService';
+import { rfqClarificationService } from '../services/rfqClarificationService';
+import { rfqDeadlineService } from '../services/rfqDeadlineService';
+import { portCallService } from '../services/portCallService';
 import { AppError } from '../utils/errors';
 import { z } from 'zod';
 
@@ -10,8 +15,13 @@ const rfqCreationSchema = z.object({
   description: z.string().optional(),
   currency: z.string().optional(),
   deliveryLocation: z.string().optional(),
+  deliveryPortCode: z.string().regex(/^[A-Z]{5}$/, 'Port code must be a 5-letter UN/LOCODE').optional(),
   deliveryDate: z.string().transform(str => str ? new Date(str) : undefined).optional(),
+  portCallId: z.string().cuid().optional(),
   responseDeadline: z.string().transform(str => str ? new Date(str) : undefined).optional(),
+  isSealed: z.boolean().optional(),
+  minimumResponses: z.number().int().min(1).max(20).optional(),
+  bypassContract: z.boolean().optional(),
   vendorSelectionCriteria: z.object({
     countries: z.array(z.string()).optional(),
     regions: z.array(z.string()).optional(),
@@ -27,17 +37,37 @@ const rfqUpdateSchema = z.object({
   title: z.string().optional(),
   description: z.string().optional(),
   deliveryLocation: z.string().optional(),
+  deliveryPortCode: z.string().regex(/^[A-Z]{5}$/, 'Port code must be a 5-letter UN/LOCODE').optional(),
   deliveryDate: z.string().transform(str => str ? new Date(str) : undefined).optional(),
   responseDeadline: z.string().transform(str => str ? new Date(str) : undefined).optional(),
-  status: z.enum(['DRAFT', 'SENT', 'RESPONSES_RECEIVED', 'EVALUATED', 'AWARDED', 'CANCELLED']).optional()
+  status: z.enum(['DRAFT', 'SENT', 'RESPONSES_RECEIVED', 'INSUFFICIENT_RESPONSES', 'EVALUATED', 'AWARDED', 'CANCELLED']).optional()
 });
 
 const rfqDistributionSchema = z.object({
   vendorIds: z.array(z.string().cuid()).min(1, 'At least one vendor must be selected')
 });
 
+const clarificationAnswerSchema = z.object({
+  answer: z.string().min(1, 'Answer is required'),
+  visibility: z.enum(['PUBLIC', 'PRIVATE'])
+});
+
+const addendumSchema = z.object({
+  description: z.string().min(1, 'Description is required'),
+  responseDeadline: z.string().transform(str => new Date(str)).optional(),
+  lineChanges: z.array(z.object({
+    action: z.enum(['ADD', 'UPDATE', 'REMOVE']),
+    requisitionItemId: z.string().cuid().optional(),
+    itemCatalogId: z.string().cuid().optional(),
+    quantity: z.number().positive().optional(),
+    unitPrice: z.number().nonnegative().optional(),
+    specifications: z.string().optional(),
+    notes: z.string().optional()
+  })).optional()
+});
+
 const rfqFiltersSchema = z.object({
-  status: z.enum(['DRAFT', 'SENT', 'RESPONSES_RECEIVED', 'EVALUATED', 'AWARDED', 'CANCELLED']).optional(),
+  status: z.enum(['DRAFT', 'SENT', 'RESPONSES_RECEIVED', 'INSUFFICIENT_RESPONSES', 'EVALUATED', 'AWARDED', 'CANCELLED']).optional(),
   vesselId: z.string().cuid().optional(),
   dateFrom: z.string().transform(str => str ? new Date(str) : undefined).optional(),
   dateTo: z.string().transform(str => str ? new Date(str) : undefined).optional()
@@ -68,6 +98,27 @@ class RFQController {
     }
   }
 
+  /**
+   * Suggest the vessel port call to request delivery to for a requisition
+   */
+  async getPortCallSuggestion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { requisitionId } = req.params;
+      const vendorIds = typeof req.query.vendorIds === 'string' && req.query.vendorIds
+        ? req.query.vendorIds.split(',')
+        : [];
+
+      const suggestion = await portCallService.suggestForRequisition(requisitionId, vendorIds);
+
+      res.json({
+        success: true,
+        data: suggestion
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get RFQ by ID
    */
@@ -214,6 +265,27 @@ class RFQController {
         throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
       }
 
+      // Requisitions fully covered by a contract skip the RFQ and go straight to a PO
+      const coverage = await contractService.checkRequisitionCoverage(requisitionId);
+      if (coverage.covered) {
+        const purchaseOrder = await purchaseOrderService.generatePurchaseOrderFromContract({
+          requisitionId,
+          contractId: coverage.coverage!.contract.id,
+          approvedBy: userId
+        });
+
+        res.status(201).json({
+          success: true,
+          message: `Purchase order issued at contract price under ${coverage.coverage!.contract.contractNumber}`,
+          data: {
+            rfq: null,
+            purchaseOrder,
+            contractId: coverage.coverage!.contract.id
+          }
+        });
+        return;
+      }
+
       // Create RFQ with default title
       const rfqData: RFQCreationData = {
         requisitionId,
@@ -247,6 +319,112 @@ class RFQController {
     }
   }
 
+  /**
+   * Open all quotes on a sealed RFQ after its response deadline
+   */
+  async unsealRFQ(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      await rfqDeadlineService.unsealRFQ(req.params.id, userId);
+      const rfq = await rfqService.getRFQById(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'RFQ unsealed successfully',
+        data: rfq
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the vendor Q&A thread for an RFQ
+   */
+  async getClarifications(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const clarifications = await rfqClarificationService.getClarifications(req.params.id);
+
+      res.json({
+        success: true,
+        data: clarifications,
+        count: clarifications.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Answer a vendor question publicly or privately
+   */
+  async answerClarification(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = clarificationAnswerSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const clarification = await rfqClarificationService.answerQuestion(req.params.id, req.params.clarificationId, validatedData, userId);
+
+      res.json({
+        success: true,
+        message: 'Clarification answered successfully',
+        data: clarification
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Issue a formal addendum to an RFQ
+   */
+  async issueAddendum(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = addendumSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const addendum = await rfqClarificationService.issueAddendum(req.params.id, validatedData, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Addendum issued successfully',
+        data: addendum
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List addenda issued against an RFQ
+   */
+  async getAddenda(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const addenda = await rfqClarificationService.getAddenda(req.params.id);
+
+      res.json({
+        success: true,
+        data: addenda,
+        count: addenda.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get RFQ statistics
    */
@@ -267,6 +445,7 @@ class RFQController {
           draft: allRFQs.filter(rfq => rfq.status === 'DRAFT').length,
           sent: allRFQs.filter(rfq => rfq.status === 'SENT').length,
           responsesReceived: allRFQs.filter(rfq => rfq.status === 'RESPONSES_RECEIVED').length,
+          insufficientResponses: allRFQs.filter(rfq => rfq.status === 'INSUFFICIENT_RESPONSES').length,
           evaluated: allRFQs.filter(rfq => rfq.status === 'EVALUATED').length,
           awarded: allRFQs.filter(rfq => rfq.status === 'AWARDED').length,
           cancelled: allRFQs.filter(rfq => rfq.status === 'CANCELLED').length
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { vendorService, VendorRegistrationData, VendorUpdateData, VendorPerformanceUpdate, VendorSearchFilters } from '../services/vendorService';
+import { vendorPortalService } from '../services/vendorPortalService';
 import { AppError } from '../utils/errors';
 import { z } from 'zod';
 
@@ -67,6 +68,13 @@ const vendorSearchSchema = z.object({
   isApproved: z.boolean().optional()
 });
 
+const vendorPortalUserSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8),
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required')
+});
+
 class VendorController {
   /**
    * Register a new vendor
@@ -362,6 +370,31 @@ class VendorController {
       next(error);
     }
   }
+
+  /**
+   * Create a vendor portal account
+   */
+  async createPortalUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const vendorId = req.params.id;
+      const validatedData = vendorPortalUserSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+      }
+
+      const vendorUser = await vendorPortalService.createPortalUser(vendorId, validatedData, userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Vendor portal user created successfully',
+        data: vendorUser
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const vendorController = new VendorController();
\ No newline at end of file
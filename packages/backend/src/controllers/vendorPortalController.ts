@@ -0,0 +1,530 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { vendorPortalService, VendorActor } from '../services/vendorPortalService';
+import { ihmService } from '../services/ihmService';
+import { dangerousGoodsService } from '../services/dangerousGoodsService';
+import { customsDocumentService } from '../services/customsDocumentService';
+import { AppError } from '../utils/errors';
+
+// Configure multer for invoice uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  fileFilter: (_req, file, cb) => {
+    const allowedTypes = ['image/jpeg', 'image/png', 'application/pdf'];
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only JPEG, PNG, and PDF files are allowed.'));
+    }
+  }
+});
+
+export const invoiceUploadMiddleware = upload.single('invoiceFile');
+
+const getActor = (req: Request): VendorActor => ({
+  vendorUserId: req.vendorUser!.id,
+  vendorId: req.vendorUser!.vendorId
+});
+
+export class VendorPortalController {
+  /**
+   * Vendor portal login
+   */
+  async login(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email, password } = req.body;
+
+      if (!email || !password) {
+        throw new AppError('Email and password are required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const result = await vendorPortalService.login(email, password, req.ip);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Login successful'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List RFQs the vendor has been invited to
+   */
+  async getInvitedRFQs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rfqs = await vendorPortalService.getInvitedRFQs(req.vendorUser!.vendorId);
+
+      res.json({
+        success: true,
+        data: rfqs,
+        count: rfqs.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an invited RFQ
+   */
+  async getInvitedRFQ(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rfq = await vendorPortalService.getInvitedRFQ(req.vendorUser!.vendorId, req.params.rfqId);
+
+      res.json({
+        success: true,
+        data: rfq
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Submit or revise a quote for an RFQ
+   */
+  async submitQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { rfqId } = req.params;
+      const { lineItems, currency, deliveryDate, deliveryTerms, paymentTerms, validUntil, notes, attachments } = req.body;
+
+      if (!Array.isArray(lineItems) || lineItems.length === 0) {
+        throw new AppError('At least one line item is required', 400, 'MISSING_LINE_ITEMS');
+      }
+
+      const quote = await vendorPortalService.submitQuote(getActor(req), rfqId, {
+        lineItems: lineItems.map((line: any) => ({
+          itemCatalogId: line.itemCatalogId,
+          quantity: Number(line.quantity),
+          unitPrice: Number(line.unitPrice),
+          specifications: line.specifications,
+          notes: line.notes
+        })),
+        currency,
+        deliveryDate: deliveryDate ? new Date(deliveryDate) : undefined,
+        deliveryTerms,
+        paymentTerms,
+        validUntil: validUntil ? new Date(validUntil) : undefined,
+        notes,
+        attachments
+      });
+
+      res.status(quote.revision > 1 ? 200 : 201).json({
+        success: true,
+        data: quote,
+        message: quote.revision > 1 ? 'Quote revised successfully' : 'Quote submitted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Ask a clarification question on an RFQ
+   */
+  async askClarification(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { question } = req.body;
+
+      if (typeof question !== 'string' || !question.trim()) {
+        throw new AppError('Question is required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const clarification = await vendorPortalService.askClarification(getActor(req), req.params.rfqId, question);
+
+      res.status(201).json({
+        success: true,
+        data: clarification,
+        message: 'Question submitted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the clarification thread visible to the vendor
+   */
+  async getClarifications(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const clarifications = await vendorPortalService.getClarifications(req.vendorUser!.vendorId, req.params.rfqId);
+
+      res.json({
+        success: true,
+        data: clarifications,
+        count: clarifications.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List addenda issued against an RFQ
+   */
+  async getAddenda(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const addenda = await vendorPortalService.getAddenda(req.vendorUser!.vendorId, req.params.rfqId);
+
+      res.json({
+        success: true,
+        data: addenda,
+        count: addenda.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the vendor's view of an RFQ auction
+   */
+  async getAuction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const auction = await vendorPortalService.getAuction(req.vendorUser!.vendorId, req.params.rfqId);
+
+      res.json({
+        success: true,
+        data: auction
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Place an auction bid
+   */
+  async placeBid(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const amount = Number(req.body.amount);
+
+      if (!Number.isFinite(amount)) {
+        throw new AppError('Bid amount is required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const result = await vendorPortalService.placeBid(getActor(req), req.params.rfqId, amount);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: result.extended ? 'Bid placed; the auction has been extended' : 'Bid placed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the vendor's quotes
+   */
+  async getQuotes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const quotes = await vendorPortalService.getQuotes(req.vendorUser!.vendorId);
+
+      res.json({
+        success: true,
+        data: quotes,
+        count: quotes.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List purchase orders issued to the vendor
+   */
+  async getPurchaseOrders(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const purchaseOrders = await vendorPortalService.getPurchaseOrders(
+        req.vendorUser!.vendorId,
+        req.query.status as string
+      );
+
+      res.json({
+        success: true,
+        data: purchaseOrders,
+        count: purchaseOrders.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Acknowledge a purchase order
+   */
+  async acknowledgePurchaseOrder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { notes, confirmedDeliveryDate } = req.body;
+
+      const parsedDeliveryDate = confirmedDeliveryDate ? new Date(confirmedDeliveryDate) : undefined;
+      if (parsedDeliveryDate && isNaN(parsedDeliveryDate.getTime())) {
+        throw new AppError('Invalid confirmed delivery date', 400, 'INVALID_DELIVERY_DATE');
+      }
+
+      const purchaseOrder = await vendorPortalService.acknowledgePurchaseOrder(getActor(req), req.params.id, {
+        notes,
+        confirmedDeliveryDate: parsedDeliveryDate
+      });
+
+      res.json({
+        success: true,
+        data: purchaseOrder,
+        message: 'Purchase order acknowledged successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download the signed purchase order document
+   */
+  async getPurchaseOrderDocument(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const document = await vendorPortalService.getPurchaseOrderDocument(req.vendorUser!.vendorId, req.params.id);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${document.fileName}"`);
+      res.setHeader('X-Content-Hash', document.contentHash);
+      res.send(document.pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List amendments issued on a purchase order
+   */
+  async getPurchaseOrderAmendments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const amendments = await vendorPortalService.getPurchaseOrderAmendments(req.vendorUser!.vendorId, req.params.id);
+
+      res.json({
+        success: true,
+        data: amendments,
+        count: amendments.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Acknowledge an amended purchase order revision
+   */
+  async acknowledgeAmendment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const amendment = await vendorPortalService.acknowledgeAmendment(
+        getActor(req),
+        req.params.id,
+        req.params.amendmentId,
+        req.body.notes
+      );
+
+      res.json({
+        success: true,
+        data: amendment,
+        message: `Revision ${amendment.revision} acknowledged successfully`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download the dangerous goods declaration to hand to the forwarder
+   */
+  async getDangerousGoodsDeclaration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const declaration = await dangerousGoodsService.getDeclaration(req.params.id, undefined, req.vendorUser!.vendorId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${declaration.fileName}"`);
+      res.send(declaration.pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Supply the HS code and country of origin of a purchase order line
+   */
+  async updateLineCustomsData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { hsCode, countryOfOrigin } = req.body;
+
+      const line = await customsDocumentService.updateLineCustomsData(req.params.lineItemId, { hsCode, countryOfOrigin }, getActor(req));
+
+      res.json({
+        success: true,
+        data: line
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Material Declaration and SDoC status of the lines on a purchase order
+   */
+  async getIhmDeclarations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = await ihmService.getPurchaseOrderStatus(req.params.id, req.vendorUser!.vendorId);
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Submit a Material Declaration or SDoC for a purchase order line
+   */
+  async submitIhmDeclaration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { type, documentUrl, declarationNumber, declarationDate, supplierName, declaredMaterials } = req.body;
+
+      if (!type || !documentUrl || !declarationDate) {
+        throw new AppError('Missing required fields', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const actor = getActor(req);
+      const declaration = await ihmService.submitDeclaration(req.params.lineItemId, {
+        type,
+        documentUrl,
+        declarationNumber,
+        declarationDate: new Date(declarationDate),
+        supplierName,
+        declaredMaterials
+      }, { vendorUserId: actor.vendorUserId, vendorId: actor.vendorId });
+
+      res.status(201).json({
+        success: true,
+        data: declaration,
+        message: 'Declaration submitted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Upload an invoice against a purchase order
+   */
+  async submitInvoice(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { purchaseOrderId, invoiceNumber, totalAmount, currency, invoiceDate, dueDate, notes } = req.body;
+
+      if (!purchaseOrderId || !invoiceNumber || !totalAmount || !invoiceDate) {
+        throw new AppError('Missing required fields', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const parsedInvoiceDate = new Date(invoiceDate);
+      if (isNaN(parsedInvoiceDate.getTime())) {
+        throw new AppError('Invalid invoice date', 400, 'INVALID_INVOICE_DATE');
+      }
+
+      const parsedDueDate = dueDate ? new Date(dueDate) : undefined;
+      if (parsedDueDate && isNaN(parsedDueDate.getTime())) {
+        throw new AppError('Invalid due date', 400, 'INVALID_DUE_DATE');
+      }
+
+      const result = await vendorPortalService.submitInvoice(getActor(req), {
+        purchaseOrderId,
+        invoiceNumber,
+        totalAmount: parseFloat(totalAmount),
+        currency,
+        invoiceDate: parsedInvoiceDate,
+        dueDate: parsedDueDate,
+        notes
+      }, req.file?.buffer);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Invoice submitted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List invoices the vendor has raised
+   */
+  async getInvoices(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invoices = await vendorPortalService.getInvoices(req.vendorUser!.vendorId);
+
+      res.json({
+        success: true,
+        data: invoices,
+        count: invoices.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List returns raised against the vendor's deliveries
+   */
+  async getReturnRequests(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const returns = await vendorPortalService.getReturnRequests(req.vendorUser!.vendorId);
+
+      res.json({
+        success: true,
+        data: returns,
+        count: returns.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Accept or dispute a return
+   */
+  async acknowledgeReturn(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { accepted, vendorReference, notes } = req.body;
+
+      if (typeof accepted !== 'boolean') {
+        throw new AppError('Whether the return is accepted is required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      if (!accepted && !notes) {
+        throw new AppError('A reason is required when disputing a return', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const returnRequest = await vendorPortalService.acknowledgeReturn(getActor(req), req.params.id, {
+        accepted,
+        vendorReference,
+        notes
+      });
+
+      res.json({
+        success: true,
+        data: returnRequest,
+        message: accepted ? 'Return acknowledged successfully' : 'Return disputed'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const vendorPortalController = new VendorPortalController();
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { vesselService } from '../services/vesselService.js';
+import { portCallService, PortCallUpdateData } from '../services/portCallService.js';
+import { maintenancePlanningService } from '../services/maintenancePlanningService.js';
+import { ihmService } from '../services/ihmService.js';
 import { logger } from '../utils/logger.js';
 import { z } from 'zod';
 
@@ -8,6 +11,7 @@ const createVesselSchema = z.object({
   name: z.string().min(1, 'Vessel name is required'),
   imoNumber: z.string().regex(/^\d{7}$/, 'IMO number must be 7 digits'),
   vesselType: z.string().min(1, 'Vessel type is required'),
+  fleet: z.string().optional(),
   flag: z.string().min(1, 'Flag is required'),
   engineType: z.string().min(1, 'Engine type is required'),
   cargoCapacity: z.number().positive('Cargo capacity must be positive'),
@@ -19,6 +23,7 @@ const createVesselSchema = z.object({
   currentDestination: z.string().optional(),
   currentETA: z.string().datetime().optional(),
   currentRoute: z.string().optional(),
+  maintenanceSystemId: z.string().optional(),
 });
 
 const updateVesselSchema = createVesselSchema.partial().extend({
@@ -54,6 +59,46 @@ const specificationSchema = z.object({
   unit: z.string().optional(),
 });
 
+const portCallSchema = z.object({
+  portCode: z.string().regex(/^[A-Za-z]{2}[A-Za-z0-9]{3}$/, 'Port code must be a UN/LOCODE'),
+  portName: z.string().optional(),
+  eta: z.string().datetime().optional(),
+  etd: z.string().datetime().optional(),
+  berthWindowStart: z.string().datetime().optional(),
+  berthWindowEnd: z.string().datetime().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  notes: z.string().optional(),
+});
+
+const portCallUpdateSchema = portCallSchema.partial().extend({
+  status: z.enum(['PLANNED', 'ARRIVED', 'DEPARTED']).optional(),
+  ata: z.string().datetime().optional(),
+  atd: z.string().datetime().optional(),
+});
+
+const portCallSuggestionSchema = z.object({
+  vendorIds: z.string().optional(),
+  leadTimeDays: z.coerce.number().int().min(0).default(0),
+  requiredBy: z.string().datetime().optional(),
+});
+
+const portCallDates = ['eta', 'etd', 'berthWindowStart', 'berthWindowEnd', 'ata', 'atd'] as const;
+type PortCallDateField = typeof portCallDates[number];
+
+// Convert the schedule's ISO strings to Date objects
+const toPortCallData = <T extends Partial<Record<PortCallDateField, string>>>(
+  data: T
+): Omit<T, PortCallDateField> & Pick<PortCallUpdateData, PortCallDateField> => {
+  const dates: Pick<PortCallUpdateData, PortCallDateField> = {};
+  portCallDates.forEach(field => {
+    if (data[field]) {
+      dates[field] = new Date(data[field]!);
+    }
+  });
+  return { ...data, ...dates };
+};
+
 class VesselController {
   /**
    * Create a new vessel
@@ -481,6 +526,221 @@ class VesselController {
     }
   }
 
+  /**
+   * Get the vessel's port call schedule
+   */
+  async getPortCalls(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const portCalls = await portCallService.getSchedule(id, req.query.includeCompleted === 'true');
+
+      res.json({
+        success: true,
+        data: portCalls,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a port call to the vessel's schedule
+   */
+  async createPortCall(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const validatedData = portCallSchema.parse(req.body);
+
+      const portCall = await portCallService.createPortCall(id, toPortCallData(validatedData), req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: portCall,
+        message: 'Port call added successfully',
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Update a port call; returns deliveries that no longer match a revised ETA
+   */
+  async updatePortCall(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, portCallId } = req.params;
+      const validatedData = portCallUpdateSchema.parse(req.body);
+
+      await portCallService.getOpenPortCallForVessel(portCallId, id);
+      const result = await portCallService.updatePortCall(portCallId, toPortCallData(validatedData), req.user!.id);
+
+      res.json({
+        success: true,
+        data: result.portCall,
+        warnings: result.warnings,
+        message: 'Port call updated successfully',
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel a port call
+   */
+  async cancelPortCall(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, portCallId } = req.params;
+
+      await portCallService.getOpenPortCallForVessel(portCallId, id);
+      const result = await portCallService.cancelPortCall(portCallId, req.user!.id, req.body.reason);
+
+      res.json({
+        success: true,
+        data: result.portCall,
+        warnings: result.warnings,
+        message: 'Port call cancelled successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update the schedule from the vessel's best available AIS/GPS position
+   */
+  async syncPortCallsFromPosition(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const result = await portCallService.syncFromPosition(id);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Suggest the port call to deliver to for the given vendors and lead time
+   */
+  async getPortCallSuggestion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const query = portCallSuggestionSchema.parse(req.query);
+
+      const suggestion = await portCallService.suggestPortCall({
+        vesselId: id,
+        vendorIds: query.vendorIds ? query.vendorIds.split(',') : [],
+        leadTimeDays: query.leadTimeDays,
+        requiredBy: query.requiredBy ? new Date(query.requiredBy) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: suggestion,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Get open deliveries and RFQs whose planned date no longer matches the vessel's ETA
+   */
+  async getPortCallWarnings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const warnings = await portCallService.getEtaWarnings({ vesselId: id });
+
+      res.json({
+        success: true,
+        data: warnings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the spare-part plan for upcoming maintenance jobs
+   */
+  async getMaintenancePlan(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { systemId } = req.query;
+      const plan = await maintenancePlanningService.getMaintenancePlan(id, systemId as string | undefined);
+
+      res.json({
+        success: true,
+        data: plan,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Draft requisitions for maintenance jobs whose parts must be ordered now
+   */
+  async draftMaintenanceRequisitions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { systemId } = req.body;
+      const plan = await maintenancePlanningService.draftDueRequisitions(id, req.user!.id, systemId);
+
+      res.json({
+        success: true,
+        data: plan,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * IHM maintenance report: missing declarations and pending IHM updates
+   */
+  async getIhmReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const report = await ihmService.getVesselReport(id);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Deactivate vessel
    */
@@ -1,12 +1,39 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { workflowEngine } from '../services/workflowEngine';
-import { ApprovalThreshold, EmergencyBypass } from '../models/WorkflowRule';
+import { workflowEngine, REQUISITION_WORKFLOW_INCLUDE } from '../services/workflowEngine';
+import { workflowRuleService } from '../services/workflowRuleService';
+import { approvalSlaService } from '../services/approvalSlaService';
+import { ResolvedWorkflowRules } from '../models/WorkflowRule';
 import { AuditService } from '../services/auditService';
+import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { hasVesselAccess } from '../middleware/vesselAccess';
 
 const prisma = new PrismaClient();
 
+const sendAppError = (res: Response, error: AppError) =>
+  res.status(error.statusCode).json({
+    success: false,
+    error: error.message,
+    code: error.errorCode
+  });
+
+// The routes are keyed by requisition, so the vessel is checked once the requisition is loaded
+const assertRequisitionAccess = async (req: Request): Promise<void> => {
+  const requisition = await prisma.requisition.findUnique({
+    where: { id: req.params.requisitionId },
+    select: { vesselId: true }
+  });
+
+  if (!requisition) {
+    throw new AppError('Requisition not found', 404, 'REQUISITION_NOT_FOUND');
+  }
+
+  if (!req.user || !hasVesselAccess(req.user, requisition.vesselId)) {
+    throw new AppError('Access denied to vessel', 403, 'VESSEL_ACCESS_DENIED');
+  }
+};
+
 export class WorkflowController {
   
   /**
@@ -18,20 +45,7 @@ export class WorkflowController {
       
       const requisition = await prisma.requisition.findUnique({
         where: { id: requisitionId },
-        include: {
-          vessel: true,
-          requestedBy: true,
-          items: {
-            include: {
-              itemCatalog: {
-                select: {
-                  criticalityLevel: true,
-                  category: true
-                }
-              }
-            }
-          }
-        }
+        include: REQUISITION_WORKFLOW_INCLUDE
       });
 
       if (!requisition) {
@@ -41,7 +55,7 @@ export class WorkflowController {
         });
       }
 
-      const decision = await workflowEngine.evaluateRequisition(requisition);
+      const decision = await workflowEngine.evaluateRequisition(requisition, { evaluatedById: req.user.id });
       
       // Log the evaluation
       await AuditService.logAction(
@@ -79,20 +93,7 @@ export class WorkflowController {
       
       const requisition = await prisma.requisition.findUnique({
         where: { id: requisitionId },
-        include: {
-          vessel: true,
-          requestedBy: true,
-          items: {
-            include: {
-              itemCatalog: {
-                select: {
-                  criticalityLevel: true,
-                  category: true
-                }
-              }
-            }
-          }
-        }
+        include: REQUISITION_WORKFLOW_INCLUDE
       });
 
       if (!requisition) {
@@ -103,7 +104,7 @@ export class WorkflowController {
       }
 
       // Evaluate workflow
-      const decision = await workflowEngine.evaluateRequisition(requisition);
+      const decision = await workflowEngine.evaluateRequisition(requisition, { evaluatedById: req.user.id });
       
       // Create approval workflow
       await workflowEngine.createApprovalWorkflow(requisitionId, decision);
@@ -152,49 +153,18 @@ export class WorkflowController {
    */
   async getApprovalThresholds(req: Request, res: Response) {
     try {
-      // In production, these would be stored in database
-      const thresholds = [
-        {
-          minAmount: 0,
-          maxAmount: 500,
-          currency: 'USD',
-          requiredRole: 'AUTO_APPROVE',
-          approverLevel: 0,
-          budgetHierarchy: 'VESSEL',
-          costCenterRequired: false
-        },
-        {
-          minAmount: 500,
-          maxAmount: 5000,
-          currency: 'USD',
-          requiredRole: 'SUPERINTENDENT',
-          approverLevel: 1,
-          budgetHierarchy: 'VESSEL',
-          costCenterRequired: true
-        },
-        {
-          minAmount: 5000,
-          maxAmount: 25000,
-          currency: 'USD',
-          requiredRole: 'PROCUREMENT_MANAGER',
-          approverLevel: 2,
-          budgetHierarchy: 'FLEET',
-          costCenterRequired: true
-        },
-        {
-          minAmount: 25000,
-          maxAmount: Number.MAX_SAFE_INTEGER,
-          currency: 'USD',
-          requiredRole: 'FINANCE_TEAM',
-          approverLevel: 3,
-          budgetHierarchy: 'COMPANY',
-          costCenterRequired: true
-        }
-      ];
+      const { fleet, vesselType } = req.query;
+
+      const rules = await workflowRuleService.resolveActiveRules({
+        fleet: fleet as string,
+        vesselType: vesselType as string
+      });
+      const thresholds = rules.approvalThresholds;
 
       res.json({
         success: true,
-        data: thresholds
+        data: thresholds,
+        ruleSet: { id: rules.ruleSetId, name: rules.name, version: rules.version }
       });
 
     } catch (error) {
@@ -222,7 +192,7 @@ export class WorkflowController {
 
       // Validate threshold structure
       for (const threshold of thresholds) {
-        if (!threshold.minAmount || !threshold.maxAmount || !threshold.requiredRole) {
+        if (typeof threshold.minAmount !== 'number' || typeof threshold.maxAmount !== 'number' || !threshold.requiredRole) {
           return res.status(400).json({
             success: false,
             error: 'Invalid threshold structure'
@@ -230,7 +200,7 @@ export class WorkflowController {
         }
       }
 
-      await workflowEngine.updateApprovalThresholds(thresholds);
+      await workflowEngine.updateApprovalThresholds(thresholds, req.user.id);
 
       // Log the configuration change
       await AuditService.logAction(
@@ -249,6 +219,9 @@ export class WorkflowController {
 
     } catch (error) {
       logger.error('Error updating approval thresholds:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
       res.status(500).json({
         success: false,
         error: 'Failed to update approval thresholds'
@@ -261,35 +234,18 @@ export class WorkflowController {
    */
   async getEmergencyBypasses(req: Request, res: Response) {
     try {
-      const bypasses = [
-        {
-          urgencyLevel: 'EMERGENCY',
-          criticalityLevel: 'SAFETY_CRITICAL',
-          allowedRoles: ['CAPTAIN', 'CHIEF_ENGINEER'],
-          requiresPostApproval: true,
-          expirationHours: 24
-        },
-        {
-          urgencyLevel: 'EMERGENCY',
-          criticalityLevel: 'OPERATIONAL_CRITICAL',
-          allowedRoles: ['CAPTAIN', 'CHIEF_ENGINEER', 'SUPERINTENDENT'],
-          requiresPostApproval: true,
-          maxAmount: 10000,
-          expirationHours: 12
-        },
-        {
-          urgencyLevel: 'URGENT',
-          criticalityLevel: 'SAFETY_CRITICAL',
-          allowedRoles: ['CAPTAIN', 'CHIEF_ENGINEER'],
-          requiresPostApproval: false,
-          maxAmount: 5000,
-          expirationHours: 6
-        }
-      ];
+      const { fleet, vesselType } = req.query;
+
+      const rules = await workflowRuleService.resolveActiveRules({
+        fleet: fleet as string,
+        vesselType: vesselType as string
+      });
+      const bypasses = rules.emergencyBypasses;
 
       res.json({
         success: true,
-        data: bypasses
+        data: bypasses,
+        ruleSet: { id: rules.ruleSetId, name: rules.name, version: rules.version }
       });
 
     } catch (error) {
@@ -315,7 +271,7 @@ export class WorkflowController {
         });
       }
 
-      await workflowEngine.updateEmergencyBypasses(bypasses);
+      await workflowEngine.updateEmergencyBypasses(bypasses, req.user.id);
 
       // Log the configuration change
       await AuditService.logAction(
@@ -334,6 +290,9 @@ export class WorkflowController {
 
     } catch (error) {
       logger.error('Error updating emergency bypasses:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
       res.status(500).json({
         success: false,
         error: 'Failed to update emergency bypasses'
@@ -482,6 +441,398 @@ export class WorkflowController {
     }
   }
 
+  /**
+   * Get the approval graph state for a requisition
+   */
+  async getApprovalGraph(req: Request, res: Response) {
+    try {
+      await assertRequisitionAccess(req);
+      const graph = await workflowEngine.getApprovalGraph(req.params.requisitionId);
+
+      res.json({
+        success: true,
+        data: graph
+      });
+
+    } catch (error) {
+      logger.error('Error getting approval graph:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get approval graph'
+      });
+    }
+  }
+
+  /**
+   * Approve or reject an assigned approval and advance the graph
+   */
+  async recordApprovalDecision(req: Request, res: Response) {
+    try {
+      const { approvalId } = req.params;
+      const { status, comments } = req.body;
+
+      if (status !== 'APPROVED' && status !== 'REJECTED') {
+        return res.status(400).json({
+          success: false,
+          error: 'Status must be APPROVED or REJECTED'
+        });
+      }
+
+      if (status === 'REJECTED' && !comments) {
+        return res.status(400).json({
+          success: false,
+          error: 'Comments are required when rejecting'
+        });
+      }
+
+      const graph = await workflowEngine.recordApprovalDecision(approvalId, req.user.id, status, comments);
+
+      res.json({
+        success: true,
+        data: graph,
+        message: status === 'APPROVED' ? 'Approval recorded' : 'Rejection recorded'
+      });
+
+    } catch (error) {
+      logger.error('Error recording approval decision:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to record approval decision'
+      });
+    }
+  }
+
+  /**
+   * List versioned workflow rule sets
+   */
+  async listRuleSets(req: Request, res: Response) {
+    try {
+      const { fleet, vesselType, status } = req.query;
+
+      const ruleSets = await workflowRuleService.listRuleSets({
+        fleet: fleet as string | undefined,
+        vesselType: vesselType as string | undefined,
+        status: status as any
+      });
+
+      res.json({
+        success: true,
+        data: ruleSets
+      });
+
+    } catch (error) {
+      logger.error('Error listing workflow rule sets:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list workflow rule sets'
+      });
+    }
+  }
+
+  /**
+   * Get a workflow rule set
+   */
+  async getRuleSet(req: Request, res: Response) {
+    try {
+      const ruleSet = await workflowRuleService.getRuleSet(req.params.ruleSetId);
+
+      res.json({
+        success: true,
+        data: ruleSet
+      });
+
+    } catch (error) {
+      logger.error('Error getting workflow rule set:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get workflow rule set'
+      });
+    }
+  }
+
+  /**
+   * Create a draft rule set version
+   */
+  async createRuleSet(req: Request, res: Response) {
+    try {
+      const { name, description, fleet, vesselType, approvalThresholds, emergencyBypasses, approvalSlas, basedOnId } = req.body;
+
+      if (!name) {
+        return res.status(400).json({
+          success: false,
+          error: 'Rule set name is required'
+        });
+      }
+
+      const ruleSet = await workflowRuleService.createDraft({
+        name,
+        description,
+        fleet,
+        vesselType,
+        approvalThresholds,
+        emergencyBypasses,
+        approvalSlas,
+        basedOnId
+      }, req.user.id);
+
+      res.status(201).json({
+        success: true,
+        data: ruleSet,
+        message: `Draft rule set version ${ruleSet.version} created`
+      });
+
+    } catch (error) {
+      logger.error('Error creating workflow rule set:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create workflow rule set'
+      });
+    }
+  }
+
+  /**
+   * Edit a draft rule set
+   */
+  async updateRuleSet(req: Request, res: Response) {
+    try {
+      const { name, description, approvalThresholds, emergencyBypasses, approvalSlas } = req.body;
+
+      const ruleSet = await workflowRuleService.updateDraft(req.params.ruleSetId, {
+        name,
+        description,
+        approvalThresholds,
+        emergencyBypasses,
+        approvalSlas
+      }, req.user.id);
+
+      res.json({
+        success: true,
+        data: ruleSet,
+        message: 'Draft rule set updated successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error updating workflow rule set:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update workflow rule set'
+      });
+    }
+  }
+
+  /**
+   * Publish a draft rule set with effective dates
+   */
+  async publishRuleSet(req: Request, res: Response) {
+    try {
+      const { effectiveFrom, effectiveTo } = req.body;
+
+      const ruleSet = await workflowRuleService.publishRuleSet(req.params.ruleSetId, {
+        effectiveFrom: effectiveFrom ? new Date(effectiveFrom) : undefined,
+        effectiveTo: effectiveTo ? new Date(effectiveTo) : undefined
+      }, req.user.id);
+
+      res.json({
+        success: true,
+        data: ruleSet,
+        message: `Rule set version ${ruleSet.version} published`
+      });
+
+    } catch (error) {
+      logger.error('Error publishing workflow rule set:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to publish workflow rule set'
+      });
+    }
+  }
+
+  /**
+   * Retire a rule set
+   */
+  async retireRuleSet(req: Request, res: Response) {
+    try {
+      const ruleSet = await workflowRuleService.retireRuleSet(req.params.ruleSetId, req.user.id);
+
+      res.json({
+        success: true,
+        data: ruleSet,
+        message: 'Rule set retired successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error retiring workflow rule set:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retire workflow rule set'
+      });
+    }
+  }
+
+  /**
+   * Dry run a requisition against a draft rule set (or inline rules) without creating approvals
+   */
+  async simulateRequisitionWorkflow(req: Request, res: Response) {
+    try {
+      const { requisitionId } = req.params;
+      const { ruleSetId, approvalThresholds, emergencyBypasses } = req.body;
+
+      if (!ruleSetId && !approvalThresholds && !emergencyBypasses) {
+        return res.status(400).json({
+          success: false,
+          error: 'Provide a ruleSetId or the rules to simulate'
+        });
+      }
+
+      let draftRules: ResolvedWorkflowRules;
+      if (ruleSetId) {
+        draftRules = workflowRuleService.toResolvedRules(await workflowRuleService.getRuleSet(ruleSetId));
+      } else {
+        const current = await workflowRuleService.resolveActiveRules({});
+        draftRules = {
+          ...current,
+          ruleSetId: null,
+          version: null,
+          name: 'Unsaved draft',
+          approvalThresholds: approvalThresholds || current.approvalThresholds,
+          emergencyBypasses: emergencyBypasses || current.emergencyBypasses
+        };
+        workflowRuleService.validateRules(draftRules);
+      }
+
+      const result = await workflowEngine.simulateRequisition(requisitionId, draftRules, req.user.id);
+
+      res.json({
+        success: true,
+        data: {
+          requisitionId,
+          ...result
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error simulating requisition workflow:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to simulate workflow'
+      });
+    }
+  }
+
+  /**
+   * Get workflow evaluations recorded for a requisition, with the rule version used
+   */
+  async getEvaluationHistory(req: Request, res: Response) {
+    try {
+      await assertRequisitionAccess(req);
+      const evaluations = await workflowRuleService.getEvaluationHistory(
+        req.params.requisitionId,
+        req.query.includeSimulations === 'true'
+      );
+
+      res.json({
+        success: true,
+        data: evaluations
+      });
+
+    } catch (error) {
+      logger.error('Error getting workflow evaluation history:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get workflow evaluation history'
+      });
+    }
+  }
+
+  /**
+   * Get pending approvals that are past their SLA
+   */
+  async getOverdueApprovals(req: Request, res: Response) {
+    try {
+      const { vesselId, urgencyLevel, approverId } = req.query;
+
+      if (urgencyLevel && !['ROUTINE', 'URGENT', 'EMERGENCY'].includes(urgencyLevel as string)) {
+        return res.status(400).json({
+          success: false,
+          error: 'urgencyLevel must be ROUTINE, URGENT or EMERGENCY'
+        });
+      }
+
+      const report = await approvalSlaService.getOverdueApprovals({
+        vesselId: vesselId as string | undefined,
+        urgencyLevel: urgencyLevel as any,
+        approverId: approverId as string | undefined
+      });
+
+      res.json({
+        success: true,
+        data: report
+      });
+
+    } catch (error) {
+      logger.error('Error getting overdue approvals:', error);
+      if (error instanceof AppError) {
+        return sendAppError(res, error);
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get overdue approvals'
+      });
+    }
+  }
+
+  /**
+   * Run the approval SLA check immediately
+   */
+  async runApprovalSlaCheck(req: Request, res: Response) {
+    try {
+      const result = await approvalSlaService.processOverdueApprovals();
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.reminded} reminders sent, ${result.escalated} approvals escalated`
+      });
+
+    } catch (error) {
+      logger.error('Error running approval SLA check:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to run approval SLA check'
+      });
+    }
+  }
+
   private getCurrentBudgetPeriod(): string {
     const now = new Date();
     const year = now.getFullYear();
@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { verifyVendorAccessToken, extractTokenFromHeader } from '../utils/jwt.js';
+
+const prisma = new PrismaClient();
+
+// Extend Express Request type to include the vendor portal user
+declare global {
+  namespace Express {
+    interface Request {
+      vendorUser?: {
+        id: string;
+        vendorId: string;
+        email: string;
+      };
+    }
+  }
+}
+
+/**
+ * Vendor portal authentication middleware.
+ * Only accepts vendor-realm tokens; crew and shore tokens are rejected.
+ */
+export const authenticateVendor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = extractTokenFromHeader(req.headers.authorization);
+
+    if (!token) {
+      return res.status(401).json({
+        success: false,
+        error: 'Access token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    let decoded;
+    try {
+      decoded = verifyVendorAccessToken(token);
+    } catch (error: any) {
+      await logSecurityEvent({
+        action: 'VENDOR_TOKEN_VALIDATION_FAILED',
+        resource: req.path,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        metadata: {
+          error: error.message
+        }
+      });
+
+      return res.status(403).json({
+        success: false,
+        error: 'Invalid or expired token',
+        code: 'TOKEN_INVALID'
+      });
+    }
+
+    // Ensure both the portal account and the vendor are still active
+    const vendorUser = await prisma.vendorUser.findUnique({
+      where: { id: decoded.vendorUserId },
+      include: {
+        vendor: {
+          select: { id: true, isActive: true }
+        }
+      }
+    });
+
+    if (!vendorUser || !vendorUser.isActive || !vendorUser.vendor.isActive || vendorUser.vendorId !== decoded.vendorId) {
+      await logSecurityEvent({
+        action: 'INACTIVE_VENDOR_ACCESS_ATTEMPT',
+        resource: req.path,
+        ipAddress: req.ip,
+        metadata: {
+          vendorUserId: decoded.vendorUserId,
+          vendorId: decoded.vendorId
+        }
+      });
+
+      return res.status(403).json({
+        success: false,
+        error: 'Vendor account is inactive',
+        code: 'VENDOR_INACTIVE'
+      });
+    }
+
+    req.vendorUser = {
+      id: vendorUser.id,
+      vendorId: vendorUser.vendorId,
+      email: vendorUser.email
+    };
+
+    next();
+  } catch (error) {
+    console.error('Vendor authentication middleware error:', error);
+
+    return res.status(500).json({
+      success: false,
+      error: 'Authentication error',
+      code: 'AUTH_ERROR'
+    });
+  }
+};
+
+/**
+ * Helper function to log security events
+ */
+async function logSecurityEvent(event: {
+  action: string;
+  resource: string;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: any;
+}): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        action: 'SECURITY_EVENT',
+        resource: event.resource,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        category: 'AUTHENTICATION',
+        metadata: {
+          event: event.action,
+          ...event.metadata
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
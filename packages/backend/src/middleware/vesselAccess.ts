@@ -234,6 +234,21 @@ export const validateMultipleVesselAccess = (vesselIdsParam: string = 'vesselIds
   };
 };
 
+/**
+ * Check a user's access to a vessel resolved from a resource rather than the request
+ */
+export const hasVesselAccess = (user: NonNullable<Request['user']>, vesselId: string): boolean => {
+  return hasFleetAccess(user) || user.vessels.includes(vesselId);
+};
+
+/**
+ * Whether a user's role gives access to every vessel, so lists need not be narrowed to their assignments
+ */
+export const hasFleetAccess = (user: NonNullable<Request['user']>): boolean => {
+  const privilegedRoles = ['ADMIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER'];
+  return privilegedRoles.includes(user.role);
+};
+
 /**
  * Helper function to log security events
  */
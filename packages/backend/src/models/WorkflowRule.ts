@@ -37,6 +37,51 @@ export interface ApprovalThreshold {
   approverLevel: number;
   budgetHierarchy: 'VESSEL' | 'FLEET' | 'COMPANY';
   costCenterRequired: boolean;
+  approvalGraph?: ApprovalGraphDefinition; // Staged / parallel approvals; requiredRole is used when no branch applies
+}
+
+/**
+ * Branch condition for an approval stage or group. The branch applies when any
+ * requisition item matches one of the listed categories or criticality levels
+ * and the requisition amount is at least minAmount.
+ */
+export interface ApprovalBranchCondition {
+  categories?: string[];
+  criticalityLevels?: CriticalityLevel[];
+  minAmount?: number;
+}
+
+export interface ApprovalGroupDefinition {
+  key: string;
+  name: string;
+  approverRoles: string[];
+  mode: 'ALL' | 'ANY';
+  requiredApprovals?: number; // ANY mode only, defaults to 1
+  condition?: ApprovalBranchCondition;
+}
+
+export interface ApprovalStageDefinition {
+  name: string;
+  groups: ApprovalGroupDefinition[]; // Groups in a stage run in parallel
+  condition?: ApprovalBranchCondition;
+}
+
+export interface ApprovalGraphDefinition {
+  stages: ApprovalStageDefinition[]; // Stages run in order
+}
+
+/**
+ * Approval graph with branch conditions already evaluated for one requisition
+ */
+export interface ResolvedApprovalGroup extends ApprovalGroupDefinition {
+  stage: number;
+  stageName: string;
+  applies: boolean;
+  conditionSummary?: string;
+}
+
+export interface ResolvedApprovalGraph {
+  groups: ResolvedApprovalGroup[];
 }
 
 export interface BudgetHierarchy {
@@ -57,6 +102,18 @@ export interface EmergencyBypass {
   expirationHours: number;
 }
 
+/**
+ * How long an approval may stay pending before the approver is reminded and
+ * then escalated to their delegate or the next approval level
+ */
+export interface ApprovalSla {
+  urgencyLevel: UrgencyLevel;
+  reminderAfterHours: number;
+  reminderIntervalHours: number;
+  escalateAfterHours: number;
+  maxEscalations: number;
+}
+
 export const DEFAULT_APPROVAL_THRESHOLDS: ApprovalThreshold[] = [
   {
     minAmount: 0,
@@ -120,4 +177,54 @@ export const DEFAULT_EMERGENCY_BYPASSES: EmergencyBypass[] = [
     maxAmount: 5000,
     expirationHours: 6
   }
-];
\ No newline at end of file
+];
+export const DEFAULT_APPROVAL_SLAS: ApprovalSla[] = [
+  {
+    urgencyLevel: 'ROUTINE',
+    reminderAfterHours: 12,
+    reminderIntervalHours: 12,
+    escalateAfterHours: 24,
+    maxEscalations: 2
+  },
+  {
+    urgencyLevel: 'URGENT',
+    reminderAfterHours: 1,
+    reminderIntervalHours: 1,
+    escalateAfterHours: 2,
+    maxEscalations: 3
+  },
+  {
+    urgencyLevel: 'EMERGENCY',
+    reminderAfterHours: 0.5,
+    reminderIntervalHours: 0.5,
+    escalateAfterHours: 1,
+    maxEscalations: 3
+  }
+];
+
+export interface WorkflowRuleSetConfig {
+  approvalThresholds: ApprovalThreshold[];
+  emergencyBypasses: EmergencyBypass[];
+  approvalSlas?: ApprovalSla[];
+}
+
+/**
+ * Rules in force for an evaluation, with the rule set version they came from.
+ * ruleSetId and version are null when the built-in defaults are used.
+ */
+export interface ResolvedWorkflowRules extends WorkflowRuleSetConfig {
+  ruleSetId: string | null;
+  version: number | null;
+  name: string;
+  fleet?: string | null;
+  vesselType?: string | null;
+}
+
+export const DEFAULT_WORKFLOW_RULES: ResolvedWorkflowRules = {
+  ruleSetId: null,
+  version: null,
+  name: 'Built-in defaults',
+  approvalThresholds: DEFAULT_APPROVAL_THRESHOLDS,
+  emergencyBypasses: DEFAULT_EMERGENCY_BYPASSES,
+  approvalSlas: DEFAULT_APPROVAL_SLAS
+};
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { auctionController } from '../controllers/auctionController';
+import { authenticateToken } from '../middleware/authentication';
+import { authorizeRole } from '../middleware/authorization';
+import { auditLogger } from '../middleware/auditLogger';
+import { rateLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// Apply authentication to all auction routes
+router.use(authenticateToken);
+router.use(auditLogger());
+
+// Apply rate limiting
+router.use(rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 300, // standings are polled while an auction runs
+  message: 'Too many auction requests, please try again later'
+}));
+
+// Reverse auctions on RFQs
+router.post(
+  '/rfqs/:rfqId',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  auctionController.createAuction
+);
+
+router.get(
+  '/rfqs/:rfqId',
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  auctionController.getAuction
+);
+
+router.post(
+  '/rfqs/:rfqId/cancel',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  auctionController.cancelAuction
+);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { consolidationController } from '../controllers/consolidationController';
+import { authenticateToken } from '../middleware/authentication';
+import { authorizeRole } from '../middleware/authorization';
+import { auditLogger } from '../middleware/auditLogger';
+import { rateLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// Apply authentication to all consolidation routes
+router.use(authenticateToken);
+router.use(auditLogger());
+
+// Apply rate limiting
+router.use(rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100, // limit each IP to 100 requests per windowMs
+  message: 'Too many consolidation requests, please try again later'
+}));
+
+// Workbench of requisitions that can be bought together across the fleet
+router.get(
+  '/candidates',
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  consolidationController.getCandidates
+);
+
+// Consolidated RFQs
+router.post(
+  '/rfqs',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  consolidationController.createConsolidatedRFQ
+);
+
+router.get(
+  '/rfqs/:rfqId',
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  consolidationController.getConsolidatedRFQ
+);
+
+// Fan an accepted quote back out to each vessel's requisition
+router.post(
+  '/quotes/:quoteId/purchase-orders',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  consolidationController.generatePurchaseOrders
+);
+
+export default router;
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { contractController } from '../controllers/contractController';
+import { authenticateToken } from '../middleware/authentication';
+import { authorizeRole } from '../middleware/authorization';
+import { auditLogger } from '../middleware/auditLogger';
+import { rateLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// Apply authentication to all contract routes
+router.use(authenticateToken);
+router.use(auditLogger());
+
+// Apply rate limiting
+router.use(rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 200, // limit each IP to 200 requests per windowMs
+  message: 'Too many contract requests, please try again later'
+}));
+
+// Contract management routes
+router.post(
+  '/',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  contractController.createContract
+);
+
+router.get(
+  '/',
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  contractController.getContracts
+);
+
+router.get(
+  '/utilisation',
+  authorizeRole(['PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  contractController.getUtilisationReport
+);
+
+// Requisition call-offs against contracts
+router.get(
+  '/requisitions/:requisitionId/coverage',
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  contractController.getRequisitionCoverage
+);
+
+router.post(
+  '/requisitions/:requisitionId/purchase-order',
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
+  contractController.createPurchaseOrderFromContract
+);
+
+router.get(
+  '/:id',
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  contractController.getContractById
+);
+
+router.put(
+  '/:id',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  contractController.updateContract
+);
+
+router.post(
+  '/:id/status',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  contractController.updateContractStatus
+);
+
+export default router;
@@ -36,6 +36,55 @@ router.post(
   deliveryController.confirmDelivery
 );
 
+// Get line-level receipt status for a purchase order
+router.get(
+  '/purchase-order/:purchaseOrderId/receipt-status',
+  rateLimiter('delivery_receipt_status', 50, 60), // 50 requests per minute
+  deliveryController.getPurchaseOrderReceiptStatus
+);
+
+// Suggest the port call to deliver a purchase order to
+const portCallSuggestionRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100,
+  message: 'Too many port call suggestion requests, please try again later'
+});
+
+router.get(
+  '/purchase-order/:purchaseOrderId/port-call-suggestion',
+  portCallSuggestionRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'VESSEL_CREW', 'CHIEF_ENGINEER', 'CAPTAIN', 'ADMIN']),
+  deliveryController.getPortCallSuggestion
+);
+
+// Ship spares in transit: customs documents and clearance
+const customsRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100,
+  message: 'Too many customs requests, please try again later'
+});
+
+router.get(
+  '/:id/customs',
+  customsRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'CAPTAIN', 'CHIEF_ENGINEER', 'SUPERINTENDENT', 'ADMIN']),
+  deliveryController.getCustomsSummary
+);
+
+router.get(
+  '/:id/customs/documents/:type',
+  customsRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'CAPTAIN', 'SUPERINTENDENT', 'ADMIN']),
+  deliveryController.getCustomsDocument
+);
+
+router.post(
+  '/:id/customs/events',
+  customsRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'CAPTAIN', 'SUPERINTENDENT', 'ADMIN']),
+  deliveryController.recordCustomsEvent
+);
+
 // Get delivery tracking information
 router.get(
   '/:id/tracking',
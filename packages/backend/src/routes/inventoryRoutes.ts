@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { inventoryController } from '../controllers/inventoryController';
+import { authenticateToken } from '../middleware/authentication';
+import { authorizeRole } from '../middleware/authorization';
+import { validateVesselAccess } from '../middleware/vesselAccess';
+import { auditLogger } from '../middleware/auditLogger';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(auditLogger());
+
+/**
+ * @route GET /api/inventory/vessel/:vesselId
+ * @desc Get Remaining On Board (ROB) for a vessel
+ * @access Private - Requires vessel access
+ */
+router.get(
+  '/vessel/:vesselId',
+  validateVesselAccess(),
+  inventoryController.getVesselInventory
+);
+
+/**
+ * @route GET /api/inventory/vessel/:vesselId/transactions
+ * @desc Get stock movement history for a vessel
+ * @access Private - Requires vessel access
+ */
+router.get(
+  '/vessel/:vesselId/transactions',
+  validateVesselAccess(),
+  inventoryController.getTransactions
+);
+
+/**
+ * @route PUT /api/inventory/vessel/:vesselId/levels
+ * @desc Set min/max stock levels for an item on board
+ * @access Private - Chief Engineer, Captain, Superintendent, Admin
+ */
+router.put(
+  '/vessel/:vesselId/levels',
+  validateVesselAccess(),
+  authorizeRole(['CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'ADMIN']),
+  inventoryController.setStockLevels
+);
+
+/**
+ * @route POST /api/inventory/vessel/:vesselId/issues
+ * @desc Record stock issued or consumed on board
+ * @access Private - Vessel Crew, Chief Engineer, Captain
+ */
+router.post(
+  '/vessel/:vesselId/issues',
+  validateVesselAccess(),
+  authorizeRole(['VESSEL_CREW', 'CHIEF_ENGINEER', 'CAPTAIN', 'ADMIN']),
+  inventoryController.recordIssue
+);
+
+/**
+ * @route POST /api/inventory/vessel/:vesselId/counts
+ * @desc Record a physical stock count
+ * @access Private - Chief Engineer, Captain, Superintendent
+ */
+router.post(
+  '/vessel/:vesselId/counts',
+  validateVesselAccess(),
+  authorizeRole(['CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'ADMIN']),
+  inventoryController.recordStockCount
+);
+
+/**
+ * @route GET /api/inventory/items/:id
+ * @desc Get inventory item with recent movements
+ * @access Private - Requires access to the item's vessel
+ */
+router.get(
+  '/items/:id',
+  inventoryController.getInventoryItem
+);
+
+export default router;
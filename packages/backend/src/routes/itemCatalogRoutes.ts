@@ -29,7 +29,11 @@ router.get('/autocomplete/advanced', itemCatalogController.getAdvancedAutocomple
 router.get('/specifications/templates', itemCatalogController.getSpecificationTemplates);
 router.get('/impa/:impaCode', itemCatalogController.getItemByImpaCode);
 router.get('/issa/:issaCode', itemCatalogController.getItemByIssaCode);
+router.get('/part-number/:partNumber', itemCatalogController.getItemByPartNumber);
 router.get('/:id', itemCatalogController.getItemById);
+router.get('/:id/equivalents', itemCatalogController.getEquivalentItems);
+router.get('/:id/supersession', itemCatalogController.getSupersessionChain);
+router.get('/:id/safety-data-sheets', itemCatalogController.getSafetyDataSheets);
 
 // Vessel compatibility check (vessel crew and above)
 router.post('/compatibility/check', 
@@ -63,6 +67,43 @@ router.post('/pricing/bulk-update',
   itemCatalogController.bulkUpdatePricingFromQuotes
 );
 
+// Part number cross-references, equivalence and supersession (procurement manager and admin only)
+router.post('/:id/part-references', 
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  itemCatalogController.addPartReference
+);
+
+router.delete('/:id/part-references/:referenceId', 
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  itemCatalogController.removePartReference
+);
+
+router.post('/equivalence-groups', 
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  itemCatalogController.createEquivalenceGroup
+);
+
+router.put('/:id/equivalence-group', 
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  itemCatalogController.setEquivalenceGroup
+);
+
+router.post('/:id/supersede', 
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  itemCatalogController.supersedeItem
+);
+
+router.delete('/:id/supersession', 
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  itemCatalogController.clearSupersession
+);
+
+// Safety data sheets for dangerous goods (procurement manager and admin only)
+router.post('/:id/safety-data-sheets', 
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  itemCatalogController.addSafetyDataSheet
+);
+
 router.delete('/:id', 
   authorizeRole(['admin']),
   itemCatalogController.deleteItem
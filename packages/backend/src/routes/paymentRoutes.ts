@@ -61,4 +61,54 @@ router.get(
   paymentController.getPendingPayments
 );
 
+// Credit and debit notes
+const adjustmentNoteRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100,
+  message: 'Too many adjustment note requests, please try again later'
+});
+
+router.post(
+  '/adjustment-notes',
+  adjustmentNoteRateLimit,
+  authorizeRole(['FINANCE_TEAM', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  paymentController.createAdjustmentNote
+);
+
+router.get(
+  '/adjustment-notes',
+  adjustmentNoteRateLimit,
+  authorizeRole(['FINANCE_TEAM', 'PROCUREMENT_MANAGER', 'ADMIN', 'SUPERINTENDENT']),
+  paymentController.getAdjustmentNotes
+);
+
+router.post(
+  '/adjustment-notes/:noteId/issue',
+  adjustmentNoteRateLimit,
+  authorizeRole(['FINANCE_TEAM', 'ADMIN']),
+  paymentController.issueAdjustmentNote
+);
+
+router.post(
+  '/adjustment-notes/:noteId/apply',
+  adjustmentNoteRateLimit,
+  authorizeRole(['FINANCE_TEAM', 'ADMIN']),
+  paymentController.applyAdjustmentNote
+);
+
+router.post(
+  '/adjustment-notes/:noteId/cancel',
+  adjustmentNoteRateLimit,
+  authorizeRole(['FINANCE_TEAM', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  paymentController.cancelAdjustmentNote
+);
+
+// Vendor statement with net position after credit/debit notes
+router.get(
+  '/vendors/:vendorId/statement',
+  adjustmentNoteRateLimit,
+  authorizeRole(['FINANCE_TEAM', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  paymentController.getVendorStatement
+);
+
 export default router;
\ No newline at end of file
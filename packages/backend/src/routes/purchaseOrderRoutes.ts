@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { purchaseOrderController } from '../controllers/purchaseOrderController';
+import { purchaseOrderController, documentUploadMiddleware } from '../controllers/purchaseOrderController';
 import { authenticateToken } from '../middleware/authentication';
 import { authorizeRole } from '../middleware/authorization';
 import { validateVesselAccess } from '../middleware/vesselAccess';
@@ -66,6 +66,120 @@ router.post(
   purchaseOrderController.cancelPurchaseOrder
 );
 
+// Amendments to issued purchase orders
+const amendmentRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100,
+  message: 'Too many purchase order amendment requests, please try again later'
+});
+
+router.post(
+  '/:id/amendments',
+  amendmentRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
+  purchaseOrderController.createAmendment
+);
+
+router.get(
+  '/:id/amendments',
+  amendmentRateLimit,
+  purchaseOrderController.getAmendments
+);
+
+// Re-approve amendments that raise the order value above the threshold
+router.post(
+  '/amendments/:amendmentId/approve',
+  amendmentRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  purchaseOrderController.approveAmendment
+);
+
+router.post(
+  '/amendments/:amendmentId/reject',
+  amendmentRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  purchaseOrderController.rejectAmendment
+);
+
+// Signed purchase order documents
+const documentRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 50,
+  message: 'Too many purchase order document requests, please try again later'
+});
+
+router.get(
+  '/:id/document',
+  documentRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'FINANCE_TEAM', 'ADMIN']),
+  purchaseOrderController.getPurchaseOrderDocument
+);
+
+router.post(
+  '/:id/document/verify',
+  documentRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'FINANCE_TEAM', 'ADMIN']),
+  documentUploadMiddleware,
+  purchaseOrderController.verifyPurchaseOrderDocument
+);
+
+// Inventory of Hazardous Materials declarations
+const ihmRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100,
+  message: 'Too many IHM declaration requests, please try again later'
+});
+
+router.get(
+  '/:id/ihm-declarations',
+  ihmRateLimit,
+  purchaseOrderController.getIhmDeclarations
+);
+
+router.post(
+  '/line-items/:lineItemId/ihm-declarations',
+  ihmRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
+  purchaseOrderController.submitIhmDeclaration
+);
+
+router.post(
+  '/ihm-declarations/:declarationId/review',
+  ihmRateLimit,
+  authorizeRole(['SUPERINTENDENT', 'ADMIN']),
+  purchaseOrderController.reviewIhmDeclaration
+);
+
+router.post(
+  '/ihm-declarations/:declarationId/record',
+  ihmRateLimit,
+  authorizeRole(['SUPERINTENDENT', 'ADMIN']),
+  purchaseOrderController.recordIhmDeclaration
+);
+
+// IMDG dangerous goods
+router.get(
+  '/:id/dangerous-goods',
+  documentRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
+  purchaseOrderController.getDangerousGoods
+);
+
+router.get(
+  '/:id/dg-declaration',
+  documentRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
+  purchaseOrderController.getDangerousGoodsDeclaration
+);
+
+// Customs classification of lines for ship spares in transit
+router.put(
+  '/line-items/:lineItemId/customs',
+  documentRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  purchaseOrderController.updateLineCustomsData
+);
+
 // Get purchase order statistics
 router.get(
   '/stats/summary',
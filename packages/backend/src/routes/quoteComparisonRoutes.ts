@@ -10,12 +10,12 @@ const router = Router();
 
 // Apply authentication to all routes
 router.use(authenticateToken);
-router.use(auditLogger);
+router.use(auditLogger());
 
 // Apply rate limiting
 router.use(rateLimiter({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
+  maxRequests: 100, // limit each IP to 100 requests per windowMs
   message: 'Too many quote comparison requests, please try again later'
 }));
 
@@ -26,7 +26,7 @@ router.use(rateLimiter({
  */
 router.post(
   '/:rfqId/score',
-  authorizeRole(['procurement_manager', 'superintendent', 'admin']),
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
   quoteComparisonController.scoreQuotes
 );
 
@@ -37,7 +37,7 @@ router.post(
  */
 router.get(
   '/:rfqId/report',
-  authorizeRole(['procurement_manager', 'superintendent', 'finance_team', 'admin']),
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'FINANCE_TEAM', 'ADMIN']),
   quoteComparisonController.getComparisonReport
 );
 
@@ -48,7 +48,7 @@ router.get(
  */
 router.get(
   '/:rfqId/recommendation',
-  authorizeRole(['procurement_manager', 'superintendent', 'admin']),
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
   quoteComparisonController.getVendorRecommendation
 );
 
@@ -59,7 +59,7 @@ router.get(
  */
 router.get(
   '/:rfqId/side-by-side',
-  authorizeRole(['procurement_manager', 'superintendent', 'finance_team', 'admin']),
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'FINANCE_TEAM', 'ADMIN']),
   quoteComparisonController.getSideBySideComparison
 );
 
@@ -70,10 +70,43 @@ router.get(
  */
 router.put(
   '/:rfqId/weights',
-  authorizeRole(['procurement_manager', 'admin']),
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
   quoteComparisonController.updateScoringWeights
 );
 
+/**
+ * @route PUT /api/quote-comparison/:rfqId/landed-cost-assumptions
+ * @desc Update freight, duty, customs and agency fee assumptions for landed-cost comparison
+ * @access Private - Procurement Manager, Admin
+ */
+router.put(
+  '/:rfqId/landed-cost-assumptions',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  quoteComparisonController.updateLandedCostAssumptions
+);
+
+/**
+ * @route POST /api/quote-comparison/:rfqId/split-award/optimise
+ * @desc Compute the lowest-cost line-level award across vendors
+ * @access Private - Procurement Manager, Superintendent, Admin
+ */
+router.post(
+  '/:rfqId/split-award/optimise',
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
+  quoteComparisonController.optimiseSplitAward
+);
+
+/**
+ * @route POST /api/quote-comparison/:rfqId/split-award
+ * @desc Award quote lines to multiple vendors and generate one PO per vendor
+ * @access Private - Procurement Manager, Superintendent, Admin
+ */
+router.post(
+  '/:rfqId/split-award',
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
+  quoteComparisonController.awardLineItems
+);
+
 /**
  * @route POST /api/quote-comparison/quotes/:quoteId/approve
  * @desc Approve a quote with justification
@@ -81,7 +114,7 @@ router.put(
  */
 router.post(
   '/quotes/:quoteId/approve',
-  authorizeRole(['procurement_manager', 'superintendent', 'admin']),
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'ADMIN']),
   quoteComparisonController.approveQuote
 );
 
@@ -92,7 +125,7 @@ router.post(
  */
 router.get(
   '/quotes/:quoteId/scoring-details',
-  authorizeRole(['procurement_manager', 'superintendent', 'finance_team', 'admin']),
+  authorizeRole(['PROCUREMENT_MANAGER', 'SUPERINTENDENT', 'FINANCE_TEAM', 'ADMIN']),
   quoteComparisonController.getQuoteScoringDetails
 );
 
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { requisitionTemplateController } from '../controllers/requisitionTemplateController';
+import { authenticateToken } from '../middleware/authentication';
+import { authorizeRole } from '../middleware/authorization';
+import { auditLogger } from '../middleware/auditLogger';
+import { rateLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// Apply authentication to all template routes
+router.use(authenticateToken);
+router.use(auditLogger());
+
+// Apply rate limiting
+router.use(rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100, // limit each IP to 100 requests per windowMs
+  message: 'Too many requisition template requests, please try again later'
+}));
+
+// Recurring requisition templates
+router.post(
+  '/',
+  authorizeRole(['CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  requisitionTemplateController.createTemplate
+);
+
+router.get(
+  '/',
+  authorizeRole(['VESSEL_CREW', 'CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  requisitionTemplateController.getTemplates
+);
+
+router.get(
+  '/:id',
+  authorizeRole(['VESSEL_CREW', 'CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  requisitionTemplateController.getTemplateById
+);
+
+router.put(
+  '/:id',
+  authorizeRole(['CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  requisitionTemplateController.updateTemplate
+);
+
+// Next occurrence, scaled by the crew currently on board
+router.get(
+  '/:id/preview',
+  authorizeRole(['VESSEL_CREW', 'CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  requisitionTemplateController.previewDraft
+);
+
+router.post(
+  '/:id/draft',
+  authorizeRole(['CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  requisitionTemplateController.draftNow
+);
+
+export default router;
@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { returnController } from '../controllers/returnController';
+import { authenticateToken } from '../middleware/authentication';
+import { authorizeRole } from '../middleware/authorization';
+import { auditLogger } from '../middleware/auditLogger';
+import { rateLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// Apply authentication to all return routes
+router.use(authenticateToken);
+router.use(auditLogger());
+
+// Apply rate limiting
+router.use(rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 200, // limit each IP to 200 requests per windowMs
+  message: 'Too many return requests, please try again later'
+}));
+
+// Return requests against delivered goods
+router.post(
+  '/',
+  authorizeRole(['VESSEL_CREW', 'CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  returnController.createReturnRequest
+);
+
+router.get(
+  '/',
+  authorizeRole(['CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  returnController.getReturnRequests
+);
+
+router.get(
+  '/:id',
+  authorizeRole(['CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN']),
+  returnController.getReturnRequestById
+);
+
+// Vendor acknowledgement received by email or phone
+router.post(
+  '/:id/acknowledge',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  returnController.acknowledgeReturn
+);
+
+// Pickup and collection at port
+router.post(
+  '/:id/pickup',
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  returnController.schedulePickup
+);
+
+router.post(
+  '/:id/collected',
+  authorizeRole(['VESSEL_CREW', 'CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  returnController.confirmCollection
+);
+
+// Resolution by replacement or credit
+router.post(
+  '/:id/resolve',
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  returnController.resolveReturn
+);
+
+router.post(
+  '/:id/cancel',
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  returnController.cancelReturn
+);
+
+export default router;
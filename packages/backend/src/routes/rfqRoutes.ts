@@ -33,6 +33,20 @@ router.get(
   rfqController.getRFQStatistics
 );
 
+// Port call to request delivery to, from vendor port coverage and item lead times
+const portCallSuggestionRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100,
+  message: 'Too many port call suggestion requests, please try again later'
+});
+
+router.get(
+  '/requisitions/:requisitionId/port-call-suggestion',
+  portCallSuggestionRateLimit,
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  rfqController.getPortCallSuggestion
+);
+
 router.get(
   '/:id',
   rateLimiter('rfq_details', 200, 60), // 200 requests per minute
@@ -68,6 +82,53 @@ router.patch(
   rfqController.cancelRFQ
 );
 
+// Sealed bids are opened once, after the response deadline
+router.post(
+  '/:id/unseal',
+  rateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 20,
+    message: 'Too many unseal requests, please try again later'
+  }),
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  rfqController.unsealRFQ
+);
+
+// Vendor clarifications and formal addenda
+const clarificationRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100,
+  message: 'Too many RFQ clarification requests, please try again later'
+});
+
+router.get(
+  '/:id/clarifications',
+  clarificationRateLimit,
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  rfqController.getClarifications
+);
+
+router.post(
+  '/:id/clarifications/:clarificationId/answer',
+  clarificationRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  rfqController.answerClarification
+);
+
+router.get(
+  '/:id/addenda',
+  clarificationRateLimit,
+  authorizeRole(['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  rfqController.getAddenda
+);
+
+router.post(
+  '/:id/addenda',
+  clarificationRateLimit,
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  rfqController.issueAddendum
+);
+
 // Auto-generation route for approved requisitions
 router.post(
   '/auto-generate/:requisitionId',
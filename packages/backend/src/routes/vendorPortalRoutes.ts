@@ -0,0 +1,250 @@
+import { Router } from 'express';
+import { vendorPortalController, invoiceUploadMiddleware } from '../controllers/vendorPortalController';
+import { authenticateVendor } from '../middleware/vendorAuthentication';
+import { auditLogger } from '../middleware/auditLogger';
+import { authRateLimiter, apiRateLimiter } from '../middleware/rateLimiter';
+
+// Vendor-facing API. Uses the vendor authentication realm only; internal
+// crew and shore tokens are not accepted here and vendor tokens are not
+// accepted on any internal route.
+const router = Router();
+
+/**
+ * @route POST /api/vendor-portal/auth/login
+ * @desc Vendor portal login
+ * @access Public
+ */
+router.post(
+  '/auth/login',
+  authRateLimiter,
+  auditLogger({ logLevel: 'ALL' }),
+  vendorPortalController.login
+);
+
+// Everything below requires a vendor token
+router.use(authenticateVendor);
+router.use(apiRateLimiter);
+router.use(auditLogger());
+
+/**
+ * @route GET /api/vendor-portal/rfqs
+ * @desc List RFQs the vendor has been invited to
+ * @access Vendor
+ */
+router.get(
+  '/rfqs',
+  vendorPortalController.getInvitedRFQs
+);
+
+/**
+ * @route GET /api/vendor-portal/rfqs/:rfqId
+ * @desc Get an invited RFQ with the vendor's own quote
+ * @access Vendor
+ */
+router.get(
+  '/rfqs/:rfqId',
+  vendorPortalController.getInvitedRFQ
+);
+
+/**
+ * @route PUT /api/vendor-portal/rfqs/:rfqId/quote
+ * @desc Submit or revise the vendor's quote for an RFQ
+ * @access Vendor
+ */
+router.put(
+  '/rfqs/:rfqId/quote',
+  vendorPortalController.submitQuote
+);
+
+/**
+ * @route GET /api/vendor-portal/rfqs/:rfqId/clarifications
+ * @desc Get the vendor's questions and public answers on an RFQ
+ * @access Vendor
+ */
+router.get(
+  '/rfqs/:rfqId/clarifications',
+  vendorPortalController.getClarifications
+);
+
+/**
+ * @route POST /api/vendor-portal/rfqs/:rfqId/clarifications
+ * @desc Ask the buyer a question about an RFQ
+ * @access Vendor
+ */
+router.post(
+  '/rfqs/:rfqId/clarifications',
+  vendorPortalController.askClarification
+);
+
+/**
+ * @route GET /api/vendor-portal/rfqs/:rfqId/addenda
+ * @desc List formal addenda issued against an RFQ
+ * @access Vendor
+ */
+router.get(
+  '/rfqs/:rfqId/addenda',
+  vendorPortalController.getAddenda
+);
+
+/**
+ * @route GET /api/vendor-portal/rfqs/:rfqId/auction
+ * @desc Get auction rules and the vendor's own rank
+ * @access Vendor
+ */
+router.get(
+  '/rfqs/:rfqId/auction',
+  vendorPortalController.getAuction
+);
+
+/**
+ * @route POST /api/vendor-portal/rfqs/:rfqId/auction/bids
+ * @desc Place a bid in a running reverse auction
+ * @access Vendor
+ */
+router.post(
+  '/rfqs/:rfqId/auction/bids',
+  vendorPortalController.placeBid
+);
+
+/**
+ * @route GET /api/vendor-portal/quotes
+ * @desc List the vendor's quotes
+ * @access Vendor
+ */
+router.get(
+  '/quotes',
+  vendorPortalController.getQuotes
+);
+
+/**
+ * @route GET /api/vendor-portal/purchase-orders
+ * @desc List purchase orders issued to the vendor
+ * @access Vendor
+ */
+router.get(
+  '/purchase-orders',
+  vendorPortalController.getPurchaseOrders
+);
+
+/**
+ * @route POST /api/vendor-portal/purchase-orders/:id/acknowledge
+ * @desc Acknowledge a purchase order
+ * @access Vendor
+ */
+router.post(
+  '/purchase-orders/:id/acknowledge',
+  vendorPortalController.acknowledgePurchaseOrder
+);
+
+/**
+ * @route GET /api/vendor-portal/purchase-orders/:id/document
+ * @desc Download the signed purchase order document
+ * @access Vendor
+ */
+router.get(
+  '/purchase-orders/:id/document',
+  vendorPortalController.getPurchaseOrderDocument
+);
+
+/**
+ * @route GET /api/vendor-portal/purchase-orders/:id/amendments
+ * @desc List amendments issued on a purchase order
+ * @access Vendor
+ */
+router.get(
+  '/purchase-orders/:id/amendments',
+  vendorPortalController.getPurchaseOrderAmendments
+);
+
+/**
+ * @route POST /api/vendor-portal/purchase-orders/:id/amendments/:amendmentId/acknowledge
+ * @desc Acknowledge the latest revision of an amended purchase order
+ * @access Vendor
+ */
+router.post(
+  '/purchase-orders/:id/amendments/:amendmentId/acknowledge',
+  vendorPortalController.acknowledgeAmendment
+);
+
+/**
+ * @route GET /api/vendor-portal/purchase-orders/:id/dg-declaration
+ * @desc Download the dangerous goods declaration for the forwarder
+ * @access Vendor
+ */
+router.get(
+  '/purchase-orders/:id/dg-declaration',
+  vendorPortalController.getDangerousGoodsDeclaration
+);
+
+/**
+ * @route PUT /api/vendor-portal/purchase-order-lines/:lineItemId/customs
+ * @desc Supply the HS code and country of origin of a line
+ * @access Vendor
+ */
+router.put(
+  '/purchase-order-lines/:lineItemId/customs',
+  vendorPortalController.updateLineCustomsData
+);
+
+/**
+ * @route GET /api/vendor-portal/purchase-orders/:id/ihm-declarations
+ * @desc Material Declaration and SDoC status of each line
+ * @access Vendor
+ */
+router.get(
+  '/purchase-orders/:id/ihm-declarations',
+  vendorPortalController.getIhmDeclarations
+);
+
+/**
+ * @route POST /api/vendor-portal/purchase-order-lines/:lineItemId/ihm-declarations
+ * @desc Submit a Material Declaration or SDoC for a supplied line
+ * @access Vendor
+ */
+router.post(
+  '/purchase-order-lines/:lineItemId/ihm-declarations',
+  vendorPortalController.submitIhmDeclaration
+);
+
+/**
+ * @route GET /api/vendor-portal/invoices
+ * @desc List invoices the vendor has raised
+ * @access Vendor
+ */
+router.get(
+  '/invoices',
+  vendorPortalController.getInvoices
+);
+
+/**
+ * @route POST /api/vendor-portal/invoices
+ * @desc Upload an invoice against a purchase order
+ * @access Vendor
+ */
+router.post(
+  '/invoices',
+  invoiceUploadMiddleware,
+  vendorPortalController.submitInvoice
+);
+
+/**
+ * @route GET /api/vendor-portal/returns
+ * @desc List returns raised against the vendor's deliveries
+ * @access Vendor
+ */
+router.get(
+  '/returns',
+  vendorPortalController.getReturnRequests
+);
+
+/**
+ * @route POST /api/vendor-portal/returns/:id/acknowledge
+ * @desc Accept or dispute a return
+ * @access Vendor
+ */
+router.post(
+  '/returns/:id/acknowledge',
+  vendorPortalController.acknowledgeReturn
+);
+
+export default router;
@@ -89,6 +89,13 @@ router.patch(
   vendorController.reactivateVendor
 );
 
+router.post(
+  '/:id/portal-users',
+  rateLimiter('vendor_portal_users', 10, 60), // 10 requests per minute
+  authorizeRole(['PROCUREMENT_MANAGER', 'ADMIN']),
+  vendorController.createPortalUser
+);
+
 router.get(
   '/:id/performance-stats',
   rateLimiter('vendor_stats', 100, 60), // 100 requests per minute
@@ -87,6 +87,107 @@ router.delete(
   vesselController.deactivateVessel
 );
 
+// Port call schedule routes
+const portCallRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 200,
+  message: 'Too many port call requests, please try again later'
+});
+
+router.get(
+  '/:id/port-calls',
+  portCallRateLimit,
+  authorizeRole(['CAPTAIN', 'CHIEF_ENGINEER', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.getPortCalls
+);
+
+router.get(
+  '/:id/port-calls/suggestion',
+  portCallRateLimit,
+  authorizeRole(['CAPTAIN', 'CHIEF_ENGINEER', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.getPortCallSuggestion
+);
+
+router.get(
+  '/:id/port-calls/warnings',
+  portCallRateLimit,
+  authorizeRole(['CAPTAIN', 'CHIEF_ENGINEER', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.getPortCallWarnings
+);
+
+router.post(
+  '/:id/port-calls',
+  portCallRateLimit,
+  authorizeRole(['CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.createPortCall
+);
+
+router.post(
+  '/:id/port-calls/sync-position',
+  portCallRateLimit,
+  authorizeRole(['CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.syncPortCallsFromPosition
+);
+
+router.patch(
+  '/:id/port-calls/:portCallId',
+  portCallRateLimit,
+  authorizeRole(['CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.updatePortCall
+);
+
+router.post(
+  '/:id/port-calls/:portCallId/cancel',
+  portCallRateLimit,
+  authorizeRole(['CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.cancelPortCall
+);
+
+// Planned maintenance spare-part routes
+const maintenancePlanRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 50,
+  message: 'Too many maintenance plan requests, please try again later'
+});
+
+router.get(
+  '/:id/maintenance-plan',
+  maintenancePlanRateLimit,
+  authorizeRole(['CHIEF_ENGINEER', 'CAPTAIN', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.getMaintenancePlan
+);
+
+router.post(
+  '/:id/maintenance-plan/draft',
+  maintenancePlanRateLimit,
+  authorizeRole(['CHIEF_ENGINEER', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.draftMaintenanceRequisitions
+);
+
+// Inventory of Hazardous Materials
+const ihmRateLimit = rateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 100,
+  message: 'Too many IHM report requests, please try again later'
+});
+
+router.get(
+  '/:id/ihm-report',
+  ihmRateLimit,
+  authorizeRole(['CAPTAIN', 'CHIEF_ENGINEER', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'ADMIN']),
+  validateVesselAccess('id'),
+  vesselController.getIhmReport
+);
+
 // Certificate management routes
 router.post(
   '/:id/certificates',
@@ -33,6 +33,47 @@ router.post(
   workflowController.processWorkflowDecision
 );
 
+/**
+ * @route GET /api/workflow/requisitions/:requisitionId/approval-graph
+ * @desc Get approval graph stages, groups and their state
+ * @access Private - Requires vessel access
+ */
+router.get(
+  '/requisitions/:requisitionId/approval-graph',
+  workflowController.getApprovalGraph
+);
+
+/**
+ * @route POST /api/workflow/approvals/:approvalId/decision
+ * @desc Approve or reject an assigned approval
+ * @access Private - Assigned approver
+ */
+router.post(
+  '/approvals/:approvalId/decision',
+  workflowController.recordApprovalDecision
+);
+
+/**
+ * @route POST /api/workflow/requisitions/:requisitionId/simulate
+ * @desc Dry run a requisition against a draft rule set without creating approvals
+ * @access Private - Admin or Procurement Manager
+ */
+router.post(
+  '/requisitions/:requisitionId/simulate',
+  authorizeRole(['ADMIN', 'PROCUREMENT_MANAGER']),
+  workflowController.simulateRequisitionWorkflow
+);
+
+/**
+ * @route GET /api/workflow/requisitions/:requisitionId/evaluations
+ * @desc Get workflow evaluation history with the rule set version used
+ * @access Private - Requires vessel access
+ */
+router.get(
+  '/requisitions/:requisitionId/evaluations',
+  workflowController.getEvaluationHistory
+);
+
 /**
  * @route GET /api/workflow/config/approval-thresholds
  * @desc Get current approval thresholds configuration
@@ -77,6 +118,72 @@ router.put(
   workflowController.updateEmergencyBypasses
 );
 
+/**
+ * @route GET /api/workflow/rule-sets
+ * @desc List versioned workflow rule sets
+ * @access Private - Admin or Procurement Manager
+ */
+router.get(
+  '/rule-sets',
+  authorizeRole(['ADMIN', 'PROCUREMENT_MANAGER']),
+  workflowController.listRuleSets
+);
+
+/**
+ * @route GET /api/workflow/rule-sets/:ruleSetId
+ * @desc Get a workflow rule set version
+ * @access Private - Admin or Procurement Manager
+ */
+router.get(
+  '/rule-sets/:ruleSetId',
+  authorizeRole(['ADMIN', 'PROCUREMENT_MANAGER']),
+  workflowController.getRuleSet
+);
+
+/**
+ * @route POST /api/workflow/rule-sets
+ * @desc Create a draft rule set version for a fleet, vessel type or company-wide
+ * @access Private - Admin only
+ */
+router.post(
+  '/rule-sets',
+  authorizeRole(['ADMIN']),
+  workflowController.createRuleSet
+);
+
+/**
+ * @route PUT /api/workflow/rule-sets/:ruleSetId
+ * @desc Edit a draft rule set
+ * @access Private - Admin only
+ */
+router.put(
+  '/rule-sets/:ruleSetId',
+  authorizeRole(['ADMIN']),
+  workflowController.updateRuleSet
+);
+
+/**
+ * @route POST /api/workflow/rule-sets/:ruleSetId/publish
+ * @desc Publish a draft rule set with effective dates
+ * @access Private - Admin only
+ */
+router.post(
+  '/rule-sets/:ruleSetId/publish',
+  authorizeRole(['ADMIN']),
+  workflowController.publishRuleSet
+);
+
+/**
+ * @route POST /api/workflow/rule-sets/:ruleSetId/retire
+ * @desc Retire a rule set version
+ * @access Private - Admin only
+ */
+router.post(
+  '/rule-sets/:ruleSetId/retire',
+  authorizeRole(['ADMIN']),
+  workflowController.retireRuleSet
+);
+
 /**
  * @route GET /api/workflow/vessels/:vesselId/budget-hierarchy
  * @desc Get budget hierarchy configuration for a vessel
@@ -85,7 +192,29 @@ router.put(
 router.get(
   '/vessels/:vesselId/budget-hierarchy',
   validateVesselAccess,
-  workflowController.getBudgetHierarchy
+  workflowController.getBudgetHierarchy.bind(workflowController)
+);
+
+/**
+ * @route GET /api/workflow/reports/overdue-approvals
+ * @desc Get pending approvals that have breached their SLA
+ * @access Private - Admin, Procurement Manager, or Superintendent
+ */
+router.get(
+  '/reports/overdue-approvals',
+  authorizeRole(['ADMIN', 'PROCUREMENT_MANAGER', 'SUPERINTENDENT']),
+  workflowController.getOverdueApprovals
+);
+
+/**
+ * @route POST /api/workflow/sla/run
+ * @desc Send due reminders and escalate overdue approvals now
+ * @access Private - Admin only
+ */
+router.post(
+  '/sla/run',
+  authorizeRole(['ADMIN']),
+  workflowController.runApprovalSlaCheck
 );
 
 /**
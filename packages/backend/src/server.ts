@@ -11,11 +11,19 @@ import workflowRoutes from './routes/workflowRoutes.js';
 import emergencyOverrideRoutes from './routes/emergencyOverrideRoutes.js';
 import delegationRoutes from './routes/delegationRoutes.js';
 import { requisitionRoutes } from './routes/requisitionRoutes.js';
+import requisitionTemplateRoutes from './routes/requisitionTemplateRoutes.js';
 import { itemCatalogRoutes } from './routes/itemCatalogRoutes.js';
 import vendorRoutes from './routes/vendorRoutes.js';
+import vendorPortalRoutes from './routes/vendorPortalRoutes.js';
 import rfqRoutes from './routes/rfqRoutes.js';
+import quoteComparisonRoutes from './routes/quoteComparisonRoutes.js';
+import contractRoutes from './routes/contractRoutes.js';
+import returnRoutes from './routes/returnRoutes.js';
+import consolidationRoutes from './routes/consolidationRoutes.js';
+import auctionRoutes from './routes/auctionRoutes.js';
 import purchaseOrderRoutes from './routes/purchaseOrderRoutes.js';
 import deliveryRoutes from './routes/deliveryRoutes.js';
+import inventoryRoutes from './routes/inventoryRoutes.js';
 import currencyRoutes from './routes/currencyRoutes.js';
 import invoiceRoutes from './routes/invoiceRoutes.js';
 import paymentRoutes from './routes/paymentRoutes.js';
@@ -28,6 +36,12 @@ import { dashboardRoutes } from './routes/dashboardRoutes.js';
 import { externalApiRoutes } from './routes/externalApiRoutes.js';
 import { securityIncidentService } from './services/securityIncidentService.js';
 import { dataRetentionService } from './services/dataRetentionService.js';
+import { approvalSlaService } from './services/approvalSlaService.js';
+import { requisitionTemplateService } from './services/requisitionTemplateService.js';
+import { maintenancePlanningService } from './services/maintenancePlanningService.js';
+import { portCallService } from './services/portCallService.js';
+import { rfqDeadlineService } from './services/rfqDeadlineService.js';
+import { auctionService } from './services/auctionService.js';
 import { websocketService } from './services/websocketService.js';
 import { dashboardWebSocketService } from './services/dashboardWebSocketService.js';
 import { PerformanceEnhancementService } from './services/performanceEnhancementService.js';
@@ -219,21 +233,45 @@ app.use('/api/delegations', delegationRoutes);
 // Requisition management routes
 app.use('/api/requisitions', requisitionRoutes);
 
+// Recurring requisition template routes
+app.use('/api/requisition-templates', requisitionTemplateRoutes);
+
 // Item catalog routes
 app.use('/api/catalog', itemCatalogRoutes);
 
 // Vendor management routes
 app.use('/api/vendors', vendorRoutes);
 
+// Vendor self-service portal (separate vendor authentication realm)
+app.use('/api/vendor-portal', vendorPortalRoutes);
+
 // RFQ management routes
 app.use('/api/rfqs', rfqRoutes);
 
+// Quote comparison and award routes
+app.use('/api/quote-comparison', quoteComparisonRoutes);
+
+// Vendor contract and contract pricing routes
+app.use('/api/contracts', contractRoutes);
+
+// Returns / RMA routes
+app.use('/api/returns', returnRoutes);
+
+// Fleet-wide requisition consolidation routes
+app.use('/api/consolidation', consolidationRoutes);
+
+// Reverse auction routes
+app.use('/api/auctions', auctionRoutes);
+
 // Purchase order management routes
 app.use('/api/purchase-orders', purchaseOrderRoutes);
 
 // Delivery management routes
 app.use('/api/deliveries', deliveryRoutes);
 
+// Onboard inventory (ROB) routes
+app.use('/api/inventory', inventoryRoutes);
+
 // Currency and financial management routes
 app.use('/api/currency', currencyRoutes);
 
@@ -289,6 +327,24 @@ securityIncidentService.scheduleSecurityAnalysis();
 dataRetentionService.scheduleRetentionExecution();
 console.log('✅ Security services initialized');
 
+// Initialize approval SLA monitoring
+approvalSlaService.scheduleSlaMonitoring();
+
+// Initialize recurring requisition drafting
+requisitionTemplateService.scheduleTemplateDrafting();
+
+// Initialize spare-part requisitions for planned maintenance
+maintenancePlanningService.scheduleMaintenancePlanning();
+
+// Initialize port call ETA updates from AIS vessel positions
+portCallService.schedulePositionSync();
+
+// Initialize RFQ deadline monitoring (sealed-bid opening and quote expiry)
+rfqDeadlineService.scheduleDeadlineMonitoring();
+
+// Initialize reverse auction opening and closing
+auctionService.scheduleAuctionMonitoring();
+
 // Initialize performance enhancement service
 console.log('⚡ Initializing performance enhancement service...');
 performanceService.initialize().then(() => {
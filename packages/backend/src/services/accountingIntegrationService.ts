@@ -280,6 +280,7 @@ class AccountingIntegrationService {
     purchaseOrders: any[];
     invoices: any[];
     payments: any[];
+    adjustmentNotes?: any[];
   }): Promise<{
     success: boolean;
     processedCount: number;
@@ -316,6 +317,17 @@ class AccountingIntegrationService {
         }
       }
 
+      // Process credit and debit notes as adjustments to accounts payable
+      for (const note of transactions.adjustmentNotes || []) {
+        try {
+          const journalEntry = this.createAdjustmentNoteEntry(note);
+          await this.postJournalEntry(systemId, journalEntry);
+          processedCount++;
+        } catch (error) {
+          errors.push(`Adjustment note ${note.noteNumber}: ${error.message}`);
+        }
+      }
+
       // Process payments
       for (const payment of transactions.payments) {
         try {
@@ -687,6 +699,34 @@ class AccountingIntegrationService {
     };
   }
 
+  /**
+   * Build the journal entry for a credit or debit note against an invoice
+   */
+  createAdjustmentNoteEntry(note: any): JournalEntry {
+    const lines = Array.isArray(note.lineItems) && note.lineItems.length > 0
+      ? note.lineItems
+      : [{ description: note.reason, amount: note.amount }];
+
+    return this.createInvoiceEntry({
+      invoiceNumber: note.noteNumber,
+      invoiceDate: note.issueDate,
+      totalAmount: note.amount,
+      currency: note.currency,
+      exchangeRate: note.exchangeRate,
+      taxAmount: 0,
+      items: lines.map((line: any) => ({
+        accountCode: line.accountCode,
+        description: line.description,
+        amount: line.amount
+      })),
+      vendor: note.vendor,
+      vendorId: note.vendorId,
+      vesselId: note.purchaseOrder?.vesselId,
+      adjustmentType: note.type,
+      originalInvoiceNumber: note.invoice?.invoiceNumber
+    });
+  }
+
   private createInvoiceEntry(invoice: any): JournalEntry {
     const lineItems: JournalLineItem[] = [];
     let lineNumber = 1;
@@ -734,11 +774,22 @@ class AccountingIntegrationService {
       invoiceReference: invoice.invoiceNumber
     });
 
+    // Credit notes reverse the original invoice posting; debit notes add to it
+    const isCreditNote = invoice.adjustmentType === 'CREDIT';
+    if (isCreditNote) {
+      for (const line of lineItems) {
+        [line.debitAmount, line.creditAmount] = [line.creditAmount, line.debitAmount];
+      }
+    }
+
+    const entryPrefix = isCreditNote ? 'CN' : invoice.adjustmentType === 'DEBIT' ? 'DN' : 'INV';
+    const documentLabel = isCreditNote ? 'Credit Note' : invoice.adjustmentType === 'DEBIT' ? 'Debit Note' : 'Invoice';
+
     return {
-      entryId: `INV-${invoice.invoiceNumber}`,
+      entryId: `${entryPrefix}-${invoice.invoiceNumber}`,
       entryDate: new Date(invoice.invoiceDate),
       reference: invoice.invoiceNumber,
-      description: `Invoice - ${invoice.vendor.name}`,
+      description: `${documentLabel} - ${invoice.vendor.name}`,
       totalDebit: invoice.totalAmount,
       totalCredit: invoice.totalAmount,
       currency: invoice.currency,
@@ -746,7 +797,10 @@ class AccountingIntegrationService {
       lineItems,
       source: 'FlowMarine',
       status: 'DRAFT',
-      createdBy: 'system'
+      createdBy: 'system',
+      reversalEntry: isCreditNote && invoice.originalInvoiceNumber
+        ? `INV-${invoice.originalInvoiceNumber}`
+        : undefined
     };
   }
 
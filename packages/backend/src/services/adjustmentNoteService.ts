@@ -0,0 +1,304 @@
+import { PrismaClient, AdjustmentNote, AdjustmentNoteStatus, AdjustmentNoteType, InvoiceStatus } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { AuditService } from './auditService';
+import { paymentService } from './paymentService';
+
+const prisma = new PrismaClient();
+
+export const ADJUSTMENT_REASON_CODES = [
+  'PRICE_DIFFERENCE',
+  'SHORT_DELIVERY',
+  'DAMAGED_GOODS',
+  'QUALITY_ISSUE',
+  'RETURN',
+  'ADDITIONAL_CHARGES',
+  'OTHER'
+] as const;
+
+export type AdjustmentReasonCode = typeof ADJUSTMENT_REASON_CODES[number];
+
+export interface AdjustmentNoteLine {
+  poLineItemId?: string;
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+  accountCode?: string;
+}
+
+export interface AdjustmentNoteCreationData {
+  invoiceId: string;
+  type: AdjustmentNoteType;
+  amount?: number;
+  reasonCode: AdjustmentReasonCode;
+  reason: string;
+  lineItems?: AdjustmentNoteLine[];
+  vendorReference?: string;
+  resolvesDispute?: boolean;
+  issueDate?: Date;
+}
+
+export interface AdjustmentNoteFilters {
+  invoiceId?: string;
+  purchaseOrderId?: string;
+  vendorId?: string;
+  type?: AdjustmentNoteType;
+  status?: AdjustmentNoteStatus;
+}
+
+const NOTE_INCLUDE = {
+  invoice: {
+    select: {
+      id: true,
+      invoiceNumber: true,
+      status: true,
+      totalAmount: true,
+      currency: true
+    }
+  },
+  purchaseOrder: {
+    select: {
+      id: true,
+      poNumber: true,
+      vesselId: true
+    }
+  },
+  vendor: {
+    select: {
+      id: true,
+      name: true,
+      code: true
+    }
+  }
+};
+
+class AdjustmentNoteService {
+  /**
+   * Raise a draft credit or debit note against an invoice
+   */
+  async createAdjustmentNote(data: AdjustmentNoteCreationData, userId: string): Promise<AdjustmentNote> {
+    try {
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: data.invoiceId },
+        include: {
+          purchaseOrder: {
+            select: { id: true, vendorId: true, vesselId: true }
+          }
+        }
+      });
+
+      if (!invoice) {
+        throw new AppError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+      }
+
+      if (invoice.status === InvoiceStatus.REJECTED) {
+        throw new AppError('Cannot adjust a rejected invoice', 400, 'INVOICE_REJECTED');
+      }
+
+      const amount = this.resolveAmount(data);
+
+      if (data.type === AdjustmentNoteType.CREDIT) {
+        const balance = await paymentService.getOutstandingBalance(invoice.id);
+        const pendingCredits = await prisma.adjustmentNote.aggregate({
+          where: {
+            invoiceId: invoice.id,
+            type: AdjustmentNoteType.CREDIT,
+            status: { in: [AdjustmentNoteStatus.DRAFT, AdjustmentNoteStatus.ISSUED] }
+          },
+          _sum: { amount: true }
+        });
+        const creditable = balance.adjustedTotal - (pendingCredits._sum.amount || 0);
+
+        if (amount > creditable + 0.005) {
+          throw new AppError(
+            `Credit of ${amount.toFixed(2)} exceeds the ${creditable.toFixed(2)} ${invoice.currency} still creditable on this invoice`,
+            400,
+            'CREDIT_EXCEEDS_INVOICE'
+          );
+        }
+      }
+
+      const prefix = data.type === AdjustmentNoteType.CREDIT ? 'CN' : 'DN';
+      const noteNumber = await this.generateNoteNumber(prefix);
+
+      const note = await prisma.adjustmentNote.create({
+        data: {
+          noteNumber,
+          type: data.type,
+          invoiceId: invoice.id,
+          purchaseOrderId: invoice.purchaseOrderId,
+          vendorId: invoice.purchaseOrder.vendorId,
+          amount,
+          currency: invoice.currency,
+          exchangeRate: invoice.exchangeRate,
+          reasonCode: data.reasonCode,
+          reason: data.reason,
+          lineItems: data.lineItems ? (data.lineItems as any) : undefined,
+          vendorReference: data.vendorReference,
+          resolvesDispute: data.resolvesDispute ?? invoice.status === InvoiceStatus.DISPUTED,
+          issueDate: data.issueDate || new Date(),
+          createdById: userId
+        },
+        include: NOTE_INCLUDE
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'adjustment_note',
+        resourceId: note.id,
+        newValues: {
+          noteNumber,
+          type: data.type,
+          invoiceId: invoice.id,
+          amount,
+          reasonCode: data.reasonCode
+        },
+        vesselId: invoice.purchaseOrder.vesselId
+      });
+
+      return note;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create adjustment note', 500, 'ADJUSTMENT_NOTE_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Issue a draft note so it can be applied to the invoice balance
+   */
+  async issueAdjustmentNote(noteId: string, userId: string): Promise<AdjustmentNote> {
+    try {
+      const note = await this.getAdjustmentNoteById(noteId);
+
+      if (note.status !== AdjustmentNoteStatus.DRAFT) {
+        throw new AppError(`Cannot issue a note in ${note.status} status`, 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const updated = await prisma.adjustmentNote.update({
+        where: { id: noteId },
+        data: {
+          status: AdjustmentNoteStatus.ISSUED,
+          issuedById: userId,
+          issuedAt: new Date()
+        },
+        include: NOTE_INCLUDE
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'APPROVE',
+        resource: 'adjustment_note',
+        resourceId: noteId,
+        oldValues: { status: note.status },
+        newValues: { status: AdjustmentNoteStatus.ISSUED }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to issue adjustment note', 500, 'ADJUSTMENT_NOTE_ISSUE_FAILED');
+    }
+  }
+
+  /**
+   * Cancel a note that has not yet been applied
+   */
+  async cancelAdjustmentNote(noteId: string, userId: string, reason?: string): Promise<AdjustmentNote> {
+    try {
+      const note = await this.getAdjustmentNoteById(noteId);
+
+      if (note.status === AdjustmentNoteStatus.APPLIED || note.status === AdjustmentNoteStatus.CANCELLED) {
+        throw new AppError(`Cannot cancel a note in ${note.status} status`, 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const updated = await prisma.adjustmentNote.update({
+        where: { id: noteId },
+        data: { status: AdjustmentNoteStatus.CANCELLED },
+        include: NOTE_INCLUDE
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'adjustment_note',
+        resourceId: noteId,
+        oldValues: { status: note.status },
+        newValues: { status: AdjustmentNoteStatus.CANCELLED },
+        metadata: { reason }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to cancel adjustment note', 500, 'ADJUSTMENT_NOTE_CANCEL_FAILED');
+    }
+  }
+
+  /**
+   * Get a note with its invoice, purchase order and vendor
+   */
+  async getAdjustmentNoteById(noteId: string) {
+    const note = await prisma.adjustmentNote.findUnique({
+      where: { id: noteId },
+      include: NOTE_INCLUDE
+    });
+
+    if (!note) {
+      throw new AppError('Adjustment note not found', 404, 'ADJUSTMENT_NOTE_NOT_FOUND');
+    }
+
+    return note;
+  }
+
+  /**
+   * List notes for an invoice, purchase order or vendor
+   */
+  async getAdjustmentNotes(filters: AdjustmentNoteFilters = {}) {
+    return prisma.adjustmentNote.findMany({
+      where: {
+        invoiceId: filters.invoiceId,
+        purchaseOrderId: filters.purchaseOrderId,
+        vendorId: filters.vendorId,
+        type: filters.type,
+        status: filters.status
+      },
+      include: NOTE_INCLUDE,
+      orderBy: { issueDate: 'desc' }
+    });
+  }
+
+  /**
+   * Take the note amount from its lines when given, and check the two agree
+   */
+  private resolveAmount(data: AdjustmentNoteCreationData): number {
+    const lineTotal = data.lineItems?.length
+      ? Math.round(data.lineItems.reduce((sum, line) => sum + line.amount, 0) * 100) / 100
+      : undefined;
+
+    if (lineTotal !== undefined && data.amount !== undefined && Math.abs(lineTotal - data.amount) > 0.005) {
+      throw new AppError('Note amount does not match the sum of its lines', 400, 'AMOUNT_MISMATCH');
+    }
+
+    const amount = data.amount ?? lineTotal;
+
+    if (!amount || amount <= 0) {
+      throw new AppError('Note amount must be greater than zero', 400, 'INVALID_AMOUNT');
+    }
+
+    return amount;
+  }
+
+  private async generateNoteNumber(prefix: 'CN' | 'DN'): Promise<string> {
+    const year = new Date().getFullYear();
+    const count = await prisma.adjustmentNote.count({
+      where: {
+        noteNumber: { startsWith: `${prefix}-${year}-` }
+      }
+    });
+
+    return `${prefix}-${year}-${String(count + 1).padStart(4, '0')}`;
+  }
+}
+
+export const adjustmentNoteService = new AdjustmentNoteService();
@@ -0,0 +1,417 @@
+import { PrismaClient, UrgencyLevel, User, UserRole } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { ApprovalSla, ResolvedWorkflowRules } from '../models/WorkflowRule';
+import { workflowRuleService } from './workflowRuleService';
+import { DelegationService } from './delegationService';
+import { AuditService } from './auditService';
+import { emailService } from './emailService';
+import { websocketService } from './websocketService';
+
+const prisma = new PrismaClient();
+
+const HOUR_MS = 60 * 60 * 1000;
+const MONITOR_INTERVAL_MS = 15 * 60 * 1000;
+
+// Who picks up an approval when the current approver sits on it past the SLA
+const ESCALATION_CHAIN: UserRole[] = [
+  'SUPERINTENDENT',
+  'PROCUREMENT_MANAGER',
+  'FINANCE_TEAM',
+  'ADMIN'
+];
+
+export interface SlaRunResult {
+  reminded: number;
+  escalated: number;
+  failed: number;
+}
+
+export interface OverdueApprovalFilters {
+  vesselId?: string;
+  urgencyLevel?: UrgencyLevel;
+  approverId?: string;
+}
+
+export interface OverdueApproval {
+  approvalId: string;
+  requisitionId: string;
+  requisitionNumber: string;
+  vesselId: string;
+  vesselName: string;
+  urgencyLevel: UrgencyLevel;
+  totalAmount: number;
+  currency: string;
+  approverId: string;
+  approverName: string;
+  approverRole: string;
+  level: number;
+  dueAt: Date;
+  hoursOverdue: number;
+  remindersSent: number;
+  escalationLevel: number;
+}
+
+type PendingApproval = Awaited<ReturnType<ApprovalSlaService['loadPendingApprovals']>>[number];
+
+export class ApprovalSlaService {
+  /**
+   * Send reminders and escalate pending approvals that have breached their SLA
+   */
+  async processOverdueApprovals(now: Date = new Date()): Promise<SlaRunResult> {
+    const result: SlaRunResult = { reminded: 0, escalated: 0, failed: 0 };
+    const approvals = await this.loadPendingApprovals();
+    const rulesByScope = new Map<string, Promise<ResolvedWorkflowRules>>();
+
+    for (const approval of approvals) {
+      try {
+        const { fleet, vesselType } = approval.requisition.vessel;
+        const scopeKey = `${fleet ?? ''}|${vesselType ?? ''}`;
+        if (!rulesByScope.has(scopeKey)) {
+          rulesByScope.set(scopeKey, workflowRuleService.resolveActiveRules({ fleet, vesselType }));
+        }
+        const rules = await rulesByScope.get(scopeKey)!;
+        const sla = workflowRuleService.getApprovalSla(rules, approval.requisition.urgencyLevel);
+        const dueAt = this.getDueAt(approval, sla);
+
+        if (now >= dueAt && approval.escalationLevel < sla.maxEscalations) {
+          const outcome = await this.escalateApproval(approval, sla, now);
+          if (outcome === 'ESCALATED') {
+            result.escalated++;
+          }
+          // Without anyone to escalate to, the approver keeps getting reminders
+          if (outcome !== 'NO_TARGET') {
+            continue;
+          }
+        }
+
+        if (this.isReminderDue(approval, sla, dueAt, now)) {
+          await this.sendReminder(approval, dueAt, now);
+          result.reminded++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to apply approval SLA to approval ${approval.id}:`, error);
+      }
+    }
+
+    if (result.reminded || result.escalated || result.failed) {
+      logger.info(`Approval SLA run: ${result.reminded} reminded, ${result.escalated} escalated, ${result.failed} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Report pending approvals that are past their SLA
+   */
+  async getOverdueApprovals(filters: OverdueApprovalFilters = {}, now: Date = new Date()): Promise<{
+    approvals: OverdueApproval[];
+    summary: Record<UrgencyLevel, number>;
+  }> {
+    try {
+      const approvals = await this.loadPendingApprovals(filters);
+      const rulesByScope = new Map<string, ResolvedWorkflowRules>();
+      const overdue: OverdueApproval[] = [];
+
+      for (const approval of approvals) {
+        const { fleet, vesselType } = approval.requisition.vessel;
+        const scopeKey = `${fleet ?? ''}|${vesselType ?? ''}`;
+        if (!rulesByScope.has(scopeKey)) {
+          rulesByScope.set(scopeKey, await workflowRuleService.resolveActiveRules({ fleet, vesselType }));
+        }
+        const sla = workflowRuleService.getApprovalSla(rulesByScope.get(scopeKey)!, approval.requisition.urgencyLevel);
+        const dueAt = this.getDueAt(approval, sla);
+
+        if (dueAt > now) continue;
+
+        overdue.push({
+          approvalId: approval.id,
+          requisitionId: approval.requisitionId,
+          requisitionNumber: approval.requisition.requisitionNumber,
+          vesselId: approval.requisition.vesselId,
+          vesselName: approval.requisition.vessel.name,
+          urgencyLevel: approval.requisition.urgencyLevel,
+          totalAmount: approval.requisition.totalAmount,
+          currency: approval.requisition.currency,
+          approverId: approval.approverId,
+          approverName: `${approval.approver.firstName} ${approval.approver.lastName}`,
+          approverRole: approval.approverRole || approval.approver.role,
+          level: approval.level,
+          dueAt,
+          hoursOverdue: Math.round(((now.getTime() - dueAt.getTime()) / HOUR_MS) * 10) / 10,
+          remindersSent: approval.remindersSent,
+          escalationLevel: approval.escalationLevel
+        });
+      }
+
+      overdue.sort((a, b) => b.hoursOverdue - a.hoursOverdue);
+
+      const summary = { ROUTINE: 0, URGENT: 0, EMERGENCY: 0 } as Record<UrgencyLevel, number>;
+      overdue.forEach(approval => {
+        summary[approval.urgencyLevel] = (summary[approval.urgencyLevel] || 0) + 1;
+      });
+
+      return { approvals: overdue, summary };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to load overdue approvals', 500, 'OVERDUE_APPROVALS_FAILED');
+    }
+  }
+
+  /**
+   * Schedule the periodic SLA check
+   */
+  scheduleSlaMonitoring(): void {
+    setInterval(async () => {
+      try {
+        await this.processOverdueApprovals();
+      } catch (error) {
+        logger.error('Approval SLA monitoring failed:', error);
+      }
+    }, MONITOR_INTERVAL_MS);
+
+    logger.info('Approval SLA monitoring scheduled');
+  }
+
+  private async loadPendingApprovals(filters: OverdueApprovalFilters = {}) {
+    return prisma.approval.findMany({
+      where: {
+        status: 'PENDING',
+        ...(filters.approverId ? { approverId: filters.approverId } : {}),
+        requisition: {
+          status: { in: ['SUBMITTED', 'UNDER_REVIEW'] },
+          ...(filters.vesselId ? { vesselId: filters.vesselId } : {}),
+          ...(filters.urgencyLevel ? { urgencyLevel: filters.urgencyLevel } : {})
+        }
+      },
+      include: {
+        approver: true,
+        requisition: {
+          select: {
+            id: true,
+            requisitionNumber: true,
+            vesselId: true,
+            urgencyLevel: true,
+            totalAmount: true,
+            currency: true,
+            vessel: { select: { name: true, fleet: true, vesselType: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  private getDueAt(approval: PendingApproval, sla: ApprovalSla): Date {
+    return approval.dueAt ?? new Date(approval.createdAt.getTime() + sla.escalateAfterHours * HOUR_MS);
+  }
+
+  private isReminderDue(approval: PendingApproval, sla: ApprovalSla, dueAt: Date, now: Date): boolean {
+    const openedAt = new Date(dueAt.getTime() - sla.escalateAfterHours * HOUR_MS);
+    const nextReminderAt = approval.lastReminderAt
+      ? new Date(approval.lastReminderAt.getTime() + sla.reminderIntervalHours * HOUR_MS)
+      : new Date(openedAt.getTime() + sla.reminderAfterHours * HOUR_MS);
+
+    return now >= nextReminderAt;
+  }
+
+  private async sendReminder(approval: PendingApproval, dueAt: Date, now: Date): Promise<void> {
+    const requisition = approval.requisition;
+    const overdue = now >= dueAt;
+
+    await this.notifyApprover(approval.approver, {
+      type: 'approval_reminder',
+      subject: `${overdue ? 'Overdue' : 'Reminder'}: approval for requisition ${requisition.requisitionNumber}`,
+      body: `Requisition ${requisition.requisitionNumber} for ${requisition.vessel.name} (${requisition.urgencyLevel}) ` +
+        `is waiting for your approval. ${overdue ? 'It was due' : 'It is due'} at ${dueAt.toISOString()}.`,
+      approvalId: approval.id,
+      requisitionId: requisition.id,
+      vesselId: requisition.vesselId,
+      urgencyLevel: requisition.urgencyLevel
+    });
+
+    await prisma.approval.update({
+      where: { id: approval.id },
+      data: {
+        remindersSent: { increment: 1 },
+        lastReminderAt: now
+      }
+    });
+  }
+
+  /**
+   * Hand an overdue approval to the approver's delegate or the next level up
+   */
+  private async escalateApproval(
+    approval: PendingApproval,
+    sla: ApprovalSla,
+    now: Date
+  ): Promise<'ESCALATED' | 'NO_TARGET' | 'NOT_PENDING'> {
+    const requisition = approval.requisition;
+    const target = await this.findEscalationTarget(approval);
+
+    if (!target) {
+      logger.warn(`No escalation target for approval ${approval.id} on requisition ${requisition.requisitionNumber}`);
+      return 'NO_TARGET';
+    }
+
+    const escalated = await prisma.$transaction(async (tx) => {
+      // The approver may have acted, or another run escalated it, since the overdue approvals were read
+      const delegated = await tx.approval.updateMany({
+        where: { id: approval.id, status: 'PENDING' },
+        data: { status: 'DELEGATED' }
+      });
+
+      if (delegated.count === 0) {
+        return null;
+      }
+
+      return tx.approval.create({
+        data: {
+          requisitionId: approval.requisitionId,
+          approverId: target.user.id,
+          level: approval.level,
+          status: 'PENDING',
+          comments: approval.comments,
+          budgetLimit: approval.budgetLimit,
+          costCenter: approval.costCenter,
+          approvalGroupId: approval.approvalGroupId,
+          approverRole: approval.approverRole ? target.user.role : null,
+          dueAt: new Date(now.getTime() + sla.escalateAfterHours * HOUR_MS),
+          escalationLevel: approval.escalationLevel + 1,
+          escalatedFromId: approval.id,
+          escalatedAt: now
+        }
+      });
+    });
+
+    if (!escalated) {
+      logger.info(`Approval ${approval.id} on requisition ${requisition.requisitionNumber} is no longer pending; not escalated`);
+      return 'NOT_PENDING';
+    }
+
+    await AuditService.log({
+      action: 'DELEGATE',
+      resource: 'approval',
+      resourceId: approval.id,
+      vesselId: requisition.vesselId,
+      oldValues: {
+        approverId: approval.approverId,
+        approverRole: approval.approverRole || approval.approver.role,
+        escalationLevel: approval.escalationLevel
+      },
+      newValues: {
+        approvalId: escalated.id,
+        approverId: target.user.id,
+        approverRole: target.user.role,
+        escalationLevel: escalated.escalationLevel
+      },
+      metadata: {
+        reason: 'APPROVAL_SLA_BREACHED',
+        escalatedTo: target.reason,
+        requisitionId: requisition.id,
+        urgencyLevel: requisition.urgencyLevel,
+        dueAt: approval.dueAt
+      }
+    });
+
+    await this.notifyApprover(target.user, {
+      type: 'approval_escalated',
+      subject: `Escalated approval: requisition ${requisition.requisitionNumber}`,
+      body: `Requisition ${requisition.requisitionNumber} for ${requisition.vessel.name} (${requisition.urgencyLevel}) ` +
+        `was not actioned by ${approval.approver.firstName} ${approval.approver.lastName} within the approval SLA ` +
+        `and has been passed to you${target.reason === 'DELEGATE' ? ' as their delegate' : ''}.`,
+      approvalId: escalated.id,
+      requisitionId: requisition.id,
+      vesselId: requisition.vesselId,
+      urgencyLevel: requisition.urgencyLevel
+    });
+
+    logger.info(`Escalated approval ${approval.id} for requisition ${requisition.requisitionNumber} to ${target.user.email}`);
+    return 'ESCALATED';
+  }
+
+  private async findEscalationTarget(
+    approval: PendingApproval
+  ): Promise<{ user: User; reason: 'DELEGATE' | 'NEXT_LEVEL' } | null> {
+    const vesselId = approval.requisition.vesselId;
+
+    // Anyone already holding an open approval on this requisition cannot take a second one
+    const busy = await prisma.approval.findMany({
+      where: { requisitionId: approval.requisitionId, status: 'PENDING' },
+      select: { approverId: true }
+    });
+    const excluded = new Set(busy.map(item => item.approverId));
+
+    const delegate = await DelegationService.getActiveDelegate(approval.approverId, vesselId);
+    if (delegate && !excluded.has(delegate.id)) {
+      return { user: delegate, reason: 'DELEGATE' };
+    }
+
+    const currentRole = approval.approver.role;
+    const currentIndex = ESCALATION_CHAIN.indexOf(currentRole);
+    const nextRoles = ESCALATION_CHAIN.slice(currentIndex + 1);
+
+    for (const role of nextRoles) {
+      const candidate = await prisma.user.findFirst({
+        where: {
+          role,
+          isActive: true,
+          id: { notIn: [...excluded] },
+          vessels: {
+            some: {
+              vesselId,
+              isActive: true
+            }
+          }
+        }
+      });
+
+      if (candidate) {
+        return { user: candidate, reason: 'NEXT_LEVEL' };
+      }
+    }
+
+    return null;
+  }
+
+  private async notifyApprover(
+    user: User,
+    notification: {
+      type: 'approval_reminder' | 'approval_escalated';
+      subject: string;
+      body: string;
+      approvalId: string;
+      requisitionId: string;
+      vesselId: string;
+      urgencyLevel: UrgencyLevel;
+    }
+  ): Promise<void> {
+    await websocketService.sendUserNotification(user.id, {
+      type: notification.type,
+      title: notification.subject,
+      message: notification.body,
+      data: {
+        approvalId: notification.approvalId,
+        requisitionId: notification.requisitionId
+      },
+      userId: user.id,
+      vesselId: notification.vesselId,
+      priority: notification.urgencyLevel === 'EMERGENCY' ? 'critical' : notification.urgencyLevel === 'URGENT' ? 'high' : 'medium'
+    });
+
+    try {
+      await emailService.sendEmail({
+        to: user.email,
+        subject: notification.subject,
+        body: notification.body,
+        type: notification.type
+      });
+    } catch (error) {
+      logger.error(`Failed to email approval notification to ${user.email}:`, error);
+    }
+  }
+}
+
+export const approvalSlaService = new ApprovalSlaService();
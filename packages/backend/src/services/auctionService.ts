@@ -0,0 +1,648 @@
+import { PrismaClient, AuctionBid, RFQAuction } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './auditService';
+import { quoteComparisonService } from './quoteComparisonService';
+import { websocketService, AuctionStanding } from './websocketService';
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+const SCHEDULER_INTERVAL_MS = MINUTE_MS;
+
+export interface AuctionCreationData {
+  startsAt: Date;
+  endsAt: Date;
+  minimumDecrement: number;
+  decrementIsPercent?: boolean;
+  startingPrice?: number;
+  extensionWindowMinutes?: number;
+  extensionMinutes?: number;
+  maxExtensions?: number;
+}
+
+export interface AuctionBidder {
+  vendorUserId: string;
+  vendorId: string;
+}
+
+export interface BidResult {
+  amount: number;
+  rank: number;
+  endsAt: Date;
+  extended: boolean;
+}
+
+export interface VendorAuctionView {
+  rfqId: string;
+  status: string;
+  startsAt: Date;
+  endsAt: Date;
+  minimumDecrement: number;
+  decrementIsPercent: boolean;
+  startingPrice: number | null;
+  rank: number | null;
+  bestBid: number | null;
+  nextMaximumBid: number | null;
+}
+
+export interface AuctionRunResult {
+  opened: number;
+  closed: number;
+  failed: number;
+}
+
+type BidWithVendor = AuctionBid & { vendor: { name: string } };
+
+class AuctionService {
+  /**
+   * Schedule a reverse auction on an issued RFQ. Qualifying quotes are due when bidding opens.
+   */
+  async createAuction(rfqId: string, data: AuctionCreationData, userId: string): Promise<RFQAuction> {
+    try {
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        include: {
+          auction: true,
+          requisition: { select: { vesselId: true } }
+        }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      if (rfq.auction) {
+        throw new AppError('RFQ already has an auction', 400, 'AUCTION_ALREADY_EXISTS');
+      }
+
+      if (rfq.status !== 'SENT' && rfq.status !== 'RESPONSES_RECEIVED') {
+        throw new AppError(`Cannot run an auction on an RFQ in ${rfq.status} status`, 400, 'INVALID_RFQ_STATUS');
+      }
+
+      // Rank feedback is the point of an auction; sealed bidding hides exactly that
+      if (rfq.isSealed) {
+        throw new AppError('Sealed-bid RFQs cannot be auctioned', 400, 'RFQ_SEALED');
+      }
+
+      if (data.startsAt <= new Date() || data.endsAt <= data.startsAt) {
+        throw new AppError('Auction must start in the future and end after it starts', 400, 'INVALID_AUCTION_WINDOW');
+      }
+
+      if (data.minimumDecrement <= 0 || (data.decrementIsPercent && data.minimumDecrement >= 100)) {
+        throw new AppError('Minimum decrement must be positive', 400, 'INVALID_MINIMUM_DECREMENT');
+      }
+
+      const auction = await prisma.$transaction(async (tx) => {
+        const created = await tx.rFQAuction.create({
+          data: {
+            rfqId,
+            startsAt: data.startsAt,
+            endsAt: data.endsAt,
+            originalEndsAt: data.endsAt,
+            minimumDecrement: data.minimumDecrement,
+            decrementIsPercent: data.decrementIsPercent ?? false,
+            startingPrice: data.startingPrice,
+            extensionWindowMinutes: data.extensionWindowMinutes ?? 5,
+            extensionMinutes: data.extensionMinutes ?? 5,
+            maxExtensions: data.maxExtensions,
+            createdById: userId
+          }
+        });
+
+        await tx.rFQ.update({
+          where: { id: rfqId },
+          data: { responseDeadline: data.startsAt }
+        });
+
+        return created;
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'rfq_auction',
+        resourceId: auction.id,
+        newValues: {
+          startsAt: auction.startsAt,
+          endsAt: auction.endsAt,
+          minimumDecrement: auction.minimumDecrement,
+          decrementIsPercent: auction.decrementIsPercent
+        },
+        vesselId: rfq.requisition.vesselId,
+        metadata: { rfqId, rfqNumber: rfq.rfqNumber }
+      });
+
+      return auction;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create auction', 500, 'AUCTION_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Auction with the full standings, for buyers
+   */
+  async getAuction(rfqId: string): Promise<RFQAuction & { standings: AuctionStanding[] }> {
+    try {
+      const auction = await prisma.rFQAuction.findUnique({
+        where: { rfqId },
+        include: {
+          bids: {
+            include: { vendor: { select: { name: true } } },
+            orderBy: { createdAt: 'asc' }
+          }
+        }
+      });
+
+      if (!auction) {
+        throw new AppError('Auction not found', 404, 'AUCTION_NOT_FOUND');
+      }
+
+      return { ...auction, standings: this.rankBids(auction.bids) };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get auction', 500, 'AUCTION_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Auction as one bidder sees it: the rules, its own best bid and its rank
+   */
+  async getVendorAuction(rfqId: string, vendorId: string): Promise<VendorAuctionView> {
+    try {
+      const auction = await prisma.rFQAuction.findUnique({
+        where: { rfqId },
+        include: {
+          bids: {
+            include: { vendor: { select: { name: true } } }
+          },
+          rfq: {
+            select: {
+              quotes: {
+                where: { vendorId, status: 'SUBMITTED' },
+                select: { totalAmount: true }
+              }
+            }
+          }
+        }
+      });
+
+      if (!auction || auction.status === 'CANCELLED') {
+        throw new AppError('Auction not found', 404, 'AUCTION_NOT_FOUND');
+      }
+
+      const standing = this.rankBids(auction.bids).find(entry => entry.vendorId === vendorId);
+      const baseline = standing?.amount ?? auction.rfq.quotes[0]?.totalAmount;
+
+      return {
+        rfqId,
+        status: auction.status,
+        startsAt: auction.startsAt,
+        endsAt: auction.endsAt,
+        minimumDecrement: auction.minimumDecrement,
+        decrementIsPercent: auction.decrementIsPercent,
+        startingPrice: auction.startingPrice,
+        rank: standing?.rank ?? null,
+        bestBid: standing?.amount ?? null,
+        nextMaximumBid: baseline !== undefined ? this.maximumNextBid(auction, baseline) : null
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get auction', 500, 'AUCTION_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Place a bid for the whole RFQ. Each bid must undercut the vendor's previous bid
+   * (or its qualifying quote) by the minimum decrement; late bids extend the auction.
+   */
+  async placeBid(rfqId: string, amount: number, bidder: AuctionBidder, now: Date = new Date()): Promise<BidResult> {
+    try {
+      const auction = await prisma.rFQAuction.findUnique({
+        where: { rfqId },
+        include: {
+          rfq: {
+            select: {
+              status: true,
+              rfqNumber: true,
+              requisition: { select: { vesselId: true } },
+              quotes: {
+                where: { vendorId: bidder.vendorId, status: 'SUBMITTED' },
+                select: { id: true, totalAmount: true }
+              }
+            }
+          }
+        }
+      });
+
+      if (!auction) {
+        throw new AppError('Auction not found', 404, 'AUCTION_NOT_FOUND');
+      }
+
+      if (auction.status === 'CLOSED' || auction.status === 'CANCELLED' || now < auction.startsAt || now >= auction.endsAt) {
+        throw new AppError('Auction is not open for bidding', 400, 'AUCTION_NOT_OPEN');
+      }
+
+      if (auction.rfq.status === 'CANCELLED' || auction.rfq.status === 'AWARDED') {
+        throw new AppError('RFQ is no longer accepting bids', 400, 'RFQ_CLOSED');
+      }
+
+      const qualifyingQuote = auction.rfq.quotes[0];
+      if (!qualifyingQuote) {
+        throw new AppError('A submitted quote is required before bidding', 400, 'AUCTION_NOT_QUALIFIED');
+      }
+
+      if (!(amount > 0)) {
+        throw new AppError('Bid must be a positive amount', 400, 'INVALID_BID');
+      }
+
+      if (auction.startingPrice !== null && amount > auction.startingPrice) {
+        throw new AppError(`Bid cannot exceed the starting price of ${auction.startingPrice}`, 400, 'BID_ABOVE_STARTING_PRICE');
+      }
+
+      const { bid, previous, extended, endsAt } = await prisma.$transaction(async (tx) => {
+        // The auction may have closed or been cancelled since it was read; the update also locks
+        // the auction row so concurrent bids are checked against each other's extensions
+        const opened = await tx.rFQAuction.updateMany({
+          where: {
+            id: auction.id,
+            status: { in: ['SCHEDULED', 'OPEN'] },
+            startsAt: { lte: now },
+            endsAt: { gt: now }
+          },
+          data: { status: 'OPEN' }
+        });
+
+        if (opened.count === 0) {
+          throw new AppError('Auction is not open for bidding', 400, 'AUCTION_NOT_OPEN');
+        }
+
+        const current = await tx.rFQAuction.findUniqueOrThrow({
+          where: { id: auction.id },
+          include: {
+            bids: {
+              where: { vendorId: bidder.vendorId },
+              orderBy: { amount: 'asc' },
+              take: 1
+            }
+          }
+        });
+
+        const previous = current.bids[0]?.amount ?? qualifyingQuote.totalAmount;
+        const maximum = this.maximumNextBid(current, previous);
+        if (amount > maximum) {
+          throw new AppError(`Bid must be at most ${maximum}`, 400, 'BID_DECREMENT_TOO_SMALL');
+        }
+
+        const extended = this.shouldExtend(current, now);
+        const endsAt = extended
+          ? new Date(Math.max(current.endsAt.getTime(), now.getTime() + current.extensionMinutes * MINUTE_MS))
+          : current.endsAt;
+
+        const created = await tx.auctionBid.create({
+          data: {
+            auctionId: auction.id,
+            vendorId: bidder.vendorId,
+            vendorUserId: bidder.vendorUserId,
+            amount
+          }
+        });
+
+        if (extended) {
+          await tx.rFQAuction.update({
+            where: { id: auction.id },
+            data: { endsAt, extensionCount: { increment: 1 } }
+          });
+        }
+
+        return { bid: created, previous, extended, endsAt };
+      });
+
+      await AuditService.log({
+        action: 'CREATE',
+        resource: 'auction_bid',
+        resourceId: bid.id,
+        newValues: { amount, previous, extended, endsAt },
+        vesselId: auction.rfq.requisition.vesselId,
+        metadata: {
+          source: 'VENDOR_PORTAL',
+          ...bidder,
+          rfqId,
+          rfqNumber: auction.rfq.rfqNumber
+        }
+      });
+
+      const standings = await this.publishStandings(auction.id, extended);
+      const rank = standings.find(entry => entry.vendorId === bidder.vendorId)!.rank;
+
+      return { amount, rank, endsAt, extended };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to place bid', 500, 'BID_FAILED');
+    }
+  }
+
+  /**
+   * Cancel an auction that has not closed; quotes stay as submitted
+   */
+  async cancelAuction(rfqId: string, userId: string): Promise<RFQAuction> {
+    try {
+      const auction = await prisma.rFQAuction.findUnique({ where: { rfqId } });
+
+      if (!auction) {
+        throw new AppError('Auction not found', 404, 'AUCTION_NOT_FOUND');
+      }
+
+      if (auction.status === 'CLOSED' || auction.status === 'CANCELLED') {
+        throw new AppError(`Cannot cancel an auction in ${auction.status} status`, 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const cancelled = await prisma.rFQAuction.update({
+        where: { id: auction.id },
+        data: { status: 'CANCELLED', closedAt: new Date() }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'rfq_auction',
+        resourceId: auction.id,
+        oldValues: { status: auction.status },
+        newValues: { status: 'CANCELLED' },
+        metadata: { rfqId }
+      });
+
+      await this.publishStandings(auction.id, false);
+
+      return cancelled;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to cancel auction', 500, 'AUCTION_CANCEL_FAILED');
+    }
+  }
+
+  /**
+   * Open auctions whose start has come and close those whose (possibly extended) end has passed
+   */
+  async processAuctions(now: Date = new Date()): Promise<AuctionRunResult> {
+    const result: AuctionRunResult = { opened: 0, closed: 0, failed: 0 };
+
+    const opening = await prisma.rFQAuction.findMany({
+      where: { status: 'SCHEDULED', startsAt: { lte: now }, endsAt: { gt: now } }
+    });
+
+    for (const auction of opening) {
+      try {
+        await prisma.rFQAuction.update({
+          where: { id: auction.id },
+          data: { status: 'OPEN' }
+        });
+        await this.publishStandings(auction.id, false);
+        result.opened++;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to open auction ${auction.id}:`, error);
+      }
+    }
+
+    const closing = await prisma.rFQAuction.findMany({
+      where: { status: { in: ['SCHEDULED', 'OPEN'] }, endsAt: { lte: now } }
+    });
+
+    for (const auction of closing) {
+      try {
+        await this.closeAuction(auction.id, now);
+        result.closed++;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to close auction ${auction.id}:`, error);
+      }
+    }
+
+    if (result.opened || result.closed || result.failed) {
+      logger.info(`Auction run: ${result.opened} opened, ${result.closed} closed, ${result.failed} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run auction opening and closing every minute
+   */
+  scheduleAuctionMonitoring(): void {
+    setInterval(async () => {
+      try {
+        await this.processAuctions();
+      } catch (error) {
+        logger.error('Auction monitoring failed:', error);
+      }
+    }, SCHEDULER_INTERVAL_MS);
+
+    logger.info('Auction monitoring scheduled');
+  }
+
+  /**
+   * Close an auction, carry each vendor's best bid into its quote and rescore the RFQ
+   */
+  async closeAuction(auctionId: string, now: Date = new Date()): Promise<AuctionStanding[]> {
+    const auction = await prisma.rFQAuction.findUnique({
+      where: { id: auctionId },
+      include: {
+        bids: {
+          include: { vendor: { select: { name: true } } }
+        },
+        rfq: {
+          include: {
+            requisition: { select: { vesselId: true } },
+            quotes: {
+              where: { status: 'SUBMITTED' },
+              include: { lineItems: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!auction) {
+      throw new AppError('Auction not found', 404, 'AUCTION_NOT_FOUND');
+    }
+
+    const standings = this.rankBids(auction.bids);
+    const quotesByVendor = new Map(auction.rfq.quotes.map(quote => [quote.vendorId, quote]));
+
+    await prisma.$transaction(async (tx) => {
+      for (const standing of standings) {
+        const quote = quotesByVendor.get(standing.vendorId);
+        if (!quote) continue;
+
+        // Spread the bid reduction evenly over the quoted lines
+        const factor = quote.totalAmount > 0 ? standing.amount / quote.totalAmount : 1;
+        for (const line of quote.lineItems) {
+          const unitPrice = Math.round(line.unitPrice * factor * 100) / 100;
+          await tx.quoteLineItem.update({
+            where: { id: line.id },
+            data: {
+              unitPrice,
+              totalPrice: Math.round(unitPrice * line.quantity * 100) / 100
+            }
+          });
+        }
+
+        await tx.quote.update({
+          where: { id: quote.id },
+          data: {
+            totalAmount: standing.amount,
+            revision: { increment: 1 },
+            notes: [quote.notes, `Final auction bid ${standing.amount} ${quote.currency} (rank ${standing.rank})`].filter(Boolean).join('\n'),
+            priceScore: null,
+            deliveryScore: null,
+            qualityScore: null,
+            locationScore: null,
+            totalScore: null
+          }
+        });
+      }
+
+      await tx.rFQAuction.update({
+        where: { id: auctionId },
+        data: { status: 'CLOSED', closedAt: now }
+      });
+
+      if (auction.rfq.status === 'SENT') {
+        await tx.rFQ.update({
+          where: { id: auction.rfqId },
+          data: { status: 'RESPONSES_RECEIVED' }
+        });
+      }
+    });
+
+    await AuditService.log({
+      action: 'UPDATE',
+      resource: 'rfq_auction',
+      resourceId: auctionId,
+      oldValues: { status: auction.status },
+      newValues: {
+        status: 'CLOSED',
+        extensionCount: auction.extensionCount,
+        standings: standings.map(({ rank, vendorId, amount }) => ({ rank, vendorId, amount }))
+      },
+      vesselId: auction.rfq.requisition.vesselId,
+      metadata: {
+        source: 'SCHEDULER',
+        rfqId: auction.rfqId,
+        rfqNumber: auction.rfq.rfqNumber
+      }
+    });
+
+    // Final prices feed the normal multi-criteria comparison
+    if (auction.rfq.quotes.length > 0) {
+      try {
+        await quoteComparisonService.scoreAndCompareQuotes(auction.rfqId);
+      } catch (error) {
+        logger.error(`Failed to score quotes after auction ${auctionId}:`, error);
+      }
+    }
+
+    await this.publishStandings(auctionId, false);
+
+    return standings;
+  }
+
+  // Private helper methods
+
+  /**
+   * Best bid per vendor, cheapest first; ties go to whoever bid first
+   */
+  private rankBids(bids: BidWithVendor[]): AuctionStanding[] {
+    const best = new Map<string, BidWithVendor>();
+
+    for (const bid of bids) {
+      const current = best.get(bid.vendorId);
+      if (!current || bid.amount < current.amount || (bid.amount === current.amount && bid.createdAt < current.createdAt)) {
+        best.set(bid.vendorId, bid);
+      }
+    }
+
+    return Array.from(best.values())
+      .sort((a, b) => a.amount - b.amount || a.createdAt.getTime() - b.createdAt.getTime())
+      .map((bid, index) => ({
+        rank: index + 1,
+        vendorId: bid.vendorId,
+        vendorName: bid.vendor.name,
+        amount: bid.amount,
+        bidAt: bid.createdAt
+      }));
+  }
+
+  private maximumNextBid(auction: Pick<RFQAuction, 'minimumDecrement' | 'decrementIsPercent'>, previous: number): number {
+    const decrement = auction.decrementIsPercent
+      ? previous * auction.minimumDecrement / 100
+      : auction.minimumDecrement;
+
+    return Math.round((previous - decrement) * 100) / 100;
+  }
+
+  private shouldExtend(auction: RFQAuction, now: Date): boolean {
+    if (auction.maxExtensions !== null && auction.extensionCount >= auction.maxExtensions) {
+      return false;
+    }
+
+    return auction.endsAt.getTime() - now.getTime() <= auction.extensionWindowMinutes * MINUTE_MS;
+  }
+
+  /**
+   * Push the full board to watching buyers and each bidder's own rank to that bidder
+   */
+  private async publishStandings(auctionId: string, extended: boolean): Promise<AuctionStanding[]> {
+    const auction = await prisma.rFQAuction.findUnique({
+      where: { id: auctionId },
+      include: {
+        bids: {
+          include: { vendor: { select: { name: true } } }
+        },
+        rfq: {
+          select: {
+            vendors: {
+              where: { sentAt: { not: null } },
+              select: { vendorId: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!auction) {
+      return [];
+    }
+
+    const standings = this.rankBids(auction.bids);
+    const timestamp = new Date();
+
+    await websocketService.sendAuctionUpdate({
+      rfqId: auction.rfqId,
+      auctionId,
+      status: auction.status,
+      endsAt: auction.endsAt,
+      extended,
+      standings,
+      timestamp
+    });
+
+    for (const { vendorId } of auction.rfq.vendors) {
+      const standing = standings.find(entry => entry.vendorId === vendorId);
+      await websocketService.sendVendorAuctionUpdate(vendorId, {
+        rfqId: auction.rfqId,
+        status: auction.status,
+        endsAt: auction.endsAt,
+        rank: standing?.rank ?? null,
+        bestBid: standing?.amount ?? null,
+        timestamp
+      });
+    }
+
+    return standings;
+  }
+}
+
+export const auctionService = new AuctionService();
@@ -0,0 +1,273 @@
+import { PrismaClient, ItemCategory } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { extractPortCode } from '../utils/portCode';
+
+const prisma = new PrismaClient();
+
+export interface ConsolidationFilters {
+  category?: ItemCategory;
+  portCode?: string;
+  vesselIds?: string[];
+  portWindowDays?: number;
+}
+
+export interface ConsolidationSplit {
+  requisitionId: string;
+  requisitionNumber: string;
+  vesselId: string;
+  vesselName: string;
+  quantity: number;
+  deliveryDate: Date | null;
+}
+
+export interface ConsolidationItem {
+  itemCatalogId: string;
+  name: string;
+  impaCode: string | null;
+  unitOfMeasure: string;
+  totalQuantity: number;
+  sharedAcrossVessels: boolean;
+  splits: ConsolidationSplit[];
+}
+
+export interface ConsolidationGroup {
+  category: ItemCategory;
+  portCode: string;
+  windowStart: Date;
+  windowEnd: Date;
+  vesselCount: number;
+  requisitionIds: string[];
+  estimatedValue: number;
+  currency: string;
+  items: ConsolidationItem[];
+}
+
+class ConsolidationService {
+  private readonly DEFAULT_PORT_WINDOW_DAYS = 7;
+
+  /**
+   * Group approved requisitions from different vessels that order the same items
+   * in one category, for delivery at the same port within a shared window
+   */
+  async getConsolidationCandidates(filters: ConsolidationFilters = {}): Promise<ConsolidationGroup[]> {
+    try {
+      const portWindowDays = filters.portWindowDays || this.DEFAULT_PORT_WINDOW_DAYS;
+
+      const requisitions = await prisma.requisition.findMany({
+        where: {
+          status: 'APPROVED',
+          deliveryDate: { not: null },
+          vesselId: filters.vesselIds?.length ? { in: filters.vesselIds } : undefined,
+          rfqs: { none: {} },
+          purchaseOrders: { none: {} }
+        },
+        include: {
+          vessel: true,
+          items: {
+            include: {
+              itemCatalog: true
+            }
+          }
+        },
+        orderBy: { deliveryDate: 'asc' }
+      });
+
+      // Requisitions are consolidated whole, so only single-category requisitions with a known port qualify
+      const buckets = new Map<string, typeof requisitions>();
+      for (const requisition of requisitions) {
+        const categories = new Set(requisition.items.map(item => item.itemCatalog.category));
+        const portCode = extractPortCode(requisition.deliveryLocation);
+
+        if (categories.size !== 1 || !portCode) continue;
+
+        const [category] = Array.from(categories);
+        if (filters.category && category !== filters.category) continue;
+        if (filters.portCode && portCode !== filters.portCode) continue;
+
+        const key = `${category}|${portCode}|${requisition.currency}`;
+        buckets.set(key, [...(buckets.get(key) || []), requisition]);
+      }
+
+      const groups: ConsolidationGroup[] = [];
+      for (const [key, bucket] of buckets) {
+        const [category, portCode, currency] = key.split('|');
+
+        for (const window of this.clusterByWindow(bucket, portWindowDays)) {
+          const group = this.buildGroup(window, category as ItemCategory, portCode, currency);
+          if (group) groups.push(group);
+        }
+      }
+
+      return groups.sort((a, b) => b.vesselCount - a.vesselCount || b.estimatedValue - a.estimatedValue);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get consolidation candidates', 500, 'CONSOLIDATION_CANDIDATES_FAILED');
+    }
+  }
+
+  /**
+   * Consolidated RFQ with each vessel's share and the purchase orders it was fanned out to
+   */
+  async getConsolidatedRFQ(rfqId: string) {
+    try {
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        include: {
+          deliverySplits: {
+            include: {
+              requisition: true,
+              vessel: true,
+              itemCatalog: true
+            }
+          },
+          quotes: {
+            include: {
+              vendor: true,
+              purchaseOrders: true
+            }
+          }
+        }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      if (!rfq.isConsolidated) {
+        throw new AppError('RFQ is not a consolidated RFQ', 400, 'RFQ_NOT_CONSOLIDATED');
+      }
+
+      const purchaseOrders = rfq.quotes.flatMap(quote => quote.purchaseOrders.map(po => ({
+        id: po.id,
+        poNumber: po.poNumber,
+        requisitionId: po.requisitionId,
+        vendorName: quote.vendor.name,
+        status: po.status,
+        totalAmount: po.totalAmount,
+        currency: po.currency
+      })));
+
+      const requisitions = new Map<string, any>();
+      for (const split of rfq.deliverySplits) {
+        const entry = requisitions.get(split.requisitionId) || {
+          requisitionId: split.requisitionId,
+          requisitionNumber: split.requisition.requisitionNumber,
+          requisitionStatus: split.requisition.status,
+          vesselId: split.vesselId,
+          vesselName: split.vessel.name,
+          deliveryLocation: split.deliveryLocation,
+          deliveryDate: split.deliveryDate,
+          items: [],
+          purchaseOrders: purchaseOrders.filter(po => po.requisitionId === split.requisitionId)
+        };
+
+        entry.items.push({
+          itemCatalogId: split.itemCatalogId,
+          name: split.itemCatalog.name,
+          quantity: split.quantity
+        });
+        requisitions.set(split.requisitionId, entry);
+      }
+
+      return {
+        rfqId: rfq.id,
+        rfqNumber: rfq.rfqNumber,
+        status: rfq.status,
+        vesselCount: new Set(rfq.deliverySplits.map(split => split.vesselId)).size,
+        requisitions: Array.from(requisitions.values()),
+        purchaseOrders
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get consolidated RFQ', 500, 'CONSOLIDATED_RFQ_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Split requisitions (sorted by delivery date) into windows that start at the earliest date
+   */
+  private clusterByWindow<T extends { deliveryDate: Date | null }>(requisitions: T[], windowDays: number): T[][] {
+    const windowMs = windowDays * 24 * 60 * 60 * 1000;
+    const windows: T[][] = [];
+    let current: T[] = [];
+    let windowStart = 0;
+
+    for (const requisition of requisitions) {
+      const time = requisition.deliveryDate!.getTime();
+      if (current.length === 0 || time - windowStart > windowMs) {
+        if (current.length > 0) windows.push(current);
+        current = [];
+        windowStart = time;
+      }
+      current.push(requisition);
+    }
+
+    if (current.length > 0) windows.push(current);
+    return windows;
+  }
+
+  /**
+   * Keep the requisitions that share at least one item with another vessel; null when fewer than two vessels remain
+   */
+  private buildGroup(requisitions: any[], category: ItemCategory, portCode: string, currency: string): ConsolidationGroup | null {
+    const vesselsByItem = new Map<string, Set<string>>();
+    for (const requisition of requisitions) {
+      for (const item of requisition.items) {
+        const vessels = vesselsByItem.get(item.itemCatalogId) || new Set<string>();
+        vessels.add(requisition.vesselId);
+        vesselsByItem.set(item.itemCatalogId, vessels);
+      }
+    }
+
+    const isShared = (itemCatalogId: string) => (vesselsByItem.get(itemCatalogId)?.size || 0) > 1;
+    const members = requisitions.filter(requisition =>
+      requisition.items.some((item: any) => isShared(item.itemCatalogId))
+    );
+
+    if (new Set(members.map(requisition => requisition.vesselId)).size < 2) {
+      return null;
+    }
+
+    const items = new Map<string, ConsolidationItem>();
+    for (const requisition of members) {
+      for (const item of requisition.items) {
+        const entry: ConsolidationItem = items.get(item.itemCatalogId) || {
+          itemCatalogId: item.itemCatalogId,
+          name: item.itemCatalog.name,
+          impaCode: item.itemCatalog.impaCode,
+          unitOfMeasure: item.itemCatalog.unitOfMeasure,
+          totalQuantity: 0,
+          sharedAcrossVessels: isShared(item.itemCatalogId),
+          splits: []
+        };
+
+        entry.totalQuantity += item.quantity;
+        entry.splits.push({
+          requisitionId: requisition.id,
+          requisitionNumber: requisition.requisitionNumber,
+          vesselId: requisition.vesselId,
+          vesselName: requisition.vessel.name,
+          quantity: item.quantity,
+          deliveryDate: requisition.deliveryDate
+        });
+        items.set(item.itemCatalogId, entry);
+      }
+    }
+
+    const deliveryDates = members.map(requisition => requisition.deliveryDate.getTime());
+
+    return {
+      category,
+      portCode,
+      windowStart: new Date(Math.min(...deliveryDates)),
+      windowEnd: new Date(Math.max(...deliveryDates)),
+      vesselCount: new Set(members.map(requisition => requisition.vesselId)).size,
+      requisitionIds: members.map(requisition => requisition.id),
+      estimatedValue: Math.round(members.reduce((sum, requisition) => sum + requisition.totalAmount, 0) * 100) / 100,
+      currency,
+      items: Array.from(items.values())
+    };
+  }
+}
+
+export const consolidationService = new ConsolidationService();
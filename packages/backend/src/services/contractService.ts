@@ -0,0 +1,641 @@
+import { PrismaClient, ContractStatus, ContractPriceItem, VendorContract, Prisma } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { extractPortCode } from '../utils/portCode';
+import { AuditService } from './auditService';
+
+const prisma = new PrismaClient();
+
+export interface VolumeTier {
+  minQuantity: number;
+  unitPrice: number;
+}
+
+export interface ContractPriceItemInput {
+  itemCatalogId?: string;
+  impaCode?: string;
+  unitPrice: number;
+  minOrderQuantity?: number;
+  volumeTiers?: VolumeTier[];
+}
+
+export interface ContractCreationData {
+  vendorId: string;
+  title: string;
+  description?: string;
+  validFrom: Date;
+  validTo: Date;
+  currency?: string;
+  portCodes?: string[];
+  spendCap?: number;
+  paymentTerms?: string;
+  deliveryTerms?: string;
+  leadTimeDays?: number;
+  priceItems: ContractPriceItemInput[];
+}
+
+export type ContractUpdateData = Partial<Omit<ContractCreationData, 'vendorId'>>;
+
+export interface ContractFilters {
+  vendorId?: string;
+  status?: ContractStatus;
+  itemCatalogId?: string;
+  activeOn?: Date;
+}
+
+export interface ContractLinePrice {
+  requisitionItemId: string;
+  itemCatalogId: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  tierMinQuantity: number | null;
+}
+
+export interface ContractCoverage {
+  contract: VendorContract & { priceItems: ContractPriceItem[] };
+  lines: ContractLinePrice[];
+  totalAmount: number;
+  committedSpend: number;
+}
+
+export interface RequisitionCoverageResult {
+  requisitionId: string;
+  covered: boolean;
+  coverage: ContractCoverage | null;
+  candidates: Array<{
+    contractId: string;
+    contractNumber: string;
+    vendorId: string;
+    coveredItems: number;
+    totalItems: number;
+    reasons: string[];
+  }>;
+}
+
+type RequisitionForCoverage = Prisma.RequisitionGetPayload<{
+  include: { items: true };
+}>;
+
+// Commitments that count against a contract's spend cap
+const COMMITTED_PO_STATUSES = ['DRAFT', 'SENT', 'ACKNOWLEDGED', 'IN_PROGRESS', 'DELIVERED', 'INVOICED', 'PAID'] as const;
+
+const STATUS_TRANSITIONS: Record<ContractStatus, ContractStatus[]> = {
+  DRAFT: ['ACTIVE', 'TERMINATED'],
+  ACTIVE: ['SUSPENDED', 'EXPIRED', 'TERMINATED'],
+  SUSPENDED: ['ACTIVE', 'TERMINATED'],
+  EXPIRED: [],
+  TERMINATED: []
+};
+
+class ContractService {
+  /**
+   * Create a draft vendor contract with its price list
+   */
+  async createContract(data: ContractCreationData, userId: string): Promise<VendorContract> {
+    try {
+      this.validateContractTerms(data);
+
+      const vendor = await prisma.vendor.findUnique({ where: { id: data.vendorId } });
+      if (!vendor) {
+        throw new AppError('Vendor not found', 404, 'VENDOR_NOT_FOUND');
+      }
+
+      const priceItems = await this.resolvePriceItems(data.priceItems);
+      const contractNumber = await this.generateContractNumber();
+
+      const contract = await prisma.vendorContract.create({
+        data: {
+          contractNumber,
+          vendorId: data.vendorId,
+          title: data.title,
+          description: data.description,
+          validFrom: data.validFrom,
+          validTo: data.validTo,
+          currency: data.currency || 'USD',
+          portCodes: (data.portCodes || []).map(code => code.toUpperCase()),
+          spendCap: data.spendCap,
+          paymentTerms: data.paymentTerms,
+          deliveryTerms: data.deliveryTerms,
+          leadTimeDays: data.leadTimeDays,
+          createdById: userId,
+          priceItems: { create: priceItems }
+        },
+        include: { priceItems: true }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'vendor_contract',
+        resourceId: contract.id,
+        newValues: {
+          contractNumber,
+          vendorId: data.vendorId,
+          validFrom: data.validFrom,
+          validTo: data.validTo,
+          spendCap: data.spendCap,
+          priceItems: priceItems.length
+        }
+      });
+
+      return contract;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create vendor contract', 500, 'CONTRACT_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Update contract terms; a new price list replaces the old one
+   */
+  async updateContract(id: string, data: ContractUpdateData, userId: string): Promise<VendorContract> {
+    try {
+      const existing = await prisma.vendorContract.findUnique({ where: { id } });
+      if (!existing) {
+        throw new AppError('Contract not found', 404, 'CONTRACT_NOT_FOUND');
+      }
+
+      if (existing.status === 'EXPIRED' || existing.status === 'TERMINATED') {
+        throw new AppError(`${existing.status.toLowerCase()} contracts cannot be changed`, 400, 'CONTRACT_CLOSED');
+      }
+
+      this.validateContractTerms({
+        validFrom: data.validFrom || existing.validFrom,
+        validTo: data.validTo || existing.validTo,
+        spendCap: data.spendCap ?? existing.spendCap ?? undefined,
+        priceItems: data.priceItems
+      });
+
+      const priceItems = data.priceItems ? await this.resolvePriceItems(data.priceItems) : undefined;
+
+      const contract = await prisma.$transaction(async (tx) => {
+        if (priceItems) {
+          await tx.contractPriceItem.deleteMany({ where: { contractId: id } });
+        }
+
+        return tx.vendorContract.update({
+          where: { id },
+          data: {
+            title: data.title,
+            description: data.description,
+            validFrom: data.validFrom,
+            validTo: data.validTo,
+            currency: data.currency,
+            portCodes: data.portCodes?.map(code => code.toUpperCase()),
+            spendCap: data.spendCap,
+            paymentTerms: data.paymentTerms,
+            deliveryTerms: data.deliveryTerms,
+            leadTimeDays: data.leadTimeDays,
+            ...(priceItems ? { priceItems: { create: priceItems } } : {})
+          },
+          include: { priceItems: true }
+        });
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'vendor_contract',
+        resourceId: id,
+        oldValues: {
+          validFrom: existing.validFrom,
+          validTo: existing.validTo,
+          spendCap: existing.spendCap,
+          portCodes: existing.portCodes
+        },
+        newValues: {
+          validFrom: contract.validFrom,
+          validTo: contract.validTo,
+          spendCap: contract.spendCap,
+          portCodes: contract.portCodes,
+          priceListReplaced: !!priceItems
+        }
+      });
+
+      return contract;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update vendor contract', 500, 'CONTRACT_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Move a contract through its lifecycle
+   */
+  async updateContractStatus(id: string, status: ContractStatus, userId: string, reason?: string): Promise<VendorContract> {
+    try {
+      const existing = await prisma.vendorContract.findUnique({
+        where: { id },
+        include: { _count: { select: { priceItems: true } } }
+      });
+      if (!existing) {
+        throw new AppError('Contract not found', 404, 'CONTRACT_NOT_FOUND');
+      }
+
+      if (!STATUS_TRANSITIONS[existing.status].includes(status)) {
+        throw new AppError(`Cannot move a ${existing.status} contract to ${status}`, 400, 'INVALID_CONTRACT_STATUS');
+      }
+
+      if (status === 'ACTIVE') {
+        if (existing._count.priceItems === 0) {
+          throw new AppError('A contract needs at least one priced item before it can be activated', 400, 'CONTRACT_HAS_NO_PRICES');
+        }
+        if (existing.validTo < new Date()) {
+          throw new AppError('Contract validity has already ended', 400, 'CONTRACT_EXPIRED');
+        }
+      }
+
+      const contract = await prisma.vendorContract.update({
+        where: { id },
+        data: { status }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'vendor_contract',
+        resourceId: id,
+        oldValues: { status: existing.status },
+        newValues: { status },
+        metadata: { reason }
+      });
+
+      return contract;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update contract status', 500, 'CONTRACT_STATUS_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * List contracts
+   */
+  async getContracts(filters: ContractFilters = {}): Promise<VendorContract[]> {
+    try {
+      const where: Prisma.VendorContractWhereInput = {};
+      if (filters.vendorId) where.vendorId = filters.vendorId;
+      if (filters.status) where.status = filters.status;
+      if (filters.itemCatalogId) where.priceItems = { some: { itemCatalogId: filters.itemCatalogId } };
+      if (filters.activeOn) {
+        where.status = 'ACTIVE';
+        where.validFrom = { lte: filters.activeOn };
+        where.validTo = { gte: filters.activeOn };
+      }
+
+      return await prisma.vendorContract.findMany({
+        where,
+        include: {
+          vendor: { select: { id: true, name: true, code: true } },
+          _count: { select: { priceItems: true, purchaseOrders: true } }
+        },
+        orderBy: { validTo: 'asc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get vendor contracts', 500, 'CONTRACT_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Get a contract with its price list
+   */
+  async getContractById(id: string): Promise<VendorContract> {
+    try {
+      const contract = await prisma.vendorContract.findUnique({
+        where: { id },
+        include: {
+          vendor: { select: { id: true, name: true, code: true } },
+          priceItems: {
+            include: {
+              itemCatalog: { select: { id: true, impaCode: true, name: true, unitOfMeasure: true } }
+            }
+          }
+        }
+      });
+
+      if (!contract) {
+        throw new AppError('Contract not found', 404, 'CONTRACT_NOT_FOUND');
+      }
+
+      return contract;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get vendor contract', 500, 'CONTRACT_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Contract price for a quantity, applying the best volume tier reached
+   */
+  getUnitPrice(priceItem: Pick<ContractPriceItem, 'unitPrice' | 'volumeTiers'>, quantity: number): { unitPrice: number; tierMinQuantity: number | null } {
+    const tiers = ((priceItem.volumeTiers as unknown as VolumeTier[] | null) || [])
+      .filter(tier => quantity >= tier.minQuantity)
+      .sort((a, b) => b.minQuantity - a.minQuantity);
+
+    return tiers.length > 0
+      ? { unitPrice: tiers[0].unitPrice, tierMinQuantity: tiers[0].minQuantity }
+      : { unitPrice: priceItem.unitPrice, tierMinQuantity: null };
+  }
+
+  /**
+   * Check which active contracts could supply a requisition at contract price
+   */
+  async checkRequisitionCoverage(requisitionId: string, contractId?: string): Promise<RequisitionCoverageResult> {
+    try {
+      const requisition = await prisma.requisition.findUnique({
+        where: { id: requisitionId },
+        include: { items: true }
+      });
+
+      if (!requisition) {
+        throw new AppError('Requisition not found', 404, 'REQUISITION_NOT_FOUND');
+      }
+
+      return await this.evaluateCoverage(requisition, contractId);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to check contract coverage', 500, 'CONTRACT_COVERAGE_FAILED');
+    }
+  }
+
+  /**
+   * Cheapest active contract that covers every requisition line, if any
+   */
+  async findCoveringContract(requisition: RequisitionForCoverage, contractId?: string): Promise<ContractCoverage | null> {
+    const result = await this.evaluateCoverage(requisition, contractId);
+    return result.coverage;
+  }
+
+  /**
+   * Committed spend against a contract
+   */
+  async getCommittedSpend(contractId: string, tx: Prisma.TransactionClient = prisma): Promise<number> {
+    const committed = await tx.purchaseOrder.aggregate({
+      where: {
+        contractId,
+        status: { in: [...COMMITTED_PO_STATUSES] }
+      },
+      _sum: { totalAmount: true }
+    });
+
+    return committed._sum.totalAmount || 0;
+  }
+
+  /**
+   * Contract utilisation: committed spend against cap, item volumes and off-contract leakage
+   */
+  async getUtilisationReport(filters: { vendorId?: string; contractId?: string } = {}) {
+    try {
+      const contracts = await prisma.vendorContract.findMany({
+        where: {
+          ...(filters.contractId ? { id: filters.contractId } : {}),
+          ...(filters.vendorId ? { vendorId: filters.vendorId } : {}),
+          status: { in: ['ACTIVE', 'SUSPENDED', 'EXPIRED'] }
+        },
+        include: {
+          vendor: { select: { id: true, name: true } },
+          priceItems: {
+            include: { itemCatalog: { select: { id: true, impaCode: true, name: true } } }
+          },
+          purchaseOrders: {
+            where: { status: { in: [...COMMITTED_PO_STATUSES] } },
+            include: { lineItems: true }
+          }
+        },
+        orderBy: { validTo: 'asc' }
+      });
+
+      const now = new Date();
+
+      const report = await Promise.all(contracts.map(async contract => {
+        const committedSpend = contract.purchaseOrders.reduce((sum, po) => sum + po.totalAmount, 0);
+        const contractLines = contract.purchaseOrders.flatMap(po => po.lineItems);
+        const itemIds = contract.priceItems.map(item => item.itemCatalogId);
+
+        // The same items bought outside the contract during its term
+        const offContractLines = await prisma.pOLineItem.findMany({
+          where: {
+            itemCatalogId: { in: itemIds },
+            purchaseOrder: {
+              OR: [{ contractId: null }, { contractId: { not: contract.id } }],
+              status: { in: [...COMMITTED_PO_STATUSES] },
+              createdAt: { gte: contract.validFrom, lte: contract.validTo }
+            }
+          },
+          select: { itemCatalogId: true, quantity: true, totalPrice: true }
+        });
+
+        const items = contract.priceItems.map(priceItem => {
+          const ordered = contractLines.filter(line => line.itemCatalogId === priceItem.itemCatalogId);
+          const offContract = offContractLines.filter(line => line.itemCatalogId === priceItem.itemCatalogId);
+          return {
+            itemCatalogId: priceItem.itemCatalogId,
+            impaCode: priceItem.itemCatalog.impaCode,
+            name: priceItem.itemCatalog.name,
+            contractUnitPrice: priceItem.unitPrice,
+            quantityOrdered: ordered.reduce((sum, line) => sum + line.quantity, 0),
+            spend: ordered.reduce((sum, line) => sum + line.totalPrice, 0),
+            offContractQuantity: offContract.reduce((sum, line) => sum + line.quantity, 0),
+            offContractSpend: offContract.reduce((sum, line) => sum + line.totalPrice, 0)
+          };
+        });
+
+        const offContractSpend = items.reduce((sum, item) => sum + item.offContractSpend, 0);
+
+        return {
+          contractId: contract.id,
+          contractNumber: contract.contractNumber,
+          title: contract.title,
+          vendor: contract.vendor,
+          status: contract.status,
+          validFrom: contract.validFrom,
+          validTo: contract.validTo,
+          daysRemaining: Math.max(0, Math.ceil((contract.validTo.getTime() - now.getTime()) / (24 * 60 * 60 * 1000))),
+          currency: contract.currency,
+          spendCap: contract.spendCap,
+          committedSpend,
+          remainingSpend: contract.spendCap !== null ? Math.max(0, contract.spendCap - committedSpend) : null,
+          utilisationPercent: contract.spendCap ? Math.round((committedSpend / contract.spendCap) * 1000) / 10 : null,
+          purchaseOrderCount: contract.purchaseOrders.length,
+          offContractSpend,
+          complianceRate: committedSpend + offContractSpend > 0
+            ? Math.round((committedSpend / (committedSpend + offContractSpend)) * 1000) / 10
+            : null,
+          items
+        };
+      }));
+
+      return {
+        contracts: report,
+        summary: {
+          contractCount: report.length,
+          committedSpend: report.reduce((sum, item) => sum + item.committedSpend, 0),
+          offContractSpend: report.reduce((sum, item) => sum + item.offContractSpend, 0),
+          nearingCap: report.filter(item => item.utilisationPercent !== null && item.utilisationPercent >= 80).length,
+          expiringWithin30Days: report.filter(item => item.status === 'ACTIVE' && item.daysRemaining <= 30).length
+        }
+      };
+    } catch (error) {
+      throw new AppError('Failed to build contract utilisation report', 500, 'CONTRACT_UTILISATION_FAILED');
+    }
+  }
+
+  private async evaluateCoverage(requisition: RequisitionForCoverage, contractId?: string): Promise<RequisitionCoverageResult> {
+    const now = new Date();
+    const port = extractPortCode(requisition.deliveryLocation);
+    const itemIds = requisition.items.map(item => item.itemCatalogId);
+
+    const contracts = await prisma.vendorContract.findMany({
+      where: {
+        ...(contractId ? { id: contractId } : {}),
+        status: 'ACTIVE',
+        validFrom: { lte: now },
+        validTo: { gte: now },
+        vendor: { isActive: true },
+        priceItems: { some: { itemCatalogId: { in: itemIds } } }
+      },
+      include: { priceItems: true }
+    });
+
+    const candidates: RequisitionCoverageResult['candidates'] = [];
+    const covering: ContractCoverage[] = [];
+
+    for (const contract of contracts) {
+      const reasons: string[] = [];
+      const lines: ContractLinePrice[] = [];
+
+      if (contract.portCodes.length > 0 && (!port || !contract.portCodes.includes(port))) {
+        reasons.push(port ? `Port ${port} is not covered` : 'Requisition has no delivery port');
+      }
+
+      for (const item of requisition.items) {
+        const priceItem = contract.priceItems.find(price => price.itemCatalogId === item.itemCatalogId);
+        if (!priceItem) {
+          reasons.push(`Item ${item.itemCatalogId} is not on the price list`);
+          continue;
+        }
+        if (priceItem.minOrderQuantity && item.quantity < priceItem.minOrderQuantity) {
+          reasons.push(`Item ${item.itemCatalogId} is below the minimum order quantity of ${priceItem.minOrderQuantity}`);
+          continue;
+        }
+
+        const { unitPrice, tierMinQuantity } = this.getUnitPrice(priceItem, item.quantity);
+        lines.push({
+          requisitionItemId: item.id,
+          itemCatalogId: item.itemCatalogId,
+          quantity: item.quantity,
+          unitPrice,
+          totalPrice: Math.round(unitPrice * item.quantity * 100) / 100,
+          tierMinQuantity
+        });
+      }
+
+      const totalAmount = Math.round(lines.reduce((sum, line) => sum + line.totalPrice, 0) * 100) / 100;
+      const committedSpend = contract.spendCap !== null ? await this.getCommittedSpend(contract.id) : 0;
+
+      if (contract.spendCap !== null && committedSpend + totalAmount > contract.spendCap) {
+        reasons.push(`Spend cap of ${contract.spendCap} ${contract.currency} would be exceeded (${committedSpend} committed)`);
+      }
+
+      candidates.push({
+        contractId: contract.id,
+        contractNumber: contract.contractNumber,
+        vendorId: contract.vendorId,
+        coveredItems: lines.length,
+        totalItems: requisition.items.length,
+        reasons
+      });
+
+      if (reasons.length === 0) {
+        covering.push({ contract, lines, totalAmount, committedSpend });
+      }
+    }
+
+    covering.sort((a, b) => a.totalAmount - b.totalAmount);
+
+    return {
+      requisitionId: requisition.id,
+      covered: covering.length > 0,
+      coverage: covering[0] || null,
+      candidates
+    };
+  }
+
+  private async resolvePriceItems(items: ContractPriceItemInput[]) {
+    const impaCodes = items.filter(item => !item.itemCatalogId && item.impaCode).map(item => item.impaCode!);
+    const catalogByImpa = new Map<string, string>();
+
+    if (impaCodes.length > 0) {
+      const catalogItems = await prisma.itemCatalog.findMany({
+        where: { impaCode: { in: impaCodes } },
+        select: { id: true, impaCode: true }
+      });
+      catalogItems.forEach(item => catalogByImpa.set(item.impaCode!, item.id));
+    }
+
+    const resolved = items.map(item => {
+      const itemCatalogId = item.itemCatalogId || (item.impaCode ? catalogByImpa.get(item.impaCode) : undefined);
+      if (!itemCatalogId) {
+        throw new AppError(`No catalogue item for IMPA code ${item.impaCode}`, 400, 'UNKNOWN_CATALOG_ITEM');
+      }
+
+      return {
+        itemCatalogId,
+        unitPrice: item.unitPrice,
+        minOrderQuantity: item.minOrderQuantity,
+        volumeTiers: item.volumeTiers
+          ? ([...item.volumeTiers].sort((a, b) => a.minQuantity - b.minQuantity) as unknown as Prisma.InputJsonValue)
+          : undefined
+      };
+    });
+
+    const seen = new Set<string>();
+    resolved.forEach(item => {
+      if (seen.has(item.itemCatalogId)) {
+        throw new AppError('Each catalogue item can only be priced once per contract', 400, 'DUPLICATE_CONTRACT_ITEM');
+      }
+      seen.add(item.itemCatalogId);
+    });
+
+    return resolved;
+  }
+
+  private validateContractTerms(data: Partial<ContractCreationData>): void {
+    if (data.validFrom && data.validTo && data.validTo <= data.validFrom) {
+      throw new AppError('Contract must end after it starts', 400, 'INVALID_CONTRACT_DATES');
+    }
+
+    if (data.spendCap !== undefined && data.spendCap !== null && data.spendCap <= 0) {
+      throw new AppError('Spend cap must be positive', 400, 'INVALID_SPEND_CAP');
+    }
+
+    for (const item of data.priceItems || []) {
+      if (!item.itemCatalogId && !item.impaCode) {
+        throw new AppError('Each priced item needs an itemCatalogId or IMPA code', 400, 'INVALID_CONTRACT_ITEM');
+      }
+      if (!(item.unitPrice > 0)) {
+        throw new AppError('Contract prices must be positive', 400, 'INVALID_CONTRACT_PRICE');
+      }
+      for (const tier of item.volumeTiers || []) {
+        if (!(tier.minQuantity > 0) || !(tier.unitPrice > 0)) {
+          throw new AppError('Volume tiers need a positive quantity and price', 400, 'INVALID_VOLUME_TIER');
+        }
+      }
+    }
+  }
+
+  private async generateContractNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const count = await prisma.vendorContract.count({
+      where: {
+        createdAt: {
+          gte: new Date(year, 0, 1),
+          lt: new Date(year + 1, 0, 1)
+        }
+      }
+    });
+
+    return `CTR-${year}-${String(count + 1).padStart(4, '0')}`;
+  }
+}
+
+export const contractService = new ContractService();
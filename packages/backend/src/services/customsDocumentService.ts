@@ -0,0 +1,536 @@
+import { PrismaClient, Prisma, CustomsClearanceEvent, CustomsClearanceStatus } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { renderPDF, DEFAULT_PDF_PAGE_SETTINGS, FLOWMARINE_PDF_STYLING } from '../utils/pdf';
+import { AuditService } from './auditService';
+import { deliveryService } from './deliveryService';
+import { portDatabaseIntegrationService, CustomsRequirement } from './portDatabaseIntegrationService';
+
+const prisma = new PrismaClient();
+
+const SHIP_SPARES_CARGO_TYPE = 'SHIP_SPARES';
+
+// Chapter and heading, optionally with subheading and national digits: "8483", "8483.10", "8483.10.90"
+const HS_CODE_PATTERN = /^\d{4}(\.?\d{2}){0,3}$/;
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+const DELIVERY_INCLUDE = {
+  purchaseOrder: {
+    include: {
+      vendor: true,
+      vessel: true,
+      lineItems: {
+        orderBy: { createdAt: 'asc' as const },
+        include: { itemCatalog: { select: { hsCode: true, unitOfMeasure: true } } }
+      }
+    }
+  },
+  portCall: true,
+  lines: true,
+  customsEvents: { orderBy: { occurredAt: 'asc' as const } }
+};
+
+type DeliveryWithGoods = Prisma.DeliveryGetPayload<{ include: typeof DELIVERY_INCLUDE }>;
+
+export type CustomsDocumentType = 'COMMERCIAL_INVOICE' | 'PACKING_LIST' | 'SHIP_SPARES_DECLARATION';
+
+const DOCUMENT_TITLES: Record<CustomsDocumentType, string> = {
+  COMMERCIAL_INVOICE: 'COMMERCIAL INVOICE',
+  PACKING_LIST: 'PACKING LIST',
+  SHIP_SPARES_DECLARATION: 'SHIP\'S SPARES IN TRANSIT'
+};
+
+const DOCUMENT_SUFFIXES: Record<CustomsDocumentType, string> = {
+  COMMERCIAL_INVOICE: 'CI',
+  PACKING_LIST: 'PL',
+  SHIP_SPARES_DECLARATION: 'SSD'
+};
+
+export interface LineCustomsData {
+  hsCode?: string | null;
+  countryOfOrigin?: string | null;
+}
+
+export interface CustomsActor {
+  userId?: string;
+  vendorUserId?: string;
+  vendorId?: string;  // Restricts changes to the vendor's own purchase orders
+}
+
+export interface ClearanceEventData {
+  status: CustomsClearanceStatus;
+  reference?: string;
+  location?: string;
+  notes?: string;
+  occurredAt?: Date;
+}
+
+export interface CustomsLine {
+  poLineItemId: string;
+  description: string;
+  hsCode: string | null;
+  countryOfOrigin: string | null;
+  quantity: number;
+  unitOfMeasure: string;
+  unitPrice: number;
+  value: number;
+}
+
+export interface DeliveryCustomsSummary {
+  deliveryId: string;
+  deliveryNumber: string;
+  poNumber: string;
+  portCode: string | null;
+  country: string | null;
+  clearanceStatus: CustomsClearanceStatus | null;
+  events: CustomsClearanceEvent[];
+  lines: CustomsLine[];
+  currency: string;
+  totalValue: number;
+  missingHsCodes: string[];
+  requirements: CustomsRequirement[] | null;
+}
+
+export interface CustomsDocument {
+  fileName: string;
+  pdf: Buffer;
+}
+
+class CustomsDocumentService {
+  /**
+   * Set the HS code and country of origin of a purchase order line
+   */
+  async updateLineCustomsData(poLineItemId: string, data: LineCustomsData, actor: CustomsActor) {
+    try {
+      const line = await prisma.pOLineItem.findUnique({
+        where: { id: poLineItemId },
+        include: { purchaseOrder: { select: { id: true, poNumber: true, vendorId: true, vesselId: true, status: true } } }
+      });
+
+      if (!line || (actor.vendorId && line.purchaseOrder.vendorId !== actor.vendorId)) {
+        throw new AppError('Purchase order line not found', 404, 'PO_LINE_NOT_FOUND');
+      }
+
+      if (line.purchaseOrder.status === 'CANCELLED') {
+        throw new AppError('Customs data cannot be added to a cancelled purchase order', 400, 'INVALID_PO_STATUS');
+      }
+
+      const hsCode = data.hsCode === undefined ? undefined : data.hsCode?.trim() || null;
+      if (hsCode && !HS_CODE_PATTERN.test(hsCode)) {
+        throw new AppError(`Invalid HS code: ${hsCode}`, 400, 'INVALID_HS_CODE');
+      }
+
+      const countryOfOrigin = data.countryOfOrigin === undefined ? undefined : data.countryOfOrigin?.trim().toUpperCase() || null;
+      if (countryOfOrigin && !COUNTRY_CODE_PATTERN.test(countryOfOrigin)) {
+        throw new AppError(`Country of origin must be an ISO 3166 alpha-2 code, got ${countryOfOrigin}`, 400, 'INVALID_COUNTRY_OF_ORIGIN');
+      }
+
+      const updated = await prisma.pOLineItem.update({
+        where: { id: poLineItemId },
+        data: { hsCode, countryOfOrigin }
+      });
+
+      await AuditService.log({
+        userId: actor.userId,
+        action: 'UPDATE',
+        resource: 'po_line_item',
+        resourceId: poLineItemId,
+        oldValues: { hsCode: line.hsCode, countryOfOrigin: line.countryOfOrigin },
+        newValues: { hsCode: updated.hsCode, countryOfOrigin: updated.countryOfOrigin },
+        vesselId: line.purchaseOrder.vesselId,
+        metadata: {
+          poNumber: line.purchaseOrder.poNumber,
+          ...(actor.vendorUserId && { source: 'VENDOR_PORTAL', vendorUserId: actor.vendorUserId })
+        }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update customs data', 500, 'CUSTOMS_DATA_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Goods, values and clearance progress of a delivery, with the port's customs requirements when available
+   */
+  async getCustomsSummary(deliveryId: string): Promise<DeliveryCustomsSummary> {
+    try {
+      const delivery = await this.getDelivery(deliveryId);
+      const lines = await this.buildLines(delivery);
+      const port = await this.getPortContext(delivery);
+
+      return {
+        deliveryId: delivery.id,
+        deliveryNumber: delivery.deliveryNumber,
+        poNumber: delivery.purchaseOrder.poNumber,
+        portCode: port.portCode,
+        country: port.country,
+        clearanceStatus: delivery.customsEvents[delivery.customsEvents.length - 1]?.status ?? null,
+        events: delivery.customsEvents,
+        lines,
+        currency: delivery.purchaseOrder.currency,
+        totalValue: this.round(lines.reduce((sum, line) => sum + line.value, 0)),
+        missingHsCodes: lines.filter(line => !line.hsCode).map(line => line.poLineItemId),
+        requirements: port.requirements
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get customs summary', 500, 'CUSTOMS_SUMMARY_FAILED');
+    }
+  }
+
+  /**
+   * Commercial invoice, packing list or ship's spares declaration for a delivery
+   */
+  async getDocument(deliveryId: string, type: CustomsDocumentType, userId?: string): Promise<CustomsDocument> {
+    try {
+      if (!DOCUMENT_TITLES[type]) {
+        throw new AppError(`Unknown customs document: ${type}`, 400, 'INVALID_CUSTOMS_DOCUMENT_TYPE');
+      }
+
+      const delivery = await this.getDelivery(deliveryId);
+
+      if (delivery.status === 'CANCELLED') {
+        throw new AppError('Delivery has been cancelled', 400, 'INVALID_DELIVERY_STATUS');
+      }
+
+      const lines = await this.buildLines(delivery);
+      if (lines.length === 0) {
+        throw new AppError('Delivery has no goods to declare', 400, 'NO_CUSTOMS_LINES');
+      }
+
+      const missing = lines.filter(line => !line.hsCode);
+      if (missing.length > 0) {
+        throw new AppError(`HS codes missing for: ${missing.map(line => line.description).join(', ')}`, 400, 'HS_CODE_MISSING');
+      }
+
+      const port = await this.getPortContext(delivery);
+      const issuedAt = new Date();
+      const reference = `${delivery.deliveryNumber}-${DOCUMENT_SUFFIXES[type]}`;
+      const po = delivery.purchaseOrder;
+
+      const pdf = await renderPDF(
+        DEFAULT_PDF_PAGE_SETTINGS,
+        doc => this.drawDocument(doc, type, reference, delivery, lines, port, issuedAt),
+        {
+          Title: `${DOCUMENT_TITLES[type]} ${reference}`,
+          Author: FLOWMARINE_PDF_STYLING.branding.companyName,
+          Subject: `Ship's spares in transit for M/V ${po.vessel.name}, order ${po.poNumber}`,
+          Keywords: [...new Set(lines.map(line => line.hsCode))].join(' '),
+          CreationDate: issuedAt
+        }
+      );
+
+      if (userId) {
+        await AuditService.log({
+          userId,
+          action: 'CREATE',
+          resource: 'customs_document',
+          resourceId: delivery.id,
+          newValues: { type, reference, totalValue: this.round(lines.reduce((sum, line) => sum + line.value, 0)) },
+          vesselId: po.vesselId,
+          metadata: { deliveryNumber: delivery.deliveryNumber, poNumber: po.poNumber, portCode: port.portCode }
+        });
+      }
+
+      return { fileName: `${reference}.pdf`, pdf };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate customs document', 500, 'CUSTOMS_DOCUMENT_FAILED');
+    }
+  }
+
+  /**
+   * Record a customs clearance step for a delivery. Nothing can follow clearance.
+   */
+  async recordClearanceEvent(deliveryId: string, data: ClearanceEventData, userId: string): Promise<CustomsClearanceEvent> {
+    try {
+      if (!Object.values(CustomsClearanceStatus).includes(data.status)) {
+        throw new AppError(`Invalid clearance status: ${data.status}`, 400, 'INVALID_CLEARANCE_STATUS');
+      }
+
+      const delivery = await prisma.delivery.findUnique({
+        where: { id: deliveryId },
+        include: {
+          purchaseOrder: { select: { poNumber: true, vesselId: true } },
+          customsEvents: { orderBy: { occurredAt: 'desc' }, take: 1 }
+        }
+      });
+
+      if (!delivery) {
+        throw new AppError('Delivery not found', 404, 'DELIVERY_NOT_FOUND');
+      }
+
+      if (delivery.status === 'CANCELLED') {
+        throw new AppError('Delivery has been cancelled', 400, 'INVALID_DELIVERY_STATUS');
+      }
+
+      const previous = delivery.customsEvents[0];
+      if (previous?.status === 'CLEARED') {
+        throw new AppError('Delivery has already cleared customs', 400, 'CUSTOMS_ALREADY_CLEARED');
+      }
+
+      const occurredAt = data.occurredAt ?? new Date();
+      if (previous && occurredAt < previous.occurredAt) {
+        throw new AppError('Clearance events must be recorded in order', 400, 'INVALID_EVENT_TIME');
+      }
+
+      const event = await prisma.customsClearanceEvent.create({
+        data: {
+          deliveryId,
+          status: data.status,
+          reference: data.reference ?? previous?.reference,
+          location: data.location,
+          notes: data.notes,
+          recordedById: userId,
+          occurredAt
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'customs_clearance_event',
+        resourceId: event.id,
+        oldValues: previous ? { status: previous.status } : undefined,
+        newValues: { status: event.status, reference: event.reference, occurredAt },
+        vesselId: delivery.purchaseOrder.vesselId,
+        metadata: { deliveryNumber: delivery.deliveryNumber, poNumber: delivery.purchaseOrder.poNumber }
+      });
+
+      return event;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to record clearance event', 500, 'CLEARANCE_EVENT_FAILED');
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Shipped quantities once the delivery is confirmed, otherwise what is still outstanding on the order
+   */
+  private async buildLines(delivery: DeliveryWithGoods): Promise<CustomsLine[]> {
+    const poLines = delivery.purchaseOrder.lineItems;
+    let quantities: Map<string, number>;
+
+    if (delivery.lines.length > 0) {
+      quantities = new Map(delivery.lines.map(line => [line.poLineItemId, line.receivedQuantity + line.damagedQuantity]));
+    } else {
+      const receipt = await deliveryService.getPurchaseOrderReceiptStatus(delivery.purchaseOrderId);
+      quantities = new Map(receipt.map(line => [line.poLineItemId, line.outstandingQuantity]));
+    }
+
+    return poLines
+      .filter(line => (quantities.get(line.id) ?? 0) > 0)
+      .map(line => {
+        const quantity = quantities.get(line.id)!;
+        return {
+          poLineItemId: line.id,
+          description: line.itemDescription,
+          hsCode: line.hsCode || line.itemCatalog?.hsCode || null,
+          countryOfOrigin: line.countryOfOrigin,
+          quantity,
+          unitOfMeasure: line.itemCatalog?.unitOfMeasure || 'pcs',
+          unitPrice: line.unitPrice,
+          value: this.round(quantity * line.unitPrice)
+        };
+      });
+  }
+
+  private async getPortContext(delivery: DeliveryWithGoods): Promise<{ portCode: string | null; portName: string | null; country: string | null; requirements: CustomsRequirement[] | null }> {
+    const context = {
+      portCode: delivery.portCall?.portCode ?? null,
+      portName: delivery.portCall?.portName ?? null,
+      country: null as string | null,
+      requirements: null as CustomsRequirement[] | null
+    };
+
+    if (!context.portCode) {
+      return context;
+    }
+
+    try {
+      const port = await portDatabaseIntegrationService.getPortDetails(context.portCode);
+      context.country = port?.country ?? null;
+    } catch (error) {
+      logger.warn(`Port details unavailable for ${context.portCode}:`, error);
+    }
+
+    try {
+      context.requirements = await portDatabaseIntegrationService.getCustomsRequirements(
+        context.portCode,
+        delivery.purchaseOrder.vessel.flag,
+        SHIP_SPARES_CARGO_TYPE
+      );
+    } catch (error) {
+      logger.warn(`Customs requirements unavailable for ${context.portCode}:`, error);
+    }
+
+    return context;
+  }
+
+  private drawDocument(
+    doc: PDFKit.PDFDocument,
+    type: CustomsDocumentType,
+    reference: string,
+    delivery: DeliveryWithGoods,
+    lines: CustomsLine[],
+    port: { portCode: string | null; portName: string | null; country: string | null; requirements: CustomsRequirement[] | null },
+    issuedAt: Date
+  ): void {
+    const { colors, fonts, branding } = FLOWMARINE_PDF_STYLING;
+    const po = delivery.purchaseOrder;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const money = (amount: number) => amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const vessel = `M/V ${po.vessel.name} (IMO ${po.vessel.imoNumber}), flag ${po.vessel.flag}`;
+    const portName = port.portCode ? `${port.portName} (${port.portCode})${port.country ? `, ${port.country}` : ''}` : null;
+
+    const heading = (text: string) => {
+      doc.moveDown(1)
+         .font(fonts.heading.family).fontSize(fonts.heading.size).fillColor(colors.primary)
+         .text(text, left, doc.y, { width })
+         .moveDown(0.3)
+         .font(fonts.body.family).fontSize(fonts.body.size).fillColor(colors.text);
+    };
+
+    doc.font(fonts.title.family).fontSize(fonts.title.size).fillColor(colors.primary)
+       .text(branding.companyName, left, doc.page.margins.top);
+    doc.moveDown(1)
+       .font(fonts.title.family).fontSize(fonts.title.size).fillColor(colors.text)
+       .text(DOCUMENT_TITLES[type], { width, align: 'right' })
+       .font(fonts.body.family).fontSize(fonts.body.size)
+       .text(`${reference}  |  ${issuedAt.toDateString()}`, { width, align: 'right' })
+       .text(`Order ${po.poNumber}  |  Delivery ${delivery.deliveryNumber}`, { width, align: 'right' });
+
+    heading(type === 'SHIP_SPARES_DECLARATION' ? 'Supplier' : 'Shipper / Seller');
+    doc.text(po.vendor.name);
+    [po.vendor.address, [po.vendor.postalCode, po.vendor.city].filter(Boolean).join(' '), po.vendor.country]
+      .filter((line): line is string => Boolean(line))
+      .forEach(line => doc.text(line));
+    if (po.vendor.taxId) {
+      doc.text(`Tax ID: ${po.vendor.taxId}`);
+    }
+
+    heading('Consignee');
+    doc.text(`Master, ${vessel}`);
+    doc.text('Ship\'s spares in transit');
+    if (portName) {
+      doc.text(`Port of delivery: ${portName}`);
+    }
+    if (delivery.portCall?.eta) {
+      doc.text(`Vessel ETA: ${new Date(delivery.portCall.eta).toDateString()}`);
+    }
+    if (delivery.deliveryAddress) {
+      doc.text(delivery.deliveryAddress, { width });
+    }
+
+    if (type === 'SHIP_SPARES_DECLARATION') {
+      heading('Declaration');
+      doc.text(`To the customs authorities${portName ? ` at ${portName}` : ''}:`, { width })
+         .moveDown(0.3)
+         .text(`The goods listed below are ship's spares for the use of ${vessel}, in transit. ` +
+           'They are consigned to the vessel, are not for sale or use ashore, and are to be delivered on board ' +
+           'under customs supervision without payment of import duties and taxes.', { width });
+    }
+
+    const valued = type !== 'PACKING_LIST';
+    const columns = valued
+      ? [
+          { label: '#', width: 25, align: 'left' as const },
+          { label: 'Description', width: width - 345, align: 'left' as const },
+          { label: 'HS Code', width: 70, align: 'left' as const },
+          { label: 'Origin', width: 40, align: 'left' as const },
+          { label: 'Qty', width: 50, align: 'right' as const },
+          { label: 'Unit Price', width: 75, align: 'right' as const },
+          { label: 'Value', width: 85, align: 'right' as const }
+        ]
+      : [
+          { label: '#', width: 25, align: 'left' as const },
+          { label: 'Description', width: width - 245, align: 'left' as const },
+          { label: 'HS Code', width: 70, align: 'left' as const },
+          { label: 'Origin', width: 40, align: 'left' as const },
+          { label: 'Qty', width: 50, align: 'right' as const },
+          { label: 'Unit', width: 60, align: 'left' as const }
+        ];
+    const drawRow = (cells: string[], font: string) => {
+      const rowHeight = Math.max(...cells.map((cell, index) =>
+        doc.font(font).heightOfString(cell, { width: columns[index].width - 5 })
+      )) + 6;
+      if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+      const top = doc.y;
+      let x = left;
+      cells.forEach((cell, index) => {
+        doc.font(font).text(cell, x, top, { width: columns[index].width - 5, align: columns[index].align });
+        x += columns[index].width;
+      });
+      doc.y = top + rowHeight;
+    };
+
+    heading('Goods');
+    doc.fillColor(colors.primary);
+    drawRow(columns.map(column => column.label), fonts.heading.family);
+    doc.fillColor(colors.text);
+    lines.forEach((line, index) => {
+      const cells = [String(index + 1), line.description, line.hsCode!, line.countryOfOrigin || '-', String(line.quantity)];
+      drawRow(valued ? [...cells, money(line.unitPrice), money(line.value)] : [...cells, line.unitOfMeasure], fonts.body.family);
+    });
+
+    if (valued) {
+      const total = this.round(lines.reduce((sum, line) => sum + line.value, 0));
+      doc.font(fonts.heading.family)
+         .text(`Total value: ${po.currency} ${money(total)}`, left, doc.y + 5, { width, align: 'right' })
+         .font(fonts.body.family);
+    } else {
+      doc.text(`${lines.length} line(s)`, left, doc.y + 5, { width, align: 'right' })
+         .moveDown(1)
+         .text('Number and kind of packages: ______________________________', left, doc.y, { width })
+         .moveDown(0.5)
+         .text('Gross weight (kg): ____________     Net weight (kg): ____________     Dimensions: ____________', { width });
+    }
+
+    if (type === 'COMMERCIAL_INVOICE' && po.deliveryTerms) {
+      heading('Terms of Delivery');
+      doc.text(po.deliveryTerms, { width });
+    }
+
+    const requirements = (port.requirements || []).filter(requirement => requirement.required);
+    if (type === 'SHIP_SPARES_DECLARATION' && requirements.length > 0) {
+      heading('Port Customs Requirements');
+      requirements.forEach(requirement => {
+        doc.text(`${requirement.documentType} (${requirement.authority})${requirement.notes ? `: ${requirement.notes}` : ''}`, { width });
+      });
+    }
+
+    heading('Marks');
+    doc.text(`SHIP'S SPARES IN TRANSIT - M/V ${po.vessel.name.toUpperCase()} - IMO ${po.vessel.imoNumber} - ${po.poNumber}`, { width });
+
+    doc.moveDown(2)
+       .text(type === 'SHIP_SPARES_DECLARATION'
+         ? 'Master / ship\'s agent: ______________________________     Date and stamp: ____________'
+         : 'Authorised signature: ______________________________     Date: ____________', left, doc.y, { width });
+  }
+
+  private async getDelivery(deliveryId: string) {
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: deliveryId },
+      include: DELIVERY_INCLUDE
+    });
+
+    if (!delivery) {
+      throw new AppError('Delivery not found', 404, 'DELIVERY_NOT_FOUND');
+    }
+
+    return delivery;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export const customsDocumentService = new CustomsDocumentService();
@@ -0,0 +1,605 @@
+import { PrismaClient, Prisma, PackingGroup } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { renderPDF, DEFAULT_PDF_PAGE_SETTINGS, FLOWMARINE_PDF_STYLING } from '../utils/pdf';
+import { AuditService } from './auditService';
+import { portDatabaseIntegrationService, PortRestriction } from './portDatabaseIntegrationService';
+
+const prisma = new PrismaClient();
+
+// Class or division with an optional explosives compatibility group, e.g. "1.4S", "2.1", "3"
+const IMDG_CLASS_PATTERN = /^(1\.[1-6][A-HJKLNS]?|2\.[1-3]|3|4\.[1-3]|5\.[12]|6\.[12]|7|8|9)$/;
+
+// Classes the IMDG Code never assigns a packing group to
+const NO_PACKING_GROUP = /^(1|2|5\.2|6\.2|7)(\.|$)/;
+
+// Rows and columns of the IMDG Code 7.2.4 segregation table
+const SEGREGATION_GROUPS = ['1.1', '1.3', '1.4', '2.1', '2.2', '2.3', '3', '4.1', '4.2', '4.3', '5.1', '5.2', '6.1', '6.2', '7', '8', '9'];
+
+// 0 = no general requirement, 1 = away from, 2 = separated from, 3 = separated by a complete
+// compartment or hold from, 4 = separated longitudinally. Explosives against explosives (null)
+// go by compatibility group instead.
+const SEGREGATION_TABLE: (number | null)[][] = [
+  [null, null, null, 4, 2, 2, 4, 4, 4, 4, 4, 4, 2, 4, 2, 4, 0],
+  [null, null, null, 4, 2, 2, 4, 3, 3, 4, 4, 4, 2, 4, 2, 2, 0],
+  [null, null, null, 2, 1, 1, 2, 2, 2, 2, 2, 2, 0, 4, 2, 2, 0],
+  [4, 4, 2, 0, 0, 0, 2, 1, 2, 0, 2, 2, 0, 4, 2, 1, 0],
+  [2, 2, 1, 0, 0, 0, 1, 0, 1, 0, 0, 1, 0, 2, 1, 0, 0],
+  [2, 2, 1, 0, 0, 0, 2, 0, 2, 0, 0, 2, 0, 2, 1, 0, 0],
+  [4, 4, 2, 2, 1, 2, 0, 0, 2, 1, 2, 2, 0, 3, 2, 0, 0],
+  [4, 3, 2, 1, 0, 0, 0, 0, 1, 0, 1, 2, 0, 3, 2, 1, 0],
+  [4, 3, 2, 2, 1, 2, 2, 1, 0, 1, 2, 2, 1, 3, 2, 1, 0],
+  [4, 4, 2, 0, 0, 0, 1, 0, 1, 0, 2, 2, 0, 2, 2, 1, 0],
+  [4, 4, 2, 2, 0, 0, 2, 1, 2, 2, 0, 2, 1, 3, 1, 2, 0],
+  [4, 4, 2, 2, 1, 2, 2, 2, 2, 2, 2, 0, 1, 3, 2, 2, 0],
+  [2, 2, 0, 0, 0, 0, 0, 0, 1, 0, 1, 1, 0, 1, 0, 0, 0],
+  [4, 4, 4, 4, 2, 2, 3, 3, 3, 2, 3, 3, 1, 0, 3, 3, 0],
+  [2, 2, 2, 2, 1, 1, 2, 2, 2, 2, 1, 2, 0, 3, 0, 2, 0],
+  [4, 2, 2, 1, 0, 0, 0, 1, 1, 1, 2, 2, 0, 3, 2, 0, 0],
+  [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+];
+
+const SEGREGATION_TERMS: Record<number, string> = {
+  1: 'Away from',
+  2: 'Separated from',
+  3: 'Separated by a complete compartment or hold from',
+  4: 'Separated longitudinally by an intervening complete compartment or hold from'
+};
+
+// From "separated from" upwards the goods cannot share a transport unit
+const SEPARATE_TRANSPORT_LEVEL = 2;
+
+const OPEN_DELIVERY_STATUSES = ['SCHEDULED', 'IN_TRANSIT', 'DELAYED'] as const;
+
+const PURCHASE_ORDER_INCLUDE = {
+  vendor: true,
+  vessel: true,
+  lineItems: {
+    orderBy: { createdAt: 'asc' as const },
+    include: {
+      itemCatalog: {
+        include: { safetyDataSheets: { orderBy: { revisionDate: 'desc' as const }, take: 1 } }
+      }
+    }
+  },
+  deliveries: {
+    where: { status: { in: [...OPEN_DELIVERY_STATUSES] } },
+    orderBy: { scheduledDate: 'asc' as const },
+    include: { portCall: true },
+    take: 1
+  }
+};
+
+type PurchaseOrderWithGoods = Prisma.PurchaseOrderGetPayload<{ include: typeof PURCHASE_ORDER_INCLUDE }>;
+type PurchaseOrderLine = PurchaseOrderWithGoods['lineItems'][number];
+type OpenDelivery = PurchaseOrderWithGoods['deliveries'][number];
+type ClassifiedLine = PurchaseOrderLine & { itemCatalog: NonNullable<PurchaseOrderLine['itemCatalog']> };
+
+const SHIPPER_DECLARATION = 'I hereby declare that the contents of this consignment are fully and accurately described ' +
+  'above by the proper shipping name, and are classified, packaged, marked and labelled/placarded and are in all ' +
+  'respects in proper condition for transport according to the applicable international and national governmental regulations.';
+
+export interface DangerousGoodsClassification {
+  unNumber?: string | null;
+  properShippingName?: string | null;
+  imdgClass?: string | null;
+  subsidiaryRisks?: string[];
+  packingGroup?: PackingGroup | null;
+  marinePollutant?: boolean;
+  emsCode?: string | null;
+  flashPoint?: number | null;
+}
+
+export interface SafetyDataSheetData {
+  documentUrl: string;
+  revisionDate: Date;
+  language?: string;
+  supplierName?: string;
+}
+
+export interface DangerousGoodsLine {
+  poLineItemId: string;
+  itemCatalogId: string;
+  description: string;
+  quantity: number;
+  unitOfMeasure: string;
+  unNumber: string;
+  properShippingName: string | null;
+  imdgClass: string;
+  subsidiaryRisks: string[];
+  packingGroup: PackingGroup | null;
+  marinePollutant: boolean;
+  emsCode: string | null;
+  flashPoint: number | null;
+  safetyDataSheet: { id: string; documentUrl: string; revisionDate: Date } | null;
+}
+
+export interface SegregationConflict {
+  poLineItemIds: [string, string];
+  unNumbers: [string, string];
+  classes: [string, string];
+  level: number;
+  requirement: string;
+  separateTransport: boolean;
+}
+
+export interface PortRestrictionConflict {
+  portCode: string;
+  restrictionType: string;
+  description: string;
+  imdgClasses: string[];
+  poLineItemIds: string[];
+}
+
+export interface DangerousGoodsCheck {
+  purchaseOrderId: string;
+  poNumber: string;
+  portCode: string | null;
+  dangerousGoods: DangerousGoodsLine[];
+  segregation: SegregationConflict[];
+  portRestrictions: PortRestrictionConflict[];
+  warnings: string[];
+  deliverable: boolean;
+}
+
+export interface DangerousGoodsDeclaration {
+  fileName: string;
+  pdf: Buffer;
+  check: DangerousGoodsCheck;
+}
+
+class DangerousGoodsService {
+  /**
+   * Problems with an item's IMDG classification; empty when it is complete or the item is not dangerous goods
+   */
+  validateClassification(item: DangerousGoodsClassification): string[] {
+    const problems: string[] = [];
+
+    if (!item.unNumber) {
+      if (item.imdgClass || item.properShippingName || item.packingGroup || item.subsidiaryRisks?.length) {
+        problems.push('A UN number is required for dangerous goods');
+      }
+      return problems;
+    }
+
+    if (!/^\d{4}$/.test(item.unNumber)) {
+      problems.push(`UN number must be four digits, got ${item.unNumber}`);
+    }
+    if (!item.properShippingName) {
+      problems.push('Proper shipping name is required for dangerous goods');
+    }
+    if (!item.imdgClass || !IMDG_CLASS_PATTERN.test(item.imdgClass)) {
+      problems.push(`Invalid IMDG class: ${item.imdgClass ?? 'none'}`);
+    } else if (item.packingGroup && NO_PACKING_GROUP.test(item.imdgClass)) {
+      problems.push(`Class ${item.imdgClass} goods are not assigned a packing group`);
+    }
+
+    const invalidRisks = (item.subsidiaryRisks || []).filter(risk => !IMDG_CLASS_PATTERN.test(risk));
+    if (invalidRisks.length > 0) {
+      problems.push(`Invalid subsidiary risks: ${invalidRisks.join(', ')}`);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Attach a safety data sheet revision to a catalogue item
+   */
+  async addSafetyDataSheet(itemCatalogId: string, data: SafetyDataSheetData, userId: string) {
+    try {
+      const item = await prisma.itemCatalog.findUnique({
+        where: { id: itemCatalogId },
+        select: { id: true, name: true, unNumber: true }
+      });
+
+      if (!item) {
+        throw new AppError('Item not found', 404, 'ITEM_NOT_FOUND');
+      }
+
+      if (Number.isNaN(data.revisionDate.getTime()) || data.revisionDate > new Date()) {
+        throw new AppError('Revision date must be a past date', 400, 'INVALID_REVISION_DATE');
+      }
+
+      const sheet = await prisma.safetyDataSheet.create({
+        data: {
+          itemCatalogId,
+          documentUrl: data.documentUrl,
+          revisionDate: data.revisionDate,
+          language: data.language || 'en',
+          supplierName: data.supplierName,
+          uploadedById: userId
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'safety_data_sheet',
+        resourceId: sheet.id,
+        newValues: { itemCatalogId, revisionDate: data.revisionDate, language: sheet.language },
+        metadata: { itemName: item.name, unNumber: item.unNumber }
+      });
+
+      return sheet;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to add safety data sheet', 500, 'SDS_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Safety data sheets held for an item, latest revision first
+   */
+  async getSafetyDataSheets(itemCatalogId: string) {
+    try {
+      return await prisma.safetyDataSheet.findMany({
+        where: { itemCatalogId },
+        orderBy: { revisionDate: 'desc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to fetch safety data sheets', 500, 'SDS_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Strictest IMDG segregation level between two classes, counting subsidiary risks.
+   * Returns null for explosives against explosives, which go by compatibility group.
+   */
+  segregationLevel(classesA: string[], classesB: string[]): number | null {
+    let level: number | null = null;
+
+    for (const a of classesA) {
+      for (const b of classesB) {
+        const row = SEGREGATION_GROUPS.indexOf(this.segregationGroup(a));
+        const column = SEGREGATION_GROUPS.indexOf(this.segregationGroup(b));
+        if (row < 0 || column < 0) continue;
+
+        const entry = SEGREGATION_TABLE[row][column];
+        if (entry !== null && (level === null || entry > level)) {
+          level = entry;
+        }
+      }
+    }
+
+    return level;
+  }
+
+  /**
+   * Dangerous goods restrictions a port places on the given classes at a date.
+   * Returns null when the port database cannot be reached.
+   */
+  async getPortRestrictions(portCode: string, date: Date, imdgClasses: string[]): Promise<PortRestriction[] | null> {
+    if (imdgClasses.length === 0) {
+      return [];
+    }
+
+    try {
+      const port = await portDatabaseIntegrationService.getPortDetails(portCode);
+
+      return (port?.restrictions || []).filter(restriction =>
+        this.isDangerousGoodsRestriction(restriction) &&
+        restriction.effectiveDate <= date &&
+        (!restriction.expiryDate || restriction.expiryDate >= date) &&
+        imdgClasses.some(imdgClass => this.restrictionCovers(restriction, imdgClass))
+      );
+    } catch (error) {
+      logger.warn(`Port restrictions for ${portCode} could not be checked:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check a purchase order's dangerous goods against segregation rules and, when the
+   * delivery port is known, the port's dangerous goods restrictions
+   */
+  async checkPurchaseOrder(purchaseOrderId: string, portCode?: string, date: Date = new Date(), vendorId?: string): Promise<DangerousGoodsCheck> {
+    try {
+      const po = await this.getPurchaseOrder(purchaseOrderId);
+
+      if (vendorId && po.vendorId !== vendorId) {
+        throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+      }
+
+      const openDelivery = po.deliveries[0];
+      return await this.check(po, portCode || openDelivery?.portCall?.portCode, date);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to check dangerous goods', 500, 'DG_CHECK_FAILED');
+    }
+  }
+
+  /**
+   * Dangerous goods declaration for the forwarder, laid out after the IMO multimodal dangerous goods form
+   */
+  async getDeclaration(purchaseOrderId: string, userId?: string, vendorId?: string): Promise<DangerousGoodsDeclaration> {
+    try {
+      const po = await this.getPurchaseOrder(purchaseOrderId);
+
+      if (vendorId && po.vendorId !== vendorId) {
+        throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+      }
+
+      if (po.status === 'DRAFT') {
+        throw new AppError('Draft purchase orders cannot be shipped', 400, 'INVALID_PO_STATUS');
+      }
+
+      const openDelivery = po.deliveries[0];
+      const check = await this.check(po, openDelivery?.portCall?.portCode, openDelivery?.scheduledDate ?? new Date());
+
+      if (check.dangerousGoods.length === 0) {
+        throw new AppError('Purchase order has no dangerous goods', 400, 'NO_DANGEROUS_GOODS');
+      }
+
+      const issuedAt = new Date();
+      const fileName = `${po.poNumber}-dg-declaration.pdf`;
+      const pdf = await renderPDF(
+        DEFAULT_PDF_PAGE_SETTINGS,
+        doc => this.drawDeclaration(doc, po, openDelivery, check, issuedAt),
+        {
+          Title: `Dangerous Goods Declaration ${po.poNumber}`,
+          Author: FLOWMARINE_PDF_STYLING.branding.companyName,
+          Subject: `Dangerous goods from ${po.vendor.name} for M/V ${po.vessel.name}`,
+          Keywords: check.dangerousGoods.map(line => `UN${line.unNumber}`).join(' '),
+          CreationDate: issuedAt
+        }
+      );
+
+      if (userId) {
+        await AuditService.log({
+          userId,
+          action: 'CREATE',
+          resource: 'dangerous_goods_declaration',
+          resourceId: po.id,
+          newValues: {
+            unNumbers: check.dangerousGoods.map(line => line.unNumber),
+            portCode: check.portCode,
+            segregationConflicts: check.segregation.length,
+            portRestrictions: check.portRestrictions.length
+          },
+          vesselId: po.vesselId,
+          metadata: { poNumber: po.poNumber, deliveryNumber: openDelivery?.deliveryNumber }
+        });
+      }
+
+      return { fileName, pdf, check };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate dangerous goods declaration', 500, 'DG_DECLARATION_FAILED');
+    }
+  }
+
+  // Private helper methods
+
+  private async check(po: PurchaseOrderWithGoods, portCode: string | undefined, date: Date): Promise<DangerousGoodsCheck> {
+    const dangerousGoods: DangerousGoodsLine[] = po.lineItems
+      .filter((line): line is ClassifiedLine => Boolean(line.itemCatalog?.unNumber))
+      .map(line => this.mapLine(line));
+    const warnings: string[] = [];
+
+    dangerousGoods
+      .filter(line => !line.safetyDataSheet)
+      .forEach(line => warnings.push(`No safety data sheet on file for UN${line.unNumber} ${line.description}`));
+
+    const segregation: SegregationConflict[] = [];
+    for (let i = 0; i < dangerousGoods.length; i++) {
+      for (let j = i + 1; j < dangerousGoods.length; j++) {
+        const a = dangerousGoods[i];
+        const b = dangerousGoods[j];
+        const level = this.segregationLevel(this.classesOf(a), this.classesOf(b));
+
+        if (level === null) {
+          warnings.push(`Check explosives compatibility groups for UN${a.unNumber} and UN${b.unNumber}`);
+        } else if (level > 0) {
+          segregation.push({
+            poLineItemIds: [a.poLineItemId, b.poLineItemId],
+            unNumbers: [a.unNumber, b.unNumber],
+            classes: [a.imdgClass, b.imdgClass],
+            level,
+            requirement: SEGREGATION_TERMS[level],
+            separateTransport: level >= SEPARATE_TRANSPORT_LEVEL
+          });
+        }
+      }
+    }
+
+    const portRestrictions: PortRestrictionConflict[] = [];
+    if (portCode && dangerousGoods.length > 0) {
+      const classes = [...new Set(dangerousGoods.flatMap(line => this.classesOf(line)))];
+      const restrictions = await this.getPortRestrictions(portCode, date, classes);
+
+      if (restrictions === null) {
+        warnings.push(`Dangerous goods restrictions for ${portCode} could not be checked`);
+      }
+
+      (restrictions || []).forEach(restriction => {
+        const affected = dangerousGoods.filter(line =>
+          this.classesOf(line).some(imdgClass => this.restrictionCovers(restriction, imdgClass)));
+        portRestrictions.push({
+          portCode,
+          restrictionType: restriction.restrictionType,
+          description: restriction.description,
+          imdgClasses: [...new Set(affected.map(line => line.imdgClass))],
+          poLineItemIds: affected.map(line => line.poLineItemId)
+        });
+      });
+    }
+
+    return {
+      purchaseOrderId: po.id,
+      poNumber: po.poNumber,
+      portCode: portCode || null,
+      dangerousGoods,
+      segregation,
+      portRestrictions,
+      warnings,
+      deliverable: portRestrictions.length === 0
+    };
+  }
+
+  private mapLine(line: ClassifiedLine): DangerousGoodsLine {
+    const item = line.itemCatalog;
+    const sheet = item.safetyDataSheets[0];
+
+    return {
+      poLineItemId: line.id,
+      itemCatalogId: item.id,
+      description: line.itemDescription,
+      quantity: line.quantity,
+      unitOfMeasure: item.unitOfMeasure,
+      unNumber: item.unNumber!,
+      properShippingName: item.properShippingName,
+      imdgClass: item.imdgClass!,
+      subsidiaryRisks: item.subsidiaryRisks || [],
+      packingGroup: item.packingGroup,
+      marinePollutant: item.marinePollutant,
+      emsCode: item.emsCode,
+      flashPoint: item.flashPoint,
+      safetyDataSheet: sheet ? { id: sheet.id, documentUrl: sheet.documentUrl, revisionDate: sheet.revisionDate } : null
+    };
+  }
+
+  private classesOf(line: Pick<DangerousGoodsLine, 'imdgClass' | 'subsidiaryRisks'>): string[] {
+    return [line.imdgClass, ...line.subsidiaryRisks];
+  }
+
+  /**
+   * Segregation table row for a class: explosives divisions share rows, compatibility groups are dropped
+   */
+  private segregationGroup(imdgClass: string): string {
+    const division = imdgClass.replace(/[A-Z]$/, '');
+    if (['1.1', '1.2', '1.5'].includes(division)) return '1.1';
+    if (['1.3', '1.6'].includes(division)) return '1.3';
+    return division;
+  }
+
+  private isDangerousGoodsRestriction(restriction: PortRestriction): boolean {
+    return (restriction.imdgClasses?.length ?? 0) > 0 || /DANGEROUS|IMDG|HAZARDOUS/i.test(restriction.restrictionType);
+  }
+
+  /**
+   * A restriction without listed classes covers all dangerous goods; "2" covers divisions 2.1 to 2.3
+   */
+  private restrictionCovers(restriction: PortRestriction, imdgClass: string): boolean {
+    if (!restriction.imdgClasses || restriction.imdgClasses.length === 0) {
+      return true;
+    }
+
+    const division = imdgClass.replace(/[A-Z]$/, '');
+    return restriction.imdgClasses.some(restricted =>
+      restricted === imdgClass || restricted === division || division.startsWith(`${restricted}.`));
+  }
+
+  private drawDeclaration(doc: PDFKit.PDFDocument, po: PurchaseOrderWithGoods, delivery: OpenDelivery | undefined, check: DangerousGoodsCheck, issuedAt: Date): void {
+    const { colors, fonts, branding } = FLOWMARINE_PDF_STYLING;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    const heading = (text: string) => {
+      doc.moveDown(1)
+         .font(fonts.heading.family).fontSize(fonts.heading.size).fillColor(colors.primary)
+         .text(text, left, doc.y, { width })
+         .moveDown(0.3)
+         .font(fonts.body.family).fontSize(fonts.body.size).fillColor(colors.text);
+    };
+
+    doc.font(fonts.title.family).fontSize(fonts.title.size).fillColor(colors.primary)
+       .text(branding.companyName, left, doc.page.margins.top);
+    doc.moveDown(1)
+       .font(fonts.title.family).fontSize(fonts.title.size).fillColor(colors.text)
+       .text('DANGEROUS GOODS DECLARATION', { width, align: 'right' })
+       .font(fonts.body.family).fontSize(fonts.body.size)
+       .text(`Purchase order ${po.poNumber}${delivery ? `  |  Delivery ${delivery.deliveryNumber}` : ''}`, { width, align: 'right' })
+       .text(`Prepared: ${issuedAt.toDateString()}  |  IMDG Code`, { width, align: 'right' });
+
+    heading('Shipper');
+    doc.text(po.vendor.name);
+    [po.vendor.address, [po.vendor.postalCode, po.vendor.city].filter(Boolean).join(' '), po.vendor.country]
+      .filter((line): line is string => Boolean(line))
+      .forEach(line => doc.text(line));
+
+    heading('Consignee');
+    doc.text(`Master, M/V ${po.vessel.name} (IMO ${po.vessel.imoNumber}), flag ${po.vessel.flag}`);
+    doc.text('Ship\'s spares in transit');
+
+    heading('Delivery');
+    if (delivery?.portCall) {
+      doc.text(`Port: ${delivery.portCall.portName} (${delivery.portCall.portCode})`);
+    }
+    const address = delivery?.deliveryAddress || po.deliveryAddress;
+    if (address) {
+      doc.text(address, { width });
+    }
+    if (delivery?.scheduledDate) {
+      doc.text(`Scheduled: ${new Date(delivery.scheduledDate).toDateString()}`);
+    }
+    if (delivery?.carrier) {
+      doc.text(`Carrier: ${delivery.carrier}`);
+    }
+
+    heading('Dangerous Goods');
+    check.dangerousGoods.forEach((line, index) => {
+      const classification = [
+        `UN${line.unNumber}`,
+        line.properShippingName,
+        `Class ${line.imdgClass}${line.subsidiaryRisks.length > 0 ? ` (${line.subsidiaryRisks.join(', ')})` : ''}`,
+        line.packingGroup ? `PG ${line.packingGroup}` : null,
+        line.flashPoint !== null ? `(${line.flashPoint}°C c.c.)` : null,
+        line.marinePollutant ? 'MARINE POLLUTANT' : null
+      ].filter(Boolean).join(', ');
+
+      if (doc.y + 60 > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+      doc.font(fonts.heading.family).text(`${index + 1}. ${classification}`, left, doc.y, { width })
+         .font(fonts.body.family)
+         .text(`${line.quantity} ${line.unitOfMeasure}: ${line.description}`, { width });
+      if (line.emsCode) {
+        doc.text(`EmS: ${line.emsCode}`);
+      }
+      doc.font(fonts.caption.family).fontSize(fonts.caption.size)
+         .text(line.safetyDataSheet
+           ? `Safety data sheet revised ${new Date(line.safetyDataSheet.revisionDate).toDateString()}: ${line.safetyDataSheet.documentUrl}`
+           : 'Safety data sheet: not on file', { width })
+         .font(fonts.body.family).fontSize(fonts.body.size)
+         .moveDown(0.5);
+    });
+
+    if (check.segregation.length > 0) {
+      heading('Segregation');
+      check.segregation.forEach(conflict => {
+        doc.text(`UN${conflict.unNumbers[0]} (class ${conflict.classes[0]}) - ${conflict.requirement.toLowerCase()} - ` +
+          `UN${conflict.unNumbers[1]} (class ${conflict.classes[1]})` +
+          (conflict.separateTransport ? '. Pack in separate transport units.' : ''), { width });
+      });
+    }
+
+    if (check.portRestrictions.length > 0) {
+      heading('Port Restrictions');
+      check.portRestrictions.forEach(restriction => {
+        doc.text(`${restriction.portCode}: ${restriction.description} (class ${restriction.imdgClasses.join(', ')})`, { width });
+      });
+    }
+
+    heading('Shipper\'s Declaration');
+    doc.text(SHIPPER_DECLARATION, { width })
+       .moveDown(2)
+       .text('Name / status of declarant: ______________________________')
+       .moveDown(1)
+       .text('Place and date: ______________________________     Signature: ______________________________');
+  }
+
+  private async getPurchaseOrder(purchaseOrderId: string) {
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: PURCHASE_ORDER_INCLUDE
+    });
+
+    if (!po) {
+      throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+    }
+
+    return po;
+  }
+}
+
+export const dangerousGoodsService = new DangerousGoodsService();
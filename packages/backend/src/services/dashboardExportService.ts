@@ -1,10 +1,10 @@
-import PDFDocument from 'pdfkit';
 import * as XLSX from 'xlsx';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
 import { dashboardAnalyticsService, DashboardFilters } from './dashboardAnalyticsService.js';
 import { cacheService } from './cacheService.js';
 import { auditService } from './auditService.js';
+import { renderPDF, FLOWMARINE_PDF_STYLING, PDFStyling } from '../utils/pdf.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 // Canvas import removed - using simplified chart generation
@@ -57,26 +57,7 @@ export interface ExportSection {
   configuration?: Record<string, any>;
 }
 
-export interface ExportStyling {
-  colors: {
-    primary: string;
-    secondary: string;
-    accent: string;
-    text: string;
-    background: string;
-  };
-  fonts: {
-    title: { family: string; size: number; weight: string; };
-    heading: { family: string; size: number; weight: string; };
-    body: { family: string; size: number; weight: string; };
-    caption: { family: string; size: number; weight: string; };
-  };
-  branding: {
-    logo?: string;
-    companyName: string;
-    tagline?: string;
-  };
-}
+export type ExportStyling = PDFStyling;
 
 export interface ExportJob {
   id: string;
@@ -143,48 +124,30 @@ export class DashboardExportService {
       const template = await this.getExportTemplate(options.templateId, options.dashboardType);
 
       // Create PDF document
-      const doc = new PDFDocument({
-        size: 'A4',
-        layout: template.layout.pageSettings.orientation,
-        margins: template.layout.pageSettings.margins
-      });
-
-      const chunks: Buffer[] = [];
-      doc.on('data', chunk => chunks.push(chunk));
-
-      // Add header
-      await this.addPDFHeader(doc, template, options);
+      const pdfBuffer = await renderPDF(template.layout.pageSettings, async doc => {
+        // Add header
+        await this.addPDFHeader(doc, template, options);
 
-      // Add content sections
-      for (const section of template.layout.sections) {
-        await this.addPDFSection(doc, section, dashboardData, template);
-      }
-
-      // Add footer
-      await this.addPDFFooter(doc, template, options);
-
-      // Finalize document
-      doc.end();
-
-      return new Promise((resolve, reject) => {
-        doc.on('end', () => {
-          const pdfBuffer = Buffer.concat(chunks);
-          
-          // Log export completion
-          auditService.logExportEvent({
-            userId,
-            action: 'PDF_EXPORT',
-            options,
-            fileSize: pdfBuffer.length,
-            success: true
-          });
+        // Add content sections
+        for (const section of template.layout.sections) {
+          await this.addPDFSection(doc, section, dashboardData, template);
+        }
 
-          resolve(pdfBuffer);
-        });
+        // Add footer
+        await this.addPDFFooter(doc, template, options);
+      });
 
-        doc.on('error', reject);
+      // Log export completion
+      auditService.logExportEvent({
+        userId,
+        action: 'PDF_EXPORT',
+        options,
+        fileSize: pdfBuffer.length,
+        success: true
       });
 
+      return pdfBuffer;
+
     } catch (error) {
       logger.error('PDF export failed:', error);
       
@@ -501,25 +464,7 @@ export class DashboardExportService {
           footerHeight: 40
         }
       },
-      styling: {
-        colors: {
-          primary: '#1e40af',
-          secondary: '#0891b2',
-          accent: '#059669',
-          text: '#374151',
-          background: '#ffffff'
-        },
-        fonts: {
-          title: { family: 'Helvetica-Bold', size: 18, weight: 'bold' },
-          heading: { family: 'Helvetica-Bold', size: 14, weight: 'bold' },
-          body: { family: 'Helvetica', size: 10, weight: 'normal' },
-          caption: { family: 'Helvetica', size: 8, weight: 'normal' }
-        },
-        branding: {
-          companyName: 'FlowMarine',
-          tagline: 'Maritime Procurement Excellence'
-        }
-      },
+      styling: FLOWMARINE_PDF_STYLING,
       permissions: ['VIEW_ANALYTICS'],
       isActive: true,
       createdBy: 'system',
@@ -254,6 +254,36 @@ export class DelegationService {
     }
   }
 
+  /**
+   * Get the user currently standing in for a delegator, if any
+   */
+  static async getActiveDelegate(
+    delegatorId: string,
+    vesselId?: string
+  ): Promise<User | null> {
+    try {
+      const now = new Date();
+
+      const delegation = await prisma.delegation.findFirst({
+        where: {
+          delegatorId,
+          isActive: true,
+          startDate: { lte: now },
+          endDate: { gte: now },
+          delegate: { isActive: true },
+          ...(vesselId ? { OR: [{ vesselId }, { vesselId: null }] } : {}),
+        },
+        include: { delegate: true },
+        orderBy: { startDate: 'desc' },
+      });
+
+      return delegation?.delegate ?? null;
+    } catch (error) {
+      logger.error('Error getting active delegate:', error);
+      return null;
+    }
+  }
+
   /**
    * Revoke delegation
    */
@@ -1,6 +1,9 @@
-import { PrismaClient, Delivery, DeliveryStatus, PurchaseOrder } from '@prisma/client';
+import { PrismaClient, Delivery, DeliveryStatus, PurchaseOrder, CustomsClearanceEvent, CustomsClearanceStatus } from '@prisma/client';
 import { AppError } from '../utils/errors';
 import { auditService } from './auditService';
+import { inventoryService } from './inventoryService';
+import { portCallService } from './portCallService';
+import { dangerousGoodsService } from './dangerousGoodsService';
 
 const prisma = new PrismaClient();
 
@@ -8,6 +11,7 @@ export interface CreateDeliveryData {
   purchaseOrderId: string;
   scheduledDate: Date;
   deliveryAddress: string;
+  portCallId?: string;  // Vessel call the goods are delivered to
   carrier?: string;
   trackingNumber?: string;
   notes?: string;
@@ -30,6 +34,26 @@ export interface DeliveryConfirmationData {
   photoUrls: string[];
   notes?: string;
   discrepancies?: string;
+  lines?: DeliveryLineReceipt[];
+}
+
+export interface DeliveryLineReceipt {
+  poLineItemId: string;
+  receivedQuantity: number;
+  damagedQuantity?: number;
+  shortQuantity?: number;
+  notes?: string;
+}
+
+export interface POLineReceiptStatus {
+  poLineItemId: string;
+  itemDescription: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  damagedQuantity: number;
+  shortQuantity: number;
+  outstandingQuantity: number;
+  isFullyReceived: boolean;
 }
 
 export interface PortDeliveryInfo {
@@ -63,6 +87,7 @@ export interface DeliveryTracking {
   status: DeliveryStatus;
   currentLocation?: string;
   estimatedDelivery?: Date;
+  customsStatus?: CustomsClearanceStatus;
   trackingEvents: TrackingEvent[];
   lastUpdate: Date;
 }
@@ -154,19 +179,41 @@ class DeliveryService {
         throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
       }
 
-      if (po.status !== 'SENT' && po.status !== 'ACKNOWLEDGED') {
+      // IN_PROGRESS POs can take follow-up deliveries for quantities still outstanding
+      if (po.status !== 'SENT' && po.status !== 'ACKNOWLEDGED' && po.status !== 'IN_PROGRESS') {
         throw new AppError('Purchase order must be sent or acknowledged to schedule delivery', 400, 'INVALID_PO_STATUS');
       }
 
-      // Check if delivery already exists
+      // Only one open delivery per purchase order at a time
       const existingDelivery = await prisma.delivery.findFirst({
-        where: { purchaseOrderId: data.purchaseOrderId }
+        where: {
+          purchaseOrderId: data.purchaseOrderId,
+          status: { in: [DeliveryStatus.SCHEDULED, DeliveryStatus.IN_TRANSIT, DeliveryStatus.DELAYED] }
+        }
       });
 
       if (existingDelivery) {
         throw new AppError('Delivery already scheduled for this purchase order', 400, 'DELIVERY_EXISTS');
       }
 
+      const portCall = data.portCallId
+        ? await portCallService.getOpenPortCallForVessel(data.portCallId, po.vesselId)
+        : null;
+
+      // Dangerous goods must be accepted at the port; segregation is passed on to the carrier
+      const dangerousGoods = await dangerousGoodsService.checkPurchaseOrder(po.id, portCall?.portCode, data.scheduledDate);
+      if (!dangerousGoods.deliverable) {
+        throw new AppError(
+          `Dangerous goods cannot be delivered at ${portCall!.portName}: ${dangerousGoods.portRestrictions.map(r => r.description).join('; ')}`,
+          400,
+          'DG_PORT_RESTRICTED'
+        );
+      }
+      const segregationNotes = dangerousGoods.segregation
+        .filter(conflict => conflict.separateTransport)
+        .map(conflict => `DG segregation: UN${conflict.unNumbers[0]} ${conflict.requirement.toLowerCase()} UN${conflict.unNumbers[1]}, pack in separate transport units`);
+      const notes = [data.notes, ...segregationNotes].filter(Boolean).join('\n') || undefined;
+
       // Generate delivery number
       const deliveryNumber = await this.generateDeliveryNumber();
 
@@ -177,10 +224,11 @@ class DeliveryService {
           purchaseOrderId: data.purchaseOrderId,
           status: DeliveryStatus.SCHEDULED,
           scheduledDate: data.scheduledDate,
-          deliveryAddress: data.deliveryAddress,
+          deliveryAddress: data.deliveryAddress || (portCall ? `${portCall.portName} (${portCall.portCode})` : undefined),
+          portCallId: portCall?.id,
           carrier: data.carrier,
           trackingNumber: data.trackingNumber,
-          notes: data.notes,
+          notes,
           photoUrls: []
         }
       });
@@ -217,6 +265,92 @@ class DeliveryService {
     }
   }
 
+  /**
+   * Schedule a replacement delivery for goods sent back on a return.
+   * Re-opens a delivered purchase order so the replacement can be received against it.
+   */
+  async scheduleReplacementDelivery(
+    data: CreateDeliveryData,
+    returnReference: string,
+    userId: string
+  ): Promise<Delivery> {
+    try {
+      const po = await prisma.purchaseOrder.findUnique({
+        where: { id: data.purchaseOrderId }
+      });
+
+      if (!po) {
+        throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+      }
+
+      if (!['ACKNOWLEDGED', 'IN_PROGRESS', 'DELIVERED', 'INVOICED'].includes(po.status)) {
+        throw new AppError('Purchase order cannot take a replacement delivery in its current status', 400, 'INVALID_PO_STATUS');
+      }
+
+      const existingDelivery = await prisma.delivery.findFirst({
+        where: {
+          purchaseOrderId: data.purchaseOrderId,
+          status: { in: [DeliveryStatus.SCHEDULED, DeliveryStatus.IN_TRANSIT, DeliveryStatus.DELAYED] }
+        }
+      });
+
+      if (existingDelivery) {
+        throw new AppError('Delivery already scheduled for this purchase order', 400, 'DELIVERY_EXISTS');
+      }
+
+      const deliveryNumber = await this.generateDeliveryNumber();
+      const notes = `Replacement for return ${returnReference}${data.notes ? `\n\n${data.notes}` : ''}`;
+
+      const delivery = await prisma.$transaction(async (tx) => {
+        const created = await tx.delivery.create({
+          data: {
+            deliveryNumber,
+            purchaseOrderId: data.purchaseOrderId,
+            status: DeliveryStatus.SCHEDULED,
+            scheduledDate: data.scheduledDate,
+            deliveryAddress: data.deliveryAddress,
+            carrier: data.carrier,
+            trackingNumber: data.trackingNumber,
+            notes,
+            photoUrls: []
+          }
+        });
+
+        await tx.purchaseOrder.update({
+          where: { id: data.purchaseOrderId },
+          data: { status: 'IN_PROGRESS' }
+        });
+
+        return created;
+      });
+
+      await auditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'delivery',
+        resourceId: delivery.id,
+        newValues: {
+          deliveryNumber,
+          purchaseOrderId: data.purchaseOrderId,
+          scheduledDate: data.scheduledDate,
+          status: DeliveryStatus.SCHEDULED
+        },
+        vesselId: po.vesselId,
+        metadata: {
+          poNumber: po.poNumber,
+          vendorId: po.vendorId,
+          replacementFor: returnReference,
+          previousPoStatus: po.status
+        }
+      });
+
+      return delivery;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to schedule replacement delivery', 500, 'REPLACEMENT_DELIVERY_FAILED');
+    }
+  }
+
   /**
    * Update delivery status and tracking information
    */
@@ -301,7 +435,12 @@ class DeliveryService {
           purchaseOrder: {
             include: {
               vessel: true,
-              vendor: true
+              vendor: true,
+              lineItems: {
+                include: {
+                  deliveryLines: true
+                }
+              }
             }
           }
         }
@@ -315,24 +454,69 @@ class DeliveryService {
         throw new AppError('Delivery already confirmed', 400, 'DELIVERY_ALREADY_CONFIRMED');
       }
 
-      // Update delivery with confirmation details
-      const confirmedDelivery = await prisma.delivery.update({
-        where: { id: data.deliveryId },
-        data: {
-          status: DeliveryStatus.DELIVERED,
-          actualDate: data.actualDate,
-          receivedBy: data.receivedBy,
-          photoUrls: data.photoUrls,
-          notes: delivery.notes ? 
-            `${delivery.notes}\n\nDelivery Confirmed: ${data.notes || 'No additional notes'}${data.discrepancies ? `\nDiscrepancies: ${data.discrepancies}` : ''}` :
-            `Delivery Confirmed: ${data.notes || 'No additional notes'}${data.discrepancies ? `\nDiscrepancies: ${data.discrepancies}` : ''}`
+      const poLineItems = delivery.purchaseOrder.lineItems || [];
+      const receiptStatus = this.buildReceiptStatus(poLineItems);
+      const deliveryLines = this.resolveDeliveryLines(receiptStatus, data.lines);
+
+      // PO stays IN_PROGRESS until every line has been received in full
+      const receivedNow = new Map(deliveryLines.map(line => [line.poLineItemId, line.receivedQuantity]));
+      const fullyReceived = receiptStatus.every(
+        line => line.receivedQuantity + (receivedNow.get(line.poLineItemId) || 0) >= line.orderedQuantity
+      );
+      const poStatus = fullyReceived ? 'DELIVERED' : 'IN_PROGRESS';
+
+      // Received catalogue items are posted into the vessel's onboard inventory
+      const receiptLines = poLineItems
+        .filter(line => line.itemCatalogId && receivedNow.get(line.id))
+        .map(line => ({
+          itemCatalogId: line.itemCatalogId as string,
+          quantity: receivedNow.get(line.id) as number,
+          unitCost: line.unitPrice,
+          currency: line.currency
+        }));
+
+      // Confirm the delivery, record line-level receipt, move the PO on and post stock together
+      const confirmedDelivery = await prisma.$transaction(async (tx) => {
+        const updated = await tx.delivery.update({
+          where: { id: data.deliveryId },
+          data: {
+            status: DeliveryStatus.DELIVERED,
+            actualDate: data.actualDate,
+            receivedBy: data.receivedBy,
+            photoUrls: data.photoUrls,
+            notes: delivery.notes ? 
+              `${delivery.notes}\n\nDelivery Confirmed: ${data.notes || 'No additional notes'}${data.discrepancies ? `\nDiscrepancies: ${data.discrepancies}` : ''}` :
+              `Delivery Confirmed: ${data.notes || 'No additional notes'}${data.discrepancies ? `\nDiscrepancies: ${data.discrepancies}` : ''}`
+          }
+        });
+
+        if (deliveryLines.length > 0) {
+          await tx.deliveryLine.createMany({
+            data: deliveryLines.map(line => ({
+              deliveryId: data.deliveryId,
+              poLineItemId: line.poLineItemId,
+              receivedQuantity: line.receivedQuantity,
+              damagedQuantity: line.damagedQuantity || 0,
+              shortQuantity: line.shortQuantity || 0,
+              notes: line.notes
+            }))
+          });
         }
-      });
 
-      // Update PO status
-      await prisma.purchaseOrder.update({
-        where: { id: delivery.purchaseOrderId },
-        data: { status: 'DELIVERED' }
+        await tx.purchaseOrder.update({
+          where: { id: delivery.purchaseOrderId },
+          data: { status: poStatus }
+        });
+
+        await inventoryService.postDeliveryReceipt(
+          data.deliveryId,
+          delivery.purchaseOrder.vesselId,
+          receiptLines,
+          userId,
+          tx
+        );
+
+        return updated;
       });
 
       // Create audit log
@@ -347,13 +531,15 @@ class DeliveryService {
           actualDate: data.actualDate,
           receivedBy: data.receivedBy,
           photoCount: data.photoUrls.length,
-          discrepancies: data.discrepancies
+          discrepancies: data.discrepancies,
+          lines: deliveryLines
         },
         vesselId: delivery.purchaseOrder.vesselId,
         metadata: {
           deliveryNumber: delivery.deliveryNumber,
           poNumber: delivery.purchaseOrder.poNumber,
-          vendorId: delivery.purchaseOrder.vendorId
+          vendorId: delivery.purchaseOrder.vendorId,
+          poStatus
         }
       });
 
@@ -364,6 +550,62 @@ class DeliveryService {
     }
   }
 
+  /**
+   * Get the vessel a delivery is for, to check the caller's access to it
+   */
+  async getDeliveryVesselId(deliveryId: string): Promise<string> {
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: deliveryId },
+      select: { purchaseOrder: { select: { vesselId: true } } }
+    });
+
+    if (!delivery) {
+      throw new AppError('Delivery not found', 404, 'DELIVERY_NOT_FOUND');
+    }
+
+    return delivery.purchaseOrder.vesselId;
+  }
+
+  /**
+   * Get the vessel a purchase order is for, to check the caller's access to it
+   */
+  async getPurchaseOrderVesselId(purchaseOrderId: string): Promise<string> {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      select: { vesselId: true }
+    });
+
+    if (!purchaseOrder) {
+      throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+    }
+
+    return purchaseOrder.vesselId;
+  }
+
+  /**
+   * Get ordered, received and outstanding quantities per PO line
+   */
+  async getPurchaseOrderReceiptStatus(purchaseOrderId: string): Promise<POLineReceiptStatus[]> {
+    try {
+      const lineItems = await prisma.pOLineItem.findMany({
+        where: { purchaseOrderId },
+        include: {
+          deliveryLines: true
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      if (lineItems.length === 0) {
+        throw new AppError('Purchase order not found or has no line items', 404, 'PO_NOT_FOUND');
+      }
+
+      return this.buildReceiptStatus(lineItems);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get receipt status', 500, 'RECEIPT_STATUS_FETCH_FAILED');
+    }
+  }
+
   /**
    * Get delivery tracking information
    */
@@ -377,7 +619,8 @@ class DeliveryService {
               vessel: true,
               vendor: true
             }
-          }
+          },
+          customsEvents: { orderBy: { occurredAt: 'asc' } }
         }
       });
 
@@ -386,13 +629,17 @@ class DeliveryService {
       }
 
       // Generate mock tracking events (in production, this would integrate with carrier APIs)
-      const trackingEvents = this.generateTrackingEvents(delivery);
+      const trackingEvents = [
+        ...this.generateTrackingEvents(delivery),
+        ...this.mapCustomsEvents(delivery, delivery.customsEvents)
+      ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 
       const tracking: DeliveryTracking = {
         deliveryId: delivery.id,
         status: delivery.status,
         currentLocation: this.getCurrentLocation(delivery),
         estimatedDelivery: delivery.scheduledDate,
+        customsStatus: delivery.customsEvents[delivery.customsEvents.length - 1]?.status,
         trackingEvents,
         lastUpdate: new Date()
       };
@@ -522,6 +769,94 @@ class DeliveryService {
     }
   }
 
+  /**
+   * Sum previous delivery lines against each PO line
+   */
+  private buildReceiptStatus(
+    lineItems: Array<{
+      id: string;
+      itemDescription: string;
+      quantity: number;
+      deliveryLines?: Array<{
+        receivedQuantity: number;
+        damagedQuantity: number;
+        shortQuantity: number;
+        returnedQuantity?: number;
+      }>;
+    }>
+  ): POLineReceiptStatus[] {
+    return lineItems.map(line => {
+      const deliveryLines = line.deliveryLines || [];
+      // Stock sent back on a return no longer counts towards the order
+      const receivedQuantity = deliveryLines.reduce(
+        (sum, d) => sum + d.receivedQuantity - (d.returnedQuantity || 0),
+        0
+      );
+      const outstandingQuantity = Math.max(0, line.quantity - receivedQuantity);
+
+      return {
+        poLineItemId: line.id,
+        itemDescription: line.itemDescription,
+        orderedQuantity: line.quantity,
+        receivedQuantity,
+        damagedQuantity: deliveryLines.reduce((sum, d) => sum + d.damagedQuantity, 0),
+        shortQuantity: deliveryLines.reduce((sum, d) => sum + d.shortQuantity, 0),
+        outstandingQuantity,
+        isFullyReceived: outstandingQuantity === 0
+      };
+    });
+  }
+
+  /**
+   * Validate confirmed lines against outstanding quantities.
+   * Without explicit lines, everything outstanding is taken as received in full.
+   */
+  private resolveDeliveryLines(
+    receiptStatus: POLineReceiptStatus[],
+    lines?: DeliveryLineReceipt[]
+  ): DeliveryLineReceipt[] {
+    if (!lines || lines.length === 0) {
+      return receiptStatus
+        .filter(line => line.outstandingQuantity > 0)
+        .map(line => ({
+          poLineItemId: line.poLineItemId,
+          receivedQuantity: line.outstandingQuantity,
+          damagedQuantity: 0,
+          shortQuantity: 0
+        }));
+    }
+
+    const statusById = new Map(receiptStatus.map(line => [line.poLineItemId, line]));
+
+    return lines.map(line => {
+      const status = statusById.get(line.poLineItemId);
+
+      if (!status) {
+        throw new AppError(`Line ${line.poLineItemId} does not belong to this purchase order`, 400, 'INVALID_DELIVERY_LINE');
+      }
+
+      const damagedQuantity = line.damagedQuantity || 0;
+
+      if (line.receivedQuantity < 0 || damagedQuantity < 0 || (line.shortQuantity || 0) < 0) {
+        throw new AppError('Delivery line quantities cannot be negative', 400, 'INVALID_DELIVERY_QUANTITY');
+      }
+
+      if (line.receivedQuantity + damagedQuantity > status.outstandingQuantity) {
+        throw new AppError(
+          `Quantity for ${status.itemDescription} exceeds outstanding quantity of ${status.outstandingQuantity}`,
+          400,
+          'DELIVERY_QUANTITY_EXCEEDS_OUTSTANDING'
+        );
+      }
+
+      return {
+        ...line,
+        damagedQuantity,
+        shortQuantity: line.shortQuantity ?? status.outstandingQuantity - line.receivedQuantity - damagedQuantity
+      };
+    });
+  }
+
   /**
    * Generate unique delivery number
    */
@@ -586,6 +921,28 @@ class DeliveryService {
     return events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
+  /**
+   * Customs clearance steps recorded for ship spares in transit
+   */
+  private mapCustomsEvents(delivery: Delivery, customsEvents: CustomsClearanceEvent[]): TrackingEvent[] {
+    const descriptions: Record<CustomsClearanceStatus, string> = {
+      DOCUMENTS_PREPARED: 'Customs documents prepared',
+      SUBMITTED: 'Ship spares declaration submitted to customs',
+      INSPECTION: 'Selected for customs inspection',
+      HELD: 'Held by customs',
+      CLEARED: 'Cleared by customs for delivery on board'
+    };
+
+    return customsEvents.map(event => ({
+      timestamp: event.occurredAt,
+      location: event.location || delivery.deliveryAddress || 'Customs',
+      status: `CUSTOMS_${event.status}`,
+      description: [descriptions[event.status], event.reference && `(${event.reference})`, event.notes && `- ${event.notes}`]
+        .filter(Boolean)
+        .join(' ')
+    }));
+  }
+
   /**
    * Get current location for tracking
    */
@@ -0,0 +1,442 @@
+import {
+  HazardousMaterial,
+  IhmDeclaration,
+  IhmDeclarationType,
+  POStatus,
+  Prisma,
+  PrismaClient
+} from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { AuditService } from './auditService';
+
+const prisma = new PrismaClient();
+
+// Purchase orders still open for documents; declarations should be in before they are paid and closed
+const OPEN_PO_STATUSES: POStatus[] = ['SENT', 'ACKNOWLEDGED', 'IN_PROGRESS', 'DELIVERED', 'INVOICED'];
+
+// Goods are on board from delivery, so the IHM has to be updated from then on
+const ON_BOARD_PO_STATUSES: POStatus[] = ['DELIVERED', 'INVOICED', 'PAID'];
+
+// About to close: only payment is left
+const CLOSING_PO_STATUSES: POStatus[] = ['DELIVERED', 'INVOICED'];
+
+const DECLARATION_TYPES: IhmDeclarationType[] = ['MATERIAL_DECLARATION', 'SUPPLIER_DOC'];
+
+export interface DeclaredMaterial {
+  material: HazardousMaterial;
+  mass: number;
+  unit: string;
+}
+
+export interface IhmDeclarationData {
+  type: IhmDeclarationType;
+  documentUrl: string;
+  declarationNumber?: string;
+  declarationDate: Date;
+  supplierName?: string;
+  declaredMaterials?: DeclaredMaterial[];
+}
+
+export interface IhmSubmitter {
+  userId?: string;
+  vendorUserId?: string;
+  vendorId?: string;  // Restricts submission to the vendor's own purchase orders
+}
+
+export type IhmDocumentStatus = 'MISSING' | 'PENDING_REVIEW' | 'ACCEPTED';
+
+export interface IhmLineStatus {
+  poLineItemId: string;
+  itemCatalogId: string | null;
+  itemDescription: string;
+  quantity: number;
+  required: boolean;
+  hazardousMaterials: HazardousMaterial[];
+  materialDeclaration: IhmDocumentStatus;
+  supplierDoc: IhmDocumentStatus;
+  missing: IhmDeclarationType[];
+  declarations: IhmDeclaration[];
+}
+
+export interface IhmPurchaseOrderStatus {
+  purchaseOrderId: string;
+  poNumber: string;
+  status: POStatus;
+  vendorName: string;
+  closing: boolean;
+  complete: boolean;
+  lines: IhmLineStatus[];
+}
+
+export interface IhmPendingUpdate {
+  declarationId: string;
+  purchaseOrderId: string;
+  poNumber: string;
+  itemDescription: string;
+  quantity: number;
+  declarationNumber: string | null;
+  materials: DeclaredMaterial[];
+}
+
+export interface IhmVesselReport {
+  vesselId: string;
+  generatedAt: Date;
+  summary: {
+    linesRequiringDeclarations: number;
+    complete: number;
+    pendingReview: number;
+    missing: number;
+    closingWithMissing: number;
+    pendingIhmUpdates: number;
+  };
+  purchaseOrders: IhmPurchaseOrderStatus[];
+  pendingIhmUpdates: IhmPendingUpdate[];
+}
+
+const LINE_INCLUDE = {
+  itemCatalog: { select: { id: true, ihmRelevant: true, hazardousMaterials: true } },
+  ihmDeclarations: { orderBy: { createdAt: 'desc' as const } }
+};
+
+type LineWithDeclarations = Prisma.POLineItemGetPayload<{ include: typeof LINE_INCLUDE }>;
+
+class IhmService {
+  /**
+   * Attach a Material Declaration or SDoC to a purchase order line
+   */
+  async submitDeclaration(poLineItemId: string, data: IhmDeclarationData, submitter: IhmSubmitter): Promise<IhmDeclaration> {
+    try {
+      const line = await prisma.pOLineItem.findUnique({
+        where: { id: poLineItemId },
+        include: { purchaseOrder: { select: { id: true, poNumber: true, vendorId: true, vesselId: true, status: true } } }
+      });
+
+      if (!line || (submitter.vendorId && line.purchaseOrder.vendorId !== submitter.vendorId)) {
+        throw new AppError('Purchase order line not found', 404, 'PO_LINE_NOT_FOUND');
+      }
+
+      if (line.purchaseOrder.status === 'DRAFT' || line.purchaseOrder.status === 'CANCELLED') {
+        throw new AppError(`Declarations cannot be added to a ${line.purchaseOrder.status.toLowerCase()} purchase order`, 400, 'INVALID_PO_STATUS');
+      }
+
+      const declaredMaterials = this.validateDeclaration(data);
+
+      const declaration = await prisma.ihmDeclaration.create({
+        data: {
+          poLineItemId,
+          type: data.type,
+          documentUrl: data.documentUrl,
+          declarationNumber: data.declarationNumber,
+          declarationDate: data.declarationDate,
+          supplierName: data.supplierName,
+          containsHazardousMaterials: declaredMaterials.length > 0,
+          declaredMaterials: data.type === 'MATERIAL_DECLARATION'
+            ? (declaredMaterials as unknown as Prisma.InputJsonValue)
+            : undefined,
+          submittedById: submitter.userId,
+          submittedByVendorUserId: submitter.vendorUserId
+        }
+      });
+
+      await AuditService.log({
+        userId: submitter.userId,
+        action: 'CREATE',
+        resource: 'ihm_declaration',
+        resourceId: declaration.id,
+        newValues: {
+          type: declaration.type,
+          declarationNumber: declaration.declarationNumber,
+          containsHazardousMaterials: declaration.containsHazardousMaterials
+        },
+        vesselId: line.purchaseOrder.vesselId,
+        metadata: {
+          poNumber: line.purchaseOrder.poNumber,
+          poLineItemId,
+          ...(submitter.vendorUserId && { source: 'VENDOR_PORTAL', vendorUserId: submitter.vendorUserId })
+        }
+      });
+
+      return declaration;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to submit IHM declaration', 500, 'IHM_DECLARATION_FAILED');
+    }
+  }
+
+  /**
+   * Accept or reject a submitted declaration
+   */
+  async reviewDeclaration(declarationId: string, accepted: boolean, userId: string, reason?: string): Promise<IhmDeclaration> {
+    try {
+      const existing = await this.getDeclaration(declarationId);
+
+      if (existing.status !== 'SUBMITTED') {
+        throw new AppError(`Declaration has already been ${existing.status.toLowerCase()}`, 400, 'IHM_DECLARATION_REVIEWED');
+      }
+
+      if (!accepted && !reason) {
+        throw new AppError('A reason is required to reject a declaration', 400, 'REJECTION_REASON_REQUIRED');
+      }
+
+      const declaration = await prisma.ihmDeclaration.update({
+        where: { id: declarationId },
+        data: {
+          status: accepted ? 'ACCEPTED' : 'REJECTED',
+          reviewedById: userId,
+          reviewedAt: new Date(),
+          rejectionReason: accepted ? null : reason
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'ihm_declaration',
+        resourceId: declarationId,
+        oldValues: { status: existing.status },
+        newValues: { status: declaration.status, rejectionReason: declaration.rejectionReason },
+        vesselId: existing.poLineItem.purchaseOrder.vesselId,
+        metadata: { poNumber: existing.poLineItem.purchaseOrder.poNumber }
+      });
+
+      return declaration;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to review IHM declaration', 500, 'IHM_REVIEW_FAILED');
+    }
+  }
+
+  /**
+   * Mark the hazardous materials of an accepted Material Declaration as entered in the vessel's IHM
+   */
+  async recordInIhm(declarationId: string, userId: string): Promise<IhmDeclaration> {
+    try {
+      const existing = await this.getDeclaration(declarationId);
+
+      if (existing.type !== 'MATERIAL_DECLARATION' || existing.status !== 'ACCEPTED' || !existing.containsHazardousMaterials) {
+        throw new AppError('Only accepted Material Declarations listing hazardous materials go into the IHM', 400, 'IHM_NOT_APPLICABLE');
+      }
+
+      if (existing.ihmRecordedAt) {
+        return existing;
+      }
+
+      const declaration = await prisma.ihmDeclaration.update({
+        where: { id: declarationId },
+        data: { ihmRecordedAt: new Date(), ihmRecordedById: userId }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'ihm_declaration',
+        resourceId: declarationId,
+        newValues: { ihmRecordedAt: declaration.ihmRecordedAt },
+        vesselId: existing.poLineItem.purchaseOrder.vesselId,
+        metadata: {
+          poNumber: existing.poLineItem.purchaseOrder.poNumber,
+          declaredMaterials: existing.declaredMaterials
+        }
+      });
+
+      return declaration;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to record IHM update', 500, 'IHM_RECORD_FAILED');
+    }
+  }
+
+  /**
+   * Declaration status of every line on a purchase order
+   */
+  async getPurchaseOrderStatus(purchaseOrderId: string, vendorId?: string): Promise<IhmPurchaseOrderStatus> {
+    try {
+      const po = await prisma.purchaseOrder.findUnique({
+        where: { id: purchaseOrderId },
+        include: {
+          vendor: { select: { name: true } },
+          lineItems: { include: LINE_INCLUDE }
+        }
+      });
+
+      if (!po || (vendorId && (po.vendorId !== vendorId || po.status === 'DRAFT'))) {
+        throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+      }
+
+      return this.toPurchaseOrderStatus(po);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get IHM declaration status', 500, 'IHM_STATUS_FAILED');
+    }
+  }
+
+  /**
+   * IHM maintenance report: open orders missing declarations, closing orders first,
+   * and delivered hazardous items not yet entered in the vessel's IHM
+   */
+  async getVesselReport(vesselId: string): Promise<IhmVesselReport> {
+    try {
+      const purchaseOrders = await prisma.purchaseOrder.findMany({
+        where: {
+          vesselId,
+          status: { in: [...new Set([...OPEN_PO_STATUSES, ...ON_BOARD_PO_STATUSES])] }
+        },
+        include: {
+          vendor: { select: { name: true } },
+          lineItems: { include: LINE_INCLUDE }
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      const statuses = purchaseOrders.map(po => this.toPurchaseOrderStatus(po));
+      const requiredLines = statuses
+        .filter(po => OPEN_PO_STATUSES.includes(po.status))
+        .flatMap(po => po.lines.filter(line => line.required).map(line => ({ po, line })));
+
+      const pendingIhmUpdates: IhmPendingUpdate[] = purchaseOrders
+        .filter(po => ON_BOARD_PO_STATUSES.includes(po.status))
+        .flatMap(po => po.lineItems.flatMap(line => line.ihmDeclarations
+          .filter(declaration =>
+            declaration.type === 'MATERIAL_DECLARATION' &&
+            declaration.status === 'ACCEPTED' &&
+            declaration.containsHazardousMaterials &&
+            !declaration.ihmRecordedAt
+          )
+          .map(declaration => ({
+            declarationId: declaration.id,
+            purchaseOrderId: po.id,
+            poNumber: po.poNumber,
+            itemDescription: line.itemDescription,
+            quantity: line.quantity,
+            declarationNumber: declaration.declarationNumber,
+            materials: (declaration.declaredMaterials as unknown as DeclaredMaterial[] | null) ?? []
+          }))
+        ));
+
+      const outstanding = statuses
+        .filter(po => OPEN_PO_STATUSES.includes(po.status) && !po.complete)
+        .sort((a, b) => Number(b.closing) - Number(a.closing));
+
+      return {
+        vesselId,
+        generatedAt: new Date(),
+        summary: {
+          linesRequiringDeclarations: requiredLines.length,
+          complete: requiredLines.filter(({ line }) => line.missing.length === 0 &&
+            line.materialDeclaration === 'ACCEPTED' && line.supplierDoc === 'ACCEPTED').length,
+          pendingReview: requiredLines.filter(({ line }) => line.missing.length === 0 &&
+            (line.materialDeclaration === 'PENDING_REVIEW' || line.supplierDoc === 'PENDING_REVIEW')).length,
+          missing: requiredLines.filter(({ line }) => line.missing.length > 0).length,
+          closingWithMissing: outstanding.filter(po => po.closing && po.lines.some(line => line.missing.length > 0)).length,
+          pendingIhmUpdates: pendingIhmUpdates.length
+        },
+        purchaseOrders: outstanding.map(po => ({ ...po, lines: po.lines.filter(line => line.required) })),
+        pendingIhmUpdates
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to build IHM report', 500, 'IHM_REPORT_FAILED');
+    }
+  }
+
+  private async getDeclaration(declarationId: string) {
+    const declaration = await prisma.ihmDeclaration.findUnique({
+      where: { id: declarationId },
+      include: {
+        poLineItem: { select: { purchaseOrder: { select: { vesselId: true, poNumber: true } } } }
+      }
+    });
+
+    if (!declaration) {
+      throw new AppError('IHM declaration not found', 404, 'IHM_DECLARATION_NOT_FOUND');
+    }
+
+    return declaration;
+  }
+
+  private toPurchaseOrderStatus(po: {
+    id: string;
+    poNumber: string;
+    status: POStatus;
+    vendor: { name: string };
+    lineItems: LineWithDeclarations[];
+  }): IhmPurchaseOrderStatus {
+    const lines = po.lineItems.map(line => this.toLineStatus(line));
+
+    return {
+      purchaseOrderId: po.id,
+      poNumber: po.poNumber,
+      status: po.status,
+      vendorName: po.vendor.name,
+      closing: CLOSING_PO_STATUSES.includes(po.status),
+      complete: lines.every(line => line.missing.length === 0),
+      lines
+    };
+  }
+
+  /**
+   * A line needs both documents when its catalogue item is IHM-relevant or known to contain listed materials
+   */
+  private toLineStatus(line: LineWithDeclarations): IhmLineStatus {
+    const item = line.itemCatalog;
+    const required = Boolean(item && (item.ihmRelevant || item.hazardousMaterials.length > 0));
+
+    const documentStatus = (type: IhmDeclarationType): IhmDocumentStatus => {
+      const declarations = line.ihmDeclarations.filter(declaration => declaration.type === type);
+      if (declarations.some(declaration => declaration.status === 'ACCEPTED')) return 'ACCEPTED';
+      if (declarations.some(declaration => declaration.status === 'SUBMITTED')) return 'PENDING_REVIEW';
+      return 'MISSING';
+    };
+
+    const materialDeclaration = documentStatus('MATERIAL_DECLARATION');
+    const supplierDoc = documentStatus('SUPPLIER_DOC');
+
+    return {
+      poLineItemId: line.id,
+      itemCatalogId: line.itemCatalogId,
+      itemDescription: line.itemDescription,
+      quantity: line.quantity,
+      required,
+      hazardousMaterials: item?.hazardousMaterials ?? [],
+      materialDeclaration,
+      supplierDoc,
+      missing: required
+        ? DECLARATION_TYPES.filter(type => (type === 'MATERIAL_DECLARATION' ? materialDeclaration : supplierDoc) === 'MISSING')
+        : [],
+      declarations: line.ihmDeclarations
+    };
+  }
+
+  private validateDeclaration(data: IhmDeclarationData): DeclaredMaterial[] {
+    if (!DECLARATION_TYPES.includes(data.type)) {
+      throw new AppError('Declaration type must be MATERIAL_DECLARATION or SUPPLIER_DOC', 400, 'INVALID_DECLARATION_TYPE');
+    }
+
+    if (!data.documentUrl) {
+      throw new AppError('The declaration document is required', 400, 'DOCUMENT_REQUIRED');
+    }
+
+    if (!(data.declarationDate instanceof Date) || isNaN(data.declarationDate.getTime())) {
+      throw new AppError('A valid declaration date is required', 400, 'INVALID_DECLARATION_DATE');
+    }
+
+    const materials = data.declaredMaterials ?? [];
+    if (data.type === 'SUPPLIER_DOC' && materials.length > 0) {
+      throw new AppError('Materials are declared on the Material Declaration, not the SDoC', 400, 'INVALID_DECLARATION');
+    }
+
+    const listed = Object.values(HazardousMaterial) as string[];
+    for (const entry of materials) {
+      if (!listed.includes(entry.material)) {
+        throw new AppError(`Unknown hazardous material: ${entry.material}`, 400, 'INVALID_HAZARDOUS_MATERIAL');
+      }
+      if (!(entry.mass > 0) || !entry.unit) {
+        throw new AppError(`Mass and unit are required for ${entry.material}`, 400, 'INVALID_HAZARDOUS_MATERIAL');
+      }
+    }
+
+    return materials;
+  }
+}
+
+export const ihmService = new IhmService();
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, ItemCategory } from '@prisma/client';
 import { 
   InventoryTurnoverData, 
   DemandForecastData, 
@@ -7,6 +7,7 @@ import {
   PredictiveMaintenanceData,
   InventoryDemandFilters
 } from '../types/analytics';
+import { inventoryService } from './inventoryService';
 
 const prisma = new PrismaClient();
 
@@ -271,46 +272,66 @@ export class InventoryDemandAnalyticsService {
   async getStockAlerts(filters: InventoryDemandFilters): Promise<StockAlertsData> {
     const { vesselIds, selectedVessel, categories } = filters;
 
-    // Get critical stock alerts
-    const alerts = await prisma.$queryRaw`
-      SELECT 
-        ii.id,
-        ii.item_id,
-        ic.name as item_name,
-        ii.vessel_id,
-        v.name as vessel_name,
-        ic.category,
-        ii.current_stock,
-        ii.reorder_point,
-        ii.safety_stock,
-        CASE 
-          WHEN ii.current_stock <= ii.safety_stock THEN 'critical'
-          WHEN ii.current_stock <= ii.reorder_point THEN 'warning'
-          ELSE 'info'
-        END as severity,
-        CASE 
-          WHEN ii.current_stock <= ii.safety_stock THEN 'low_stock'
-          WHEN ii.current_stock > ii.reorder_point * 3 THEN 'overstock'
-          ELSE 'reorder_needed'
-        END as alert_type,
-        ii.created_at
-      FROM inventory_items ii
-      JOIN item_catalog ic ON ii.item_id = ic.id
-      JOIN vessels v ON ii.vessel_id = v.id
-      WHERE (ii.current_stock <= ii.reorder_point OR ii.current_stock > ii.reorder_point * 3)
-        AND (${vesselIds?.length || selectedVessel ? `ii.vessel_id = ANY(${JSON.stringify(selectedVessel ? [selectedVessel] : vesselIds)})` : 'TRUE'})
-        AND (${categories?.length ? `ic.category = ANY(${JSON.stringify(categories)})` : 'TRUE'})
-      ORDER BY 
-        CASE 
-          WHEN ii.current_stock <= ii.safety_stock THEN 1
-          WHEN ii.current_stock <= ii.reorder_point THEN 2
-          ELSE 3
-        END,
-        ii.current_stock ASC
-    `;
+    // Get stock levels from the onboard inventory ledger
+    const inventoryItems = await prisma.inventoryItem.findMany({
+      where: {
+        ...((vesselIds?.length || selectedVessel) && {
+          vesselId: { in: selectedVessel ? [selectedVessel] : vesselIds }
+        }),
+        ...(categories?.length && {
+          itemCatalog: { category: { in: categories as ItemCategory[] } }
+        })
+      },
+      include: {
+        itemCatalog: true,
+        vessel: true
+      }
+    });
+
+    const alerts = inventoryItems
+      .map(item => {
+        const { status } = inventoryService.getStockLevelStatus(item);
+        if (status === 'OK') return null;
+
+        return {
+          id: item.id,
+          item_id: item.itemCatalogId,
+          item_name: item.itemCatalog.name,
+          vessel_id: item.vesselId,
+          vessel_name: item.vessel.name,
+          category: item.itemCatalog.category,
+          current_stock: item.currentStock,
+          reorder_point: item.reorderPoint ?? item.minStock ?? 0,
+          severity: status === 'CRITICAL' ? 'critical' : status === 'REORDER' ? 'warning' : 'info',
+          alert_type: status === 'CRITICAL' ? 'low_stock' : status === 'REORDER' ? 'reorder_needed' : 'overstock',
+          created_at: item.lastMovementAt || item.updatedAt
+        };
+      })
+      .filter((alert): alert is NonNullable<typeof alert> => alert !== null)
+      .sort((a, b) => {
+        const rank = { critical: 1, warning: 2, info: 3 } as Record<string, number>;
+        return rank[a.severity] - rank[b.severity] || a.current_stock - b.current_stock;
+      });
+
+    // Average daily consumption over the last 30 days drives stockout estimates
+    const consumptionSince = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const consumption = alerts.length
+      ? await prisma.inventoryTransaction.groupBy({
+          by: ['inventoryItemId'],
+          where: {
+            inventoryItemId: { in: alerts.map(alert => alert.id) },
+            type: { in: ['ISSUE', 'CONSUMPTION'] },
+            createdAt: { gte: consumptionSince }
+          },
+          _sum: { quantity: true }
+        })
+      : [];
+    const dailyUsage = new Map(
+      consumption.map(row => [row.inventoryItemId, Math.abs(row._sum.quantity || 0) / 30])
+    );
 
     // Format alerts
-    const criticalAlerts = (alerts as any[]).map((alert: any) => ({
+    const criticalAlerts = alerts.map((alert: any) => ({
       id: alert.id,
       itemId: alert.item_id,
       itemName: alert.item_name,
@@ -320,10 +341,10 @@ export class InventoryDemandAnalyticsService {
       severity: alert.severity as 'critical' | 'warning' | 'info',
       type: alert.alert_type as 'low_stock' | 'overstock' | 'reorder_needed',
       message: this.generateAlertMessage(alert),
-      currentStock: parseInt(alert.current_stock),
-      reorderPoint: parseInt(alert.reorder_point),
+      currentStock: alert.current_stock,
+      reorderPoint: alert.reorder_point,
       recommendedAction: this.getRecommendedAction(alert),
-      estimatedStockoutDate: this.calculateStockoutDate(alert),
+      estimatedStockoutDate: this.calculateStockoutDate(alert, dailyUsage.get(alert.id)),
       createdAt: new Date(alert.created_at)
     }));
 
@@ -480,6 +501,8 @@ export class InventoryDemandAnalyticsService {
       return `Critical: Stock level (${alert.current_stock}) is below safety threshold`;
     } else if (alert.severity === 'warning') {
       return `Warning: Stock level (${alert.current_stock}) is below reorder point`;
+    } else if (alert.alert_type === 'overstock') {
+      return `Info: Stock level (${alert.current_stock}) of ${alert.item_name} is above maximum`;
     }
     return `Info: Stock level monitoring for ${alert.item_name}`;
   }
@@ -489,16 +512,18 @@ export class InventoryDemandAnalyticsService {
       return 'Order immediately - emergency procurement required';
     } else if (alert.severity === 'warning') {
       return 'Initiate reorder process';
+    } else if (alert.alert_type === 'overstock') {
+      return 'Hold further orders until stock falls below maximum level';
     }
     return 'Monitor stock levels';
   }
 
-  private calculateStockoutDate(alert: any): Date | undefined {
-    if (alert.severity === 'critical') {
-      // Estimate stockout in 7-14 days for critical items
-      return new Date(Date.now() + (7 + Math.random() * 7) * 24 * 60 * 60 * 1000);
+  private calculateStockoutDate(alert: any, dailyUsage?: number): Date | undefined {
+    if (alert.alert_type === 'overstock' || !dailyUsage) {
+      return undefined;
     }
-    return undefined;
+    const daysRemaining = alert.current_stock / dailyUsage;
+    return new Date(Date.now() + daysRemaining * 24 * 60 * 60 * 1000);
   }
 
   private generateAlertTrends() {
@@ -0,0 +1,469 @@
+import { PrismaClient, Prisma, InventoryItem, InventoryTransaction, InventoryTransactionType } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { AuditService } from './auditService';
+
+const prisma = new PrismaClient();
+
+export interface StockLevelData {
+  vesselId: string;
+  itemCatalogId: string;
+  minStock?: number;
+  maxStock?: number;
+  reorderPoint?: number;
+  location?: string;
+}
+
+export interface StockIssueData {
+  vesselId: string;
+  itemCatalogId: string;
+  quantity: number;
+  type: 'ISSUE' | 'CONSUMPTION';
+  reference?: string;
+  notes?: string;
+}
+
+export interface StockCountData {
+  vesselId: string;
+  itemCatalogId: string;
+  countedQuantity: number;
+  reference?: string;
+  notes?: string;
+}
+
+export interface ReceiptLine {
+  itemCatalogId: string;
+  quantity: number;
+  unitCost?: number;
+  currency?: string;
+}
+
+export interface InventoryFilters {
+  category?: string;
+  belowReorderPoint?: boolean;
+  search?: string;
+}
+
+export interface StockLevelStatus {
+  inventoryItemId: string;
+  status: 'CRITICAL' | 'REORDER' | 'OVERSTOCK' | 'OK';
+}
+
+class InventoryService {
+  /**
+   * Get Remaining On Board (ROB) for a vessel
+   */
+  async getVesselInventory(vesselId: string, filters: InventoryFilters = {}): Promise<InventoryItem[]> {
+    try {
+      const where: Prisma.InventoryItemWhereInput = { vesselId };
+
+      if (filters.category || filters.search) {
+        where.itemCatalog = {
+          ...(filters.category && { category: filters.category as any }),
+          ...(filters.search && {
+            OR: [
+              { name: { contains: filters.search, mode: 'insensitive' } },
+              { impaCode: { contains: filters.search } },
+              { issaCode: { contains: filters.search } }
+            ]
+          })
+        };
+      }
+
+      const items = await prisma.inventoryItem.findMany({
+        where,
+        include: {
+          itemCatalog: true
+        },
+        orderBy: { updatedAt: 'desc' }
+      });
+
+      if (filters.belowReorderPoint) {
+        return items.filter(item => {
+          const status = this.getStockLevelStatus(item).status;
+          return status === 'CRITICAL' || status === 'REORDER';
+        });
+      }
+
+      return items;
+    } catch (error) {
+      throw new AppError('Failed to get vessel inventory', 500, 'INVENTORY_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Get a single inventory item with its recent movements
+   */
+  async getInventoryItem(id: string): Promise<InventoryItem> {
+    const item = await prisma.inventoryItem.findUnique({
+      where: { id },
+      include: {
+        itemCatalog: true,
+        vessel: true,
+        transactions: {
+          orderBy: { createdAt: 'desc' },
+          take: 50
+        }
+      }
+    });
+
+    if (!item) {
+      throw new AppError('Inventory item not found', 404, 'INVENTORY_ITEM_NOT_FOUND');
+    }
+
+    return item;
+  }
+
+  /**
+   * Set min/max stock levels and storage location for an item on board
+   */
+  async setStockLevels(data: StockLevelData, userId: string): Promise<InventoryItem> {
+    try {
+      if (data.minStock !== undefined && data.maxStock !== undefined && data.minStock > data.maxStock) {
+        throw new AppError('Minimum stock cannot exceed maximum stock', 400, 'INVALID_STOCK_LEVELS');
+      }
+
+      const existing = await prisma.inventoryItem.findUnique({
+        where: {
+          vesselId_itemCatalogId: {
+            vesselId: data.vesselId,
+            itemCatalogId: data.itemCatalogId
+          }
+        }
+      });
+
+      const levels = {
+        minStock: data.minStock,
+        maxStock: data.maxStock,
+        reorderPoint: data.reorderPoint,
+        location: data.location
+      };
+
+      const item = await prisma.inventoryItem.upsert({
+        where: {
+          vesselId_itemCatalogId: {
+            vesselId: data.vesselId,
+            itemCatalogId: data.itemCatalogId
+          }
+        },
+        create: {
+          vesselId: data.vesselId,
+          itemCatalogId: data.itemCatalogId,
+          ...levels
+        },
+        update: levels
+      });
+
+      await AuditService.log({
+        userId,
+        action: existing ? 'UPDATE' : 'CREATE',
+        resource: 'inventory_item',
+        resourceId: item.id,
+        oldValues: existing ? {
+          minStock: existing.minStock,
+          maxStock: existing.maxStock,
+          reorderPoint: existing.reorderPoint,
+          location: existing.location
+        } : undefined,
+        newValues: levels,
+        vesselId: data.vesselId
+      });
+
+      return item;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to set stock levels', 500, 'STOCK_LEVEL_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Record an issue or consumption of stock on board
+   */
+  async recordIssue(data: StockIssueData, userId: string, tx?: Prisma.TransactionClient): Promise<InventoryTransaction> {
+    try {
+      if (data.quantity <= 0) {
+        throw new AppError('Issued quantity must be greater than zero', 400, 'INVALID_QUANTITY');
+      }
+
+      const item = await (tx ?? prisma).inventoryItem.findUnique({
+        where: {
+          vesselId_itemCatalogId: {
+            vesselId: data.vesselId,
+            itemCatalogId: data.itemCatalogId
+          }
+        }
+      });
+
+      if (!item) {
+        throw new AppError('Item is not held on board this vessel', 404, 'INVENTORY_ITEM_NOT_FOUND');
+      }
+
+      const issue = (tx: Prisma.TransactionClient) =>
+        this.postMovement(tx, item.id, {
+          type: data.type as InventoryTransactionType,
+          quantity: -data.quantity,
+          reference: data.reference,
+          notes: data.notes,
+          performedById: userId
+        }, { requireStock: true });
+
+      const transaction = await (tx ? issue(tx) : prisma.$transaction(issue));
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'inventory_item',
+        resourceId: item.id,
+        oldValues: { currentStock: item.currentStock },
+        newValues: { currentStock: transaction.balanceAfter },
+        vesselId: data.vesselId,
+        metadata: {
+          transactionType: data.type,
+          quantity: data.quantity,
+          reference: data.reference
+        }
+      });
+
+      return transaction;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to record stock issue', 500, 'STOCK_ISSUE_FAILED');
+    }
+  }
+
+  /**
+   * Record a physical stock count, posting the difference as a STOCK_COUNT movement
+   */
+  async recordStockCount(data: StockCountData, userId: string): Promise<InventoryTransaction> {
+    try {
+      if (data.countedQuantity < 0) {
+        throw new AppError('Counted quantity cannot be negative', 400, 'INVALID_QUANTITY');
+      }
+
+      const { item, variance, transaction } = await prisma.$transaction(async tx => {
+        // Marking the count locks the row, so the stock read back cannot move before the variance is posted
+        const item = await tx.inventoryItem.upsert({
+          where: {
+            vesselId_itemCatalogId: {
+              vesselId: data.vesselId,
+              itemCatalogId: data.itemCatalogId
+            }
+          },
+          create: {
+            vesselId: data.vesselId,
+            itemCatalogId: data.itemCatalogId,
+            lastCountedAt: new Date()
+          },
+          update: { lastCountedAt: new Date() }
+        });
+
+        const variance = data.countedQuantity - item.currentStock;
+
+        const transaction = await this.postMovement(tx, item.id, {
+          type: InventoryTransactionType.STOCK_COUNT,
+          quantity: variance,
+          reference: data.reference,
+          notes: data.notes,
+          performedById: userId
+        });
+
+        return { item, variance, transaction };
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'inventory_item',
+        resourceId: item.id,
+        oldValues: { currentStock: item.currentStock },
+        newValues: { currentStock: data.countedQuantity },
+        vesselId: data.vesselId,
+        metadata: {
+          transactionType: InventoryTransactionType.STOCK_COUNT,
+          variance,
+          reference: data.reference
+        }
+      });
+
+      return transaction;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to record stock count', 500, 'STOCK_COUNT_FAILED');
+    }
+  }
+
+  /**
+   * Post goods received on a delivery into the vessel's inventory
+   */
+  async postDeliveryReceipt(
+    deliveryId: string,
+    vesselId: string,
+    lines: ReceiptLine[],
+    userId: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<InventoryTransaction[]> {
+    const receivable = lines.filter(line => line.quantity > 0);
+
+    if (receivable.length === 0) {
+      return [];
+    }
+
+    const receive = async (tx: Prisma.TransactionClient) => {
+      const transactions: InventoryTransaction[] = [];
+
+      for (const line of receivable) {
+        const item = await tx.inventoryItem.upsert({
+          where: {
+            vesselId_itemCatalogId: {
+              vesselId,
+              itemCatalogId: line.itemCatalogId
+            }
+          },
+          create: {
+            vesselId,
+            itemCatalogId: line.itemCatalogId,
+            unitCost: line.unitCost,
+            currency: line.currency || 'USD'
+          },
+          update: {}
+        });
+
+        transactions.push(await this.postMovement(tx, item.id, {
+          type: InventoryTransactionType.RECEIPT,
+          quantity: line.quantity,
+          unitCost: line.unitCost,
+          deliveryId,
+          performedById: userId
+        }));
+      }
+
+      return transactions;
+    };
+
+    // Join the caller's transaction when the receipt is part of a larger write
+    return tx ? receive(tx) : prisma.$transaction(receive);
+  }
+
+  /**
+   * Get stock movement history for a vessel
+   */
+  async getTransactions(
+    vesselId: string,
+    options: { itemCatalogId?: string; type?: InventoryTransactionType; startDate?: Date; endDate?: Date } = {}
+  ): Promise<InventoryTransaction[]> {
+    try {
+      const where: Prisma.InventoryTransactionWhereInput = {
+        inventoryItem: {
+          vesselId,
+          ...(options.itemCatalogId && { itemCatalogId: options.itemCatalogId })
+        }
+      };
+
+      if (options.type) {
+        where.type = options.type;
+      }
+
+      if (options.startDate || options.endDate) {
+        where.createdAt = {
+          ...(options.startDate && { gte: options.startDate }),
+          ...(options.endDate && { lte: options.endDate })
+        };
+      }
+
+      return await prisma.inventoryTransaction.findMany({
+        where,
+        include: {
+          inventoryItem: {
+            include: {
+              itemCatalog: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get inventory transactions', 500, 'INVENTORY_TRANSACTIONS_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Classify an item's current stock against its min/max levels
+   */
+  getStockLevelStatus(item: Pick<InventoryItem, 'id' | 'currentStock' | 'minStock' | 'maxStock' | 'reorderPoint'>): StockLevelStatus {
+    let status: StockLevelStatus['status'] = 'OK';
+
+    if (item.minStock !== null && item.currentStock <= item.minStock) {
+      status = 'CRITICAL';
+    } else if (item.reorderPoint !== null && item.currentStock <= item.reorderPoint) {
+      status = 'REORDER';
+    } else if (item.maxStock !== null && item.currentStock > item.maxStock) {
+      status = 'OVERSTOCK';
+    }
+
+    return { inventoryItemId: item.id, status };
+  }
+
+  /**
+   * Apply a signed stock movement and write it to the ledger
+   */
+  private async postMovement(
+    tx: Prisma.TransactionClient,
+    inventoryItemId: string,
+    movement: {
+      type: InventoryTransactionType;
+      quantity: number;
+      unitCost?: number;
+      deliveryId?: string;
+      reference?: string;
+      notes?: string;
+      performedById: string;
+    },
+    options: { requireStock?: boolean } = {}
+  ): Promise<InventoryTransaction> {
+    const stockUpdate = {
+      currentStock: { increment: movement.quantity },
+      lastMovementAt: new Date(),
+      ...(movement.unitCost !== undefined && { unitCost: movement.unitCost })
+    };
+
+    let balanceAfter: number;
+    if (options.requireStock) {
+      // Take stock only while enough is still on board, so concurrent issues cannot overdraw it
+      const { count } = await tx.inventoryItem.updateMany({
+        where: { id: inventoryItemId, currentStock: { gte: -movement.quantity } },
+        data: stockUpdate
+      });
+      const item = await tx.inventoryItem.findUniqueOrThrow({ where: { id: inventoryItemId } });
+
+      if (count === 0) {
+        throw new AppError(
+          `Insufficient stock: ${item.currentStock} on board, ${-movement.quantity} requested`,
+          400,
+          'INSUFFICIENT_STOCK'
+        );
+      }
+      balanceAfter = item.currentStock;
+    } else {
+      const updated = await tx.inventoryItem.update({
+        where: { id: inventoryItemId },
+        data: stockUpdate
+      });
+      balanceAfter = updated.currentStock;
+    }
+
+    return tx.inventoryTransaction.create({
+      data: {
+        inventoryItemId,
+        type: movement.type,
+        quantity: movement.quantity,
+        balanceAfter,
+        unitCost: movement.unitCost,
+        deliveryId: movement.deliveryId,
+        reference: movement.reference,
+        notes: movement.notes,
+        performedById: movement.performedById
+      }
+    });
+  }
+}
+
+export const inventoryService = new InventoryService();
@@ -39,7 +39,11 @@ export class InvoiceProcessingService {
         include: {
           purchaseOrder: {
             include: {
-              lineItems: true,
+              lineItems: {
+                include: {
+                  deliveryLines: true
+                }
+              },
               deliveries: true
             }
           }
@@ -163,11 +167,14 @@ export class InvoiceProcessingService {
         return result;
       }
 
-      // Price matching with tolerance
-      const poTotalAmount = purchaseOrder.totalAmount;
+      // Price matching with tolerance against the value of goods actually received
+      const receivedAmount = this.calculateReceivedAmount(purchaseOrder);
       const invoiceTotalAmount = invoice.totalAmount;
       
-      result.priceVariance = Math.abs((invoiceTotalAmount - poTotalAmount) / poTotalAmount) * 100;
+      // Nothing received in good condition leaves nothing to bill against: a full mismatch
+      result.priceVariance = receivedAmount > 0
+        ? Math.abs((invoiceTotalAmount - receivedAmount) / receivedAmount) * 100
+        : 100;
       
       if (result.priceVariance > this.PRICE_TOLERANCE_PERCENT) {
         result.issues.push(
@@ -218,9 +225,11 @@ export class InvoiceProcessingService {
       if (ocrData?.extractedData?.lineItems) {
         const ocrLineItems = ocrData.extractedData.lineItems;
         const poLineItems = purchaseOrder.lineItems;
+        // A partial receipt is invoiced for the lines that have arrived so far
+        const receivedLineCount = poLineItems.filter(line => this.getReceivedQuantity(line) > 0).length;
 
-        if (ocrLineItems.length !== poLineItems.length) {
-          issues.push(`Line item count mismatch: Invoice has ${ocrLineItems.length}, PO has ${poLineItems.length}`);
+        if (ocrLineItems.length !== receivedLineCount) {
+          issues.push(`Line item count mismatch: Invoice has ${ocrLineItems.length}, ${receivedLineCount} PO lines received`);
         }
 
         // Match line items by description similarity
@@ -234,10 +243,11 @@ export class InvoiceProcessingService {
             continue;
           }
 
-          // Exact quantity matching
-          if (ocrItem.quantity && Math.abs(ocrItem.quantity - matchingPoItem.quantity) > 0.001) {
+          // Exact quantity matching against what was received
+          const receivedQuantity = this.getReceivedQuantity(matchingPoItem);
+          if (ocrItem.quantity && Math.abs(ocrItem.quantity - receivedQuantity) > 0.001) {
             issues.push(
-              `Quantity mismatch for ${ocrItem.description}: Invoice ${ocrItem.quantity}, PO ${matchingPoItem.quantity}`
+              `Quantity mismatch for ${ocrItem.description}: Invoice ${ocrItem.quantity}, Received ${receivedQuantity}`
             );
           }
         }
@@ -250,6 +260,27 @@ export class InvoiceProcessingService {
     return issues;
   }
 
+  /**
+   * Value of received goods at PO prices
+   */
+  private calculateReceivedAmount(purchaseOrder: PurchaseOrder & { lineItems: any[] }): number {
+    return purchaseOrder.lineItems.reduce(
+      (sum, line) => sum + this.getReceivedQuantity(line) * line.unitPrice,
+      0
+    );
+  }
+
+  /**
+   * Quantity received in good condition for a PO line and still held,
+   * i.e. less anything since collected by the vendor on a return
+   */
+  private getReceivedQuantity(line: any): number {
+    return (line.deliveryLines || []).reduce(
+      (sum: number, deliveryLine: any) => sum + deliveryLine.receivedQuantity - deliveryLine.returnedQuantity,
+      0
+    );
+  }
+
   private isDescriptionSimilar(desc1: string, desc2: string): boolean {
     // Simple similarity check - could be enhanced with fuzzy matching
     const normalize = (str: string) => str.toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -1,6 +1,7 @@
-import { PrismaClient, ItemCategory, CriticalityLevel } from '@prisma/client';
+import { PrismaClient, ItemCategory, CriticalityLevel, HazardousMaterial, PackingGroup } from '@prisma/client';
 import { logger } from '../utils/logger.js';
 import { AuditService } from './auditService.js';
+import { dangerousGoodsService, DangerousGoodsClassification } from './dangerousGoodsService.js';
 
 const prisma = new PrismaClient();
 
@@ -18,6 +19,17 @@ export interface ItemCatalogCreateData {
   averagePrice?: number;
   averagePriceCurrency?: string;
   leadTime?: number;
+  ihmRelevant?: boolean;
+  hazardousMaterials?: HazardousMaterial[];
+  unNumber?: string | null;
+  properShippingName?: string | null;
+  imdgClass?: string | null;
+  subsidiaryRisks?: string[];
+  packingGroup?: PackingGroup | null;
+  marinePollutant?: boolean;
+  emsCode?: string | null;
+  flashPoint?: number | null;
+  hsCode?: string | null;
 }
 
 export interface ItemCatalogUpdateData extends Partial<ItemCatalogCreateData> {
@@ -35,8 +47,45 @@ export interface ItemCatalogSearchFilters {
   minPrice?: number;
   maxPrice?: number;
   maxLeadTime?: number;
+  partNumber?: string;
+  maker?: string;
 }
 
+export interface ItemPartReferenceData {
+  maker: string;
+  partNumber: string;
+  notes?: string;
+}
+
+export interface SupersessionLink {
+  id: string;
+  name: string;
+  impaCode: string | null;
+  issaCode: string | null;
+  supersededById: string | null;
+  supersededAt: Date | null;
+  supersessionNote: string | null;
+}
+
+export interface ItemEquivalenceGroupData {
+  name: string;
+  description?: string;
+  itemIds: string[];
+}
+
+// Superseding chains longer than this are treated as corrupt rather than walked forever
+const MAX_SUPERSESSION_DEPTH = 20;
+
+const SUPERSESSION_SUMMARY = {
+  id: true,
+  name: true,
+  impaCode: true,
+  issaCode: true,
+  supersededById: true,
+  supersededAt: true,
+  supersessionNote: true
+};
+
 export interface VesselCompatibilityCheck {
   vesselType: string;
   engineType: string;
@@ -48,6 +97,9 @@ class ItemCatalogService {
    */
   async createItem(data: ItemCatalogCreateData, userId?: string) {
     try {
+      this.validateHazardousMaterials(data.hazardousMaterials);
+      this.validateDangerousGoods(data);
+
       // Validate IMPA/ISSA codes are unique if provided
       if (data.impaCode) {
         const existingImpa = await prisma.itemCatalog.findUnique({
@@ -99,6 +151,7 @@ class ItemCatalogService {
   async updateItem(data: ItemCatalogUpdateData, userId?: string) {
     try {
       const { id, ...updateData } = data;
+      this.validateHazardousMaterials(updateData.hazardousMaterials);
 
       // Get existing item for audit
       const existingItem = await prisma.itemCatalog.findUnique({
@@ -109,6 +162,8 @@ class ItemCatalogService {
         throw new Error(`Item with ID ${id} not found`);
       }
 
+      this.validateDangerousGoods({ ...existingItem, ...updateData });
+
       // Validate IMPA/ISSA codes are unique if being updated
       if (updateData.impaCode && updateData.impaCode !== existingItem.impaCode) {
         const existingImpa = await prisma.itemCatalog.findUnique({
@@ -159,14 +214,22 @@ class ItemCatalogService {
   async getItemById(id: string) {
     try {
       const item = await prisma.itemCatalog.findUnique({
-        where: { id }
+        where: { id },
+        include: {
+          makerReferences: { orderBy: { maker: 'asc' } },
+          supersededBy: { select: SUPERSESSION_SUMMARY },
+          supersedes: { select: SUPERSESSION_SUMMARY }
+        }
       });
 
       if (!item) {
         throw new Error(`Item with ID ${id} not found`);
       }
 
-      return item;
+      return {
+        ...item,
+        currentReplacement: item.supersededById ? await this.resolveCurrentItem(item.id) : null
+      };
     } catch (error) {
       logger.error('Error fetching item by ID:', error);
       throw error;
@@ -249,6 +312,16 @@ class ItemCatalogService {
           }
         ];
 
+        // Maker part numbers are compared without the punctuation makers format them with
+        const normalisedSearch = this.normalisePartNumber(filters.search);
+        if (normalisedSearch.length >= 3) {
+          where.OR.push({
+            makerReferences: {
+              some: { normalisedPartNumber: { startsWith: normalisedSearch } }
+            }
+          });
+        }
+
         // Add multi-term search for better results
         if (searchTerms.length > 1) {
           where.OR.push({
@@ -301,6 +374,17 @@ class ItemCatalogService {
         where.issaCode = { contains: filters.issaCode, mode: 'insensitive' };
       }
 
+      if (filters.partNumber || filters.maker) {
+        const reference: any = {};
+        if (filters.partNumber) {
+          reference.normalisedPartNumber = { startsWith: this.normalisePartNumber(filters.partNumber) };
+        }
+        if (filters.maker) {
+          reference.maker = { equals: filters.maker, mode: 'insensitive' };
+        }
+        where.makerReferences = { some: reference };
+      }
+
       if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
         where.averagePrice = {};
         if (filters.minPrice !== undefined) {
@@ -340,13 +424,23 @@ class ItemCatalogService {
           where,
           skip,
           take: limit,
-          orderBy
+          orderBy,
+          include: {
+            makerReferences: { orderBy: { maker: 'asc' } },
+            supersededBy: { select: SUPERSESSION_SUMMARY }
+          }
         }),
         prisma.itemCatalog.count({ where })
       ]);
 
+      // Flag superseded results with the part that should be ordered instead
+      const resolvedItems = await Promise.all(items.map(async item => ({
+        ...item,
+        currentReplacement: item.supersededById ? await this.resolveCurrentItem(item.id) : null
+      })));
+
       return {
-        items,
+        items: resolvedItems,
         pagination: {
           page,
           limit,
@@ -1243,6 +1337,456 @@ class ItemCatalogService {
     return [...new Set(variations)]; // Remove duplicates
   }
 
+  /**
+   * Add a maker (OEM) part number cross-reference to an item
+   */
+  async addPartReference(itemId: string, data: ItemPartReferenceData, userId?: string) {
+    try {
+      const maker = data.maker?.trim();
+      const partNumber = data.partNumber?.trim();
+      const normalisedPartNumber = this.normalisePartNumber(partNumber || '');
+
+      if (!maker || !normalisedPartNumber) {
+        throw new Error('Maker and part number are required');
+      }
+
+      const item = await prisma.itemCatalog.findUnique({
+        where: { id: itemId }
+      });
+
+      if (!item) {
+        throw new Error(`Item with ID ${itemId} not found`);
+      }
+
+      const existing = await prisma.itemPartReference.findUnique({
+        where: { maker_normalisedPartNumber: { maker, normalisedPartNumber } },
+        include: { itemCatalog: { select: { id: true, name: true } } }
+      });
+
+      if (existing) {
+        throw new Error(
+          `${maker} part number ${partNumber} is already referenced by item ${existing.itemCatalog.name} (${existing.itemCatalogId})`
+        );
+      }
+
+      const reference = await prisma.itemPartReference.create({
+        data: {
+          itemCatalogId: itemId,
+          maker,
+          partNumber,
+          normalisedPartNumber,
+          notes: data.notes
+        }
+      });
+
+      if (userId) {
+        await AuditService.log({
+          userId,
+          action: 'CREATE',
+          resource: 'ItemCatalog',
+          resourceId: itemId,
+          newValues: { makerReference: reference }
+        });
+      }
+
+      logger.info(`Added ${maker} part number ${partNumber} to item ${item.name} (${itemId})`);
+      return reference;
+    } catch (error) {
+      logger.error('Error adding maker part reference:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a maker part number cross-reference from an item
+   */
+  async removePartReference(itemId: string, referenceId: string, userId?: string) {
+    try {
+      const reference = await prisma.itemPartReference.findUnique({
+        where: { id: referenceId }
+      });
+
+      if (!reference || reference.itemCatalogId !== itemId) {
+        throw new Error(`Part reference ${referenceId} not found on item ${itemId}`);
+      }
+
+      await prisma.itemPartReference.delete({
+        where: { id: referenceId }
+      });
+
+      if (userId) {
+        await AuditService.log({
+          userId,
+          action: 'DELETE',
+          resource: 'ItemCatalog',
+          resourceId: itemId,
+          oldValues: { makerReference: reference }
+        });
+      }
+
+      logger.info(`Removed ${reference.maker} part number ${reference.partNumber} from item ${itemId}`);
+      return { success: true };
+    } catch (error) {
+      logger.error('Error removing maker part reference:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a maker part number to the catalogue item it identifies
+   */
+  async getItemByPartNumber(partNumber: string, maker?: string) {
+    try {
+      const normalisedPartNumber = this.normalisePartNumber(partNumber);
+      if (!normalisedPartNumber) {
+        return null;
+      }
+
+      const references = await prisma.itemPartReference.findMany({
+        where: {
+          normalisedPartNumber,
+          ...(maker && { maker: { equals: maker, mode: 'insensitive' } })
+        },
+        select: { itemCatalogId: true }
+      });
+
+      const itemIds = [...new Set(references.map(reference => reference.itemCatalogId))];
+
+      // The same number used by two makers for different parts needs the maker to disambiguate
+      if (itemIds.length !== 1) {
+        if (itemIds.length > 1) {
+          logger.warn(`Part number ${partNumber} matches ${itemIds.length} catalogue items; maker required`);
+        }
+        return null;
+      }
+
+      return await this.getItemById(itemIds[0]);
+    } catch (error) {
+      logger.error('Error fetching item by part number:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create an equivalence group of interchangeable items
+   */
+  async createEquivalenceGroup(data: ItemEquivalenceGroupData, userId?: string) {
+    try {
+      if (!data.name || !Array.isArray(data.itemIds) || data.itemIds.length < 2) {
+        throw new Error('An equivalence group needs a name and at least two items');
+      }
+
+      const itemIds = [...new Set(data.itemIds)];
+      const items = await prisma.itemCatalog.findMany({
+        where: { id: { in: itemIds } },
+        select: { id: true, name: true, unitOfMeasure: true, equivalenceGroupId: true }
+      });
+
+      const missing = itemIds.filter(id => !items.some(item => item.id === id));
+      if (missing.length > 0) {
+        throw new Error(`Items not found: ${missing.join(', ')}`);
+      }
+
+      const grouped = items.filter(item => item.equivalenceGroupId);
+      if (grouped.length > 0) {
+        throw new Error(`Items already belong to an equivalence group: ${grouped.map(item => item.name).join(', ')}`);
+      }
+
+      // Equivalents are substituted quantity for quantity, so they must be ordered in the same unit
+      const units = new Set(items.map(item => item.unitOfMeasure));
+      if (units.size > 1) {
+        throw new Error(`Equivalent items must share a unit of measure (found ${[...units].join(', ')})`);
+      }
+
+      const group = await prisma.itemEquivalenceGroup.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          items: { connect: itemIds.map(id => ({ id })) }
+        },
+        include: { items: { select: SUPERSESSION_SUMMARY } }
+      });
+
+      if (userId) {
+        await AuditService.log({
+          userId,
+          action: 'CREATE',
+          resource: 'ItemEquivalenceGroup',
+          resourceId: group.id,
+          newValues: group
+        });
+      }
+
+      logger.info(`Created equivalence group ${group.name} with ${itemIds.length} items`);
+      return group;
+    } catch (error) {
+      logger.error('Error creating equivalence group:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add an item to or remove it from an equivalence group
+   */
+  async setEquivalenceGroup(itemId: string, groupId: string | null, userId?: string) {
+    try {
+      const item = await prisma.itemCatalog.findUnique({
+        where: { id: itemId }
+      });
+
+      if (!item) {
+        throw new Error(`Item with ID ${itemId} not found`);
+      }
+
+      if (groupId) {
+        const group = await prisma.itemEquivalenceGroup.findUnique({
+          where: { id: groupId },
+          include: { items: { select: { unitOfMeasure: true }, take: 1 } }
+        });
+
+        if (!group) {
+          throw new Error(`Equivalence group ${groupId} not found`);
+        }
+
+        if (group.items[0] && group.items[0].unitOfMeasure !== item.unitOfMeasure) {
+          throw new Error(`Equivalent items must share a unit of measure (${group.items[0].unitOfMeasure})`);
+        }
+      }
+
+      const updatedItem = await prisma.itemCatalog.update({
+        where: { id: itemId },
+        data: { equivalenceGroupId: groupId }
+      });
+
+      if (userId) {
+        await AuditService.log({
+          userId,
+          action: 'UPDATE',
+          resource: 'ItemCatalog',
+          resourceId: itemId,
+          oldValues: { equivalenceGroupId: item.equivalenceGroupId },
+          newValues: { equivalenceGroupId: groupId }
+        });
+      }
+
+      return updatedItem;
+    } catch (error) {
+      logger.error('Error updating equivalence group membership:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the items that can be ordered in place of an item
+   */
+  async getEquivalentItems(itemId: string) {
+    try {
+      const item = await prisma.itemCatalog.findUnique({
+        where: { id: itemId },
+        select: { id: true, equivalenceGroupId: true }
+      });
+
+      if (!item) {
+        throw new Error(`Item with ID ${itemId} not found`);
+      }
+
+      if (!item.equivalenceGroupId) {
+        return [];
+      }
+
+      return await prisma.itemCatalog.findMany({
+        where: {
+          equivalenceGroupId: item.equivalenceGroupId,
+          id: { not: itemId }
+        },
+        include: {
+          makerReferences: { orderBy: { maker: 'asc' } }
+        },
+        orderBy: [
+          { supersededById: 'asc' },
+          { averagePrice: 'asc' }
+        ]
+      });
+    } catch (error) {
+      logger.error('Error fetching equivalent items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an item as superseded by a replacement part
+   */
+  async supersedeItem(itemId: string, replacementId: string, note?: string, userId?: string) {
+    try {
+      if (itemId === replacementId) {
+        throw new Error('An item cannot supersede itself');
+      }
+
+      const [item, replacement] = await Promise.all([
+        prisma.itemCatalog.findUnique({ where: { id: itemId } }),
+        prisma.itemCatalog.findUnique({ where: { id: replacementId } })
+      ]);
+
+      if (!item) {
+        throw new Error(`Item with ID ${itemId} not found`);
+      }
+      if (!replacement) {
+        throw new Error(`Item with ID ${replacementId} not found`);
+      }
+
+      // Refuse a replacement whose own chain leads back to this item
+      const replacementChain = await this.getSupersessionChain(replacementId);
+      if (replacementChain.some(link => link.id === itemId)) {
+        throw new Error(`${replacement.name} is already superseded by ${item.name}; supersession cannot be circular`);
+      }
+
+      const updatedItem = await prisma.itemCatalog.update({
+        where: { id: itemId },
+        data: {
+          supersededById: replacementId,
+          supersededAt: new Date(),
+          supersessionNote: note
+        }
+      });
+
+      if (userId) {
+        await AuditService.log({
+          userId,
+          action: 'UPDATE',
+          resource: 'ItemCatalog',
+          resourceId: itemId,
+          oldValues: { supersededById: item.supersededById },
+          newValues: { supersededById: replacementId, supersessionNote: note }
+        });
+      }
+
+      logger.info(`Item ${item.name} (${itemId}) superseded by ${replacement.name} (${replacementId})`);
+      return updatedItem;
+    } catch (error) {
+      logger.error('Error superseding item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw a supersession, e.g. when it was recorded against the wrong part
+   */
+  async clearSupersession(itemId: string, userId?: string) {
+    try {
+      const item = await prisma.itemCatalog.findUnique({
+        where: { id: itemId }
+      });
+
+      if (!item) {
+        throw new Error(`Item with ID ${itemId} not found`);
+      }
+
+      const updatedItem = await prisma.itemCatalog.update({
+        where: { id: itemId },
+        data: {
+          supersededById: null,
+          supersededAt: null,
+          supersessionNote: null
+        }
+      });
+
+      if (userId) {
+        await AuditService.log({
+          userId,
+          action: 'UPDATE',
+          resource: 'ItemCatalog',
+          resourceId: itemId,
+          oldValues: { supersededById: item.supersededById, supersessionNote: item.supersessionNote },
+          newValues: { supersededById: null }
+        });
+      }
+
+      return updatedItem;
+    } catch (error) {
+      logger.error('Error clearing supersession:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Follow an item's supersession chain, starting with the item itself
+   */
+  async getSupersessionChain(itemId: string): Promise<SupersessionLink[]> {
+    try {
+      const chain: SupersessionLink[] = [];
+      const visited = new Set<string>();
+      let nextId: string | null = itemId;
+
+      while (nextId && !visited.has(nextId) && chain.length < MAX_SUPERSESSION_DEPTH) {
+        visited.add(nextId);
+        const link: SupersessionLink | null = await prisma.itemCatalog.findUnique({
+          where: { id: nextId },
+          select: SUPERSESSION_SUMMARY
+        });
+
+        if (!link) {
+          break;
+        }
+
+        chain.push(link);
+        nextId = link.supersededById;
+      }
+
+      if (nextId && chain.length > 0 && chain[chain.length - 1].supersededById) {
+        logger.warn(`Supersession chain for item ${itemId} does not terminate; stopped at ${chain[chain.length - 1].id}`);
+      }
+
+      return chain;
+    } catch (error) {
+      logger.error('Error fetching supersession chain:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the item currently orderable in place of a superseded item
+   */
+  async resolveCurrentItem(itemId: string) {
+    const chain = await this.getSupersessionChain(itemId);
+    return chain.length > 0 ? chain[chain.length - 1] : null;
+  }
+
+  /**
+   * Reject hazardous material flags outside the HKC / EU SRR lists
+   */
+  private validateHazardousMaterials(materials?: HazardousMaterial[]): void {
+    if (materials === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(materials)) {
+      throw new Error('Hazardous materials must be a list');
+    }
+
+    const listed = Object.values(HazardousMaterial) as string[];
+    const unknown = materials.filter(material => !listed.includes(material));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown hazardous materials: ${unknown.join(', ')}`);
+    }
+  }
+
+  /**
+   * Reject incomplete or invalid IMDG classifications
+   */
+  private validateDangerousGoods(item: DangerousGoodsClassification): void {
+    const problems = dangerousGoodsService.validateClassification(item);
+    if (problems.length > 0) {
+      throw new Error(`Invalid dangerous goods classification: ${problems.join('; ')}`);
+    }
+  }
+
+  /**
+   * Normalise a maker part number for matching (e.g. "2-3456 789.A" -> "23456789A")
+   */
+  private normalisePartNumber(partNumber: string): string {
+    return partNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
   /**
    * Delete item from catalog
    */
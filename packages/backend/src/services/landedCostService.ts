@@ -0,0 +1,240 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './auditService';
+import { portDatabaseIntegrationService } from './portDatabaseIntegrationService';
+
+const prisma = new PrismaClient();
+
+const SHIP_SPARES_CARGO_TYPE = 'SHIP_SPARES';
+
+export type LandedCostComponent = 'freight' | 'duty' | 'customsClearance' | 'agencyFees';
+
+/**
+ * Editable per-RFQ assumptions. Percentages apply to the quoted goods value;
+ * fixed fees are in the RFQ currency.
+ */
+export interface LandedCostAssumptions {
+  domesticFreightPercent: number;
+  internationalFreightPercent: number;
+  minimumFreight: number;
+  dutyRatePercent: number;
+  customsFeePerDocument: number;
+  agencyFee: number;
+  vendorOverrides?: Record<string, Partial<Record<LandedCostComponent, number>>>;
+}
+
+export interface LandedCostBreakdown {
+  goods: number;
+  freight: number;
+  duty: number;
+  customsClearance: number;
+  agencyFees: number;
+  total: number;
+  crossBorder: boolean;
+  customsDocuments: string[];
+  notes: string[];
+}
+
+export const DEFAULT_LANDED_COST_ASSUMPTIONS: LandedCostAssumptions = {
+  domesticFreightPercent: 2,
+  internationalFreightPercent: 8,
+  minimumFreight: 150,
+  dutyRatePercent: 5,
+  customsFeePerDocument: 75,
+  agencyFee: 400
+};
+
+interface DeliveryPortContext {
+  portCode: string | null;
+  country: string | null;
+  countryCode: string | null;
+  customsDocuments: string[] | null;
+}
+
+class LandedCostService {
+  /**
+   * Stored assumptions for an RFQ over the defaults
+   */
+  getAssumptions(rfq: { landedCostAssumptions: Prisma.JsonValue | null }): LandedCostAssumptions {
+    return {
+      ...DEFAULT_LANDED_COST_ASSUMPTIONS,
+      ...((rfq.landedCostAssumptions as Partial<LandedCostAssumptions> | null) ?? {})
+    };
+  }
+
+  /**
+   * Replace the cost assumptions used when the RFQ's quotes are next scored
+   */
+  async updateAssumptions(rfqId: string, assumptions: Partial<LandedCostAssumptions>, userId: string): Promise<LandedCostAssumptions> {
+    try {
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        include: { requisition: { select: { vesselId: true } } }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      if (rfq.status === 'AWARDED' || rfq.status === 'CANCELLED') {
+        throw new AppError(`Cannot change cost assumptions on an RFQ in ${rfq.status} status`, 400, 'INVALID_RFQ_STATUS');
+      }
+
+      const previous = this.getAssumptions(rfq);
+      const updated = { ...previous, ...assumptions };
+
+      await prisma.rFQ.update({
+        where: { id: rfqId },
+        data: { landedCostAssumptions: updated as unknown as Prisma.InputJsonValue }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'rfq_landed_cost_assumptions',
+        resourceId: rfqId,
+        oldValues: previous,
+        newValues: updated,
+        vesselId: rfq.requisition.vesselId,
+        metadata: { rfqNumber: rfq.rfqNumber }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update landed cost assumptions', 500, 'LANDED_COST_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Landed cost of each quote at the RFQ's delivery port, keyed by quote ID.
+   * Freight and duty follow from whether the vendor ships across a border; clearance
+   * is charged per document the port's customs require; an agent is needed unless the
+   * vendor delivers at the port itself.
+   */
+  async calculateLandedCosts(rfq: any, quotes: any[]): Promise<Map<string, LandedCostBreakdown>> {
+    const assumptions = this.getAssumptions(rfq);
+    const port = await this.getDeliveryPortContext(rfq);
+    const costs = new Map<string, LandedCostBreakdown>();
+
+    for (const quote of quotes) {
+      costs.set(quote.id, this.calculateLandedCost(quote, port, assumptions));
+    }
+
+    return costs;
+  }
+
+  // Private helper methods
+
+  private calculateLandedCost(quote: any, port: DeliveryPortContext, assumptions: LandedCostAssumptions): LandedCostBreakdown {
+    const goods = quote.totalAmount;
+    const vendor = quote.vendor;
+    const notes: string[] = [];
+
+    const crossBorder = this.isCrossBorder(vendor.country, port);
+    if (crossBorder === null) {
+      notes.push('Vendor or delivery country unknown; costed as domestic');
+    }
+
+    const freightPercent = crossBorder ? assumptions.internationalFreightPercent : assumptions.domesticFreightPercent;
+    let freight = Math.max(goods * freightPercent / 100, assumptions.minimumFreight);
+    let duty = crossBorder ? goods * assumptions.dutyRatePercent / 100 : 0;
+
+    let customsDocuments: string[] = [];
+    if (crossBorder) {
+      if (port.customsDocuments) {
+        customsDocuments = port.customsDocuments;
+      } else {
+        notes.push('Customs requirements unavailable; clearance fees not included');
+      }
+    }
+    let customsClearance = customsDocuments.length * assumptions.customsFeePerDocument;
+
+    const deliversAtPort = port.portCode !== null && vendor.portCapabilities?.some((capability: any) =>
+      capability.portCode === port.portCode && capability.capabilities.includes('delivery')
+    );
+    let agencyFees = deliversAtPort ? 0 : assumptions.agencyFee;
+
+    const overrides = assumptions.vendorOverrides?.[quote.vendorId];
+    if (overrides) {
+      freight = overrides.freight ?? freight;
+      duty = overrides.duty ?? duty;
+      customsClearance = overrides.customsClearance ?? customsClearance;
+      agencyFees = overrides.agencyFees ?? agencyFees;
+      notes.push(`Buyer overrides applied: ${Object.keys(overrides).join(', ')}`);
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      goods,
+      freight: round(freight),
+      duty: round(duty),
+      customsClearance: round(customsClearance),
+      agencyFees: round(agencyFees),
+      total: round(goods + freight + duty + customsClearance + agencyFees),
+      crossBorder: crossBorder === true,
+      customsDocuments,
+      notes
+    };
+  }
+
+  private isCrossBorder(vendorCountry: string | null, port: DeliveryPortContext): boolean | null {
+    if (!vendorCountry || (!port.country && !port.countryCode)) {
+      return null;
+    }
+
+    const country = vendorCountry.trim().toLowerCase();
+    return country !== port.country?.toLowerCase() && country !== port.countryCode?.toLowerCase();
+  }
+
+  /**
+   * Country and customs paperwork for the delivery port. Port data outages degrade the
+   * comparison rather than block it, falling back to the country in the delivery location.
+   */
+  private async getDeliveryPortContext(rfq: any): Promise<DeliveryPortContext> {
+    const deliveryLocation: string | null = rfq.deliveryLocation || rfq.requisition?.deliveryLocation || null;
+    const locationCountry = deliveryLocation?.split(',').pop()?.trim() || null;
+    const context: DeliveryPortContext = {
+      portCode: rfq.deliveryPortCode ?? null,
+      country: locationCountry,
+      countryCode: null,
+      customsDocuments: null
+    };
+
+    if (!context.portCode) {
+      return context;
+    }
+
+    try {
+      const port = await portDatabaseIntegrationService.getPortDetails(context.portCode);
+      if (port) {
+        context.country = port.country;
+        context.countryCode = port.countryCode;
+      }
+    } catch (error) {
+      logger.warn(`Port details unavailable for ${context.portCode}, using delivery location country:`, error);
+    }
+
+    const vesselFlag = rfq.requisition?.vessel?.flag;
+    if (vesselFlag) {
+      try {
+        const requirements = await portDatabaseIntegrationService.getCustomsRequirements(
+          context.portCode,
+          vesselFlag,
+          SHIP_SPARES_CARGO_TYPE
+        );
+        context.customsDocuments = requirements
+          .filter(requirement => requirement.required)
+          .map(requirement => requirement.documentType);
+      } catch (error) {
+        logger.warn(`Customs requirements unavailable for ${context.portCode}:`, error);
+      }
+    }
+
+    return context;
+  }
+}
+
+export const landedCostService = new LandedCostService();
@@ -0,0 +1,540 @@
+import { ItemCatalog, Prisma, PrismaClient, Requisition, RequisitionStatus, UrgencyLevel, UserRole } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './auditService';
+import { exchangeRateIntegrationService } from './exchangeRateIntegrationService';
+import { itemCatalogService } from './itemCatalogService';
+import { portCallService, PortCallSuggestion } from './portCallService';
+import { requisitionService } from './requisitionService';
+import {
+  vesselManagementIntegrationService,
+  MaintenancePartRequirement,
+  MaintenanceSchedule
+} from './vesselManagementIntegrationService';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PLANNING_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+// Jobs further out than this are left for a later run
+const PLANNING_HORIZON_DAYS = 180;
+
+// Supplier lead time assumed for catalogue items that do not record one
+const DEFAULT_LEAD_TIME_DAYS = 14;
+
+// Approval and RFQ time allowed on top of the supplier's lead time
+const PROCUREMENT_BUFFER_DAYS = 7;
+
+const PLANNED_JOB_STATUSES: MaintenanceSchedule['status'][] = ['SCHEDULED', 'OVERDUE'];
+const CLOSED_REQUISITION_STATUSES: RequisitionStatus[] = ['REJECTED', 'CANCELLED'];
+
+// The scheduler drafts in the name of whoever owns the PMS for the vessel
+const PLANNER_ROLES: UserRole[] = ['CHIEF_ENGINEER', 'SUPERINTENDENT'];
+
+export interface MaintenancePartLine {
+  partNumber: string;
+  maker?: string;
+  itemCatalogId: string;
+  itemName: string;
+  replacesItemId?: string;  // Superseded item the PMS still lists
+  required: number;
+  fromStock: number;
+  shortfall: number;
+  leadTimeDays: number;
+  unitPrice: number;
+  currency: string;
+}
+
+export type MaintenanceJobPlanStatus =
+  | 'STOCK_ON_BOARD'  // Every mapped part is covered by onboard stock
+  | 'UNMAPPED'        // Nothing to order, but some parts are not in the catalogue
+  | 'REQUISITIONED'   // An open requisition already exists for the job
+  | 'NOT_YET_DUE'     // Parts are short; the requisition can wait until draftOn
+  | 'DRAFT_DUE'       // Parts are short and the requisition should be raised now
+  | 'DRAFTED';        // Raised by this run
+
+export interface MaintenanceJobPlan {
+  maintenanceJobId: string;
+  scheduleId: string;
+  maintenanceType: MaintenanceSchedule['maintenanceType'];
+  equipment: string;
+  description: string;
+  scheduledDate: Date;
+  priority: MaintenanceSchedule['priority'];
+  status: MaintenanceJobPlanStatus;
+  lines: MaintenancePartLine[];
+  unmappedParts: MaintenancePartRequirement[];
+  leadTimeDays: number;
+  draftOn: Date | null;
+  deliveryPortCall: PortCallSuggestion | null;
+  deliveryDate: Date | null;
+  onBoardInTime: boolean;
+  requisitionId: string | null;
+  warnings: string[];
+}
+
+export interface MaintenancePlan {
+  vesselId: string;
+  systemId: string;
+  generatedAt: Date;
+  jobs: MaintenanceJobPlan[];
+}
+
+export interface MaintenancePlanningRunResult {
+  vessels: number;
+  drafted: number;
+  skipped: number;
+  failed: number;
+}
+
+interface ResolvedPart {
+  requirement: MaintenancePartRequirement;
+  item: ItemCatalog;
+  replaces?: ItemCatalog;
+}
+
+class MaintenancePlanningService {
+  /**
+   * Work out which upcoming maintenance jobs need spare parts ordered and when
+   */
+  async getMaintenancePlan(vesselId: string, systemId?: string, now: Date = new Date()): Promise<MaintenancePlan> {
+    try {
+      return await this.buildPlan(vesselId, systemId, now);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to build maintenance plan', 500, 'MAINTENANCE_PLAN_FAILED');
+    }
+  }
+
+  /**
+   * Draft a requisition for every job whose parts must be ordered now to reach the vessel in time
+   */
+  async draftDueRequisitions(
+    vesselId: string,
+    userId: string,
+    systemId?: string,
+    now: Date = new Date()
+  ): Promise<MaintenancePlan> {
+    try {
+      const plan = await this.buildPlan(vesselId, systemId, now);
+
+      for (const job of plan.jobs.filter(job => job.status === 'DRAFT_DUE')) {
+        try {
+          const requisition = await this.createDraft(plan, job, userId, now);
+          job.status = 'DRAFTED';
+          job.requisitionId = requisition.id;
+        } catch (error) {
+          logger.error(`Failed to draft requisition for maintenance job ${job.scheduleId}:`, error);
+          job.warnings.push(`Requisition could not be drafted: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+      }
+
+      return plan;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to draft maintenance requisitions', 500, 'MAINTENANCE_DRAFT_FAILED');
+    }
+  }
+
+  /**
+   * Run the planner for every vessel linked to a planned maintenance system
+   */
+  async processAllVessels(now: Date = new Date()): Promise<MaintenancePlanningRunResult> {
+    const result: MaintenancePlanningRunResult = { vessels: 0, drafted: 0, skipped: 0, failed: 0 };
+
+    const vessels = await prisma.vessel.findMany({
+      where: { isActive: true, maintenanceSystemId: { not: null } },
+      select: { id: true, name: true, maintenanceSystemId: true }
+    });
+
+    for (const vessel of vessels) {
+      try {
+        const plannerId = await this.getPlanner(vessel.id);
+        if (!plannerId) {
+          result.skipped++;
+          logger.warn(`No chief engineer or superintendent assigned to ${vessel.name}; maintenance requisitions not drafted`);
+          continue;
+        }
+
+        const plan = await this.draftDueRequisitions(vessel.id, plannerId, vessel.maintenanceSystemId!, now);
+        result.vessels++;
+        result.drafted += plan.jobs.filter(job => job.status === 'DRAFTED').length;
+        result.failed += plan.jobs.filter(job => job.status === 'DRAFT_DUE').length;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Maintenance planning failed for vessel ${vessel.id}:`, error);
+      }
+    }
+
+    if (result.drafted || result.failed) {
+      logger.info(`Maintenance planning run: ${result.drafted} drafted, ${result.failed} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Schedule the periodic maintenance planning run
+   */
+  scheduleMaintenancePlanning(): void {
+    setInterval(async () => {
+      try {
+        await this.processAllVessels();
+      } catch (error) {
+        logger.error('Maintenance planning run failed:', error);
+      }
+    }, PLANNING_INTERVAL_MS);
+
+    logger.info('Maintenance requisition planning scheduled');
+  }
+
+  private async buildPlan(vesselId: string, systemId: string | undefined, now: Date): Promise<MaintenancePlan> {
+    const vessel = await prisma.vessel.findUnique({
+      where: { id: vesselId },
+      select: { id: true, maintenanceSystemId: true }
+    });
+
+    if (!vessel) {
+      throw new AppError('Vessel not found', 404, 'VESSEL_NOT_FOUND');
+    }
+
+    const source = systemId || vessel.maintenanceSystemId;
+    if (!source) {
+      throw new AppError('Vessel is not linked to a planned maintenance system', 400, 'MAINTENANCE_SYSTEM_NOT_CONFIGURED');
+    }
+
+    const horizon = new Date(now.getTime() + PLANNING_HORIZON_DAYS * DAY_MS);
+    const schedule = (await vesselManagementIntegrationService.getMaintenanceSchedule(source, vesselId))
+      .filter(job => PLANNED_JOB_STATUSES.includes(job.status) && job.partRequirements.length > 0)
+      .filter(job => job.scheduledDate <= horizon)
+      .sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+
+    // Resolve every job's parts first so onboard stock can be shared out in job order
+    const resolvedJobs = [];
+    for (const job of schedule) {
+      const resolved: ResolvedPart[] = [];
+      const unmapped: MaintenancePartRequirement[] = [];
+
+      for (const requirement of job.partRequirements) {
+        const part = await this.resolvePart(requirement);
+        if (part) {
+          resolved.push(part);
+        } else {
+          unmapped.push(requirement);
+        }
+      }
+
+      resolvedJobs.push({ job, resolved, unmapped });
+    }
+
+    const stock = await this.getAvailableStock(
+      vesselId,
+      resolvedJobs.flatMap(({ resolved }) => resolved.flatMap(part => [part.item.id, ...(part.replaces ? [part.replaces.id] : [])]))
+    );
+
+    const jobs: MaintenanceJobPlan[] = [];
+    for (const { job, resolved, unmapped } of resolvedJobs) {
+      const record = await this.syncJob(source, vesselId, job);
+      const lines = this.allocateStock(resolved, stock);
+      const shortLines = lines.filter(line => line.shortfall > 0);
+      const openRequisition = record.requisitions[0];
+
+      const plan: MaintenanceJobPlan = {
+        maintenanceJobId: record.id,
+        scheduleId: job.scheduleId,
+        maintenanceType: job.maintenanceType,
+        equipment: job.equipment,
+        description: job.description,
+        scheduledDate: job.scheduledDate,
+        priority: job.priority,
+        status: 'STOCK_ON_BOARD',
+        lines,
+        unmappedParts: unmapped,
+        leadTimeDays: Math.max(0, ...shortLines.map(line => line.leadTimeDays)),
+        draftOn: null,
+        deliveryPortCall: null,
+        deliveryDate: null,
+        onBoardInTime: true,
+        requisitionId: openRequisition?.id ?? null,
+        warnings: unmapped.map(part =>
+          `Part ${part.partNumber}${part.maker ? ` (${part.maker})` : ''} is not in the item catalogue`
+        )
+      };
+
+      if (openRequisition) {
+        plan.status = 'REQUISITIONED';
+      } else if (shortLines.length === 0) {
+        plan.status = unmapped.length > 0 ? 'UNMAPPED' : 'STOCK_ON_BOARD';
+      } else {
+        await this.planDelivery(vesselId, job, plan, now);
+        plan.status = plan.draftOn && plan.draftOn > now ? 'NOT_YET_DUE' : 'DRAFT_DUE';
+      }
+
+      jobs.push(plan);
+    }
+
+    return { vesselId, systemId: source, generatedAt: now, jobs };
+  }
+
+  /**
+   * Pick the port call to deliver to and the last day the requisition can be raised.
+   * Parts must clear the lead time and reach a call the vessel makes before the job,
+   * so the deadline is set by the last such call a vendor delivers to.
+   */
+  private async planDelivery(vesselId: string, job: MaintenanceSchedule, plan: MaintenanceJobPlan, now: Date): Promise<void> {
+    const procurementDays = plan.leadTimeDays + PROCUREMENT_BUFFER_DAYS;
+    const { recommended, candidates } = await portCallService.suggestPortCall({
+      vesselId,
+      vendorIds: [],
+      leadTimeDays: procurementDays,
+      requiredBy: job.scheduledDate
+    }, now);
+
+    const callsBeforeJob = candidates.filter(candidate =>
+      candidate.coveringVendorIds.length > 0 && portCallService.windowStart(candidate.portCall)! <= job.scheduledDate
+    );
+
+    if (callsBeforeJob.length === 0) {
+      plan.draftOn = new Date(job.scheduledDate.getTime() - procurementDays * DAY_MS);
+      plan.deliveryDate = new Date(Math.max(now.getTime(), plan.draftOn.getTime()) + procurementDays * DAY_MS);
+      plan.onBoardInTime = plan.deliveryDate <= job.scheduledDate;
+      plan.warnings.push('No port call on the schedule before the job where a vendor delivers');
+    } else {
+      const lastCall = callsBeforeJob.reduce((latest, candidate) =>
+        portCallService.windowEnd(candidate.portCall)! > portCallService.windowEnd(latest.portCall)! ? candidate : latest
+      );
+      plan.draftOn = new Date(portCallService.windowEnd(lastCall.portCall)!.getTime() - procurementDays * DAY_MS);
+
+      // Ordering now delivers to the first call the parts can make, not the last one possible
+      const target = recommended && recommended.meetsRequiredBy ? recommended : null;
+      plan.deliveryPortCall = target;
+      plan.deliveryDate = target?.plannedDeliveryDate ?? new Date(now.getTime() + procurementDays * DAY_MS);
+      plan.onBoardInTime = Boolean(target);
+    }
+
+    if (!plan.onBoardInTime && plan.draftOn <= now) {
+      plan.warnings.push(`Lead time of ${plan.leadTimeDays} days leaves the parts arriving after the job on ${job.scheduledDate.toISOString().split('T')[0]}`);
+    }
+  }
+
+  /**
+   * Record the job locally so requisitions can link back to it
+   */
+  private syncJob(systemId: string, vesselId: string, job: MaintenanceSchedule) {
+    const data = {
+      vesselId,
+      maintenanceType: job.maintenanceType,
+      equipment: job.equipment,
+      description: job.description,
+      scheduledDate: job.scheduledDate,
+      priority: job.priority,
+      status: job.status,
+      requiredParts: job.partRequirements as unknown as Prisma.InputJsonValue
+    };
+
+    return prisma.maintenanceJob.upsert({
+      where: { systemId_scheduleId: { systemId, scheduleId: job.scheduleId } },
+      create: { systemId, scheduleId: job.scheduleId, ...data },
+      update: data,
+      include: {
+        requisitions: {
+          where: { status: { notIn: CLOSED_REQUISITION_STATUSES } },
+          select: { id: true, requisitionNumber: true, status: true },
+          orderBy: { createdAt: 'desc' }
+        }
+      }
+    });
+  }
+
+  /**
+   * Map a PMS part line to the catalogue item to order: IMPA/ISSA code first, then maker part number,
+   * following any supersession to the item currently orderable
+   */
+  private async resolvePart(requirement: MaintenancePartRequirement): Promise<ResolvedPart | null> {
+    const code = requirement.impaCode;
+    let item: ItemCatalog | null = code
+      ? await prisma.itemCatalog.findFirst({ where: { OR: [{ impaCode: code }, { issaCode: code }] } })
+      : null;
+
+    if (!item && requirement.partNumber) {
+      item = await itemCatalogService.getItemByPartNumber(requirement.partNumber, requirement.maker);
+    }
+
+    if (!item) {
+      return null;
+    }
+
+    if (item.supersededById) {
+      const current = await itemCatalogService.resolveCurrentItem(item.id);
+      const replacement = current && current.id !== item.id
+        ? await prisma.itemCatalog.findUnique({ where: { id: current.id } })
+        : null;
+
+      if (replacement) {
+        return { requirement, item: replacement, replaces: item };
+      }
+    }
+
+    return { requirement, item };
+  }
+
+  /**
+   * Stock that can be used for planned work, keeping the safety stock back for breakdowns
+   */
+  private async getAvailableStock(vesselId: string, itemCatalogIds: string[]): Promise<Map<string, number>> {
+    const stock = new Map<string, number>();
+    if (itemCatalogIds.length === 0) {
+      return stock;
+    }
+
+    const inventory = await prisma.inventoryItem.findMany({
+      where: { vesselId, itemCatalogId: { in: [...new Set(itemCatalogIds)] } },
+      select: { itemCatalogId: true, currentStock: true, minStock: true }
+    });
+
+    for (const entry of inventory) {
+      stock.set(entry.itemCatalogId, Math.max(0, entry.currentStock - (entry.minStock ?? 0)));
+    }
+
+    return stock;
+  }
+
+  /**
+   * Combine a job's parts per item and draw them from stock, superseded stock last
+   */
+  private allocateStock(parts: ResolvedPart[], stock: Map<string, number>): MaintenancePartLine[] {
+    const lines = new Map<string, MaintenancePartLine>();
+
+    for (const { requirement, item, replaces } of parts) {
+      const existing = lines.get(item.id);
+      if (existing) {
+        existing.required += requirement.quantity;
+        continue;
+      }
+
+      lines.set(item.id, {
+        partNumber: requirement.partNumber,
+        maker: requirement.maker,
+        itemCatalogId: item.id,
+        itemName: item.name,
+        replacesItemId: replaces?.id,
+        required: requirement.quantity,
+        fromStock: 0,
+        shortfall: 0,
+        leadTimeDays: item.leadTime ?? DEFAULT_LEAD_TIME_DAYS,
+        unitPrice: item.averagePrice ?? 0,
+        currency: item.averagePriceCurrency
+      });
+    }
+
+    for (const line of lines.values()) {
+      for (const stockItemId of [line.itemCatalogId, line.replacesItemId]) {
+        if (!stockItemId) continue;
+
+        const available = stock.get(stockItemId) ?? 0;
+        const drawn = Math.min(available, line.required - line.fromStock);
+        stock.set(stockItemId, available - drawn);
+        line.fromStock += drawn;
+      }
+
+      line.shortfall = line.required - line.fromStock;
+    }
+
+    return [...lines.values()];
+  }
+
+  private async createDraft(plan: MaintenancePlan, job: MaintenanceJobPlan, userId: string, now: Date): Promise<Requisition> {
+    const shortLines = job.lines.filter(line => line.shortfall > 0);
+    const urgencyLevel: UrgencyLevel = job.priority === 'CRITICAL' || !job.onBoardInTime ? 'URGENT' : 'ROUTINE';
+
+    // A requisition carries one currency, so price every line in the first line's currency
+    const currency = shortLines[0].currency;
+    const unitPrices: number[] = [];
+    for (const line of shortLines) {
+      unitPrices.push(line.currency === currency
+        ? line.unitPrice
+        : (await exchangeRateIntegrationService.convertCurrency(line.unitPrice, line.currency, currency)).convertedAmount);
+    }
+    const totalAmount = Math.round(shortLines.reduce((sum, line, index) => sum + line.shortfall * unitPrices[index], 0) * 100) / 100;
+    const portCall = job.deliveryPortCall?.portCall;
+
+    const justification = [
+      `Spare parts for ${job.maintenanceType.toLowerCase()} maintenance job ${job.scheduleId}: ` +
+        `${job.equipment} - ${job.description}, scheduled ${job.scheduledDate.toISOString().split('T')[0]}`,
+      ...(job.unmappedParts.length > 0
+        ? [`Not in the catalogue, add manually: ${job.unmappedParts.map(part => part.partNumber).join(', ')}`]
+        : [])
+    ].join('\n');
+
+    const requisition = await requisitionService.createRequisition({
+      vesselId: plan.vesselId,
+      urgencyLevel,
+      totalAmount,
+      currency,
+      deliveryLocation: portCall ? `${portCall.portName} (${portCall.portCode})` : undefined,
+      deliveryDate: job.deliveryDate ?? undefined,
+      justification,
+      maintenanceJobId: job.maintenanceJobId,
+      items: shortLines.map((line, index) => ({
+        itemCatalogId: line.itemCatalogId,
+        quantity: line.shortfall,
+        unitPrice: unitPrices[index],
+        urgencyLevel,
+        justification: `${line.required} required by job ${job.scheduleId}, ${line.fromStock} on board`,
+        specifications: {
+          partNumber: line.partNumber,
+          ...(line.maker && { maker: line.maker }),
+          ...(line.replacesItemId && { replacesItemId: line.replacesItemId })
+        }
+      }))
+    }, userId);
+
+    await prisma.maintenanceJob.update({
+      where: { id: job.maintenanceJobId },
+      data: { lastPlannedAt: now }
+    });
+
+    await AuditService.log({
+      userId,
+      action: 'CREATE',
+      resource: 'requisition',
+      resourceId: requisition.id,
+      newValues: {
+        requisitionNumber: requisition.requisitionNumber,
+        status: requisition.status,
+        totalAmount
+      },
+      vesselId: plan.vesselId,
+      metadata: {
+        maintenanceJobId: job.maintenanceJobId,
+        systemId: plan.systemId,
+        scheduleId: job.scheduleId,
+        draftOn: job.draftOn,
+        portCallId: portCall?.id
+      }
+    });
+
+    return requisition;
+  }
+
+  /**
+   * Chief engineer assigned to the vessel, falling back to its superintendent
+   */
+  private async getPlanner(vesselId: string): Promise<string | null> {
+    for (const role of PLANNER_ROLES) {
+      const assignment = await prisma.vesselAssignment.findFirst({
+        where: { vesselId, isActive: true, user: { role, isActive: true } },
+        select: { userId: true }
+      });
+
+      if (assignment) {
+        return assignment.userId;
+      }
+    }
+
+    return null;
+  }
+}
+
+export const maintenancePlanningService = new MaintenancePlanningService();
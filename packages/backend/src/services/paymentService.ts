@@ -1,10 +1,15 @@
-import { PrismaClient, Invoice, InvoiceStatus } from '@prisma/client';
+import { PrismaClient, Invoice, InvoiceStatus, AdjustmentNote, AdjustmentNoteStatus, AdjustmentNoteType } from '@prisma/client';
 import { auditService } from './auditService';
+import { accountingIntegrationService } from './accountingIntegrationService';
 import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
 import axios from 'axios';
 
 const prisma = new PrismaClient();
 
+// Accounting system that adjustment note journal entries are posted to
+const ACCOUNTING_SYSTEM_ID = process.env.ACCOUNTING_SYSTEM_ID || 'quickbooks';
+
 export interface BankingIntegrationConfig {
   apiUrl: string;
   apiKey: string;
@@ -53,6 +58,39 @@ export interface PaymentApprovalWorkflow {
   }>;
 }
 
+export interface InvoiceBalance {
+  invoiceTotal: number;
+  debitAdjustments: number;
+  creditAdjustments: number;
+  adjustedTotal: number;
+  paidAmount: number;
+  outstanding: number;
+}
+
+export interface VendorStatementLine {
+  date: Date;
+  documentType: 'INVOICE' | 'CREDIT_NOTE' | 'DEBIT_NOTE' | 'PAYMENT';
+  reference: string;
+  invoiceNumber: string;
+  currency: string;
+  amount: number; // Positive increases what we owe the vendor
+  balance: number;
+}
+
+export interface VendorStatementPosition {
+  currency: string;
+  invoiced: number;
+  debitNotes: number;
+  creditNotes: number;
+  paid: number;
+  outstanding: number;
+  unappliedCredit: number;
+  netPosition: number;
+}
+
+// Balances within half a cent are treated as settled
+const SETTLEMENT_TOLERANCE = 0.005;
+
 export class PaymentService {
   private bankingConfig: BankingIntegrationConfig;
 
@@ -91,10 +129,15 @@ export class PaymentService {
         throw new Error('Invoice must be approved before payment');
       }
 
-      if (invoice.paidAmount && invoice.paidAmount >= invoice.totalAmount) {
+      const balance = await this.getOutstandingBalance(invoice.id);
+      if (balance.outstanding <= SETTLEMENT_TOLERANCE) {
         throw new Error('Invoice is already fully paid');
       }
 
+      if (paymentRequest.amount > balance.outstanding + SETTLEMENT_TOLERANCE) {
+        throw new Error('Payment amount exceeds outstanding balance');
+      }
+
       // Check if payment approval is required
       const requiresApproval = await this.checkPaymentApprovalRequired(invoice, paymentRequest.amount);
       
@@ -353,7 +396,12 @@ export class PaymentService {
     reference: string
   ): Promise<void> {
     const invoice = await prisma.invoice.findUnique({
-      where: { id: invoiceId }
+      where: { id: invoiceId },
+      include: {
+        adjustmentNotes: {
+          where: { status: AdjustmentNoteStatus.APPLIED }
+        }
+      }
     });
 
     if (!invoice) {
@@ -361,7 +409,8 @@ export class PaymentService {
     }
 
     const totalPaid = (invoice.paidAmount || 0) + paidAmount;
-    const isFullyPaid = totalPaid >= invoice.totalAmount;
+    const { adjustedTotal } = this.calculateInvoiceBalance(invoice, invoice.adjustmentNotes);
+    const isFullyPaid = totalPaid >= adjustedTotal - SETTLEMENT_TOLERANCE;
 
     await prisma.invoice.update({
       where: { id: invoiceId },
@@ -487,6 +536,7 @@ export class PaymentService {
       isPaid: boolean;
       paidAmount: number;
       remainingAmount: number;
+      balance: InvoiceBalance;
       paymentHistory: any[];
       pendingApprovals: any[];
     };
@@ -499,6 +549,9 @@ export class PaymentService {
             vendor: true,
             vessel: true
           }
+        },
+        adjustmentNotes: {
+          orderBy: { issueDate: 'asc' }
         }
       }
     });
@@ -507,9 +560,13 @@ export class PaymentService {
       throw new Error('Invoice not found');
     }
 
-    const paidAmount = invoice.paidAmount || 0;
-    const remainingAmount = invoice.totalAmount - paidAmount;
-    const isPaid = remainingAmount <= 0;
+    const balance = this.calculateInvoiceBalance(
+      invoice,
+      invoice.adjustmentNotes.filter(note => note.status === AdjustmentNoteStatus.APPLIED)
+    );
+    const paidAmount = balance.paidAmount;
+    const remainingAmount = balance.outstanding;
+    const isPaid = remainingAmount <= SETTLEMENT_TOLERANCE;
 
     // Get payment history from audit logs
     const paymentHistory = await prisma.auditLog.findMany({
@@ -543,6 +600,7 @@ export class PaymentService {
         isPaid,
         paidAmount,
         remainingAmount,
+        balance,
         paymentHistory,
         pendingApprovals
       }
@@ -590,6 +648,350 @@ export class PaymentService {
       throw error;
     }
   }
+
+  /**
+   * Work out what is still owed on an invoice after applied credit/debit notes and payments
+   */
+  calculateInvoiceBalance(
+    invoice: Pick<Invoice, 'totalAmount' | 'paidAmount'>,
+    appliedNotes: Pick<AdjustmentNote, 'type' | 'appliedAmount'>[] = []
+  ): InvoiceBalance {
+    const debitAdjustments = appliedNotes
+      .filter(note => note.type === AdjustmentNoteType.DEBIT)
+      .reduce((sum, note) => sum + note.appliedAmount, 0);
+    const creditAdjustments = appliedNotes
+      .filter(note => note.type === AdjustmentNoteType.CREDIT)
+      .reduce((sum, note) => sum + note.appliedAmount, 0);
+
+    const adjustedTotal = invoice.totalAmount + debitAdjustments - creditAdjustments;
+    const paidAmount = invoice.paidAmount || 0;
+
+    return {
+      invoiceTotal: this.roundAmount(invoice.totalAmount),
+      debitAdjustments: this.roundAmount(debitAdjustments),
+      creditAdjustments: this.roundAmount(creditAdjustments),
+      adjustedTotal: this.roundAmount(adjustedTotal),
+      paidAmount: this.roundAmount(paidAmount),
+      outstanding: this.roundAmount(Math.max(adjustedTotal - paidAmount, 0))
+    };
+  }
+
+  /**
+   * Get the outstanding balance of an invoice
+   */
+  async getOutstandingBalance(invoiceId: string): Promise<InvoiceBalance> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        adjustmentNotes: {
+          where: { status: AdjustmentNoteStatus.APPLIED }
+        }
+      }
+    });
+
+    if (!invoice) {
+      throw new AppError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+    }
+
+    return this.calculateInvoiceBalance(invoice, invoice.adjustmentNotes);
+  }
+
+  /**
+   * Apply an issued credit or debit note against the invoice's outstanding balance.
+   * Credit beyond what is still owed stays on the vendor account as unapplied credit.
+   */
+  async applyAdjustmentNote(noteId: string, userId: string): Promise<{
+    note: AdjustmentNote;
+    balance: InvoiceBalance;
+    invoiceStatus: InvoiceStatus;
+    unappliedCredit: number;
+  }> {
+    try {
+      const note = await prisma.adjustmentNote.findUnique({
+        where: { id: noteId },
+        include: {
+          invoice: true,
+          purchaseOrder: true,
+          vendor: true
+        }
+      });
+
+      if (!note) {
+        throw new AppError('Adjustment note not found', 404, 'ADJUSTMENT_NOTE_NOT_FOUND');
+      }
+
+      if (note.status !== AdjustmentNoteStatus.ISSUED) {
+        throw new AppError('Only issued notes can be applied', 400, 'ADJUSTMENT_NOTE_NOT_ISSUED');
+      }
+
+      const journalEntry = accountingIntegrationService.createAdjustmentNoteEntry(note);
+
+      const { claimedNote, invoice, before, after, appliedAmount, invoiceStatus } = await prisma.$transaction(async (tx) => {
+        // Read the balance inside the transaction so notes applied meanwhile are counted
+        const invoice = await tx.invoice.findUnique({
+          where: { id: note.invoiceId },
+          include: {
+            adjustmentNotes: {
+              where: { status: AdjustmentNoteStatus.APPLIED }
+            }
+          }
+        });
+
+        if (!invoice) {
+          throw new AppError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+        }
+
+        const before = this.calculateInvoiceBalance(invoice, invoice.adjustmentNotes);
+        const appliedAmount = note.type === AdjustmentNoteType.CREDIT
+          ? Math.min(note.amount, before.outstanding)
+          : note.amount;
+
+        const after = this.calculateInvoiceBalance(invoice, [
+          ...invoice.adjustmentNotes,
+          { type: note.type, appliedAmount }
+        ]);
+        const invoiceStatus = this.resolveAdjustedInvoiceStatus(invoice.status, after, note.resolvesDispute);
+
+        const claimed = await tx.adjustmentNote.updateMany({
+          where: { id: noteId, status: AdjustmentNoteStatus.ISSUED },
+          data: {
+            status: AdjustmentNoteStatus.APPLIED,
+            appliedAmount,
+            appliedAt: new Date()
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw new AppError('Only issued notes can be applied', 400, 'ADJUSTMENT_NOTE_NOT_ISSUED');
+        }
+
+        // Another payment or note changed the invoice after its balance was read
+        const updatedInvoice = await tx.invoice.updateMany({
+          where: { id: invoice.id, updatedAt: invoice.updatedAt },
+          data: {
+            status: invoiceStatus,
+            paidDate: invoiceStatus === InvoiceStatus.PAID ? invoice.paidDate || new Date() : null
+          }
+        });
+
+        if (updatedInvoice.count === 0) {
+          throw new AppError('Invoice was updated while the note was being applied', 409, 'INVOICE_CHANGED');
+        }
+
+        const claimedNote = await tx.adjustmentNote.findUniqueOrThrow({ where: { id: noteId } });
+
+        return { claimedNote, invoice, before, after, appliedAmount, invoiceStatus };
+      });
+
+      // Post only once the note is committed, so the accounting system is never called with the invoice locked.
+      // An applied note without a journal entry id is one still to be posted.
+      const posted = await accountingIntegrationService.postJournalEntry(ACCOUNTING_SYSTEM_ID, journalEntry)
+        .catch(error => ({ success: false, entryId: journalEntry.entryId, errors: [error.message as string] }));
+
+      if (!posted.success) {
+        logger.error(`Journal entry for adjustment note ${note.noteNumber} was not posted`, {
+          entryId: journalEntry.entryId,
+          errors: posted.errors
+        });
+      }
+
+      const appliedNote = posted.success
+        ? await prisma.adjustmentNote.update({
+            where: { id: noteId },
+            data: { journalEntryId: posted.entryId }
+          })
+        : claimedNote;
+
+      await auditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'Invoice',
+        resourceId: invoice.id,
+        oldValues: { status: invoice.status, outstanding: before.outstanding },
+        newValues: { status: invoiceStatus, outstanding: after.outstanding },
+        metadata: {
+          adjustmentNoteId: note.id,
+          noteNumber: note.noteNumber,
+          type: note.type,
+          appliedAmount,
+          journalEntryId: appliedNote.journalEntryId
+        },
+        vesselId: note.purchaseOrder.vesselId
+      });
+
+      logger.info(`Adjustment note ${note.noteNumber} applied to invoice ${invoice.invoiceNumber}`, {
+        type: note.type,
+        appliedAmount,
+        outstanding: after.outstanding,
+        userId
+      });
+
+      return {
+        note: appliedNote,
+        balance: after,
+        invoiceStatus,
+        unappliedCredit: this.roundAmount(note.amount - appliedAmount)
+      };
+    } catch (error) {
+      logger.error('Adjustment note application failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Vendor statement with running balance and net position per currency
+   */
+  async getVendorStatement(vendorId: string, period: { from?: Date; to?: Date } = {}): Promise<{
+    vendor: { id: string; name: string; code: string };
+    lines: VendorStatementLine[];
+    positions: VendorStatementPosition[];
+  }> {
+    const vendor = await prisma.vendor.findUnique({
+      where: { id: vendorId },
+      select: { id: true, name: true, code: true }
+    });
+
+    if (!vendor) {
+      throw new AppError('Vendor not found', 404, 'VENDOR_NOT_FOUND');
+    }
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        purchaseOrder: { vendorId },
+        status: { not: InvoiceStatus.REJECTED },
+        invoiceDate: { gte: period.from, lte: period.to }
+      },
+      include: {
+        adjustmentNotes: {
+          where: { status: { in: [AdjustmentNoteStatus.ISSUED, AdjustmentNoteStatus.APPLIED] } }
+        }
+      },
+      orderBy: { invoiceDate: 'asc' }
+    });
+
+    const entries: Omit<VendorStatementLine, 'balance'>[] = [];
+    const positions = new Map<string, VendorStatementPosition>();
+
+    for (const invoice of invoices) {
+      if (!positions.has(invoice.currency)) {
+        positions.set(invoice.currency, {
+          currency: invoice.currency,
+          invoiced: 0,
+          debitNotes: 0,
+          creditNotes: 0,
+          paid: 0,
+          outstanding: 0,
+          unappliedCredit: 0,
+          netPosition: 0
+        });
+      }
+
+      const position = positions.get(invoice.currency)!;
+      const balance = this.calculateInvoiceBalance(
+        invoice,
+        invoice.adjustmentNotes.filter(note => note.status === AdjustmentNoteStatus.APPLIED)
+      );
+
+      position.invoiced += balance.invoiceTotal;
+      position.debitNotes += balance.debitAdjustments;
+      position.creditNotes += balance.creditAdjustments;
+      position.paid += balance.paidAmount;
+      position.outstanding += balance.outstanding;
+
+      entries.push({
+        date: invoice.invoiceDate,
+        documentType: 'INVOICE',
+        reference: invoice.invoiceNumber,
+        invoiceNumber: invoice.invoiceNumber,
+        currency: invoice.currency,
+        amount: invoice.totalAmount
+      });
+
+      for (const note of invoice.adjustmentNotes) {
+        const isCredit = note.type === AdjustmentNoteType.CREDIT;
+
+        // Credit not yet set against an invoice is held on the account
+        if (isCredit) {
+          position.unappliedCredit += note.amount - note.appliedAmount;
+        }
+
+        if (note.status !== AdjustmentNoteStatus.APPLIED) {
+          continue;
+        }
+
+        entries.push({
+          date: note.appliedAt || note.issueDate,
+          documentType: isCredit ? 'CREDIT_NOTE' : 'DEBIT_NOTE',
+          reference: note.noteNumber,
+          invoiceNumber: invoice.invoiceNumber,
+          currency: note.currency,
+          amount: isCredit ? -note.appliedAmount : note.appliedAmount
+        });
+      }
+
+      if (invoice.paidAmount) {
+        entries.push({
+          date: invoice.paidDate || invoice.updatedAt,
+          documentType: 'PAYMENT',
+          reference: invoice.paymentReference || invoice.invoiceNumber,
+          invoiceNumber: invoice.invoiceNumber,
+          currency: invoice.currency,
+          amount: -invoice.paidAmount
+        });
+      }
+    }
+
+    const runningBalances = new Map<string, number>();
+    const lines = entries
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .map(entry => {
+        const balance = (runningBalances.get(entry.currency) || 0) + entry.amount;
+        runningBalances.set(entry.currency, balance);
+        return { ...entry, balance: this.roundAmount(balance) };
+      });
+
+    return {
+      vendor,
+      lines,
+      positions: Array.from(positions.values()).map(position => ({
+        currency: position.currency,
+        invoiced: this.roundAmount(position.invoiced),
+        debitNotes: this.roundAmount(position.debitNotes),
+        creditNotes: this.roundAmount(position.creditNotes),
+        paid: this.roundAmount(position.paid),
+        outstanding: this.roundAmount(position.outstanding),
+        unappliedCredit: this.roundAmount(position.unappliedCredit),
+        netPosition: this.roundAmount(position.outstanding - position.unappliedCredit)
+      }))
+    };
+  }
+
+  /**
+   * Decide the invoice status once a note has moved its balance
+   */
+  private resolveAdjustedInvoiceStatus(
+    current: InvoiceStatus,
+    balance: InvoiceBalance,
+    resolvesDispute: boolean
+  ): InvoiceStatus {
+    if (current === InvoiceStatus.DISPUTED && !resolvesDispute) {
+      return current;
+    }
+
+    if (balance.outstanding <= SETTLEMENT_TOLERANCE) {
+      return InvoiceStatus.PAID;
+    }
+
+    if (current === InvoiceStatus.PAID || current === InvoiceStatus.DISPUTED) {
+      return InvoiceStatus.APPROVED;
+    }
+
+    return current;
+  }
+
+  private roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
 }
 
 export const paymentService = new PaymentService();
\ No newline at end of file
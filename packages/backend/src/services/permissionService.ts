@@ -118,7 +118,7 @@ export const ROLE_HIERARCHY: Record<UserRole, UserRole[]> = {
   ADMIN: ['SUPERINTENDENT', 'CAPTAIN', 'CHIEF_ENGINEER', 'VESSEL_CREW', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM'],
 };
 
-// Default permissions for each role
+// Default permissions for each role; inherited roles' permissions come from ROLE_HIERARCHY
 export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
   VESSEL_CREW: [
     PERMISSIONS.REQUISITION_CREATE,
@@ -133,7 +133,6 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
   ],
   
   CHIEF_ENGINEER: [
-    ...ROLE_PERMISSIONS.VESSEL_CREW,
     PERMISSIONS.APPROVAL_LEVEL_1,
     PERMISSIONS.REQUISITION_DELETE,
     PERMISSIONS.VESSEL_UPDATE,
@@ -142,7 +141,6 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
   ],
   
   CAPTAIN: [
-    ...ROLE_PERMISSIONS.CHIEF_ENGINEER,
     PERMISSIONS.APPROVAL_LEVEL_2,
     PERMISSIONS.APPROVAL_EMERGENCY_OVERRIDE,
     PERMISSIONS.EMERGENCY_OVERRIDE,
@@ -154,7 +152,6 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
   ],
   
   SUPERINTENDENT: [
-    ...ROLE_PERMISSIONS.CAPTAIN,
     PERMISSIONS.APPROVAL_LEVEL_3,
     PERMISSIONS.VESSEL_CREATE,
     PERMISSIONS.VESSEL_DELETE,
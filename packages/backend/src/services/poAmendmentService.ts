@@ -0,0 +1,698 @@
+import { createHash } from 'crypto';
+import { PrismaClient, POAmendment, POAmendmentStatus, Prisma } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './auditService';
+import { DocumentVersionService } from './documentVersionService';
+import { emailService } from './emailService';
+
+const prisma = new PrismaClient();
+
+// Issued POs the vendor is still working on; later statuses are settled by adjustment notes
+const AMENDABLE_PO_STATUSES = ['SENT', 'ACKNOWLEDGED', 'IN_PROGRESS'];
+
+// Value increases at or above either limit go back for approval before the vendor sees them
+const REAPPROVAL_THRESHOLD = 5000; // USD equivalent
+const REAPPROVAL_PERCENT = 10;
+
+export interface POAmendmentLineChange {
+  action: 'ADD' | 'UPDATE' | 'REMOVE';
+  poLineItemId?: string;    // UPDATE / REMOVE
+  itemCatalogId?: string;   // ADD
+  itemDescription?: string; // ADD
+  quantity?: number;
+  unitPrice?: number;
+  specifications?: string;
+}
+
+export interface POAmendmentData {
+  reason: string;
+  lineChanges?: POAmendmentLineChange[];
+  deliveryDate?: Date;
+}
+
+export interface POLineSnapshot {
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  specifications: string | null;
+}
+
+/**
+ * Per-line difference recorded on the amendment and shown to the vendor
+ */
+export interface POAmendmentLineDiff {
+  action: 'ADD' | 'UPDATE' | 'REMOVE';
+  poLineItemId?: string;
+  itemCatalogId: string | null;
+  itemDescription: string;
+  before?: POLineSnapshot;
+  after?: POLineSnapshot;
+  valueChange: number;
+}
+
+export interface AmendmentAcknowledger {
+  vendorUserId: string;
+  vendorId: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+class POAmendmentService {
+  /**
+   * Raise an amendment to quantities, prices or the delivery date of an issued PO.
+   * Amendments within the re-approval threshold are issued to the vendor straight away.
+   */
+  async createAmendment(purchaseOrderId: string, data: POAmendmentData, userId: string): Promise<POAmendment> {
+    try {
+      const po = await this.getPurchaseOrder(purchaseOrderId);
+
+      if (!AMENDABLE_PO_STATUSES.includes(po.status)) {
+        throw new AppError(`Cannot amend a purchase order in ${po.status} status`, 400, 'INVALID_PO_STATUS');
+      }
+
+      const pending = await prisma.pOAmendment.findFirst({
+        where: { purchaseOrderId, status: POAmendmentStatus.PENDING_APPROVAL }
+      });
+
+      if (pending) {
+        throw new AppError(`Amendment ${pending.amendmentNumber} is still awaiting approval`, 409, 'AMENDMENT_PENDING');
+      }
+
+      const lineChanges = data.lineChanges || [];
+
+      if (lineChanges.length === 0 && !data.deliveryDate) {
+        throw new AppError('An amendment must change line items or the delivery date', 400, 'AMENDMENT_EMPTY');
+      }
+
+      const diffs = this.buildLineDiffs(po, lineChanges);
+      const previousTotal = po.totalAmount;
+      const newTotal = round(previousTotal + diffs.reduce((sum, diff) => sum + diff.valueChange, 0));
+      const requiresApproval = this.requiresApproval(previousTotal, newTotal, po.exchangeRate);
+
+      const latest = await prisma.pOAmendment.findFirst({
+        where: { purchaseOrderId },
+        orderBy: { amendmentNumber: 'desc' }
+      });
+
+      const amendment = await prisma.pOAmendment.create({
+        data: {
+          purchaseOrderId,
+          amendmentNumber: (latest?.amendmentNumber ?? 0) + 1,
+          status: POAmendmentStatus.PENDING_APPROVAL,
+          reason: data.reason,
+          lineChanges: diffs.length > 0 ? (diffs as unknown as Prisma.InputJsonValue) : undefined,
+          previousDeliveryDate: data.deliveryDate ? po.deliveryDate : undefined,
+          newDeliveryDate: data.deliveryDate,
+          previousTotal,
+          newTotal,
+          requiresApproval,
+          requestedById: userId
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'po_amendment',
+        resourceId: amendment.id,
+        newValues: {
+          amendmentNumber: amendment.amendmentNumber,
+          lineChanges: diffs.length,
+          deliveryDate: data.deliveryDate,
+          previousTotal,
+          newTotal,
+          requiresApproval
+        },
+        vesselId: po.vesselId,
+        metadata: { purchaseOrderId, poNumber: po.poNumber }
+      });
+
+      if (requiresApproval) {
+        return amendment;
+      }
+
+      try {
+        return await this.issueAmendment(amendment.id, userId);
+      } catch (error) {
+        // Never took effect on the PO; close it so it does not hold up the next amendment as pending
+        await prisma.pOAmendment.updateMany({
+          where: { id: amendment.id, status: POAmendmentStatus.PENDING_APPROVAL },
+          data: {
+            status: POAmendmentStatus.REJECTED,
+            reviewComments: `Could not be issued: ${error instanceof Error ? error.message : 'unknown error'}`
+          }
+        });
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create purchase order amendment', 500, 'PO_AMENDMENT_CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Approve an amendment held for re-approval and issue it to the vendor
+   */
+  async approveAmendment(amendmentId: string, userId: string, comments?: string): Promise<POAmendment> {
+    try {
+      const amendment = await this.getPendingAmendment(amendmentId);
+
+      const issued = await this.issueAmendment(amendmentId, userId, {
+        reviewedById: userId,
+        reviewedAt: new Date(),
+        reviewComments: comments
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'APPROVE',
+        resource: 'po_amendment',
+        resourceId: amendmentId,
+        oldValues: { status: amendment.status },
+        newValues: { status: POAmendmentStatus.ISSUED, comments },
+        vesselId: amendment.purchaseOrder.vesselId,
+        metadata: {
+          purchaseOrderId: amendment.purchaseOrderId,
+          poNumber: amendment.purchaseOrder.poNumber,
+          previousTotal: amendment.previousTotal,
+          newTotal: amendment.newTotal
+        }
+      });
+
+      return issued;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to approve purchase order amendment', 500, 'PO_AMENDMENT_APPROVAL_FAILED');
+    }
+  }
+
+  /**
+   * Reject an amendment held for re-approval; the PO stays on its current revision
+   */
+  async rejectAmendment(amendmentId: string, userId: string, reason: string): Promise<POAmendment> {
+    try {
+      const amendment = await this.getPendingAmendment(amendmentId);
+
+      const rejected = await prisma.pOAmendment.update({
+        where: { id: amendmentId },
+        data: {
+          status: POAmendmentStatus.REJECTED,
+          reviewedById: userId,
+          reviewedAt: new Date(),
+          reviewComments: reason
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'REJECT',
+        resource: 'po_amendment',
+        resourceId: amendmentId,
+        oldValues: { status: amendment.status },
+        newValues: { status: POAmendmentStatus.REJECTED, reason },
+        vesselId: amendment.purchaseOrder.vesselId,
+        metadata: { purchaseOrderId: amendment.purchaseOrderId, poNumber: amendment.purchaseOrder.poNumber }
+      });
+
+      return rejected;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to reject purchase order amendment', 500, 'PO_AMENDMENT_REJECTION_FAILED');
+    }
+  }
+
+  /**
+   * Vendor acceptance of the PO's latest revision. Acknowledging an amendment also
+   * acknowledges any earlier ones still outstanding.
+   */
+  async acknowledgeAmendment(
+    purchaseOrderId: string,
+    amendmentId: string,
+    actor: AmendmentAcknowledger,
+    notes?: string
+  ): Promise<POAmendment> {
+    try {
+      const amendment = await prisma.pOAmendment.findUnique({
+        where: { id: amendmentId },
+        include: { purchaseOrder: true }
+      });
+
+      if (!amendment || amendment.purchaseOrderId !== purchaseOrderId || amendment.revision === null) {
+        throw new AppError('Amendment not found', 404, 'PO_AMENDMENT_NOT_FOUND');
+      }
+
+      if (amendment.status !== POAmendmentStatus.ISSUED) {
+        throw new AppError('Amendment has already been acknowledged', 400, 'INVALID_AMENDMENT_STATUS');
+      }
+
+      const po = amendment.purchaseOrder;
+      if (amendment.revision !== po.revision) {
+        throw new AppError(
+          `Amendment ${amendment.amendmentNumber} has been superseded by revision ${po.revision}`,
+          409,
+          'AMENDMENT_SUPERSEDED'
+        );
+      }
+
+      const acknowledgedAt = new Date();
+
+      const acknowledged = await prisma.$transaction(async (tx) => {
+        await tx.pOAmendment.updateMany({
+          where: {
+            purchaseOrderId: po.id,
+            status: POAmendmentStatus.ISSUED,
+            amendmentNumber: { lt: amendment.amendmentNumber }
+          },
+          data: { status: POAmendmentStatus.ACKNOWLEDGED, acknowledgedById: actor.vendorUserId, acknowledgedAt }
+        });
+
+        await tx.purchaseOrder.update({
+          where: { id: po.id },
+          data: {
+            status: po.status === 'SENT' ? 'ACKNOWLEDGED' : po.status,
+            acknowledgedAt,
+            acknowledgedById: actor.vendorUserId
+          }
+        });
+
+        return tx.pOAmendment.update({
+          where: { id: amendmentId },
+          data: {
+            status: POAmendmentStatus.ACKNOWLEDGED,
+            acknowledgedById: actor.vendorUserId,
+            acknowledgedAt,
+            vendorNotes: notes
+          }
+        });
+      });
+
+      await AuditService.log({
+        action: 'UPDATE',
+        resource: 'po_amendment',
+        resourceId: amendmentId,
+        oldValues: { status: amendment.status },
+        newValues: { status: POAmendmentStatus.ACKNOWLEDGED, revision: amendment.revision },
+        vesselId: po.vesselId,
+        metadata: {
+          source: 'VENDOR_PORTAL',
+          ...actor,
+          purchaseOrderId: po.id,
+          poNumber: po.poNumber
+        }
+      });
+
+      return acknowledged;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to acknowledge purchase order amendment', 500, 'PO_AMENDMENT_ACKNOWLEDGEMENT_FAILED');
+    }
+  }
+
+  /**
+   * Amendments raised against a PO, oldest first. Vendors only see issued amendments.
+   */
+  async getAmendments(purchaseOrderId: string, issuedOnly = false): Promise<POAmendment[]> {
+    try {
+      return await prisma.pOAmendment.findMany({
+        where: {
+          purchaseOrderId,
+          ...(issuedOnly ? { status: { in: [POAmendmentStatus.ISSUED, POAmendmentStatus.ACKNOWLEDGED] } } : {})
+        },
+        orderBy: { amendmentNumber: 'asc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get purchase order amendments', 500, 'PO_AMENDMENTS_FETCH_FAILED');
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Apply an amendment to the PO, store the new revision and ask the vendor to re-acknowledge
+   */
+  private async issueAmendment(
+    amendmentId: string,
+    userId: string,
+    review?: { reviewedById: string; reviewedAt: Date; reviewComments?: string }
+  ): Promise<POAmendment> {
+    const amendment = await prisma.pOAmendment.findUnique({ where: { id: amendmentId } });
+    if (!amendment) {
+      throw new AppError('Amendment not found', 404, 'PO_AMENDMENT_NOT_FOUND');
+    }
+
+    const po = await this.getPurchaseOrder(amendment.purchaseOrderId);
+
+    if (!AMENDABLE_PO_STATUSES.includes(po.status)) {
+      throw new AppError(`Cannot amend a purchase order in ${po.status} status`, 400, 'INVALID_PO_STATUS');
+    }
+
+    const diffs = (amendment.lineChanges as unknown as POAmendmentLineDiff[] | null) ?? [];
+
+    // Deliveries may have been received while the amendment waited for approval
+    for (const diff of diffs) {
+      if (diff.action === 'ADD') continue;
+      const line = po.lineItems.find(item => item.id === diff.poLineItemId);
+      if (!line) {
+        throw new AppError(`Line ${diff.itemDescription} is no longer on the purchase order`, 409, 'PO_LINE_CHANGED');
+      }
+      this.assertNotBelowReceived(line, diff.after?.quantity ?? 0);
+    }
+
+    // The first amendment also records the PO as originally issued
+    await this.storeRevision(po, po.revision, userId, 'Original purchase order', true);
+
+    const revision = po.revision + 1;
+
+    const { issued, updatedPO } = await prisma.$transaction(async (tx) => {
+      // Claim the amendment first so a concurrent approval cannot apply it to the PO a second time
+      const claimed = await tx.pOAmendment.updateMany({
+        where: { id: amendmentId, status: POAmendmentStatus.PENDING_APPROVAL },
+        data: {
+          status: POAmendmentStatus.ISSUED,
+          revision,
+          issuedAt: new Date(),
+          ...review
+        }
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError('Amendment is no longer awaiting approval', 409, 'INVALID_AMENDMENT_STATUS');
+      }
+
+      const appliedDiffs: POAmendmentLineDiff[] = [];
+
+      for (const diff of diffs) {
+        if (diff.action === 'ADD') {
+          const created = await tx.pOLineItem.create({
+            data: {
+              purchaseOrderId: po.id,
+              itemCatalogId: diff.itemCatalogId,
+              itemDescription: diff.itemDescription,
+              quantity: diff.after!.quantity,
+              unitPrice: diff.after!.unitPrice,
+              totalPrice: diff.after!.totalPrice,
+              currency: po.currency,
+              specifications: diff.after!.specifications
+            }
+          });
+          appliedDiffs.push({ ...diff, poLineItemId: created.id });
+          continue;
+        }
+
+        if (diff.action === 'REMOVE') {
+          await tx.pOLineItem.delete({ where: { id: diff.poLineItemId } });
+        } else {
+          await tx.pOLineItem.update({
+            where: { id: diff.poLineItemId },
+            data: {
+              quantity: diff.after!.quantity,
+              unitPrice: diff.after!.unitPrice,
+              totalPrice: diff.after!.totalPrice,
+              specifications: diff.after!.specifications
+            }
+          });
+        }
+        appliedDiffs.push(diff);
+      }
+
+      // The vendor must accept the new revision before it is considered agreed
+      const updatedPO = await tx.purchaseOrder.update({
+        where: { id: po.id },
+        data: {
+          revision,
+          totalAmount: amendment.newTotal,
+          deliveryDate: amendment.newDeliveryDate ?? po.deliveryDate,
+          acknowledgedAt: null,
+          acknowledgedById: null
+        },
+        include: { lineItems: true }
+      });
+
+      // Added lines now carry the ids they were created with
+      const issued = await tx.pOAmendment.update({
+        where: { id: amendmentId },
+        data: {
+          lineChanges: appliedDiffs.length > 0 ? (appliedDiffs as unknown as Prisma.InputJsonValue) : undefined
+        }
+      });
+
+      return { issued, updatedPO };
+    });
+
+    const version = await this.storeRevision(
+      { ...po, ...updatedPO },
+      revision,
+      userId,
+      `Amendment ${amendment.amendmentNumber}: ${amendment.reason}`
+    );
+
+    const result = version
+      ? await prisma.pOAmendment.update({ where: { id: amendmentId }, data: { documentVersionId: version.id } })
+      : issued;
+
+    await this.notifyVendor(po, issued, diffs);
+
+    await AuditService.log({
+      userId,
+      action: 'UPDATE',
+      resource: 'purchase_order',
+      resourceId: po.id,
+      oldValues: { revision: po.revision, totalAmount: po.totalAmount, deliveryDate: po.deliveryDate },
+      newValues: { revision, totalAmount: amendment.newTotal, deliveryDate: updatedPO.deliveryDate },
+      vesselId: po.vesselId,
+      metadata: {
+        poNumber: po.poNumber,
+        amendmentId,
+        amendmentNumber: amendment.amendmentNumber,
+        documentVersionId: version?.id
+      }
+    });
+
+    return result;
+  }
+
+  private buildLineDiffs(po: any, lineChanges: POAmendmentLineChange[]): POAmendmentLineDiff[] {
+    const linesById = new Map<string, any>(po.lineItems.map((line: any) => [line.id, line]));
+    const seen = new Set<string>();
+    let remainingLines = po.lineItems.length;
+    const diffs: POAmendmentLineDiff[] = [];
+
+    for (const change of lineChanges) {
+      if (change.quantity !== undefined && change.quantity <= 0) {
+        throw new AppError('Quantities must be positive', 400, 'INVALID_LINE_CHANGE');
+      }
+      if (change.unitPrice !== undefined && change.unitPrice < 0) {
+        throw new AppError('Unit prices cannot be negative', 400, 'INVALID_LINE_CHANGE');
+      }
+
+      if (change.action === 'ADD') {
+        if (!change.itemDescription || !change.quantity || change.unitPrice === undefined) {
+          throw new AppError('Added lines need a description, quantity and unit price', 400, 'INVALID_LINE_CHANGE');
+        }
+        const after = this.snapshot(change.quantity, change.unitPrice, change.specifications ?? null);
+        diffs.push({
+          action: 'ADD',
+          itemCatalogId: change.itemCatalogId ?? null,
+          itemDescription: change.itemDescription,
+          after,
+          valueChange: after.totalPrice
+        });
+        remainingLines++;
+        continue;
+      }
+
+      const line = change.poLineItemId ? linesById.get(change.poLineItemId) : undefined;
+      if (!line) {
+        throw new AppError(`Line ${change.poLineItemId} is not part of this purchase order`, 400, 'INVALID_LINE_CHANGE');
+      }
+      if (seen.has(line.id)) {
+        throw new AppError(`Line ${line.itemDescription} is changed more than once`, 400, 'INVALID_LINE_CHANGE');
+      }
+      seen.add(line.id);
+
+      const before = this.snapshot(line.quantity, line.unitPrice, line.specifications);
+
+      if (change.action === 'REMOVE') {
+        this.assertNotBelowReceived(line, 0);
+        diffs.push({
+          action: 'REMOVE',
+          poLineItemId: line.id,
+          itemCatalogId: line.itemCatalogId,
+          itemDescription: line.itemDescription,
+          before,
+          valueChange: -before.totalPrice
+        });
+        remainingLines--;
+        continue;
+      }
+
+      const after = this.snapshot(
+        change.quantity ?? line.quantity,
+        change.unitPrice ?? line.unitPrice,
+        change.specifications ?? line.specifications
+      );
+      this.assertNotBelowReceived(line, after.quantity);
+
+      diffs.push({
+        action: 'UPDATE',
+        poLineItemId: line.id,
+        itemCatalogId: line.itemCatalogId,
+        itemDescription: line.itemDescription,
+        before,
+        after,
+        valueChange: round(after.totalPrice - before.totalPrice)
+      });
+    }
+
+    if (remainingLines <= 0) {
+      throw new AppError('An amendment cannot remove every line item', 400, 'INVALID_LINE_CHANGE');
+    }
+
+    return diffs;
+  }
+
+  private snapshot(quantity: number, unitPrice: number, specifications: string | null): POLineSnapshot {
+    return { quantity, unitPrice, totalPrice: round(quantity * unitPrice), specifications };
+  }
+
+  private assertNotBelowReceived(line: any, quantity: number): void {
+    const received = (line.deliveryLines || []).reduce((sum: number, delivery: any) => sum + delivery.receivedQuantity, 0);
+    if (quantity < received) {
+      throw new AppError(
+        `${line.itemDescription}: ${received} already received, cannot reduce the order to ${quantity}`,
+        400,
+        'QUANTITY_BELOW_RECEIVED'
+      );
+    }
+  }
+
+  private requiresApproval(previousTotal: number, newTotal: number, exchangeRate: number): boolean {
+    const increase = newTotal - previousTotal;
+    if (increase <= 0) {
+      return false;
+    }
+
+    return increase * exchangeRate >= REAPPROVAL_THRESHOLD ||
+      (previousTotal > 0 && (increase / previousTotal) * 100 >= REAPPROVAL_PERCENT);
+  }
+
+  /**
+   * Store a revision of the PO as a document version. Version numbers follow PO revisions.
+   * A failure is logged rather than undoing an amendment the vendor has already been sent.
+   */
+  private async storeRevision(po: any, revision: number, userId: string, changeDescription: string, baselineOnly = false) {
+    const documentId = `purchase_order:${po.id}`;
+
+    try {
+      if (baselineOnly && await DocumentVersionService.getLatestVersion(documentId)) {
+        return null;
+      }
+
+      const content = JSON.stringify({
+        poNumber: po.poNumber,
+        revision,
+        vendorId: po.vendorId,
+        vesselId: po.vesselId,
+        currency: po.currency,
+        totalAmount: po.totalAmount,
+        deliveryDate: po.deliveryDate,
+        deliveryAddress: po.deliveryAddress,
+        paymentTerms: po.paymentTerms,
+        deliveryTerms: po.deliveryTerms,
+        lineItems: po.lineItems.map((line: any) => ({
+          id: line.id,
+          itemCatalogId: line.itemCatalogId,
+          itemDescription: line.itemDescription,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          totalPrice: line.totalPrice,
+          specifications: line.specifications
+        }))
+      });
+
+      return await DocumentVersionService.createDocumentVersion({
+        documentId,
+        title: `Purchase Order ${po.poNumber} Rev ${revision}`,
+        content,
+        mimeType: 'application/json',
+        checksum: createHash('sha256').update(content).digest('hex'),
+        createdBy: userId,
+        changeDescription,
+        tags: ['purchase_order'],
+        metadata: { purchaseOrderId: po.id, revision }
+      });
+    } catch (error) {
+      logger.warn(`Revision ${revision} of purchase order ${po.poNumber} could not be versioned:`, error);
+      return null;
+    }
+  }
+
+  private async notifyVendor(po: any, amendment: POAmendment, diffs: POAmendmentLineDiff[]): Promise<void> {
+    const vendor = po.vendor;
+    const to = vendor.contactEmail || vendor.email;
+    if (!to) {
+      return;
+    }
+
+    const lines = diffs.map(diff => {
+      if (diff.action === 'ADD') return `Added: ${diff.itemDescription} - ${diff.after!.quantity} x ${diff.after!.unitPrice}`;
+      if (diff.action === 'REMOVE') return `Removed: ${diff.itemDescription}`;
+      return `Changed: ${diff.itemDescription} - ${diff.before!.quantity} x ${diff.before!.unitPrice} to ${diff.after!.quantity} x ${diff.after!.unitPrice}`;
+    });
+
+    try {
+      await emailService.sendEmail({
+        to,
+        subject: `Purchase Order ${po.poNumber} amended (revision ${amendment.revision})`,
+        body: [
+          `Dear ${vendor.contactPersonName || vendor.name},`,
+          `Purchase order ${po.poNumber} has been amended to revision ${amendment.revision}.`,
+          `Reason: ${amendment.reason}`,
+          lines.join('\n'),
+          amendment.newDeliveryDate ? `Required delivery date: ${amendment.newDeliveryDate.toDateString()}` : '',
+          `Revised total: ${po.currency} ${amendment.newTotal.toFixed(2)}`,
+          'Please review and acknowledge the revised order in the FlowMarine vendor portal.'
+        ].filter(Boolean).join('\n\n'),
+        type: 'po_amendment'
+      });
+    } catch (error) {
+      logger.warn(`Amendment notification to vendor ${vendor.id} failed for ${po.poNumber}:`, error);
+    }
+  }
+
+  private async getPurchaseOrder(purchaseOrderId: string) {
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: {
+        vendor: true,
+        lineItems: { include: { deliveryLines: true } }
+      }
+    });
+
+    if (!po) {
+      throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+    }
+
+    return po;
+  }
+
+  private async getPendingAmendment(amendmentId: string) {
+    const amendment = await prisma.pOAmendment.findUnique({
+      where: { id: amendmentId },
+      include: { purchaseOrder: { select: { poNumber: true, vesselId: true } } }
+    });
+
+    if (!amendment) {
+      throw new AppError('Amendment not found', 404, 'PO_AMENDMENT_NOT_FOUND');
+    }
+
+    if (amendment.status !== POAmendmentStatus.PENDING_APPROVAL) {
+      throw new AppError(`Amendment is ${amendment.status.toLowerCase()}, not awaiting approval`, 400, 'INVALID_AMENDMENT_STATUS');
+    }
+
+    return amendment;
+  }
+}
+
+export const poAmendmentService = new POAmendmentService();
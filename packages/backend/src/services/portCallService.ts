@@ -0,0 +1,781 @@
+import { PrismaClient, PortCall, PortCallSource, PortCallStatus, Prisma } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { extractPortCode } from '../utils/portCode';
+import { logger } from '../utils/logger';
+import { AuditService } from './auditService';
+import { aisGpsIntegrationService, VesselPosition } from './aisGpsIntegrationService';
+import { portDatabaseIntegrationService, PortRestriction } from './portDatabaseIntegrationService';
+import { dangerousGoodsService } from './dangerousGoodsService';
+
+const prisma = new PrismaClient();
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A vessel this close to the port and barely moving is taken to have arrived
+const ARRIVAL_RADIUS_NM = 5;
+const ALONGSIDE_SPEED_KNOTS = 1;
+
+// Below this speed an AIS position says nothing useful about the ETA
+const MIN_TRANSIT_SPEED_KNOTS = 3;
+
+// AIS estimates closer than this to the recorded ETA leave it alone
+const ETA_REVISION_THRESHOLD_HOURS = 6;
+
+// Deliveries may be planned this far either side of the vessel's time in port
+const DELIVERY_GRACE_HOURS = 12;
+
+const POSITION_SYNC_INTERVAL_MS = HOUR_MS;
+
+const OPEN_PORT_CALL_STATUSES: PortCallStatus[] = ['PLANNED', 'ARRIVED'];
+const OPEN_DELIVERY_STATUSES = ['SCHEDULED', 'IN_TRANSIT', 'DELAYED'] as const;
+const OPEN_RFQ_STATUSES = ['DRAFT', 'SENT', 'RESPONSES_RECEIVED', 'INSUFFICIENT_RESPONSES', 'EVALUATED'] as const;
+
+export interface PortCallData {
+  portCode: string;
+  portName?: string;
+  eta?: Date;
+  etd?: Date;
+  berthWindowStart?: Date;
+  berthWindowEnd?: Date;
+  latitude?: number;
+  longitude?: number;
+  notes?: string;
+}
+
+export interface PortCallUpdateData extends Partial<PortCallData> {
+  status?: PortCallStatus;
+  ata?: Date;
+  atd?: Date;
+}
+
+export interface VoyageScheduleUpdate {
+  departure?: string;
+  destination?: string;
+  eta?: Date;
+}
+
+export interface PortCallSuggestionRequest {
+  vesselId: string;
+  vendorIds: string[];
+  leadTimeDays: number;
+  readyFrom?: Date;   // When the lead time starts counting; defaults to now
+  requiredBy?: Date;  // When the goods are needed on board
+  imdgClasses?: string[]; // Dangerous goods classes in the shipment
+}
+
+export interface PortCallSuggestion {
+  portCall: PortCall;
+  coveringVendorIds: string[];
+  earliestReadyDate: Date;
+  plannedDeliveryDate: Date;
+  feasible: boolean;
+  meetsRequiredBy: boolean;
+  slackDays: number;
+  portRestrictions: PortRestriction[];
+  reasons: string[];
+}
+
+export interface PortCallSuggestionResult {
+  recommended: PortCallSuggestion | null;
+  candidates: PortCallSuggestion[];
+}
+
+export interface DeliveryEtaWarning {
+  type: 'DELIVERY' | 'RFQ';
+  id: string;
+  reference: string;
+  portCallId: string;
+  portCode: string;
+  plannedDate: Date | null;
+  windowStart: Date | null;
+  windowEnd: Date | null;
+  message: string;
+}
+
+export interface PortCallUpdateResult {
+  portCall: PortCall;
+  warnings: DeliveryEtaWarning[];
+}
+
+export interface PositionSyncResult {
+  vesselId: string;
+  position: VesselPosition | null;
+  portCallId?: string;
+  action: 'NONE' | 'ARRIVED' | 'DEPARTED' | 'ETA_REVISED';
+  warnings: DeliveryEtaWarning[];
+}
+
+class PortCallService {
+  /**
+   * Get a vessel's voyage schedule, next call first
+   */
+  async getSchedule(vesselId: string, includeCompleted = false): Promise<PortCall[]> {
+    try {
+      return await prisma.portCall.findMany({
+        where: {
+          vesselId,
+          ...(!includeCompleted && { status: { in: OPEN_PORT_CALL_STATUSES } })
+        },
+        include: {
+          _count: { select: { deliveries: true, rfqs: true } }
+        },
+        orderBy: [{ eta: 'asc' }, { createdAt: 'asc' }]
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to fetch port call schedule', 500, 'PORT_CALL_SCHEDULE_FAILED');
+    }
+  }
+
+  /**
+   * Add a call to a vessel's voyage schedule
+   */
+  async createPortCall(
+    vesselId: string,
+    data: PortCallData,
+    userId?: string,
+    source: PortCallSource = 'MANUAL'
+  ): Promise<PortCall> {
+    try {
+      const vessel = await prisma.vessel.findUnique({ where: { id: vesselId } });
+      if (!vessel) {
+        throw new AppError('Vessel not found', 404, 'VESSEL_NOT_FOUND');
+      }
+
+      const portCode = this.normalisePortCode(data.portCode);
+      this.validateWindow(data);
+
+      const position = data.latitude !== undefined && data.longitude !== undefined
+        ? { latitude: data.latitude, longitude: data.longitude }
+        : await this.resolvePortPosition(portCode);
+
+      const portCall = await prisma.portCall.create({
+        data: {
+          vesselId,
+          portCode,
+          portName: data.portName || portCode,
+          source,
+          eta: data.eta,
+          etd: data.etd,
+          berthWindowStart: data.berthWindowStart,
+          berthWindowEnd: data.berthWindowEnd,
+          latitude: position?.latitude,
+          longitude: position?.longitude,
+          notes: data.notes
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'port_call',
+        resourceId: portCall.id,
+        newValues: portCall,
+        vesselId,
+        metadata: { source }
+      });
+
+      return portCall;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create port call', 500, 'PORT_CALL_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Update a port call. A revised ETA or window re-checks the deliveries and RFQs planned against it.
+   */
+  async updatePortCall(
+    portCallId: string,
+    data: PortCallUpdateData,
+    userId?: string,
+    source: PortCallSource = 'MANUAL'
+  ): Promise<PortCallUpdateResult> {
+    try {
+      const existing = await prisma.portCall.findUnique({ where: { id: portCallId } });
+      if (!existing) {
+        throw new AppError('Port call not found', 404, 'PORT_CALL_NOT_FOUND');
+      }
+
+      if (existing.status === 'DEPARTED' || existing.status === 'CANCELLED') {
+        throw new AppError(`Port call is ${existing.status.toLowerCase()} and can no longer be changed`, 400, 'PORT_CALL_CLOSED');
+      }
+
+      const etaRevised = data.eta !== undefined && !this.sameTime(data.eta, existing.eta);
+
+      // A revised ETA carries the planned departure with it, keeping the same time in port
+      const etd = data.etd ?? (etaRevised && existing.eta && existing.etd
+        ? new Date(existing.etd.getTime() + data.eta!.getTime() - existing.eta.getTime())
+        : undefined);
+
+      this.validateWindow({
+        eta: data.eta ?? existing.eta ?? undefined,
+        etd: etd ?? existing.etd ?? undefined,
+        berthWindowStart: data.berthWindowStart ?? existing.berthWindowStart ?? undefined,
+        berthWindowEnd: data.berthWindowEnd ?? existing.berthWindowEnd ?? undefined
+      });
+
+      const windowChanged = etaRevised ||
+        (etd !== undefined && !this.sameTime(etd, existing.etd)) ||
+        (data.berthWindowStart !== undefined && !this.sameTime(data.berthWindowStart, existing.berthWindowStart)) ||
+        (data.berthWindowEnd !== undefined && !this.sameTime(data.berthWindowEnd, existing.berthWindowEnd));
+
+      const portCall = await prisma.portCall.update({
+        where: { id: portCallId },
+        data: {
+          ...(data.portCode && { portCode: this.normalisePortCode(data.portCode) }),
+          portName: data.portName,
+          status: data.status,
+          eta: data.eta,
+          etd,
+          berthWindowStart: data.berthWindowStart,
+          berthWindowEnd: data.berthWindowEnd,
+          ata: data.ata,
+          atd: data.atd,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          notes: data.notes,
+          ...(etaRevised && {
+            previousEta: existing.eta,
+            etaRevisedAt: new Date(),
+            source
+          })
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'port_call',
+        resourceId: portCallId,
+        oldValues: existing,
+        newValues: data,
+        vesselId: existing.vesselId,
+        metadata: { source, etaRevised }
+      });
+
+      const warnings = windowChanged || data.status === 'CANCELLED'
+        ? await this.getEtaWarnings({ portCallId })
+        : [];
+
+      if (warnings.length > 0) {
+        logger.warn(`Port call ${portCall.portCode} (${portCallId}) revised; ${warnings.length} planned deliveries no longer match`);
+      }
+
+      return { portCall, warnings };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update port call', 500, 'PORT_CALL_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Cancel a port call, e.g. when the vessel is re-routed
+   */
+  async cancelPortCall(portCallId: string, userId: string, reason?: string): Promise<PortCallUpdateResult> {
+    return this.updatePortCall(portCallId, {
+      status: 'CANCELLED',
+      ...(reason && { notes: reason })
+    }, userId);
+  }
+
+  /**
+   * Bring the schedule in line with the vessel's current voyage (departure and next destination)
+   */
+  async syncFromVoyage(vesselId: string, voyage: VoyageScheduleUpdate, userId?: string): Promise<DeliveryEtaWarning[]> {
+    try {
+      const departureCode = extractPortCode(voyage.departure);
+      if (departureCode) {
+        const departedCall = await prisma.portCall.findFirst({
+          where: { vesselId, portCode: departureCode, status: { in: OPEN_PORT_CALL_STATUSES } },
+          orderBy: { eta: 'asc' }
+        });
+
+        if (departedCall) {
+          await this.updatePortCall(departedCall.id, { status: 'DEPARTED', atd: new Date() }, userId, 'VOYAGE_UPDATE');
+        }
+      }
+
+      const destinationCode = extractPortCode(voyage.destination);
+      if (!destinationCode) {
+        return [];
+      }
+
+      const nextCall = await prisma.portCall.findFirst({
+        where: { vesselId, portCode: destinationCode, status: { in: OPEN_PORT_CALL_STATUSES } },
+        orderBy: { eta: 'asc' }
+      });
+
+      if (!nextCall) {
+        await this.createPortCall(vesselId, {
+          portCode: destinationCode,
+          portName: this.extractPortName(voyage.destination!, destinationCode),
+          eta: voyage.eta
+        }, userId, 'VOYAGE_UPDATE');
+        return [];
+      }
+
+      if (!voyage.eta) {
+        return [];
+      }
+
+      const { warnings } = await this.updatePortCall(nextCall.id, { eta: voyage.eta }, userId, 'VOYAGE_UPDATE');
+      return warnings;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update port call schedule from voyage', 500, 'PORT_CALL_VOYAGE_SYNC_FAILED');
+    }
+  }
+
+  /**
+   * Detect arrival and departure, and re-estimate the ETA to the next call, from the best available position
+   */
+  async syncFromPosition(vesselId: string): Promise<PositionSyncResult> {
+    try {
+      const vessel = await prisma.vessel.findUnique({
+        where: { id: vesselId },
+        select: { id: true, imoNumber: true }
+      });
+
+      if (!vessel) {
+        throw new AppError('Vessel not found', 404, 'VESSEL_NOT_FOUND');
+      }
+
+      const position = await aisGpsIntegrationService.getBestAvailablePosition(vessel.id, vessel.imoNumber);
+      if (!position || !aisGpsIntegrationService.validatePositionData(position)) {
+        return { vesselId, position: null, action: 'NONE', warnings: [] };
+      }
+
+      const openCalls = await prisma.portCall.findMany({
+        where: { vesselId, status: { in: OPEN_PORT_CALL_STATUSES } },
+        orderBy: [{ eta: 'asc' }, { createdAt: 'asc' }]
+      });
+
+      // A call the vessel is alongside at takes precedence over the next planned one
+      const currentCall = openCalls.find(call => call.status === 'ARRIVED') || openCalls[0];
+      if (!currentCall || currentCall.latitude === null || currentCall.longitude === null) {
+        return { vesselId, position, action: 'NONE', warnings: [] };
+      }
+
+      const distance = aisGpsIntegrationService.calculateDistance(position, {
+        ...position,
+        latitude: currentCall.latitude,
+        longitude: currentCall.longitude
+      });
+
+      if (currentCall.status === 'ARRIVED') {
+        if (distance <= ARRIVAL_RADIUS_NM) {
+          return { vesselId, position, portCallId: currentCall.id, action: 'NONE', warnings: [] };
+        }
+
+        await this.updatePortCall(currentCall.id, { status: 'DEPARTED', atd: position.timestamp }, undefined, 'AIS');
+        return { vesselId, position, portCallId: currentCall.id, action: 'DEPARTED', warnings: [] };
+      }
+
+      if (distance <= ARRIVAL_RADIUS_NM && position.speed <= ALONGSIDE_SPEED_KNOTS) {
+        await this.updatePortCall(currentCall.id, { status: 'ARRIVED', ata: position.timestamp }, undefined, 'AIS');
+        return { vesselId, position, portCallId: currentCall.id, action: 'ARRIVED', warnings: [] };
+      }
+
+      if (position.speed < MIN_TRANSIT_SPEED_KNOTS) {
+        return { vesselId, position, portCallId: currentCall.id, action: 'NONE', warnings: [] };
+      }
+
+      const estimatedEta = new Date(position.timestamp.getTime() + (distance / position.speed) * HOUR_MS);
+      const drift = currentCall.eta
+        ? Math.abs(estimatedEta.getTime() - currentCall.eta.getTime())
+        : Infinity;
+
+      if (drift < ETA_REVISION_THRESHOLD_HOURS * HOUR_MS) {
+        return { vesselId, position, portCallId: currentCall.id, action: 'NONE', warnings: [] };
+      }
+
+      const { warnings } = await this.updatePortCall(currentCall.id, { eta: estimatedEta }, undefined, 'AIS');
+      return { vesselId, position, portCallId: currentCall.id, action: 'ETA_REVISED', warnings };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update port call schedule from vessel position', 500, 'PORT_CALL_POSITION_SYNC_FAILED');
+    }
+  }
+
+  /**
+   * Re-check the schedule of every active vessel with open port calls against its position
+   */
+  async syncAllPositions(): Promise<{ synced: number; revised: number; failed: number }> {
+    const vessels = await prisma.vessel.findMany({
+      where: {
+        isActive: true,
+        portCalls: { some: { status: { in: OPEN_PORT_CALL_STATUSES } } }
+      },
+      select: { id: true }
+    });
+
+    const result = { synced: 0, revised: 0, failed: 0 };
+
+    for (const vessel of vessels) {
+      try {
+        const sync = await this.syncFromPosition(vessel.id);
+        result.synced++;
+        if (sync.action !== 'NONE') {
+          result.revised++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error(`Port call position sync failed for vessel ${vessel.id}:`, error);
+      }
+    }
+
+    if (result.revised || result.failed) {
+      logger.info(`Port call position sync: ${result.synced} vessels checked, ${result.revised} schedules updated, ${result.failed} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run position sync on a fixed interval
+   */
+  schedulePositionSync(): void {
+    setInterval(async () => {
+      try {
+        await this.syncAllPositions();
+      } catch (error) {
+        logger.error('Port call position sync failed:', error);
+      }
+    }, POSITION_SYNC_INTERVAL_MS);
+
+    logger.info('Port call position sync scheduled');
+  }
+
+  /**
+   * Rank the vessel's upcoming calls for a delivery: a vendor must serve the port and have the
+   * goods ready before the vessel sails. Earlier feasible calls rank first.
+   */
+  async suggestPortCall(request: PortCallSuggestionRequest, now: Date = new Date()): Promise<PortCallSuggestionResult> {
+    try {
+      const calls = await prisma.portCall.findMany({
+        where: {
+          vesselId: request.vesselId,
+          status: 'PLANNED',
+          OR: [
+            { eta: { gte: now } },
+            { etd: { gte: now } },
+            { berthWindowEnd: { gte: now } }
+          ]
+        },
+        orderBy: [{ eta: 'asc' }, { createdAt: 'asc' }]
+      });
+
+      if (calls.length === 0) {
+        return { recommended: null, candidates: [] };
+      }
+
+      const capabilities = await prisma.vendorPortCapability.findMany({
+        where: {
+          portCode: { in: [...new Set(calls.map(call => call.portCode))] },
+          ...(request.vendorIds.length > 0 && { vendorId: { in: request.vendorIds } })
+        },
+        select: { vendorId: true, portCode: true, capabilities: true }
+      });
+
+      const readyFrom = request.readyFrom && request.readyFrom > now ? request.readyFrom : now;
+      const earliestReadyDate = new Date(readyFrom.getTime() + Math.max(request.leadTimeDays, 0) * DAY_MS);
+
+      // Ports that refuse the dangerous goods in the shipment; unknown restrictions do not rule a call out
+      const restrictionsByCall = new Map<string, PortRestriction[]>();
+      if (request.imdgClasses && request.imdgClasses.length > 0) {
+        for (const call of calls.filter(call => this.windowEnd(call))) {
+          const restrictions = await dangerousGoodsService.getPortRestrictions(call.portCode, this.windowStart(call)!, request.imdgClasses);
+          restrictionsByCall.set(call.id, restrictions || []);
+        }
+      }
+
+      const candidates = calls
+        .filter(call => this.windowEnd(call))
+        .map(call => {
+          const windowStart = this.windowStart(call)!;
+          const windowEnd = this.windowEnd(call)!;
+          const coveringVendorIds = [...new Set(capabilities
+            .filter(capability => capability.portCode === call.portCode &&
+              capability.capabilities.some(value => value.toLowerCase() === 'delivery'))
+            .map(capability => capability.vendorId))];
+
+          const feasible = earliestReadyDate <= windowEnd;
+          const plannedDeliveryDate = earliestReadyDate > windowStart ? earliestReadyDate : windowStart;
+          const meetsRequiredBy = !request.requiredBy || plannedDeliveryDate <= request.requiredBy;
+          const portRestrictions = restrictionsByCall.get(call.id) || [];
+
+          const reasons: string[] = [];
+          if (coveringVendorIds.length === 0) {
+            reasons.push(`No vendor delivers to ${call.portName} (${call.portCode})`);
+          }
+          if (!feasible) {
+            reasons.push(`Goods ready ${earliestReadyDate.toISOString().split('T')[0]}, after the vessel sails`);
+          }
+          if (!meetsRequiredBy) {
+            reasons.push(`Delivery on ${plannedDeliveryDate.toISOString().split('T')[0]} is later than required`);
+          }
+          portRestrictions.forEach(restriction => {
+            reasons.push(`${call.portName} (${call.portCode}) restricts dangerous goods: ${restriction.description}`);
+          });
+
+          return {
+            portCall: call,
+            coveringVendorIds,
+            earliestReadyDate,
+            plannedDeliveryDate,
+            feasible,
+            meetsRequiredBy,
+            slackDays: Math.floor((windowEnd.getTime() - earliestReadyDate.getTime()) / DAY_MS),
+            portRestrictions,
+            reasons
+          };
+        });
+
+      const eligible = (suggestion: PortCallSuggestion) =>
+        suggestion.feasible && suggestion.coveringVendorIds.length > 0 && suggestion.portRestrictions.length === 0;
+
+      candidates.sort((a, b) =>
+        Number(eligible(b)) - Number(eligible(a)) ||
+        Number(b.meetsRequiredBy) - Number(a.meetsRequiredBy) ||
+        a.plannedDeliveryDate.getTime() - b.plannedDeliveryDate.getTime() ||
+        b.coveringVendorIds.length - a.coveringVendorIds.length
+      );
+
+      return {
+        recommended: candidates.find(eligible) || null,
+        candidates
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to suggest port call', 500, 'PORT_CALL_SUGGESTION_FAILED');
+    }
+  }
+
+  /**
+   * Suggest the call to deliver a purchase order to, from its vendor and the longest line lead time
+   */
+  async suggestForPurchaseOrder(purchaseOrderId: string, now: Date = new Date()): Promise<PortCallSuggestionResult> {
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: {
+        lineItems: { include: { itemCatalog: { select: { leadTime: true, imdgClass: true, subsidiaryRisks: true } } } }
+      }
+    });
+
+    if (!po) {
+      throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+    }
+
+    return this.suggestPortCall({
+      vesselId: po.vesselId,
+      vendorIds: [po.vendorId],
+      leadTimeDays: Math.max(0, ...po.lineItems.map(line => line.itemCatalog?.leadTime ?? 0)),
+      readyFrom: po.createdAt,
+      imdgClasses: this.imdgClassesOf(po.lineItems)
+    }, now);
+  }
+
+  /**
+   * Suggest the call to quote delivery to when raising an RFQ for a requisition
+   */
+  async suggestForRequisition(requisitionId: string, vendorIds: string[] = [], now: Date = new Date()): Promise<PortCallSuggestionResult> {
+    const requisition = await prisma.requisition.findUnique({
+      where: { id: requisitionId },
+      include: {
+        items: { include: { itemCatalog: { select: { leadTime: true, imdgClass: true, subsidiaryRisks: true } } } }
+      }
+    });
+
+    if (!requisition) {
+      throw new AppError('Requisition not found', 404, 'REQUISITION_NOT_FOUND');
+    }
+
+    return this.suggestPortCall({
+      vesselId: requisition.vesselId,
+      vendorIds,
+      leadTimeDays: Math.max(0, ...requisition.items.map(item => item.itemCatalog?.leadTime ?? 0)),
+      requiredBy: requisition.deliveryDate ?? undefined,
+      imdgClasses: this.imdgClassesOf(requisition.items)
+    }, now);
+  }
+
+  /**
+   * Load a port call a delivery or RFQ is being planned against and check it belongs to the vessel
+   */
+  async getOpenPortCallForVessel(portCallId: string, vesselId: string): Promise<PortCall> {
+    const portCall = await prisma.portCall.findUnique({ where: { id: portCallId } });
+
+    if (!portCall) {
+      throw new AppError('Port call not found', 404, 'PORT_CALL_NOT_FOUND');
+    }
+
+    if (portCall.vesselId !== vesselId) {
+      throw new AppError('Port call belongs to a different vessel', 400, 'PORT_CALL_VESSEL_MISMATCH');
+    }
+
+    if (!OPEN_PORT_CALL_STATUSES.includes(portCall.status)) {
+      throw new AppError(`Port call is ${portCall.status.toLowerCase()}`, 400, 'PORT_CALL_CLOSED');
+    }
+
+    return portCall;
+  }
+
+  /**
+   * Open deliveries and RFQs whose planned date no longer falls within their port call
+   */
+  async getEtaWarnings(filter: { vesselId?: string; portCallId?: string }): Promise<DeliveryEtaWarning[]> {
+    try {
+      const portCallWhere: Prisma.PortCallWhereInput = {
+        ...(filter.portCallId && { id: filter.portCallId }),
+        ...(filter.vesselId && { vesselId: filter.vesselId })
+      };
+
+      const [deliveries, rfqs] = await Promise.all([
+        prisma.delivery.findMany({
+          where: {
+            status: { in: [...OPEN_DELIVERY_STATUSES] },
+            portCall: { is: portCallWhere }
+          },
+          include: { portCall: true }
+        }),
+        prisma.rFQ.findMany({
+          where: {
+            status: { in: [...OPEN_RFQ_STATUSES] },
+            portCall: { is: portCallWhere }
+          },
+          include: { portCall: true }
+        })
+      ]);
+
+      const warnings: DeliveryEtaWarning[] = [];
+
+      for (const delivery of deliveries) {
+        const warning = this.checkPlannedDate(delivery.portCall!, delivery.scheduledDate);
+        if (warning) {
+          warnings.push({
+            type: 'DELIVERY',
+            id: delivery.id,
+            reference: delivery.deliveryNumber,
+            ...warning,
+            message: `Delivery ${delivery.deliveryNumber}: ${warning.message}`
+          });
+        }
+      }
+
+      for (const rfq of rfqs) {
+        const warning = this.checkPlannedDate(rfq.portCall!, rfq.deliveryDate);
+        if (warning) {
+          warnings.push({
+            type: 'RFQ',
+            id: rfq.id,
+            reference: rfq.rfqNumber,
+            ...warning,
+            message: `RFQ ${rfq.rfqNumber}: ${warning.message}`
+          });
+        }
+      }
+
+      return warnings;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to check deliveries against port call ETAs', 500, 'PORT_CALL_ETA_CHECK_FAILED');
+    }
+  }
+
+  /**
+   * Earliest moment a delivery can meet the vessel at the call
+   */
+  windowStart(call: Pick<PortCall, 'berthWindowStart' | 'eta'>): Date | null {
+    return call.berthWindowStart ?? call.eta;
+  }
+
+  /**
+   * Latest moment a delivery can meet the vessel at the call
+   */
+  windowEnd(call: Pick<PortCall, 'berthWindowEnd' | 'etd' | 'eta'>): Date | null {
+    return call.berthWindowEnd ?? call.etd ?? call.eta;
+  }
+
+  // Private helper methods
+
+  private imdgClassesOf(lines: { itemCatalog: { imdgClass: string | null; subsidiaryRisks: string[] } | null }[]): string[] {
+    return [...new Set(lines.flatMap(line => line.itemCatalog?.imdgClass
+      ? [line.itemCatalog.imdgClass, ...line.itemCatalog.subsidiaryRisks]
+      : []))];
+  }
+
+  private checkPlannedDate(
+    call: PortCall,
+    plannedDate: Date | null
+  ): Omit<DeliveryEtaWarning, 'type' | 'id' | 'reference'> | null {
+    const windowStart = this.windowStart(call);
+    const windowEnd = this.windowEnd(call);
+    const base = { portCallId: call.id, portCode: call.portCode, plannedDate, windowStart, windowEnd };
+
+    if (call.status === 'CANCELLED') {
+      return { ...base, message: `port call at ${call.portName} has been cancelled` };
+    }
+
+    if (!plannedDate || !windowStart || !windowEnd) {
+      return null;
+    }
+
+    const grace = DELIVERY_GRACE_HOURS * HOUR_MS;
+    if (plannedDate.getTime() < windowStart.getTime() - grace) {
+      return {
+        ...base,
+        message: `planned for ${plannedDate.toISOString()} but the vessel is now due at ${call.portName} from ${windowStart.toISOString()}`
+      };
+    }
+
+    if (plannedDate.getTime() > windowEnd.getTime() + grace) {
+      return {
+        ...base,
+        message: `planned for ${plannedDate.toISOString()} but the vessel now leaves ${call.portName} by ${windowEnd.toISOString()}`
+      };
+    }
+
+    return null;
+  }
+
+  private validateWindow(data: Pick<PortCallData, 'eta' | 'etd' | 'berthWindowStart' | 'berthWindowEnd'>): void {
+    if (data.eta && data.etd && data.etd < data.eta) {
+      throw new AppError('ETD cannot be before ETA', 400, 'INVALID_PORT_CALL_WINDOW');
+    }
+
+    if (data.berthWindowStart && data.berthWindowEnd && data.berthWindowEnd < data.berthWindowStart) {
+      throw new AppError('Berth window cannot end before it starts', 400, 'INVALID_PORT_CALL_WINDOW');
+    }
+  }
+
+  private async resolvePortPosition(portCode: string): Promise<{ latitude: number; longitude: number } | null> {
+    try {
+      const port = await portDatabaseIntegrationService.getPortDetails(portCode);
+      return port ? port.coordinates : null;
+    } catch (error) {
+      logger.warn(`Port position unavailable for ${portCode}:`, error);
+      return null;
+    }
+  }
+
+  private normalisePortCode(portCode: string): string {
+    const code = portCode?.trim().toUpperCase();
+    if (!code || !/^[A-Z]{2}[A-Z0-9]{3}$/.test(code)) {
+      throw new AppError('Port code must be a UN/LOCODE, e.g. NLRTM', 400, 'INVALID_PORT_CODE');
+    }
+    return code;
+  }
+
+  private extractPortName(location: string, portCode: string): string {
+    const name = location.replace(portCode, '').replace(/[(),]/g, ' ').replace(/\s+/g, ' ').trim();
+    return name || portCode;
+  }
+
+  private sameTime(a: Date | null | undefined, b: Date | null | undefined): boolean {
+    return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+  }
+}
+
+export const portCallService = new PortCallService();
@@ -45,6 +45,7 @@ export interface PortRestriction {
   applicableVesselTypes: string[];
   effectiveDate: Date;
   expiryDate?: Date;
+  imdgClasses?: string[]; // Dangerous goods classes the restriction covers; empty covers all
 }
 
 export interface PortContact {
@@ -411,7 +412,8 @@ class PortDatabaseIntegrationService {
         description: r.description,
         applicableVesselTypes: r.applicable_vessel_types || [],
         effectiveDate: new Date(r.effective_date),
-        expiryDate: r.expiry_date ? new Date(r.expiry_date) : undefined
+        expiryDate: r.expiry_date ? new Date(r.expiry_date) : undefined,
+        imdgClasses: r.imdg_classes || []
       })) || [],
       contacts: data.contacts?.map((c: any) => this.mapContactData(c)) || [],
       operatingHours: {
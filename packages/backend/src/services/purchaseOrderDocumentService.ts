@@ -0,0 +1,363 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { renderPDF, DEFAULT_PDF_PAGE_SETTINGS, FLOWMARINE_PDF_STYLING } from '../utils/pdf';
+import { AuditService } from './auditService';
+import { DocumentVersionService } from './documentVersionService';
+
+const prisma = new PrismaClient();
+
+// Prefix of the seal written into the PDF keywords: <prefix>:<poId>:<revision>:<contentHash>:<signature>
+const SEAL_PREFIX = 'flowmarine-po-seal';
+const SEAL_PATTERN = new RegExp(`${SEAL_PREFIX}:([^:()\\s]+):(\\d+):([0-9a-f]{64}):([0-9a-f]{64})`);
+
+export interface PurchaseOrderDocument {
+  fileName: string;
+  pdf: Buffer;
+  revision: number;
+  contentHash: string;
+  signature: string;
+  issuedAt: Date;
+}
+
+export type DocumentVerificationStatus = 'VERIFIED' | 'ALTERED' | 'UNRECOGNISED';
+
+export interface DocumentVerificationResult {
+  status: DocumentVerificationStatus;
+  purchaseOrderId: string;
+  revision: number | null;
+  currentRevision: number;
+  superseded: boolean;
+  contentHash: string | null;
+  issuedAt: Date | null;
+}
+
+class PurchaseOrderDocumentService {
+  /**
+   * Signed PDF of the PO's current revision. Each revision is rendered once and kept
+   * through DocumentVersionService, so every copy handed to the vendor is byte-identical
+   * and can be checked against the stored checksum.
+   */
+  async getDocument(purchaseOrderId: string, userId?: string): Promise<PurchaseOrderDocument> {
+    try {
+      const po = await this.getPurchaseOrder(purchaseOrderId);
+
+      if (po.status === 'DRAFT') {
+        throw new AppError('Draft purchase orders cannot be issued to the vendor', 400, 'INVALID_PO_STATUS');
+      }
+
+      const versions = await DocumentVersionService.getDocumentVersionHistory(this.documentId(po.id));
+      const issued = versions.find(version => version.metadata?.revision === po.revision);
+
+      if (issued?.content) {
+        return {
+          fileName: issued.title,
+          pdf: Buffer.from(issued.content, 'base64'),
+          revision: po.revision,
+          contentHash: issued.metadata.contentHash,
+          signature: issued.metadata.signature,
+          issuedAt: issued.createdAt
+        };
+      }
+
+      // Vendors can only collect a revision once the buyer has issued it
+      if (!userId) {
+        throw new AppError(`Revision ${po.revision} of this purchase order has not been issued yet`, 404, 'PO_DOCUMENT_NOT_ISSUED');
+      }
+
+      return await this.issueDocument(po, userId);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate purchase order document', 500, 'PO_DOCUMENT_FAILED');
+    }
+  }
+
+  /**
+   * Check a copy of a PO document presented by a vendor against the copies FlowMarine issued
+   */
+  async verifyDocument(purchaseOrderId: string, file: Buffer): Promise<DocumentVerificationResult> {
+    try {
+      const po = await prisma.purchaseOrder.findUnique({
+        where: { id: purchaseOrderId },
+        select: { id: true, revision: true }
+      });
+
+      if (!po) {
+        throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+      }
+
+      const result: DocumentVerificationResult = {
+        status: 'UNRECOGNISED',
+        purchaseOrderId,
+        revision: null,
+        currentRevision: po.revision,
+        superseded: false,
+        contentHash: null,
+        issuedAt: null
+      };
+
+      const seal = this.readSeal(file);
+      if (!seal || seal.purchaseOrderId !== purchaseOrderId || !this.isValidSignature(seal.contentHash, seal.signature)) {
+        return result;
+      }
+
+      result.revision = seal.revision;
+      result.contentHash = seal.contentHash;
+      result.superseded = seal.revision < po.revision;
+
+      // A genuine seal on a file that differs from every issued copy means the copy was edited
+      const checksum = createHash('sha256').update(file).digest('hex');
+      const versions = await DocumentVersionService.getDocumentVersionHistory(this.documentId(po.id));
+      const issued = versions.find(version => version.checksum === checksum);
+
+      result.status = issued ? 'VERIFIED' : 'ALTERED';
+      result.issuedAt = issued?.createdAt ?? null;
+
+      return result;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to verify purchase order document', 500, 'PO_DOCUMENT_VERIFICATION_FAILED');
+    }
+  }
+
+  // Private helper methods
+
+  private async issueDocument(po: any, userId: string): Promise<PurchaseOrderDocument> {
+    const contentHash = createHash('sha256').update(this.canonicalContent(po)).digest('hex');
+    const signature = this.sign(contentHash);
+    const issuedAt = new Date();
+    const fileName = `${po.poNumber}-rev${po.revision}.pdf`;
+
+    const pdf = await renderPDF(
+      DEFAULT_PDF_PAGE_SETTINGS,
+      doc => this.drawPurchaseOrder(doc, po, contentHash, signature, issuedAt),
+      {
+        Title: `Purchase Order ${po.poNumber} Rev ${po.revision}`,
+        Author: FLOWMARINE_PDF_STYLING.branding.companyName,
+        Subject: `Purchase order to ${po.vendor.name} for M/V ${po.vessel.name}`,
+        Keywords: `${SEAL_PREFIX}:${po.id}:${po.revision}:${contentHash}:${signature}`,
+        CreationDate: issuedAt
+      }
+    );
+
+    const version = await DocumentVersionService.createDocumentVersion({
+      documentId: this.documentId(po.id),
+      title: fileName,
+      content: pdf.toString('base64'),
+      fileSize: pdf.length,
+      mimeType: 'application/pdf',
+      checksum: createHash('sha256').update(pdf).digest('hex'),
+      createdBy: userId,
+      changeDescription: `Signed copy of revision ${po.revision}`,
+      tags: ['purchase_order', 'signed_pdf'],
+      metadata: { purchaseOrderId: po.id, revision: po.revision, contentHash, signature }
+    });
+
+    await AuditService.log({
+      userId,
+      action: 'CREATE',
+      resource: 'purchase_order_document',
+      resourceId: version.id,
+      newValues: { revision: po.revision, contentHash, fileSize: pdf.length },
+      vesselId: po.vesselId,
+      metadata: { purchaseOrderId: po.id, poNumber: po.poNumber }
+    });
+
+    return { fileName, pdf, revision: po.revision, contentHash, signature, issuedAt };
+  }
+
+  /**
+   * Everything printed on the order that the vendor is agreeing to, in a stable order
+   */
+  private canonicalContent(po: any): string {
+    return JSON.stringify({
+      poNumber: po.poNumber,
+      revision: po.revision,
+      vendor: { id: po.vendor.id, name: po.vendor.name },
+      vessel: { id: po.vessel.id, name: po.vessel.name, imoNumber: po.vessel.imoNumber },
+      currency: po.currency,
+      totalAmount: po.totalAmount,
+      deliveryDate: po.deliveryDate,
+      deliveryAddress: po.deliveryAddress,
+      deliveryTerms: po.deliveryTerms,
+      paymentTerms: po.paymentTerms,
+      notes: po.notes,
+      lineItems: po.lineItems.map((line: any) => ({
+        itemDescription: line.itemDescription,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        totalPrice: line.totalPrice,
+        currency: line.currency,
+        specifications: line.specifications
+      }))
+    });
+  }
+
+  private drawPurchaseOrder(doc: PDFKit.PDFDocument, po: any, contentHash: string, signature: string, issuedAt: Date): void {
+    const { colors, fonts, branding } = FLOWMARINE_PDF_STYLING;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const money = (amount: number) => `${po.currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+    const heading = (text: string) => {
+      doc.moveDown(1)
+         .font(fonts.heading.family).fontSize(fonts.heading.size).fillColor(colors.primary)
+         .text(text, left, doc.y, { width })
+         .moveDown(0.3)
+         .font(fonts.body.family).fontSize(fonts.body.size).fillColor(colors.text);
+    };
+
+    // Branding and order reference
+    doc.font(fonts.title.family).fontSize(fonts.title.size).fillColor(colors.primary)
+       .text(branding.companyName, left, doc.page.margins.top);
+    if (branding.tagline) {
+      doc.font(fonts.caption.family).fontSize(fonts.caption.size).fillColor(colors.text).text(branding.tagline);
+    }
+    doc.moveDown(1)
+       .font(fonts.title.family).fontSize(fonts.title.size).fillColor(colors.text)
+       .text('PURCHASE ORDER', { width, align: 'right' })
+       .font(fonts.body.family).fontSize(fonts.body.size)
+       .text(`${po.poNumber}  |  Revision ${po.revision}`, { width, align: 'right' })
+       .text(`Issued: ${issuedAt.toDateString()}  |  Currency: ${po.currency}`, { width, align: 'right' });
+
+    heading('Vendor');
+    doc.text(po.vendor.name);
+    [po.vendor.address, [po.vendor.postalCode, po.vendor.city].filter(Boolean).join(' '), po.vendor.country]
+      .filter(Boolean)
+      .forEach(line => doc.text(line));
+    if (po.vendor.contactPersonName || po.vendor.contactEmail || po.vendor.email) {
+      doc.text(`Attn: ${[po.vendor.contactPersonName, po.vendor.contactEmail || po.vendor.email].filter(Boolean).join(', ')}`);
+    }
+
+    heading('Vessel Delivery');
+    doc.text(`M/V ${po.vessel.name} (IMO ${po.vessel.imoNumber}), flag ${po.vessel.flag}`);
+    if (po.deliveryDate) {
+      doc.text(`Required delivery date: ${new Date(po.deliveryDate).toDateString()}`);
+    }
+    if (po.deliveryAddress) {
+      doc.moveDown(0.3).text(po.deliveryAddress, { width });
+    }
+
+    heading('Line Items');
+    const columns = [
+      { label: '#', width: 25, align: 'left' as const },
+      { label: 'Description', width: width - 265, align: 'left' as const },
+      { label: 'Qty', width: 50, align: 'right' as const },
+      { label: 'Unit Price', width: 90, align: 'right' as const },
+      { label: 'Total', width: 100, align: 'right' as const }
+    ];
+    const drawRow = (cells: string[], font: string) => {
+      const rowHeight = Math.max(...cells.map((cell, index) =>
+        doc.font(font).heightOfString(cell, { width: columns[index].width - 5 })
+      )) + 6;
+      if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+      const top = doc.y;
+      let x = left;
+      cells.forEach((cell, index) => {
+        doc.font(font).text(cell, x, top, { width: columns[index].width - 5, align: columns[index].align });
+        x += columns[index].width;
+      });
+      doc.y = top + rowHeight;
+    };
+
+    doc.fillColor(colors.primary);
+    drawRow(columns.map(column => column.label), fonts.heading.family);
+    doc.fillColor(colors.text);
+    po.lineItems.forEach((line: any, index: number) => {
+      const dangerousGoods = line.itemCatalog?.unNumber
+        ? `DG: UN${line.itemCatalog.unNumber}, class ${line.itemCatalog.imdgClass}${line.itemCatalog.packingGroup ? `, PG ${line.itemCatalog.packingGroup}` : ''}`
+        : null;
+      const description = [line.itemDescription, line.specifications, dangerousGoods].filter(Boolean).join('\n');
+      drawRow([
+        String(index + 1),
+        description,
+        String(line.quantity),
+        money(line.unitPrice),
+        money(line.totalPrice)
+      ], fonts.body.family);
+    });
+    doc.font(fonts.heading.family)
+       .text(`Order Total: ${money(po.totalAmount)}`, left, doc.y + 5, { width, align: 'right' })
+       .font(fonts.body.family);
+
+    if (po.deliveryTerms) {
+      heading('Delivery Terms');
+      doc.text(po.deliveryTerms, { width });
+    }
+    if (po.paymentTerms) {
+      heading('Payment Terms');
+      doc.text(po.paymentTerms, { width });
+    }
+    if (po.notes) {
+      heading('Terms and Conditions');
+      doc.text(po.notes, { width });
+    }
+
+    heading('Document Integrity');
+    doc.font(fonts.caption.family).fontSize(fonts.caption.size)
+       .text(`Content hash (SHA-256): ${contentHash}`, { width })
+       .text(`Signature: ${signature}`, { width })
+       .text(`Issued electronically by ${branding.companyName}. Altered copies will fail verification against the issued original.`, { width });
+  }
+
+  private readSeal(file: Buffer): { purchaseOrderId: string; revision: number; contentHash: string; signature: string } | null {
+    const match = SEAL_PATTERN.exec(file.toString('latin1'));
+    if (!match) {
+      return null;
+    }
+
+    return {
+      purchaseOrderId: match[1],
+      revision: Number(match[2]),
+      contentHash: match[3],
+      signature: match[4]
+    };
+  }
+
+  private sign(contentHash: string): string {
+    const secret = process.env.DOCUMENT_SIGNING_SECRET;
+    if (!secret) {
+      throw new AppError('Document signing is not configured', 500, 'DOCUMENT_SIGNING_NOT_CONFIGURED');
+    }
+
+    return createHmac('sha256', secret).update(contentHash).digest('hex');
+  }
+
+  private isValidSignature(contentHash: string, signature: string): boolean {
+    try {
+      return timingSafeEqual(Buffer.from(this.sign(contentHash), 'hex'), Buffer.from(signature, 'hex'));
+    } catch (error) {
+      logger.warn('Purchase order document signature could not be checked:', error);
+      return false;
+    }
+  }
+
+  private documentId(purchaseOrderId: string): string {
+    return `purchase_order_pdf:${purchaseOrderId}`;
+  }
+
+  private async getPurchaseOrder(purchaseOrderId: string) {
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: {
+        vendor: true,
+        vessel: true,
+        lineItems: {
+          orderBy: { createdAt: 'asc' },
+          include: { itemCatalog: { select: { unNumber: true, imdgClass: true, packingGroup: true } } }
+        }
+      }
+    });
+
+    if (!po) {
+      throw new AppError('Purchase order not found', 404, 'PO_NOT_FOUND');
+    }
+
+    return po;
+  }
+}
+
+export const purchaseOrderDocumentService = new PurchaseOrderDocumentService();
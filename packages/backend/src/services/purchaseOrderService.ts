@@ -1,6 +1,7 @@
 import { PrismaClient, PurchaseOrder, POStatus, Quote, Vessel } from '@prisma/client';
 import { AppError } from '../utils/errors';
 import { auditService } from './auditService';
+import { contractService } from './contractService';
 
 const prisma = new PrismaClient();
 
@@ -12,6 +13,15 @@ export interface CreatePOData {
   notes?: string;
 }
 
+export interface CreateContractPOData {
+  requisitionId: string;
+  contractId?: string;
+  approvedBy: string;
+  deliveryInstructions?: string;
+  specialTerms?: string;
+  notes?: string;
+}
+
 export interface POApprovalData {
   purchaseOrderId: string;
   approvedBy: string;
@@ -107,8 +117,17 @@ class PurchaseOrderService {
         throw new AppError('Only accepted quotes can be converted to purchase orders', 400, 'INVALID_QUOTE_STATUS');
       }
 
+      if (quote.rfq.isConsolidated) {
+        throw new AppError('Quotes on a consolidated RFQ are ordered per vessel', 400, 'CONSOLIDATED_RFQ_QUOTE');
+      }
+
+      // An addendum that changed the requisition's value sends it back for approval
+      if (quote.rfq.requisition.status === 'UNDER_REVIEW') {
+        throw new AppError('The requisition must be approved again before it is ordered', 400, 'REQUISITION_NOT_APPROVED');
+      }
+
       // Check if PO already exists for this quote
-      const existingPO = await prisma.purchaseOrder.findUnique({
+      const existingPO = await prisma.purchaseOrder.findFirst({
         where: { quoteId: data.quoteId }
       });
 
@@ -122,8 +141,15 @@ class PurchaseOrderService {
       // Get vessel delivery information
       const vesselDeliveryInfo = await this.getVesselDeliveryInfo(quote.rfq.requisition.vessel);
 
+      // On a split award only the lines awarded to this vendor are ordered
+      const awardedLines = quote.lineItems.filter(item => item.isAwarded);
+      const orderedLines = awardedLines.length > 0 ? awardedLines : quote.lineItems;
+      const totalAmount = awardedLines.length > 0
+        ? awardedLines.reduce((sum, item) => sum + item.totalPrice, 0)
+        : quote.totalAmount;
+
       // Determine if high-value approval is needed
-      const requiresApproval = quote.totalAmount >= this.HIGH_VALUE_THRESHOLD;
+      const requiresApproval = totalAmount >= this.HIGH_VALUE_THRESHOLD;
       const initialStatus = requiresApproval ? POStatus.DRAFT : POStatus.SENT;
 
       // Create purchase order
@@ -133,10 +159,11 @@ class PurchaseOrderService {
           data: {
             poNumber,
             quoteId: data.quoteId,
+            requisitionId: quote.rfq.requisitionId,
             vendorId: quote.vendorId,
             vesselId: quote.rfq.requisition.vesselId,
             status: initialStatus,
-            totalAmount: quote.totalAmount,
+            totalAmount,
             currency: quote.currency,
             exchangeRate: await this.getCurrentExchangeRate(quote.currency),
             paymentTerms: this.buildPaymentTerms(quote),
@@ -149,8 +176,9 @@ class PurchaseOrderService {
         });
 
         // Create PO line items
-        const lineItems = quote.lineItems.map(item => ({
+        const lineItems = orderedLines.map(item => ({
           purchaseOrderId: po.id,
+          itemCatalogId: item.itemCatalogId,
           itemDescription: `${item.itemCatalog.name} - ${item.itemCatalog.description || ''}`,
           quantity: item.quantity,
           unitPrice: item.unitPrice,
@@ -177,9 +205,10 @@ class PurchaseOrderService {
           quoteId: data.quoteId,
           vendorId: quote.vendorId,
           vesselId: quote.rfq.requisition.vesselId,
-          totalAmount: quote.totalAmount,
+          totalAmount,
           status: initialStatus,
-          requiresApproval
+          requiresApproval,
+          splitAward: awardedLines.length > 0
         },
         vesselId: quote.rfq.requisition.vesselId,
         metadata: {
@@ -195,6 +224,317 @@ class PurchaseOrderService {
     }
   }
 
+  /**
+   * Generate purchase order at contract price for a requisition fully covered by a vendor contract
+   */
+  async generatePurchaseOrderFromContract(data: CreateContractPOData): Promise<PurchaseOrder> {
+    try {
+      const requisition = await prisma.requisition.findUnique({
+        where: { id: data.requisitionId },
+        include: {
+          vessel: true,
+          items: {
+            include: {
+              itemCatalog: true
+            }
+          },
+          rfqs: { select: { id: true } }
+        }
+      });
+
+      if (!requisition) {
+        throw new AppError('Requisition not found', 404, 'REQUISITION_NOT_FOUND');
+      }
+
+      if (requisition.status !== 'APPROVED') {
+        throw new AppError('Only approved requisitions can be converted to purchase orders', 400, 'REQUISITION_NOT_APPROVED');
+      }
+
+      if (requisition.rfqs.length > 0) {
+        throw new AppError('Requisition has already been sent out for quotation', 400, 'RFQ_ALREADY_EXISTS');
+      }
+
+      const coverage = await contractService.findCoveringContract(requisition, data.contractId);
+
+      if (!coverage) {
+        throw new AppError('Requisition is not fully covered by an active contract', 400, 'REQUISITION_NOT_COVERED');
+      }
+
+      const { contract, lines, totalAmount } = coverage;
+      const poNumber = await this.generatePONumber();
+      const vesselDeliveryInfo = await this.getVesselDeliveryInfo(requisition.vessel);
+      const requiresApproval = totalAmount >= this.HIGH_VALUE_THRESHOLD;
+      const initialStatus = requiresApproval ? POStatus.DRAFT : POStatus.SENT;
+      const deliveryDate = requisition.deliveryDate || (contract.leadTimeDays
+        ? new Date(Date.now() + contract.leadTimeDays * 24 * 60 * 60 * 1000)
+        : null);
+
+      const purchaseOrder = await prisma.$transaction(async (tx) => {
+        // Claim the requisition first so a concurrent request cannot order it twice
+        const claimed = await tx.requisition.updateMany({
+          where: { id: requisition.id, status: 'APPROVED' },
+          data: { status: 'CONVERTED_TO_PO' }
+        });
+
+        if (claimed.count === 0) {
+          throw new AppError('Requisition has already been converted to a purchase order', 409, 'REQUISITION_ALREADY_CONVERTED');
+        }
+
+        if (contract.spendCap !== null) {
+          // Lock the contract so concurrent call-offs check the cap one after another
+          await tx.$queryRaw`SELECT id FROM "vendor_contracts" WHERE id = ${contract.id} FOR UPDATE`;
+
+          const committed = await contractService.getCommittedSpend(contract.id, tx);
+          if (committed + totalAmount > contract.spendCap) {
+            throw new AppError('Contract spend cap would be exceeded', 400, 'CONTRACT_SPEND_CAP_EXCEEDED');
+          }
+        }
+
+        const po = await tx.purchaseOrder.create({
+          data: {
+            poNumber,
+            contractId: contract.id,
+            requisitionId: requisition.id,
+            vendorId: contract.vendorId,
+            vesselId: requisition.vesselId,
+            status: initialStatus,
+            totalAmount,
+            currency: contract.currency,
+            exchangeRate: await this.getCurrentExchangeRate(contract.currency),
+            paymentTerms: this.buildPaymentTerms(contract),
+            deliveryTerms: this.buildDeliveryTerms(
+              vesselDeliveryInfo,
+              [contract.deliveryTerms, data.deliveryInstructions].filter(Boolean).join('\n') || undefined
+            ),
+            deliveryAddress: this.buildDeliveryAddress(vesselDeliveryInfo),
+            deliveryDate,
+            notes: this.buildPONotes(data, vesselDeliveryInfo, `Issued at contract price under ${contract.contractNumber}.`),
+            attachments: []
+          }
+        });
+
+        await tx.pOLineItem.createMany({
+          data: lines.map(line => {
+            const item = requisition.items.find(requisitionItem => requisitionItem.id === line.requisitionItemId)!;
+            return {
+              purchaseOrderId: po.id,
+              itemCatalogId: line.itemCatalogId,
+              itemDescription: `${item.itemCatalog.name} - ${item.itemCatalog.description || ''}`,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              totalPrice: line.totalPrice,
+              currency: contract.currency,
+              specifications: item.specifications
+            };
+          })
+        });
+
+        return po;
+      });
+
+      await auditService.log({
+        userId: data.approvedBy,
+        action: 'CREATE',
+        resource: 'purchase_order',
+        resourceId: purchaseOrder.id,
+        newValues: {
+          poNumber: purchaseOrder.poNumber,
+          contractId: contract.id,
+          vendorId: contract.vendorId,
+          vesselId: requisition.vesselId,
+          totalAmount,
+          status: initialStatus,
+          requiresApproval
+        },
+        vesselId: requisition.vesselId,
+        metadata: {
+          requisitionId: requisition.id,
+          contractNumber: contract.contractNumber
+        }
+      });
+
+      return purchaseOrder;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate purchase order from contract', 500, 'PO_GENERATION_FAILED');
+    }
+  }
+
+  /**
+   * Fan an accepted quote on a consolidated RFQ back out into one purchase order per
+   * originating requisition, so each vessel's PO and budget only carry its own share
+   */
+  async generateConsolidatedPurchaseOrders(data: CreatePOData): Promise<PurchaseOrder[]> {
+    try {
+      const quote = await prisma.quote.findUnique({
+        where: { id: data.quoteId },
+        include: {
+          rfq: {
+            include: {
+              deliverySplits: {
+                include: {
+                  requisition: true,
+                  vessel: true
+                }
+              }
+            }
+          },
+          lineItems: {
+            include: {
+              itemCatalog: true
+            }
+          }
+        }
+      });
+
+      if (!quote) {
+        throw new AppError('Quote not found', 404, 'QUOTE_NOT_FOUND');
+      }
+
+      if (!quote.rfq.isConsolidated) {
+        throw new AppError('Quote does not belong to a consolidated RFQ', 400, 'RFQ_NOT_CONSOLIDATED');
+      }
+
+      if (quote.status !== 'ACCEPTED') {
+        throw new AppError('Only accepted quotes can be converted to purchase orders', 400, 'INVALID_QUOTE_STATUS');
+      }
+
+      const existingPO = await prisma.purchaseOrder.findFirst({
+        where: { quoteId: data.quoteId }
+      });
+
+      if (existingPO) {
+        throw new AppError('Purchase orders already exist for this quote', 400, 'PO_ALREADY_EXISTS');
+      }
+
+      // On a split award only the lines awarded to this vendor are ordered
+      const awardedLines = quote.lineItems.filter(item => item.isAwarded);
+      const orderedLines = awardedLines.length > 0 ? awardedLines : quote.lineItems;
+      const linesByItem = new Map(orderedLines.map(line => [line.itemCatalogId, line]));
+
+      // Each requisition receives the quoted unit price for its own quantities
+      const splitsByRequisition = new Map<string, typeof quote.rfq.deliverySplits>();
+      for (const split of quote.rfq.deliverySplits) {
+        if (!linesByItem.has(split.itemCatalogId)) continue;
+        const splits = splitsByRequisition.get(split.requisitionId) || [];
+        splits.push(split);
+        splitsByRequisition.set(split.requisitionId, splits);
+      }
+
+      if (splitsByRequisition.size === 0) {
+        throw new AppError('None of the quoted items are requested by the consolidated requisitions', 400, 'NO_MATCHING_SPLITS');
+      }
+
+      const exchangeRate = await this.getCurrentExchangeRate(quote.currency);
+      const orders: { splits: typeof quote.rfq.deliverySplits; totalAmount: number; requiresApproval: boolean; vesselDeliveryInfo: VesselDeliveryInfo }[] = [];
+
+      for (const splits of splitsByRequisition.values()) {
+        const totalAmount = Math.round(splits.reduce(
+          (sum, split) => sum + linesByItem.get(split.itemCatalogId)!.unitPrice * split.quantity,
+          0
+        ) * 100) / 100;
+
+        orders.push({
+          splits,
+          totalAmount,
+          requiresApproval: totalAmount >= this.HIGH_VALUE_THRESHOLD,
+          vesselDeliveryInfo: await this.getVesselDeliveryInfo(splits[0].vessel)
+        });
+      }
+
+      const firstPONumber = await this.generatePONumber();
+
+      const purchaseOrders = await prisma.$transaction(async (tx) => {
+        const created: PurchaseOrder[] = [];
+
+        for (const [index, order] of orders.entries()) {
+          const { requisition, vesselId } = order.splits[0];
+
+          const po = await tx.purchaseOrder.create({
+            data: {
+              poNumber: this.offsetPONumber(firstPONumber, index),
+              quoteId: data.quoteId,
+              requisitionId: requisition.id,
+              vendorId: quote.vendorId,
+              vesselId,
+              status: order.requiresApproval ? POStatus.DRAFT : POStatus.SENT,
+              totalAmount: order.totalAmount,
+              currency: quote.currency,
+              exchangeRate,
+              paymentTerms: this.buildPaymentTerms(quote),
+              deliveryTerms: this.buildDeliveryTerms(order.vesselDeliveryInfo, data.deliveryInstructions),
+              deliveryAddress: requisition.deliveryLocation
+                ? `${requisition.deliveryLocation}\n${this.buildDeliveryAddress(order.vesselDeliveryInfo)}`
+                : this.buildDeliveryAddress(order.vesselDeliveryInfo),
+              deliveryDate: quote.deliveryDate,
+              notes: this.buildPONotes(
+                data,
+                order.vesselDeliveryInfo,
+                `Vessel share of consolidated RFQ ${quote.rfq.rfqNumber}, ordered against requisition ${requisition.requisitionNumber}.`
+              ),
+              attachments: []
+            }
+          });
+
+          await tx.pOLineItem.createMany({
+            data: order.splits.map(split => {
+              const line = linesByItem.get(split.itemCatalogId)!;
+              return {
+                purchaseOrderId: po.id,
+                itemCatalogId: split.itemCatalogId,
+                itemDescription: `${line.itemCatalog.name} - ${line.itemCatalog.description || ''}`,
+                quantity: split.quantity,
+                unitPrice: line.unitPrice,
+                totalPrice: Math.round(line.unitPrice * split.quantity * 100) / 100,
+                currency: line.currency,
+                specifications: line.specifications
+              };
+            })
+          });
+
+          await tx.requisition.update({
+            where: { id: requisition.id },
+            data: { status: 'CONVERTED_TO_PO' }
+          });
+
+          created.push(po);
+        }
+
+        return created;
+      });
+
+      for (const [index, purchaseOrder] of purchaseOrders.entries()) {
+        await auditService.log({
+          userId: data.approvedBy,
+          action: 'CREATE',
+          resource: 'purchase_order',
+          resourceId: purchaseOrder.id,
+          newValues: {
+            poNumber: purchaseOrder.poNumber,
+            quoteId: data.quoteId,
+            vendorId: quote.vendorId,
+            vesselId: purchaseOrder.vesselId,
+            totalAmount: purchaseOrder.totalAmount,
+            status: purchaseOrder.status,
+            requiresApproval: orders[index].requiresApproval,
+            splitAward: awardedLines.length > 0
+          },
+          vesselId: purchaseOrder.vesselId,
+          metadata: {
+            rfqId: quote.rfqId,
+            requisitionId: purchaseOrder.requisitionId,
+            consolidated: true
+          }
+        });
+      }
+
+      return purchaseOrders;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate consolidated purchase orders', 500, 'PO_GENERATION_FAILED');
+    }
+  }
+
   /**
    * Approve high-value purchase order
    */
@@ -263,6 +603,7 @@ class PurchaseOrderService {
             }
           },
           vessel: true,
+          contract: true,
           quote: {
             include: {
               rfq: {
@@ -383,6 +724,14 @@ class PurchaseOrderService {
     return `PO-${year}${month}-${sequence}`;
   }
 
+  /**
+   * Following PO number in the same month, for orders created together in one transaction
+   */
+  private offsetPONumber(poNumber: string, offset: number): string {
+    const [prefix, period, sequence] = poNumber.split('-');
+    return `${prefix}-${period}-${String(Number(sequence) + offset).padStart(4, '0')}`;
+  }
+
   /**
    * Get vessel delivery information
    */
@@ -488,10 +837,14 @@ Email: ${vesselInfo.portAgent.email}`;
   /**
    * Build comprehensive PO notes
    */
-  private buildPONotes(data: CreatePOData, vesselInfo: VesselDeliveryInfo): string {
+  private buildPONotes(
+    data: Pick<CreatePOData, 'specialTerms' | 'notes'>,
+    vesselInfo: VesselDeliveryInfo,
+    source = 'Generated from approved quote for vessel operations.'
+  ): string {
     let notes = `MARITIME PURCHASE ORDER
 
-Generated from approved quote for vessel operations.
+${source}
 
 IMPORTANT MARITIME CONDITIONS:
 ${this.MARITIME_TERMS.warrantyTerms}
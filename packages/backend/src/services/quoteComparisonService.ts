@@ -1,9 +1,15 @@
 import { PrismaClient, Quote, QuoteStatus, Vendor } from '@prisma/client';
 import { AppError } from '../utils/errors';
 import { auditService } from './auditService';
+import { rfqDeadlineService } from './rfqDeadlineService';
+import { landedCostService, LandedCostAssumptions, LandedCostBreakdown } from './landedCostService';
+import { quoteCurrencyService, QuoteExchangeRate } from './quoteCurrencyService';
 
 const prisma = new PrismaClient();
 
+// FX moves, in percent, applied to each quoted currency in the sensitivity view
+const FX_SENSITIVITY_SHIFTS = [-5, 5];
+
 export interface QuoteComparisonData {
   rfqId: string;
   quotes: Quote[];
@@ -29,11 +35,32 @@ export interface VendorScoringResult {
   ranking: number;
   recommendation: 'HIGHLY_RECOMMENDED' | 'RECOMMENDED' | 'ACCEPTABLE' | 'NOT_RECOMMENDED';
   totalAmount: number;
+  normalisedAmount: number;       // totalAmount in the RFQ currency
+  exchangeRate?: QuoteExchangeRate;
+  landedCost?: LandedCostBreakdown;
   currency: string;
   deliveryDate?: Date;
   notes?: string;
 }
 
+/**
+ * Ranking if one quoted currency moved against the RFQ currency. A positive shift
+ * strengthens the quoted currency, making those quotes dearer.
+ */
+export interface FxSensitivityScenario {
+  currency: string;
+  shiftPercent: number;
+  rankings: {
+    quoteId: string;
+    vendorName: string;
+    ranking: number;
+    totalScore: number;
+    landedCost: number;
+  }[];
+  recommendedQuoteId: string;
+  rankingChanged: boolean;
+}
+
 export interface QuoteApprovalData {
   quoteId: string;
   approvedBy: string;
@@ -47,6 +74,7 @@ export interface QuoteApprovalData {
 export interface QuoteComparisonReport {
   rfqId: string;
   rfqTitle: string;
+  currency: string;
   totalQuotes: number;
   scoredQuotes: VendorScoringResult[];
   recommendedQuote: VendorScoringResult;
@@ -57,6 +85,8 @@ export interface QuoteComparisonReport {
     qualityWeight: number;
     locationWeight: number;
   };
+  landedCostAssumptions: LandedCostAssumptions;
+  fxSensitivity: FxSensitivityScenario[];
   generatedAt: Date;
 }
 
@@ -110,15 +140,26 @@ class QuoteComparisonService {
         throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
       }
 
+      rfqDeadlineService.assertUnsealed(rfq);
+
       if (rfq.quotes.length === 0) {
         throw new AppError('No submitted quotes found for this RFQ', 400, 'NO_QUOTES_FOUND');
       }
 
       const scoringWeights = { ...this.DEFAULT_SCORING_WEIGHTS, ...customWeights };
 
+      // Compare every quote in the RFQ currency at the rate on its submission date
+      const exchangeRates = await quoteCurrencyService.getQuoteRates(rfq.currency, rfq.quotes);
+      const normalisedQuotes = rfq.quotes.map(quote =>
+        quoteCurrencyService.normaliseQuote(quote, exchangeRates.get(quote.id)!)
+      );
+
+      // Price is compared on landed cost at the delivery port, not the quoted total
+      const landedCosts = await landedCostService.calculateLandedCosts(rfq, normalisedQuotes);
+
       // Score each quote
       const scoredQuotes = await Promise.all(
-        rfq.quotes.map(quote => this.scoreQuote(quote, rfq, scoringWeights))
+        rfq.quotes.map(quote => this.scoreQuote(quote, rfq, scoringWeights, landedCosts, exchangeRates.get(quote.id)!))
       );
 
       // Sort by total score descending
@@ -138,6 +179,7 @@ class QuoteComparisonService {
       const report: QuoteComparisonReport = {
         rfqId,
         rfqTitle: rfq.title,
+        currency: rfq.currency,
         totalQuotes: scoredQuotes.length,
         scoredQuotes,
         recommendedQuote: scoredQuotes[0],
@@ -148,6 +190,8 @@ class QuoteComparisonService {
           qualityWeight: scoringWeights.quality,
           locationWeight: scoringWeights.location
         },
+        landedCostAssumptions: landedCostService.getAssumptions(rfq),
+        fxSensitivity: this.buildFxSensitivity(scoredQuotes, rfq.currency, scoringWeights.price),
         generatedAt: new Date()
       };
 
@@ -161,8 +205,14 @@ class QuoteComparisonService {
   /**
    * Score an individual quote
    */
-  private async scoreQuote(quote: any, rfq: any, weights: any): Promise<VendorScoringResult> {
-    const priceScore = this.calculatePriceScore(quote, rfq.quotes);
+  private async scoreQuote(
+    quote: any,
+    rfq: any,
+    weights: any,
+    landedCosts: Map<string, LandedCostBreakdown>,
+    exchangeRate: QuoteExchangeRate
+  ): Promise<VendorScoringResult> {
+    const priceScore = this.calculatePriceScore(quote, rfq.quotes, landedCosts);
     const deliveryScore = this.calculateDeliveryScore(quote, rfq);
     const qualityScore = this.calculateQualityScore(quote.vendor);
     const locationScore = this.calculateLocationScore(quote.vendor, rfq);
@@ -190,6 +240,9 @@ class QuoteComparisonService {
       ranking: 0, // Will be set later
       recommendation,
       totalAmount: quote.totalAmount,
+      normalisedAmount: Math.round(quote.totalAmount * exchangeRate.rate * 100) / 100,
+      exchangeRate,
+      landedCost: landedCosts.get(quote.id),
       currency: quote.currency,
       deliveryDate: quote.deliveryDate,
       notes: quote.notes
@@ -197,20 +250,67 @@ class QuoteComparisonService {
   }
 
   /**
-   * Calculate price score (lower price = higher score)
+   * Calculate price score on landed cost in the RFQ currency (lower cost = higher score)
    */
-  private calculatePriceScore(quote: any, allQuotes: any[]): number {
-    const prices = allQuotes.map(q => q.totalAmount);
+  private calculatePriceScore(quote: any, allQuotes: any[], landedCosts: Map<string, LandedCostBreakdown>): number {
+    const landedCost = (q: any) => landedCosts.get(q.id)!.total;
+    return this.scalePriceScore(landedCost(quote), allQuotes.map(landedCost));
+  }
+
+  private scalePriceScore(price: number, prices: number[]): number {
     const minPrice = Math.min(...prices);
     const maxPrice = Math.max(...prices);
 
     if (minPrice === maxPrice) return 10; // All quotes have same price
 
     // Normalize price score (10 for lowest price, scaling down for higher prices)
-    const normalizedScore = 10 - ((quote.totalAmount - minPrice) / (maxPrice - minPrice)) * 10;
+    const normalizedScore = 10 - ((price - minPrice) / (maxPrice - minPrice)) * 10;
     return Math.max(0, normalizedScore);
   }
 
+  /**
+   * Re-rank under a ±5% move of each quoted currency against the RFQ currency.
+   * Only the quoted goods value moves; freight, duty and fees keep their scored values.
+   */
+  private buildFxSensitivity(scoredQuotes: VendorScoringResult[], rfqCurrency: string, priceWeight: number): FxSensitivityScenario[] {
+    const currencies = Array.from(new Set(
+      scoredQuotes.map(quote => quote.currency).filter(currency => currency !== rfqCurrency)
+    ));
+
+    return currencies.flatMap(currency => FX_SENSITIVITY_SHIFTS.map(shiftPercent => {
+      const costs = scoredQuotes.map(quote => {
+        const landedCost = quote.landedCost?.total ?? quote.normalisedAmount;
+        const goods = quote.landedCost?.goods ?? quote.normalisedAmount;
+        return quote.currency === currency ? landedCost + goods * shiftPercent / 100 : landedCost;
+      });
+
+      const rankings = scoredQuotes
+        .map((quote, index) => {
+          const priceScore = this.scalePriceScore(costs[index], costs);
+          const totalScore = quote.scores.totalScore + (priceScore - quote.scores.priceScore) * priceWeight;
+          return {
+            quoteId: quote.quoteId,
+            vendorName: quote.vendorName,
+            ranking: 0,
+            totalScore: Math.round(totalScore * 100) / 100,
+            landedCost: Math.round(costs[index] * 100) / 100
+          };
+        })
+        .sort((a, b) => b.totalScore - a.totalScore)
+        .map((entry, index) => ({ ...entry, ranking: index + 1 }));
+
+      return {
+        currency,
+        shiftPercent,
+        rankings,
+        recommendedQuoteId: rankings[0].quoteId,
+        rankingChanged: rankings.some(entry =>
+          entry.ranking !== scoredQuotes.find(quote => quote.quoteId === entry.quoteId)!.ranking
+        )
+      };
+    }));
+  }
+
   /**
    * Calculate delivery score (earlier delivery = higher score)
    */
@@ -298,6 +398,27 @@ class QuoteComparisonService {
     return 'NOT_RECOMMENDED';
   }
 
+  /**
+   * Rate recorded on a scored quote; current-rate fallbacks are not stored
+   */
+  private storedExchangeRate(quote: Quote, rfqCurrency: string): QuoteExchangeRate | undefined {
+    if (quote.currency === rfqCurrency) {
+      return { fromCurrency: quote.currency, toCurrency: rfqCurrency, rate: 1, rateDate: quote.submittedAt ?? quote.createdAt, source: 'PARITY' };
+    }
+
+    if (!quote.exchangeRate || !quote.exchangeRateDate) {
+      return undefined;
+    }
+
+    return {
+      fromCurrency: quote.currency,
+      toCurrency: rfqCurrency,
+      rate: quote.exchangeRate,
+      rateDate: quote.exchangeRateDate,
+      source: 'HISTORICAL'
+    };
+  }
+
   /**
    * Update quote scores in database
    */
@@ -310,7 +431,10 @@ class QuoteComparisonService {
           deliveryScore: quote.scores.deliveryScore,
           qualityScore: quote.scores.qualityScore,
           locationScore: quote.scores.locationScore,
-          totalScore: quote.scores.totalScore
+          totalScore: quote.scores.totalScore,
+          normalisedAmount: quote.normalisedAmount,
+          landedCost: quote.landedCost?.total,
+          landedCostBreakdown: quote.landedCost as any
         }
       })
     );
@@ -344,6 +468,51 @@ class QuoteComparisonService {
     };
     matrix.push(amountRow);
 
+    // Conversion into the RFQ currency at the rate on each quote's submission date
+    const exchangeRateRow = {
+      criteria: 'Exchange Rate',
+      ...scoredQuotes.reduce((acc, quote, index) => {
+        const rate = quote.exchangeRate;
+        acc[`vendor_${index}`] = !rate
+          ? 'Not recorded'
+          : rate.source === 'PARITY'
+            ? 'Quoted in RFQ currency'
+            : `1 ${rate.fromCurrency} = ${rate.rate.toFixed(4)} ${rate.toCurrency} (${new Date(rate.rateDate).toDateString()}${rate.source === 'CURRENT' ? ', current rate' : ''})`;
+        return acc;
+      }, {} as any)
+    };
+    matrix.push(exchangeRateRow);
+
+    const normalisedAmountRow = {
+      criteria: `Amount in ${rfq.currency}`,
+      ...scoredQuotes.reduce((acc, quote, index) => {
+        acc[`vendor_${index}`] = `${rfq.currency} ${quote.normalisedAmount.toLocaleString()}`;
+        return acc;
+      }, {} as any)
+    };
+    matrix.push(normalisedAmountRow);
+
+    // Landed cost rows, one per cost component
+    const landedCostRows = [
+      { key: 'freight', label: 'Freight' },
+      { key: 'duty', label: 'Customs Duty' },
+      { key: 'customsClearance', label: 'Customs Clearance' },
+      { key: 'agencyFees', label: 'Agency Fees' },
+      { key: 'total', label: 'Landed Cost' }
+    ];
+
+    landedCostRows.forEach(costRow => {
+      const row = {
+        criteria: costRow.label,
+        ...scoredQuotes.reduce((acc, quote, index) => {
+          const value = quote.landedCost?.[costRow.key as keyof LandedCostBreakdown] as number | undefined;
+          acc[`vendor_${index}`] = value !== undefined ? `${rfq.currency} ${value.toLocaleString()}` : 'Not calculated';
+          return acc;
+        }, {} as any)
+      };
+      matrix.push(row);
+    });
+
     // Delivery Date row
     const deliveryRow = {
       criteria: 'Delivery Date',
@@ -408,6 +577,8 @@ class QuoteComparisonService {
         throw new AppError('Quote not found', 404, 'QUOTE_NOT_FOUND');
       }
 
+      rfqDeadlineService.assertUnsealed(quote.rfq);
+
       if (quote.status !== 'SUBMITTED') {
         throw new AppError('Only submitted quotes can be approved', 400, 'INVALID_QUOTE_STATUS');
       }
@@ -470,6 +641,23 @@ class QuoteComparisonService {
    */
   async getQuoteComparisonReport(rfqId: string): Promise<QuoteComparisonReport | null> {
     try {
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        include: {
+          requisition: {
+            include: {
+              vessel: true
+            }
+          }
+        }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      rfqDeadlineService.assertUnsealed(rfq);
+
       // Check if we have scored quotes for this RFQ
       const quotes = await prisma.quote.findMany({
         where: {
@@ -487,21 +675,6 @@ class QuoteComparisonService {
         return null; // No scored quotes available
       }
 
-      const rfq = await prisma.rFQ.findUnique({
-        where: { id: rfqId },
-        include: {
-          requisition: {
-            include: {
-              vessel: true
-            }
-          }
-        }
-      });
-
-      if (!rfq) {
-        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
-      }
-
       // Convert quotes to scoring results
       const scoredQuotes: VendorScoringResult[] = quotes.map((quote, index) => ({
         vendorId: quote.vendorId,
@@ -517,6 +690,9 @@ class QuoteComparisonService {
         ranking: index + 1,
         recommendation: this.getRecommendation(quote.totalScore || 0),
         totalAmount: quote.totalAmount,
+        normalisedAmount: quote.normalisedAmount ?? quote.totalAmount,
+        exchangeRate: this.storedExchangeRate(quote, rfq.currency),
+        landedCost: (quote.landedCostBreakdown as unknown as LandedCostBreakdown | null) ?? undefined,
         currency: quote.currency,
         deliveryDate: quote.deliveryDate,
         notes: quote.notes
@@ -527,11 +703,14 @@ class QuoteComparisonService {
       return {
         rfqId,
         rfqTitle: rfq.title,
+        currency: rfq.currency,
         totalQuotes: scoredQuotes.length,
         scoredQuotes,
         recommendedQuote: scoredQuotes[0],
         comparisonMatrix,
         scoringCriteria: this.DEFAULT_SCORING_WEIGHTS,
+        landedCostAssumptions: landedCostService.getAssumptions(rfq),
+        fxSensitivity: this.buildFxSensitivity(scoredQuotes, rfq.currency, this.DEFAULT_SCORING_WEIGHTS.price),
         generatedAt: new Date()
       };
     } catch (error) {
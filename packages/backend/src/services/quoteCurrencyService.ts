@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { exchangeRateIntegrationService } from './exchangeRateIntegrationService';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rates are published on business days only, so look back far enough to span a long weekend
+const HISTORICAL_LOOKBACK_DAYS = 7;
+
+export type ExchangeRateSource = 'PARITY' | 'HISTORICAL' | 'CURRENT';
+
+export interface QuoteExchangeRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  rateDate: Date;
+  source: ExchangeRateSource;
+}
+
+class QuoteCurrencyService {
+  /**
+   * Rate from each quote's currency into the RFQ currency on the day the quote was submitted.
+   * Historical rates are stored on the quote so re-scoring always uses the same basis;
+   * when no historical rate is available today's rate is used and the lookup retried next time.
+   */
+  async getQuoteRates(rfqCurrency: string, quotes: any[]): Promise<Map<string, QuoteExchangeRate>> {
+    const rates = new Map<string, QuoteExchangeRate>();
+
+    for (const quote of quotes) {
+      const quotedAt: Date = quote.submittedAt ?? quote.createdAt;
+
+      if (quote.currency === rfqCurrency) {
+        rates.set(quote.id, { fromCurrency: quote.currency, toCurrency: rfqCurrency, rate: 1, rateDate: quotedAt, source: 'PARITY' });
+        continue;
+      }
+
+      if (quote.exchangeRate && quote.exchangeRateDate) {
+        rates.set(quote.id, {
+          fromCurrency: quote.currency,
+          toCurrency: rfqCurrency,
+          rate: quote.exchangeRate,
+          rateDate: quote.exchangeRateDate,
+          source: (quote.exchangeRateSource as ExchangeRateSource | null) ?? 'HISTORICAL'
+        });
+        continue;
+      }
+
+      const rate = await this.lookupRate(quote.currency, rfqCurrency, quotedAt);
+
+      if (rate.source === 'HISTORICAL') {
+        await prisma.quote.update({
+          where: { id: quote.id },
+          data: {
+            exchangeRate: rate.rate,
+            exchangeRateDate: rate.rateDate,
+            exchangeRateSource: rate.source
+          }
+        });
+      }
+
+      rates.set(quote.id, rate);
+    }
+
+    return rates;
+  }
+
+  /**
+   * Copy of a quote with its total and line items converted into the RFQ currency.
+   * Line items are priced in the quote currency.
+   */
+  normaliseQuote<T extends { totalAmount: number; currency: string; lineItems?: any[] }>(quote: T, rate: QuoteExchangeRate): T {
+    if (rate.source === 'PARITY') {
+      return quote;
+    }
+
+    const convert = (amount: number) => Math.round(amount * rate.rate * 100) / 100;
+
+    return {
+      ...quote,
+      totalAmount: convert(quote.totalAmount),
+      currency: rate.toCurrency,
+      lineItems: quote.lineItems?.map(line => ({
+        ...line,
+        unitPrice: convert(line.unitPrice),
+        totalPrice: convert(line.totalPrice),
+        currency: rate.toCurrency
+      }))
+    };
+  }
+
+  // Private helper methods
+
+  private async lookupRate(fromCurrency: string, toCurrency: string, quotedAt: Date): Promise<QuoteExchangeRate> {
+    try {
+      const history = await exchangeRateIntegrationService.getHistoricalRates(
+        fromCurrency,
+        toCurrency,
+        new Date(quotedAt.getTime() - HISTORICAL_LOOKBACK_DAYS * DAY_MS),
+        quotedAt
+      );
+
+      // Latest published rate on or before the submission date
+      const rate = history
+        .filter(entry => entry.date <= quotedAt)
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+        .pop();
+      if (rate) {
+        return { fromCurrency, toCurrency, rate: rate.close, rateDate: rate.date, source: 'HISTORICAL' };
+      }
+    } catch (error) {
+      logger.warn(`Historical ${fromCurrency}/${toCurrency} rate unavailable for ${quotedAt.toISOString()}:`, error);
+    }
+
+    try {
+      const current = await exchangeRateIntegrationService.getExchangeRate(fromCurrency, toCurrency);
+      return { fromCurrency, toCurrency, rate: current.rate, rateDate: current.timestamp, source: 'CURRENT' };
+    } catch (error) {
+      throw new AppError(`No ${fromCurrency}/${toCurrency} exchange rate available to compare quotes`, 502, 'EXCHANGE_RATE_UNAVAILABLE');
+    }
+  }
+}
+
+export const quoteCurrencyService = new QuoteCurrencyService();
@@ -3,7 +3,7 @@
  * Handles business logic for requisition management including creation, validation, and approval routing
  */
 
-import { PrismaClient, Requisition, RequisitionStatus, UrgencyLevel, Vessel, User } from '@prisma/client';
+import { PrismaClient, Prisma, Requisition, RequisitionStatus, UrgencyLevel, Vessel, User } from '@prisma/client';
 import { auditService } from './auditService';
 import { vesselService } from './vesselService';
 import { itemCatalogService } from './itemCatalogService';
@@ -19,6 +19,8 @@ export interface CreateRequisitionData {
   deliveryLocation?: string;
   deliveryDate?: Date;
   justification?: string;
+  templateId?: string; // Set when auto-drafted from a recurring template
+  maintenanceJobId?: string; // Set when auto-drafted for a planned maintenance job
   items: CreateRequisitionItemData[];
 }
 
@@ -57,7 +59,8 @@ class RequisitionService {
    */
   async createRequisition(
     data: CreateRequisitionData,
-    requestedById: string
+    requestedById: string,
+    tx: Prisma.TransactionClient = prisma
   ): Promise<Requisition> {
     // Validate vessel access
     const vessel = await vesselService.getVesselById(data.vesselId);
@@ -82,10 +85,10 @@ class RequisitionService {
     }
 
     // Generate requisition number
-    const requisitionNumber = await this.generateRequisitionNumber(data.vesselId);
+    const requisitionNumber = await this.generateRequisitionNumber(data.vesselId, tx);
 
     // Create requisition with items
-    const requisition = await prisma.requisition.create({
+    const requisition = await tx.requisition.create({
       data: {
         requisitionNumber,
         vesselId: data.vesselId,
@@ -97,6 +100,8 @@ class RequisitionService {
         deliveryLocation: data.deliveryLocation,
         deliveryDate: data.deliveryDate,
         justification: data.justification,
+        templateId: data.templateId,
+        maintenanceJobId: data.maintenanceJobId,
         items: {
           create: data.items.map(item => ({
             itemCatalogId: item.itemCatalogId,
@@ -494,6 +499,14 @@ class RequisitionService {
           `Safety critical item "${catalogItem.name}" marked as routine urgency`
         );
       }
+
+      // Superseded part numbers are often no longer supplied by the maker
+      if (catalogItem.currentReplacement) {
+        const replacement = catalogItem.currentReplacement;
+        warnings.push(
+          `Item "${catalogItem.name}" has been superseded by "${replacement.name}"${replacement.impaCode ? ` (IMPA ${replacement.impaCode})` : ''}`
+        );
+      }
     }
 
     // Validate delivery requirements
@@ -515,8 +528,8 @@ class RequisitionService {
   /**
    * Generate unique requisition number
    */
-  private async generateRequisitionNumber(vesselId: string): Promise<string> {
-    const vessel = await prisma.vessel.findUnique({
+  private async generateRequisitionNumber(vesselId: string, tx: Prisma.TransactionClient = prisma): Promise<string> {
+    const vessel = await tx.vessel.findUnique({
       where: { id: vesselId },
       select: { name: true }
     });
@@ -525,7 +538,7 @@ class RequisitionService {
     const vesselCode = vessel?.name.substring(0, 3).toUpperCase() || 'VES';
     
     // Get next sequence number for this vessel and year
-    const lastRequisition = await prisma.requisition.findFirst({
+    const lastRequisition = await tx.requisition.findFirst({
       where: {
         vesselId,
         requisitionNumber: {
@@ -0,0 +1,498 @@
+import { PrismaClient, RecurrenceUnit, Requisition, RequisitionTemplate, UrgencyLevel } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './auditService';
+import { crewRotationService } from './crewRotationService';
+import { requisitionService, CreateRequisitionData } from './requisitionService';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Roles that live on board and eat from the provisions store
+const ON_BOARD_ROLES = ['CAPTAIN', 'CHIEF_ENGINEER', 'VESSEL_CREW'];
+
+export interface RequisitionTemplateItemData {
+  itemCatalogId: string;
+  quantity: number;
+  unitPrice?: number;
+  scaleWithCrew?: boolean;
+  specifications?: string;
+  notes?: string;
+}
+
+export interface RequisitionTemplateData {
+  name: string;
+  vesselId: string;
+  urgencyLevel?: UrgencyLevel;
+  currency?: string;
+  deliveryLocation?: string;
+  justification?: string;
+  recurrenceUnit: RecurrenceUnit;
+  recurrenceInterval?: number;
+  nextDueDate: Date;
+  leadTimeDays?: number;
+  baseCrewSize: number;
+  items: RequisitionTemplateItemData[];
+}
+
+export type RequisitionTemplateUpdateData = Partial<Omit<RequisitionTemplateData, 'vesselId'>> & {
+  isActive?: boolean;
+};
+
+export interface TemplateDraftPreview {
+  templateId: string;
+  deliveryDate: Date;
+  deliveryLocation?: string;
+  draftOn: Date;
+  crewOnBoard: number;
+  crewScale: number;
+  requisition: CreateRequisitionData;
+}
+
+export interface TemplateRunResult {
+  drafted: number;
+  skipped: number;
+  failed: number;
+}
+
+const TEMPLATE_INCLUDE = {
+  vessel: true,
+  items: {
+    include: {
+      itemCatalog: true
+    }
+  }
+};
+
+type TemplateWithItems = NonNullable<Awaited<ReturnType<RequisitionTemplateService['loadTemplate']>>>;
+
+class RequisitionTemplateService {
+  /**
+   * Save a recurring requisition template for a vessel
+   */
+  async createTemplate(data: RequisitionTemplateData, userId: string): Promise<RequisitionTemplate> {
+    try {
+      this.validateTemplate(data);
+
+      const vessel = await prisma.vessel.findUnique({ where: { id: data.vesselId } });
+      if (!vessel) {
+        throw new AppError('Vessel not found', 404, 'VESSEL_NOT_FOUND');
+      }
+
+      const template = await prisma.requisitionTemplate.create({
+        data: {
+          name: data.name,
+          vesselId: data.vesselId,
+          createdById: userId,
+          urgencyLevel: data.urgencyLevel,
+          currency: data.currency,
+          deliveryLocation: data.deliveryLocation,
+          justification: data.justification,
+          recurrenceUnit: data.recurrenceUnit,
+          recurrenceInterval: data.recurrenceInterval,
+          nextDueDate: data.nextDueDate,
+          leadTimeDays: data.leadTimeDays,
+          baseCrewSize: data.baseCrewSize,
+          items: {
+            create: data.items.map(item => this.toItemData(item))
+          }
+        },
+        include: TEMPLATE_INCLUDE
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'requisition_template',
+        resourceId: template.id,
+        newValues: {
+          name: template.name,
+          recurrenceUnit: template.recurrenceUnit,
+          recurrenceInterval: template.recurrenceInterval,
+          nextDueDate: template.nextDueDate,
+          itemCount: data.items.length
+        },
+        vesselId: data.vesselId
+      });
+
+      return template;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create requisition template', 500, 'TEMPLATE_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Update a template; a new item list replaces the old one
+   */
+  async updateTemplate(id: string, data: RequisitionTemplateUpdateData, userId: string): Promise<RequisitionTemplate> {
+    try {
+      const existing = await this.getTemplateById(id);
+      this.validateTemplate({ ...existing, ...data, items: data.items || existing.items });
+
+      const template = await prisma.$transaction(async (tx) => {
+        if (data.items) {
+          await tx.requisitionTemplateItem.deleteMany({ where: { templateId: id } });
+        }
+
+        return tx.requisitionTemplate.update({
+          where: { id },
+          data: {
+            name: data.name,
+            urgencyLevel: data.urgencyLevel,
+            currency: data.currency,
+            deliveryLocation: data.deliveryLocation,
+            justification: data.justification,
+            recurrenceUnit: data.recurrenceUnit,
+            recurrenceInterval: data.recurrenceInterval,
+            nextDueDate: data.nextDueDate,
+            leadTimeDays: data.leadTimeDays,
+            baseCrewSize: data.baseCrewSize,
+            isActive: data.isActive,
+            items: data.items
+              ? { create: data.items.map(item => this.toItemData(item)) }
+              : undefined
+          },
+          include: TEMPLATE_INCLUDE
+        });
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'requisition_template',
+        resourceId: id,
+        oldValues: {
+          nextDueDate: existing.nextDueDate,
+          isActive: existing.isActive,
+          itemCount: existing.items.length
+        },
+        newValues: {
+          nextDueDate: template.nextDueDate,
+          isActive: template.isActive,
+          itemCount: data.items?.length ?? existing.items.length
+        },
+        vesselId: existing.vesselId
+      });
+
+      return template;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update requisition template', 500, 'TEMPLATE_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Get a template with its items
+   */
+  async getTemplateById(id: string): Promise<TemplateWithItems> {
+    try {
+      const template = await this.loadTemplate(id);
+
+      if (!template) {
+        throw new AppError('Requisition template not found', 404, 'TEMPLATE_NOT_FOUND');
+      }
+
+      return template;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get requisition template', 500, 'TEMPLATE_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * List templates, optionally for one vessel or limited to the vessels a user is assigned to
+   */
+  async getTemplates(filters: { vesselId?: string; vesselIds?: string[]; isActive?: boolean } = {}): Promise<RequisitionTemplate[]> {
+    try {
+      return await prisma.requisitionTemplate.findMany({
+        where: {
+          vesselId: filters.vesselId ?? (filters.vesselIds && { in: filters.vesselIds }),
+          isActive: filters.isActive
+        },
+        include: TEMPLATE_INCLUDE,
+        orderBy: { nextDueDate: 'asc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get requisition templates', 500, 'TEMPLATE_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Show the draft the scheduler would create for the next occurrence
+   */
+  async previewDraft(id: string): Promise<TemplateDraftPreview> {
+    try {
+      const template = await this.getTemplateById(id);
+      return await this.buildDraft(template);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to preview template draft', 500, 'TEMPLATE_PREVIEW_FAILED');
+    }
+  }
+
+  /**
+   * Draft the next occurrence now, regardless of lead time
+   */
+  async draftNow(id: string, userId: string): Promise<Requisition> {
+    try {
+      const template = await this.getTemplateById(id);
+
+      if (!template.isActive) {
+        throw new AppError('Requisition template is inactive', 400, 'TEMPLATE_INACTIVE');
+      }
+
+      return await this.createDraft(template, await this.buildDraft(template), userId);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to draft requisition from template', 500, 'TEMPLATE_DRAFT_FAILED');
+    }
+  }
+
+  /**
+   * Create DRAFT requisitions for every active template whose next delivery is within its lead time
+   */
+  async processDueTemplates(now: Date = new Date()): Promise<TemplateRunResult> {
+    const result: TemplateRunResult = { drafted: 0, skipped: 0, failed: 0 };
+
+    const templates = await prisma.requisitionTemplate.findMany({
+      where: { isActive: true },
+      include: TEMPLATE_INCLUDE
+    });
+
+    for (const template of templates) {
+      try {
+        const preview = await this.buildDraft(template, now);
+
+        if (preview.draftOn > now) {
+          result.skipped++;
+          continue;
+        }
+
+        await this.createDraft(template, preview, template.createdById, now);
+        result.drafted++;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to draft requisition from template ${template.id}:`, error);
+      }
+    }
+
+    if (result.drafted || result.failed) {
+      logger.info(`Requisition template run: ${result.drafted} drafted, ${result.failed} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Schedule the periodic template run
+   */
+  scheduleTemplateDrafting(): void {
+    setInterval(async () => {
+      try {
+        await this.processDueTemplates();
+      } catch (error) {
+        logger.error('Requisition template drafting failed:', error);
+      }
+    }, SCHEDULER_INTERVAL_MS);
+
+    logger.info('Requisition template drafting scheduled');
+  }
+
+  /**
+   * Next occurrence after a date under the template's recurrence rule
+   */
+  advanceDueDate(from: Date, unit: RecurrenceUnit, interval: number): Date {
+    const next = new Date(from);
+
+    switch (unit) {
+      case 'DAY':
+        next.setDate(next.getDate() + interval);
+        break;
+      case 'WEEK':
+        next.setDate(next.getDate() + interval * 7);
+        break;
+      case 'MONTH':
+        next.setMonth(next.getMonth() + interval);
+        break;
+    }
+
+    return next;
+  }
+
+  private loadTemplate(id: string) {
+    return prisma.requisitionTemplate.findUnique({
+      where: { id },
+      include: TEMPLATE_INCLUDE
+    });
+  }
+
+  /**
+   * Work out delivery port and date, crew scaling and the requisition payload for the next occurrence
+   */
+  private async buildDraft(template: TemplateWithItems, now: Date = new Date()): Promise<TemplateDraftPreview> {
+    const { vessel } = template;
+
+    // Deliver at the next port call if the vessel arrives there before the stores are due
+    const nextPortCall = vessel.currentETA && vessel.currentDestination
+      && vessel.currentETA > now && vessel.currentETA <= template.nextDueDate
+      ? { port: vessel.currentDestination, eta: vessel.currentETA }
+      : null;
+
+    // An occurrence missed while the scheduler was down is delivered as soon as the lead time allows
+    const earliestDelivery = new Date(now.getTime() + template.leadTimeDays * DAY_MS);
+    const dueDelivery = nextPortCall?.eta || template.nextDueDate;
+    const deliveryDate = dueDelivery < now ? earliestDelivery : dueDelivery;
+    const deliveryLocation = nextPortCall?.port || template.deliveryLocation || undefined;
+
+    const crewOnBoard = await this.getCrewOnBoard(vessel.id, vessel.crewComplement);
+    const crewScale = template.baseCrewSize > 0 ? crewOnBoard / template.baseCrewSize : 1;
+
+    const items = template.items.map(item => {
+      // Round away float noise before rounding up to whole units
+      const quantity = item.scaleWithCrew
+        ? Math.ceil(Math.round(item.quantity * crewScale * 100) / 100)
+        : item.quantity;
+      const unitPrice = item.unitPrice ?? item.itemCatalog.averagePrice ?? 0;
+
+      return {
+        itemCatalogId: item.itemCatalogId,
+        quantity,
+        unitPrice,
+        urgencyLevel: template.urgencyLevel,
+        justification: item.notes || undefined,
+        specifications: item.specifications ? { notes: item.specifications } : undefined
+      };
+    }).filter(item => item.quantity > 0);
+
+    const totalAmount = Math.round(items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0) * 100) / 100;
+
+    return {
+      templateId: template.id,
+      deliveryDate,
+      deliveryLocation,
+      draftOn: new Date(deliveryDate.getTime() - template.leadTimeDays * DAY_MS),
+      crewOnBoard,
+      crewScale: Math.round(crewScale * 100) / 100,
+      requisition: {
+        vesselId: template.vesselId,
+        urgencyLevel: template.urgencyLevel,
+        totalAmount,
+        currency: template.currency,
+        deliveryLocation,
+        deliveryDate,
+        justification: template.justification
+          || `Recurring order from template "${template.name}" for ${crewOnBoard} crew on board`,
+        templateId: template.id,
+        items
+      }
+    };
+  }
+
+  /**
+   * Create the draft and move the template on to its next occurrence
+   */
+  private async createDraft(
+    template: TemplateWithItems,
+    preview: TemplateDraftPreview,
+    userId: string,
+    now: Date = new Date()
+  ): Promise<Requisition> {
+    // Missed cycles are not back-filled; the next occurrence is always in the future
+    let nextDueDate = this.advanceDueDate(template.nextDueDate, template.recurrenceUnit, template.recurrenceInterval);
+    while (nextDueDate <= now) {
+      nextDueDate = this.advanceDueDate(nextDueDate, template.recurrenceUnit, template.recurrenceInterval);
+    }
+
+    const requisition = await prisma.$transaction(async (tx) => {
+      const created = await requisitionService.createRequisition(preview.requisition, userId, tx);
+
+      // Only move on from the occurrence that was drafted; a concurrent run has already drafted it otherwise
+      const advanced = await tx.requisitionTemplate.updateMany({
+        where: { id: template.id, nextDueDate: template.nextDueDate },
+        data: { nextDueDate, lastDraftedAt: now }
+      });
+
+      if (advanced.count === 0) {
+        throw new AppError('This occurrence has already been drafted', 409, 'TEMPLATE_ALREADY_DRAFTED');
+      }
+
+      return created;
+    });
+
+    await AuditService.log({
+      userId,
+      action: 'CREATE',
+      resource: 'requisition',
+      resourceId: requisition.id,
+      newValues: {
+        requisitionNumber: requisition.requisitionNumber,
+        status: requisition.status,
+        totalAmount: preview.requisition.totalAmount
+      },
+      vesselId: template.vesselId,
+      metadata: {
+        templateId: template.id,
+        crewOnBoard: preview.crewOnBoard,
+        crewScale: preview.crewScale,
+        nextDueDate
+      }
+    });
+
+    return requisition;
+  }
+
+  /**
+   * People currently on board, falling back to the vessel's designed complement when no assignments exist
+   */
+  private async getCrewOnBoard(vesselId: string, designedComplement: number): Promise<number> {
+    const complement = await crewRotationService.getVesselCrewComplement(vesselId);
+    const onBoard = complement
+      .filter(group => ON_BOARD_ROLES.includes(group.role))
+      .reduce((sum, group) => sum + group.currentCount, 0);
+
+    return onBoard > 0 ? onBoard : designedComplement;
+  }
+
+  private validateTemplate(data: {
+    recurrenceInterval?: number;
+    baseCrewSize: number;
+    leadTimeDays?: number;
+    items: { quantity: number }[];
+  }): void {
+    if (!data.items || data.items.length === 0) {
+      throw new AppError('Template must have at least one item', 400, 'TEMPLATE_ITEMS_REQUIRED');
+    }
+
+    if (data.items.some(item => item.quantity <= 0)) {
+      throw new AppError('Item quantities must be greater than zero', 400, 'INVALID_TEMPLATE_ITEM');
+    }
+
+    if (data.recurrenceInterval !== undefined && data.recurrenceInterval < 1) {
+      throw new AppError('Recurrence interval must be at least 1', 400, 'INVALID_RECURRENCE');
+    }
+
+    if (data.baseCrewSize < 1) {
+      throw new AppError('Base crew size must be at least 1', 400, 'INVALID_BASE_CREW_SIZE');
+    }
+
+    if (data.leadTimeDays !== undefined && data.leadTimeDays < 0) {
+      throw new AppError('Lead time cannot be negative', 400, 'INVALID_LEAD_TIME');
+    }
+  }
+
+  private toItemData(item: RequisitionTemplateItemData) {
+    return {
+      itemCatalogId: item.itemCatalogId,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      scaleWithCrew: item.scaleWithCrew,
+      specifications: item.specifications,
+      notes: item.notes
+    };
+  }
+}
+
+export const requisitionTemplateService = new RequisitionTemplateService();
@@ -0,0 +1,651 @@
+import { PrismaClient, Prisma, ReturnRequest, ReturnResolution, ReturnStatus } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { AuditService } from './auditService';
+import { emailService } from './emailService';
+import { deliveryService } from './deliveryService';
+import { inventoryService } from './inventoryService';
+import { vendorService } from './vendorService';
+import { adjustmentNoteService } from './adjustmentNoteService';
+
+const prisma = new PrismaClient();
+
+export const RETURN_REASONS = ['DAMAGED', 'WRONG_ITEM', 'DEFECTIVE', 'NOT_AS_SPECIFIED'] as const;
+
+export type ReturnReason = typeof RETURN_REASONS[number];
+
+export interface ReturnLineData {
+  deliveryLineId: string;
+  quantity: number;
+  notes?: string;
+}
+
+export interface ReturnRequestData {
+  deliveryId: string;
+  reason: ReturnReason;
+  description: string;
+  photoUrls?: string[];
+  lines: ReturnLineData[];
+}
+
+export interface ReturnAcknowledgementData {
+  accepted: boolean;
+  vendorReference?: string;
+  notes?: string;
+}
+
+/**
+ * Who acknowledged the return: a buyer recording the vendor's answer,
+ * or a vendor user acting through the portal
+ */
+export interface ReturnActor {
+  userId?: string;
+  vendorUserId?: string;
+}
+
+export interface ReturnPickupData {
+  portCode: string;
+  pickupDate: Date;
+  pickupAgent?: string;
+}
+
+export interface ReturnResolutionData {
+  resolution: ReturnResolution;
+  // Replacement delivery
+  scheduledDate?: Date;
+  deliveryAddress?: string;
+  carrier?: string;
+  // Credit note
+  invoiceId?: string;
+}
+
+export interface ReturnFilters {
+  vendorId?: string;
+  purchaseOrderId?: string;
+  deliveryId?: string;
+  status?: ReturnStatus;
+  // Limit to returns on these vessels' purchase orders
+  vesselIds?: string[];
+}
+
+// Requests in these statuses still hold their quantities against the delivery lines
+const ACTIVE_RETURN_STATUSES: ReturnStatus[] = [
+  ReturnStatus.REQUESTED,
+  ReturnStatus.ACKNOWLEDGED,
+  ReturnStatus.PICKUP_SCHEDULED,
+  ReturnStatus.COLLECTED,
+  ReturnStatus.RESOLVED
+];
+
+// Quality rating reduction per resolved return: a fixed base plus a share scaled by the returned value
+const QUALITY_PENALTY_BASE = 0.25;
+const QUALITY_PENALTY_VALUE_WEIGHT = 0.75;
+
+const RETURN_INCLUDE = {
+  lines: {
+    include: {
+      deliveryLine: {
+        include: {
+          poLineItem: true
+        }
+      }
+    }
+  },
+  delivery: {
+    select: { id: true, deliveryNumber: true, actualDate: true, deliveryAddress: true }
+  },
+  purchaseOrder: {
+    select: { id: true, poNumber: true, vesselId: true, totalAmount: true, currency: true, status: true }
+  },
+  vendor: {
+    select: { id: true, name: true, email: true, qualityRating: true }
+  }
+};
+
+class ReturnService {
+  /**
+   * Raise a return against damaged or wrong lines on a confirmed delivery
+   */
+  async createReturnRequest(data: ReturnRequestData, userId: string): Promise<ReturnRequest> {
+    try {
+      if (!data.lines || data.lines.length === 0) {
+        throw new AppError('At least one delivery line must be returned', 400, 'NO_RETURN_LINES');
+      }
+
+      const delivery = await prisma.delivery.findUnique({
+        where: { id: data.deliveryId },
+        include: {
+          purchaseOrder: {
+            include: {
+              vendor: true
+            }
+          },
+          lines: {
+            include: {
+              returnLines: {
+                where: { returnRequest: { status: { in: ACTIVE_RETURN_STATUSES } } }
+              }
+            }
+          }
+        }
+      });
+
+      if (!delivery) {
+        throw new AppError('Delivery not found', 404, 'DELIVERY_NOT_FOUND');
+      }
+
+      if (delivery.status !== 'DELIVERED') {
+        throw new AppError('Only confirmed deliveries can be returned', 400, 'DELIVERY_NOT_CONFIRMED');
+      }
+
+      const deliveryLines = new Map(delivery.lines.map(line => [line.id, line]));
+
+      // Take returned quantities from what was rejected at receipt first, then from accepted stock
+      const returnLines = data.lines.map(line => {
+        const deliveryLine = deliveryLines.get(line.deliveryLineId);
+
+        if (!deliveryLine) {
+          throw new AppError(`Line ${line.deliveryLineId} is not on this delivery`, 400, 'INVALID_RETURN_LINE');
+        }
+
+        if (line.quantity <= 0) {
+          throw new AppError('Returned quantity must be greater than zero', 400, 'INVALID_RETURN_QUANTITY');
+        }
+
+        const alreadyDamaged = deliveryLine.returnLines.reduce((sum, r) => sum + r.damagedQuantity, 0);
+        const alreadyAccepted = deliveryLine.returnLines.reduce((sum, r) => sum + r.acceptedQuantity, 0);
+        const availableDamaged = Math.max(0, deliveryLine.damagedQuantity - alreadyDamaged);
+        const availableAccepted = Math.max(0, deliveryLine.receivedQuantity - alreadyAccepted);
+
+        if (line.quantity > availableDamaged + availableAccepted) {
+          throw new AppError(
+            `Cannot return ${line.quantity}; only ${availableDamaged + availableAccepted} left to return on line ${line.deliveryLineId}`,
+            400,
+            'RETURN_QUANTITY_EXCEEDED'
+          );
+        }
+
+        const damagedQuantity = Math.min(line.quantity, availableDamaged);
+
+        return {
+          deliveryLineId: line.deliveryLineId,
+          quantity: line.quantity,
+          damagedQuantity,
+          acceptedQuantity: line.quantity - damagedQuantity,
+          notes: line.notes
+        };
+      });
+
+      const rmaNumber = await this.generateRmaNumber();
+
+      const returnRequest = await prisma.returnRequest.create({
+        data: {
+          rmaNumber,
+          deliveryId: delivery.id,
+          purchaseOrderId: delivery.purchaseOrderId,
+          vendorId: delivery.purchaseOrder.vendorId,
+          reason: data.reason,
+          description: data.description,
+          photoUrls: data.photoUrls || [],
+          createdById: userId,
+          lines: {
+            create: returnLines
+          }
+        },
+        include: RETURN_INCLUDE
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'return_request',
+        resourceId: returnRequest.id,
+        newValues: {
+          rmaNumber,
+          deliveryId: delivery.id,
+          reason: data.reason,
+          lines: returnLines
+        },
+        vesselId: delivery.purchaseOrder.vesselId,
+        metadata: {
+          deliveryNumber: delivery.deliveryNumber,
+          poNumber: delivery.purchaseOrder.poNumber
+        }
+      });
+
+      if (delivery.purchaseOrder.vendor.email) {
+        await emailService.sendEmail({
+          to: delivery.purchaseOrder.vendor.email,
+          subject: `Return request ${rmaNumber} - PO ${delivery.purchaseOrder.poNumber}`,
+          body: [
+            `We are returning goods from delivery ${delivery.deliveryNumber} against purchase order ${delivery.purchaseOrder.poNumber}.`,
+            `Reason: ${data.reason.replace(/_/g, ' ').toLowerCase()}`,
+            data.description,
+            'Please acknowledge the return through the vendor portal and confirm a pickup arrangement.'
+          ].join('\n\n'),
+          type: 'return_request'
+        });
+      }
+
+      return returnRequest;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create return request', 500, 'RETURN_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Record the vendor accepting or disputing a return
+   */
+  async acknowledgeReturn(returnId: string, data: ReturnAcknowledgementData, actor: ReturnActor): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnRequestById(returnId);
+
+      if (returnRequest.status !== ReturnStatus.REQUESTED) {
+        throw new AppError(`Cannot acknowledge a return in ${returnRequest.status} status`, 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const status = data.accepted ? ReturnStatus.ACKNOWLEDGED : ReturnStatus.REJECTED;
+
+      const updated = await prisma.returnRequest.update({
+        where: { id: returnId },
+        data: {
+          status,
+          vendorReference: data.vendorReference,
+          vendorNotes: data.notes,
+          acknowledgedAt: new Date(),
+          acknowledgedById: actor.vendorUserId
+        },
+        include: RETURN_INCLUDE
+      });
+
+      await AuditService.log({
+        userId: actor.userId,
+        action: data.accepted ? 'APPROVE' : 'REJECT',
+        resource: 'return_request',
+        resourceId: returnId,
+        oldValues: { status: returnRequest.status },
+        newValues: { status, vendorReference: data.vendorReference },
+        vesselId: returnRequest.purchaseOrder.vesselId,
+        metadata: {
+          source: actor.vendorUserId ? 'VENDOR_PORTAL' : 'INTERNAL',
+          vendorUserId: actor.vendorUserId,
+          rmaNumber: returnRequest.rmaNumber
+        }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to acknowledge return', 500, 'RETURN_ACKNOWLEDGEMENT_FAILED');
+    }
+  }
+
+  /**
+   * Arrange (or rearrange) collection of the returned goods at a port
+   */
+  async schedulePickup(returnId: string, data: ReturnPickupData, userId: string): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnRequestById(returnId);
+
+      if (returnRequest.status !== ReturnStatus.ACKNOWLEDGED && returnRequest.status !== ReturnStatus.PICKUP_SCHEDULED) {
+        throw new AppError('Pickup can only be scheduled once the vendor has acknowledged the return', 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const portCode = data.portCode.toUpperCase();
+      const port = await deliveryService.getPortInfo(portCode);
+
+      const updated = await prisma.returnRequest.update({
+        where: { id: returnId },
+        data: {
+          status: ReturnStatus.PICKUP_SCHEDULED,
+          pickupPortCode: portCode,
+          pickupPortName: port?.portName,
+          pickupDate: data.pickupDate,
+          pickupAgent: data.pickupAgent
+        },
+        include: RETURN_INCLUDE
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'return_request',
+        resourceId: returnId,
+        oldValues: {
+          status: returnRequest.status,
+          pickupPortCode: returnRequest.pickupPortCode,
+          pickupDate: returnRequest.pickupDate
+        },
+        newValues: {
+          status: ReturnStatus.PICKUP_SCHEDULED,
+          pickupPortCode: portCode,
+          pickupDate: data.pickupDate
+        },
+        vesselId: returnRequest.purchaseOrder.vesselId
+      });
+
+      if (returnRequest.vendor.email) {
+        await emailService.sendEmail({
+          to: returnRequest.vendor.email,
+          subject: `Return ${returnRequest.rmaNumber} - pickup arranged`,
+          body: `Goods for return ${returnRequest.rmaNumber} will be ready for collection at ${port?.portName || portCode} on ${data.pickupDate.toISOString().split('T')[0]}${data.pickupAgent ? ` through ${data.pickupAgent}` : ''}.`,
+          type: 'return_pickup'
+        });
+      }
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to schedule return pickup', 500, 'RETURN_PICKUP_FAILED');
+    }
+  }
+
+  /**
+   * Confirm the vendor has collected the goods. Anything that had been taken into
+   * stock is issued back out of the vessel's inventory.
+   */
+  async confirmCollection(returnId: string, userId: string, collectedAt: Date = new Date()): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnRequestById(returnId);
+
+      if (returnRequest.status !== ReturnStatus.PICKUP_SCHEDULED) {
+        throw new AppError('Only returns with a scheduled pickup can be collected', 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        // Claim the return first so a second confirmation cannot issue the goods out again
+        const claimed = await tx.returnRequest.updateMany({
+          where: { id: returnId, status: ReturnStatus.PICKUP_SCHEDULED },
+          data: {
+            status: ReturnStatus.COLLECTED,
+            collectedAt
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw new AppError('Return has already been collected', 409, 'RETURN_ALREADY_COLLECTED');
+        }
+
+        for (const line of returnRequest.lines.filter(l => l.acceptedQuantity > 0)) {
+          const itemCatalogId = line.deliveryLine.poLineItem.itemCatalogId;
+
+          if (itemCatalogId) {
+            await inventoryService.recordIssue({
+              vesselId: returnRequest.purchaseOrder.vesselId,
+              itemCatalogId,
+              quantity: line.acceptedQuantity,
+              type: 'ISSUE',
+              reference: returnRequest.rmaNumber,
+              notes: `Returned to vendor on ${returnRequest.rmaNumber}`
+            }, userId, tx);
+          }
+
+          await tx.deliveryLine.update({
+            where: { id: line.deliveryLineId },
+            data: { returnedQuantity: { increment: line.acceptedQuantity } }
+          });
+        }
+
+        return tx.returnRequest.findUniqueOrThrow({
+          where: { id: returnId },
+          include: RETURN_INCLUDE
+        });
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'return_request',
+        resourceId: returnId,
+        oldValues: { status: returnRequest.status },
+        newValues: { status: ReturnStatus.COLLECTED, collectedAt },
+        vesselId: returnRequest.purchaseOrder.vesselId
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to confirm return collection', 500, 'RETURN_COLLECTION_FAILED');
+    }
+  }
+
+  /**
+   * Close the return with a replacement delivery or a credit note,
+   * and mark the vendor's quality rating down accordingly
+   */
+  async resolveReturn(returnId: string, data: ReturnResolutionData, userId: string): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnRequestById(returnId);
+
+      // The goods must have left the vessel before it is made whole by a replacement or credit
+      if (returnRequest.status !== ReturnStatus.COLLECTED) {
+        throw new AppError(`Cannot resolve a return in ${returnRequest.status} status`, 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const returnedValue = returnRequest.lines.reduce(
+        (sum, line) => sum + line.quantity * line.deliveryLine.poLineItem.unitPrice,
+        0
+      );
+
+      const resolved = {
+        status: ReturnStatus.RESOLVED,
+        resolution: data.resolution,
+        resolvedAt: new Date(),
+        resolvedById: userId
+      };
+      const resolutionData: Prisma.ReturnRequestUncheckedUpdateInput = { ...resolved };
+
+      if (data.resolution === ReturnResolution.REPLACEMENT && !data.scheduledDate) {
+        throw new AppError('A scheduled date is required for a replacement delivery', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const invoice = data.resolution === ReturnResolution.CREDIT
+        ? await prisma.invoice.findFirst({
+            where: {
+              purchaseOrderId: returnRequest.purchaseOrderId,
+              id: data.invoiceId,
+              status: { not: 'REJECTED' }
+            },
+            orderBy: { invoiceDate: 'desc' }
+          })
+        : null;
+
+      if (data.resolution === ReturnResolution.CREDIT && !invoice) {
+        throw new AppError('No invoice on this purchase order to credit', 400, 'NO_INVOICE_TO_CREDIT');
+      }
+
+      // Claim the return before raising the replacement or credit, so a concurrent resolution cannot raise a second one
+      const claimed = await prisma.returnRequest.updateMany({
+        where: { id: returnId, status: ReturnStatus.COLLECTED },
+        data: resolved
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError('Return has already been resolved', 409, 'RETURN_ALREADY_RESOLVED');
+      }
+
+      try {
+        if (invoice) {
+          const creditNote = await adjustmentNoteService.createAdjustmentNote({
+            invoiceId: invoice.id,
+            type: 'CREDIT',
+            reasonCode: 'RETURN',
+            reason: `Return ${returnRequest.rmaNumber}: ${returnRequest.description}`,
+            vendorReference: returnRequest.vendorReference || undefined,
+            resolvesDispute: false,
+            lineItems: returnRequest.lines.map(line => ({
+              poLineItemId: line.deliveryLine.poLineItemId,
+              description: line.deliveryLine.poLineItem.itemDescription,
+              quantity: line.quantity,
+              unitPrice: line.deliveryLine.poLineItem.unitPrice,
+              amount: Math.round(line.quantity * line.deliveryLine.poLineItem.unitPrice * 100) / 100
+            }))
+          }, userId);
+
+          resolutionData.adjustmentNoteId = creditNote.id;
+        } else {
+          const replacement = await deliveryService.scheduleReplacementDelivery({
+            purchaseOrderId: returnRequest.purchaseOrderId,
+            scheduledDate: data.scheduledDate as Date,
+            deliveryAddress: data.deliveryAddress || returnRequest.delivery.deliveryAddress || '',
+            carrier: data.carrier,
+            notes: this.describeLines(returnRequest)
+          }, returnRequest.rmaNumber, userId);
+
+          resolutionData.replacementDeliveryId = replacement.id;
+        }
+      } catch (error) {
+        // Hand the return back so the resolution can be retried
+        await prisma.returnRequest.update({
+          where: { id: returnId },
+          data: {
+            status: ReturnStatus.COLLECTED,
+            resolution: null,
+            resolvedAt: null,
+            resolvedById: null
+          }
+        });
+        throw error;
+      }
+
+      const qualityImpact = this.calculateQualityImpact(returnedValue, returnRequest.purchaseOrder.totalAmount);
+      resolutionData.qualityImpact = qualityImpact;
+
+      const updated = await prisma.returnRequest.update({
+        where: { id: returnId },
+        data: resolutionData,
+        include: RETURN_INCLUDE
+      });
+
+      await vendorService.updateVendorPerformance({
+        vendorId: returnRequest.vendorId,
+        qualityRating: Math.max(0, Math.round((returnRequest.vendor.qualityRating - qualityImpact) * 100) / 100)
+      }, userId);
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'return_request',
+        resourceId: returnId,
+        oldValues: { status: returnRequest.status },
+        newValues: {
+          status: ReturnStatus.RESOLVED,
+          resolution: data.resolution,
+          replacementDeliveryId: resolutionData.replacementDeliveryId,
+          adjustmentNoteId: resolutionData.adjustmentNoteId,
+          qualityImpact
+        },
+        vesselId: returnRequest.purchaseOrder.vesselId,
+        metadata: {
+          rmaNumber: returnRequest.rmaNumber,
+          returnedValue
+        }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to resolve return', 500, 'RETURN_RESOLUTION_FAILED');
+    }
+  }
+
+  /**
+   * Withdraw a return before the goods have been collected
+   */
+  async cancelReturn(returnId: string, userId: string, reason?: string): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnRequestById(returnId);
+
+      if (returnRequest.status === ReturnStatus.COLLECTED ||
+          returnRequest.status === ReturnStatus.RESOLVED ||
+          returnRequest.status === ReturnStatus.CANCELLED) {
+        throw new AppError(`Cannot cancel a return in ${returnRequest.status} status`, 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const updated = await prisma.returnRequest.update({
+        where: { id: returnId },
+        data: { status: ReturnStatus.CANCELLED },
+        include: RETURN_INCLUDE
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'return_request',
+        resourceId: returnId,
+        oldValues: { status: returnRequest.status },
+        newValues: { status: ReturnStatus.CANCELLED },
+        vesselId: returnRequest.purchaseOrder.vesselId,
+        metadata: { reason }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to cancel return', 500, 'RETURN_CANCEL_FAILED');
+    }
+  }
+
+  /**
+   * Get a return with its lines, delivery, purchase order and vendor
+   */
+  async getReturnRequestById(returnId: string) {
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id: returnId },
+      include: RETURN_INCLUDE
+    });
+
+    if (!returnRequest) {
+      throw new AppError('Return request not found', 404, 'RETURN_NOT_FOUND');
+    }
+
+    return returnRequest;
+  }
+
+  /**
+   * List returns for a vendor, purchase order or delivery
+   */
+  async getReturnRequests(filters: ReturnFilters = {}) {
+    return prisma.returnRequest.findMany({
+      where: {
+        vendorId: filters.vendorId,
+        purchaseOrderId: filters.purchaseOrderId,
+        deliveryId: filters.deliveryId,
+        status: filters.status,
+        purchaseOrder: filters.vesselIds && { vesselId: { in: filters.vesselIds } }
+      },
+      include: RETURN_INCLUDE,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Quality rating reduction for a return, scaled by its share of the order value
+   */
+  calculateQualityImpact(returnedValue: number, orderValue: number): number {
+    const valueShare = orderValue > 0 ? Math.min(1, returnedValue / orderValue) : 1;
+    return Math.round((QUALITY_PENALTY_BASE + QUALITY_PENALTY_VALUE_WEIGHT * valueShare) * 100) / 100;
+  }
+
+  private describeLines(returnRequest: Awaited<ReturnType<ReturnService['getReturnRequestById']>>): string {
+    return returnRequest.lines
+      .map(line => `${line.quantity} x ${line.deliveryLine.poLineItem.itemDescription}`)
+      .join('\n');
+  }
+
+  private async generateRmaNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const count = await prisma.returnRequest.count({
+      where: {
+        createdAt: {
+          gte: new Date(year, 0, 1),
+          lt: new Date(year + 1, 0, 1)
+        }
+      }
+    });
+
+    return `RMA-${year}-${String(count + 1).padStart(4, '0')}`;
+  }
+}
+
+export const returnService = new ReturnService();
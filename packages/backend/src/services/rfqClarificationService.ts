@@ -0,0 +1,580 @@
+import { PrismaClient, ClarificationVisibility, Prisma, Requisition, RFQAddendum, RFQClarification, Vendor } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './auditService';
+import { emailService, EmailData } from './emailService';
+import { exchangeRateIntegrationService } from './exchangeRateIntegrationService';
+import { rfqDeadlineService } from './rfqDeadlineService';
+import { workflowEngine, REQUISITION_WORKFLOW_INCLUDE } from './workflowEngine';
+
+const prisma = new PrismaClient();
+
+// RFQs still open to vendor questions and formal changes
+const OPEN_RFQ_STATUSES = ['SENT', 'RESPONSES_RECEIVED'];
+
+// An RFQ that closed with too few responses can be reopened by extending its deadline
+const AMENDABLE_RFQ_STATUSES = [...OPEN_RFQ_STATUSES, 'INSUFFICIENT_RESPONSES'];
+
+export interface ClarificationAsker {
+  vendorUserId: string;
+  vendorId: string;
+}
+
+export interface ClarificationAnswerData {
+  answer: string;
+  visibility: ClarificationVisibility;
+}
+
+export interface AddendumLineChange {
+  action: 'ADD' | 'UPDATE' | 'REMOVE';
+  requisitionItemId?: string; // UPDATE / REMOVE
+  itemCatalogId?: string;     // ADD
+  quantity?: number;
+  unitPrice?: number;         // ADD; defaults to the catalogue average price
+  specifications?: string;
+  notes?: string;
+}
+
+export interface RFQAddendumData {
+  description: string;
+  lineChanges?: AddendumLineChange[];
+  responseDeadline?: Date;
+}
+
+class RFQClarificationService {
+  /**
+   * Record a vendor question against an RFQ the vendor was invited to
+   */
+  async askQuestion(rfqId: string, question: string, asker: ClarificationAsker): Promise<RFQClarification> {
+    try {
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        select: { id: true, rfqNumber: true, status: true, responseDeadline: true, requisition: { select: { vesselId: true } } }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      if (!OPEN_RFQ_STATUSES.includes(rfq.status)) {
+        throw new AppError('RFQ is no longer open for clarifications', 400, 'RFQ_CLOSED');
+      }
+
+      if (rfq.responseDeadline && rfq.responseDeadline < new Date()) {
+        throw new AppError('The response deadline for this RFQ has passed', 400, 'RESPONSE_DEADLINE_PASSED');
+      }
+
+      if (!question.trim()) {
+        throw new AppError('Question is required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const clarification = await prisma.rFQClarification.create({
+        data: {
+          rfqId,
+          vendorId: asker.vendorId,
+          askedById: asker.vendorUserId,
+          question: question.trim()
+        }
+      });
+
+      await AuditService.log({
+        action: 'CREATE',
+        resource: 'rfq_clarification',
+        resourceId: clarification.id,
+        newValues: { question: clarification.question },
+        vesselId: rfq.requisition.vesselId,
+        metadata: {
+          source: 'VENDOR_PORTAL',
+          ...asker,
+          rfqId,
+          rfqNumber: rfq.rfqNumber
+        }
+      });
+
+      return clarification;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to submit clarification question', 500, 'CLARIFICATION_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Answer a vendor question, either to every invited vendor or to the asker only
+   */
+  async answerQuestion(rfqId: string, clarificationId: string, data: ClarificationAnswerData, userId: string): Promise<RFQClarification> {
+    try {
+      const clarification = await prisma.rFQClarification.findUnique({
+        where: { id: clarificationId },
+        include: {
+          vendor: true,
+          rfq: {
+            include: {
+              requisition: { select: { vesselId: true } },
+              vendors: {
+                where: { sentAt: { not: null } },
+                include: { vendor: true }
+              }
+            }
+          }
+        }
+      });
+
+      if (!clarification || clarification.rfqId !== rfqId) {
+        throw new AppError('Clarification not found', 404, 'CLARIFICATION_NOT_FOUND');
+      }
+
+      if (clarification.answeredAt) {
+        throw new AppError('Clarification has already been answered', 400, 'CLARIFICATION_ALREADY_ANSWERED');
+      }
+
+      if (!data.answer.trim()) {
+        throw new AppError('Answer is required', 400, 'MISSING_REQUIRED_FIELDS');
+      }
+
+      const updated = await prisma.rFQClarification.update({
+        where: { id: clarificationId },
+        data: {
+          answer: data.answer.trim(),
+          visibility: data.visibility,
+          answeredById: userId,
+          answeredAt: new Date()
+        }
+      });
+
+      const { rfq } = clarification;
+      const recipients = data.visibility === ClarificationVisibility.PUBLIC
+        ? rfq.vendors.map(invitation => invitation.vendor)
+        : [clarification.vendor];
+
+      // Public answers go out without the asking vendor's identity
+      const notification = await emailService.sendBulkEmails(
+        this.toEmails(recipients, `Clarification on RFQ ${rfq.rfqNumber}`, [
+          `A clarification has been issued on RFQ ${rfq.rfqNumber} - ${rfq.title}.`,
+          `Question: ${clarification.question}`,
+          `Answer: ${updated.answer}`,
+          'The full Q&A thread is available in the FlowMarine vendor portal.'
+        ].join('\n\n'), 'rfq_clarification')
+      );
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'rfq_clarification',
+        resourceId: clarificationId,
+        newValues: { visibility: data.visibility, answered: true },
+        vesselId: rfq.requisition.vesselId,
+        metadata: {
+          rfqId: rfq.id,
+          rfqNumber: rfq.rfqNumber,
+          notifiedVendors: notification.sent,
+          failedNotifications: notification.failed
+        }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to answer clarification', 500, 'CLARIFICATION_ANSWER_FAILED');
+    }
+  }
+
+  /**
+   * Full Q&A thread for an RFQ, including who asked
+   */
+  async getClarifications(rfqId: string): Promise<RFQClarification[]> {
+    try {
+      return await prisma.rFQClarification.findMany({
+        where: { rfqId },
+        include: {
+          vendor: { select: { id: true, name: true, code: true } },
+          askedBy: { select: { firstName: true, lastName: true, email: true } },
+          answeredBy: { select: { firstName: true, lastName: true } }
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get clarifications', 500, 'CLARIFICATIONS_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * The thread as one vendor may see it: its own questions plus answered public ones,
+   * without revealing which vendor asked
+   */
+  async getVendorClarifications(rfqId: string, vendorId: string): Promise<any[]> {
+    try {
+      const clarifications = await prisma.rFQClarification.findMany({
+        where: {
+          rfqId,
+          OR: [
+            { vendorId },
+            { visibility: ClarificationVisibility.PUBLIC, answeredAt: { not: null } }
+          ]
+        },
+        select: {
+          id: true,
+          vendorId: true,
+          question: true,
+          answer: true,
+          visibility: true,
+          answeredAt: true,
+          createdAt: true
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return clarifications.map(({ vendorId: askingVendorId, ...clarification }) => ({
+        ...clarification,
+        askedByYou: askingVendorId === vendorId
+      }));
+    } catch (error) {
+      throw new AppError('Failed to get clarifications', 500, 'CLARIFICATIONS_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Issue a formal addendum changing line items and/or the response deadline.
+   * Raises the RFQ revision, supersedes open quotes priced against an earlier
+   * revision and re-notifies every invited vendor.
+   */
+  async issueAddendum(rfqId: string, data: RFQAddendumData, userId: string): Promise<RFQAddendum> {
+    try {
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        include: {
+          requisition: {
+            include: {
+              items: {
+                include: { itemCatalog: { select: { name: true } } }
+              }
+            }
+          },
+          vendors: {
+            where: { sentAt: { not: null } },
+            include: { vendor: true }
+          }
+        }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      if (!AMENDABLE_RFQ_STATUSES.includes(rfq.status)) {
+        throw new AppError(`Cannot issue an addendum for an RFQ in ${rfq.status} status`, 400, 'INVALID_STATUS_TRANSITION');
+      }
+
+      const lineChanges = data.lineChanges || [];
+
+      if (lineChanges.length === 0 && !data.responseDeadline) {
+        throw new AppError('An addendum must change line items or the response deadline', 400, 'ADDENDUM_EMPTY');
+      }
+
+      // Consolidated RFQs carry per-vessel splits that line changes would desynchronise
+      if (lineChanges.length > 0 && rfq.isConsolidated) {
+        throw new AppError('Line items of a consolidated RFQ cannot be changed by addendum', 400, 'CONSOLIDATED_RFQ_LINE_CHANGE');
+      }
+
+      if (data.responseDeadline && data.responseDeadline <= new Date()) {
+        throw new AppError('Response deadline must be in the future', 400, 'INVALID_RESPONSE_DEADLINE');
+      }
+
+      const reopening = rfq.status === 'INSUFFICIENT_RESPONSES';
+      if (reopening && !data.responseDeadline) {
+        throw new AppError('Reopening an RFQ requires a new response deadline', 400, 'DEADLINE_EXTENSION_REQUIRED');
+      }
+
+      if (
+        data.responseDeadline &&
+        rfq.responseDeadline &&
+        data.responseDeadline < rfq.responseDeadline &&
+        rfqDeadlineService.isSealed(rfq)
+      ) {
+        throw new AppError('The response deadline of a sealed RFQ cannot be brought forward', 400, 'SEALED_DEADLINE_LOCKED');
+      }
+
+      const itemsById = new Map(rfq.requisition.items.map(item => [item.id, item]));
+      let remainingLines = rfq.requisition.items.length;
+
+      for (const change of lineChanges) {
+        if (change.action === 'ADD') {
+          if (!change.itemCatalogId || !change.quantity || change.quantity <= 0) {
+            throw new AppError('Added lines need an item and a positive quantity', 400, 'INVALID_LINE_CHANGE');
+          }
+          remainingLines++;
+          continue;
+        }
+
+        if (!change.requisitionItemId || !itemsById.has(change.requisitionItemId)) {
+          throw new AppError(`Line ${change.requisitionItemId} is not part of this RFQ`, 400, 'INVALID_LINE_CHANGE');
+        }
+
+        if (change.action === 'REMOVE') {
+          remainingLines--;
+        } else if (change.quantity !== undefined && change.quantity <= 0) {
+          throw new AppError('Quantities must be positive', 400, 'INVALID_LINE_CHANGE');
+        }
+      }
+
+      if (remainingLines <= 0) {
+        throw new AppError('An addendum cannot remove every line item', 400, 'INVALID_LINE_CHANGE');
+      }
+
+      const addedUnitPrices = await this.priceAddedLines(lineChanges, rfq.currency);
+      const revision = rfq.revision + 1;
+
+      const { addendum, quotesInvalidated, valueChanged } = await prisma.$transaction(async (tx) => {
+        const appliedChanges: Record<string, unknown>[] = [];
+
+        for (const change of lineChanges) {
+          if (change.action === 'ADD') {
+            const unitPrice = addedUnitPrices.get(change)!;
+            const created = await tx.requisitionItem.create({
+              data: {
+                requisitionId: rfq.requisitionId,
+                itemCatalogId: change.itemCatalogId!,
+                quantity: change.quantity!,
+                unitPrice,
+                totalPrice: Math.round(change.quantity! * unitPrice * 100) / 100,
+                currency: rfq.currency,
+                specifications: change.specifications,
+                notes: change.notes
+              }
+            });
+            appliedChanges.push({
+              action: 'ADD',
+              requisitionItemId: created.id,
+              itemCatalogId: created.itemCatalogId,
+              after: { quantity: created.quantity, specifications: created.specifications }
+            });
+            continue;
+          }
+
+          const item = itemsById.get(change.requisitionItemId!)!;
+          const before = { quantity: item.quantity, specifications: item.specifications, notes: item.notes };
+
+          if (change.action === 'REMOVE') {
+            await tx.requisitionItem.delete({ where: { id: item.id } });
+            appliedChanges.push({ action: 'REMOVE', requisitionItemId: item.id, itemCatalogId: item.itemCatalogId, itemName: item.itemCatalog.name, before });
+            continue;
+          }
+
+          const quantity = change.quantity ?? item.quantity;
+          const updated = await tx.requisitionItem.update({
+            where: { id: item.id },
+            data: {
+              quantity,
+              totalPrice: item.unitPrice !== null ? Math.round(quantity * item.unitPrice * 100) / 100 : item.totalPrice,
+              specifications: change.specifications ?? item.specifications,
+              notes: change.notes ?? item.notes
+            }
+          });
+          appliedChanges.push({
+            action: 'UPDATE',
+            requisitionItemId: item.id,
+            itemCatalogId: item.itemCatalogId,
+            itemName: item.itemCatalog.name,
+            before,
+            after: { quantity: updated.quantity, specifications: updated.specifications, notes: updated.notes }
+          });
+        }
+
+        // The requisition was approved at its old value; a changed value is held until it is approved again
+        let valueChanged = false;
+        if (appliedChanges.length > 0) {
+          const lineTotals = await tx.requisitionItem.aggregate({
+            where: { requisitionId: rfq.requisitionId },
+            _sum: { totalPrice: true }
+          });
+          const totalAmount = Math.round((lineTotals._sum.totalPrice || 0) * 100) / 100;
+          valueChanged = Math.abs(totalAmount - rfq.requisition.totalAmount) >= 0.005;
+
+          if (valueChanged) {
+            await tx.requisition.update({
+              where: { id: rfq.requisitionId },
+              data: { totalAmount, status: 'UNDER_REVIEW' }
+            });
+          }
+        }
+
+        // Open quotes were priced against the old revision and must be resubmitted
+        const superseded = await tx.quote.updateMany({
+          where: {
+            rfqId,
+            status: { in: ['PENDING', 'SUBMITTED'] },
+            rfqRevision: { lt: revision }
+          },
+          data: { status: 'SUPERSEDED' }
+        });
+
+        await tx.rFQ.update({
+          where: { id: rfqId },
+          data: {
+            revision,
+            responseDeadline: data.responseDeadline ?? rfq.responseDeadline,
+            status: superseded.count > 0 || reopening ? 'SENT' : rfq.status,
+            // A reopened RFQ is closed again by the deadline job; sealed bidding restarts with it
+            ...(reopening ? { responsesClosedAt: null, unsealedAt: null, unsealedById: null } : {})
+          }
+        });
+
+        // Flag the RFQ as unread again in every invited vendor's portal
+        await tx.rFQVendor.updateMany({
+          where: { rfqId, sentAt: { not: null } },
+          data: { viewedAt: null }
+        });
+
+        const created = await tx.rFQAddendum.create({
+          data: {
+            rfqId,
+            revision,
+            description: data.description,
+            lineChanges: appliedChanges.length > 0 ? (appliedChanges as Prisma.InputJsonValue) : undefined,
+            previousDeadline: data.responseDeadline ? rfq.responseDeadline : undefined,
+            newDeadline: data.responseDeadline,
+            quotesInvalidated: superseded.count,
+            issuedById: userId
+          }
+        });
+
+        return { addendum: created, quotesInvalidated: superseded.count, valueChanged };
+      });
+
+      const deadline = data.responseDeadline ?? rfq.responseDeadline;
+      const notification = await emailService.sendBulkEmails(
+        this.toEmails(rfq.vendors.map(invitation => invitation.vendor), `Addendum ${revision - 1} to RFQ ${rfq.rfqNumber}`, [
+          `RFQ ${rfq.rfqNumber} - ${rfq.title} has been amended (revision ${revision}).`,
+          data.description,
+          lineChanges.length > 0 ? `${lineChanges.length} line item(s) changed.` : '',
+          deadline ? `Response deadline: ${deadline.toDateString()}` : '',
+          'Quotes submitted against an earlier revision are no longer valid. Please review the changes and resubmit your quotation in the FlowMarine vendor portal.'
+        ].filter(Boolean).join('\n\n'), 'rfq_addendum')
+      );
+
+      if (notification.failed > 0) {
+        logger.warn(`Addendum ${addendum.id} notification failed for ${notification.failed} vendor(s)`);
+      }
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'rfq_addendum',
+        resourceId: addendum.id,
+        oldValues: { revision: rfq.revision, responseDeadline: rfq.responseDeadline },
+        newValues: { revision, responseDeadline: deadline, lineChanges: lineChanges.length, quotesInvalidated },
+        vesselId: rfq.requisition.vesselId,
+        metadata: {
+          rfqId,
+          rfqNumber: rfq.rfqNumber,
+          notifiedVendors: notification.sent,
+          requisitionValueChanged: valueChanged
+        }
+      });
+
+      if (valueChanged) {
+        await this.resubmitForApproval(rfq.requisitionId, rfq.requisition.status, userId);
+      }
+
+      return addendum;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to issue addendum', 500, 'ADDENDUM_ISSUE_FAILED');
+    }
+  }
+
+  /**
+   * List addenda issued against an RFQ, oldest first
+   */
+  async getAddenda(rfqId: string): Promise<RFQAddendum[]> {
+    try {
+      return await prisma.rFQAddendum.findMany({
+        where: { rfqId },
+        orderBy: { revision: 'asc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get addenda', 500, 'ADDENDA_FETCH_FAILED');
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Unit price of each added line in the RFQ currency, from the addendum or the catalogue average price
+   */
+  private async priceAddedLines(lineChanges: AddendumLineChange[], currency: string): Promise<Map<AddendumLineChange, number>> {
+    const added = lineChanges.filter(change => change.action === 'ADD');
+    const prices = new Map<AddendumLineChange, number>();
+
+    if (added.length === 0) {
+      return prices;
+    }
+
+    const catalogItems = await prisma.itemCatalog.findMany({
+      where: { id: { in: added.map(change => change.itemCatalogId!) } },
+      select: { id: true, name: true, averagePrice: true, averagePriceCurrency: true }
+    });
+    const catalogById = new Map(catalogItems.map(item => [item.id, item]));
+
+    for (const change of added) {
+      const item = catalogById.get(change.itemCatalogId!);
+
+      if (change.unitPrice !== undefined) {
+        if (change.unitPrice < 0) {
+          throw new AppError('Unit prices cannot be negative', 400, 'INVALID_LINE_CHANGE');
+        }
+        prices.set(change, change.unitPrice);
+      } else if (item?.averagePrice != null) {
+        prices.set(change, item.averagePriceCurrency === currency
+          ? item.averagePrice
+          : (await exchangeRateIntegrationService.convertCurrency(item.averagePrice, item.averagePriceCurrency, currency)).convertedAmount);
+      } else {
+        throw new AppError(
+          `${item?.name ?? change.itemCatalogId} has no catalogue price; give the added line a unit price`,
+          400,
+          'INVALID_LINE_CHANGE'
+        );
+      }
+    }
+
+    return prices;
+  }
+
+  /**
+   * Route a requisition whose value an addendum changed through the approval workflow again.
+   * If no approval is needed after all it returns to the status it had.
+   */
+  private async resubmitForApproval(requisitionId: string, previousStatus: string, userId: string): Promise<void> {
+    try {
+      const requisition = await prisma.requisition.findUniqueOrThrow({
+        where: { id: requisitionId },
+        include: REQUISITION_WORKFLOW_INCLUDE
+      });
+
+      const decision = await workflowEngine.evaluateRequisition(requisition, { evaluatedById: userId });
+      await workflowEngine.createApprovalWorkflow(requisitionId, decision);
+
+      if (decision.autoApprove || !decision.requiresApproval) {
+        await prisma.requisition.update({
+          where: { id: requisitionId },
+          data: { status: previousStatus as Requisition['status'] }
+        });
+      }
+    } catch (error) {
+      // The addendum is out; the requisition stays under review until it is routed by hand
+      logger.error(`Failed to resubmit requisition ${requisitionId} for approval after an addendum:`, error);
+    }
+  }
+
+  private toEmails(vendors: Vendor[], subject: string, body: string, type: string): EmailData[] {
+    return vendors
+      .filter(vendor => vendor.contactEmail || vendor.email)
+      .map(vendor => ({
+        to: (vendor.contactEmail || vendor.email)!,
+        subject,
+        body: `Dear ${vendor.contactPersonName || vendor.name},\n\n${body}`,
+        type
+      }));
+  }
+}
+
+export const rfqClarificationService = new RFQClarificationService();
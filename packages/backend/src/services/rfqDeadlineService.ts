@@ -0,0 +1,296 @@
+import { PrismaClient, RFQ } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './auditService';
+import { emailService } from './emailService';
+
+const prisma = new PrismaClient();
+
+const MONITOR_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface DeadlineRunResult {
+  expiredQuotes: number;
+  closed: number;
+  insufficient: number;
+  failed: number;
+}
+
+interface SealableRFQ {
+  isSealed: boolean;
+  unsealedAt: Date | null;
+}
+
+class RFQDeadlineService {
+  /**
+   * Whether quote contents on the RFQ must still be withheld from buyers
+   */
+  isSealed(rfq: SealableRFQ): boolean {
+    return rfq.isSealed && !rfq.unsealedAt;
+  }
+
+  /**
+   * Refuse to evaluate, score or award quotes on an RFQ that is still sealed
+   */
+  assertUnsealed(rfq: SealableRFQ): void {
+    if (this.isSealed(rfq)) {
+      throw new AppError('Quotes on a sealed RFQ cannot be opened before it is unsealed', 403, 'RFQ_SEALED');
+    }
+  }
+
+  /**
+   * Replace quote contents with who-bid-when while the RFQ is sealed
+   */
+  maskSealedQuotes<T extends SealableRFQ & { quotes?: any[] }>(rfq: T): T {
+    if (!this.isSealed(rfq) || !rfq.quotes) {
+      return rfq;
+    }
+
+    return {
+      ...rfq,
+      quotes: rfq.quotes.map(quote => ({
+        id: quote.id,
+        quoteNumber: quote.quoteNumber,
+        rfqId: quote.rfqId,
+        vendorId: quote.vendorId,
+        vendor: quote.vendor,
+        status: quote.status,
+        submittedAt: quote.submittedAt,
+        createdAt: quote.createdAt,
+        sealed: true
+      }))
+    };
+  }
+
+  /**
+   * Open every quote on a sealed RFQ in one audited event once the deadline has passed.
+   * The scheduler unseals without a user when it closes the RFQ.
+   */
+  async unsealRFQ(rfqId: string, userId?: string, now: Date = new Date()): Promise<RFQ> {
+    try {
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        include: {
+          requisition: { select: { vesselId: true } },
+          quotes: {
+            where: { status: { in: ['PENDING', 'SUBMITTED'] } },
+            select: { id: true, vendorId: true, totalAmount: true, currency: true, submittedAt: true }
+          }
+        }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      if (!rfq.isSealed) {
+        throw new AppError('RFQ is not a sealed-bid RFQ', 400, 'RFQ_NOT_SEALED');
+      }
+
+      if (rfq.unsealedAt) {
+        throw new AppError('RFQ has already been unsealed', 400, 'RFQ_ALREADY_UNSEALED');
+      }
+
+      if (!rfq.responseDeadline || rfq.responseDeadline > now) {
+        throw new AppError('A sealed RFQ cannot be opened before its response deadline', 400, 'RESPONSE_DEADLINE_NOT_PASSED');
+      }
+
+      const updated = await prisma.rFQ.update({
+        where: { id: rfqId },
+        data: {
+          unsealedAt: now,
+          unsealedById: userId
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'rfq_unseal',
+        resourceId: rfqId,
+        oldValues: { unsealedAt: null },
+        newValues: {
+          unsealedAt: now,
+          quoteCount: rfq.quotes.length,
+          quotes: rfq.quotes
+        },
+        vesselId: rfq.requisition.vesselId,
+        metadata: {
+          source: userId ? 'INTERNAL' : 'SCHEDULER',
+          rfqNumber: rfq.rfqNumber,
+          responseDeadline: rfq.responseDeadline
+        }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to unseal RFQ', 500, 'RFQ_UNSEAL_FAILED');
+    }
+  }
+
+  /**
+   * Expire quotes past their validity date, then close RFQs whose response deadline
+   * has passed: unseal them and hand them to evaluation, or back to the buyer when
+   * fewer than the required number of quotes came in
+   */
+  async processDeadlines(now: Date = new Date()): Promise<DeadlineRunResult> {
+    const result: DeadlineRunResult = { expiredQuotes: 0, closed: 0, insufficient: 0, failed: 0 };
+
+    result.expiredQuotes = await this.expireQuotes(now);
+
+    const rfqs = await prisma.rFQ.findMany({
+      where: {
+        status: { in: ['SENT', 'RESPONSES_RECEIVED'] },
+        responseDeadline: { lt: now },
+        responsesClosedAt: null
+      },
+      include: {
+        requisition: { select: { vesselId: true } },
+        createdBy: { select: { email: true, firstName: true } },
+        quotes: {
+          where: { status: 'SUBMITTED' },
+          select: { id: true }
+        }
+      }
+    });
+
+    for (const rfq of rfqs) {
+      try {
+        if (this.isSealed(rfq)) {
+          await this.unsealRFQ(rfq.id, undefined, now);
+        }
+
+        const responses = rfq.quotes.length;
+        const status = responses >= rfq.minimumResponses ? 'RESPONSES_RECEIVED' : 'INSUFFICIENT_RESPONSES';
+
+        await prisma.rFQ.update({
+          where: { id: rfq.id },
+          data: {
+            status,
+            responsesClosedAt: now
+          }
+        });
+
+        await AuditService.log({
+          action: 'UPDATE',
+          resource: 'rfq',
+          resourceId: rfq.id,
+          oldValues: { status: rfq.status },
+          newValues: { status, responses, minimumResponses: rfq.minimumResponses },
+          vesselId: rfq.requisition.vesselId,
+          metadata: {
+            source: 'SCHEDULER',
+            rfqNumber: rfq.rfqNumber,
+            event: 'RESPONSE_DEADLINE_PASSED'
+          }
+        });
+
+        if (status === 'INSUFFICIENT_RESPONSES') {
+          await this.notifyBuyer(rfq, responses);
+          result.insufficient++;
+        } else {
+          result.closed++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to close RFQ ${rfq.id} at its response deadline:`, error);
+      }
+    }
+
+    if (result.expiredQuotes || result.closed || result.insufficient || result.failed) {
+      logger.info(`RFQ deadline run: ${result.expiredQuotes} quotes expired, ${result.closed} RFQs closed, ${result.insufficient} with too few responses, ${result.failed} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run deadline processing on a fixed interval
+   */
+  scheduleDeadlineMonitoring(): void {
+    setInterval(async () => {
+      try {
+        await this.processDeadlines();
+      } catch (error) {
+        logger.error('RFQ deadline monitoring failed:', error);
+      }
+    }, MONITOR_INTERVAL_MS);
+
+    logger.info('RFQ deadline monitoring scheduled');
+  }
+
+  // Private helper methods
+
+  private async expireQuotes(now: Date): Promise<number> {
+    const quotes = await prisma.quote.findMany({
+      where: {
+        status: { in: ['PENDING', 'SUBMITTED'] },
+        validUntil: { lt: now }
+      },
+      select: { id: true, quoteNumber: true, rfqId: true, vendorId: true, status: true, validUntil: true }
+    });
+
+    if (quotes.length === 0) {
+      return 0;
+    }
+
+    const { count } = await prisma.quote.updateMany({
+      where: {
+        id: { in: quotes.map(quote => quote.id) },
+        status: { in: ['PENDING', 'SUBMITTED'] }
+      },
+      data: { status: 'EXPIRED' }
+    });
+
+    for (const quote of quotes) {
+      await AuditService.log({
+        action: 'UPDATE',
+        resource: 'quote',
+        resourceId: quote.id,
+        oldValues: { status: quote.status },
+        newValues: { status: 'EXPIRED' },
+        metadata: {
+          source: 'SCHEDULER',
+          quoteNumber: quote.quoteNumber,
+          rfqId: quote.rfqId,
+          vendorId: quote.vendorId,
+          validUntil: quote.validUntil
+        }
+      });
+    }
+
+    return count;
+  }
+
+  private async notifyBuyer(
+    rfq: { id: string; rfqNumber: string; title: string; minimumResponses: number; createdBy: { email: string; firstName: string } | null },
+    responses: number
+  ): Promise<void> {
+    // RFQs raised before the creator was recorded go to the procurement desk
+    const recipients = rfq.createdBy
+      ? [rfq.createdBy]
+      : await prisma.user.findMany({
+          where: { role: 'PROCUREMENT_MANAGER', isActive: true },
+          select: { email: true, firstName: true }
+        });
+
+    for (const recipient of recipients) {
+      try {
+        await emailService.sendEmail({
+          to: recipient.email,
+          subject: `RFQ ${rfq.rfqNumber} closed with too few responses`,
+          body: [
+            `Dear ${recipient.firstName},`,
+            `The response deadline for RFQ ${rfq.rfqNumber} - ${rfq.title} has passed with ${responses} valid quote(s); ${rfq.minimumResponses} were required.`,
+            'Extend the deadline by addendum, evaluate the quotes received or cancel the RFQ.'
+          ].join('\n\n'),
+          type: 'rfq_insufficient_responses'
+        });
+      } catch (error) {
+        logger.error(`Failed to notify ${recipient.email} about RFQ ${rfq.id}:`, error);
+      }
+    }
+  }
+}
+
+export const rfqDeadlineService = new RFQDeadlineService();
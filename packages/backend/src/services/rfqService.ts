@@ -1,8 +1,12 @@
 import { PrismaClient, RFQ, RFQStatus, Vendor, Requisition, Quote } from '@prisma/client';
 import { AppError } from '../utils/errors';
+import { extractPortCode } from '../utils/portCode';
 import { auditService } from './auditService';
 import { vendorService } from './vendorService';
 import { emailService } from './emailService';
+import { contractService } from './contractService';
+import { rfqDeadlineService } from './rfqDeadlineService';
+import { portCallService } from './portCallService';
 
 const prisma = new PrismaClient();
 
@@ -12,8 +16,13 @@ export interface RFQCreationData {
   description?: string;
   currency?: string;
   deliveryLocation?: string;
+  deliveryPortCode?: string;  // UN/LOCODE; read from the delivery location when omitted
   deliveryDate?: Date;
+  portCallId?: string;        // Deliver to this vessel call; fills port and date when they are omitted
   responseDeadline?: Date;
+  isSealed?: boolean;         // Hide quote contents until the response deadline
+  minimumResponses?: number;  // Fewer valid quotes at the deadline sends the RFQ back to the buyer
+  bypassContract?: boolean; // Go to market even when a contract covers the requisition
   vendorSelectionCriteria?: {
     countries?: string[];
     regions?: string[];
@@ -24,11 +33,24 @@ export interface RFQCreationData {
   };
 }
 
+export interface ConsolidatedRFQCreationData {
+  requisitionIds: string[];
+  title: string;
+  description?: string;
+  currency?: string;
+  deliveryLocation?: string;
+  deliveryPortCode?: string;
+  responseDeadline?: Date;
+  isSealed?: boolean;
+  minimumResponses?: number;
+}
+
 export interface RFQUpdateData {
   id: string;
   title?: string;
   description?: string;
   deliveryLocation?: string;
+  deliveryPortCode?: string;
   deliveryDate?: Date;
   responseDeadline?: Date;
   status?: RFQStatus;
@@ -83,6 +105,22 @@ class RFQService {
         throw new AppError('RFQ already exists for this requisition', 400, 'RFQ_ALREADY_EXISTS');
       }
 
+      // Contracted items are bought at contract price, not re-quoted
+      if (!data.bypassContract) {
+        const coverage = await contractService.findCoveringContract(requisition);
+        if (coverage) {
+          throw new AppError(
+            `Requisition is fully covered by contract ${coverage.contract.contractNumber}; convert it to a purchase order at contract price`,
+            409,
+            'REQUISITION_COVERED_BY_CONTRACT'
+          );
+        }
+      }
+
+      const portCall = data.portCallId
+        ? await portCallService.getOpenPortCallForVessel(data.portCallId, requisition.vesselId)
+        : null;
+
       // Generate RFQ number
       const rfqNumber = await this.generateRFQNumber();
 
@@ -98,9 +136,14 @@ class RFQService {
             title: data.title,
             description: data.description,
             currency: data.currency || requisition.currency,
-            deliveryLocation: data.deliveryLocation || requisition.deliveryLocation,
-            deliveryDate: data.deliveryDate || requisition.deliveryDate,
+            deliveryLocation: data.deliveryLocation || (portCall ? `${portCall.portName} (${portCall.portCode})` : requisition.deliveryLocation),
+            deliveryPortCode: data.deliveryPortCode || portCall?.portCode || extractPortCode(data.deliveryLocation || requisition.deliveryLocation || undefined),
+            deliveryDate: data.deliveryDate || (portCall && portCallService.windowStart(portCall)) || requisition.deliveryDate,
+            portCallId: portCall?.id,
             responseDeadline,
+            isSealed: data.isSealed ?? false,
+            minimumResponses: data.minimumResponses ?? 1,
+            createdById: userId,
             status: 'DRAFT',
             issueDate: new Date()
           }
@@ -132,6 +175,143 @@ class RFQService {
     }
   }
 
+  /**
+   * Create a single RFQ covering approved requisitions from several vessels.
+   * Each requisition line becomes a delivery split so the award can be fanned back out per vessel.
+   */
+  async createConsolidatedRFQ(data: ConsolidatedRFQCreationData, userId: string): Promise<RFQ> {
+    try {
+      const requisitionIds = Array.from(new Set(data.requisitionIds));
+
+      if (requisitionIds.length < 2) {
+        throw new AppError('At least two requisitions are required for consolidation', 400, 'CONSOLIDATION_TOO_SMALL');
+      }
+
+      const requisitions = await prisma.requisition.findMany({
+        where: { id: { in: requisitionIds } },
+        include: {
+          vessel: true,
+          items: {
+            include: {
+              itemCatalog: true
+            }
+          },
+          rfqs: {
+            where: { status: { not: 'CANCELLED' } },
+            select: { id: true }
+          }
+        }
+      });
+
+      if (requisitions.length !== requisitionIds.length) {
+        throw new AppError('Some requisitions were not found', 404, 'REQUISITION_NOT_FOUND');
+      }
+
+      for (const requisition of requisitions) {
+        if (requisition.status !== 'APPROVED') {
+          throw new AppError(
+            `Requisition ${requisition.requisitionNumber} is not approved`,
+            400,
+            'REQUISITION_NOT_APPROVED'
+          );
+        }
+
+        if (requisition.rfqs.length > 0) {
+          throw new AppError(
+            `RFQ already exists for requisition ${requisition.requisitionNumber}`,
+            400,
+            'RFQ_ALREADY_EXISTS'
+          );
+        }
+
+        // Contracted items are bought at contract price, not re-quoted
+        const coverage = await contractService.findCoveringContract(requisition);
+        if (coverage) {
+          throw new AppError(
+            `Requisition ${requisition.requisitionNumber} is fully covered by contract ${coverage.contract.contractNumber}`,
+            409,
+            'REQUISITION_COVERED_BY_CONTRACT'
+          );
+        }
+      }
+
+      const currencies = new Set(requisitions.map(requisition => requisition.currency));
+      if (currencies.size > 1) {
+        throw new AppError('Consolidated requisitions must share a currency', 400, 'CURRENCY_MISMATCH');
+      }
+
+      // The earliest-needed requisition leads; the RFQ must arrive in time for it
+      const byDeliveryDate = [...requisitions].sort((a, b) =>
+        (a.deliveryDate?.getTime() ?? Infinity) - (b.deliveryDate?.getTime() ?? Infinity)
+      );
+      const lead = byDeliveryDate[0];
+
+      const rfqNumber = await this.generateRFQNumber();
+      const responseDeadline = data.responseDeadline || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+      const rfq = await prisma.$transaction(async (tx) => {
+        const newRFQ = await tx.rFQ.create({
+          data: {
+            rfqNumber,
+            requisitionId: lead.id,
+            title: data.title,
+            description: data.description,
+            currency: data.currency || lead.currency,
+            deliveryLocation: data.deliveryLocation || lead.deliveryLocation,
+            deliveryPortCode: data.deliveryPortCode || extractPortCode(data.deliveryLocation || lead.deliveryLocation || undefined),
+            deliveryDate: lead.deliveryDate,
+            responseDeadline,
+            isSealed: data.isSealed ?? false,
+            minimumResponses: data.minimumResponses ?? 1,
+            createdById: userId,
+            status: 'DRAFT',
+            issueDate: new Date(),
+            isConsolidated: true
+          }
+        });
+
+        await tx.rFQDeliverySplit.createMany({
+          data: requisitions.flatMap(requisition => requisition.items.map(item => ({
+            rfqId: newRFQ.id,
+            requisitionId: requisition.id,
+            requisitionItemId: item.id,
+            vesselId: requisition.vesselId,
+            itemCatalogId: item.itemCatalogId,
+            quantity: item.quantity,
+            deliveryLocation: requisition.deliveryLocation,
+            deliveryDate: requisition.deliveryDate
+          })))
+        });
+
+        await tx.requisition.updateMany({
+          where: { id: { in: requisitionIds } },
+          data: { status: 'CONVERTED_TO_RFQ' }
+        });
+
+        return newRFQ;
+      });
+
+      // Audit log
+      await auditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'rfq',
+        resourceId: rfq.id,
+        newValues: rfq,
+        metadata: {
+          consolidated: true,
+          requisitionIds,
+          vesselIds: Array.from(new Set(requisitions.map(requisition => requisition.vesselId)))
+        }
+      });
+
+      return rfq;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create consolidated RFQ', 500, 'RFQ_CREATION_FAILED');
+    }
+  }
+
   /**
    * Select vendors for RFQ based on criteria
    */
@@ -198,6 +378,9 @@ class RFQService {
                 }
               }
             }
+          },
+          deliverySplits: {
+            select: { vesselId: true }
           }
         }
       });
@@ -320,6 +503,15 @@ class RFQService {
                 }
               }
             }
+          },
+          deliverySplits: {
+            include: {
+              vessel: true,
+              itemCatalog: true
+            }
+          },
+          addenda: {
+            orderBy: { revision: 'asc' }
           }
         }
       });
@@ -328,7 +520,7 @@ class RFQService {
         throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
       }
 
-      return rfq;
+      return rfqDeadlineService.maskSealedQuotes(rfq);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError('Failed to get RFQ', 500, 'RFQ_FETCH_FAILED');
@@ -348,12 +540,23 @@ class RFQService {
         throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
       }
 
+      // Bringing a sealed deadline forward would let the buyer open bids early
+      if (
+        data.responseDeadline &&
+        existingRFQ.responseDeadline &&
+        data.responseDeadline < existingRFQ.responseDeadline &&
+        rfqDeadlineService.isSealed(existingRFQ)
+      ) {
+        throw new AppError('The response deadline of a sealed RFQ cannot be brought forward', 400, 'SEALED_DEADLINE_LOCKED');
+      }
+
       const updatedRFQ = await prisma.rFQ.update({
         where: { id: data.id },
         data: {
           title: data.title,
           description: data.description,
           deliveryLocation: data.deliveryLocation,
+          deliveryPortCode: data.deliveryPortCode,
           deliveryDate: data.deliveryDate,
           responseDeadline: data.responseDeadline,
           status: data.status
@@ -427,7 +630,7 @@ class RFQService {
         orderBy: { createdAt: 'desc' }
       });
 
-      return rfqs;
+      return rfqs.map(rfq => rfqDeadlineService.maskSealedQuotes(rfq));
     } catch (error) {
       throw new AppError('Failed to get RFQs', 500, 'RFQ_FETCH_FAILED');
     }
@@ -494,7 +697,7 @@ class RFQService {
     // Extract country and port from delivery location
     const locationParts = deliveryLocation?.split(',') || [];
     const country = locationParts[locationParts.length - 1]?.trim();
-    const portCode = this.extractPortCode(deliveryLocation);
+    const portCode = extractPortCode(deliveryLocation);
 
     return {
       countries: country ? [country] : [],
@@ -615,14 +818,6 @@ class RFQService {
     return (matchingCapabilities.length / criteria.capabilities.length) * 10;
   }
 
-  private extractPortCode(location?: string): string | null {
-    if (!location) return null;
-    
-    // Simple port code extraction - in real implementation, would use port database
-    const portCodeMatch = location.match(/([A-Z]{5})/);
-    return portCodeMatch ? portCodeMatch[1] : null;
-  }
-
   private async sendRFQNotification(rfq: any, vendor: Vendor): Promise<void> {
     if (!vendor.contactEmail && !vendor.email) {
       throw new Error('Vendor has no email address');
@@ -630,6 +825,10 @@ class RFQService {
 
     const emailAddress = vendor.contactEmail || vendor.email;
     const subject = `New RFQ: ${rfq.title} - ${rfq.rfqNumber}`;
+    const vesselCount = new Set((rfq.deliverySplits || []).map((split: any) => split.vesselId)).size;
+    const vesselLine = vesselCount > 1
+      ? `${vesselCount} vessels (consolidated fleet order, per-vessel delivery splits in the portal)`
+      : rfq.requisition.vessel.name;
     
     const emailBody = `
       Dear ${vendor.contactPersonName || vendor.name},
@@ -639,7 +838,7 @@ class RFQService {
       RFQ Details:
       - RFQ Number: ${rfq.rfqNumber}
       - Title: ${rfq.title}
-      - Vessel: ${rfq.requisition.vessel.name}
+      - Vessel: ${vesselLine}
       - Delivery Location: ${rfq.deliveryLocation}
       - Delivery Date: ${rfq.deliveryDate ? rfq.deliveryDate.toDateString() : 'TBD'}
       - Response Deadline: ${rfq.responseDeadline.toDateString()}
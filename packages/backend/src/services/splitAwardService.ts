@@ -0,0 +1,507 @@
+import { PrismaClient, PurchaseOrder, RFQStatus } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { AuditService } from './auditService';
+import { purchaseOrderService } from './purchaseOrderService';
+import { rfqDeadlineService } from './rfqDeadlineService';
+import { quoteCurrencyService } from './quoteCurrencyService';
+
+const prisma = new PrismaClient();
+
+export interface SplitAwardOptions {
+  requiredBy?: Date;           // Latest acceptable delivery date, defaults to the RFQ delivery date
+  perVendorOrderCost?: number; // Handling cost of each additional PO, discourages fragmenting small orders
+}
+
+export interface LineAwardOption {
+  itemCatalogId: string;
+  itemName: string;
+  requiredQuantity: number;
+  quoteLineItemId: string;
+  quoteId: string;
+  vendorId: string;
+  vendorName: string;
+  unitPrice: number;
+  lineCost: number;
+  currency: string;
+  deliveryDate?: Date | null;
+  deliveryConstraintMet: boolean;
+}
+
+export interface SplitAwardPlan {
+  rfqId: string;
+  requiredBy?: Date;
+  lines: LineAwardOption[];
+  unawardableItems: { itemCatalogId: string; itemName: string; reason: string }[];
+  vendorCount: number;
+  itemsCost: number;
+  orderHandlingCost: number;
+  totalCost: number;
+  singleVendorBestCost?: number;
+  savingsVersusSingleVendor?: number;
+}
+
+export interface LineAwardSelection {
+  quoteLineItemId: string;
+}
+
+export interface SplitAwardData {
+  rfqId: string;
+  awards: LineAwardSelection[];
+  approvedBy: string;
+  justification: string;
+  deliveryInstructions?: string;
+}
+
+export interface SplitAwardResult {
+  rfqId: string;
+  awardedQuoteIds: string[];
+  rejectedQuoteIds: string[];
+  purchaseOrders: PurchaseOrder[];
+}
+
+interface Candidate {
+  line: any;
+  quote: any;
+}
+
+class SplitAwardService {
+  // Exhaustive vendor-subset search is exact but exponential; above this we assign greedily per line
+  private readonly MAX_VENDORS_FOR_EXACT_SEARCH = 12;
+
+  /**
+   * Compute the cheapest line-level award across vendors that meets the delivery date.
+   * Amounts are compared in the RFQ currency at the rate on each quote's submission date.
+   */
+  async optimiseSplitAward(rfqId: string, options: SplitAwardOptions = {}): Promise<SplitAwardPlan> {
+    try {
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        include: {
+          requisition: {
+            include: {
+              items: {
+                include: {
+                  itemCatalog: true
+                }
+              }
+            }
+          },
+          quotes: {
+            where: { status: 'SUBMITTED' },
+            include: {
+              vendor: true,
+              lineItems: true
+            }
+          },
+          deliverySplits: {
+            include: {
+              itemCatalog: true
+            }
+          }
+        }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      rfqDeadlineService.assertUnsealed(rfq);
+
+      if (rfq.quotes.length === 0) {
+        throw new AppError('No submitted quotes found for this RFQ', 400, 'NO_QUOTES_FOUND');
+      }
+
+      const exchangeRates = await quoteCurrencyService.getQuoteRates(rfq.currency, rfq.quotes);
+      const quotes = rfq.quotes.map(quote => quoteCurrencyService.normaliseQuote(quote, exchangeRates.get(quote.id)!));
+
+      const requiredBy = options.requiredBy || rfq.deliveryDate || undefined;
+      const perVendorOrderCost = options.perVendorOrderCost || 0;
+
+      // Candidate quote lines per requested item
+      const unawardableItems: SplitAwardPlan['unawardableItems'] = [];
+      const itemCandidates = new Map<string, { item: any; candidates: Candidate[]; onTime: boolean }>();
+
+      // A consolidated RFQ needs the fleet-wide quantity of each item
+      const requestedItems = rfq.isConsolidated
+        ? this.aggregateSplits(rfq.deliverySplits)
+        : rfq.requisition.items;
+
+      for (const item of requestedItems) {
+        const offered: Candidate[] = [];
+        for (const quote of quotes) {
+          for (const line of quote.lineItems) {
+            if (line.itemCatalogId === item.itemCatalogId && line.quantity >= item.quantity) {
+              offered.push({ line, quote });
+            }
+          }
+        }
+
+        if (offered.length === 0) {
+          unawardableItems.push({
+            itemCatalogId: item.itemCatalogId,
+            itemName: item.itemCatalog.name,
+            reason: 'No vendor quoted the full requested quantity'
+          });
+          continue;
+        }
+
+        const onTime = offered.filter(c => this.meetsDeliveryDate(c.quote.deliveryDate, requiredBy));
+
+        // When nobody can meet the date, fall back to the earliest deliveries and flag it
+        const candidates = onTime.length > 0 ? onTime : this.earliestCandidates(offered);
+        itemCandidates.set(item.itemCatalogId, { item, candidates, onTime: onTime.length > 0 });
+      }
+
+      const vendorIds = Array.from(new Set(
+        Array.from(itemCandidates.values()).flatMap(entry => entry.candidates.map(c => c.quote.vendorId))
+      ));
+
+      const assignment = vendorIds.length <= this.MAX_VENDORS_FOR_EXACT_SEARCH
+        ? this.searchVendorSubsets(itemCandidates, vendorIds, perVendorOrderCost)
+        : this.assignGreedily(itemCandidates);
+
+      const lines: LineAwardOption[] = Array.from(itemCandidates.entries()).map(([itemCatalogId, entry]) => {
+        const chosen = assignment.get(itemCatalogId) as Candidate;
+        return {
+          itemCatalogId,
+          itemName: entry.item.itemCatalog.name,
+          requiredQuantity: entry.item.quantity,
+          quoteLineItemId: chosen.line.id,
+          quoteId: chosen.quote.id,
+          vendorId: chosen.quote.vendorId,
+          vendorName: chosen.quote.vendor.name,
+          unitPrice: chosen.line.unitPrice,
+          lineCost: chosen.line.totalPrice,
+          currency: chosen.line.currency,
+          deliveryDate: chosen.quote.deliveryDate,
+          deliveryConstraintMet: entry.onTime
+        };
+      });
+
+      const vendorCount = new Set(lines.map(line => line.vendorId)).size;
+      const itemsCost = lines.reduce((sum, line) => sum + line.lineCost, 0);
+      const orderHandlingCost = vendorCount * perVendorOrderCost;
+      const singleVendorBestCost = this.bestSingleVendorCost(itemCandidates, vendorIds, perVendorOrderCost);
+
+      return {
+        rfqId,
+        requiredBy,
+        lines,
+        unawardableItems,
+        vendorCount,
+        itemsCost: Math.round(itemsCost * 100) / 100,
+        orderHandlingCost,
+        totalCost: Math.round((itemsCost + orderHandlingCost) * 100) / 100,
+        singleVendorBestCost,
+        savingsVersusSingleVendor: singleVendorBestCost !== undefined
+          ? Math.round((singleVendorBestCost - itemsCost - orderHandlingCost) * 100) / 100
+          : undefined
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to optimise split award', 500, 'SPLIT_AWARD_OPTIMISATION_FAILED');
+    }
+  }
+
+  /**
+   * Award selected quote lines and generate one purchase order per awarded vendor
+   */
+  async awardLineItems(data: SplitAwardData, userId: string): Promise<SplitAwardResult> {
+    try {
+      if (!data.awards || data.awards.length === 0) {
+        throw new AppError('At least one quote line must be awarded', 400, 'NO_AWARDS_SELECTED');
+      }
+
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: data.rfqId },
+        include: {
+          requisition: true,
+          quotes: {
+            where: { status: 'SUBMITTED' },
+            include: {
+              lineItems: true
+            }
+          }
+        }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      rfqDeadlineService.assertUnsealed(rfq);
+
+      const linesById = new Map<string, Candidate>();
+      for (const quote of rfq.quotes) {
+        for (const line of quote.lineItems) {
+          linesById.set(line.id, { line, quote });
+        }
+      }
+
+      const awardedItems = new Set<string>();
+      const awardedLineIds: string[] = [];
+      const awardedQuoteIds = new Set<string>();
+
+      for (const award of data.awards) {
+        const selected = linesById.get(award.quoteLineItemId);
+
+        if (!selected) {
+          throw new AppError(
+            `Quote line ${award.quoteLineItemId} is not part of a submitted quote on this RFQ`,
+            400,
+            'INVALID_QUOTE_LINE'
+          );
+        }
+
+        if (awardedItems.has(selected.line.itemCatalogId)) {
+          throw new AppError('Each item can only be awarded to one vendor', 400, 'DUPLICATE_ITEM_AWARD');
+        }
+
+        awardedItems.add(selected.line.itemCatalogId);
+        awardedLineIds.push(selected.line.id);
+        awardedQuoteIds.add(selected.quote.id);
+      }
+
+      const rejectedQuoteIds = rfq.quotes
+        .map(quote => quote.id)
+        .filter(id => !awardedQuoteIds.has(id));
+
+      await prisma.$transaction(async (tx) => {
+        await tx.quoteLineItem.updateMany({
+          where: { id: { in: awardedLineIds } },
+          data: { isAwarded: true, awardedAt: new Date() }
+        });
+
+        await tx.quote.updateMany({
+          where: { id: { in: Array.from(awardedQuoteIds) } },
+          data: { status: 'ACCEPTED' }
+        });
+
+        if (rejectedQuoteIds.length > 0) {
+          await tx.quote.updateMany({
+            where: { id: { in: rejectedQuoteIds } },
+            data: { status: 'REJECTED' }
+          });
+        }
+
+        await tx.rFQ.update({
+          where: { id: data.rfqId },
+          data: { status: 'AWARDED' }
+        });
+      });
+
+      // Each awarded vendor gets its own PO covering only its awarded lines,
+      // fanned out per vessel when the RFQ consolidated several requisitions
+      const purchaseOrders: PurchaseOrder[] = [];
+      try {
+        for (const quoteId of awardedQuoteIds) {
+          const poData = {
+            quoteId,
+            approvedBy: data.approvedBy,
+            deliveryInstructions: data.deliveryInstructions,
+            notes: `Split award on RFQ ${rfq.rfqNumber}: ${data.justification}`
+          };
+
+          if (rfq.isConsolidated) {
+            purchaseOrders.push(...await purchaseOrderService.generateConsolidatedPurchaseOrders(poData));
+          } else {
+            purchaseOrders.push(await purchaseOrderService.generatePurchaseOrder(poData));
+          }
+        }
+      } catch (error) {
+        // Orders are generated after the award commits, so undo the award rather than leave vendors awarded without orders
+        await this.revertAward(rfq, awardedLineIds, purchaseOrders);
+        throw error;
+      }
+
+      await AuditService.log({
+        userId,
+        action: 'APPROVE',
+        resource: 'rfq',
+        resourceId: data.rfqId,
+        newValues: {
+          status: 'AWARDED',
+          awardType: 'SPLIT',
+          awardedQuoteLineIds: awardedLineIds,
+          awardedQuoteIds: Array.from(awardedQuoteIds),
+          approvedBy: data.approvedBy,
+          justification: data.justification
+        },
+        vesselId: rfq.requisition.vesselId,
+        metadata: {
+          rfqNumber: rfq.rfqNumber,
+          purchaseOrderIds: purchaseOrders.map(po => po.id)
+        }
+      });
+
+      return {
+        rfqId: data.rfqId,
+        awardedQuoteIds: Array.from(awardedQuoteIds),
+        rejectedQuoteIds,
+        purchaseOrders
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to award quote lines', 500, 'SPLIT_AWARD_FAILED');
+    }
+  }
+
+  /**
+   * Put an RFQ back to its pre-award state and remove any purchase orders already generated for the award
+   */
+  private async revertAward(
+    rfq: { id: string; status: RFQStatus; quotes: { id: string }[] },
+    awardedLineIds: string[],
+    purchaseOrders: PurchaseOrder[]
+  ): Promise<void> {
+    const purchaseOrderIds = purchaseOrders.map(po => po.id);
+
+    await prisma.$transaction(async (tx) => {
+      if (purchaseOrderIds.length > 0) {
+        await tx.pOLineItem.deleteMany({
+          where: { purchaseOrderId: { in: purchaseOrderIds } }
+        });
+        await tx.purchaseOrder.deleteMany({
+          where: { id: { in: purchaseOrderIds } }
+        });
+      }
+
+      await tx.quoteLineItem.updateMany({
+        where: { id: { in: awardedLineIds } },
+        data: { isAwarded: false, awardedAt: null }
+      });
+
+      await tx.quote.updateMany({
+        where: { id: { in: rfq.quotes.map(quote => quote.id) } },
+        data: { status: 'SUBMITTED' }
+      });
+
+      await tx.rFQ.update({
+        where: { id: rfq.id },
+        data: { status: rfq.status }
+      });
+    });
+  }
+
+  /**
+   * Total requested quantity per item across a consolidated RFQ's delivery splits
+   */
+  private aggregateSplits(splits: any[]): { itemCatalogId: string; quantity: number; itemCatalog: any }[] {
+    const totals = new Map<string, { itemCatalogId: string; quantity: number; itemCatalog: any }>();
+
+    for (const split of splits) {
+      const total = totals.get(split.itemCatalogId);
+      if (total) {
+        total.quantity += split.quantity;
+      } else {
+        totals.set(split.itemCatalogId, {
+          itemCatalogId: split.itemCatalogId,
+          quantity: split.quantity,
+          itemCatalog: split.itemCatalog
+        });
+      }
+    }
+
+    return Array.from(totals.values());
+  }
+
+  /**
+   * Exact search: try every vendor subset and keep the cheapest feasible assignment
+   */
+  private searchVendorSubsets(
+    itemCandidates: Map<string, { item: any; candidates: Candidate[] }>,
+    vendorIds: string[],
+    perVendorOrderCost: number
+  ): Map<string, Candidate> {
+    let bestCost = Infinity;
+    let best = new Map<string, Candidate>();
+
+    for (let mask = 1; mask < (1 << vendorIds.length); mask++) {
+      const allowed = new Set(vendorIds.filter((_, index) => mask & (1 << index)));
+      const assignment = this.cheapestAssignment(itemCandidates, allowed);
+      if (!assignment) continue;
+
+      const usedVendors = new Set(Array.from(assignment.values()).map(c => c.quote.vendorId));
+      const cost = this.assignmentCost(assignment) + usedVendors.size * perVendorOrderCost;
+
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = assignment;
+      }
+    }
+
+    return best;
+  }
+
+  private assignGreedily(itemCandidates: Map<string, { item: any; candidates: Candidate[] }>): Map<string, Candidate> {
+    return this.cheapestAssignment(itemCandidates) as Map<string, Candidate>;
+  }
+
+  /**
+   * Cheapest candidate per item, optionally restricted to a set of vendors.
+   * Returns null when an item has no candidate among the allowed vendors.
+   */
+  private cheapestAssignment(
+    itemCandidates: Map<string, { item: any; candidates: Candidate[] }>,
+    allowedVendors?: Set<string>
+  ): Map<string, Candidate> | null {
+    const assignment = new Map<string, Candidate>();
+
+    for (const [itemCatalogId, entry] of itemCandidates) {
+      const candidates = allowedVendors
+        ? entry.candidates.filter(c => allowedVendors.has(c.quote.vendorId))
+        : entry.candidates;
+
+      if (candidates.length === 0) return null;
+
+      const cheapest = candidates.reduce((min, c) => c.line.totalPrice < min.line.totalPrice ? c : min);
+      assignment.set(itemCatalogId, cheapest);
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Lines are costed at their quoted total, which is what the purchase order will charge
+   * even when a vendor quotes more than the requested quantity (e.g. a larger pack size)
+   */
+  private assignmentCost(assignment: Map<string, Candidate>): number {
+    let cost = 0;
+    for (const chosen of assignment.values()) {
+      cost += chosen.line.totalPrice;
+    }
+    return cost;
+  }
+
+  /**
+   * Cheapest total if everything went to one vendor, for comparison
+   */
+  private bestSingleVendorCost(
+    itemCandidates: Map<string, { item: any; candidates: Candidate[] }>,
+    vendorIds: string[],
+    perVendorOrderCost: number
+  ): number | undefined {
+    const costs = vendorIds
+      .map(vendorId => this.cheapestAssignment(itemCandidates, new Set([vendorId])))
+      .filter((assignment): assignment is Map<string, Candidate> => assignment !== null)
+      .map(assignment => this.assignmentCost(assignment) + perVendorOrderCost);
+
+    return costs.length > 0 ? Math.round(Math.min(...costs) * 100) / 100 : undefined;
+  }
+
+  private meetsDeliveryDate(deliveryDate: Date | null, requiredBy?: Date): boolean {
+    if (!requiredBy) return true;
+    if (!deliveryDate) return false;
+    return new Date(deliveryDate).getTime() <= new Date(requiredBy).getTime();
+  }
+
+  private earliestCandidates(candidates: Candidate[]): Candidate[] {
+    const dated = candidates.filter(c => c.quote.deliveryDate);
+    if (dated.length === 0) return candidates;
+
+    const earliest = Math.min(...dated.map(c => new Date(c.quote.deliveryDate).getTime()));
+    return dated.filter(c => new Date(c.quote.deliveryDate).getTime() === earliest);
+  }
+}
+
+export const splitAwardService = new SplitAwardService();
@@ -0,0 +1,873 @@
+import { PrismaClient, Invoice, POAmendment, POStatus, PurchaseOrder, Quote, ReturnRequest, RFQAddendum, RFQClarification, VendorUser } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { generateVendorAccessToken } from '../utils/jwt';
+import { hashPassword, verifyPassword, validatePasswordStrength } from '../utils/password';
+import { AuditService } from './auditService';
+import { invoiceProcessingService, InvoiceValidationResult } from './invoiceProcessingService';
+import { returnService, ReturnAcknowledgementData } from './returnService';
+import { rfqClarificationService } from './rfqClarificationService';
+import { auctionService, BidResult, VendorAuctionView } from './auctionService';
+import { poAmendmentService } from './poAmendmentService';
+import { purchaseOrderDocumentService, PurchaseOrderDocument } from './purchaseOrderDocumentService';
+
+const prisma = new PrismaClient();
+
+export interface VendorPortalUserData {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface VendorLoginResult {
+  accessToken: string;
+  vendorUser: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  };
+  vendor: {
+    id: string;
+    name: string;
+    code: string;
+  };
+}
+
+export interface VendorQuoteLineData {
+  itemCatalogId: string;
+  quantity: number;
+  unitPrice: number;
+  specifications?: string;
+  notes?: string;
+}
+
+export interface VendorQuoteData {
+  lineItems: VendorQuoteLineData[];
+  currency?: string;
+  deliveryDate?: Date;
+  deliveryTerms?: string;
+  paymentTerms?: string;
+  validUntil?: Date;
+  notes?: string;
+  attachments?: string[];
+}
+
+export interface VendorAcknowledgementData {
+  notes?: string;
+  confirmedDeliveryDate?: Date;
+}
+
+export interface VendorInvoiceData {
+  purchaseOrderId: string;
+  invoiceNumber: string;
+  totalAmount: number;
+  currency?: string;
+  invoiceDate: Date;
+  dueDate?: Date;
+  notes?: string;
+}
+
+/**
+ * Who acted through the portal; vendor users are not internal users so
+ * audit entries carry them in metadata instead of userId.
+ */
+export interface VendorActor {
+  vendorUserId: string;
+  vendorId: string;
+}
+
+// RFQ fields a vendor is allowed to see; internal estimates and other vendors' quotes are never exposed
+const VENDOR_RFQ_SELECT = {
+  id: true,
+  rfqNumber: true,
+  title: true,
+  description: true,
+  currency: true,
+  status: true,
+  deliveryLocation: true,
+  deliveryDate: true,
+  issueDate: true,
+  responseDeadline: true,
+  isConsolidated: true,
+  revision: true,
+  addenda: {
+    select: {
+      revision: true,
+      description: true,
+      lineChanges: true,
+      newDeadline: true,
+      createdAt: true
+    },
+    orderBy: { revision: 'asc' as const }
+  },
+  // Per-vessel quantities on a consolidated fleet RFQ
+  deliverySplits: {
+    select: {
+      itemCatalogId: true,
+      quantity: true,
+      deliveryLocation: true,
+      deliveryDate: true,
+      vessel: {
+        select: { name: true, imoNumber: true }
+      }
+    }
+  },
+  requisition: {
+    select: {
+      urgencyLevel: true,
+      vessel: {
+        select: { name: true, imoNumber: true }
+      },
+      items: {
+        select: {
+          id: true,
+          itemCatalogId: true,
+          quantity: true,
+          specifications: true,
+          notes: true,
+          itemCatalog: {
+            select: {
+              name: true,
+              description: true,
+              impaCode: true,
+              issaCode: true,
+              unitOfMeasure: true
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+class VendorPortalService {
+  private readonly MAX_LOGIN_ATTEMPTS = 5;
+  private readonly LOCKOUT_DURATION_MINUTES = 30;
+  private readonly INVOICEABLE_PO_STATUSES = ['ACKNOWLEDGED', 'IN_PROGRESS', 'DELIVERED', 'INVOICED'];
+
+  /**
+   * Authenticate a vendor portal user and issue a vendor-realm token
+   */
+  async login(email: string, password: string, ipAddress?: string): Promise<VendorLoginResult> {
+    try {
+      const vendorUser = await prisma.vendorUser.findUnique({
+        where: { email: email.toLowerCase() },
+        include: { vendor: true }
+      });
+
+      if (!vendorUser) {
+        throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
+      }
+
+      if (vendorUser.accountLockedUntil && vendorUser.accountLockedUntil > new Date()) {
+        throw new AppError('Account is temporarily locked due to too many failed login attempts', 423, 'ACCOUNT_LOCKED');
+      }
+
+      if (!vendorUser.isActive || !vendorUser.vendor.isActive) {
+        throw new AppError('Account is inactive', 403, 'ACCOUNT_INACTIVE');
+      }
+
+      const isPasswordValid = await verifyPassword(password, vendorUser.passwordHash);
+
+      if (!isPasswordValid) {
+        const failedLoginAttempts = vendorUser.failedLoginAttempts + 1;
+        let accountLockedUntil: Date | null = null;
+
+        if (failedLoginAttempts >= this.MAX_LOGIN_ATTEMPTS) {
+          accountLockedUntil = new Date();
+          accountLockedUntil.setMinutes(accountLockedUntil.getMinutes() + this.LOCKOUT_DURATION_MINUTES);
+        }
+
+        await prisma.vendorUser.update({
+          where: { id: vendorUser.id },
+          data: { failedLoginAttempts, accountLockedUntil }
+        });
+
+        throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
+      }
+
+      await prisma.vendorUser.update({
+        where: { id: vendorUser.id },
+        data: {
+          failedLoginAttempts: 0,
+          accountLockedUntil: null,
+          lastLogin: new Date()
+        }
+      });
+
+      await AuditService.log({
+        action: 'LOGIN',
+        resource: 'vendor_portal',
+        resourceId: vendorUser.id,
+        ipAddress,
+        category: 'AUTHENTICATION',
+        metadata: {
+          vendorId: vendorUser.vendorId,
+          vendorUserId: vendorUser.id
+        }
+      });
+
+      return {
+        accessToken: generateVendorAccessToken({
+          vendorUserId: vendorUser.id,
+          vendorId: vendorUser.vendorId,
+          email: vendorUser.email
+        }),
+        vendorUser: {
+          id: vendorUser.id,
+          email: vendorUser.email,
+          firstName: vendorUser.firstName,
+          lastName: vendorUser.lastName
+        },
+        vendor: {
+          id: vendorUser.vendor.id,
+          name: vendorUser.vendor.name,
+          code: vendorUser.vendor.code
+        }
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Vendor login failed', 500, 'VENDOR_LOGIN_FAILED');
+    }
+  }
+
+  /**
+   * Provision a portal account for a vendor (internal users only)
+   */
+  async createPortalUser(vendorId: string, data: VendorPortalUserData, userId: string): Promise<Omit<VendorUser, 'passwordHash'>> {
+    try {
+      const vendor = await prisma.vendor.findUnique({
+        where: { id: vendorId }
+      });
+
+      if (!vendor) {
+        throw new AppError('Vendor not found', 404, 'VENDOR_NOT_FOUND');
+      }
+
+      const passwordCheck = validatePasswordStrength(data.password);
+      if (!passwordCheck.isValid) {
+        throw new AppError(passwordCheck.errors.join(', '), 400, 'WEAK_PASSWORD');
+      }
+
+      const email = data.email.toLowerCase();
+      const existing = await prisma.vendorUser.findUnique({
+        where: { email }
+      });
+
+      if (existing) {
+        throw new AppError('A portal account already exists for this email', 409, 'VENDOR_USER_EXISTS');
+      }
+
+      const { passwordHash, ...vendorUser } = await prisma.vendorUser.create({
+        data: {
+          vendorId,
+          email,
+          passwordHash: await hashPassword(data.password),
+          firstName: data.firstName,
+          lastName: data.lastName
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'vendor_user',
+        resourceId: vendorUser.id,
+        newValues: {
+          vendorId,
+          email,
+          firstName: data.firstName,
+          lastName: data.lastName
+        }
+      });
+
+      return vendorUser;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create vendor portal user', 500, 'VENDOR_USER_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * List RFQs the vendor has been invited to, with the vendor's own quote if any
+   */
+  async getInvitedRFQs(vendorId: string): Promise<any[]> {
+    try {
+      const invitations = await prisma.rFQVendor.findMany({
+        where: {
+          vendorId,
+          sentAt: { not: null },
+          rfq: {
+            status: { not: 'DRAFT' }
+          }
+        },
+        include: {
+          rfq: {
+            select: {
+              ...VENDOR_RFQ_SELECT,
+              quotes: {
+                where: { vendorId },
+                select: { id: true, quoteNumber: true, status: true, revision: true, rfqRevision: true, totalAmount: true, currency: true, submittedAt: true }
+              }
+            }
+          }
+        },
+        orderBy: { sentAt: 'desc' }
+      });
+
+      return invitations.map(invitation => ({
+        invitedAt: invitation.sentAt,
+        viewedAt: invitation.viewedAt,
+        rfq: invitation.rfq
+      }));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get invited RFQs', 500, 'VENDOR_RFQS_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Get a single invited RFQ and record the first time the vendor opened it
+   */
+  async getInvitedRFQ(vendorId: string, rfqId: string): Promise<any> {
+    try {
+      const invitation = await this.getInvitation(vendorId, rfqId);
+
+      if (!invitation.viewedAt) {
+        await prisma.rFQVendor.update({
+          where: { id: invitation.id },
+          data: { viewedAt: new Date() }
+        });
+      }
+
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        select: {
+          ...VENDOR_RFQ_SELECT,
+          quotes: {
+            where: { vendorId },
+            include: { lineItems: true }
+          }
+        }
+      });
+
+      return rfq;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get RFQ', 500, 'VENDOR_RFQ_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Submit a quote for an invited RFQ, or revise the vendor's existing quote
+   */
+  async submitQuote(actor: VendorActor, rfqId: string, data: VendorQuoteData): Promise<Quote> {
+    try {
+      await this.getInvitation(actor.vendorId, rfqId);
+
+      const rfq = await prisma.rFQ.findUnique({
+        where: { id: rfqId },
+        include: {
+          requisition: {
+            include: { items: true }
+          },
+          deliverySplits: {
+            select: { itemCatalogId: true }
+          },
+          quotes: {
+            where: { vendorId: actor.vendorId }
+          }
+        }
+      });
+
+      if (!rfq) {
+        throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+      }
+
+      if (rfq.status !== 'SENT' && rfq.status !== 'RESPONSES_RECEIVED') {
+        throw new AppError('RFQ is no longer accepting quotes', 400, 'RFQ_CLOSED');
+      }
+
+      if (rfq.responseDeadline && rfq.responseDeadline < new Date()) {
+        throw new AppError('The response deadline for this RFQ has passed', 400, 'RESPONSE_DEADLINE_PASSED');
+      }
+
+      if (!data.lineItems || data.lineItems.length === 0) {
+        throw new AppError('At least one line item is required', 400, 'MISSING_LINE_ITEMS');
+      }
+
+      const requestedItems = new Set([
+        ...rfq.requisition.items.map(item => item.itemCatalogId),
+        ...rfq.deliverySplits.map(split => split.itemCatalogId)
+      ]);
+      for (const line of data.lineItems) {
+        if (!requestedItems.has(line.itemCatalogId)) {
+          throw new AppError(`Item ${line.itemCatalogId} is not part of this RFQ`, 400, 'INVALID_QUOTE_ITEM');
+        }
+        if (line.quantity <= 0 || line.unitPrice < 0) {
+          throw new AppError('Quantities must be positive and prices cannot be negative', 400, 'INVALID_QUOTE_LINE');
+        }
+      }
+
+      // Quotes superseded by an addendum are resubmitted against the current revision
+      const existingQuote = rfq.quotes[0];
+      if (existingQuote && !['PENDING', 'SUBMITTED', 'SUPERSEDED'].includes(existingQuote.status)) {
+        throw new AppError(`Quote can no longer be revised (status: ${existingQuote.status})`, 400, 'QUOTE_NOT_REVISABLE');
+      }
+
+      const currency = data.currency || rfq.currency;
+      const lineItems = data.lineItems.map(line => ({
+        itemCatalogId: line.itemCatalogId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        totalPrice: Math.round(line.quantity * line.unitPrice * 100) / 100,
+        currency,
+        specifications: line.specifications,
+        notes: line.notes
+      }));
+      const totalAmount = lineItems.reduce((sum, line) => sum + line.totalPrice, 0);
+
+      const quoteFields = {
+        status: 'SUBMITTED' as const,
+        totalAmount,
+        currency,
+        deliveryDate: data.deliveryDate,
+        deliveryTerms: data.deliveryTerms,
+        paymentTerms: data.paymentTerms,
+        validUntil: data.validUntil,
+        notes: data.notes,
+        attachments: data.attachments || [],
+        submittedAt: new Date(),
+        submittedById: actor.vendorUserId,
+        rfqRevision: rfq.revision
+      };
+
+      const quoteNumber = existingQuote ? existingQuote.quoteNumber : await this.generateQuoteNumber();
+
+      const quote = await prisma.$transaction(async (tx) => {
+        let saved: Quote;
+
+        if (existingQuote) {
+          // A revision replaces the line items and clears any previous scoring,
+          // including the rate fixed for the old submission date and the costs derived from it
+          await tx.quoteLineItem.deleteMany({
+            where: { quoteId: existingQuote.id }
+          });
+
+          saved = await tx.quote.update({
+            where: { id: existingQuote.id },
+            data: {
+              ...quoteFields,
+              revision: { increment: 1 },
+              exchangeRate: null,
+              exchangeRateDate: null,
+              exchangeRateSource: null,
+              normalisedAmount: null,
+              landedCost: null,
+              priceScore: null,
+              deliveryScore: null,
+              qualityScore: null,
+              locationScore: null,
+              totalScore: null,
+              lineItems: { create: lineItems }
+            },
+            include: { lineItems: true }
+          });
+        } else {
+          saved = await tx.quote.create({
+            data: {
+              ...quoteFields,
+              quoteNumber,
+              rfqId,
+              vendorId: actor.vendorId,
+              lineItems: { create: lineItems }
+            },
+            include: { lineItems: true }
+          });
+        }
+
+        // Sealed RFQs give no sign of bids arriving; the deadline job moves them on
+        if (rfq.status === 'SENT' && !rfq.isSealed) {
+          await tx.rFQ.update({
+            where: { id: rfqId },
+            data: { status: 'RESPONSES_RECEIVED' }
+          });
+        }
+
+        return saved;
+      });
+
+      await AuditService.log({
+        action: existingQuote ? 'UPDATE' : 'CREATE',
+        resource: 'quote',
+        resourceId: quote.id,
+        oldValues: existingQuote ? { totalAmount: existingQuote.totalAmount, revision: existingQuote.revision } : undefined,
+        newValues: { totalAmount, currency, revision: quote.revision, rfqRevision: rfq.revision, lineCount: lineItems.length },
+        vesselId: rfq.requisition.vesselId,
+        metadata: {
+          source: 'VENDOR_PORTAL',
+          ...actor,
+          rfqId,
+          quoteNumber
+        }
+      });
+
+      return quote;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to submit quote', 500, 'QUOTE_SUBMISSION_FAILED');
+    }
+  }
+
+  /**
+   * Ask the buyer a question about an invited RFQ
+   */
+  async askClarification(actor: VendorActor, rfqId: string, question: string): Promise<RFQClarification> {
+    await this.getInvitation(actor.vendorId, rfqId);
+
+    return rfqClarificationService.askQuestion(rfqId, question, actor);
+  }
+
+  /**
+   * The vendor's own questions and the answers published to all invited vendors
+   */
+  async getClarifications(vendorId: string, rfqId: string): Promise<any[]> {
+    await this.getInvitation(vendorId, rfqId);
+
+    return rfqClarificationService.getVendorClarifications(rfqId, vendorId);
+  }
+
+  /**
+   * Formal addenda issued against an invited RFQ
+   */
+  async getAddenda(vendorId: string, rfqId: string): Promise<RFQAddendum[]> {
+    await this.getInvitation(vendorId, rfqId);
+
+    return rfqClarificationService.getAddenda(rfqId);
+  }
+
+  /**
+   * Reverse auction on an invited RFQ, showing only the vendor's own rank
+   */
+  async getAuction(vendorId: string, rfqId: string): Promise<VendorAuctionView> {
+    await this.getInvitation(vendorId, rfqId);
+
+    return auctionService.getVendorAuction(rfqId, vendorId);
+  }
+
+  /**
+   * Bid down the vendor's price in a running auction
+   */
+  async placeBid(actor: VendorActor, rfqId: string, amount: number): Promise<BidResult> {
+    await this.getInvitation(actor.vendorId, rfqId);
+
+    return auctionService.placeBid(rfqId, amount, actor);
+  }
+
+  /**
+   * List the vendor's quotes
+   */
+  async getQuotes(vendorId: string): Promise<Quote[]> {
+    try {
+      return await prisma.quote.findMany({
+        where: { vendorId },
+        include: {
+          lineItems: true,
+          rfq: {
+            select: { id: true, rfqNumber: true, title: true, status: true, responseDeadline: true }
+          }
+        },
+        orderBy: { updatedAt: 'desc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get quotes', 500, 'VENDOR_QUOTES_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * List purchase orders issued to the vendor (drafts awaiting internal approval are hidden)
+   */
+  async getPurchaseOrders(vendorId: string, status?: string): Promise<PurchaseOrder[]> {
+    try {
+      return await prisma.purchaseOrder.findMany({
+        where: {
+          vendorId,
+          AND: [
+            { status: { not: 'DRAFT' } },
+            ...(status ? [{ status: status as POStatus }] : [])
+          ]
+        },
+        include: {
+          lineItems: true,
+          vessel: {
+            select: { name: true, imoNumber: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get purchase orders', 500, 'VENDOR_POS_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Acknowledge receipt and acceptance of a purchase order
+   */
+  async acknowledgePurchaseOrder(actor: VendorActor, purchaseOrderId: string, data: VendorAcknowledgementData): Promise<PurchaseOrder> {
+    try {
+      const po = await this.getVendorPurchaseOrder(actor.vendorId, purchaseOrderId);
+
+      if (po.status !== 'SENT') {
+        throw new AppError('Only sent purchase orders can be acknowledged', 400, 'INVALID_PO_STATUS');
+      }
+
+      const acknowledgement = [
+        `Acknowledged by vendor on ${new Date().toISOString()}`,
+        data.confirmedDeliveryDate ? `Confirmed delivery date: ${data.confirmedDeliveryDate.toISOString().split('T')[0]}` : null,
+        data.notes || null
+      ].filter(Boolean).join('\n');
+
+      const updated = await prisma.purchaseOrder.update({
+        where: { id: purchaseOrderId },
+        data: {
+          status: 'ACKNOWLEDGED',
+          acknowledgedAt: new Date(),
+          acknowledgedById: actor.vendorUserId,
+          deliveryDate: data.confirmedDeliveryDate || po.deliveryDate,
+          notes: po.notes ? `${po.notes}\n\n${acknowledgement}` : acknowledgement
+        }
+      });
+
+      await AuditService.log({
+        action: 'UPDATE',
+        resource: 'purchase_order',
+        resourceId: purchaseOrderId,
+        oldValues: { status: po.status, deliveryDate: po.deliveryDate },
+        newValues: { status: 'ACKNOWLEDGED', deliveryDate: updated.deliveryDate },
+        vesselId: po.vesselId,
+        metadata: {
+          source: 'VENDOR_PORTAL',
+          ...actor,
+          poNumber: po.poNumber
+        }
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to acknowledge purchase order', 500, 'PO_ACKNOWLEDGEMENT_FAILED');
+    }
+  }
+
+  /**
+   * Signed PDF of the purchase order revision issued to the vendor
+   */
+  async getPurchaseOrderDocument(vendorId: string, purchaseOrderId: string): Promise<PurchaseOrderDocument> {
+    await this.getVendorPurchaseOrder(vendorId, purchaseOrderId);
+
+    return purchaseOrderDocumentService.getDocument(purchaseOrderId);
+  }
+
+  /**
+   * Amendments issued on one of the vendor's purchase orders, with per-line changes
+   */
+  async getPurchaseOrderAmendments(vendorId: string, purchaseOrderId: string): Promise<POAmendment[]> {
+    await this.getVendorPurchaseOrder(vendorId, purchaseOrderId);
+
+    return poAmendmentService.getAmendments(purchaseOrderId, true);
+  }
+
+  /**
+   * Accept the latest revision of an amended purchase order
+   */
+  async acknowledgeAmendment(actor: VendorActor, purchaseOrderId: string, amendmentId: string, notes?: string): Promise<POAmendment> {
+    await this.getVendorPurchaseOrder(actor.vendorId, purchaseOrderId);
+
+    return poAmendmentService.acknowledgeAmendment(purchaseOrderId, amendmentId, actor, notes);
+  }
+
+  /**
+   * Upload an invoice against one of the vendor's purchase orders.
+   * When a scanned invoice is attached it goes straight through OCR and three-way matching.
+   */
+  async submitInvoice(
+    actor: VendorActor,
+    data: VendorInvoiceData,
+    file?: Buffer
+  ): Promise<{ invoice: Invoice; processingResult?: InvoiceValidationResult }> {
+    try {
+      const po = await this.getVendorPurchaseOrder(actor.vendorId, data.purchaseOrderId);
+
+      if (!this.INVOICEABLE_PO_STATUSES.includes(po.status)) {
+        throw new AppError(`Purchase order cannot be invoiced (status: ${po.status})`, 400, 'INVALID_PO_STATUS');
+      }
+
+      const existingInvoice = await prisma.invoice.findUnique({
+        where: { invoiceNumber: data.invoiceNumber }
+      });
+
+      if (existingInvoice) {
+        throw new AppError('Invoice number already exists', 409, 'DUPLICATE_INVOICE_NUMBER');
+      }
+
+      const invoice = await prisma.invoice.create({
+        data: {
+          invoiceNumber: data.invoiceNumber,
+          purchaseOrderId: data.purchaseOrderId,
+          totalAmount: data.totalAmount,
+          currency: data.currency || po.currency,
+          invoiceDate: data.invoiceDate,
+          dueDate: data.dueDate,
+          notes: data.notes,
+          status: 'RECEIVED',
+          submittedById: actor.vendorUserId
+        }
+      });
+
+      await AuditService.log({
+        action: 'CREATE',
+        resource: 'Invoice',
+        resourceId: invoice.id,
+        newValues: {
+          invoiceNumber: invoice.invoiceNumber,
+          purchaseOrderId: invoice.purchaseOrderId,
+          totalAmount: invoice.totalAmount,
+          currency: invoice.currency
+        },
+        vesselId: po.vesselId,
+        metadata: {
+          source: 'VENDOR_PORTAL',
+          ...actor,
+          poNumber: po.poNumber
+        }
+      });
+
+      const processingResult = file
+        ? await invoiceProcessingService.processInvoice(invoice.id, file)
+        : undefined;
+
+      return { invoice, processingResult };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to submit invoice', 500, 'INVOICE_SUBMISSION_FAILED');
+    }
+  }
+
+  /**
+   * List invoices the vendor has raised
+   */
+  async getInvoices(vendorId: string): Promise<Invoice[]> {
+    try {
+      return await prisma.invoice.findMany({
+        where: {
+          purchaseOrder: { vendorId }
+        },
+        include: {
+          purchaseOrder: {
+            select: { id: true, poNumber: true, totalAmount: true, currency: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get invoices', 500, 'VENDOR_INVOICES_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * List goods the buyer is returning to the vendor
+   */
+  async getReturnRequests(vendorId: string): Promise<ReturnRequest[]> {
+    try {
+      return await prisma.returnRequest.findMany({
+        where: { vendorId },
+        include: {
+          lines: {
+            select: {
+              id: true,
+              quantity: true,
+              notes: true,
+              deliveryLine: {
+                select: {
+                  poLineItem: {
+                    select: { itemDescription: true, unitPrice: true, currency: true }
+                  }
+                }
+              }
+            }
+          },
+          delivery: {
+            select: { deliveryNumber: true, actualDate: true }
+          },
+          purchaseOrder: {
+            select: { id: true, poNumber: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get return requests', 500, 'VENDOR_RETURNS_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Accept or dispute a return raised against one of the vendor's deliveries
+   */
+  async acknowledgeReturn(actor: VendorActor, returnId: string, data: ReturnAcknowledgementData): Promise<ReturnRequest> {
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id: returnId },
+      select: { vendorId: true }
+    });
+
+    if (!returnRequest || returnRequest.vendorId !== actor.vendorId) {
+      throw new AppError('Return request not found', 404, 'RETURN_NOT_FOUND');
+    }
+
+    return returnService.acknowledgeReturn(returnId, data, { vendorUserId: actor.vendorUserId });
+  }
+
+  // Private helper methods
+
+  private async getInvitation(vendorId: string, rfqId: string) {
+    const invitation = await prisma.rFQVendor.findUnique({
+      where: {
+        rfqId_vendorId: { rfqId, vendorId }
+      }
+    });
+
+    // Uninvited vendors get the same response as a missing RFQ
+    if (!invitation || !invitation.sentAt) {
+      throw new AppError('RFQ not found', 404, 'RFQ_NOT_FOUND');
+    }
+
+    return invitation;
+  }
+
+  private async getVendorPurchaseOrder(vendorId: string, purchaseOrderId: string): Promise<PurchaseOrder> {
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId }
+    });
+
+    if (!po || po.vendorId !== vendorId || po.status === 'DRAFT') {
+      throw new AppError('Purchase order not found', 404, 'PURCHASE_ORDER_NOT_FOUND');
+    }
+
+    return po;
+  }
+
+  private async generateQuoteNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const count = await prisma.quote.count({
+      where: {
+        createdAt: {
+          gte: new Date(`${year}-01-01`),
+          lt: new Date(`${year + 1}-01-01`)
+        }
+      }
+    });
+    return `QT-${year}-${String(count + 1).padStart(4, '0')}`;
+  }
+}
+
+export const vendorPortalService = new VendorPortalService();
@@ -553,7 +553,7 @@ class VendorService {
       });
 
       // Audit log
-      await auditService.log({
+      await AuditService.log({
         userId,
         action: 'UPDATE',
         resource: 'vendor_performance',
@@ -598,7 +598,7 @@ class VendorService {
       });
 
       // Audit log
-      await auditService.log({
+      await AuditService.log({
         userId,
         action: 'UPDATE',
         resource: 'vendor_approval',
@@ -52,11 +52,19 @@ export interface MaintenanceSchedule {
   scheduledDate: Date;
   estimatedDuration: number;
   requiredParts: string[];
+  partRequirements: MaintenancePartRequirement[];
   assignedCrew: string[];
   status: 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'OVERDUE';
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 }
 
+export interface MaintenancePartRequirement {
+  partNumber: string;
+  maker?: string;
+  impaCode?: string;
+  quantity: number;
+}
+
 export interface CertificateStatus {
   vesselId: string;
   certificateType: string;
@@ -409,13 +417,32 @@ class VesselManagementIntegrationService {
       description: item.description,
       scheduledDate: new Date(item.scheduled_date),
       estimatedDuration: item.estimated_duration,
-      requiredParts: item.required_parts || [],
+      requiredParts: (item.required_parts || []).map((part: any) =>
+        typeof part === 'string' ? part : part.part_number || part.impa_code
+      ),
+      partRequirements: (item.required_parts || []).map((part: any) => this.mapMaintenancePart(part)),
       assignedCrew: item.assigned_crew || [],
       status: item.status,
       priority: item.priority
     })) || [];
   }
 
+  /**
+   * PMS exports list parts either as bare part numbers or as lines with maker and quantity
+   */
+  private mapMaintenancePart(part: any): MaintenancePartRequirement {
+    if (typeof part === 'string') {
+      return { partNumber: part, quantity: 1 };
+    }
+
+    return {
+      partNumber: part.part_number || part.impa_code,
+      maker: part.maker || undefined,
+      impaCode: part.impa_code || undefined,
+      quantity: Number(part.quantity) > 0 ? Number(part.quantity) : 1
+    };
+  }
+
   private mapCertificateStatus(data: any, vesselId: string): CertificateStatus[] {
     return data.certificates?.map((cert: any) => {
       const expiryDate = new Date(cert.expiry_date);
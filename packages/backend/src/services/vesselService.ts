@@ -1,6 +1,7 @@
 import { PrismaClient, Vessel, VesselCertificate, VesselSpecification } from '@prisma/client';
 import { logger } from '../utils/logger.js';
 import { auditService } from './auditService.js';
+import { portCallService } from './portCallService.js';
 
 const prisma = new PrismaClient();
 
@@ -8,6 +9,7 @@ export interface VesselCreateData {
   name: string;
   imoNumber: string;
   vesselType: string;
+  fleet?: string;
   flag: string;
   engineType: string;
   cargoCapacity: number;
@@ -19,6 +21,7 @@ export interface VesselCreateData {
   currentDestination?: string;
   currentETA?: Date;
   currentRoute?: string;
+  maintenanceSystemId?: string;
 }
 
 export interface VesselUpdateData extends Partial<VesselCreateData> {
@@ -376,6 +379,14 @@ class VesselService {
 
       logger.info('Vessel voyage updated', { vesselId: id, userId });
 
+      // Keep the port call schedule in step; a failure here must not lose the voyage update
+      try {
+        const warnings = await portCallService.syncFromVoyage(id, voyageData, userId);
+        warnings.forEach(warning => logger.warn('Planned delivery no longer matches revised ETA', { vesselId: id, warning }));
+      } catch (error) {
+        logger.warn('Port call schedule not updated from voyage', { error, vesselId: id });
+      }
+
       return vessel;
     } catch (error) {
       logger.error('Failed to update vessel voyage', { error, id, voyageData, userId });
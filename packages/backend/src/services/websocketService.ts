@@ -3,6 +3,7 @@ import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { verifyVendorAccessToken } from '../utils/jwt';
 
 const prisma = new PrismaClient();
 
@@ -16,7 +17,7 @@ export interface DeliveryStatusUpdate {
 }
 
 export interface NotificationData {
-  type: 'delivery_update' | 'delivery_delayed' | 'delivery_delivered' | 'emergency_delivery';
+  type: 'delivery_update' | 'delivery_delayed' | 'delivery_delivered' | 'emergency_delivery' | 'approval_reminder' | 'approval_escalated';
   title: string;
   message: string;
   data: any;
@@ -25,6 +26,38 @@ export interface NotificationData {
   priority: 'low' | 'medium' | 'high' | 'critical';
 }
 
+export interface AuctionStanding {
+  rank: number;
+  vendorId: string;
+  vendorName: string;
+  amount: number;
+  bidAt: Date;
+}
+
+// Full board for buyers watching the auction
+export interface AuctionUpdate {
+  rfqId: string;
+  auctionId: string;
+  status: string;
+  endsAt: Date;
+  extended: boolean;
+  standings: AuctionStanding[];
+  timestamp: Date;
+}
+
+// What one bidder may see: its own position, never other vendors' prices
+export interface VendorAuctionUpdate {
+  rfqId: string;
+  status: string;
+  endsAt: Date;
+  rank: number | null;
+  bestBid: number | null;
+  timestamp: Date;
+}
+
+// Roles allowed to watch live auction standings
+const AUCTION_WATCHER_ROLES = ['SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN'];
+
 class WebSocketService {
   private io: SocketIOServer | null = null;
   private connectedUsers: Map<string, string[]> = new Map(); // userId -> socketIds[]
@@ -59,6 +92,28 @@ class WebSocketService {
         return next(new Error('Authentication token required'));
       }
 
+      // Vendor portal users connect with their own token realm and only receive vendor-scoped events
+      if ((jwt.decode(token) as any)?.realm === 'vendor') {
+        const vendorToken = verifyVendorAccessToken(token);
+        const vendorUser = await prisma.vendorUser.findUnique({
+          where: { id: vendorToken.vendorUserId },
+          include: {
+            vendor: {
+              select: { isActive: true }
+            }
+          }
+        });
+
+        if (!vendorUser || !vendorUser.isActive || !vendorUser.vendor.isActive || vendorUser.vendorId !== vendorToken.vendorId) {
+          return next(new Error('Invalid vendor user'));
+        }
+
+        socket.vendorUserId = vendorUser.id;
+        socket.vendorId = vendorUser.vendorId;
+
+        return next();
+      }
+
       const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
       const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
@@ -90,6 +145,16 @@ class WebSocketService {
    * Handle new socket connection
    */
   private handleConnection(socket: any): void {
+    if (socket.vendorId) {
+      socket.join(`vendor:${socket.vendorId}`);
+      logger.info(`Vendor user ${socket.vendorUserId} connected via WebSocket (${socket.id})`);
+
+      socket.on('disconnect', () => {
+        logger.info(`Vendor user ${socket.vendorUserId} disconnected from WebSocket (${socket.id})`);
+      });
+      return;
+    }
+
     const userId = socket.userId;
     
     // Track connected user
@@ -106,6 +171,9 @@ class WebSocketService {
     // Join user-specific room
     socket.join(`user:${userId}`);
 
+    // Fleet-wide broadcasts go to this room so they never reach vendor portal sockets
+    socket.join('internal');
+
     logger.info(`User ${userId} connected via WebSocket (${socket.id})`);
 
     // Handle disconnection
@@ -134,6 +202,19 @@ class WebSocketService {
       socket.leave(`delivery:${deliveryId}`);
       logger.info(`User ${userId} unsubscribed from delivery ${deliveryId}`);
     });
+
+    // Handle live auction subscription
+    socket.on('subscribe_auction', (rfqId: string) => {
+      if (!AUCTION_WATCHER_ROLES.includes(socket.userRole)) {
+        return;
+      }
+      socket.join(`auction:${rfqId}`);
+      logger.info(`User ${userId} subscribed to auction for RFQ ${rfqId}`);
+    });
+
+    socket.on('unsubscribe_auction', (rfqId: string) => {
+      socket.leave(`auction:${rfqId}`);
+    });
   }
 
   /**
@@ -200,6 +281,24 @@ class WebSocketService {
     logger.info(`Notification sent to user ${userId}: ${notification.title}`);
   }
 
+  /**
+   * Send live auction standings to subscribed buyers
+   */
+  async sendAuctionUpdate(update: AuctionUpdate): Promise<void> {
+    if (!this.io) return;
+
+    this.io.to(`auction:${update.rfqId}`).emit('auction_update', update);
+  }
+
+  /**
+   * Send a bidder its own rank in an auction
+   */
+  async sendVendorAuctionUpdate(vendorId: string, update: VendorAuctionUpdate): Promise<void> {
+    if (!this.io) return;
+
+    this.io.to(`vendor:${vendorId}`).emit('auction_rank', update);
+  }
+
   /**
    * Send notification to vessel users
    */
@@ -244,8 +343,8 @@ class WebSocketService {
         priority: 'critical'
       };
 
-      // Send to all connected users (emergency notifications)
-      this.io.emit('emergency_notification', notification);
+      // Send to all connected internal users (emergency notifications)
+      this.io.to('internal').emit('emergency_notification', notification);
 
       logger.warn(`Emergency delivery notification sent for ${deliveryId}: ${message}`);
     } catch (error) {
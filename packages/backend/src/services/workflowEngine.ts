@@ -1,4 +1,4 @@
-import { PrismaClient, Requisition, User, Vessel, UrgencyLevel, CriticalityLevel, UserRole } from '@prisma/client';
+import { PrismaClient, Prisma, User, UrgencyLevel, CriticalityLevel, UserRole, ApprovalGroup } from '@prisma/client';
 import { 
   WorkflowRule, 
   WorkflowCondition, 
@@ -6,25 +6,34 @@ import {
   ApprovalThreshold, 
   BudgetHierarchy, 
   EmergencyBypass,
-  DEFAULT_APPROVAL_THRESHOLDS,
-  DEFAULT_EMERGENCY_BYPASSES
-}
+  WorkflowRuleSetConfig,
+  ResolvedWorkflowRules,
+  ApprovalBranchCondition,
+  ApprovalGraphDefinition,
+  ResolvedApprovalGraph
 } from '../models/WorkflowRule';
 import { AuditService } from './auditService';
+import { workflowRuleService } from './workflowRuleService';
+import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
-interface RequisitionWithDetails extends Requisition {
-  vessel: Vessel;
-  requestedBy: User;
-  items: Array<{
-    itemCatalog: {
-      criticalityLevel: CriticalityLevel;
-      category: string;
-    };
-    quantity: number;
-    totalPrice: number;
-  }>;
-}
+// What a requisition must be loaded with to be evaluated against the workflow rules
+export const REQUISITION_WORKFLOW_INCLUDE = {
+  vessel: true,
+  requestedBy: true,
+  items: {
+    include: {
+      itemCatalog: {
+        select: {
+          criticalityLevel: true,
+          category: true
+        }
+      }
+    }
+  }
+};
+
+export type RequisitionWithDetails = Prisma.RequisitionGetPayload<{ include: typeof REQUISITION_WORKFLOW_INCLUDE }>;
 
 interface ApprovalDecision {
   requiresApproval: boolean;
@@ -37,55 +46,98 @@ interface ApprovalDecision {
   escalationDelay?: number;
   reason: string;
   budgetHierarchy: 'VESSEL' | 'FLEET' | 'COMPANY';
+  ruleSetId?: string | null;
+  ruleSetVersion?: number | null;
+  evaluationId?: string;
+  approvalGraph?: ResolvedApprovalGraph;
+}
+
+type ApprovalGroupOutcome = 'ACTIVE' | 'APPROVED' | 'REJECTED';
+
+export interface ApprovalGraphApproval {
+  id: string;
+  approverId: string;
+  approverName: string;
+  approverRole: string;
+  status: string;
+  comments: string | null;
+  approvedAt: Date | null;
+}
+
+export interface ApprovalGraphGroup {
+  id: string | null;
+  key: string;
+  name: string;
+  mode: 'ALL' | 'ANY';
+  approverRoles: string[];
+  requiredApprovals: number;
+  approvedCount: number;
+  status: string;
+  conditionSummary: string | null;
+  approvals: ApprovalGraphApproval[];
+}
+
+export interface ApprovalGraphStage {
+  stage: number;
+  name: string;
+  status: string;
+  groups: ApprovalGraphGroup[];
+}
+
+export interface ApprovalGraphState {
+  requisitionId: string;
+  requisitionStatus: string;
+  satisfied: boolean;
+  currentStage: number | null;
+  stages: ApprovalGraphStage[];
+}
+
+interface EvaluationOptions {
+  rules?: ResolvedWorkflowRules; // Evaluate against these rules instead of the ones in force
+  simulation?: boolean;
+  evaluatedById?: string;
 }
 
 export class WorkflowEngine {
   private prisma: PrismaClient;
-  private approvalThresholds: ApprovalThreshold[];
-  private emergencyBypasses: EmergencyBypass[];
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
-    this.approvalThresholds = DEFAULT_APPROVAL_THRESHOLDS;
-    this.emergencyBypasses = DEFAULT_EMERGENCY_BYPASSES;
   }
 
   /**
    * Evaluate a requisition against workflow rules to determine approval requirements
    */
-  async evaluateRequisition(requisition: RequisitionWithDetails): Promise<ApprovalDecision> {
+  async evaluateRequisition(requisition: RequisitionWithDetails, options: EvaluationOptions = {}): Promise<ApprovalDecision> {
     try {
       logger.info(`Evaluating workflow for requisition ${requisition.id}`);
 
-      // Check for emergency bypass first
-      const emergencyBypass = await this.checkEmergencyBypass(requisition);
-      if (emergencyBypass.emergencyBypass) {
-        return emergencyBypass;
-      }
+      const rules = options.rules || await workflowRuleService.resolveActiveRules({
+        fleet: requisition.vessel?.fleet,
+        vesselType: requisition.vessel?.vesselType
+      });
 
-      // Check amount-based routing
-      const amountBasedDecision = await this.evaluateAmountBasedRouting(requisition);
-      
-      // Check urgency-based workflow modifications
-      const urgencyModifiedDecision = await this.applyUrgencyModifications(
-        amountBasedDecision, 
-        requisition
-      );
+      const decision = await this.applyRules(requisition, rules);
+      decision.ruleSetId = rules.ruleSetId;
+      decision.ruleSetVersion = rules.version;
 
-      // Validate budget hierarchy
-      const budgetValidatedDecision = await this.validateBudgetHierarchy(
-        urgencyModifiedDecision,
-        requisition
-      );
+      // Record which rule version produced this decision
+      const evaluation = await workflowRuleService.recordEvaluation(requisition.id, rules, decision, {
+        isSimulation: options.simulation,
+        evaluatedById: options.evaluatedById
+      });
+      decision.evaluationId = evaluation.id;
 
       // Log the decision
-      await AuditService.logWorkflowDecision(
-        requisition.requestedById,
-        requisition.id,
-        budgetValidatedDecision
-      );
+      if (!options.simulation) {
+        await AuditService.logWorkflowDecision(
+          requisition.requestedById,
+          requisition.id,
+          decision
+        );
+      }
 
-      return budgetValidatedDecision;
+      return decision;
 
     } catch (error) {
       logger.error('Error evaluating workflow:', error);
@@ -93,10 +145,73 @@ export class WorkflowEngine {
     }
   }
 
+  /**
+   * Dry run: evaluate a stored requisition against draft rules and compare with the rules in force
+   */
+  async simulateRequisition(
+    requisitionId: string,
+    draftRules: ResolvedWorkflowRules,
+    userId: string
+  ): Promise<{ simulated: ApprovalDecision; current: ApprovalDecision; outcomeChanged: boolean }> {
+    const requisition = await this.prisma.requisition.findUnique({
+      where: { id: requisitionId },
+      include: REQUISITION_WORKFLOW_INCLUDE
+    });
+
+    if (!requisition) {
+      throw new AppError('Requisition not found', 404, 'REQUISITION_NOT_FOUND');
+    }
+
+    const currentRules = await workflowRuleService.resolveActiveRules({
+      fleet: requisition.vessel.fleet,
+      vesselType: requisition.vessel.vesselType
+    });
+
+    const options = { simulation: true, evaluatedById: userId };
+    const simulated = await this.evaluateRequisition(requisition, { ...options, rules: draftRules });
+    const current = await this.evaluateRequisition(requisition, { ...options, rules: currentRules });
+
+    return {
+      simulated,
+      current,
+      outcomeChanged: simulated.autoApprove !== current.autoApprove ||
+        simulated.emergencyBypass !== current.emergencyBypass ||
+        simulated.approverRole !== current.approverRole ||
+        simulated.approverLevel !== current.approverLevel
+    };
+  }
+
+  /**
+   * Run the rule pipeline for one set of rules
+   */
+  private async applyRules(requisition: RequisitionWithDetails, rules: WorkflowRuleSetConfig): Promise<ApprovalDecision> {
+    // Check for emergency bypass first
+    const emergencyBypass = await this.checkEmergencyBypass(requisition, rules.emergencyBypasses);
+    if (emergencyBypass.emergencyBypass) {
+      return emergencyBypass;
+    }
+
+    // Check amount-based routing
+    const amountBasedDecision = await this.evaluateAmountBasedRouting(requisition, rules.approvalThresholds);
+    
+    // Check urgency-based workflow modifications
+    const urgencyModifiedDecision = await this.applyUrgencyModifications(
+      amountBasedDecision, 
+      requisition,
+      rules
+    );
+
+    // Validate budget hierarchy
+    return this.validateBudgetHierarchy(
+      urgencyModifiedDecision,
+      requisition
+    );
+  }
+
   /**
    * Check if requisition qualifies for emergency bypass
    */
-  private async checkEmergencyBypass(requisition: RequisitionWithDetails): Promise<ApprovalDecision> {
+  private async checkEmergencyBypass(requisition: RequisitionWithDetails, emergencyBypasses: EmergencyBypass[]): Promise<ApprovalDecision> {
     if (requisition.urgencyLevel !== 'EMERGENCY') {
       return { requiresApproval: true, reason: 'Not emergency', budgetHierarchy: 'VESSEL' };
     }
@@ -105,7 +220,7 @@ export class WorkflowEngine {
     const highestCriticality = this.getHighestCriticalityLevel(requisition.items);
     
     // Find matching emergency bypass rule
-    const bypassRule = this.emergencyBypasses.find(rule => 
+    const bypassRule = emergencyBypasses.find(rule => 
       rule.urgencyLevel === requisition.urgencyLevel &&
       rule.criticalityLevel === highestCriticality &&
       rule.allowedRoles.includes(requisition.requestedBy.role)
@@ -138,7 +253,7 @@ export class WorkflowEngine {
   /**
    * Evaluate amount-based routing thresholds
    */
-  private async evaluateAmountBasedRouting(requisition: RequisitionWithDetails): Promise<ApprovalDecision> {
+  private async evaluateAmountBasedRouting(requisition: RequisitionWithDetails, approvalThresholds: ApprovalThreshold[]): Promise<ApprovalDecision> {
     const amount = requisition.totalAmount;
     const currency = requisition.currency;
 
@@ -146,7 +261,7 @@ export class WorkflowEngine {
     const usdAmount = currency === 'USD' ? amount : amount; // TODO: Implement currency conversion
 
     // Find matching threshold
-    const threshold = this.approvalThresholds.find(t => 
+    const threshold = approvalThresholds.find(t => 
       usdAmount >= t.minAmount && usdAmount < t.maxAmount
     );
 
@@ -170,34 +285,104 @@ export class WorkflowEngine {
       }
     }
 
+    // When no branch of the graph applies, fall back to the threshold's single approver
+    const graph = threshold.approvalGraph
+      ? this.resolveApprovalGraph(threshold.approvalGraph, requisition)
+      : undefined;
+    const approvalGraph = graph?.groups.some(group => group.applies) ? graph : undefined;
+
     return {
       requiresApproval: true,
       approverRole: threshold.requiredRole,
       approverLevel: threshold.approverLevel,
       budgetLimit: threshold.maxAmount,
       costCenter: threshold.costCenterRequired ? 'REQUIRED' : undefined,
-      reason: `Amount-based routing: $${usdAmount} requires ${threshold.requiredRole}`,
-      budgetHierarchy: threshold.budgetHierarchy
+      reason: approvalGraph
+        ? `Amount-based routing: $${usdAmount} requires approval graph`
+        : `Amount-based routing: $${usdAmount} requires ${threshold.requiredRole}`,
+      budgetHierarchy: threshold.budgetHierarchy,
+      approvalGraph
     };
   }
 
+  /**
+   * Evaluate branch conditions of an approval graph against a requisition
+   */
+  resolveApprovalGraph(graph: ApprovalGraphDefinition, requisition: RequisitionWithDetails): ResolvedApprovalGraph {
+    const groups = graph.stages.flatMap((stage, index) => {
+      const stageApplies = this.matchesBranchCondition(stage.condition, requisition);
+
+      return stage.groups.map(group => ({
+        ...group,
+        requiredApprovals: group.mode === 'ANY' ? (group.requiredApprovals || 1) : group.approverRoles.length,
+        stage: index + 1,
+        stageName: stage.name,
+        applies: stageApplies && this.matchesBranchCondition(group.condition, requisition),
+        conditionSummary: [stage.condition, group.condition]
+          .filter((condition): condition is ApprovalBranchCondition => !!condition)
+          .map(condition => this.describeBranchCondition(condition))
+          .join('; ') || undefined
+      }));
+    });
+
+    return { groups };
+  }
+
+  private matchesBranchCondition(condition: ApprovalBranchCondition | undefined, requisition: RequisitionWithDetails): boolean {
+    if (!condition) {
+      return true;
+    }
+
+    if (condition.minAmount !== undefined && requisition.totalAmount < condition.minAmount) {
+      return false;
+    }
+
+    const categories = condition.categories || [];
+    const criticalityLevels = condition.criticalityLevels || [];
+    if (categories.length === 0 && criticalityLevels.length === 0) {
+      return true;
+    }
+
+    return requisition.items.some(item =>
+      categories.includes(item.itemCatalog.category) ||
+      criticalityLevels.includes(item.itemCatalog.criticalityLevel)
+    );
+  }
+
+  private describeBranchCondition(condition: ApprovalBranchCondition): string {
+    const parts: string[] = [];
+    if (condition.categories?.length) parts.push(`category in ${condition.categories.join(', ')}`);
+    if (condition.criticalityLevels?.length) parts.push(`criticality in ${condition.criticalityLevels.join(', ')}`);
+    const itemCondition = parts.join(' or ');
+
+    if (condition.minAmount === undefined) {
+      return itemCondition;
+    }
+    const amountCondition = `amount >= ${condition.minAmount}`;
+    return itemCondition ? `${itemCondition} and ${amountCondition}` : amountCondition;
+  }
+
   /**
    * Apply urgency-based modifications to workflow
    */
   private async applyUrgencyModifications(
     decision: ApprovalDecision, 
-    requisition: RequisitionWithDetails
+    requisition: RequisitionWithDetails,
+    rules: WorkflowRuleSetConfig
   ): Promise<ApprovalDecision> {
     
     if (decision.autoApprove || decision.emergencyBypass) {
       return decision;
     }
 
+    // Escalation delay comes from the approval SLA for the urgency level
+    const escalationDelay = workflowRuleService.getApprovalSla(rules, requisition.urgencyLevel).escalateAfterHours;
+
     // Urgent items get expedited processing
     if (requisition.urgencyLevel === 'URGENT') {
       return {
         ...decision,
-        escalationDelay: 2, // 2 hours instead of default 24
+        escalationDelay,
         reason: `${decision.reason} (Expedited for URGENT)`
       };
     }
@@ -206,7 +391,7 @@ export class WorkflowEngine {
     if (requisition.urgencyLevel === 'EMERGENCY') {
       return {
         ...decision,
-        escalationDelay: 1, // 1 hour escalation
+        escalationDelay,
         reason: `${decision.reason} (Priority for EMERGENCY)`
       };
     }
@@ -214,7 +399,7 @@ export class WorkflowEngine {
     // Routine items get standard processing
     return {
       ...decision,
-      escalationDelay: 24 // 24 hours standard
+      escalationDelay
     };
   }
 
@@ -243,7 +428,8 @@ export class WorkflowEngine {
           budgetHierarchy: 'FLEET',
           approverRole: 'PROCUREMENT_MANAGER',
           approverLevel: Math.max(decision.approverLevel || 1, 2),
-          reason: `${decision.reason} (Escalated to FLEET - vessel budget exceeded)`
+          reason: `${decision.reason} (Escalated to FLEET - vessel budget exceeded)`,
+          approvalGraph: this.addEscalationStage(decision.approvalGraph, 'PROCUREMENT_MANAGER', 'Fleet budget escalation')
         };
       }
 
@@ -254,7 +440,8 @@ export class WorkflowEngine {
           budgetHierarchy: 'COMPANY',
           approverRole: 'FINANCE_TEAM',
           approverLevel: Math.max(decision.approverLevel || 2, 3),
-          reason: `${decision.reason} (Escalated to COMPANY - fleet budget exceeded)`
+          reason: `${decision.reason} (Escalated to COMPANY - fleet budget exceeded)`,
+          approvalGraph: this.addEscalationStage(decision.approvalGraph, 'FINANCE_TEAM', 'Company budget escalation')
         };
       }
     }
@@ -262,6 +449,36 @@ export class WorkflowEngine {
     return decision;
   }
 
+  /**
+   * Budget escalation on a graph adds a final stage instead of replacing the approver
+   */
+  private addEscalationStage(
+    graph: ResolvedApprovalGraph | undefined,
+    role: string,
+    name: string
+  ): ResolvedApprovalGraph | undefined {
+    if (!graph) {
+      return undefined;
+    }
+
+    const lastStage = Math.max(0, ...graph.groups.map(group => group.stage));
+    return {
+      groups: [
+        ...graph.groups,
+        {
+          key: 'budget-escalation',
+          name,
+          approverRoles: [role],
+          mode: 'ALL',
+          requiredApprovals: 1,
+          stage: lastStage + 1,
+          stageName: name,
+          applies: true
+        }
+      ]
+    };
+  }
+
   /**
    * Get vessel budget information
    */
@@ -321,6 +538,10 @@ export class WorkflowEngine {
     return highest;
   }
 
+  private hoursFromNow(hours: number): Date {
+    return new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+
   /**
    * Get current budget period (simplified)
    */
@@ -356,6 +577,11 @@ export class WorkflowEngine {
       return;
     }
 
+    if (decision.approvalGraph) {
+      await this.createApprovalGraph(requisitionId, decision.approvalGraph);
+      return;
+    }
+
     // Find appropriate approver
     const approver = await this.findApprover(requisitionId, decision);
     
@@ -372,13 +598,404 @@ export class WorkflowEngine {
         status: 'PENDING',
         comments: decision.reason,
         budgetLimit: decision.budgetLimit,
-        costCenter: decision.costCenter
+        costCenter: decision.costCenter,
+        dueAt: decision.escalationDelay ? this.hoursFromNow(decision.escalationDelay) : undefined
       }
     });
 
     logger.info(`Created approval workflow for requisition ${requisitionId}, approver: ${approver.email}`);
   }
 
+  /**
+   * Create the groups of an approval graph and open its first applicable stage
+   */
+  private async createApprovalGraph(requisitionId: string, graph: ResolvedApprovalGraph): Promise<void> {
+    await this.prisma.approvalGroup.createMany({
+      data: graph.groups.map(group => ({
+        requisitionId,
+        stage: group.stage,
+        stageName: group.stageName,
+        key: group.key,
+        name: group.name,
+        mode: group.mode,
+        approverRoles: group.approverRoles,
+        requiredApprovals: group.requiredApprovals || 1,
+        status: group.applies ? 'WAITING' as const : 'SKIPPED' as const,
+        condition: group.condition as any,
+        conditionSummary: group.conditionSummary
+      }))
+    });
+
+    await this.activateNextStage(requisitionId);
+
+    logger.info(`Created approval graph for requisition ${requisitionId} with ${graph.groups.length} groups`);
+  }
+
+  /**
+   * Open every waiting group in the lowest waiting stage. Returns the stage opened, or null when none are left.
+   */
+  private async activateNextStage(requisitionId: string): Promise<number | null> {
+    const waiting = await this.prisma.approvalGroup.findMany({
+      where: { requisitionId, status: 'WAITING' },
+      orderBy: { stage: 'asc' }
+    });
+
+    if (waiting.length === 0) {
+      return null;
+    }
+
+    const stage = waiting[0].stage;
+    const requisition = await this.prisma.requisition.findUnique({
+      where: { id: requisitionId },
+      select: {
+        vesselId: true,
+        urgencyLevel: true,
+        vessel: { select: { fleet: true, vesselType: true } }
+      }
+    });
+
+    if (!requisition) {
+      throw new Error('Requisition not found');
+    }
+
+    // Each stage gets the full SLA from the moment it opens
+    const rules = await workflowRuleService.resolveActiveRules({
+      fleet: requisition.vessel?.fleet,
+      vesselType: requisition.vessel?.vesselType
+    });
+    const dueAt = requisition.urgencyLevel
+      ? this.hoursFromNow(workflowRuleService.getApprovalSla(rules, requisition.urgencyLevel).escalateAfterHours)
+      : undefined;
+
+    for (const group of waiting.filter(g => g.stage === stage)) {
+      const approvers = await this.findGroupApprovers(requisition.vesselId, group);
+
+      await this.prisma.$transaction(async (tx) => {
+        // Concurrent final approvals can both reach here; only the one that moves the group out of WAITING opens it
+        const claimed = await tx.approvalGroup.updateMany({
+          where: { id: group.id, status: 'WAITING' },
+          data: { status: 'ACTIVE', activatedAt: new Date() }
+        });
+        if (claimed.count === 0) {
+          return;
+        }
+
+        for (const approver of approvers) {
+          await tx.approval.create({
+            data: {
+              requisitionId,
+              approverId: approver.id,
+              level: stage,
+              status: 'PENDING',
+              approvalGroupId: group.id,
+              approverRole: approver.role,
+              dueAt
+            }
+          });
+        }
+      });
+    }
+
+    logger.info(`Activated approval stage ${stage} for requisition ${requisitionId}`);
+    return stage;
+  }
+
+  /**
+   * ALL groups get one approver per role; ANY groups get every eligible approver
+   */
+  private async findGroupApprovers(vesselId: string, group: ApprovalGroup): Promise<User[]> {
+    const candidates = await this.prisma.user.findMany({
+      where: {
+        role: { in: group.approverRoles as UserRole[] },
+        isActive: true,
+        vessels: {
+          some: {
+            vesselId,
+            isActive: true
+          }
+        }
+      }
+    });
+
+    if (group.mode === 'ANY') {
+      if (candidates.length < group.requiredApprovals) {
+        throw new Error(`Not enough approvers for ${group.name}: ${group.requiredApprovals} required, ${candidates.length} available`);
+      }
+      return candidates;
+    }
+
+    return group.approverRoles.map(role => {
+      const approver = candidates.find(candidate => candidate.role === role);
+      if (!approver) {
+        throw new Error(`No approver found for role ${role}`);
+      }
+      return approver;
+    });
+  }
+
+  /**
+   * Whether a group is satisfied, can no longer be satisfied, or is still open
+   */
+  evaluateGroupOutcome(
+    group: Pick<ApprovalGroup, 'mode' | 'requiredApprovals'>,
+    approvals: Array<{ status: string }>
+  ): ApprovalGroupOutcome {
+    // Delegated approvals were handed over to a replacement approval in the same group
+    const live = approvals.filter(a => a.status !== 'DELEGATED');
+    const required = group.mode === 'ALL' ? live.length : group.requiredApprovals;
+    const approved = live.filter(a => a.status === 'APPROVED').length;
+    const open = live.filter(a => a.status === 'PENDING').length;
+
+    if (approved >= required) {
+      return 'APPROVED';
+    }
+    if (approved + open < required) {
+      return 'REJECTED';
+    }
+    return 'ACTIVE';
+  }
+
+  /**
+   * Record an approver's decision and advance the requisition's approval graph
+   */
+  async recordApprovalDecision(
+    approvalId: string,
+    userId: string,
+    status: 'APPROVED' | 'REJECTED',
+    comments?: string
+  ): Promise<ApprovalGraphState> {
+    const approval = await this.prisma.approval.findUnique({
+      where: { id: approvalId }
+    });
+
+    if (!approval) {
+      throw new AppError('Approval not found', 404, 'APPROVAL_NOT_FOUND');
+    }
+
+    if (approval.approverId !== userId) {
+      throw new AppError('Approval is assigned to another approver', 403, 'NOT_ASSIGNED_APPROVER');
+    }
+
+    if (approval.status !== 'PENDING') {
+      throw new AppError(`Approval is already ${approval.status}`, 400, 'APPROVAL_NOT_PENDING');
+    }
+
+    await this.prisma.approval.update({
+      where: { id: approvalId },
+      data: {
+        status,
+        comments: comments || approval.comments,
+        approvedAt: new Date()
+      }
+    });
+
+    if (approval.approvalGroupId) {
+      await this.settleApprovalGroup(approval.requisitionId, approval.approvalGroupId);
+    } else {
+      await this.settleSingleApproval(approval.requisitionId, status);
+    }
+
+    await AuditService.log({
+      userId,
+      action: status === 'APPROVED' ? 'APPROVE' : 'REJECT',
+      resource: 'approval',
+      resourceId: approvalId,
+      oldValues: { status: 'PENDING' },
+      newValues: { status, comments },
+      metadata: { requisitionId: approval.requisitionId, approvalGroupId: approval.approvalGroupId }
+    });
+
+    return this.getApprovalGraph(approval.requisitionId);
+  }
+
+  private async settleApprovalGroup(requisitionId: string, approvalGroupId: string): Promise<void> {
+    const group = await this.prisma.approvalGroup.findUnique({
+      where: { id: approvalGroupId },
+      include: { approvals: true }
+    });
+
+    if (!group || group.status !== 'ACTIVE') {
+      return;
+    }
+
+    const outcome = this.evaluateGroupOutcome(group, group.approvals);
+    if (outcome === 'ACTIVE') {
+      return;
+    }
+
+    // Only one of several concurrent decisions on the group gets to settle it
+    const settled = await this.prisma.approvalGroup.updateMany({
+      where: { id: group.id, status: 'ACTIVE' },
+      data: { status: outcome, completedAt: new Date() }
+    });
+    if (settled.count === 0) {
+      return;
+    }
+
+    if (outcome === 'REJECTED') {
+      // One failed group fails the whole graph; withdraw everything still open
+      await this.prisma.approval.deleteMany({
+        where: { requisitionId, status: 'PENDING' }
+      });
+      await this.prisma.approvalGroup.updateMany({
+        where: { requisitionId, status: { in: ['WAITING', 'ACTIVE'] } },
+        data: { status: 'SKIPPED' }
+      });
+      await this.prisma.requisition.update({
+        where: { id: requisitionId },
+        data: { status: 'REJECTED' }
+      });
+      return;
+    }
+
+    // Remaining approvers in a satisfied any-of-N group are no longer needed
+    await this.prisma.approval.deleteMany({
+      where: { approvalGroupId: group.id, status: 'PENDING' }
+    });
+
+    const stillActive = await this.prisma.approvalGroup.count({
+      where: { requisitionId, status: 'ACTIVE' }
+    });
+    if (stillActive > 0) {
+      return;
+    }
+
+    const nextStage = await this.activateNextStage(requisitionId);
+    if (nextStage === null) {
+      await this.prisma.requisition.update({
+        where: { id: requisitionId },
+        data: { status: 'APPROVED' }
+      });
+      logger.info(`Approval graph satisfied for requisition ${requisitionId}`);
+    }
+  }
+
+  private async settleSingleApproval(requisitionId: string, status: 'APPROVED' | 'REJECTED'): Promise<void> {
+    if (status === 'REJECTED') {
+      await this.prisma.requisition.update({
+        where: { id: requisitionId },
+        data: { status: 'REJECTED' }
+      });
+      return;
+    }
+
+    const pending = await this.prisma.approval.count({
+      where: { requisitionId, status: 'PENDING' }
+    });
+    if (pending === 0) {
+      await this.prisma.requisition.update({
+        where: { id: requisitionId },
+        data: { status: 'APPROVED' }
+      });
+    }
+  }
+
+  /**
+   * Approval graph state for display. Single-approver workflows are shown as one stage per level.
+   */
+  async getApprovalGraph(requisitionId: string): Promise<ApprovalGraphState> {
+    const requisition = await this.prisma.requisition.findUnique({
+      where: { id: requisitionId },
+      select: { id: true, status: true }
+    });
+
+    if (!requisition) {
+      throw new AppError('Requisition not found', 404, 'REQUISITION_NOT_FOUND');
+    }
+
+    const [groups, approvals] = await Promise.all([
+      this.prisma.approvalGroup.findMany({
+        where: { requisitionId },
+        orderBy: [{ stage: 'asc' }, { createdAt: 'asc' }]
+      }),
+      this.prisma.approval.findMany({
+        where: { requisitionId },
+        include: {
+          approver: {
+            select: { id: true, firstName: true, lastName: true, role: true }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    const toApproval = (approval: typeof approvals[number]): ApprovalGraphApproval => ({
+      id: approval.id,
+      approverId: approval.approverId,
+      approverName: approval.approver ? `${approval.approver.firstName} ${approval.approver.lastName}` : approval.approverId,
+      approverRole: approval.approverRole || approval.approver?.role || 'SYSTEM',
+      status: approval.status,
+      comments: approval.comments,
+      approvedAt: approval.approvedAt
+    });
+
+    let graphGroups: Array<ApprovalGraphGroup & { stage: number; stageName: string }>;
+
+    if (groups.length > 0) {
+      graphGroups = groups.map(group => {
+        const groupApprovals = approvals.filter(a => a.approvalGroupId === group.id);
+        return {
+          id: group.id,
+          key: group.key,
+          name: group.name,
+          mode: group.mode,
+          approverRoles: group.approverRoles,
+          requiredApprovals: group.mode === 'ALL'
+            ? Math.max(groupApprovals.filter(a => a.status !== 'DELEGATED').length, group.approverRoles.length)
+            : group.requiredApprovals,
+          approvedCount: groupApprovals.filter(a => a.status === 'APPROVED').length,
+          status: group.status,
+          conditionSummary: group.conditionSummary,
+          approvals: groupApprovals.map(toApproval),
+          stage: group.stage,
+          stageName: group.stageName
+        };
+      });
+    } else {
+      graphGroups = approvals.map(approval => ({
+        id: null,
+        key: `level-${approval.level}-${approval.id}`,
+        name: `Level ${approval.level} approval`,
+        mode: 'ALL' as const,
+        approverRoles: [approval.approverRole || approval.approver?.role || 'SYSTEM'],
+        requiredApprovals: 1,
+        approvedCount: approval.status === 'APPROVED' ? 1 : 0,
+        status: approval.status === 'PENDING' ? 'ACTIVE' : approval.status,
+        conditionSummary: null,
+        approvals: [toApproval(approval)],
+        stage: approval.level,
+        stageName: `Level ${approval.level}`
+      }));
+    }
+
+    const stageNumbers = [...new Set(graphGroups.map(group => group.stage))].sort((a, b) => a - b);
+    const stages: ApprovalGraphStage[] = stageNumbers.map(stage => {
+      const stageGroups = graphGroups.filter(group => group.stage === stage);
+      const statuses = stageGroups.map(group => group.status);
+
+      let status = 'WAITING';
+      if (statuses.every(s => s === 'SKIPPED')) status = 'SKIPPED';
+      else if (statuses.includes('REJECTED')) status = 'REJECTED';
+      else if (statuses.includes('ACTIVE')) status = 'ACTIVE';
+      else if (statuses.every(s => s === 'APPROVED' || s === 'SKIPPED')) status = 'APPROVED';
+
+      return {
+        stage,
+        name: stageGroups[0].stageName,
+        status,
+        groups: stageGroups.map(({ stage: _stage, stageName: _stageName, ...group }) => group)
+      };
+    });
+
+    return {
+      requisitionId,
+      requisitionStatus: requisition.status,
+      satisfied: stages.length > 0 && stages.every(stage => stage.status === 'APPROVED' || stage.status === 'SKIPPED'),
+      currentStage: stages.find(stage => stage.status === 'ACTIVE')?.stage ?? null,
+      stages
+    };
+  }
+
   /**
    * Find appropriate approver based on role and vessel assignment
    */
@@ -414,19 +1031,19 @@ export class WorkflowEngine {
   }
 
   /**
-   * Update workflow configuration
+   * Update approval thresholds by publishing a new rule set version
    */
-  async updateApprovalThresholds(thresholds: ApprovalThreshold[]): Promise<void> {
-    this.approvalThresholds = thresholds;
-    logger.info('Updated approval thresholds');
+  async updateApprovalThresholds(thresholds: ApprovalThreshold[], userId: string): Promise<void> {
+    const ruleSet = await workflowRuleService.publishScopeUpdate({ approvalThresholds: thresholds }, userId);
+    logger.info(`Updated approval thresholds (rule set version ${ruleSet.version})`);
   }
 
   /**
-   * Update emergency bypass rules
+   * Update emergency bypass rules by publishing a new rule set version
    */
-  async updateEmergencyBypasses(bypasses: EmergencyBypass[]): Promise<void> {
-    this.emergencyBypasses = bypasses;
-    logger.info('Updated emergency bypass rules');
+  async updateEmergencyBypasses(bypasses: EmergencyBypass[], userId: string): Promise<void> {
+    const ruleSet = await workflowRuleService.publishScopeUpdate({ emergencyBypasses: bypasses }, userId);
+    logger.info(`Updated emergency bypass rules (rule set version ${ruleSet.version})`);
   }
 }
 
@@ -0,0 +1,545 @@
+import { PrismaClient, WorkflowRuleSet, WorkflowRuleSetStatus, WorkflowEvaluation, UrgencyLevel } from '@prisma/client';
+import {
+  ApprovalThreshold,
+  EmergencyBypass,
+  ApprovalSla,
+  WorkflowRuleSetConfig,
+  ResolvedWorkflowRules,
+  ApprovalGraphDefinition,
+  DEFAULT_WORKFLOW_RULES,
+  DEFAULT_APPROVAL_SLAS
+} from '../models/WorkflowRule';
+import { AppError } from '../utils/errors';
+import { AuditService } from './auditService';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export interface RuleSetScope {
+  fleet?: string | null;
+  vesselType?: string | null;
+}
+
+export interface RuleSetDraftData extends RuleSetScope {
+  name: string;
+  description?: string;
+  approvalThresholds?: ApprovalThreshold[];
+  emergencyBypasses?: EmergencyBypass[];
+  approvalSlas?: ApprovalSla[];
+  basedOnId?: string;
+}
+
+export interface RuleSetUpdateData {
+  name?: string;
+  description?: string;
+  approvalThresholds?: ApprovalThreshold[];
+  emergencyBypasses?: EmergencyBypass[];
+  approvalSlas?: ApprovalSla[];
+}
+
+export interface RuleSetPublishData {
+  effectiveFrom?: Date;
+  effectiveTo?: Date;
+}
+
+export interface RuleSetFilters extends RuleSetScope {
+  status?: WorkflowRuleSetStatus;
+}
+
+export interface EvaluationRecordOptions {
+  isSimulation?: boolean;
+  evaluatedById?: string;
+}
+
+const VALID_APPROVER_ROLES = ['AUTO_APPROVE', 'SUPERINTENDENT', 'PROCUREMENT_MANAGER', 'FINANCE_TEAM', 'ADMIN', 'CAPTAIN', 'CHIEF_ENGINEER'];
+const VALID_BUDGET_HIERARCHIES = ['VESSEL', 'FLEET', 'COMPANY'];
+
+class WorkflowRuleService {
+  /**
+   * List rule sets, newest version first
+   */
+  async listRuleSets(filters: RuleSetFilters = {}): Promise<WorkflowRuleSet[]> {
+    try {
+      const where: any = {};
+      if (filters.status) where.status = filters.status;
+      if (filters.fleet !== undefined) where.fleet = filters.fleet;
+      if (filters.vesselType !== undefined) where.vesselType = filters.vesselType;
+
+      return await prisma.workflowRuleSet.findMany({
+        where,
+        orderBy: [{ fleet: 'asc' }, { vesselType: 'asc' }, { version: 'desc' }]
+      });
+    } catch (error) {
+      throw new AppError('Failed to list workflow rule sets', 500, 'RULE_SET_LIST_FAILED');
+    }
+  }
+
+  /**
+   * Get a rule set by ID
+   */
+  async getRuleSet(id: string): Promise<WorkflowRuleSet> {
+    try {
+      const ruleSet = await prisma.workflowRuleSet.findUnique({
+        where: { id }
+      });
+
+      if (!ruleSet) {
+        throw new AppError('Workflow rule set not found', 404, 'RULE_SET_NOT_FOUND');
+      }
+
+      return ruleSet;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get workflow rule set', 500, 'RULE_SET_FETCH_FAILED');
+    }
+  }
+
+  /**
+   * Create a draft as the next version for its fleet / vessel type scope.
+   * Rules not supplied are copied from basedOnId, or from the rules currently in force for the scope.
+   */
+  async createDraft(data: RuleSetDraftData, userId: string): Promise<WorkflowRuleSet> {
+    try {
+      const scope = this.normaliseScope(data);
+      const base = data.basedOnId
+        ? this.toResolvedRules(await this.getRuleSet(data.basedOnId))
+        : await this.resolveActiveRules(scope);
+
+      const config: WorkflowRuleSetConfig = {
+        approvalThresholds: data.approvalThresholds || base.approvalThresholds,
+        emergencyBypasses: data.emergencyBypasses || base.emergencyBypasses,
+        approvalSlas: data.approvalSlas || base.approvalSlas
+      };
+      this.validateRules(config);
+
+      const ruleSet = await prisma.workflowRuleSet.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          ...scope,
+          version: await this.getNextVersion(scope),
+          status: 'DRAFT',
+          approvalThresholds: config.approvalThresholds as any,
+          emergencyBypasses: config.emergencyBypasses as any,
+          approvalSlas: config.approvalSlas as any,
+          createdById: userId
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'CREATE',
+        resource: 'workflow_rule_set',
+        resourceId: ruleSet.id,
+        newValues: { ...scope, version: ruleSet.version, status: 'DRAFT' },
+        metadata: { basedOnId: data.basedOnId }
+      });
+
+      return ruleSet;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create workflow rule set', 500, 'RULE_SET_CREATION_FAILED');
+    }
+  }
+
+  /**
+   * Edit a draft. Published versions are immutable; create a new draft instead.
+   */
+  async updateDraft(id: string, data: RuleSetUpdateData, userId: string): Promise<WorkflowRuleSet> {
+    try {
+      const existing = await this.getRuleSet(id);
+
+      if (existing.status !== 'DRAFT') {
+        throw new AppError('Only draft rule sets can be edited', 400, 'RULE_SET_NOT_DRAFT');
+      }
+
+      const current = this.toResolvedRules(existing);
+      const config: WorkflowRuleSetConfig = {
+        approvalThresholds: data.approvalThresholds || current.approvalThresholds,
+        emergencyBypasses: data.emergencyBypasses || current.emergencyBypasses,
+        approvalSlas: data.approvalSlas || current.approvalSlas
+      };
+      this.validateRules(config);
+
+      const ruleSet = await prisma.workflowRuleSet.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          approvalThresholds: config.approvalThresholds as any,
+          emergencyBypasses: config.emergencyBypasses as any,
+          approvalSlas: config.approvalSlas as any
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'workflow_rule_set',
+        resourceId: id,
+        oldValues: {
+          approvalThresholds: existing.approvalThresholds,
+          emergencyBypasses: existing.emergencyBypasses,
+          approvalSlas: existing.approvalSlas
+        },
+        newValues: {
+          approvalThresholds: config.approvalThresholds,
+          emergencyBypasses: config.emergencyBypasses,
+          approvalSlas: config.approvalSlas
+        }
+      });
+
+      return ruleSet;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update workflow rule set', 500, 'RULE_SET_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Publish a draft. The version currently in force for the same scope is closed
+   * off at the new effective date so exactly one version applies at any time.
+   */
+  async publishRuleSet(id: string, data: RuleSetPublishData, userId: string): Promise<WorkflowRuleSet> {
+    try {
+      const draft = await this.getRuleSet(id);
+
+      if (draft.status !== 'DRAFT') {
+        throw new AppError('Only draft rule sets can be published', 400, 'RULE_SET_NOT_DRAFT');
+      }
+
+      const effectiveFrom = data.effectiveFrom || new Date();
+      if (data.effectiveTo && data.effectiveTo <= effectiveFrom) {
+        throw new AppError('Effective end date must be after the start date', 400, 'INVALID_EFFECTIVE_DATES');
+      }
+
+      this.validateRules(this.toResolvedRules(draft));
+
+      const ruleSet = await prisma.$transaction(async (tx) => {
+        await tx.workflowRuleSet.updateMany({
+          where: {
+            id: { not: id },
+            fleet: draft.fleet,
+            vesselType: draft.vesselType,
+            status: 'PUBLISHED',
+            effectiveFrom: { lt: effectiveFrom },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gt: effectiveFrom } }]
+          },
+          data: { effectiveTo: effectiveFrom }
+        });
+
+        return tx.workflowRuleSet.update({
+          where: { id },
+          data: {
+            status: 'PUBLISHED',
+            effectiveFrom,
+            effectiveTo: data.effectiveTo,
+            publishedById: userId,
+            publishedAt: new Date()
+          }
+        });
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'APPROVE',
+        resource: 'workflow_rule_set',
+        resourceId: id,
+        oldValues: { status: 'DRAFT' },
+        newValues: {
+          status: 'PUBLISHED',
+          fleet: draft.fleet,
+          vesselType: draft.vesselType,
+          version: draft.version,
+          effectiveFrom,
+          effectiveTo: data.effectiveTo
+        }
+      });
+
+      logger.info(`Published workflow rule set ${draft.name} v${draft.version}`);
+
+      return ruleSet;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to publish workflow rule set', 500, 'RULE_SET_PUBLISH_FAILED');
+    }
+  }
+
+  /**
+   * Retire a rule set so it no longer applies
+   */
+  async retireRuleSet(id: string, userId: string): Promise<WorkflowRuleSet> {
+    try {
+      const existing = await this.getRuleSet(id);
+
+      if (existing.status === 'RETIRED') {
+        throw new AppError('Rule set is already retired', 400, 'RULE_SET_ALREADY_RETIRED');
+      }
+
+      const ruleSet = await prisma.workflowRuleSet.update({
+        where: { id },
+        data: {
+          status: 'RETIRED',
+          effectiveTo: existing.status === 'PUBLISHED' ? new Date() : existing.effectiveTo
+        }
+      });
+
+      await AuditService.log({
+        userId,
+        action: 'UPDATE',
+        resource: 'workflow_rule_set',
+        resourceId: id,
+        oldValues: { status: existing.status },
+        newValues: { status: 'RETIRED' }
+      });
+
+      return ruleSet;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to retire workflow rule set', 500, 'RULE_SET_RETIRE_FAILED');
+    }
+  }
+
+  /**
+   * Rules in force for a vessel at a point in time. Fleet + vessel type rules win over
+   * fleet-only, then vessel-type-only, then global rules; built-in defaults apply when nothing is published.
+   */
+  async resolveActiveRules(scope: RuleSetScope, at: Date = new Date()): Promise<ResolvedWorkflowRules> {
+    const candidates = await prisma.workflowRuleSet.findMany({
+      where: {
+        status: 'PUBLISHED',
+        effectiveFrom: { lte: at },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }]
+      }
+    });
+
+    const applicable = candidates
+      .filter(ruleSet =>
+        (ruleSet.fleet === null || ruleSet.fleet === scope.fleet) &&
+        (ruleSet.vesselType === null || ruleSet.vesselType === scope.vesselType)
+      )
+      .sort((a, b) =>
+        this.specificity(b) - this.specificity(a) || b.version - a.version
+      );
+
+    return applicable.length > 0 ? this.toResolvedRules(applicable[0]) : DEFAULT_WORKFLOW_RULES;
+  }
+
+  /**
+   * Publish a new version for a scope that changes only the supplied part of the rules.
+   * Backs the legacy threshold / bypass configuration endpoints.
+   */
+  async publishScopeUpdate(
+    changes: Partial<WorkflowRuleSetConfig>,
+    userId: string,
+    scope: RuleSetScope = {}
+  ): Promise<WorkflowRuleSet> {
+    const normalised = this.normaliseScope(scope);
+    const current = await this.resolveActiveRules(normalised);
+
+    const draft = await this.createDraft({
+      ...normalised,
+      name: current.ruleSetId ? current.name : 'Approval rules',
+      description: `Updated ${Object.keys(changes).join(' and ')}`,
+      approvalThresholds: changes.approvalThresholds || current.approvalThresholds,
+      emergencyBypasses: changes.emergencyBypasses || current.emergencyBypasses,
+      approvalSlas: changes.approvalSlas || current.approvalSlas
+    }, userId);
+
+    return this.publishRuleSet(draft.id, {}, userId);
+  }
+
+  /**
+   * Record which rule set version produced a workflow decision
+   */
+  async recordEvaluation(
+    requisitionId: string,
+    rules: ResolvedWorkflowRules,
+    decision: any,
+    options: EvaluationRecordOptions = {}
+  ): Promise<WorkflowEvaluation> {
+    return prisma.workflowEvaluation.create({
+      data: {
+        requisitionId,
+        ruleSetId: rules.ruleSetId,
+        ruleSetVersion: rules.version,
+        isSimulation: options.isSimulation || false,
+        decision,
+        evaluatedById: options.evaluatedById
+      }
+    });
+  }
+
+  /**
+   * Evaluation history for a requisition
+   */
+  async getEvaluationHistory(requisitionId: string, includeSimulations: boolean = false): Promise<WorkflowEvaluation[]> {
+    try {
+      return await prisma.workflowEvaluation.findMany({
+        where: {
+          requisitionId,
+          ...(includeSimulations ? {} : { isSimulation: false })
+        },
+        include: {
+          ruleSet: {
+            select: { id: true, name: true, version: true, fleet: true, vesselType: true, status: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+    } catch (error) {
+      throw new AppError('Failed to get workflow evaluation history', 500, 'EVALUATION_HISTORY_FAILED');
+    }
+  }
+
+  /**
+   * Convert a stored rule set into the shape the workflow engine evaluates
+   */
+  toResolvedRules(ruleSet: WorkflowRuleSet): ResolvedWorkflowRules {
+    return {
+      ruleSetId: ruleSet.id,
+      version: ruleSet.version,
+      name: ruleSet.name,
+      fleet: ruleSet.fleet,
+      vesselType: ruleSet.vesselType,
+      approvalThresholds: ruleSet.approvalThresholds as unknown as ApprovalThreshold[],
+      emergencyBypasses: ruleSet.emergencyBypasses as unknown as EmergencyBypass[],
+      approvalSlas: (ruleSet.approvalSlas as unknown as ApprovalSla[] | null) || DEFAULT_APPROVAL_SLAS
+    };
+  }
+
+  /**
+   * SLA for an urgency level, falling back to the built-in SLA when the rule set does not define one
+   */
+  getApprovalSla(rules: WorkflowRuleSetConfig, urgencyLevel: UrgencyLevel): ApprovalSla {
+    return (rules.approvalSlas || []).find(sla => sla.urgencyLevel === urgencyLevel) ||
+      DEFAULT_APPROVAL_SLAS.find(sla => sla.urgencyLevel === urgencyLevel) ||
+      DEFAULT_APPROVAL_SLAS[0];
+  }
+
+  /**
+   * Reject rule sets that would leave amounts unrouted
+   */
+  validateRules(config: WorkflowRuleSetConfig): void {
+    const thresholds = [...(config.approvalThresholds || [])].sort((a, b) => a.minAmount - b.minAmount);
+
+    if (thresholds.length === 0) {
+      throw new AppError('At least one approval threshold is required', 400, 'INVALID_WORKFLOW_RULES');
+    }
+
+    if (thresholds[0].minAmount !== 0) {
+      throw new AppError('Approval thresholds must start at 0', 400, 'INVALID_WORKFLOW_RULES');
+    }
+
+    for (let i = 0; i < thresholds.length; i++) {
+      const threshold = thresholds[i];
+
+      if (!(threshold.maxAmount > threshold.minAmount)) {
+        throw new AppError(`Threshold ${threshold.minAmount} must have maxAmount above minAmount`, 400, 'INVALID_WORKFLOW_RULES');
+      }
+
+      if (!VALID_APPROVER_ROLES.includes(threshold.requiredRole)) {
+        throw new AppError(`Unknown approver role ${threshold.requiredRole}`, 400, 'INVALID_WORKFLOW_RULES');
+      }
+
+      if (!VALID_BUDGET_HIERARCHIES.includes(threshold.budgetHierarchy)) {
+        throw new AppError(`Unknown budget hierarchy ${threshold.budgetHierarchy}`, 400, 'INVALID_WORKFLOW_RULES');
+      }
+
+      if (i > 0 && threshold.minAmount !== thresholds[i - 1].maxAmount) {
+        throw new AppError('Approval thresholds must be contiguous with no gaps or overlaps', 400, 'INVALID_WORKFLOW_RULES');
+      }
+
+      if (threshold.approvalGraph) {
+        this.validateApprovalGraph(threshold.approvalGraph);
+      }
+    }
+
+    for (const bypass of config.emergencyBypasses || []) {
+      if (!bypass.urgencyLevel || !bypass.criticalityLevel || !Array.isArray(bypass.allowedRoles)) {
+        throw new AppError('Emergency bypasses need urgencyLevel, criticalityLevel and allowedRoles', 400, 'INVALID_WORKFLOW_RULES');
+      }
+    }
+
+    const slaLevels = new Set<string>();
+    for (const sla of config.approvalSlas || []) {
+      if (slaLevels.has(sla.urgencyLevel)) {
+        throw new AppError(`Only one approval SLA is allowed per urgency level (${sla.urgencyLevel})`, 400, 'INVALID_WORKFLOW_RULES');
+      }
+      slaLevels.add(sla.urgencyLevel);
+
+      if (!(sla.escalateAfterHours > 0) || !(sla.reminderIntervalHours > 0)) {
+        throw new AppError(`Approval SLA for ${sla.urgencyLevel} needs positive escalation and reminder intervals`, 400, 'INVALID_WORKFLOW_RULES');
+      }
+
+      if (sla.reminderAfterHours < 0 || sla.reminderAfterHours >= sla.escalateAfterHours) {
+        throw new AppError(`Approval SLA for ${sla.urgencyLevel} must remind before it escalates`, 400, 'INVALID_WORKFLOW_RULES');
+      }
+
+      if (!Number.isInteger(sla.maxEscalations) || sla.maxEscalations < 0) {
+        throw new AppError(`Approval SLA for ${sla.urgencyLevel} needs a non-negative maxEscalations`, 400, 'INVALID_WORKFLOW_RULES');
+      }
+    }
+  }
+
+  // Private helper methods
+
+  private validateApprovalGraph(graph: ApprovalGraphDefinition): void {
+    if (!Array.isArray(graph.stages) || graph.stages.length === 0) {
+      throw new AppError('Approval graph needs at least one stage', 400, 'INVALID_WORKFLOW_RULES');
+    }
+
+    const keys = new Set<string>();
+    for (const stage of graph.stages) {
+      if (!Array.isArray(stage.groups) || stage.groups.length === 0) {
+        throw new AppError(`Approval stage ${stage.name} needs at least one group`, 400, 'INVALID_WORKFLOW_RULES');
+      }
+
+      for (const group of stage.groups) {
+        if (!group.key || keys.has(group.key)) {
+          throw new AppError(`Approval group keys must be unique (${group.key})`, 400, 'INVALID_WORKFLOW_RULES');
+        }
+        keys.add(group.key);
+
+        if (!Array.isArray(group.approverRoles) || group.approverRoles.length === 0) {
+          throw new AppError(`Approval group ${group.key} needs at least one approver role`, 400, 'INVALID_WORKFLOW_RULES');
+        }
+
+        const unknownRole = group.approverRoles.find(role => role === 'AUTO_APPROVE' || !VALID_APPROVER_ROLES.includes(role));
+        if (unknownRole) {
+          throw new AppError(`Unknown approver role ${unknownRole} in group ${group.key}`, 400, 'INVALID_WORKFLOW_RULES');
+        }
+
+        if (group.mode !== 'ALL' && group.mode !== 'ANY') {
+          throw new AppError(`Approval group ${group.key} mode must be ALL or ANY`, 400, 'INVALID_WORKFLOW_RULES');
+        }
+
+        if (group.mode === 'ANY' && group.requiredApprovals !== undefined && group.requiredApprovals < 1) {
+          throw new AppError(`Approval group ${group.key} must require at least one approval`, 400, 'INVALID_WORKFLOW_RULES');
+        }
+      }
+    }
+  }
+
+  private normaliseScope(scope: RuleSetScope): { fleet: string | null; vesselType: string | null } {
+    return {
+      fleet: scope.fleet || null,
+      vesselType: scope.vesselType || null
+    };
+  }
+
+  private specificity(ruleSet: { fleet: string | null; vesselType: string | null }): number {
+    return (ruleSet.fleet ? 2 : 0) + (ruleSet.vesselType ? 1 : 0);
+  }
+
+  private async getNextVersion(scope: { fleet: string | null; vesselType: string | null }): Promise<number> {
+    const latest = await prisma.workflowRuleSet.findFirst({
+      where: scope,
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+    return (latest?.version || 0) + 1;
+  }
+}
+
+export const workflowRuleService = new WorkflowRuleService();
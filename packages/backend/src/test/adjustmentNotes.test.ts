@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { adjustmentNoteService } from '../services/adjustmentNoteService';
+import { paymentService } from '../services/paymentService';
+import { accountingIntegrationService } from '../services/accountingIntegrationService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    invoice: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    adjustmentNote: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    vendor: {
+      findUnique: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  InvoiceStatus: {
+    RECEIVED: 'RECEIVED',
+    UNDER_REVIEW: 'UNDER_REVIEW',
+    APPROVED: 'APPROVED',
+    PAID: 'PAID',
+    DISPUTED: 'DISPUTED',
+    REJECTED: 'REJECTED',
+  },
+  AdjustmentNoteType: { CREDIT: 'CREDIT', DEBIT: 'DEBIT' },
+  AdjustmentNoteStatus: { DRAFT: 'DRAFT', ISSUED: 'ISSUED', APPLIED: 'APPLIED', CANCELLED: 'CANCELLED' },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const invoice = (overrides: any = {}) => ({
+  id: 'invoice-1',
+  invoiceNumber: 'INV-7781',
+  purchaseOrderId: 'po-1',
+  status: 'DISPUTED',
+  totalAmount: 1000,
+  currency: 'USD',
+  exchangeRate: 1,
+  invoiceDate: new Date('2024-03-01'),
+  paidAmount: null,
+  paidDate: null,
+  paymentReference: null,
+  updatedAt: new Date('2024-03-01'),
+  adjustmentNotes: [],
+  ...overrides,
+});
+
+const issuedNote = (overrides: any = {}) => ({
+  id: 'note-1',
+  noteNumber: 'CN-2024-0001',
+  type: 'CREDIT',
+  status: 'ISSUED',
+  amount: 150,
+  appliedAmount: 0,
+  currency: 'USD',
+  invoiceId: 'invoice-1',
+  exchangeRate: 1,
+  reason: 'Two filters damaged in transit',
+  lineItems: null,
+  resolvesDispute: true,
+  issueDate: new Date('2024-03-10'),
+  vendorId: 'vendor-1',
+  vendor: { id: 'vendor-1', name: 'Nordic Marine Supply' },
+  purchaseOrder: { id: 'po-1', vesselId: 'vessel-1' },
+  invoice: invoice(),
+  ...overrides,
+});
+
+describe('Credit and debit notes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.adjustmentNote.update.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 'note-1', ...mockPrisma.adjustmentNote.updateMany.mock.lastCall?.[0].data, ...data }));
+    mockPrisma.adjustmentNote.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.adjustmentNote.findUniqueOrThrow.mockImplementation(() =>
+      Promise.resolve({ id: 'note-1', ...mockPrisma.adjustmentNote.updateMany.mock.lastCall[0].data }));
+    mockPrisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+    vi.spyOn(accountingIntegrationService, 'postJournalEntry').mockImplementation(async (_systemId, entry) =>
+      ({ success: true, entryId: entry.entryId }));
+  });
+
+  describe('calculateInvoiceBalance', () => {
+    it('should net applied debits, credits and payments off the invoice total', () => {
+      const balance = paymentService.calculateInvoiceBalance(
+        { totalAmount: 1000, paidAmount: 400 },
+        [{ type: 'CREDIT', appliedAmount: 150 }, { type: 'DEBIT', appliedAmount: 50 }] as any
+      );
+
+      expect(balance).toEqual({
+        invoiceTotal: 1000,
+        debitAdjustments: 50,
+        creditAdjustments: 150,
+        adjustedTotal: 900,
+        paidAmount: 400,
+        outstanding: 500,
+      });
+    });
+  });
+
+  describe('createAdjustmentNote', () => {
+    it('should reject credit beyond what is still creditable on the invoice', async () => {
+      mockPrisma.invoice.findUnique
+        .mockResolvedValueOnce(invoice({ purchaseOrder: { id: 'po-1', vendorId: 'vendor-1', vesselId: 'vessel-1' } }))
+        .mockResolvedValueOnce(invoice());
+      mockPrisma.adjustmentNote.aggregate.mockResolvedValue({ _sum: { amount: 900 } });
+
+      await expect(adjustmentNoteService.createAdjustmentNote({
+        invoiceId: 'invoice-1',
+        type: 'CREDIT' as any,
+        amount: 150,
+        reasonCode: 'DAMAGED_GOODS',
+        reason: 'Two filters damaged in transit',
+      }, 'finance-1')).rejects.toMatchObject({ statusCode: 400, errorCode: 'CREDIT_EXCEEDS_INVOICE' });
+      expect(mockPrisma.adjustmentNote.create).not.toHaveBeenCalled();
+    });
+
+    it('should take the amount from the note lines and default to resolving the dispute', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(
+        invoice({ purchaseOrder: { id: 'po-1', vendorId: 'vendor-1', vesselId: 'vessel-1' } })
+      );
+      mockPrisma.adjustmentNote.count.mockResolvedValue(4);
+      mockPrisma.adjustmentNote.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'note-5', ...data }));
+
+      const note = await adjustmentNoteService.createAdjustmentNote({
+        invoiceId: 'invoice-1',
+        type: 'DEBIT' as any,
+        reasonCode: 'ADDITIONAL_CHARGES',
+        reason: 'Launch hire at anchorage',
+        lineItems: [
+          { description: 'Launch hire', amount: 120 },
+          { description: 'Port agency fee', amount: 35.5 },
+        ],
+      }, 'finance-1');
+
+      expect(note).toMatchObject({
+        type: 'DEBIT',
+        amount: 155.5,
+        vendorId: 'vendor-1',
+        purchaseOrderId: 'po-1',
+        resolvesDispute: true,
+      });
+      expect((note as any).noteNumber).toMatch(/^DN-\d{4}-0005$/);
+    });
+  });
+
+  describe('applyAdjustmentNote', () => {
+    it('should settle a disputed invoice with a credit note and post a reversing entry', async () => {
+      mockPrisma.adjustmentNote.findUnique.mockResolvedValue(issuedNote());
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoice({ paidAmount: 850 }));
+
+      const result = await paymentService.applyAdjustmentNote('note-1', 'finance-1');
+
+      expect(result.balance.outstanding).toBe(0);
+      expect(result.invoiceStatus).toBe('PAID');
+      expect(result.unappliedCredit).toBe(0);
+      expect(mockPrisma.adjustmentNote.updateMany).toHaveBeenCalledWith({
+        where: { id: 'note-1', status: 'ISSUED' },
+        data: expect.objectContaining({ status: 'APPLIED', appliedAmount: 150 }),
+      });
+      expect(mockPrisma.invoice.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invoice-1', updatedAt: new Date('2024-03-01') },
+        data: expect.objectContaining({ status: 'PAID' }),
+      });
+      expect(accountingIntegrationService.postJournalEntry).toHaveBeenCalledWith(
+        'quickbooks',
+        expect.objectContaining({ entryId: 'CN-CN-2024-0001' })
+      );
+      expect(mockPrisma.adjustmentNote.update).toHaveBeenCalledWith({
+        where: { id: 'note-1' },
+        data: { journalEntryId: 'CN-CN-2024-0001' },
+      });
+      expect(result.note.journalEntryId).toBe('CN-CN-2024-0001');
+    });
+
+    it('should hold credit beyond the outstanding balance on the vendor account', async () => {
+      mockPrisma.adjustmentNote.findUnique.mockResolvedValue(issuedNote());
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoice({ status: 'APPROVED', paidAmount: 900 }));
+
+      const result = await paymentService.applyAdjustmentNote('note-1', 'finance-1');
+
+      expect(result.note.appliedAmount).toBe(100);
+      expect(result.unappliedCredit).toBe(50);
+      expect(result.invoiceStatus).toBe('PAID');
+    });
+
+    it('should reopen a paid invoice when a debit note is applied', async () => {
+      mockPrisma.adjustmentNote.findUnique.mockResolvedValue(issuedNote({
+        noteNumber: 'DN-2024-0001',
+        type: 'DEBIT',
+        amount: 80,
+        resolvesDispute: false,
+      }));
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoice({ status: 'PAID', paidAmount: 1000, paidDate: new Date('2024-03-05') }));
+
+      const result = await paymentService.applyAdjustmentNote('note-1', 'finance-1');
+
+      expect(result.balance).toMatchObject({ adjustedTotal: 1080, outstanding: 80 });
+      expect(result.invoiceStatus).toBe('APPROVED');
+    });
+
+    it('should keep the invoice disputed when the note does not resolve the dispute', async () => {
+      mockPrisma.adjustmentNote.findUnique.mockResolvedValue(issuedNote({
+        amount: 100,
+        resolvesDispute: false,
+      }));
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoice());
+
+      const result = await paymentService.applyAdjustmentNote('note-1', 'finance-1');
+
+      expect(result.balance.outstanding).toBe(900);
+      expect(result.invoiceStatus).toBe('DISPUTED');
+    });
+
+    it('should refuse to apply a draft note', async () => {
+      mockPrisma.adjustmentNote.findUnique.mockResolvedValue(issuedNote({ status: 'DRAFT' }));
+
+      await expect(paymentService.applyAdjustmentNote('note-1', 'finance-1'))
+        .rejects.toMatchObject({ errorCode: 'ADJUSTMENT_NOTE_NOT_ISSUED' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not apply a note against a balance another note or payment has since changed', async () => {
+      mockPrisma.adjustmentNote.findUnique.mockResolvedValue(issuedNote());
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoice({
+        adjustmentNotes: [{ type: 'CREDIT', appliedAmount: 100 }],
+      }));
+      mockPrisma.invoice.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(paymentService.applyAdjustmentNote('note-1', 'finance-1'))
+        .rejects.toMatchObject({ errorCode: 'INVOICE_CHANGED' });
+      expect(mockPrisma.adjustmentNote.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ appliedAmount: 150 }),
+      }));
+      expect(accountingIntegrationService.postJournalEntry).not.toHaveBeenCalled();
+    });
+
+    it('should keep the note applied but unposted when the accounting system rejects the entry', async () => {
+      mockPrisma.adjustmentNote.findUnique.mockResolvedValue(issuedNote());
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoice());
+      vi.mocked(accountingIntegrationService.postJournalEntry).mockResolvedValue({
+        success: false,
+        entryId: 'CN-CN-2024-0001',
+        errors: ['Journal entry is not balanced'],
+      });
+
+      const result = await paymentService.applyAdjustmentNote('note-1', 'finance-1');
+
+      expect(result.note.status).toBe('APPLIED');
+      expect(result.note.journalEntryId).toBeUndefined();
+      expect(mockPrisma.adjustmentNote.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createAdjustmentNoteEntry', () => {
+    it('should reverse the invoice posting for a credit note', () => {
+      const entry = accountingIntegrationService.createAdjustmentNoteEntry(issuedNote());
+
+      expect(entry).toMatchObject({
+        entryId: 'CN-CN-2024-0001',
+        reversalEntry: 'INV-INV-7781',
+        totalDebit: 150,
+        totalCredit: 150,
+      });
+      expect(entry.lineItems).toEqual([
+        expect.objectContaining({ accountCode: '5000', debitAmount: 0, creditAmount: 150 }),
+        expect.objectContaining({ accountCode: '2000', debitAmount: 150, creditAmount: 0 }),
+      ]);
+    });
+
+    it('should post a debit note in the same direction as the invoice', () => {
+      const entry = accountingIntegrationService.createAdjustmentNoteEntry(issuedNote({
+        noteNumber: 'DN-2024-0002',
+        type: 'DEBIT',
+        amount: 80,
+      }));
+
+      expect(entry.entryId).toBe('DN-DN-2024-0002');
+      expect(entry.reversalEntry).toBeUndefined();
+      expect(entry.lineItems[1]).toMatchObject({ accountCode: '2000', debitAmount: 0, creditAmount: 80 });
+    });
+  });
+
+  describe('getVendorStatement', () => {
+    it('should show the net position after notes, payments and unapplied credit', async () => {
+      mockPrisma.vendor.findUnique.mockResolvedValue({ id: 'vendor-1', name: 'Nordic Marine Supply', code: 'NMS' });
+      mockPrisma.invoice.findMany.mockResolvedValue([
+        invoice({
+          status: 'PAID',
+          paidAmount: 850,
+          paidDate: new Date('2024-03-20'),
+          paymentReference: 'PAY-1',
+          adjustmentNotes: [
+            issuedNote({ status: 'APPLIED', appliedAmount: 150, appliedAt: new Date('2024-03-12') }),
+          ],
+        }),
+        invoice({
+          id: 'invoice-2',
+          invoiceNumber: 'INV-7790',
+          status: 'APPROVED',
+          totalAmount: 600,
+          invoiceDate: new Date('2024-04-01'),
+          adjustmentNotes: [
+            issuedNote({ id: 'note-2', noteNumber: 'CN-2024-0002', amount: 40 }),
+          ],
+        }),
+      ]);
+
+      const statement = await paymentService.getVendorStatement('vendor-1');
+
+      expect(statement.lines.map(line => [line.documentType, line.balance])).toEqual([
+        ['INVOICE', 1000],
+        ['CREDIT_NOTE', 850],
+        ['PAYMENT', 0],
+        ['INVOICE', 600],
+      ]);
+      expect(statement.positions).toEqual([{
+        currency: 'USD',
+        invoiced: 1600,
+        debitNotes: 0,
+        creditNotes: 150,
+        paid: 850,
+        outstanding: 600,
+        unappliedCredit: 40,
+        netPosition: 560,
+      }]);
+    });
+  });
+});
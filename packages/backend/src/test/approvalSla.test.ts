@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { approvalSlaService } from '../services/approvalSlaService';
+import { DelegationService } from '../services/delegationService';
+import { AuditService } from '../services/auditService';
+import { emailService } from '../services/emailService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    approval: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      create: vi.fn(),
+    },
+    user: {
+      findFirst: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/workflowRuleService', async () => {
+  const { DEFAULT_WORKFLOW_RULES, DEFAULT_APPROVAL_SLAS } = await import('../models/WorkflowRule');
+  return {
+    workflowRuleService: {
+      resolveActiveRules: vi.fn().mockResolvedValue(DEFAULT_WORKFLOW_RULES),
+      getApprovalSla: vi.fn((_rules: any, urgencyLevel: string) =>
+        DEFAULT_APPROVAL_SLAS.find(sla => sla.urgencyLevel === urgencyLevel)),
+    },
+  };
+});
+
+vi.mock('../services/delegationService', () => ({
+  DelegationService: {
+    getActiveDelegate: vi.fn(),
+  },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+vi.mock('../services/websocketService', () => ({
+  websocketService: {
+    sendUserNotification: vi.fn(),
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2024-05-01T12:00:00Z');
+
+const pendingApproval = (overrides: any = {}) => ({
+  id: 'approval-1',
+  requisitionId: 'req-1',
+  approverId: 'captain-1',
+  level: 1,
+  status: 'PENDING',
+  comments: 'Vessel level approval',
+  budgetLimit: null,
+  costCenter: null,
+  approvalGroupId: null,
+  approverRole: null,
+  dueAt: new Date(now.getTime() + 20 * HOUR),
+  remindersSent: 0,
+  lastReminderAt: null,
+  escalationLevel: 0,
+  createdAt: new Date(now.getTime() - 4 * HOUR),
+  approver: { id: 'captain-1', email: 'captain@flowmarine.com', firstName: 'Sam', lastName: 'Reyes', role: 'CAPTAIN' },
+  requisition: {
+    id: 'req-1',
+    requisitionNumber: 'REQ-2024-0042',
+    vesselId: 'vessel-1',
+    urgencyLevel: 'ROUTINE',
+    totalAmount: 900,
+    currency: 'USD',
+    vessel: { name: 'MV Atlantic', fleet: 'NORTH_SEA', vesselType: 'TANKER' },
+  },
+  ...overrides,
+});
+
+describe('ApprovalSlaService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.approval.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'approval-2', ...data }));
+    mockPrisma.approval.updateMany.mockResolvedValue({ count: 1 });
+    vi.mocked(DelegationService.getActiveDelegate).mockResolvedValue(null);
+  });
+
+  it('should leave approvals alone until the first reminder is due', async () => {
+    mockPrisma.approval.findMany.mockResolvedValue([
+      pendingApproval({ createdAt: new Date(now.getTime() - 2 * HOUR), dueAt: new Date(now.getTime() + 22 * HOUR) }),
+    ]);
+
+    const result = await approvalSlaService.processOverdueApprovals(now);
+
+    expect(result).toEqual({ reminded: 0, escalated: 0, failed: 0 });
+    expect(emailService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should remind the approver once the reminder threshold passes', async () => {
+    mockPrisma.approval.findMany.mockResolvedValue([
+      pendingApproval({ dueAt: new Date(now.getTime() + 11 * HOUR) }),
+    ]);
+
+    const result = await approvalSlaService.processOverdueApprovals(now);
+
+    expect(result.reminded).toBe(1);
+    expect(emailService.sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'captain@flowmarine.com',
+      type: 'approval_reminder',
+    }));
+    expect(mockPrisma.approval.update).toHaveBeenCalledWith({
+      where: { id: 'approval-1' },
+      data: { remindersSent: { increment: 1 }, lastReminderAt: now },
+    });
+  });
+
+  it('should hand an overdue approval to the approver\'s delegate', async () => {
+    mockPrisma.approval.findMany
+      .mockResolvedValueOnce([pendingApproval({ dueAt: new Date(now.getTime() - HOUR) })])
+      .mockResolvedValueOnce([{ approverId: 'captain-1' }]);
+    vi.mocked(DelegationService.getActiveDelegate).mockResolvedValue({
+      id: 'chief-officer-1', email: 'co@flowmarine.com', role: 'CAPTAIN',
+    } as any);
+
+    const result = await approvalSlaService.processOverdueApprovals(now);
+
+    expect(result.escalated).toBe(1);
+    expect(mockPrisma.approval.updateMany).toHaveBeenCalledWith({
+      where: { id: 'approval-1', status: 'PENDING' },
+      data: { status: 'DELEGATED' },
+    });
+    expect(mockPrisma.approval.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        approverId: 'chief-officer-1',
+        level: 1,
+        escalationLevel: 1,
+        escalatedFromId: 'approval-1',
+        dueAt: new Date(now.getTime() + 24 * HOUR),
+      }),
+    });
+    expect(mockPrisma.user.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('should escalate to the next level and record each step in the audit log', async () => {
+    mockPrisma.approval.findMany
+      .mockResolvedValueOnce([pendingApproval({ dueAt: new Date(now.getTime() - HOUR) })])
+      .mockResolvedValueOnce([{ approverId: 'captain-1' }]);
+    mockPrisma.user.findFirst.mockResolvedValue({
+      id: 'super-1', email: 'super@flowmarine.com', firstName: 'Ana', lastName: 'Lind', role: 'SUPERINTENDENT',
+    });
+
+    await approvalSlaService.processOverdueApprovals(now);
+
+    expect(mockPrisma.user.findFirst).toHaveBeenCalledWith({
+      where: expect.objectContaining({ role: 'SUPERINTENDENT', id: { notIn: ['captain-1'] } }),
+    });
+    expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'DELEGATE',
+      resource: 'approval',
+      resourceId: 'approval-1',
+      newValues: expect.objectContaining({ approverId: 'super-1', escalationLevel: 1 }),
+      metadata: expect.objectContaining({ reason: 'APPROVAL_SLA_BREACHED', escalatedTo: 'NEXT_LEVEL' }),
+    }));
+    expect(emailService.sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'super@flowmarine.com',
+      type: 'approval_escalated',
+    }));
+  });
+
+  it('should leave an approval actioned since it was read to its approver', async () => {
+    mockPrisma.approval.findMany
+      .mockResolvedValueOnce([pendingApproval({ dueAt: new Date(now.getTime() - HOUR) })])
+      .mockResolvedValueOnce([{ approverId: 'captain-1' }]);
+    vi.mocked(DelegationService.getActiveDelegate).mockResolvedValue({
+      id: 'chief-officer-1', email: 'co@flowmarine.com', role: 'CAPTAIN',
+    } as any);
+    mockPrisma.approval.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await approvalSlaService.processOverdueApprovals(now);
+
+    expect(result).toEqual({ reminded: 0, escalated: 0, failed: 0 });
+    expect(mockPrisma.approval.create).not.toHaveBeenCalled();
+    expect(emailService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should only remind once the escalation limit is reached', async () => {
+    mockPrisma.approval.findMany.mockResolvedValue([
+      pendingApproval({
+        dueAt: new Date(now.getTime() - 5 * HOUR),
+        escalationLevel: 2,
+        lastReminderAt: new Date(now.getTime() - 13 * HOUR),
+      }),
+    ]);
+
+    const result = await approvalSlaService.processOverdueApprovals(now);
+
+    expect(result).toEqual({ reminded: 1, escalated: 0, failed: 0 });
+    expect(mockPrisma.approval.create).not.toHaveBeenCalled();
+  });
+
+  it('should report overdue approvals with hours past due', async () => {
+    mockPrisma.approval.findMany.mockResolvedValue([
+      pendingApproval({ id: 'late', dueAt: new Date(now.getTime() - 3 * HOUR) }),
+      pendingApproval({ id: 'on-time' }),
+    ]);
+
+    const report = await approvalSlaService.getOverdueApprovals({}, now);
+
+    expect(report.approvals.map(a => a.approvalId)).toEqual(['late']);
+    expect(report.approvals[0].hoursOverdue).toBe(3);
+    expect(report.summary).toEqual({ ROUTINE: 1, URGENT: 0, EMERGENCY: 0 });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { auctionService } from '../services/auctionService';
+import { quoteComparisonService } from '../services/quoteComparisonService';
+import { websocketService } from '../services/websocketService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    rFQ: {
+      update: vi.fn(),
+    },
+    rFQAuction: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    auctionBid: {
+      create: vi.fn(),
+    },
+    quote: {
+      update: vi.fn(),
+    },
+    quoteLineItem: {
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/quoteComparisonService', () => ({
+  quoteComparisonService: {
+    scoreAndCompareQuotes: vi.fn(),
+  },
+}));
+
+vi.mock('../services/websocketService', () => ({
+  websocketService: {
+    sendAuctionUpdate: vi.fn(),
+    sendVendorAuctionUpdate: vi.fn(),
+  },
+}));
+
+const now = new Date('2024-06-10T12:00:00Z');
+const minutes = (count: number) => new Date(now.getTime() + count * 60 * 1000);
+
+const bidder = { vendorUserId: 'vendor-user-1', vendorId: 'vendor-1' };
+
+const bid = (vendorId: string, amount: number, at: Date) => ({
+  id: `bid-${vendorId}-${amount}`,
+  auctionId: 'auction-1',
+  vendorId,
+  vendorUserId: `${vendorId}-user`,
+  amount,
+  createdAt: at,
+  vendor: { name: vendorId === 'vendor-1' ? 'Aegean Marine Supply' : 'Baltic Ship Stores' },
+});
+
+const openAuction = (overrides: any = {}) => ({
+  id: 'auction-1',
+  rfqId: 'rfq-1',
+  status: 'OPEN',
+  startsAt: minutes(-60),
+  endsAt: minutes(30),
+  originalEndsAt: minutes(30),
+  minimumDecrement: 50,
+  decrementIsPercent: false,
+  startingPrice: null,
+  extensionWindowMinutes: 5,
+  extensionMinutes: 5,
+  maxExtensions: null,
+  extensionCount: 0,
+  closedAt: null,
+  bids: [],
+  rfq: {
+    status: 'RESPONSES_RECEIVED',
+    rfqNumber: 'RFQ-2024-0042',
+    requisition: { vesselId: 'vessel-1' },
+    quotes: [{ id: 'quote-1', totalAmount: 10000 }],
+  },
+  ...overrides,
+});
+
+const boardAfterBid = (bids: any[]) => ({
+  ...openAuction(),
+  bids,
+  rfq: { vendors: [{ vendorId: 'vendor-1' }, { vendorId: 'vendor-2' }, { vendorId: 'vendor-3' }] },
+});
+
+describe('Reverse auctions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.auctionBid.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'bid-new', ...data }));
+    mockPrisma.rFQAuction.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.rFQAuction.findUniqueOrThrow.mockResolvedValue(openAuction());
+  });
+
+  describe('placeBid', () => {
+    it('should reject a bid that does not undercut the previous one by the minimum decrement', async () => {
+      mockPrisma.rFQAuction.findUnique.mockResolvedValue(openAuction());
+      mockPrisma.rFQAuction.findUniqueOrThrow.mockResolvedValue(openAuction({ bids: [{ amount: 9500 }] }));
+
+      await expect(auctionService.placeBid('rfq-1', 9480, bidder, now))
+        .rejects.toMatchObject({ errorCode: 'BID_DECREMENT_TOO_SMALL' });
+      expect(mockPrisma.auctionBid.create).not.toHaveBeenCalled();
+    });
+
+    it('should only accept bids from vendors with a submitted quote', async () => {
+      mockPrisma.rFQAuction.findUnique.mockResolvedValue(openAuction({
+        rfq: { ...openAuction().rfq, quotes: [] },
+      }));
+
+      await expect(auctionService.placeBid('rfq-1', 9000, bidder, now))
+        .rejects.toMatchObject({ errorCode: 'AUCTION_NOT_QUALIFIED' });
+    });
+
+    it('should extend the auction when a bid lands in the closing window', async () => {
+      const closing = openAuction({ endsAt: minutes(2) });
+      mockPrisma.rFQAuction.findUnique
+        .mockResolvedValueOnce(closing)
+        .mockResolvedValueOnce(boardAfterBid([bid('vendor-1', 9900, now)]));
+      mockPrisma.rFQAuction.findUniqueOrThrow.mockResolvedValue(closing);
+
+      const result = await auctionService.placeBid('rfq-1', 9900, bidder, now);
+
+      expect(mockPrisma.rFQAuction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-1' },
+        data: { endsAt: minutes(5), extensionCount: { increment: 1 } },
+      });
+      expect(result).toEqual({ amount: 9900, rank: 1, endsAt: minutes(5), extended: true });
+    });
+
+    it('should stop extending once the extension limit is reached', async () => {
+      const capped = openAuction({ endsAt: minutes(2), maxExtensions: 3, extensionCount: 3 });
+      mockPrisma.rFQAuction.findUnique
+        .mockResolvedValueOnce(capped)
+        .mockResolvedValueOnce(boardAfterBid([bid('vendor-1', 9900, now)]));
+      mockPrisma.rFQAuction.findUniqueOrThrow.mockResolvedValue(capped);
+
+      const result = await auctionService.placeBid('rfq-1', 9900, bidder, now);
+
+      expect(mockPrisma.rFQAuction.update).not.toHaveBeenCalled();
+      expect(result.extended).toBe(false);
+    });
+
+    it('should reject a bid if the auction closed after it was read', async () => {
+      mockPrisma.rFQAuction.findUnique.mockResolvedValue(openAuction());
+      mockPrisma.rFQAuction.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(auctionService.placeBid('rfq-1', 9900, bidder, now))
+        .rejects.toMatchObject({ errorCode: 'AUCTION_NOT_OPEN' });
+      expect(mockPrisma.rFQAuction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'auction-1', status: { in: ['SCHEDULED', 'OPEN'] }, startsAt: { lte: now }, endsAt: { gt: now } },
+        data: { status: 'OPEN' },
+      });
+      expect(mockPrisma.auctionBid.create).not.toHaveBeenCalled();
+    });
+
+    it('should show vendors their own rank and never the other bids', async () => {
+      mockPrisma.rFQAuction.findUnique
+        .mockResolvedValueOnce(openAuction())
+        .mockResolvedValueOnce(boardAfterBid([
+          bid('vendor-2', 9200, minutes(-10)),
+          bid('vendor-1', 9400, now),
+        ]));
+
+      const result = await auctionService.placeBid('rfq-1', 9400, bidder, now);
+
+      expect(result.rank).toBe(2);
+      expect(websocketService.sendAuctionUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        standings: [
+          expect.objectContaining({ rank: 1, vendorId: 'vendor-2', amount: 9200 }),
+          expect.objectContaining({ rank: 2, vendorId: 'vendor-1', amount: 9400 }),
+        ],
+      }));
+
+      const vendorUpdates = vi.mocked(websocketService.sendVendorAuctionUpdate).mock.calls;
+      expect(vendorUpdates.map(([vendorId, update]) => [vendorId, update.rank, update.bestBid])).toEqual([
+        ['vendor-1', 2, 9400],
+        ['vendor-2', 1, 9200],
+        ['vendor-3', null, null],
+      ]);
+      expect(JSON.stringify(vendorUpdates[0][1])).not.toContain('9200');
+    });
+  });
+
+  describe('closeAuction', () => {
+    it('should carry final bids into the quotes and rescore the RFQ', async () => {
+      const closingAuction = openAuction({
+        endsAt: now,
+        bids: [
+          bid('vendor-1', 9000, minutes(-20)),
+          bid('vendor-1', 8000, minutes(-5)),
+        ],
+        rfq: {
+          id: 'rfq-1',
+          status: 'SENT',
+          rfqNumber: 'RFQ-2024-0042',
+          requisition: { vesselId: 'vessel-1' },
+          quotes: [{
+            id: 'quote-1',
+            vendorId: 'vendor-1',
+            totalAmount: 10000,
+            currency: 'USD',
+            notes: null,
+            lineItems: [
+              { id: 'qli-1', unitPrice: 100, quantity: 60 },
+              { id: 'qli-2', unitPrice: 200, quantity: 20 },
+            ],
+          }],
+        },
+      });
+      mockPrisma.rFQAuction.findUnique
+        .mockResolvedValueOnce(closingAuction)
+        .mockResolvedValueOnce({ ...closingAuction, status: 'CLOSED', rfq: { vendors: [] } });
+
+      const standings = await auctionService.closeAuction('auction-1', now);
+
+      expect(standings).toEqual([expect.objectContaining({ rank: 1, vendorId: 'vendor-1', amount: 8000 })]);
+      expect(mockPrisma.quoteLineItem.update).toHaveBeenCalledWith({
+        where: { id: 'qli-1' },
+        data: { unitPrice: 80, totalPrice: 4800 },
+      });
+      expect(mockPrisma.quoteLineItem.update).toHaveBeenCalledWith({
+        where: { id: 'qli-2' },
+        data: { unitPrice: 160, totalPrice: 3200 },
+      });
+      expect(mockPrisma.quote.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'quote-1' },
+        data: expect.objectContaining({ totalAmount: 8000, revision: { increment: 1 }, totalScore: null }),
+      }));
+      expect(mockPrisma.rFQ.update).toHaveBeenCalledWith({
+        where: { id: 'rfq-1' },
+        data: { status: 'RESPONSES_RECEIVED' },
+      });
+      expect(quoteComparisonService.scoreAndCompareQuotes).toHaveBeenCalledWith('rfq-1');
+    });
+  });
+});
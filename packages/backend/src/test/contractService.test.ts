@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { contractService } from '../services/contractService';
+import { purchaseOrderService } from '../services/purchaseOrderService';
+import { rfqService } from '../services/rfqService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    vendor: {
+      findUnique: vi.fn(),
+    },
+    vendorContract: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    itemCatalog: {
+      findMany: vi.fn(),
+    },
+    requisition: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    rFQ: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+    },
+    purchaseOrder: {
+      aggregate: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+    },
+    pOLineItem: {
+      createMany: vi.fn(),
+    },
+    exchangeRate: {
+      findFirst: vi.fn(),
+    },
+    $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  POStatus: { DRAFT: 'DRAFT', SENT: 'SENT' },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+const now = Date.now();
+const DAY = 24 * 60 * 60 * 1000;
+
+const activeContract = (overrides: any = {}) => ({
+  id: 'contract-1',
+  contractNumber: 'CTR-2024-0001',
+  vendorId: 'vendor-1',
+  status: 'ACTIVE',
+  validFrom: new Date(now - 30 * DAY),
+  validTo: new Date(now + 300 * DAY),
+  currency: 'USD',
+  portCodes: ['NLRTM'],
+  spendCap: null,
+  paymentTerms: 'Net 45',
+  deliveryTerms: null,
+  leadTimeDays: 5,
+  priceItems: [
+    {
+      itemCatalogId: 'item-1',
+      unitPrice: 10,
+      minOrderQuantity: null,
+      volumeTiers: [{ minQuantity: 50, unitPrice: 9 }, { minQuantity: 100, unitPrice: 8 }],
+    },
+    { itemCatalogId: 'item-2', unitPrice: 120, minOrderQuantity: 2, volumeTiers: null },
+  ],
+  ...overrides,
+});
+
+const requisition = (overrides: any = {}) => ({
+  id: 'req-1',
+  status: 'APPROVED',
+  vesselId: 'vessel-1',
+  currency: 'USD',
+  deliveryLocation: 'Rotterdam NLRTM',
+  deliveryDate: null,
+  items: [
+    { id: 'line-1', itemCatalogId: 'item-1', quantity: 60, specifications: null, itemCatalog: { name: 'Gasket', description: 'DN50' } },
+    { id: 'line-2', itemCatalogId: 'item-2', quantity: 2, specifications: null, itemCatalog: { name: 'Filter', description: null } },
+  ],
+  vessel: { id: 'vessel-1', name: 'MV Atlantic', imoNumber: '9123456' },
+  rfqs: [],
+  ...overrides,
+});
+
+describe('ContractService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.purchaseOrder.aggregate.mockResolvedValue({ _sum: { totalAmount: 0 } });
+    mockPrisma.requisition.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('getUnitPrice', () => {
+    it('should apply the highest volume tier reached', () => {
+      const priceItem = activeContract().priceItems[0] as any;
+
+      expect(contractService.getUnitPrice(priceItem, 20)).toEqual({ unitPrice: 10, tierMinQuantity: null });
+      expect(contractService.getUnitPrice(priceItem, 60)).toEqual({ unitPrice: 9, tierMinQuantity: 50 });
+      expect(contractService.getUnitPrice(priceItem, 100)).toEqual({ unitPrice: 8, tierMinQuantity: 100 });
+    });
+  });
+
+  describe('checkRequisitionCoverage', () => {
+    it('should price a fully covered requisition at contract price', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(requisition());
+      mockPrisma.vendorContract.findMany.mockResolvedValue([activeContract()]);
+
+      const result = await contractService.checkRequisitionCoverage('req-1');
+
+      expect(result.covered).toBe(true);
+      expect(result.coverage!.totalAmount).toBe(60 * 9 + 2 * 120);
+    });
+
+    it('should not cover requisitions delivered outside the contract ports', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(requisition({ deliveryLocation: 'Singapore SGSIN' }));
+      mockPrisma.vendorContract.findMany.mockResolvedValue([activeContract()]);
+
+      const result = await contractService.checkRequisitionCoverage('req-1');
+
+      expect(result.covered).toBe(false);
+      expect(result.candidates[0].reasons).toContain('Port SGSIN is not covered');
+    });
+
+    it('should not cover requisitions with items missing from the price list', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(requisition({
+        items: [...requisition().items, { id: 'line-3', itemCatalogId: 'item-9', quantity: 1 }],
+      }));
+      mockPrisma.vendorContract.findMany.mockResolvedValue([activeContract()]);
+
+      const result = await contractService.checkRequisitionCoverage('req-1');
+
+      expect(result.covered).toBe(false);
+      expect(result.candidates[0]).toMatchObject({ coveredItems: 2, totalItems: 3 });
+    });
+
+    it('should not cover a requisition that would overrun the spend cap', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(requisition());
+      mockPrisma.vendorContract.findMany.mockResolvedValue([activeContract({ spendCap: 10000 })]);
+      mockPrisma.purchaseOrder.aggregate.mockResolvedValue({ _sum: { totalAmount: 9500 } });
+
+      const result = await contractService.checkRequisitionCoverage('req-1');
+
+      expect(result.covered).toBe(false);
+      expect(result.candidates[0].reasons[0]).toContain('Spend cap');
+    });
+  });
+
+  describe('generatePurchaseOrderFromContract', () => {
+    it('should issue the PO at contract price and close the requisition', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(requisition());
+      mockPrisma.vendorContract.findMany.mockResolvedValue([activeContract()]);
+      mockPrisma.purchaseOrder.count.mockResolvedValue(0);
+      mockPrisma.purchaseOrder.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'po-1', ...data }));
+
+      const po = await purchaseOrderService.generatePurchaseOrderFromContract({ requisitionId: 'req-1', approvedBy: 'buyer-1' });
+
+      expect(po).toMatchObject({ contractId: 'contract-1', requisitionId: 'req-1', vendorId: 'vendor-1', totalAmount: 780 });
+      expect(mockPrisma.pOLineItem.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ itemCatalogId: 'item-1', quantity: 60, unitPrice: 9, totalPrice: 540 }),
+          expect.objectContaining({ itemCatalogId: 'item-2', quantity: 2, unitPrice: 120, totalPrice: 240 }),
+        ],
+      });
+      expect(mockPrisma.requisition.updateMany).toHaveBeenCalledWith({
+        where: { id: 'req-1', status: 'APPROVED' },
+        data: { status: 'CONVERTED_TO_PO' },
+      });
+    });
+
+    it('should not order a requisition a concurrent request has already converted', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(requisition());
+      mockPrisma.vendorContract.findMany.mockResolvedValue([activeContract()]);
+      mockPrisma.purchaseOrder.count.mockResolvedValue(0);
+      mockPrisma.requisition.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(purchaseOrderService.generatePurchaseOrderFromContract({ requisitionId: 'req-1', approvedBy: 'buyer-1' }))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'REQUISITION_ALREADY_CONVERTED' });
+      expect(mockPrisma.purchaseOrder.create).not.toHaveBeenCalled();
+    });
+
+    it('should lock the contract and re-check the spend cap before committing', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(requisition());
+      mockPrisma.vendorContract.findMany.mockResolvedValue([activeContract({ spendCap: 1000 })]);
+      mockPrisma.purchaseOrder.count.mockResolvedValue(0);
+      mockPrisma.purchaseOrder.aggregate
+        .mockResolvedValueOnce({ _sum: { totalAmount: 0 } })
+        .mockResolvedValueOnce({ _sum: { totalAmount: 500 } });
+
+      await expect(purchaseOrderService.generatePurchaseOrderFromContract({ requisitionId: 'req-1', approvedBy: 'buyer-1' }))
+        .rejects.toMatchObject({ errorCode: 'CONTRACT_SPEND_CAP_EXCEEDED' });
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.purchaseOrder.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createRFQFromRequisition', () => {
+    it('should send covered requisitions to contract purchasing instead of an RFQ', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(requisition());
+      mockPrisma.rFQ.findFirst.mockResolvedValue(null);
+      mockPrisma.vendorContract.findMany.mockResolvedValue([activeContract()]);
+
+      await expect(rfqService.createRFQFromRequisition({ requisitionId: 'req-1', title: 'Spares' }, 'buyer-1'))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'REQUISITION_COVERED_BY_CONTRACT' });
+      expect(mockPrisma.rFQ.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { customsDocumentService } from '../services/customsDocumentService';
+import { deliveryService } from '../services/deliveryService';
+import { portDatabaseIntegrationService } from '../services/portDatabaseIntegrationService';
+import { AuditService } from '../services/auditService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    delivery: {
+      findUnique: vi.fn(),
+    },
+    pOLineItem: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    customsClearanceEvent: {
+      create: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  DeliveryStatus: {
+    SCHEDULED: 'SCHEDULED',
+    IN_TRANSIT: 'IN_TRANSIT',
+    DELIVERED: 'DELIVERED',
+    DELAYED: 'DELAYED',
+    CANCELLED: 'CANCELLED',
+  },
+  CustomsClearanceStatus: {
+    DOCUMENTS_PREPARED: 'DOCUMENTS_PREPARED',
+    SUBMITTED: 'SUBMITTED',
+    INSPECTION: 'INSPECTION',
+    HELD: 'HELD',
+    CLEARED: 'CLEARED',
+  },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/inventoryService', () => ({
+  inventoryService: {},
+}));
+
+const lineItems = [
+  { id: 'line-1', itemDescription: 'Cylinder liner', quantity: 2, unitPrice: 4000, currency: 'EUR', hsCode: null, countryOfOrigin: 'DK', itemCatalog: { hsCode: '8409.99', unitOfMeasure: 'pcs' } },
+  { id: 'line-2', itemDescription: 'Piston ring set', quantity: 8, unitPrice: 512.5, currency: 'EUR', hsCode: '8409.99.00', countryOfOrigin: 'JP', itemCatalog: null },
+  { id: 'line-3', itemDescription: 'Jointing sheet', quantity: 5, unitPrice: 20, currency: 'EUR', hsCode: null, countryOfOrigin: null, itemCatalog: null },
+];
+
+const delivery = (overrides: any = {}) => ({
+  id: 'delivery-1',
+  deliveryNumber: 'DEL-2024-000042',
+  purchaseOrderId: 'po-1',
+  status: 'SCHEDULED',
+  deliveryAddress: 'Rotterdam (NLRTM)',
+  createdAt: new Date('2024-06-01T08:00:00Z'),
+  carrier: 'Spido Launch Services',
+  purchaseOrder: {
+    id: 'po-1',
+    poNumber: 'PO-2024-0042',
+    vesselId: 'vessel-1',
+    currency: 'EUR',
+    deliveryTerms: 'DAP vessel at Rotterdam',
+    vendor: { name: 'Hamburg Marine Parts', address: 'Am Sandtorkai 1', city: 'Hamburg', postalCode: '20457', country: 'Germany', taxId: 'DE123456789' },
+    vessel: { name: 'Nordic Star', imoNumber: '9321483', flag: 'MT' },
+    lineItems,
+  },
+  portCall: { portCode: 'NLRTM', portName: 'Rotterdam', eta: new Date('2024-06-10T06:00:00Z') },
+  lines: [],
+  customsEvents: [],
+  ...overrides,
+});
+
+describe('Ship spares in transit customs documents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.delivery.findUnique.mockResolvedValue(delivery());
+    // Six ring sets came on an earlier delivery
+    mockPrisma.pOLineItem.findMany.mockResolvedValue([
+      { id: 'line-1', itemDescription: 'Cylinder liner', quantity: 2, deliveryLines: [] },
+      { id: 'line-2', itemDescription: 'Piston ring set', quantity: 8, deliveryLines: [{ receivedQuantity: 6, damagedQuantity: 0, shortQuantity: 2, returnedQuantity: 0 }] },
+      { id: 'line-3', itemDescription: 'Jointing sheet', quantity: 5, deliveryLines: [] },
+    ]);
+    vi.spyOn(portDatabaseIntegrationService, 'getPortDetails').mockResolvedValue({ portCode: 'NLRTM', country: 'Netherlands' } as any);
+    vi.spyOn(portDatabaseIntegrationService, 'getCustomsRequirements').mockResolvedValue([
+      { documentType: 'T1 transit declaration', required: true, deadline: new Date('2024-06-09'), authority: 'Douane Rotterdam' },
+    ]);
+  });
+
+  describe('getCustomsSummary', () => {
+    it('should value the goods still outstanding and fall back to the catalogue HS code', async () => {
+      const summary = await customsDocumentService.getCustomsSummary('delivery-1');
+
+      expect(summary.lines).toEqual([
+        expect.objectContaining({ poLineItemId: 'line-1', hsCode: '8409.99', quantity: 2, value: 8000 }),
+        expect.objectContaining({ poLineItemId: 'line-2', hsCode: '8409.99.00', quantity: 2, value: 1025 }),
+        expect.objectContaining({ poLineItemId: 'line-3', hsCode: null, quantity: 5, value: 100 }),
+      ]);
+      expect(summary).toMatchObject({
+        totalValue: 9125,
+        currency: 'EUR',
+        country: 'Netherlands',
+        missingHsCodes: ['line-3'],
+        clearanceStatus: null,
+      });
+      expect(portDatabaseIntegrationService.getCustomsRequirements).toHaveBeenCalledWith('NLRTM', 'MT', 'SHIP_SPARES');
+    });
+  });
+
+  describe('getDocument', () => {
+    it('should refuse to declare goods without an HS code', async () => {
+      await expect(customsDocumentService.getDocument('delivery-1', 'COMMERCIAL_INVOICE', 'buyer-1'))
+        .rejects.toMatchObject({ errorCode: 'HS_CODE_MISSING' });
+    });
+
+    it('should render each document from the quantities shipped on a confirmed delivery', async () => {
+      mockPrisma.delivery.findUnique.mockResolvedValue(delivery({
+        status: 'DELIVERED',
+        lines: [
+          { poLineItemId: 'line-1', receivedQuantity: 1, damagedQuantity: 1 },
+          { poLineItemId: 'line-2', receivedQuantity: 8, damagedQuantity: 0 },
+          { poLineItemId: 'line-3', receivedQuantity: 0, damagedQuantity: 0 },
+        ],
+      }));
+
+      for (const type of ['COMMERCIAL_INVOICE', 'PACKING_LIST', 'SHIP_SPARES_DECLARATION'] as const) {
+        const document = await customsDocumentService.getDocument('delivery-1', type, 'buyer-1');
+        expect(document.pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      }
+
+      expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+        resource: 'customs_document',
+        newValues: { type: 'SHIP_SPARES_DECLARATION', reference: 'DEL-2024-000042-SSD', totalValue: 12100 },
+      }));
+    });
+  });
+
+  describe('updateLineCustomsData', () => {
+    it('should validate the HS code and keep vendors to their own orders', async () => {
+      mockPrisma.pOLineItem.findUnique.mockResolvedValue({
+        id: 'line-3',
+        hsCode: null,
+        countryOfOrigin: null,
+        purchaseOrder: { id: 'po-1', poNumber: 'PO-2024-0042', vendorId: 'vendor-1', vesselId: 'vessel-1', status: 'SENT' },
+      });
+      mockPrisma.pOLineItem.update.mockImplementation(async ({ data }: any) => ({ id: 'line-3', ...data }));
+
+      await expect(customsDocumentService.updateLineCustomsData('line-3', { hsCode: '4016.93' }, { vendorUserId: 'vendor-user-2', vendorId: 'vendor-2' }))
+        .rejects.toMatchObject({ errorCode: 'PO_LINE_NOT_FOUND' });
+      await expect(customsDocumentService.updateLineCustomsData('line-3', { hsCode: 'gasket' }, { userId: 'buyer-1' }))
+        .rejects.toMatchObject({ errorCode: 'INVALID_HS_CODE' });
+
+      const line = await customsDocumentService.updateLineCustomsData('line-3', { hsCode: '4016.93', countryOfOrigin: 'de' }, { vendorUserId: 'vendor-user-1', vendorId: 'vendor-1' });
+
+      expect(line).toMatchObject({ hsCode: '4016.93', countryOfOrigin: 'DE' });
+    });
+  });
+
+  describe('clearance tracking', () => {
+    it('should show clearance steps among the delivery tracking events', async () => {
+      mockPrisma.delivery.findUnique.mockResolvedValue(delivery({
+        status: 'IN_TRANSIT',
+        customsEvents: [
+          { status: 'SUBMITTED', reference: '24NL000123456789A1', location: 'Rotterdam', notes: null, occurredAt: new Date('2024-06-09T10:00:00Z') },
+          { status: 'CLEARED', reference: '24NL000123456789A1', location: 'Rotterdam', notes: null, occurredAt: new Date('2024-06-10T07:30:00Z') },
+        ],
+      }));
+
+      const tracking = await deliveryService.getDeliveryTracking('delivery-1');
+
+      expect(tracking.customsStatus).toBe('CLEARED');
+      expect(tracking.trackingEvents.map(event => event.status)).toEqual(['SCHEDULED', 'IN_TRANSIT', 'CUSTOMS_SUBMITTED', 'CUSTOMS_CLEARED']);
+      expect(tracking.trackingEvents[3].description).toBe('Cleared by customs for delivery on board (24NL000123456789A1)');
+    });
+
+    it('should not record anything after the goods have cleared', async () => {
+      mockPrisma.delivery.findUnique.mockResolvedValue({
+        ...delivery(),
+        customsEvents: [{ status: 'CLEARED', reference: '24NL000123456789A1', occurredAt: new Date('2024-06-10T07:30:00Z') }],
+      });
+
+      await expect(customsDocumentService.recordClearanceEvent('delivery-1', { status: 'HELD' }, 'agent-1'))
+        .rejects.toMatchObject({ errorCode: 'CUSTOMS_ALREADY_CLEARED' });
+      expect(mockPrisma.customsClearanceEvent.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { dangerousGoodsService } from '../services/dangerousGoodsService';
+import { portCallService } from '../services/portCallService';
+import { portDatabaseIntegrationService } from '../services/portDatabaseIntegrationService';
+import { AuditService } from '../services/auditService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    purchaseOrder: {
+      findUnique: vi.fn(),
+    },
+    portCall: {
+      findMany: vi.fn(),
+    },
+    vendorPortCapability: {
+      findMany: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+const now = new Date('2024-06-01T00:00:00Z');
+const days = (count: number) => new Date(now.getTime() + count * 24 * 60 * 60 * 1000);
+
+const item = (id: string, overrides: any = {}) => ({
+  id,
+  unitOfMeasure: 'pcs',
+  unNumber: null,
+  properShippingName: null,
+  imdgClass: null,
+  subsidiaryRisks: [],
+  packingGroup: null,
+  marinePollutant: false,
+  emsCode: null,
+  flashPoint: null,
+  safetyDataSheets: [{ id: `sds-${id}`, documentUrl: `https://docs.example.com/${id}-sds.pdf`, revisionDate: new Date('2023-11-01') }],
+  ...overrides,
+});
+
+const paint = item('paint', {
+  unitOfMeasure: 'ltr', unNumber: '1263', properShippingName: 'PAINT', imdgClass: '3', packingGroup: 'III',
+  emsCode: 'F-E, S-E', flashPoint: 24, marinePollutant: true,
+});
+const oxygen = item('oxygen', {
+  unNumber: '1072', properShippingName: 'OXYGEN, COMPRESSED', imdgClass: '2.2', subsidiaryRisks: ['5.1'], emsCode: 'F-C, S-W',
+  safetyDataSheets: [],
+});
+const acetylene = item('acetylene', {
+  unNumber: '1001', properShippingName: 'ACETYLENE, DISSOLVED', imdgClass: '2.1', emsCode: 'F-D, S-U',
+});
+
+const purchaseOrder = (items: any[], overrides: any = {}) => ({
+  id: 'po-1',
+  poNumber: 'PO-2024-0042',
+  vendorId: 'vendor-1',
+  vesselId: 'vessel-1',
+  status: 'SENT',
+  deliveryAddress: null,
+  vendor: { id: 'vendor-1', name: 'Rotterdam Ship Supply', address: 'Waalhaven 12', city: 'Rotterdam', postalCode: '3089', country: 'Netherlands' },
+  vessel: { id: 'vessel-1', name: 'Nordic Star', imoNumber: '9321483', flag: 'MT' },
+  lineItems: items.map(catalogItem => ({
+    id: `line-${catalogItem.id}`,
+    itemDescription: catalogItem.properShippingName || catalogItem.id,
+    quantity: 2,
+    itemCatalog: catalogItem,
+  })),
+  deliveries: [],
+  ...overrides,
+});
+
+const port = (restrictions: any[]) => ({ portCode: 'NLRTM', name: 'Rotterdam', restrictions } as any);
+
+const flammableGasBan = {
+  restrictionType: 'DANGEROUS_GOODS',
+  description: 'No flammable gases delivered by barge alongside',
+  applicableVesselTypes: [],
+  effectiveDate: new Date('2024-01-01'),
+  imdgClasses: ['2.1'],
+};
+
+describe('IMDG dangerous goods', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(portDatabaseIntegrationService, 'getPortDetails').mockResolvedValue(port([]));
+  });
+
+  describe('validateClassification', () => {
+    it('should require a complete classification and reject packing groups the class never takes', () => {
+      expect(dangerousGoodsService.validateClassification({ unNumber: '1263', properShippingName: 'PAINT', imdgClass: '3', packingGroup: 'III' })).toEqual([]);
+      expect(dangerousGoodsService.validateClassification({ unNumber: '1072', properShippingName: 'OXYGEN, COMPRESSED', imdgClass: '2.2', packingGroup: 'II' }))
+        .toEqual(['Class 2.2 goods are not assigned a packing group']);
+      expect(dangerousGoodsService.validateClassification({ imdgClass: '8' })).toEqual(['A UN number is required for dangerous goods']);
+      expect(dangerousGoodsService.validateClassification({ unNumber: 'UN1263', properShippingName: 'PAINT', imdgClass: '10' }))
+        .toEqual(['UN number must be four digits, got UN1263', 'Invalid IMDG class: 10']);
+    });
+  });
+
+  describe('segregationLevel', () => {
+    it('should take the strictest requirement across primary and subsidiary classes', () => {
+      expect(dangerousGoodsService.segregationLevel(['3'], ['2.2'])).toBe(1);
+      expect(dangerousGoodsService.segregationLevel(['3'], ['2.2', '5.1'])).toBe(2);
+      expect(dangerousGoodsService.segregationLevel(['8'], ['9'])).toBe(0);
+      expect(dangerousGoodsService.segregationLevel(['1.4S'], ['1.3G'])).toBeNull();
+    });
+  });
+
+  describe('checkPurchaseOrder', () => {
+    it('should flag segregation, restricted classes at the port and missing safety data sheets', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder([paint, oxygen, acetylene, item('rope')]));
+      vi.mocked(portDatabaseIntegrationService.getPortDetails).mockResolvedValue(port([
+        flammableGasBan,
+        { ...flammableGasBan, description: 'Expired ban', imdgClasses: [], expiryDate: new Date('2024-03-01') },
+        { restrictionType: 'DRAFT', description: 'Max draft 12m', applicableVesselTypes: [], effectiveDate: new Date('2024-01-01') },
+      ]));
+
+      const check = await dangerousGoodsService.checkPurchaseOrder('po-1', 'NLRTM', now);
+
+      expect(check.dangerousGoods.map(line => line.unNumber)).toEqual(['1263', '1072', '1001']);
+      expect(check.segregation).toEqual([
+        expect.objectContaining({ unNumbers: ['1263', '1072'], level: 2, requirement: 'Separated from', separateTransport: true }),
+        expect.objectContaining({ unNumbers: ['1263', '1001'], level: 2, separateTransport: true }),
+        expect.objectContaining({ unNumbers: ['1072', '1001'], level: 2, separateTransport: true }),
+      ]);
+      expect(check.portRestrictions).toEqual([
+        expect.objectContaining({ portCode: 'NLRTM', imdgClasses: ['2.1'], poLineItemIds: ['line-acetylene'] }),
+      ]);
+      expect(check.deliverable).toBe(false);
+      expect(check.warnings).toEqual(['No safety data sheet on file for UN1072 OXYGEN, COMPRESSED']);
+    });
+  });
+
+  describe('suggestPortCall', () => {
+    it('should pass over a port that does not accept the dangerous goods', async () => {
+      mockPrisma.portCall.findMany.mockResolvedValue([
+        { id: 'call-rtm', vesselId: 'vessel-1', portCode: 'NLRTM', portName: 'Rotterdam', status: 'PLANNED', eta: days(5), etd: days(6), berthWindowStart: null, berthWindowEnd: null },
+        { id: 'call-ant', vesselId: 'vessel-1', portCode: 'BEANR', portName: 'Antwerp', status: 'PLANNED', eta: days(9), etd: days(10), berthWindowStart: null, berthWindowEnd: null },
+      ]);
+      mockPrisma.vendorPortCapability.findMany.mockResolvedValue([
+        { vendorId: 'vendor-1', portCode: 'NLRTM', capabilities: ['delivery'] },
+        { vendorId: 'vendor-1', portCode: 'BEANR', capabilities: ['delivery'] },
+      ]);
+      vi.mocked(portDatabaseIntegrationService.getPortDetails).mockImplementation(async (portCode: string) =>
+        port(portCode === 'NLRTM' ? [flammableGasBan] : []));
+
+      const result = await portCallService.suggestPortCall({ vesselId: 'vessel-1', vendorIds: ['vendor-1'], leadTimeDays: 2, imdgClasses: ['2.1'] }, now);
+
+      expect(result.recommended).toMatchObject({ portCall: { id: 'call-ant' } });
+      expect(result.candidates.find(candidate => candidate.portCall.id === 'call-rtm')!.reasons)
+        .toContain('Rotterdam (NLRTM) restricts dangerous goods: No flammable gases delivered by barge alongside');
+    });
+  });
+
+  describe('getDeclaration', () => {
+    it('should render the declaration for the forwarder and refuse orders without dangerous goods', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder([paint, oxygen], {
+        deliveries: [{
+          deliveryNumber: 'DEL-2024-000042',
+          scheduledDate: days(5),
+          deliveryAddress: 'Rotterdam (NLRTM)',
+          carrier: 'Spido Launch Services',
+          portCall: { portCode: 'NLRTM', portName: 'Rotterdam' },
+        }],
+      }));
+
+      const declaration = await dangerousGoodsService.getDeclaration('po-1', 'buyer-1');
+
+      expect(declaration.pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(declaration.fileName).toBe('PO-2024-0042-dg-declaration.pdf');
+      expect(declaration.check.portCode).toBe('NLRTM');
+      expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+        resource: 'dangerous_goods_declaration',
+        newValues: expect.objectContaining({ unNumbers: ['1263', '1072'], segregationConflicts: 1 }),
+      }));
+
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder([item('rope')]));
+      await expect(dangerousGoodsService.getDeclaration('po-1', 'buyer-1'))
+        .rejects.toMatchObject({ errorCode: 'NO_DANGEROUS_GOODS' });
+    });
+  });
+});
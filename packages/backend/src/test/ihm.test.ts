@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ihmService } from '../services/ihmService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    pOLineItem: {
+      findUnique: vi.fn(),
+    },
+    purchaseOrder: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    ihmDeclaration: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  HazardousMaterial: {
+    ASBESTOS: 'ASBESTOS',
+    LEAD: 'LEAD',
+    MERCURY: 'MERCURY',
+    PCB: 'PCB',
+  },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+const declaration = (overrides: any = {}) => ({
+  id: 'decl-1',
+  type: 'MATERIAL_DECLARATION',
+  status: 'ACCEPTED',
+  declarationNumber: 'MD-2024-117',
+  containsHazardousMaterials: false,
+  declaredMaterials: [],
+  ihmRecordedAt: null,
+  ...overrides,
+});
+
+const line = (id: string, overrides: any = {}) => ({
+  id,
+  itemCatalogId: `item-${id}`,
+  itemDescription: `Item ${id}`,
+  quantity: 1,
+  itemCatalog: { id: `item-${id}`, ihmRelevant: true, hazardousMaterials: [] },
+  ihmDeclarations: [],
+  ...overrides,
+});
+
+const purchaseOrder = (overrides: any = {}) => ({
+  id: 'po-1',
+  poNumber: 'PO-2024-0042',
+  vendorId: 'vendor-1',
+  vesselId: 'vessel-1',
+  status: 'SENT',
+  vendor: { name: 'Hamburg Marine Parts' },
+  lineItems: [],
+  ...overrides,
+});
+
+describe('Inventory of Hazardous Materials', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.ihmDeclaration.create.mockImplementation(async ({ data }: any) => ({ id: 'decl-new', status: 'SUBMITTED', ...data }));
+  });
+
+  describe('submitDeclaration', () => {
+    it('should flag a Material Declaration that lists materials above threshold', async () => {
+      mockPrisma.pOLineItem.findUnique.mockResolvedValue({
+        id: 'line-1',
+        purchaseOrder: { id: 'po-1', poNumber: 'PO-2024-0042', vendorId: 'vendor-1', vesselId: 'vessel-1', status: 'DELIVERED' },
+      });
+
+      const result = await ihmService.submitDeclaration('line-1', {
+        type: 'MATERIAL_DECLARATION',
+        documentUrl: 'https://docs.example.com/md-117.pdf',
+        declarationNumber: 'MD-2024-117',
+        declarationDate: new Date('2024-05-20'),
+        declaredMaterials: [{ material: 'LEAD', mass: 0.35, unit: 'kg' }],
+      }, { vendorUserId: 'vendor-user-1', vendorId: 'vendor-1' });
+
+      expect(result).toMatchObject({ containsHazardousMaterials: true, submittedByVendorUserId: 'vendor-user-1' });
+      expect(mockPrisma.ihmDeclaration.create.mock.calls[0][0].data.declaredMaterials)
+        .toEqual([{ material: 'LEAD', mass: 0.35, unit: 'kg' }]);
+    });
+
+    it('should not let a vendor declare against another vendor\'s order', async () => {
+      mockPrisma.pOLineItem.findUnique.mockResolvedValue({
+        id: 'line-1',
+        purchaseOrder: { id: 'po-1', poNumber: 'PO-2024-0042', vendorId: 'vendor-2', vesselId: 'vessel-1', status: 'SENT' },
+      });
+
+      await expect(ihmService.submitDeclaration('line-1', {
+        type: 'SUPPLIER_DOC',
+        documentUrl: 'https://docs.example.com/sdoc.pdf',
+        declarationDate: new Date('2024-05-20'),
+      }, { vendorUserId: 'vendor-user-1', vendorId: 'vendor-1' })).rejects.toMatchObject({ errorCode: 'PO_LINE_NOT_FOUND' });
+      expect(mockPrisma.ihmDeclaration.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject materials that are not on the HKC / EU SRR lists', async () => {
+      mockPrisma.pOLineItem.findUnique.mockResolvedValue({
+        id: 'line-1',
+        purchaseOrder: { id: 'po-1', poNumber: 'PO-2024-0042', vendorId: 'vendor-1', vesselId: 'vessel-1', status: 'SENT' },
+      });
+
+      await expect(ihmService.submitDeclaration('line-1', {
+        type: 'MATERIAL_DECLARATION',
+        documentUrl: 'https://docs.example.com/md.pdf',
+        declarationDate: new Date('2024-05-20'),
+        declaredMaterials: [{ material: 'ZINC' as any, mass: 1, unit: 'kg' }],
+      }, { userId: 'buyer-1' })).rejects.toMatchObject({ errorCode: 'INVALID_HAZARDOUS_MATERIAL' });
+    });
+  });
+
+  describe('getVesselReport', () => {
+    it('should list missing declarations on closing orders first and hazardous items still to enter the IHM', async () => {
+      mockPrisma.purchaseOrder.findMany.mockResolvedValue([
+        purchaseOrder({
+          lineItems: [
+            line('gasket', { ihmDeclarations: [declaration({ type: 'SUPPLIER_DOC', status: 'SUBMITTED' })] }),
+            line('rope', { itemCatalog: { id: 'item-rope', ihmRelevant: false, hazardousMaterials: [] } }),
+          ],
+        }),
+        purchaseOrder({
+          id: 'po-2',
+          poNumber: 'PO-2024-0051',
+          status: 'DELIVERED',
+          lineItems: [
+            line('battery', {
+              quantity: 4,
+              itemCatalog: { id: 'item-battery', ihmRelevant: false, hazardousMaterials: ['LEAD'] },
+              ihmDeclarations: [
+                declaration({ id: 'decl-battery', containsHazardousMaterials: true, declaredMaterials: [{ material: 'LEAD', mass: 12, unit: 'kg' }] }),
+                declaration({ id: 'decl-sdoc', type: 'SUPPLIER_DOC' }),
+              ],
+            }),
+            line('cable'),
+          ],
+        }),
+        purchaseOrder({
+          id: 'po-3',
+          poNumber: 'PO-2024-0060',
+          status: 'PAID',
+          lineItems: [line('lamp', {
+            ihmDeclarations: [declaration({ id: 'decl-lamp', containsHazardousMaterials: true, ihmRecordedAt: new Date() })],
+          })],
+        }),
+      ]);
+
+      const report = await ihmService.getVesselReport('vessel-1');
+
+      expect(report.purchaseOrders.map(po => po.poNumber)).toEqual(['PO-2024-0051', 'PO-2024-0042']);
+      expect(report.purchaseOrders[0]).toMatchObject({ closing: true, complete: false });
+      expect(report.purchaseOrders[0].lines.find(entry => entry.poLineItemId === 'cable'))
+        .toMatchObject({ missing: ['MATERIAL_DECLARATION', 'SUPPLIER_DOC'] });
+      expect(report.purchaseOrders[1].lines).toEqual([
+        expect.objectContaining({ poLineItemId: 'gasket', supplierDoc: 'PENDING_REVIEW', missing: ['MATERIAL_DECLARATION'] }),
+      ]);
+      expect(report.pendingIhmUpdates).toEqual([
+        expect.objectContaining({ declarationId: 'decl-battery', poNumber: 'PO-2024-0051', quantity: 4 }),
+      ]);
+      expect(report.summary).toMatchObject({
+        linesRequiringDeclarations: 3,
+        complete: 1,
+        missing: 2,
+        closingWithMissing: 1,
+        pendingIhmUpdates: 1,
+      });
+    });
+  });
+
+  describe('recordInIhm', () => {
+    it('should only record accepted declarations that list hazardous materials', async () => {
+      mockPrisma.ihmDeclaration.findUnique.mockResolvedValue({
+        ...declaration({ status: 'SUBMITTED', containsHazardousMaterials: true }),
+        poLineItem: { purchaseOrder: { vesselId: 'vessel-1', poNumber: 'PO-2024-0042' } },
+      });
+
+      await expect(ihmService.recordInIhm('decl-1', 'superintendent-1'))
+        .rejects.toMatchObject({ errorCode: 'IHM_NOT_APPLICABLE' });
+      expect(mockPrisma.ihmDeclaration.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { inventoryService } from '../services/inventoryService';
+import { AppError } from '../utils/errors';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    inventoryItem: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    inventoryTransaction: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  InventoryTransactionType: {
+    RECEIPT: 'RECEIPT',
+    ISSUE: 'ISSUE',
+    CONSUMPTION: 'CONSUMPTION',
+    ADJUSTMENT: 'ADJUSTMENT',
+    STOCK_COUNT: 'STOCK_COUNT',
+  },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+describe('InventoryService', () => {
+  const mockItem = {
+    id: 'inv-1',
+    vesselId: 'vessel-1',
+    itemCatalogId: 'item-1',
+    currentStock: 10,
+    minStock: 2,
+    maxStock: 20,
+    reorderPoint: 5,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+  });
+
+  describe('recordIssue', () => {
+    it('should decrement stock and write a ledger entry', async () => {
+      mockPrisma.inventoryItem.findUnique.mockResolvedValue(mockItem);
+      mockPrisma.inventoryItem.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.inventoryItem.findUniqueOrThrow.mockResolvedValue({ ...mockItem, currentStock: 7 });
+      mockPrisma.inventoryTransaction.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'txn-1', ...data }));
+
+      const result = await inventoryService.recordIssue({
+        vesselId: 'vessel-1',
+        itemCatalogId: 'item-1',
+        quantity: 3,
+        type: 'CONSUMPTION',
+        reference: 'WO-123',
+      }, 'user-1');
+
+      expect(mockPrisma.inventoryItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'inv-1', currentStock: { gte: 3 } },
+        data: expect.objectContaining({ currentStock: { increment: -3 } }),
+      });
+      expect(result.type).toBe('CONSUMPTION');
+      expect(result.quantity).toBe(-3);
+      expect(result.balanceAfter).toBe(7);
+    });
+
+    it('should reject issues larger than stock on board', async () => {
+      mockPrisma.inventoryItem.findUnique.mockResolvedValue(mockItem);
+      mockPrisma.inventoryItem.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.inventoryItem.findUniqueOrThrow.mockResolvedValue(mockItem);
+
+      await expect(
+        inventoryService.recordIssue({
+          vesselId: 'vessel-1',
+          itemCatalogId: 'item-1',
+          quantity: 11,
+          type: 'ISSUE',
+        }, 'user-1')
+      ).rejects.toThrow(AppError);
+      expect(mockPrisma.inventoryTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should not overdraw stock taken by a concurrent issue', async () => {
+      mockPrisma.inventoryItem.findUnique.mockResolvedValue(mockItem);
+      mockPrisma.inventoryItem.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.inventoryItem.findUniqueOrThrow.mockResolvedValue({ ...mockItem, currentStock: 2 });
+
+      await expect(
+        inventoryService.recordIssue({
+          vesselId: 'vessel-1',
+          itemCatalogId: 'item-1',
+          quantity: 5,
+          type: 'ISSUE',
+        }, 'user-1')
+      ).rejects.toMatchObject({ errorCode: 'INSUFFICIENT_STOCK', message: 'Insufficient stock: 2 on board, 5 requested' });
+      expect(mockPrisma.inventoryTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordStockCount', () => {
+    it('should post the variance between counted and booked stock', async () => {
+      mockPrisma.inventoryItem.upsert.mockResolvedValue(mockItem);
+      mockPrisma.inventoryItem.update.mockResolvedValue({ ...mockItem, currentStock: 8 });
+      mockPrisma.inventoryTransaction.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'txn-2', ...data }));
+
+      const result = await inventoryService.recordStockCount({
+        vesselId: 'vessel-1',
+        itemCatalogId: 'item-1',
+        countedQuantity: 8,
+      }, 'user-1');
+
+      expect(result.type).toBe('STOCK_COUNT');
+      expect(result.quantity).toBe(-2);
+      expect(result.balanceAfter).toBe(8);
+      expect(mockPrisma.inventoryItem.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { lastCountedAt: expect.any(Date) },
+      }));
+    });
+  });
+
+  describe('postDeliveryReceipt', () => {
+    it('should receive each delivered line into inventory', async () => {
+      mockPrisma.inventoryItem.upsert.mockResolvedValue(mockItem);
+      mockPrisma.inventoryItem.update.mockResolvedValue({ ...mockItem, currentStock: 14 });
+      mockPrisma.inventoryTransaction.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'txn-3', ...data }));
+
+      const result = await inventoryService.postDeliveryReceipt('delivery-1', 'vessel-1', [
+        { itemCatalogId: 'item-1', quantity: 4, unitCost: 12.5 },
+        { itemCatalogId: 'item-2', quantity: 0 },
+      ], 'user-1');
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ type: 'RECEIPT', quantity: 4, deliveryId: 'delivery-1' });
+    });
+
+    it('should skip the ledger when nothing was received', async () => {
+      const result = await inventoryService.postDeliveryReceipt('delivery-1', 'vessel-1', [], 'user-1');
+
+      expect(result).toEqual([]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStockLevelStatus', () => {
+    it('should classify stock against min, reorder and max levels', () => {
+      expect(inventoryService.getStockLevelStatus({ ...mockItem, currentStock: 1 }).status).toBe('CRITICAL');
+      expect(inventoryService.getStockLevelStatus({ ...mockItem, currentStock: 4 }).status).toBe('REORDER');
+      expect(inventoryService.getStockLevelStatus({ ...mockItem, currentStock: 25 }).status).toBe('OVERSTOCK');
+      expect(inventoryService.getStockLevelStatus(mockItem).status).toBe('OK');
+    });
+  });
+});
@@ -66,7 +66,8 @@ describe('Invoice Processing Service', () => {
             }
           ]
         }
-      }
+      },
+      include: { lineItems: true }
     });
 
     testDelivery = await prisma.delivery.create({
@@ -75,7 +76,13 @@ describe('Invoice Processing Service', () => {
         purchaseOrderId: testPurchaseOrder.id,
         status: 'DELIVERED',
         actualDate: new Date(),
-        receivedBy: 'Test Receiver'
+        receivedBy: 'Test Receiver',
+        lines: {
+          create: testPurchaseOrder.lineItems.map((line: any) => ({
+            poLineItemId: line.id,
+            receivedQuantity: line.quantity
+          }))
+        }
       }
     });
   });
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { itemCatalogService } from '../services/itemCatalogService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    itemCatalog: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+    },
+    itemPartReference: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    itemEquivalenceGroup: {
+      create: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+const item = (id: string, overrides: any = {}) => ({
+  id,
+  name: `Item ${id}`,
+  impaCode: null,
+  issaCode: null,
+  unitOfMeasure: 'piece',
+  equivalenceGroupId: null,
+  supersededById: null,
+  supersededAt: null,
+  supersessionNote: null,
+  ...overrides,
+});
+
+// Fuel injector nozzle superseded twice by the maker: A -> B -> C
+const catalog: Record<string, any> = {
+  'item-a': item('item-a', { name: 'Fuel injector nozzle (old)', supersededById: 'item-b' }),
+  'item-b': item('item-b', { name: 'Fuel injector nozzle (interim)', supersededById: 'item-c' }),
+  'item-c': item('item-c', { name: 'Fuel injector nozzle', impaCode: '811501' }),
+};
+
+describe('Item part numbers, equivalents and supersession', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.itemCatalog.findUnique.mockImplementation(async ({ where }: any) => catalog[where.id] ?? null);
+  });
+
+  describe('searchItems', () => {
+    it('should match maker part numbers regardless of formatting and flag superseded results', async () => {
+      mockPrisma.itemCatalog.findMany.mockResolvedValue([{ ...catalog['item-a'], makerReferences: [] }]);
+      mockPrisma.itemCatalog.count.mockResolvedValue(1);
+
+      const result = await itemCatalogService.searchItems({ search: '2-3456.789 a' });
+
+      const { where } = mockPrisma.itemCatalog.findMany.mock.calls[0][0];
+      expect(where.OR).toContainEqual({
+        makerReferences: { some: { normalisedPartNumber: { startsWith: '23456789A' } } },
+      });
+      expect(result.items[0].currentReplacement).toMatchObject({ id: 'item-c', impaCode: '811501' });
+    });
+  });
+
+  describe('getItemByPartNumber', () => {
+    it('should resolve a maker part number to its catalogue item', async () => {
+      mockPrisma.itemPartReference.findMany.mockResolvedValue([{ itemCatalogId: 'item-c' }]);
+
+      const result = await itemCatalogService.getItemByPartNumber('2 3456 789 C', 'MAN Energy Solutions');
+
+      expect(mockPrisma.itemPartReference.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { normalisedPartNumber: '23456789C', maker: { equals: 'MAN Energy Solutions', mode: 'insensitive' } },
+      }));
+      expect(result).toMatchObject({ id: 'item-c', currentReplacement: null });
+    });
+
+    it('should not guess when the same number belongs to different parts from different makers', async () => {
+      mockPrisma.itemPartReference.findMany.mockResolvedValue([{ itemCatalogId: 'item-b' }, { itemCatalogId: 'item-c' }]);
+
+      expect(await itemCatalogService.getItemByPartNumber('1001')).toBeNull();
+    });
+  });
+
+  describe('addPartReference', () => {
+    it('should refuse a part number already referenced by another item', async () => {
+      mockPrisma.itemPartReference.findUnique.mockResolvedValue({
+        itemCatalogId: 'item-b',
+        itemCatalog: { id: 'item-b', name: 'Fuel injector nozzle (interim)' },
+      });
+
+      await expect(itemCatalogService.addPartReference('item-c', { maker: 'MAN Energy Solutions', partNumber: '2-3456.789B' }))
+        .rejects.toThrow('already referenced by item Fuel injector nozzle (interim)');
+      expect(mockPrisma.itemPartReference.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('supersedeItem', () => {
+    it('should refuse a supersession that would close a loop', async () => {
+      await expect(itemCatalogService.supersedeItem('item-c', 'item-a', 'Reverted by maker'))
+        .rejects.toThrow('supersession cannot be circular');
+      expect(mockPrisma.itemCatalog.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createEquivalenceGroup', () => {
+    it('should only group items ordered in the same unit', async () => {
+      mockPrisma.itemCatalog.findMany.mockResolvedValue([
+        item('item-x', { unitOfMeasure: 'litre' }),
+        item('item-y', { unitOfMeasure: 'drum' }),
+      ]);
+
+      await expect(itemCatalogService.createEquivalenceGroup({ name: 'System oil SAE 30', itemIds: ['item-x', 'item-y'] }))
+        .rejects.toThrow('must share a unit of measure');
+      expect(mockPrisma.itemEquivalenceGroup.create).not.toHaveBeenCalled();
+    });
+  });
+});
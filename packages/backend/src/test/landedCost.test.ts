@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { landedCostService } from '../services/landedCostService';
+import { quoteComparisonService } from '../services/quoteComparisonService';
+import { portDatabaseIntegrationService } from '../services/portDatabaseIntegrationService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    rFQ: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    quote: {
+      update: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/portDatabaseIntegrationService', () => ({
+  portDatabaseIntegrationService: {
+    getPortDetails: vi.fn(),
+    getCustomsRequirements: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+const rfq = (overrides: any = {}) => ({
+  id: 'rfq-1',
+  title: 'Main engine spares',
+  currency: 'USD',
+  status: 'RESPONSES_RECEIVED',
+  isSealed: false,
+  unsealedAt: null,
+  deliveryLocation: 'Rotterdam, Netherlands',
+  deliveryPortCode: 'NLRTM',
+  deliveryDate: null,
+  landedCostAssumptions: null,
+  requisition: {
+    deliveryLocation: 'Rotterdam, Netherlands',
+    vessel: { flag: 'MT' },
+    items: [],
+  },
+  ...overrides,
+});
+
+const quote = (id: string, vendorId: string, totalAmount: number, vendor: any) => ({
+  id,
+  vendorId,
+  totalAmount,
+  currency: 'USD',
+  deliveryDate: null,
+  notes: null,
+  vendor: { name: vendorId, qualityRating: 7, serviceAreas: [], portCapabilities: [], ...vendor },
+  lineItems: [],
+});
+
+// Local chandler with a delivery launch at Rotterdam versus a cheaper overseas supplier
+const localQuote = quote('quote-local', 'vendor-local', 10000, {
+  country: 'Netherlands',
+  portCapabilities: [{ portCode: 'NLRTM', capabilities: ['delivery', 'customs'] }],
+});
+const overseasQuote = quote('quote-overseas', 'vendor-overseas', 9500, { country: 'Singapore' });
+
+describe('Landed-cost comparison', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(portDatabaseIntegrationService.getPortDetails).mockResolvedValue({
+      portCode: 'NLRTM',
+      country: 'Netherlands',
+      countryCode: 'NL',
+    } as any);
+    vi.mocked(portDatabaseIntegrationService.getCustomsRequirements).mockResolvedValue([
+      { documentType: 'COMMERCIAL_INVOICE', required: true, deadline: new Date(), authority: 'Dutch Customs' },
+      { documentType: 'SHIPS_STORES_DECLARATION', required: true, deadline: new Date(), authority: 'Dutch Customs' },
+      { documentType: 'CERTIFICATE_OF_ORIGIN', required: false, deadline: new Date(), authority: 'Dutch Customs' },
+    ]);
+  });
+
+  describe('calculateLandedCosts', () => {
+    it('should add freight, duty, clearance and agency fees for a vendor shipping across a border', async () => {
+      const costs = await landedCostService.calculateLandedCosts(rfq(), [localQuote, overseasQuote]);
+
+      expect(portDatabaseIntegrationService.getCustomsRequirements).toHaveBeenCalledWith('NLRTM', 'MT', 'SHIP_SPARES');
+      expect(costs.get('quote-overseas')).toMatchObject({
+        goods: 9500,
+        freight: 760,
+        duty: 475,
+        customsClearance: 150,
+        agencyFees: 400,
+        total: 11285,
+        crossBorder: true,
+        customsDocuments: ['COMMERCIAL_INVOICE', 'SHIPS_STORES_DECLARATION'],
+      });
+      expect(costs.get('quote-local')).toMatchObject({
+        freight: 200,
+        duty: 0,
+        customsClearance: 0,
+        agencyFees: 0,
+        total: 10200,
+        crossBorder: false,
+      });
+    });
+
+    it('should apply buyer overrides in place of the estimates', async () => {
+      const costs = await landedCostService.calculateLandedCosts(rfq({
+        landedCostAssumptions: {
+          dutyRatePercent: 0,
+          vendorOverrides: { 'vendor-overseas': { freight: 0 } },
+        },
+      }), [overseasQuote]);
+
+      expect(costs.get('quote-overseas')).toMatchObject({ freight: 0, duty: 0, total: 10050 });
+      expect(costs.get('quote-overseas')!.notes).toContain('Buyer overrides applied: freight');
+    });
+
+    it('should still cost quotes when the customs service is unavailable', async () => {
+      vi.mocked(portDatabaseIntegrationService.getCustomsRequirements).mockRejectedValue(new Error('Customs API error'));
+
+      const costs = await landedCostService.calculateLandedCosts(rfq(), [overseasQuote]);
+
+      expect(costs.get('quote-overseas')).toMatchObject({ customsClearance: 0, crossBorder: true });
+      expect(costs.get('quote-overseas')!.notes).toContain('Customs requirements unavailable; clearance fees not included');
+    });
+  });
+
+  describe('scoreAndCompareQuotes', () => {
+    it('should score price on landed cost rather than the quoted total', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(rfq({ quotes: [localQuote, overseasQuote] }));
+
+      const report = await quoteComparisonService.scoreAndCompareQuotes('rfq-1');
+
+      const local = report.scoredQuotes.find(entry => entry.quoteId === 'quote-local')!;
+      const overseas = report.scoredQuotes.find(entry => entry.quoteId === 'quote-overseas')!;
+      expect(local.scores.priceScore).toBe(10);
+      expect(overseas.scores.priceScore).toBe(0);
+      expect(mockPrisma.quote.update).toHaveBeenCalledWith({
+        where: { id: 'quote-overseas' },
+        data: expect.objectContaining({ landedCost: 11285 }),
+      });
+      expect(report.comparisonMatrix.map(row => row.criteria)).toContain('Landed Cost');
+      expect(report.landedCostAssumptions.agencyFee).toBe(400);
+    });
+  });
+
+  describe('updateAssumptions', () => {
+    it('should refuse to change assumptions once the RFQ is awarded', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue({ ...rfq({ status: 'AWARDED' }), requisition: { vesselId: 'vessel-1' } });
+
+      await expect(landedCostService.updateAssumptions('rfq-1', { agencyFee: 250 }, 'buyer-1'))
+        .rejects.toMatchObject({ errorCode: 'INVALID_RFQ_STATUS' });
+      expect(mockPrisma.rFQ.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { maintenancePlanningService } from '../services/maintenancePlanningService';
+import { requisitionService } from '../services/requisitionService';
+import { itemCatalogService } from '../services/itemCatalogService';
+import { vesselManagementIntegrationService } from '../services/vesselManagementIntegrationService';
+import { exchangeRateIntegrationService } from '../services/exchangeRateIntegrationService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    vessel: {
+      findUnique: vi.fn(),
+    },
+    maintenanceJob: {
+      upsert: vi.fn(),
+      update: vi.fn(),
+    },
+    itemCatalog: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    inventoryItem: {
+      findMany: vi.fn(),
+    },
+    portCall: {
+      findMany: vi.fn(),
+    },
+    vendorPortCapability: {
+      findMany: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/requisitionService', () => ({
+  requisitionService: {
+    createRequisition: vi.fn(),
+  },
+}));
+
+const now = new Date('2024-06-01T00:00:00Z');
+const days = (count: number) => new Date(now.getTime() + count * 24 * 60 * 60 * 1000);
+
+const catalog: Record<string, any> = {
+  'liner': { id: 'liner', name: 'Cylinder liner', impaCode: null, issaCode: null, leadTime: 30, averagePrice: 4000, averagePriceCurrency: 'EUR', supersededById: null },
+  'ring-old': { id: 'ring-old', name: 'Piston ring set (old)', impaCode: null, issaCode: null, leadTime: 10, averagePrice: 450, averagePriceCurrency: 'EUR', supersededById: 'ring' },
+  'ring': { id: 'ring', name: 'Piston ring set', impaCode: null, issaCode: null, leadTime: 30, averagePrice: 500, averagePriceCurrency: 'EUR', supersededById: null },
+  'gasket': { id: 'gasket', name: 'Jointing sheet', impaCode: '351101', issaCode: null, leadTime: null, averagePrice: 20, averagePriceCurrency: 'EUR', supersededById: null },
+};
+
+const job = (overrides: any = {}) => ({
+  vesselId: 'vessel-1',
+  scheduleId: 'WO-1001',
+  maintenanceType: 'PLANNED',
+  equipment: 'Main engine unit 3',
+  description: 'Cylinder unit overhaul',
+  scheduledDate: days(60),
+  estimatedDuration: 48,
+  requiredParts: [],
+  partRequirements: [],
+  assignedCrew: [],
+  status: 'SCHEDULED',
+  priority: 'HIGH',
+  ...overrides,
+});
+
+describe('Planned maintenance requisitions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.vessel.findUnique.mockResolvedValue({ id: 'vessel-1', maintenanceSystemId: 'amos' });
+    mockPrisma.maintenanceJob.upsert.mockImplementation(async ({ where }: any) => ({
+      id: `job-${where.systemId_scheduleId.scheduleId}`,
+      requisitions: [],
+    }));
+    mockPrisma.itemCatalog.findFirst.mockImplementation(async ({ where }: any) =>
+      Object.values(catalog).find(item => item.impaCode === where.OR[0].impaCode) ?? null);
+    mockPrisma.itemCatalog.findUnique.mockImplementation(async ({ where }: any) => catalog[where.id] ?? null);
+    mockPrisma.inventoryItem.findMany.mockResolvedValue([]);
+    mockPrisma.portCall.findMany.mockResolvedValue([
+      { id: 'call-rtm', vesselId: 'vessel-1', portCode: 'NLRTM', portName: 'Rotterdam', status: 'PLANNED', eta: days(20), etd: days(21), berthWindowStart: null, berthWindowEnd: null },
+      { id: 'call-gdn', vesselId: 'vessel-1', portCode: 'PLGDN', portName: 'Gdansk', status: 'PLANNED', eta: days(50), etd: days(51), berthWindowStart: null, berthWindowEnd: null },
+    ]);
+    mockPrisma.vendorPortCapability.findMany.mockResolvedValue([
+      { vendorId: 'vendor-1', portCode: 'NLRTM', capabilities: ['delivery'] },
+      { vendorId: 'vendor-1', portCode: 'PLGDN', capabilities: ['delivery'] },
+    ]);
+    vi.spyOn(itemCatalogService, 'getItemByPartNumber').mockImplementation(async (partNumber: string) =>
+      ({ '2345678': catalog['liner'], '2345690': catalog['ring-old'] } as any)[partNumber] ?? null);
+    vi.spyOn(itemCatalogService, 'resolveCurrentItem').mockImplementation(async (id: string) =>
+      id === 'ring-old' ? catalog['ring'] : catalog[id]);
+    vi.mocked(requisitionService.createRequisition).mockResolvedValue({ id: 'req-1', requisitionNumber: 'REQ-2024-0001', status: 'DRAFT' } as any);
+  });
+
+  it('should wait to draft until the lead time only just reaches the last port call before the job', async () => {
+    vi.spyOn(vesselManagementIntegrationService, 'getMaintenanceSchedule').mockResolvedValue([job({
+      partRequirements: [{ partNumber: '2345678', maker: 'MAN Energy Solutions', quantity: 2 }],
+    })] as any);
+
+    const plan = await maintenancePlanningService.draftDueRequisitions('vessel-1', 'chief-1', undefined, now);
+
+    // 30 days lead time + 7 days for approval and RFQ, back from sailing from Gdansk on day 51
+    expect(plan.jobs[0]).toMatchObject({ status: 'NOT_YET_DUE', leadTimeDays: 30, draftOn: days(14) });
+    expect(requisitionService.createRequisition).not.toHaveBeenCalled();
+  });
+
+  it('should draft the shortfall linked to the job and deliver at the first call the parts can make', async () => {
+    vi.spyOn(vesselManagementIntegrationService, 'getMaintenanceSchedule').mockResolvedValue([job({
+      partRequirements: [
+        { partNumber: '2345678', maker: 'MAN Energy Solutions', quantity: 2 },
+        { partNumber: '2345690', maker: 'MAN Energy Solutions', quantity: 6 },
+      ],
+    })] as any);
+    mockPrisma.inventoryItem.findMany.mockResolvedValue([
+      { itemCatalogId: 'liner', currentStock: 2, minStock: 1 },     // One liner kept back as safety stock
+      { itemCatalogId: 'ring-old', currentStock: 2, minStock: null }, // Superseded rings still fit
+    ]);
+
+    const plan = await maintenancePlanningService.draftDueRequisitions('vessel-1', 'chief-1', undefined, days(14));
+
+    expect(plan.jobs[0]).toMatchObject({
+      status: 'DRAFTED',
+      requisitionId: 'req-1',
+      deliveryPortCall: { portCall: { id: 'call-gdn' } },
+      onBoardInTime: true,
+    });
+    expect(plan.jobs[0].lines).toEqual([
+      expect.objectContaining({ itemCatalogId: 'liner', required: 2, fromStock: 1, shortfall: 1 }),
+      expect.objectContaining({ itemCatalogId: 'ring', replacesItemId: 'ring-old', required: 6, fromStock: 2, shortfall: 4 }),
+    ]);
+    expect(requisitionService.createRequisition).toHaveBeenCalledWith(expect.objectContaining({
+      vesselId: 'vessel-1',
+      maintenanceJobId: 'job-WO-1001',
+      urgencyLevel: 'ROUTINE',
+      deliveryLocation: 'Gdansk (PLGDN)',
+      deliveryDate: days(51),
+      totalAmount: 6000,
+      currency: 'EUR',
+      items: [
+        expect.objectContaining({ itemCatalogId: 'liner', quantity: 1 }),
+        expect.objectContaining({ itemCatalogId: 'ring', quantity: 4 }),
+      ],
+    }), 'chief-1');
+    // Maker part numbers are never looked up as IMPA/ISSA codes
+    expect(mockPrisma.itemCatalog.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('should price parts bought in another currency in the requisition currency', async () => {
+    vi.spyOn(vesselManagementIntegrationService, 'getMaintenanceSchedule').mockResolvedValue([job({
+      partRequirements: [
+        { partNumber: '2345678', maker: 'MAN Energy Solutions', quantity: 2 },
+        { partNumber: '2345690', maker: 'MAN Energy Solutions', quantity: 6 },
+      ],
+    })] as any);
+    mockPrisma.itemCatalog.findUnique.mockImplementation(async ({ where }: any) =>
+      where.id === 'ring' ? { ...catalog['ring'], averagePrice: 550, averagePriceCurrency: 'USD' } : catalog[where.id] ?? null);
+    vi.spyOn(exchangeRateIntegrationService, 'convertCurrency').mockResolvedValue({ convertedAmount: 500 } as any);
+
+    await maintenancePlanningService.draftDueRequisitions('vessel-1', 'chief-1', undefined, days(14));
+
+    expect(exchangeRateIntegrationService.convertCurrency).toHaveBeenCalledWith(550, 'USD', 'EUR');
+    expect(requisitionService.createRequisition).toHaveBeenCalledWith(expect.objectContaining({
+      totalAmount: 11000,
+      currency: 'EUR',
+      items: [
+        expect.objectContaining({ itemCatalogId: 'liner', quantity: 2, unitPrice: 4000 }),
+        expect.objectContaining({ itemCatalogId: 'ring', quantity: 6, unitPrice: 500 }),
+      ],
+    }), 'chief-1');
+  });
+
+  it('should share stock between jobs in date order and not re-draft a job already requisitioned', async () => {
+    vi.spyOn(vesselManagementIntegrationService, 'getMaintenanceSchedule').mockResolvedValue([
+      job({ scheduleId: 'WO-1002', scheduledDate: days(40), partRequirements: [{ partNumber: 'JS-3', impaCode: '351101', quantity: 4 }] }),
+      job({ scheduleId: 'WO-1001', scheduledDate: days(10), partRequirements: [{ partNumber: 'JS-3', impaCode: '351101', quantity: 4 }] }),
+      job({ scheduleId: 'WO-1003', scheduledDate: days(45), partRequirements: [{ partNumber: 'JS-3', impaCode: '351101', quantity: 1 }] }),
+    ] as any);
+    mockPrisma.inventoryItem.findMany.mockResolvedValue([{ itemCatalogId: 'gasket', currentStock: 5, minStock: 0 }]);
+    mockPrisma.maintenanceJob.upsert.mockImplementation(async ({ where }: any) => ({
+      id: `job-${where.systemId_scheduleId.scheduleId}`,
+      requisitions: where.systemId_scheduleId.scheduleId === 'WO-1003' ? [{ id: 'req-open', status: 'SUBMITTED' }] : [],
+    }));
+
+    const plan = await maintenancePlanningService.getMaintenancePlan('vessel-1', undefined, now);
+
+    expect(plan.jobs.map(planned => [planned.scheduleId, planned.status])).toEqual([
+      ['WO-1001', 'STOCK_ON_BOARD'],
+      ['WO-1002', 'DRAFT_DUE'],
+      ['WO-1003', 'REQUISITIONED'],
+    ]);
+    expect(plan.jobs[1].lines[0]).toMatchObject({ fromStock: 1, shortfall: 3, leadTimeDays: 14 });
+    expect(plan.jobs[2].requisitionId).toBe('req-open');
+  });
+
+  it('should report parts that are not in the catalogue', async () => {
+    vi.spyOn(vesselManagementIntegrationService, 'getMaintenanceSchedule').mockResolvedValue([job({
+      partRequirements: [{ partNumber: 'XK-99', maker: 'Alfa Laval', quantity: 1 }],
+    })] as any);
+
+    const plan = await maintenancePlanningService.getMaintenancePlan('vessel-1', undefined, now);
+
+    expect(plan.jobs[0]).toMatchObject({ status: 'UNMAPPED', lines: [] });
+    expect(plan.jobs[0].warnings).toContain('Part XK-99 (Alfa Laval) is not in the item catalogue');
+  });
+
+  it('should refuse a vessel that is not linked to a planned maintenance system', async () => {
+    mockPrisma.vessel.findUnique.mockResolvedValue({ id: 'vessel-1', maintenanceSystemId: null });
+
+    await expect(maintenancePlanningService.getMaintenancePlan('vessel-1'))
+      .rejects.toMatchObject({ errorCode: 'MAINTENANCE_SYSTEM_NOT_CONFIGURED' });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { deliveryService } from '../services/deliveryService';
+import { AppError } from '../utils/errors';
+
+const { mockPrisma, mockInventoryService } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    delivery: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    deliveryLine: {
+      createMany: vi.fn(),
+    },
+    purchaseOrder: {
+      update: vi.fn(),
+    },
+    pOLineItem: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  const mockInventoryService = {
+    postDeliveryReceipt: vi.fn(),
+  };
+  return { mockPrisma, mockInventoryService };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  DeliveryStatus: {
+    SCHEDULED: 'SCHEDULED',
+    IN_TRANSIT: 'IN_TRANSIT',
+    DELIVERED: 'DELIVERED',
+    DELAYED: 'DELAYED',
+    CANCELLED: 'CANCELLED',
+  },
+}));
+
+vi.mock('../services/auditService', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/inventoryService', () => ({
+  inventoryService: mockInventoryService,
+}));
+
+type DeliveryLineFixture = { receivedQuantity: number; damagedQuantity: number; shortQuantity: number };
+
+describe('Partial deliveries', () => {
+  const lineItems = [
+    { id: 'line-1', itemCatalogId: 'item-1', itemDescription: 'Oil Filter', quantity: 10, unitPrice: 50, currency: 'USD', deliveryLines: [] as DeliveryLineFixture[] },
+    { id: 'line-2', itemCatalogId: 'item-2', itemDescription: 'Gasket', quantity: 4, unitPrice: 20, currency: 'USD', deliveryLines: [] as DeliveryLineFixture[] },
+  ];
+
+  const mockDelivery = (lines = lineItems) => ({
+    id: 'delivery-1',
+    deliveryNumber: 'DEL-202401-0001',
+    purchaseOrderId: 'po-1',
+    status: 'IN_TRANSIT',
+    notes: null,
+    purchaseOrder: {
+      id: 'po-1',
+      poNumber: 'PO-202401-0001',
+      vesselId: 'vessel-1',
+      vendorId: 'vendor-1',
+      lineItems: lines,
+    },
+  });
+
+  const confirmation = {
+    deliveryId: 'delivery-1',
+    receivedBy: 'Chief Officer',
+    actualDate: new Date('2024-02-15'),
+    photoUrls: ['photo1.jpg'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.delivery.update.mockResolvedValue({ id: 'delivery-1', status: 'DELIVERED' });
+  });
+
+  it('should keep the PO in progress when lines are short', async () => {
+    mockPrisma.delivery.findUnique.mockResolvedValue(mockDelivery());
+
+    await deliveryService.confirmDelivery({
+      ...confirmation,
+      lines: [
+        { poLineItemId: 'line-1', receivedQuantity: 8, damagedQuantity: 1 },
+        { poLineItemId: 'line-2', receivedQuantity: 4 },
+      ],
+    }, 'user-1');
+
+    expect(mockPrisma.deliveryLine.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ poLineItemId: 'line-1', receivedQuantity: 8, damagedQuantity: 1, shortQuantity: 1 }),
+        expect.objectContaining({ poLineItemId: 'line-2', receivedQuantity: 4, damagedQuantity: 0, shortQuantity: 0 }),
+      ],
+    });
+    expect(mockPrisma.purchaseOrder.update).toHaveBeenCalledWith({
+      where: { id: 'po-1' },
+      data: { status: 'IN_PROGRESS' },
+    });
+    expect(mockInventoryService.postDeliveryReceipt).toHaveBeenCalledWith(
+      'delivery-1',
+      'vessel-1',
+      [
+        { itemCatalogId: 'item-1', quantity: 8, unitCost: 50, currency: 'USD' },
+        { itemCatalogId: 'item-2', quantity: 4, unitCost: 20, currency: 'USD' },
+      ],
+      'user-1',
+      mockPrisma
+    );
+  });
+
+  it('should mark the PO delivered once the remaining quantity arrives', async () => {
+    mockPrisma.delivery.findUnique.mockResolvedValue(mockDelivery([
+      { ...lineItems[0], deliveryLines: [{ receivedQuantity: 8, damagedQuantity: 1, shortQuantity: 1 }] },
+      { ...lineItems[1], deliveryLines: [{ receivedQuantity: 4, damagedQuantity: 0, shortQuantity: 0 }] },
+    ]));
+
+    await deliveryService.confirmDelivery(confirmation, 'user-1');
+
+    expect(mockPrisma.deliveryLine.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ poLineItemId: 'line-1', receivedQuantity: 2 })],
+    });
+    expect(mockPrisma.purchaseOrder.update).toHaveBeenCalledWith({
+      where: { id: 'po-1' },
+      data: { status: 'DELIVERED' },
+    });
+  });
+
+  it('should reject quantities above what is outstanding', async () => {
+    mockPrisma.delivery.findUnique.mockResolvedValue(mockDelivery());
+
+    await expect(
+      deliveryService.confirmDelivery({
+        ...confirmation,
+        lines: [{ poLineItemId: 'line-2', receivedQuantity: 5 }],
+      }, 'user-1')
+    ).rejects.toThrow(AppError);
+    expect(mockPrisma.delivery.update).not.toHaveBeenCalled();
+  });
+
+  it('should report outstanding quantities per PO line', async () => {
+    mockPrisma.pOLineItem.findMany.mockResolvedValue([
+      { ...lineItems[0], deliveryLines: [{ receivedQuantity: 8, damagedQuantity: 1, shortQuantity: 1 }] },
+      lineItems[1],
+    ]);
+
+    const status = await deliveryService.getPurchaseOrderReceiptStatus('po-1');
+
+    expect(status[0]).toMatchObject({ receivedQuantity: 8, damagedQuantity: 1, outstandingQuantity: 2, isFullyReceived: false });
+    expect(status[1]).toMatchObject({ receivedQuantity: 0, outstandingQuantity: 4, isFullyReceived: false });
+  });
+
+  it('should count stock sent back on a return as outstanding again', async () => {
+    mockPrisma.pOLineItem.findMany.mockResolvedValue([
+      { ...lineItems[0], deliveryLines: [{ receivedQuantity: 10, damagedQuantity: 0, shortQuantity: 0, returnedQuantity: 3 }] },
+    ]);
+
+    const status = await deliveryService.getPurchaseOrderReceiptStatus('po-1');
+
+    expect(status[0]).toMatchObject({ receivedQuantity: 7, outstandingQuantity: 3, isFullyReceived: false });
+  });
+});
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { poAmendmentService } from '../services/poAmendmentService';
+import { DocumentVersionService } from '../services/documentVersionService';
+import { emailService } from '../services/emailService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    purchaseOrder: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    pOAmendment: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    pOLineItem: {
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  POAmendmentStatus: {
+    PENDING_APPROVAL: 'PENDING_APPROVAL',
+    REJECTED: 'REJECTED',
+    ISSUED: 'ISSUED',
+    ACKNOWLEDGED: 'ACKNOWLEDGED',
+  },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/documentVersionService', () => ({
+  DocumentVersionService: {
+    getLatestVersion: vi.fn(),
+    createDocumentVersion: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+const purchaseOrder = (overrides: any = {}) => ({
+  id: 'po-1',
+  poNumber: 'PO-2024-0042',
+  vendorId: 'vendor-1',
+  vesselId: 'vessel-1',
+  status: 'ACKNOWLEDGED',
+  revision: 1,
+  totalAmount: 20000,
+  currency: 'USD',
+  exchangeRate: 1,
+  deliveryDate: new Date('2024-07-01'),
+  acknowledgedAt: new Date('2024-06-01'),
+  vendor: { id: 'vendor-1', name: 'Piraeus Marine Supply', email: 'orders@pms.gr', contactEmail: null, contactPersonName: null },
+  lineItems: [
+    { id: 'line-1', itemCatalogId: 'item-1', itemDescription: 'Cylinder liner', quantity: 4, unitPrice: 4000, totalPrice: 16000, specifications: null, deliveryLines: [] },
+    { id: 'line-2', itemCatalogId: 'item-2', itemDescription: 'Piston ring set', quantity: 8, unitPrice: 500, totalPrice: 4000, specifications: null, deliveryLines: [{ receivedQuantity: 5 }] },
+  ],
+  ...overrides,
+});
+
+describe('Purchase order amendments', () => {
+  let stored: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stored = null;
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder());
+    mockPrisma.purchaseOrder.update.mockImplementation(async ({ data }: any) => ({ ...purchaseOrder(), ...data }));
+    mockPrisma.pOAmendment.findFirst.mockResolvedValue(null);
+    mockPrisma.pOAmendment.create.mockImplementation(async ({ data }: any) => {
+      stored = { id: 'amendment-1', revision: null, ...data };
+      return stored;
+    });
+    mockPrisma.pOAmendment.findUnique.mockImplementation(async () => stored);
+    mockPrisma.pOAmendment.update.mockImplementation(async ({ data }: any) => {
+      stored = { ...stored, ...data };
+      return stored;
+    });
+    mockPrisma.pOAmendment.updateMany.mockImplementation(async ({ data }: any) => {
+      stored = { ...stored, ...data };
+      return { count: 1 };
+    });
+    vi.mocked(DocumentVersionService.getLatestVersion).mockResolvedValue(null);
+    vi.mocked(DocumentVersionService.createDocumentVersion).mockImplementation(async (data: any) => ({ id: `version-${data.metadata.revision}`, ...data }));
+  });
+
+  describe('createAmendment', () => {
+    it('should issue a price reduction straight away as a new revision awaiting vendor acknowledgement', async () => {
+      const amendment = await poAmendmentService.createAmendment('po-1', {
+        reason: 'Negotiated discount on liners',
+        lineChanges: [{ action: 'UPDATE', poLineItemId: 'line-1', unitPrice: 3800 }],
+        deliveryDate: new Date('2024-07-10'),
+      }, 'buyer-1');
+
+      expect(amendment).toMatchObject({
+        status: 'ISSUED',
+        revision: 2,
+        requiresApproval: false,
+        previousTotal: 20000,
+        newTotal: 19200,
+        documentVersionId: 'version-2',
+      });
+      expect(amendment.lineChanges).toEqual([expect.objectContaining({
+        action: 'UPDATE',
+        poLineItemId: 'line-1',
+        before: expect.objectContaining({ unitPrice: 4000, totalPrice: 16000 }),
+        after: expect.objectContaining({ unitPrice: 3800, totalPrice: 15200 }),
+        valueChange: -800,
+      })]);
+      expect(mockPrisma.pOLineItem.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { quantity: 4, unitPrice: 3800, totalPrice: 15200, specifications: null },
+      });
+      expect(mockPrisma.purchaseOrder.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ revision: 2, totalAmount: 19200, acknowledgedAt: null, acknowledgedById: null }),
+      }));
+
+      // Original issue and the amended revision are both versioned
+      const versions = vi.mocked(DocumentVersionService.createDocumentVersion).mock.calls.map(([data]) => data);
+      expect(versions.map(version => version.documentId)).toEqual(['purchase_order:po-1', 'purchase_order:po-1']);
+      expect(versions.map(version => version.metadata!.revision)).toEqual([1, 2]);
+      expect(JSON.parse(versions[1].content!)).toMatchObject({ revision: 2, totalAmount: 19200 });
+      expect(emailService.sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'orders@pms.gr',
+        subject: 'Purchase Order PO-2024-0042 amended (revision 2)',
+      }));
+    });
+
+    it('should hold a value increase above the threshold for re-approval without touching the PO', async () => {
+      const amendment = await poAmendmentService.createAmendment('po-1', {
+        reason: 'Two additional liners for the sister cylinder',
+        lineChanges: [{ action: 'UPDATE', poLineItemId: 'line-1', quantity: 6 }],
+      }, 'buyer-1');
+
+      expect(amendment).toMatchObject({ status: 'PENDING_APPROVAL', requiresApproval: true, newTotal: 28000 });
+      expect(mockPrisma.pOLineItem.update).not.toHaveBeenCalled();
+      expect(mockPrisma.purchaseOrder.update).not.toHaveBeenCalled();
+      expect(emailService.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to order less than has already been received', async () => {
+      await expect(poAmendmentService.createAmendment('po-1', {
+        reason: 'Reduce ring sets',
+        lineChanges: [{ action: 'UPDATE', poLineItemId: 'line-2', quantity: 4 }],
+      }, 'buyer-1')).rejects.toMatchObject({ errorCode: 'QUANTITY_BELOW_RECEIVED' });
+      expect(mockPrisma.pOAmendment.create).not.toHaveBeenCalled();
+    });
+
+    it('should close an amendment that could not be issued so it does not block the next one', async () => {
+      mockPrisma.$transaction.mockRejectedValueOnce(new Error('Deadlock detected'));
+
+      await expect(poAmendmentService.createAmendment('po-1', {
+        reason: 'Later delivery',
+        deliveryDate: new Date('2024-07-20'),
+      }, 'buyer-1')).rejects.toMatchObject({ errorCode: 'PO_AMENDMENT_CREATE_FAILED' });
+      expect(mockPrisma.pOAmendment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'amendment-1', status: 'PENDING_APPROVAL' },
+        data: { status: 'REJECTED', reviewComments: 'Could not be issued: Deadlock detected' },
+      });
+    });
+
+    it('should refuse a second amendment while one awaits approval', async () => {
+      mockPrisma.pOAmendment.findFirst.mockResolvedValueOnce({ amendmentNumber: 1, status: 'PENDING_APPROVAL' });
+
+      await expect(poAmendmentService.createAmendment('po-1', {
+        reason: 'Later delivery',
+        deliveryDate: new Date('2024-07-20'),
+      }, 'buyer-1')).rejects.toMatchObject({ errorCode: 'AMENDMENT_PENDING' });
+    });
+  });
+
+  describe('approveAmendment', () => {
+    it('should issue the held amendment once approved', async () => {
+      stored = {
+        id: 'amendment-1',
+        purchaseOrderId: 'po-1',
+        amendmentNumber: 1,
+        revision: null,
+        status: 'PENDING_APPROVAL',
+        reason: 'Additional liners',
+        lineChanges: [{
+          action: 'ADD',
+          itemCatalogId: 'item-1',
+          itemDescription: 'Cylinder liner',
+          after: { quantity: 2, unitPrice: 4000, totalPrice: 8000, specifications: null },
+          valueChange: 8000,
+        }],
+        previousTotal: 20000,
+        newTotal: 28000,
+        newDeliveryDate: null,
+        requiresApproval: true,
+        purchaseOrder: { poNumber: 'PO-2024-0042', vesselId: 'vessel-1' },
+      };
+      mockPrisma.pOLineItem.create.mockResolvedValue({ id: 'line-3' });
+
+      const amendment = await poAmendmentService.approveAmendment('amendment-1', 'manager-1', 'Budget confirmed');
+
+      expect(amendment).toMatchObject({ status: 'ISSUED', revision: 2, reviewedById: 'manager-1' });
+      expect(amendment.lineChanges).toEqual([expect.objectContaining({ action: 'ADD', poLineItemId: 'line-3' })]);
+      expect(mockPrisma.pOLineItem.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ purchaseOrderId: 'po-1', quantity: 2, unitPrice: 4000, totalPrice: 8000 }),
+      });
+    });
+
+    it('should not apply an amendment a concurrent approval has already issued', async () => {
+      stored = {
+        id: 'amendment-1',
+        purchaseOrderId: 'po-1',
+        amendmentNumber: 1,
+        revision: null,
+        status: 'PENDING_APPROVAL',
+        reason: 'Later delivery',
+        lineChanges: null,
+        previousTotal: 20000,
+        newTotal: 20000,
+        newDeliveryDate: new Date('2024-07-20'),
+        requiresApproval: true,
+        purchaseOrder: { poNumber: 'PO-2024-0042', vesselId: 'vessel-1' },
+      };
+      mockPrisma.pOAmendment.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(poAmendmentService.approveAmendment('amendment-1', 'manager-1'))
+        .rejects.toMatchObject({ errorCode: 'INVALID_AMENDMENT_STATUS' });
+      expect(mockPrisma.purchaseOrder.update).not.toHaveBeenCalled();
+      expect(emailService.sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acknowledgeAmendment', () => {
+    const actor = { vendorUserId: 'vendor-user-1', vendorId: 'vendor-1' };
+
+    it('should refuse to acknowledge a revision that has since been superseded', async () => {
+      mockPrisma.pOAmendment.findUnique.mockResolvedValue({
+        id: 'amendment-1',
+        purchaseOrderId: 'po-1',
+        amendmentNumber: 1,
+        revision: 2,
+        status: 'ISSUED',
+        purchaseOrder: purchaseOrder({ revision: 3 }),
+      });
+
+      await expect(poAmendmentService.acknowledgeAmendment('po-1', 'amendment-1', actor))
+        .rejects.toMatchObject({ errorCode: 'AMENDMENT_SUPERSEDED' });
+    });
+
+    it('should record the vendor acceptance of the latest revision on the PO', async () => {
+      mockPrisma.pOAmendment.findUnique.mockResolvedValue({
+        id: 'amendment-2',
+        purchaseOrderId: 'po-1',
+        amendmentNumber: 2,
+        revision: 3,
+        status: 'ISSUED',
+        purchaseOrder: purchaseOrder({ revision: 3, status: 'SENT', acknowledgedAt: null }),
+      });
+      mockPrisma.pOAmendment.update.mockImplementation(async ({ data }: any) => ({ id: 'amendment-2', ...data }));
+
+      const amendment = await poAmendmentService.acknowledgeAmendment('po-1', 'amendment-2', actor, 'Will ship from stock');
+
+      expect(amendment).toMatchObject({ status: 'ACKNOWLEDGED', acknowledgedById: 'vendor-user-1', vendorNotes: 'Will ship from stock' });
+      expect(mockPrisma.pOAmendment.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { purchaseOrderId: 'po-1', status: 'ISSUED', amendmentNumber: { lt: 2 } },
+      }));
+      expect(mockPrisma.purchaseOrder.update).toHaveBeenCalledWith({
+        where: { id: 'po-1' },
+        data: expect.objectContaining({ status: 'ACKNOWLEDGED', acknowledgedById: 'vendor-user-1' }),
+      });
+    });
+  });
+});
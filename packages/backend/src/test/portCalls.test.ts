@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { portCallService } from '../services/portCallService';
+import { aisGpsIntegrationService } from '../services/aisGpsIntegrationService';
+import { portDatabaseIntegrationService } from '../services/portDatabaseIntegrationService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    vessel: {
+      findUnique: vi.fn(),
+    },
+    portCall: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    delivery: {
+      findMany: vi.fn(),
+    },
+    rFQ: {
+      findMany: vi.fn(),
+    },
+    vendorPortCapability: {
+      findMany: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+const now = new Date('2024-06-01T00:00:00Z');
+const days = (count: number) => new Date(now.getTime() + count * 24 * 60 * 60 * 1000);
+
+const portCall = (overrides: any = {}) => ({
+  id: 'call-rtm',
+  vesselId: 'vessel-1',
+  portCode: 'NLRTM',
+  portName: 'Rotterdam',
+  status: 'PLANNED',
+  source: 'MANUAL',
+  eta: days(5),
+  etd: days(6),
+  berthWindowStart: null,
+  berthWindowEnd: null,
+  previousEta: null,
+  etaRevisedAt: null,
+  latitude: 51.95,
+  longitude: 4.14,
+  ...overrides,
+});
+
+describe('Port call schedule', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+    mockPrisma.vessel.findUnique.mockResolvedValue({ id: 'vessel-1', imoNumber: '9321483' });
+    mockPrisma.portCall.update.mockImplementation(async ({ data }: any) => ({ ...portCall(), ...data }));
+    mockPrisma.portCall.create.mockImplementation(async ({ data }: any) => ({ id: 'call-new', status: 'PLANNED', ...data }));
+    mockPrisma.delivery.findMany.mockResolvedValue([]);
+    mockPrisma.rFQ.findMany.mockResolvedValue([]);
+    vi.spyOn(portDatabaseIntegrationService, 'getPortDetails').mockResolvedValue(null);
+  });
+
+  describe('syncFromVoyage', () => {
+    it('should revise the ETA of the next call and flag deliveries planned for the old one', async () => {
+      mockPrisma.portCall.findFirst.mockResolvedValue(portCall());
+      mockPrisma.portCall.findUnique.mockResolvedValue(portCall());
+      mockPrisma.delivery.findMany.mockResolvedValue([{
+        id: 'delivery-1',
+        deliveryNumber: 'DEL-2024-000042',
+        scheduledDate: days(5),
+        portCall: portCall({ eta: days(9), etd: days(10) }),
+      }]);
+
+      const warnings = await portCallService.syncFromVoyage('vessel-1', { destination: 'Rotterdam NLRTM', eta: days(9) }, 'user-1');
+
+      expect(mockPrisma.portCall.update).toHaveBeenCalledWith({
+        where: { id: 'call-rtm' },
+        data: expect.objectContaining({ eta: days(9), etd: days(10), previousEta: days(5), source: 'VOYAGE_UPDATE' }),
+      });
+      expect(warnings).toEqual([expect.objectContaining({
+        type: 'DELIVERY',
+        reference: 'DEL-2024-000042',
+        portCode: 'NLRTM',
+        message: expect.stringContaining('vessel is now due at Rotterdam'),
+      })]);
+    });
+
+    it('should add a call for a destination not yet on the schedule', async () => {
+      mockPrisma.portCall.findFirst.mockResolvedValue(null);
+
+      await portCallService.syncFromVoyage('vessel-1', { destination: 'Singapore (SGSIN)', eta: days(20) }, 'user-1');
+
+      expect(mockPrisma.portCall.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ portCode: 'SGSIN', portName: 'Singapore', eta: days(20), source: 'VOYAGE_UPDATE' }),
+      });
+    });
+  });
+
+  describe('syncFromPosition', () => {
+    it('should re-estimate the ETA from the AIS position when the vessel is running late', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+      // 240 nm out at 10 knots: 24 hours to go, against a recorded ETA 5 days away
+      vi.spyOn(aisGpsIntegrationService, 'getBestAvailablePosition').mockResolvedValue({
+        vesselId: 'vessel-1', imoNumber: '9321483', latitude: 47.95, longitude: 4.14,
+        course: 0, speed: 10, heading: 0, timestamp: now, source: 'AIS',
+      });
+      mockPrisma.portCall.findMany.mockResolvedValue([portCall()]);
+      mockPrisma.portCall.findUnique.mockResolvedValue(portCall());
+
+      const result = await portCallService.syncFromPosition('vessel-1');
+
+      expect(result.action).toBe('ETA_REVISED');
+      const { data } = mockPrisma.portCall.update.mock.calls[0][0];
+      expect(data.source).toBe('AIS');
+      expect(Math.abs(data.eta.getTime() - days(1).getTime())).toBeLessThan(15 * 60 * 1000);
+    });
+
+    it('should record the arrival when the vessel is stopped at the port', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+      vi.spyOn(aisGpsIntegrationService, 'getBestAvailablePosition').mockResolvedValue({
+        vesselId: 'vessel-1', imoNumber: '9321483', latitude: 51.951, longitude: 4.141,
+        course: 0, speed: 0.2, heading: 0, timestamp: now, source: 'AIS',
+      });
+      mockPrisma.portCall.findMany.mockResolvedValue([portCall()]);
+      mockPrisma.portCall.findUnique.mockResolvedValue(portCall());
+
+      const result = await portCallService.syncFromPosition('vessel-1');
+
+      expect(result.action).toBe('ARRIVED');
+      expect(mockPrisma.portCall.update).toHaveBeenCalledWith({
+        where: { id: 'call-rtm' },
+        data: expect.objectContaining({ status: 'ARRIVED', ata: now }),
+      });
+    });
+  });
+
+  describe('suggestPortCall', () => {
+    it('should recommend the first call a vendor serves that the goods can still make', async () => {
+      mockPrisma.portCall.findMany.mockResolvedValue([
+        portCall(), // Goods are not ready before the vessel sails
+        portCall({ id: 'call-ham', portCode: 'DEHAM', portName: 'Hamburg', eta: days(12), etd: days(13) }), // Not served
+        portCall({ id: 'call-gdn', portCode: 'PLGDN', portName: 'Gdansk', eta: days(16), etd: days(17), berthWindowStart: days(16), berthWindowEnd: days(16.5) }),
+      ]);
+      mockPrisma.vendorPortCapability.findMany.mockResolvedValue([
+        { vendorId: 'vendor-1', portCode: 'NLRTM', capabilities: ['delivery'] },
+        { vendorId: 'vendor-1', portCode: 'DEHAM', capabilities: ['warehousing'] },
+        { vendorId: 'vendor-1', portCode: 'PLGDN', capabilities: ['Delivery', 'customs'] },
+      ]);
+
+      const result = await portCallService.suggestPortCall({ vesselId: 'vessel-1', vendorIds: ['vendor-1'], leadTimeDays: 10 }, now);
+
+      expect(result.recommended).toMatchObject({
+        portCall: { id: 'call-gdn' },
+        coveringVendorIds: ['vendor-1'],
+        plannedDeliveryDate: days(16),
+        feasible: true,
+      });
+      const rotterdam = result.candidates.find(candidate => candidate.portCall.id === 'call-rtm');
+      expect(rotterdam).toMatchObject({ feasible: false });
+      expect(rotterdam!.reasons[0]).toContain('after the vessel sails');
+      expect(result.candidates.find(candidate => candidate.portCall.id === 'call-ham')!.reasons)
+        .toContain('No vendor delivers to Hamburg (DEHAM)');
+    });
+  });
+
+  describe('getOpenPortCallForVessel', () => {
+    it('should not plan a delivery against another vessel\'s call', async () => {
+      mockPrisma.portCall.findUnique.mockResolvedValue(portCall({ vesselId: 'vessel-2' }));
+
+      await expect(portCallService.getOpenPortCallForVessel('call-rtm', 'vessel-1'))
+        .rejects.toMatchObject({ errorCode: 'PORT_CALL_VESSEL_MISMATCH' });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { purchaseOrderDocumentService } from '../services/purchaseOrderDocumentService';
+import { DocumentVersionService } from '../services/documentVersionService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    purchaseOrder: {
+      findUnique: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/documentVersionService', () => ({
+  DocumentVersionService: {
+    getDocumentVersionHistory: vi.fn(),
+    createDocumentVersion: vi.fn(),
+  },
+}));
+
+const purchaseOrder = (overrides: any = {}) => ({
+  id: 'po-1',
+  poNumber: 'PO-2024-0042',
+  vendorId: 'vendor-1',
+  vesselId: 'vessel-1',
+  status: 'SENT',
+  revision: 1,
+  totalAmount: 20000,
+  currency: 'EUR',
+  deliveryDate: new Date('2024-07-01'),
+  deliveryAddress: 'M/V Nordic Star (IMO: 9321483)\nPort of Rotterdam',
+  deliveryTerms: 'Delivery to vessel at berth or anchorage as directed by Master/Chief Engineer',
+  paymentTerms: 'Net 30 days from delivery confirmation',
+  notes: 'MARITIME PURCHASE ORDER',
+  vendor: { id: 'vendor-1', name: 'Hamburg Marine Parts', address: 'Am Sandtorkai 1', city: 'Hamburg', postalCode: '20457', country: 'Germany', email: 'sales@hmp.de' },
+  vessel: { id: 'vessel-1', name: 'Nordic Star', imoNumber: '9321483', flag: 'MT' },
+  lineItems: [
+    { itemDescription: 'Cylinder liner', quantity: 4, unitPrice: 4000, totalPrice: 16000, currency: 'EUR', specifications: 'MAN B&W 6S50MC' },
+    { itemDescription: 'Piston ring set', quantity: 8, unitPrice: 500, totalPrice: 4000, currency: 'EUR', specifications: null },
+  ],
+  ...overrides,
+});
+
+describe('Signed purchase order documents', () => {
+  let versions: any[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.DOCUMENT_SIGNING_SECRET = 'test-signing-secret';
+    versions = [];
+    mockPrisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder());
+    vi.mocked(DocumentVersionService.getDocumentVersionHistory).mockImplementation(async () => versions);
+    vi.mocked(DocumentVersionService.createDocumentVersion).mockImplementation(async (data: any) => {
+      const version = { id: `version-${versions.length + 1}`, createdAt: new Date(), ...data };
+      versions.unshift(version);
+      return version;
+    });
+  });
+
+  it('should issue a signed PDF once per revision and keep its checksum', async () => {
+    const document = await purchaseOrderDocumentService.getDocument('po-1', 'buyer-1');
+
+    expect(document.pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(document).toMatchObject({ fileName: 'PO-2024-0042-rev1.pdf', revision: 1 });
+    expect(document.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(DocumentVersionService.createDocumentVersion).toHaveBeenCalledWith(expect.objectContaining({
+      documentId: 'purchase_order_pdf:po-1',
+      mimeType: 'application/pdf',
+      checksum: createHash('sha256').update(document.pdf).digest('hex'),
+      metadata: expect.objectContaining({ revision: 1, contentHash: document.contentHash }),
+    }));
+
+    // Vendors collect the same bytes the buyer issued
+    const vendorCopy = await purchaseOrderDocumentService.getDocument('po-1');
+    expect(vendorCopy.pdf.equals(document.pdf)).toBe(true);
+    expect(DocumentVersionService.createDocumentVersion).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let a vendor collect a revision the buyer has not issued', async () => {
+    await expect(purchaseOrderDocumentService.getDocument('po-1'))
+      .rejects.toMatchObject({ errorCode: 'PO_DOCUMENT_NOT_ISSUED' });
+  });
+
+  it('should verify an untouched copy and flag it once the order is amended', async () => {
+    const document = await purchaseOrderDocumentService.getDocument('po-1', 'buyer-1');
+
+    expect(await purchaseOrderDocumentService.verifyDocument('po-1', document.pdf)).toMatchObject({
+      status: 'VERIFIED',
+      revision: 1,
+      superseded: false,
+      contentHash: document.contentHash,
+    });
+
+    mockPrisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder({ revision: 2 }));
+    expect(await purchaseOrderDocumentService.verifyDocument('po-1', document.pdf)).toMatchObject({
+      status: 'VERIFIED',
+      currentRevision: 2,
+      superseded: true,
+    });
+  });
+
+  it('should detect an edited copy that still carries a genuine seal', async () => {
+    const document = await purchaseOrderDocumentService.getDocument('po-1', 'buyer-1');
+    const edited = Buffer.concat([document.pdf, Buffer.from('\n% edited\n')]);
+
+    expect(await purchaseOrderDocumentService.verifyDocument('po-1', edited)).toMatchObject({ status: 'ALTERED', revision: 1 });
+  });
+
+  it('should not recognise a forged seal', async () => {
+    const document = await purchaseOrderDocumentService.getDocument('po-1', 'buyer-1');
+    process.env.DOCUMENT_SIGNING_SECRET = 'another-secret';
+
+    expect(await purchaseOrderDocumentService.verifyDocument('po-1', document.pdf)).toMatchObject({ status: 'UNRECOGNISED' });
+  });
+});
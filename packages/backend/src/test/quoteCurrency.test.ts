@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { quoteCurrencyService } from '../services/quoteCurrencyService';
+import { quoteComparisonService } from '../services/quoteComparisonService';
+import { exchangeRateIntegrationService } from '../services/exchangeRateIntegrationService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    rFQ: {
+      findUnique: vi.fn(),
+    },
+    quote: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+vi.mock('../services/exchangeRateIntegrationService', () => ({
+  exchangeRateIntegrationService: {
+    getHistoricalRates: vi.fn(),
+    getExchangeRate: vi.fn(),
+  },
+}));
+
+// Landed cost equal to the normalised goods value keeps these tests about FX alone
+vi.mock('../services/landedCostService', () => ({
+  landedCostService: {
+    calculateLandedCosts: vi.fn(async (_rfq: any, quotes: any[]) => new Map(quotes.map(quote => [
+      quote.id,
+      { goods: quote.totalAmount, freight: 0, duty: 0, customsClearance: 0, agencyFees: 0, total: quote.totalAmount, crossBorder: false, customsDocuments: [], notes: [] },
+    ]))),
+    getAssumptions: vi.fn(() => ({})),
+  },
+}));
+
+const submittedAt = new Date('2024-06-08T10:00:00Z');
+
+const quote = (overrides: any = {}) => ({
+  id: 'quote-eur',
+  vendorId: 'vendor-eur',
+  totalAmount: 9000,
+  currency: 'EUR',
+  submittedAt,
+  createdAt: submittedAt,
+  exchangeRate: null,
+  exchangeRateDate: null,
+  exchangeRateSource: null,
+  deliveryDate: null,
+  notes: null,
+  vendor: { name: 'Hamburg Marine Parts', qualityRating: 7 },
+  lineItems: [],
+  ...overrides,
+});
+
+const historicalRate = (date: string, rate: number) => ({ date: new Date(date), rate, high: rate, low: rate, open: rate, close: rate });
+
+describe('Currency-normalised quote comparison', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(exchangeRateIntegrationService.getHistoricalRates).mockResolvedValue([
+      historicalRate('2024-06-07', 1.1),
+      historicalRate('2024-06-05', 1.08),
+      historicalRate('2024-06-10', 1.12),
+    ]);
+  });
+
+  describe('getQuoteRates', () => {
+    it('should use the last published rate before submission and fix it on the quote', async () => {
+      const rates = await quoteCurrencyService.getQuoteRates('USD', [
+        quote(),
+        quote({ id: 'quote-usd', currency: 'USD' }),
+      ]);
+
+      expect(rates.get('quote-eur')).toEqual({
+        fromCurrency: 'EUR',
+        toCurrency: 'USD',
+        rate: 1.1,
+        rateDate: new Date('2024-06-07'),
+        source: 'HISTORICAL',
+      });
+      expect(rates.get('quote-usd')).toMatchObject({ rate: 1, source: 'PARITY' });
+      expect(exchangeRateIntegrationService.getHistoricalRates).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.quote.update).toHaveBeenCalledWith({
+        where: { id: 'quote-eur' },
+        data: { exchangeRate: 1.1, exchangeRateDate: new Date('2024-06-07'), exchangeRateSource: 'HISTORICAL' },
+      });
+    });
+
+    it('should reuse the rate already fixed on the quote', async () => {
+      const rates = await quoteCurrencyService.getQuoteRates('USD', [
+        quote({ exchangeRate: 1.09, exchangeRateDate: new Date('2024-06-07'), exchangeRateSource: 'HISTORICAL' }),
+      ]);
+
+      expect(rates.get('quote-eur')!.rate).toBe(1.09);
+      expect(exchangeRateIntegrationService.getHistoricalRates).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the current rate without fixing it when history is unavailable', async () => {
+      vi.mocked(exchangeRateIntegrationService.getHistoricalRates).mockRejectedValue(new Error('No provider'));
+      vi.mocked(exchangeRateIntegrationService.getExchangeRate).mockResolvedValue({
+        baseCurrency: 'EUR',
+        targetCurrency: 'USD',
+        rate: 1.07,
+        timestamp: new Date('2024-06-20'),
+        provider: 'exchangerate_api',
+      });
+
+      const rates = await quoteCurrencyService.getQuoteRates('USD', [quote()]);
+
+      expect(rates.get('quote-eur')).toMatchObject({ rate: 1.07, source: 'CURRENT' });
+      expect(mockPrisma.quote.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to compare when no rate is available at all', async () => {
+      vi.mocked(exchangeRateIntegrationService.getHistoricalRates).mockResolvedValue([]);
+      vi.mocked(exchangeRateIntegrationService.getExchangeRate).mockRejectedValue(new Error('All providers failed'));
+
+      await expect(quoteCurrencyService.getQuoteRates('USD', [quote()]))
+        .rejects.toMatchObject({ errorCode: 'EXCHANGE_RATE_UNAVAILABLE' });
+    });
+  });
+
+  describe('normaliseQuote', () => {
+    it('should convert the total and every line item into the RFQ currency', () => {
+      const normalised = quoteCurrencyService.normaliseQuote(
+        quote({ lineItems: [{ id: 'line-1', unitPrice: 45, totalPrice: 9000, quantity: 200, currency: 'EUR' }] }),
+        { fromCurrency: 'EUR', toCurrency: 'USD', rate: 1.1, rateDate: new Date('2024-06-07'), source: 'HISTORICAL' }
+      );
+
+      expect(normalised).toMatchObject({ totalAmount: 9900, currency: 'USD' });
+      expect(normalised.lineItems[0]).toMatchObject({ unitPrice: 49.5, totalPrice: 9900, currency: 'USD' });
+    });
+  });
+
+  describe('scoreAndCompareQuotes', () => {
+    it('should rank quotes in the RFQ currency and show where a 5% FX move flips the ranking', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue({
+        id: 'rfq-1',
+        title: 'Purifier overhaul kit',
+        currency: 'USD',
+        isSealed: false,
+        unsealedAt: null,
+        deliveryLocation: null,
+        deliveryDate: null,
+        requisition: { deliveryLocation: null, vessel: { flag: 'LR' }, items: [] },
+        quotes: [
+          quote(),
+          quote({ id: 'quote-usd', vendorId: 'vendor-usd', currency: 'USD', totalAmount: 10000, vendor: { name: 'Houston Ship Supply', qualityRating: 7 } }),
+        ],
+      });
+
+      const report = await quoteComparisonService.scoreAndCompareQuotes('rfq-1');
+
+      expect(report.recommendedQuote).toMatchObject({
+        quoteId: 'quote-eur',
+        totalAmount: 9000,
+        currency: 'EUR',
+        normalisedAmount: 9900,
+        exchangeRate: expect.objectContaining({ rate: 1.1, source: 'HISTORICAL' }),
+      });
+      expect(report.comparisonMatrix.find(row => row.criteria === 'Amount in USD')).toMatchObject({ vendor_0: 'USD 9,900' });
+
+      const weaker = report.fxSensitivity.find(scenario => scenario.currency === 'EUR' && scenario.shiftPercent === -5)!;
+      const stronger = report.fxSensitivity.find(scenario => scenario.currency === 'EUR' && scenario.shiftPercent === 5)!;
+      expect(weaker).toMatchObject({ recommendedQuoteId: 'quote-eur', rankingChanged: false });
+      expect(stronger).toMatchObject({ recommendedQuoteId: 'quote-usd', rankingChanged: true });
+      expect(stronger.rankings.find(entry => entry.quoteId === 'quote-eur')!.landedCost).toBe(10395);
+    });
+  });
+
+  describe('getQuoteComparisonReport', () => {
+    it('should not show scored quotes on an RFQ that is still sealed', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue({ id: 'rfq-1', currency: 'USD', isSealed: true, unsealedAt: null });
+
+      await expect(quoteComparisonService.getQuoteComparisonReport('rfq-1')).rejects.toMatchObject({ errorCode: 'RFQ_SEALED' });
+      expect(mockPrisma.quote.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
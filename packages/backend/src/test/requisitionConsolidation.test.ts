@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { consolidationService } from '../services/consolidationService';
+import { rfqService } from '../services/rfqService';
+import { purchaseOrderService } from '../services/purchaseOrderService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    requisition: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    rFQ: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      count: vi.fn(),
+    },
+    rFQDeliverySplit: {
+      createMany: vi.fn(),
+    },
+    quote: {
+      findUnique: vi.fn(),
+    },
+    purchaseOrder: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      count: vi.fn(),
+    },
+    pOLineItem: {
+      createMany: vi.fn(),
+    },
+    exchangeRate: {
+      findFirst: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  POStatus: { DRAFT: 'DRAFT', SENT: 'SENT' },
+  ItemCategory: { ENGINE_PARTS: 'ENGINE_PARTS', CATERING: 'CATERING' },
+}));
+
+vi.mock('../services/auditService', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/vendorService', () => ({
+  vendorService: {},
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+vi.mock('../services/contractService', () => ({
+  contractService: {
+    findCoveringContract: vi.fn().mockResolvedValue(null),
+  },
+}));
+
+const filter = { name: 'Lube oil filter', category: 'ENGINE_PARTS', impaCode: '812401', unitOfMeasure: 'PCS' };
+const gasket = { name: 'Cylinder head gasket', category: 'ENGINE_PARTS', impaCode: '812455', unitOfMeasure: 'PCS' };
+const rice = { name: 'Rice 25kg', category: 'CATERING', impaCode: '000101', unitOfMeasure: 'BAG' };
+
+const requisition = (id: string, vesselId: string, deliveryDate: string, items: any[], overrides: any = {}) => ({
+  id,
+  requisitionNumber: `REQ-${id}`,
+  vesselId,
+  status: 'APPROVED',
+  currency: 'USD',
+  totalAmount: 500,
+  deliveryLocation: 'Rotterdam NLRTM',
+  deliveryDate: new Date(deliveryDate),
+  vessel: { id: vesselId, name: `MV ${vesselId}`, imoNumber: `IMO-${vesselId}` },
+  rfqs: [],
+  items: items.map(([itemCatalogId, itemCatalog, quantity]) => ({
+    id: `${id}-${itemCatalogId}`,
+    itemCatalogId,
+    itemCatalog,
+    quantity,
+  })),
+  ...overrides,
+});
+
+describe('Requisition consolidation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+  });
+
+  describe('getConsolidationCandidates', () => {
+    it('should group sister vessels ordering the same item at one port within the window', async () => {
+      mockPrisma.requisition.findMany.mockResolvedValue([
+        requisition('req-1', 'vessel-1', '2024-05-02', [['filter', filter, 6]]),
+        requisition('req-2', 'vessel-2', '2024-05-05', [['filter', filter, 4], ['gasket', gasket, 2]]),
+        requisition('req-3', 'vessel-3', '2024-05-06', [['gasket', gasket, 1]], { deliveryLocation: 'Singapore SGSIN' }),
+        requisition('req-4', 'vessel-4', '2024-05-30', [['filter', filter, 8]]),
+        requisition('req-5', 'vessel-5', '2024-05-03', [['filter', filter, 2], ['rice', rice, 10]]),
+      ]);
+
+      const groups = await consolidationService.getConsolidationCandidates();
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0]).toMatchObject({
+        category: 'ENGINE_PARTS',
+        portCode: 'NLRTM',
+        vesselCount: 2,
+        requisitionIds: ['req-1', 'req-2'],
+      });
+      expect(groups[0].items.map(item => [item.itemCatalogId, item.totalQuantity, item.sharedAcrossVessels])).toEqual([
+        ['filter', 10, true],
+        ['gasket', 2, false],
+      ]);
+      expect(groups[0].items[0].splits.map(split => [split.vesselId, split.quantity])).toEqual([
+        ['vessel-1', 6],
+        ['vessel-2', 4],
+      ]);
+    });
+
+    it('should not offer a group when only one vessel orders the shared items', async () => {
+      mockPrisma.requisition.findMany.mockResolvedValue([
+        requisition('req-1', 'vessel-1', '2024-05-02', [['filter', filter, 6]]),
+        requisition('req-2', 'vessel-1', '2024-05-04', [['filter', filter, 2]]),
+      ]);
+
+      const groups = await consolidationService.getConsolidationCandidates();
+
+      expect(groups).toEqual([]);
+    });
+  });
+
+  describe('createConsolidatedRFQ', () => {
+    it('should create one RFQ led by the earliest requisition with a split per requisition line', async () => {
+      mockPrisma.requisition.findMany.mockResolvedValue([
+        requisition('req-2', 'vessel-2', '2024-05-05', [['filter', filter, 4]]),
+        requisition('req-1', 'vessel-1', '2024-05-02', [['filter', filter, 6]]),
+      ]);
+      mockPrisma.rFQ.count.mockResolvedValue(0);
+      mockPrisma.rFQ.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'rfq-1', ...data }));
+
+      const rfq = await rfqService.createConsolidatedRFQ({
+        requisitionIds: ['req-1', 'req-2'],
+        title: 'Fleet lube oil filters',
+      }, 'buyer-1');
+
+      expect(rfq).toMatchObject({ requisitionId: 'req-1', isConsolidated: true, deliveryDate: new Date('2024-05-02') });
+      expect(mockPrisma.rFQDeliverySplit.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ requisitionId: 'req-2', vesselId: 'vessel-2', itemCatalogId: 'filter', quantity: 4 }),
+          expect.objectContaining({ requisitionId: 'req-1', vesselId: 'vessel-1', itemCatalogId: 'filter', quantity: 6 }),
+        ],
+      });
+      expect(mockPrisma.requisition.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['req-1', 'req-2'] } },
+        data: { status: 'CONVERTED_TO_RFQ' },
+      });
+    });
+
+    it('should refuse requisitions that are not approved', async () => {
+      mockPrisma.requisition.findMany.mockResolvedValue([
+        requisition('req-1', 'vessel-1', '2024-05-02', [['filter', filter, 6]]),
+        requisition('req-2', 'vessel-2', '2024-05-05', [['filter', filter, 4]], { status: 'PENDING_APPROVAL' }),
+      ]);
+
+      await expect(rfqService.createConsolidatedRFQ({
+        requisitionIds: ['req-1', 'req-2'],
+        title: 'Fleet lube oil filters',
+      }, 'buyer-1')).rejects.toMatchObject({ errorCode: 'REQUISITION_NOT_APPROVED' });
+      expect(mockPrisma.rFQ.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateConsolidatedPurchaseOrders', () => {
+    const split = (requisitionId: string, vesselId: string, itemCatalogId: string, quantity: number) => ({
+      requisitionId,
+      vesselId,
+      itemCatalogId,
+      quantity,
+      requisition: { id: requisitionId, requisitionNumber: `REQ-${requisitionId}`, deliveryLocation: 'Rotterdam NLRTM' },
+      vessel: { id: vesselId, name: `MV ${vesselId}`, imoNumber: `IMO-${vesselId}` },
+    });
+
+    const acceptedQuote = (overrides: any = {}) => ({
+      id: 'quote-1',
+      rfqId: 'rfq-1',
+      vendorId: 'vendor-1',
+      status: 'ACCEPTED',
+      currency: 'USD',
+      paymentTerms: 'Net 30',
+      deliveryDate: new Date('2024-05-01'),
+      rfq: {
+        rfqNumber: 'RFQ-2024-0009',
+        isConsolidated: true,
+        deliverySplits: [
+          split('req-1', 'vessel-1', 'filter', 6),
+          split('req-2', 'vessel-2', 'filter', 4),
+          split('req-2', 'vessel-2', 'gasket', 2),
+        ],
+      },
+      lineItems: [
+        { itemCatalogId: 'filter', unitPrice: 12.5, currency: 'USD', isAwarded: false, itemCatalog: filter },
+        { itemCatalogId: 'gasket', unitPrice: 40, currency: 'USD', isAwarded: false, itemCatalog: gasket },
+      ],
+      ...overrides,
+    });
+
+    it('should raise one PO per originating requisition at the quoted unit price', async () => {
+      mockPrisma.quote.findUnique.mockResolvedValue(acceptedQuote());
+      mockPrisma.purchaseOrder.findFirst.mockResolvedValue(null);
+      mockPrisma.purchaseOrder.count.mockResolvedValue(11);
+      mockPrisma.purchaseOrder.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: `po-${data.requisitionId}`, ...data })
+      );
+
+      const purchaseOrders = await purchaseOrderService.generateConsolidatedPurchaseOrders({
+        quoteId: 'quote-1',
+        approvedBy: 'buyer-1',
+      });
+
+      expect(purchaseOrders.map(po => [po.requisitionId, po.vesselId, po.totalAmount])).toEqual([
+        ['req-1', 'vessel-1', 75],
+        ['req-2', 'vessel-2', 130],
+      ]);
+      expect(purchaseOrders.map(po => po.poNumber.slice(-4))).toEqual(['0012', '0013']);
+      expect(mockPrisma.pOLineItem.createMany).toHaveBeenLastCalledWith({
+        data: [
+          expect.objectContaining({ purchaseOrderId: 'po-req-2', itemCatalogId: 'filter', quantity: 4, totalPrice: 50 }),
+          expect.objectContaining({ purchaseOrderId: 'po-req-2', itemCatalogId: 'gasket', quantity: 2, totalPrice: 80 }),
+        ],
+      });
+      expect(mockPrisma.requisition.update).toHaveBeenCalledWith({
+        where: { id: 'req-2' },
+        data: { status: 'CONVERTED_TO_PO' },
+      });
+    });
+
+    it('should only order the lines awarded to the vendor on a split award', async () => {
+      const quote = acceptedQuote();
+      quote.lineItems[1].isAwarded = true;
+      mockPrisma.quote.findUnique.mockResolvedValue(quote);
+      mockPrisma.purchaseOrder.findFirst.mockResolvedValue(null);
+      mockPrisma.purchaseOrder.count.mockResolvedValue(0);
+      mockPrisma.purchaseOrder.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: `po-${data.requisitionId}`, ...data })
+      );
+
+      const purchaseOrders = await purchaseOrderService.generateConsolidatedPurchaseOrders({
+        quoteId: 'quote-1',
+        approvedBy: 'buyer-1',
+      });
+
+      expect(purchaseOrders.map(po => [po.requisitionId, po.totalAmount])).toEqual([['req-2', 80]]);
+    });
+
+    it('should not convert a consolidated quote into a single purchase order', async () => {
+      mockPrisma.quote.findUnique.mockResolvedValue(acceptedQuote());
+
+      await expect(purchaseOrderService.generatePurchaseOrder({ quoteId: 'quote-1', approvedBy: 'buyer-1' }))
+        .rejects.toMatchObject({ errorCode: 'CONSOLIDATED_RFQ_QUOTE' });
+      expect(mockPrisma.purchaseOrder.create).not.toHaveBeenCalled();
+    });
+  });
+});
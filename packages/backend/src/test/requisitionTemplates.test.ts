@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { requisitionTemplateService } from '../services/requisitionTemplateService';
+import { requisitionService } from '../services/requisitionService';
+import { crewRotationService } from '../services/crewRotationService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    vessel: {
+      findUnique: vi.fn(),
+    },
+    requisitionTemplate: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    requisitionTemplateItem: {
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  RecurrenceUnit: { DAY: 'DAY', WEEK: 'WEEK', MONTH: 'MONTH' },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/requisitionService', () => ({
+  requisitionService: {
+    createRequisition: vi.fn(),
+  },
+}));
+
+vi.mock('../services/crewRotationService', () => ({
+  crewRotationService: {
+    getVesselCrewComplement: vi.fn(),
+  },
+}));
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+const template = (overrides: any = {}) => ({
+  id: 'template-1',
+  name: 'Monthly provisions',
+  vesselId: 'vessel-1',
+  createdById: 'captain-1',
+  urgencyLevel: 'ROUTINE',
+  currency: 'USD',
+  deliveryLocation: 'Rotterdam NLRTM',
+  justification: null,
+  recurrenceUnit: 'MONTH',
+  recurrenceInterval: 1,
+  nextDueDate: new Date('2024-06-05T00:00:00Z'),
+  leadTimeDays: 7,
+  baseCrewSize: 20,
+  isActive: true,
+  vessel: {
+    id: 'vessel-1',
+    crewComplement: 22,
+    currentDestination: null,
+    currentETA: null,
+  },
+  items: [
+    { itemCatalogId: 'rice', quantity: 100, unitPrice: 2, scaleWithCrew: true, notes: null, specifications: null, itemCatalog: { averagePrice: 2.4 } },
+    { itemCatalogId: 'lube-oil', quantity: 200, unitPrice: null, scaleWithCrew: false, notes: null, specifications: null, itemCatalog: { averagePrice: 3 } },
+  ],
+  ...overrides,
+});
+
+const crew = (counts: Record<string, number>) =>
+  Object.entries(counts).map(([role, currentCount]) => ({ vesselId: 'vessel-1', role, currentCount, requiredCount: 1, assignments: [] }));
+
+describe('Recurring requisition templates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.requisitionTemplate.updateMany.mockResolvedValue({ count: 1 });
+    vi.mocked(requisitionService.createRequisition).mockResolvedValue({
+      id: 'req-1',
+      requisitionNumber: 'MV -2024-0001',
+      status: 'DRAFT',
+    } as any);
+  });
+
+  describe('processDueTemplates', () => {
+    it('should draft a crew-scaled requisition for delivery at the next port call', async () => {
+      mockPrisma.requisitionTemplate.findMany.mockResolvedValue([template({
+        vessel: {
+          id: 'vessel-1',
+          crewComplement: 22,
+          currentDestination: 'Hamburg DEHAM',
+          currentETA: new Date('2024-06-03T00:00:00Z'),
+        },
+      })]);
+      vi.mocked(crewRotationService.getVesselCrewComplement).mockResolvedValue(
+        crew({ CAPTAIN: 1, CHIEF_ENGINEER: 1, VESSEL_CREW: 23, SUPERINTENDENT: 1 }) as any
+      );
+
+      const result = await requisitionTemplateService.processDueTemplates(now);
+
+      expect(result).toEqual({ drafted: 1, skipped: 0, failed: 0 });
+      expect(requisitionService.createRequisition).toHaveBeenCalledWith(expect.objectContaining({
+        vesselId: 'vessel-1',
+        templateId: 'template-1',
+        deliveryLocation: 'Hamburg DEHAM',
+        deliveryDate: new Date('2024-06-03T00:00:00Z'),
+        totalAmount: 850,
+        items: [
+          expect.objectContaining({ itemCatalogId: 'rice', quantity: 125, unitPrice: 2 }),
+          expect.objectContaining({ itemCatalogId: 'lube-oil', quantity: 200, unitPrice: 3 }),
+        ],
+      }), 'captain-1', mockPrisma);
+      expect(mockPrisma.requisitionTemplate.updateMany).toHaveBeenCalledWith({
+        where: { id: 'template-1', nextDueDate: new Date('2024-06-05T00:00:00Z') },
+        data: { nextDueDate: new Date('2024-07-05T00:00:00Z'), lastDraftedAt: now },
+      });
+    });
+
+    it('should wait until the delivery is within the lead time', async () => {
+      mockPrisma.requisitionTemplate.findMany.mockResolvedValue([template({
+        nextDueDate: new Date('2024-06-20T00:00:00Z'),
+      })]);
+      vi.mocked(crewRotationService.getVesselCrewComplement).mockResolvedValue(crew({ VESSEL_CREW: 20 }) as any);
+
+      const result = await requisitionTemplateService.processDueTemplates(now);
+
+      expect(result).toEqual({ drafted: 0, skipped: 1, failed: 0 });
+      expect(requisitionService.createRequisition).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the designed crew complement when nobody is assigned', async () => {
+      mockPrisma.requisitionTemplate.findMany.mockResolvedValue([template()]);
+      vi.mocked(crewRotationService.getVesselCrewComplement).mockResolvedValue(crew({ SUPERINTENDENT: 1 }) as any);
+
+      await requisitionTemplateService.processDueTemplates(now);
+
+      expect(requisitionService.createRequisition).toHaveBeenCalledWith(expect.objectContaining({
+        items: expect.arrayContaining([expect.objectContaining({ itemCatalogId: 'rice', quantity: 110 })]),
+      }), 'captain-1', mockPrisma);
+    });
+
+    it('should deliver a missed occurrence as soon as possible without back-filling cycles', async () => {
+      mockPrisma.requisitionTemplate.findMany.mockResolvedValue([template({
+        recurrenceUnit: 'WEEK',
+        nextDueDate: new Date('2024-05-10T00:00:00Z'),
+      })]);
+      vi.mocked(crewRotationService.getVesselCrewComplement).mockResolvedValue(crew({ VESSEL_CREW: 20 }) as any);
+
+      await requisitionTemplateService.processDueTemplates(now);
+
+      expect(requisitionService.createRequisition).toHaveBeenCalledTimes(1);
+      expect(requisitionService.createRequisition).toHaveBeenCalledWith(expect.objectContaining({
+        deliveryDate: new Date('2024-06-08T00:00:00Z'),
+      }), 'captain-1', mockPrisma);
+      expect(mockPrisma.requisitionTemplate.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ nextDueDate: new Date('2024-06-07T00:00:00Z') }),
+      }));
+    });
+
+    it('should count a failed draft and carry on with the other templates', async () => {
+      mockPrisma.requisitionTemplate.findMany.mockResolvedValue([template(), template({ id: 'template-2' })]);
+      vi.mocked(crewRotationService.getVesselCrewComplement).mockResolvedValue(crew({ VESSEL_CREW: 20 }) as any);
+      vi.mocked(requisitionService.createRequisition)
+        .mockRejectedValueOnce(new Error('Access denied to vessel'))
+        .mockResolvedValueOnce({ id: 'req-2', requisitionNumber: 'MV -2024-0002', status: 'DRAFT' } as any);
+
+      const result = await requisitionTemplateService.processDueTemplates(now);
+
+      expect(result).toEqual({ drafted: 1, skipped: 0, failed: 1 });
+      expect(mockPrisma.requisitionTemplate.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not draft an occurrence a concurrent run has already drafted', async () => {
+      mockPrisma.requisitionTemplate.findMany.mockResolvedValue([template()]);
+      vi.mocked(crewRotationService.getVesselCrewComplement).mockResolvedValue(crew({ VESSEL_CREW: 20 }) as any);
+      mockPrisma.requisitionTemplate.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await requisitionTemplateService.processDueTemplates(now);
+
+      expect(result).toEqual({ drafted: 0, skipped: 0, failed: 1 });
+    });
+  });
+
+  describe('createTemplate', () => {
+    it('should reject a template without items', async () => {
+      await expect(requisitionTemplateService.createTemplate({
+        name: 'Chemicals',
+        vesselId: 'vessel-1',
+        recurrenceUnit: 'MONTH' as any,
+        nextDueDate: new Date('2024-07-01'),
+        baseCrewSize: 20,
+        items: [],
+      }, 'captain-1')).rejects.toMatchObject({ errorCode: 'TEMPLATE_ITEMS_REQUIRED' });
+      expect(mockPrisma.requisitionTemplate.create).not.toHaveBeenCalled();
+    });
+  });
+});
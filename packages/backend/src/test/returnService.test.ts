@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { returnService } from '../services/returnService';
+import { deliveryService } from '../services/deliveryService';
+import { inventoryService } from '../services/inventoryService';
+import { vendorService } from '../services/vendorService';
+import { adjustmentNoteService } from '../services/adjustmentNoteService';
+import { emailService } from '../services/emailService';
+import { AppError } from '../utils/errors';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    delivery: {
+      findUnique: vi.fn(),
+    },
+    deliveryLine: {
+      update: vi.fn(),
+    },
+    returnRequest: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    invoice: {
+      findFirst: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  ReturnStatus: {
+    REQUESTED: 'REQUESTED',
+    ACKNOWLEDGED: 'ACKNOWLEDGED',
+    PICKUP_SCHEDULED: 'PICKUP_SCHEDULED',
+    COLLECTED: 'COLLECTED',
+    RESOLVED: 'RESOLVED',
+    REJECTED: 'REJECTED',
+    CANCELLED: 'CANCELLED',
+  },
+  ReturnResolution: { REPLACEMENT: 'REPLACEMENT', CREDIT: 'CREDIT' },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+vi.mock('../services/deliveryService', () => ({
+  deliveryService: {
+    getPortInfo: vi.fn(),
+    scheduleReplacementDelivery: vi.fn(),
+  },
+}));
+
+vi.mock('../services/inventoryService', () => ({
+  inventoryService: {
+    recordIssue: vi.fn(),
+  },
+}));
+
+vi.mock('../services/vendorService', () => ({
+  vendorService: {
+    updateVendorPerformance: vi.fn(),
+  },
+}));
+
+vi.mock('../services/adjustmentNoteService', () => ({
+  adjustmentNoteService: {
+    createAdjustmentNote: vi.fn(),
+  },
+}));
+
+const deliveredLine = (overrides: any = {}) => ({
+  id: 'dline-1',
+  poLineItemId: 'poline-1',
+  receivedQuantity: 8,
+  damagedQuantity: 2,
+  shortQuantity: 0,
+  returnedQuantity: 0,
+  returnLines: [],
+  ...overrides,
+});
+
+const confirmedDelivery = (lines = [deliveredLine()]) => ({
+  id: 'delivery-1',
+  deliveryNumber: 'DEL-202403-0007',
+  purchaseOrderId: 'po-1',
+  status: 'DELIVERED',
+  purchaseOrder: {
+    id: 'po-1',
+    poNumber: 'PO-202403-0012',
+    vesselId: 'vessel-1',
+    vendorId: 'vendor-1',
+    vendor: { id: 'vendor-1', email: 'orders@nordicmarine.example' },
+  },
+  lines,
+});
+
+const returnRequest = (overrides: any = {}) => ({
+  id: 'rma-1',
+  rmaNumber: 'RMA-2024-0001',
+  status: 'ACKNOWLEDGED',
+  purchaseOrderId: 'po-1',
+  vendorId: 'vendor-1',
+  description: 'Impeller cracked on arrival',
+  vendorReference: 'NM-RET-88',
+  pickupPortCode: null,
+  pickupDate: null,
+  delivery: { id: 'delivery-1', deliveryNumber: 'DEL-202403-0007', deliveryAddress: 'Rotterdam NLRTM' },
+  purchaseOrder: { id: 'po-1', poNumber: 'PO-202403-0012', vesselId: 'vessel-1', totalAmount: 2000, currency: 'USD' },
+  vendor: { id: 'vendor-1', name: 'Nordic Marine Supply', email: 'orders@nordicmarine.example', qualityRating: 4.5 },
+  lines: [
+    {
+      id: 'rline-1',
+      deliveryLineId: 'dline-1',
+      quantity: 3,
+      damagedQuantity: 2,
+      acceptedQuantity: 1,
+      deliveryLine: {
+        poLineItemId: 'poline-1',
+        poLineItem: { itemCatalogId: 'item-1', itemDescription: 'Pump impeller', unitPrice: 200 },
+      },
+    },
+  ],
+  ...overrides,
+});
+
+describe('ReturnService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.returnRequest.update.mockImplementation(({ data }: any) => Promise.resolve({ ...returnRequest(), ...data }));
+    mockPrisma.returnRequest.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('createReturnRequest', () => {
+    it('should take returned quantities from damaged goods before accepted stock', async () => {
+      mockPrisma.delivery.findUnique.mockResolvedValue(confirmedDelivery());
+      mockPrisma.returnRequest.count.mockResolvedValue(0);
+      mockPrisma.returnRequest.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'rma-1', ...data }));
+
+      await returnService.createReturnRequest({
+        deliveryId: 'delivery-1',
+        reason: 'DAMAGED',
+        description: 'Impeller cracked on arrival',
+        lines: [{ deliveryLineId: 'dline-1', quantity: 3 }],
+      }, 'chief-engineer-1');
+
+      expect(mockPrisma.returnRequest.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          vendorId: 'vendor-1',
+          purchaseOrderId: 'po-1',
+          lines: {
+            create: [{ deliveryLineId: 'dline-1', quantity: 3, damagedQuantity: 2, acceptedQuantity: 1, notes: undefined }],
+          },
+        }),
+      }));
+      expect(emailService.sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'orders@nordicmarine.example',
+        type: 'return_request',
+      }));
+    });
+
+    it('should not return more than is left on the delivery line', async () => {
+      mockPrisma.delivery.findUnique.mockResolvedValue(confirmedDelivery([
+        deliveredLine({ returnLines: [{ damagedQuantity: 2, acceptedQuantity: 6 }] }),
+      ]));
+
+      await expect(returnService.createReturnRequest({
+        deliveryId: 'delivery-1',
+        reason: 'WRONG_ITEM',
+        description: 'Wrong impeller size',
+        lines: [{ deliveryLineId: 'dline-1', quantity: 3 }],
+      }, 'chief-engineer-1')).rejects.toMatchObject({ errorCode: 'RETURN_QUANTITY_EXCEEDED' });
+      expect(mockPrisma.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should only accept returns on confirmed deliveries', async () => {
+      mockPrisma.delivery.findUnique.mockResolvedValue({ ...confirmedDelivery(), status: 'IN_TRANSIT' });
+
+      await expect(returnService.createReturnRequest({
+        deliveryId: 'delivery-1',
+        reason: 'DAMAGED',
+        description: 'Crate crushed',
+        lines: [{ deliveryLineId: 'dline-1', quantity: 1 }],
+      }, 'chief-engineer-1')).rejects.toMatchObject({ errorCode: 'DELIVERY_NOT_CONFIRMED' });
+    });
+  });
+
+  describe('confirmCollection', () => {
+    it('should issue accepted stock out of inventory and record it against the delivery line', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(returnRequest({ status: 'PICKUP_SCHEDULED' }));
+
+      await returnService.confirmCollection('rma-1', 'chief-engineer-1');
+
+      expect(inventoryService.recordIssue).toHaveBeenCalledWith(expect.objectContaining({
+        vesselId: 'vessel-1',
+        itemCatalogId: 'item-1',
+        quantity: 1,
+        reference: 'RMA-2024-0001',
+      }), 'chief-engineer-1', mockPrisma);
+      expect(mockPrisma.deliveryLine.update).toHaveBeenCalledWith({
+        where: { id: 'dline-1' },
+        data: { returnedQuantity: { increment: 1 } },
+      });
+    });
+
+    it('should not issue stock again for a return collected concurrently', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(returnRequest({ status: 'PICKUP_SCHEDULED' }));
+      mockPrisma.returnRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(returnService.confirmCollection('rma-1', 'chief-engineer-1'))
+        .rejects.toMatchObject({ errorCode: 'RETURN_ALREADY_COLLECTED' });
+      expect(inventoryService.recordIssue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveReturn', () => {
+    it('should raise a draft credit note for the returned lines and lower the quality rating', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(returnRequest({ status: 'COLLECTED' }));
+      mockPrisma.invoice.findFirst.mockResolvedValue({ id: 'invoice-1' });
+      vi.mocked(adjustmentNoteService.createAdjustmentNote).mockResolvedValue({ id: 'note-1' } as any);
+
+      await returnService.resolveReturn('rma-1', { resolution: 'CREDIT' }, 'buyer-1');
+
+      expect(adjustmentNoteService.createAdjustmentNote).toHaveBeenCalledWith(expect.objectContaining({
+        invoiceId: 'invoice-1',
+        type: 'CREDIT',
+        reasonCode: 'RETURN',
+        lineItems: [expect.objectContaining({ poLineItemId: 'poline-1', quantity: 3, unitPrice: 200, amount: 600 })],
+      }), 'buyer-1');
+      expect(mockPrisma.returnRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'RESOLVED', resolution: 'CREDIT', adjustmentNoteId: 'note-1', qualityImpact: 0.48 }),
+      }));
+      expect(vendorService.updateVendorPerformance).toHaveBeenCalledWith({ vendorId: 'vendor-1', qualityRating: 4.02 }, 'buyer-1');
+    });
+
+    it('should schedule a replacement delivery against the purchase order', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(returnRequest({ status: 'COLLECTED' }));
+      vi.mocked(deliveryService.scheduleReplacementDelivery).mockResolvedValue({ id: 'delivery-2' } as any);
+      const scheduledDate = new Date('2024-04-02');
+
+      await returnService.resolveReturn('rma-1', { resolution: 'REPLACEMENT', scheduledDate }, 'buyer-1');
+
+      expect(deliveryService.scheduleReplacementDelivery).toHaveBeenCalledWith(expect.objectContaining({
+        purchaseOrderId: 'po-1',
+        scheduledDate,
+        deliveryAddress: 'Rotterdam NLRTM',
+      }), 'RMA-2024-0001', 'buyer-1');
+      expect(mockPrisma.returnRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ resolution: 'REPLACEMENT', replacementDeliveryId: 'delivery-2' }),
+      }));
+    });
+
+    it('should not raise a second credit note for a return resolved concurrently', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(returnRequest({ status: 'COLLECTED' }));
+      mockPrisma.invoice.findFirst.mockResolvedValue({ id: 'invoice-1' });
+      mockPrisma.returnRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(returnService.resolveReturn('rma-1', { resolution: 'CREDIT' }, 'buyer-1'))
+        .rejects.toMatchObject({ errorCode: 'RETURN_ALREADY_RESOLVED' });
+      expect(adjustmentNoteService.createAdjustmentNote).not.toHaveBeenCalled();
+    });
+
+    it('should hand the return back when the replacement delivery cannot be scheduled', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(returnRequest({ status: 'COLLECTED' }));
+      vi.mocked(deliveryService.scheduleReplacementDelivery).mockRejectedValue(
+        new AppError('Delivery already scheduled for this purchase order', 400, 'DELIVERY_EXISTS')
+      );
+
+      await expect(returnService.resolveReturn('rma-1', { resolution: 'REPLACEMENT', scheduledDate: new Date('2024-04-02') }, 'buyer-1'))
+        .rejects.toMatchObject({ errorCode: 'DELIVERY_EXISTS' });
+      expect(mockPrisma.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: 'rma-1' },
+        data: { status: 'COLLECTED', resolution: null, resolvedAt: null, resolvedById: null },
+      });
+      expect(vendorService.updateVendorPerformance).not.toHaveBeenCalled();
+    });
+
+    it('should not resolve a return the vendor has not acknowledged', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(returnRequest({ status: 'REQUESTED' }));
+
+      await expect(returnService.resolveReturn('rma-1', { resolution: 'CREDIT' }, 'buyer-1'))
+        .rejects.toMatchObject({ errorCode: 'INVALID_STATUS_TRANSITION' });
+      expect(vendorService.updateVendorPerformance).not.toHaveBeenCalled();
+    });
+
+    it('should not resolve a return before the goods have been collected', async () => {
+      for (const status of ['ACKNOWLEDGED', 'PICKUP_SCHEDULED']) {
+        mockPrisma.returnRequest.findUnique.mockResolvedValue(returnRequest({ status }));
+
+        await expect(returnService.resolveReturn('rma-1', { resolution: 'REPLACEMENT', scheduledDate: new Date('2024-04-02') }, 'buyer-1'))
+          .rejects.toMatchObject({ errorCode: 'INVALID_STATUS_TRANSITION' });
+      }
+      expect(deliveryService.scheduleReplacementDelivery).not.toHaveBeenCalled();
+      expect(mockPrisma.returnRequest.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { rfqClarificationService } from '../services/rfqClarificationService';
+import { emailService } from '../services/emailService';
+import { exchangeRateIntegrationService } from '../services/exchangeRateIntegrationService';
+import { workflowEngine } from '../services/workflowEngine';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    rFQ: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    rFQVendor: {
+      updateMany: vi.fn(),
+    },
+    rFQClarification: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    rFQAddendum: {
+      create: vi.fn(),
+    },
+    requisition: {
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+    requisitionItem: {
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    itemCatalog: {
+      findMany: vi.fn(),
+    },
+    quote: {
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+  ClarificationVisibility: { PUBLIC: 'PUBLIC', PRIVATE: 'PRIVATE' },
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendBulkEmails: vi.fn(),
+  },
+}));
+
+vi.mock('../services/exchangeRateIntegrationService', () => ({
+  exchangeRateIntegrationService: {
+    convertCurrency: vi.fn(),
+  },
+}));
+
+vi.mock('../services/workflowEngine', () => ({
+  REQUISITION_WORKFLOW_INCLUDE: { vessel: true, requestedBy: true, items: true },
+  workflowEngine: {
+    evaluateRequisition: vi.fn(),
+    createApprovalWorkflow: vi.fn(),
+  },
+}));
+
+const vendor = (id: string, name: string) => ({
+  id,
+  name,
+  email: `sales@${id}.example`,
+  contactEmail: null,
+  contactPersonName: null,
+});
+
+const invitations = [
+  { vendorId: 'vendor-1', vendor: vendor('vendor-1', 'Aegean Marine Supply') },
+  { vendorId: 'vendor-2', vendor: vendor('vendor-2', 'Baltic Ship Stores') },
+  { vendorId: 'vendor-3', vendor: vendor('vendor-3', 'Cape Chandlers') },
+];
+
+const openRFQ = (overrides: any = {}) => ({
+  id: 'rfq-1',
+  rfqNumber: 'RFQ-2024-0042',
+  title: 'Main engine spares',
+  requisitionId: 'req-1',
+  status: 'RESPONSES_RECEIVED',
+  currency: 'USD',
+  revision: 1,
+  isConsolidated: false,
+  responseDeadline: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+  requisition: {
+    vesselId: 'vessel-1',
+    status: 'APPROVED',
+    totalAmount: 75,
+    items: [
+      { id: 'line-1', itemCatalogId: 'filter', quantity: 6, unitPrice: 12.5, totalPrice: 75, specifications: null, notes: null, itemCatalog: { name: 'Lube oil filter' } },
+      { id: 'line-2', itemCatalogId: 'gasket', quantity: 2, unitPrice: null, totalPrice: null, specifications: null, notes: null, itemCatalog: { name: 'Cylinder head gasket' } },
+    ],
+  },
+  vendors: invitations,
+  ...overrides,
+});
+
+describe('RFQ clarifications and addenda', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    vi.mocked(emailService.sendBulkEmails).mockImplementation(async (emails: any[]) => ({ sent: emails.length, failed: 0 }));
+  });
+
+  describe('answerQuestion', () => {
+    const clarification = {
+      id: 'clar-1',
+      rfqId: 'rfq-1',
+      vendorId: 'vendor-2',
+      question: 'Is an OEM-equivalent filter acceptable?',
+      answeredAt: null,
+      vendor: vendor('vendor-2', 'Baltic Ship Stores'),
+      rfq: openRFQ(),
+    };
+
+    it('should send a public answer to every invited vendor without naming the asker', async () => {
+      mockPrisma.rFQClarification.findUnique.mockResolvedValue(clarification);
+      mockPrisma.rFQClarification.update.mockImplementation(({ data }: any) => Promise.resolve({ ...clarification, ...data }));
+
+      await rfqClarificationService.answerQuestion('rfq-1', 'clar-1', {
+        answer: 'Yes, with a certificate of conformity.',
+        visibility: 'PUBLIC' as any,
+      }, 'buyer-1');
+
+      const emails = vi.mocked(emailService.sendBulkEmails).mock.calls[0][0];
+      expect(emails.map(email => email.to)).toEqual([
+        'sales@vendor-1.example',
+        'sales@vendor-2.example',
+        'sales@vendor-3.example',
+      ]);
+      expect(emails[0].body).toContain('Yes, with a certificate of conformity.');
+      expect(emails[0].body).not.toContain('Baltic Ship Stores');
+    });
+
+    it('should send a private answer to the asking vendor only', async () => {
+      mockPrisma.rFQClarification.findUnique.mockResolvedValue(clarification);
+      mockPrisma.rFQClarification.update.mockImplementation(({ data }: any) => Promise.resolve({ ...clarification, ...data }));
+
+      await rfqClarificationService.answerQuestion('rfq-1', 'clar-1', {
+        answer: 'Your account terms apply.',
+        visibility: 'PRIVATE' as any,
+      }, 'buyer-1');
+
+      const emails = vi.mocked(emailService.sendBulkEmails).mock.calls[0][0];
+      expect(emails.map(email => email.to)).toEqual(['sales@vendor-2.example']);
+    });
+
+    it('should not answer a clarification through another RFQ', async () => {
+      mockPrisma.rFQClarification.findUnique.mockResolvedValue(clarification);
+
+      await expect(rfqClarificationService.answerQuestion('rfq-9', 'clar-1', {
+        answer: 'Yes',
+        visibility: 'PUBLIC' as any,
+      }, 'buyer-1')).rejects.toMatchObject({ errorCode: 'CLARIFICATION_NOT_FOUND' });
+      expect(mockPrisma.rFQClarification.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVendorClarifications', () => {
+    it('should only show the vendor its own questions and answered public ones', async () => {
+      mockPrisma.rFQClarification.findMany.mockResolvedValue([
+        { id: 'clar-1', vendorId: 'vendor-2', question: 'OEM only?', answer: 'No', visibility: 'PUBLIC' },
+        { id: 'clar-2', vendorId: 'vendor-1', question: 'Delivery by launch?', answer: null, visibility: 'PRIVATE' },
+      ]);
+
+      const thread = await rfqClarificationService.getVendorClarifications('rfq-1', 'vendor-1');
+
+      expect(mockPrisma.rFQClarification.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          rfqId: 'rfq-1',
+          OR: [
+            { vendorId: 'vendor-1' },
+            { visibility: 'PUBLIC', answeredAt: { not: null } },
+          ],
+        },
+      }));
+      expect(thread).toEqual([
+        { id: 'clar-1', question: 'OEM only?', answer: 'No', visibility: 'PUBLIC', askedByYou: false },
+        { id: 'clar-2', question: 'Delivery by launch?', answer: null, visibility: 'PRIVATE', askedByYou: true },
+      ]);
+    });
+  });
+
+  describe('issueAddendum', () => {
+    it('should change the lines, raise the revision, supersede open quotes and re-notify vendors', async () => {
+      const newDeadline = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+      mockPrisma.rFQ.findUnique.mockResolvedValue(openRFQ());
+      mockPrisma.requisitionItem.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'line-1', ...data }));
+      mockPrisma.requisitionItem.aggregate.mockResolvedValue({ _sum: { totalPrice: 125 } });
+      mockPrisma.quote.updateMany.mockResolvedValue({ count: 2 });
+      mockPrisma.rFQAddendum.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'add-1', ...data }));
+
+      const addendum = await rfqClarificationService.issueAddendum('rfq-1', {
+        description: 'Filter quantity increased; gasket removed from scope.',
+        responseDeadline: newDeadline,
+        lineChanges: [
+          { action: 'UPDATE', requisitionItemId: 'line-1', quantity: 10 },
+          { action: 'REMOVE', requisitionItemId: 'line-2' },
+        ],
+      }, 'buyer-1');
+
+      expect(mockPrisma.requisitionItem.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: expect.objectContaining({ quantity: 10, totalPrice: 125 }),
+      });
+      expect(mockPrisma.requisitionItem.delete).toHaveBeenCalledWith({ where: { id: 'line-2' } });
+      expect(mockPrisma.quote.updateMany).toHaveBeenCalledWith({
+        where: { rfqId: 'rfq-1', status: { in: ['PENDING', 'SUBMITTED'] }, rfqRevision: { lt: 2 } },
+        data: { status: 'SUPERSEDED' },
+      });
+      expect(mockPrisma.rFQ.update).toHaveBeenCalledWith({
+        where: { id: 'rfq-1' },
+        data: { revision: 2, responseDeadline: newDeadline, status: 'SENT' },
+      });
+      expect(mockPrisma.rFQVendor.updateMany).toHaveBeenCalledWith({
+        where: { rfqId: 'rfq-1', sentAt: { not: null } },
+        data: { viewedAt: null },
+      });
+      expect(addendum).toMatchObject({ revision: 2, quotesInvalidated: 2, newDeadline });
+      expect(vi.mocked(emailService.sendBulkEmails).mock.calls[0][0]).toHaveLength(3);
+    });
+
+    it('should price an added line from the catalogue in the RFQ currency', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(openRFQ());
+      mockPrisma.itemCatalog.findMany.mockResolvedValue([
+        { id: 'impeller', name: 'Pump impeller', averagePrice: 40, averagePriceCurrency: 'EUR' },
+      ]);
+      vi.mocked(exchangeRateIntegrationService.convertCurrency).mockResolvedValue({ convertedAmount: 44 } as any);
+      mockPrisma.requisitionItem.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'line-3', ...data }));
+      mockPrisma.requisitionItem.aggregate.mockResolvedValue({ _sum: { totalPrice: 163 } });
+      mockPrisma.quote.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.rFQAddendum.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'add-1', ...data }));
+      mockPrisma.requisition.findUniqueOrThrow.mockResolvedValue({ id: 'req-1' });
+      vi.mocked(workflowEngine.evaluateRequisition).mockResolvedValue({ requiresApproval: true, autoApprove: false } as any);
+
+      await rfqClarificationService.issueAddendum('rfq-1', {
+        description: 'Add a spare impeller.',
+        lineChanges: [{ action: 'ADD', itemCatalogId: 'impeller', quantity: 2 }],
+      }, 'buyer-1');
+
+      expect(exchangeRateIntegrationService.convertCurrency).toHaveBeenCalledWith(40, 'EUR', 'USD');
+      expect(mockPrisma.requisitionItem.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ itemCatalogId: 'impeller', quantity: 2, unitPrice: 44, totalPrice: 88, currency: 'USD' }),
+      });
+    });
+
+    it('should refuse an added line that has no price', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(openRFQ());
+      mockPrisma.itemCatalog.findMany.mockResolvedValue([
+        { id: 'impeller', name: 'Pump impeller', averagePrice: null, averagePriceCurrency: 'USD' },
+      ]);
+
+      await expect(rfqClarificationService.issueAddendum('rfq-1', {
+        description: 'Add a spare impeller.',
+        lineChanges: [{ action: 'ADD', itemCatalogId: 'impeller', quantity: 2 }],
+      }, 'buyer-1')).rejects.toMatchObject({ errorCode: 'INVALID_LINE_CHANGE' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should recompute the requisition total and send it back for approval when its value changes', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(openRFQ());
+      mockPrisma.requisitionItem.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'line-1', ...data }));
+      mockPrisma.requisitionItem.aggregate.mockResolvedValue({ _sum: { totalPrice: 125 } });
+      mockPrisma.quote.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.rFQAddendum.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'add-1', ...data }));
+      mockPrisma.requisition.findUniqueOrThrow.mockResolvedValue({ id: 'req-1', totalAmount: 125 });
+      const decision = { requiresApproval: true, autoApprove: false };
+      vi.mocked(workflowEngine.evaluateRequisition).mockResolvedValue(decision as any);
+
+      await rfqClarificationService.issueAddendum('rfq-1', {
+        description: 'Filter quantity increased.',
+        lineChanges: [{ action: 'UPDATE', requisitionItemId: 'line-1', quantity: 10 }],
+      }, 'buyer-1');
+
+      expect(mockPrisma.requisition.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: { totalAmount: 125, status: 'UNDER_REVIEW' },
+      });
+      expect(workflowEngine.evaluateRequisition).toHaveBeenCalledWith({ id: 'req-1', totalAmount: 125 }, { evaluatedById: 'buyer-1' });
+      expect(workflowEngine.createApprovalWorkflow).toHaveBeenCalledWith('req-1', decision);
+      expect(mockPrisma.requisition.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore the requisition status when the new value needs no approval', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(openRFQ());
+      mockPrisma.requisitionItem.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'line-1', ...data }));
+      mockPrisma.requisitionItem.aggregate.mockResolvedValue({ _sum: { totalPrice: 62.5 } });
+      mockPrisma.quote.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.rFQAddendum.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'add-1', ...data }));
+      mockPrisma.requisition.findUniqueOrThrow.mockResolvedValue({ id: 'req-1', totalAmount: 62.5 });
+      vi.mocked(workflowEngine.evaluateRequisition).mockResolvedValue({ requiresApproval: false, autoApprove: true } as any);
+
+      await rfqClarificationService.issueAddendum('rfq-1', {
+        description: 'Filter quantity reduced.',
+        lineChanges: [{ action: 'UPDATE', requisitionItemId: 'line-1', quantity: 5 }],
+      }, 'buyer-1');
+
+      expect(mockPrisma.requisition.update).toHaveBeenLastCalledWith({
+        where: { id: 'req-1' },
+        data: { status: 'APPROVED' },
+      });
+    });
+
+    it('should refuse line changes on a consolidated RFQ', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(openRFQ({ isConsolidated: true }));
+
+      await expect(rfqClarificationService.issueAddendum('rfq-1', {
+        description: 'More filters',
+        lineChanges: [{ action: 'UPDATE', requisitionItemId: 'line-1', quantity: 10 }],
+      }, 'buyer-1')).rejects.toMatchObject({ errorCode: 'CONSOLIDATED_RFQ_LINE_CHANGE' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not amend an RFQ that has been awarded', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(openRFQ({ status: 'AWARDED' }));
+
+      await expect(rfqClarificationService.issueAddendum('rfq-1', {
+        description: 'Extend deadline',
+        responseDeadline: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      }, 'buyer-1')).rejects.toMatchObject({ errorCode: 'INVALID_STATUS_TRANSITION' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { rfqDeadlineService } from '../services/rfqDeadlineService';
+import { AuditService } from '../services/auditService';
+import { emailService } from '../services/emailService';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    rFQ: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    quote: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    user: {
+      findMany: vi.fn(),
+    },
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+const now = new Date('2024-06-10T12:00:00Z');
+
+const closingRFQ = (overrides: any = {}) => ({
+  id: 'rfq-1',
+  rfqNumber: 'RFQ-2024-0042',
+  title: 'Main engine spares',
+  status: 'RESPONSES_RECEIVED',
+  responseDeadline: new Date('2024-06-10T09:00:00Z'),
+  minimumResponses: 3,
+  isSealed: false,
+  unsealedAt: null,
+  requisition: { vesselId: 'vessel-1' },
+  createdBy: { email: 'buyer@flowmarine.example', firstName: 'Dana' },
+  quotes: [{ id: 'quote-1' }, { id: 'quote-2' }, { id: 'quote-3' }],
+  ...overrides,
+});
+
+describe('RFQ deadlines and sealed bids', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.quote.findMany.mockResolvedValue([]);
+    mockPrisma.rFQ.findMany.mockResolvedValue([]);
+  });
+
+  describe('processDeadlines', () => {
+    it('should expire open quotes past their validity date', async () => {
+      mockPrisma.quote.findMany.mockResolvedValue([
+        { id: 'quote-1', quoteNumber: 'QT-2024-0001', rfqId: 'rfq-1', vendorId: 'vendor-1', status: 'SUBMITTED', validUntil: new Date('2024-06-09') },
+        { id: 'quote-2', quoteNumber: 'QT-2024-0002', rfqId: 'rfq-2', vendorId: 'vendor-2', status: 'PENDING', validUntil: new Date('2024-06-01') },
+      ]);
+      mockPrisma.quote.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await rfqDeadlineService.processDeadlines(now);
+
+      expect(mockPrisma.quote.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: { in: ['PENDING', 'SUBMITTED'] }, validUntil: { lt: now } },
+      }));
+      expect(mockPrisma.quote.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['quote-1', 'quote-2'] }, status: { in: ['PENDING', 'SUBMITTED'] } },
+        data: { status: 'EXPIRED' },
+      });
+      expect(result.expiredQuotes).toBe(2);
+      expect(AuditService.log).toHaveBeenCalledTimes(2);
+    });
+
+    it('should close an RFQ with enough responses for evaluation', async () => {
+      mockPrisma.rFQ.findMany.mockResolvedValue([closingRFQ()]);
+
+      const result = await rfqDeadlineService.processDeadlines(now);
+
+      expect(mockPrisma.rFQ.update).toHaveBeenCalledWith({
+        where: { id: 'rfq-1' },
+        data: { status: 'RESPONSES_RECEIVED', responsesClosedAt: now },
+      });
+      expect(result).toEqual({ expiredQuotes: 0, closed: 1, insufficient: 0, failed: 0 });
+      expect(emailService.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should hand an RFQ with too few responses back to the buyer', async () => {
+      mockPrisma.rFQ.findMany.mockResolvedValue([closingRFQ({ status: 'SENT', quotes: [{ id: 'quote-1' }] })]);
+
+      const result = await rfqDeadlineService.processDeadlines(now);
+
+      expect(mockPrisma.rFQ.update).toHaveBeenCalledWith({
+        where: { id: 'rfq-1' },
+        data: { status: 'INSUFFICIENT_RESPONSES', responsesClosedAt: now },
+      });
+      expect(emailService.sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'buyer@flowmarine.example',
+        subject: 'RFQ RFQ-2024-0042 closed with too few responses',
+      }));
+      expect(result.insufficient).toBe(1);
+    });
+
+    it('should unseal a sealed RFQ in one audited event when its deadline passes', async () => {
+      const sealed = closingRFQ({ status: 'SENT', isSealed: true });
+      mockPrisma.rFQ.findMany.mockResolvedValue([sealed]);
+      mockPrisma.rFQ.findUnique.mockResolvedValue({
+        ...sealed,
+        quotes: [
+          { id: 'quote-1', vendorId: 'vendor-1', totalAmount: 1200, currency: 'USD', submittedAt: new Date('2024-06-08') },
+          { id: 'quote-2', vendorId: 'vendor-2', totalAmount: 1150, currency: 'USD', submittedAt: new Date('2024-06-09') },
+          { id: 'quote-3', vendorId: 'vendor-3', totalAmount: 1300, currency: 'USD', submittedAt: new Date('2024-06-10') },
+        ],
+      });
+
+      await rfqDeadlineService.processDeadlines(now);
+
+      expect(mockPrisma.rFQ.update).toHaveBeenCalledWith({
+        where: { id: 'rfq-1' },
+        data: { unsealedAt: now, unsealedById: undefined },
+      });
+      const unsealEvents = vi.mocked(AuditService.log).mock.calls.filter(([entry]) => entry.resource === 'rfq_unseal');
+      expect(unsealEvents).toHaveLength(1);
+      expect(unsealEvents[0][0].newValues).toMatchObject({ quoteCount: 3 });
+    });
+
+    it('should carry on closing other RFQs when one fails', async () => {
+      mockPrisma.rFQ.findMany.mockResolvedValue([closingRFQ(), closingRFQ({ id: 'rfq-2' })]);
+      mockPrisma.rFQ.update
+        .mockRejectedValueOnce(new Error('Connection reset'))
+        .mockResolvedValueOnce({});
+
+      const result = await rfqDeadlineService.processDeadlines(now);
+
+      expect(result).toEqual({ expiredQuotes: 0, closed: 1, insufficient: 0, failed: 1 });
+    });
+  });
+
+  describe('unsealRFQ', () => {
+    it('should refuse to open a sealed RFQ before its response deadline', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue({
+        ...closingRFQ({ isSealed: true, responseDeadline: new Date('2024-06-11T09:00:00Z') }),
+        quotes: [],
+      });
+
+      await expect(rfqDeadlineService.unsealRFQ('rfq-1', 'buyer-1', now))
+        .rejects.toMatchObject({ errorCode: 'RESPONSE_DEADLINE_NOT_PASSED' });
+      expect(mockPrisma.rFQ.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('maskSealedQuotes', () => {
+    it('should withhold quote contents until the RFQ is unsealed', () => {
+      const quote = { id: 'quote-1', vendorId: 'vendor-1', status: 'SUBMITTED', totalAmount: 1200, lineItems: [{ unitPrice: 12 }] };
+
+      const sealed = rfqDeadlineService.maskSealedQuotes({ isSealed: true, unsealedAt: null, quotes: [quote] });
+      const opened = rfqDeadlineService.maskSealedQuotes({ isSealed: true, unsealedAt: now, quotes: [quote] });
+
+      expect(sealed.quotes[0]).toMatchObject({ id: 'quote-1', vendorId: 'vendor-1', sealed: true });
+      expect(sealed.quotes[0]).not.toHaveProperty('totalAmount');
+      expect(sealed.quotes[0]).not.toHaveProperty('lineItems');
+      expect(opened.quotes[0]).toBe(quote);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { splitAwardService } from '../services/splitAwardService';
+import { AppError } from '../utils/errors';
+
+const { mockPrisma, mockPurchaseOrderService } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    rFQ: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    quote: {
+      updateMany: vi.fn(),
+    },
+    quoteLineItem: {
+      updateMany: vi.fn(),
+    },
+    purchaseOrder: {
+      deleteMany: vi.fn(),
+    },
+    pOLineItem: {
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  const mockPurchaseOrderService = {
+    generatePurchaseOrder: vi.fn(),
+    generateConsolidatedPurchaseOrders: vi.fn(),
+  };
+  return { mockPrisma, mockPurchaseOrderService };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/emailService', () => ({
+  emailService: {
+    sendEmail: vi.fn(),
+  },
+}));
+
+vi.mock('../services/purchaseOrderService', () => ({
+  purchaseOrderService: mockPurchaseOrderService,
+}));
+
+describe('SplitAwardService', () => {
+  const requisition = {
+    vesselId: 'vessel-1',
+    items: [
+      { itemCatalogId: 'engine-part', quantity: 2, itemCatalog: { name: 'Fuel Injector' } },
+      { itemCatalogId: 'provisions', quantity: 100, itemCatalog: { name: 'Rice 25kg' } },
+    ],
+  };
+
+  const quote = (id: string, vendorId: string, deliveryDate: Date, prices: Record<string, number>) => ({
+    id,
+    vendorId,
+    status: 'SUBMITTED',
+    deliveryDate,
+    vendor: { name: `Vendor ${vendorId}` },
+    lineItems: Object.entries(prices).map(([itemCatalogId, unitPrice]) => {
+      const quantity = itemCatalogId === 'engine-part' ? 2 : 100;
+      return {
+        id: `${id}-${itemCatalogId}`,
+        itemCatalogId,
+        quantity,
+        unitPrice,
+        totalPrice: quantity * unitPrice,
+        currency: 'USD',
+      };
+    }),
+  });
+
+  const rfq = (quotes: any[]) => ({
+    id: 'rfq-1',
+    rfqNumber: 'RFQ-2024-0001',
+    status: 'RESPONSES_RECEIVED',
+    deliveryDate: new Date('2024-03-01'),
+    requisition,
+    quotes,
+  });
+
+  // Two sister vessels sharing the same order; the lead requisition only carries its own quantities
+  const consolidatedRfq = (quotes: any[]) => ({
+    ...rfq(quotes),
+    isConsolidated: true,
+    requisition: { vesselId: 'vessel-1', items: [requisition.items[0]] },
+    deliverySplits: [
+      { itemCatalogId: 'engine-part', quantity: 1, vesselId: 'vessel-1', itemCatalog: { name: 'Fuel Injector' } },
+      { itemCatalogId: 'engine-part', quantity: 1, vesselId: 'vessel-2', itemCatalog: { name: 'Fuel Injector' } },
+      { itemCatalogId: 'provisions', quantity: 60, vesselId: 'vessel-2', itemCatalog: { name: 'Rice 25kg' } },
+      { itemCatalogId: 'provisions', quantity: 40, vesselId: 'vessel-3', itemCatalog: { name: 'Rice 25kg' } },
+    ],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+  });
+
+  describe('optimiseSplitAward', () => {
+    it('should buy each line from the cheapest vendor', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(rfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 30 }),
+        quote('quote-b', 'vendor-b', new Date('2024-02-25'), { 'engine-part': 1100, provisions: 20 }),
+      ]));
+
+      const plan = await splitAwardService.optimiseSplitAward('rfq-1');
+
+      expect(plan.lines.map(line => [line.itemCatalogId, line.vendorId])).toEqual([
+        ['engine-part', 'vendor-a'],
+        ['provisions', 'vendor-b'],
+      ]);
+      expect(plan.totalCost).toBe(3800);
+      expect(plan.singleVendorBestCost).toBe(4200);
+      expect(plan.savingsVersusSingleVendor).toBe(400);
+    });
+
+    it('should cost lines at the quoted total when a vendor quotes more than requested', async () => {
+      const packQuote = quote('quote-b', 'vendor-b', new Date('2024-02-25'), { 'engine-part': 1100, provisions: 15 });
+      // Rice only sold in lots of 200 bags: cheaper per bag, dearer overall
+      packQuote.lineItems[1] = { ...packQuote.lineItems[1], quantity: 200, totalPrice: 3000 };
+      mockPrisma.rFQ.findUnique.mockResolvedValue(rfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 20 }),
+        packQuote,
+      ]));
+
+      const plan = await splitAwardService.optimiseSplitAward('rfq-1');
+
+      expect(plan.lines.find(line => line.itemCatalogId === 'provisions')).toMatchObject({ vendorId: 'vendor-a', lineCost: 2000 });
+      expect(plan.totalCost).toBe(3800);
+    });
+
+    it('should not open the quotes of a sealed RFQ before it is unsealed', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue({
+        ...rfq([quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 30 })]),
+        isSealed: true,
+        unsealedAt: null,
+      });
+
+      await expect(splitAwardService.optimiseSplitAward('rfq-1')).rejects.toMatchObject({ errorCode: 'RFQ_SEALED' });
+    });
+
+    it('should exclude vendors that cannot deliver in time', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(rfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 30 }),
+        quote('quote-b', 'vendor-b', new Date('2024-03-10'), { 'engine-part': 1100, provisions: 20 }),
+      ]));
+
+      const plan = await splitAwardService.optimiseSplitAward('rfq-1');
+
+      expect(plan.vendorCount).toBe(1);
+      expect(plan.lines.every(line => line.vendorId === 'vendor-a' && line.deliveryConstraintMet)).toBe(true);
+    });
+
+    it('should consolidate when the per-order cost outweighs the saving', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(rfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 30 }),
+        quote('quote-b', 'vendor-b', new Date('2024-02-25'), { 'engine-part': 1100, provisions: 29 }),
+      ]));
+
+      const plan = await splitAwardService.optimiseSplitAward('rfq-1', { perVendorOrderCost: 250 });
+
+      expect(plan.vendorCount).toBe(1);
+      expect(plan.totalCost).toBe(5050);
+    });
+
+    it('should size a consolidated RFQ by the fleet-wide quantity of each item', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(consolidatedRfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 30 }),
+      ]));
+
+      const plan = await splitAwardService.optimiseSplitAward('rfq-1');
+
+      expect(plan.lines.map(line => [line.itemCatalogId, line.requiredQuantity])).toEqual([
+        ['engine-part', 2],
+        ['provisions', 100],
+      ]);
+      expect(plan.totalCost).toBe(4800);
+    });
+  });
+
+  describe('awardLineItems', () => {
+    it('should accept awarded quotes and generate one PO per vendor', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(rfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 30 }),
+        quote('quote-b', 'vendor-b', new Date('2024-02-25'), { 'engine-part': 1100, provisions: 20 }),
+        quote('quote-c', 'vendor-c', new Date('2024-02-25'), { 'engine-part': 1200, provisions: 40 }),
+      ]));
+      mockPurchaseOrderService.generatePurchaseOrder.mockImplementation(({ quoteId }: any) =>
+        Promise.resolve({ id: `po-${quoteId}` })
+      );
+
+      const result = await splitAwardService.awardLineItems({
+        rfqId: 'rfq-1',
+        awards: [
+          { quoteLineItemId: 'quote-a-engine-part' },
+          { quoteLineItemId: 'quote-b-provisions' },
+        ],
+        approvedBy: 'user-1',
+        justification: 'Lowest cost per line',
+      }, 'user-1');
+
+      expect(mockPrisma.quoteLineItem.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['quote-a-engine-part', 'quote-b-provisions'] } },
+        data: expect.objectContaining({ isAwarded: true }),
+      });
+      expect(mockPrisma.quote.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['quote-c'] } },
+        data: { status: 'REJECTED' },
+      });
+      expect(mockPrisma.rFQ.update).toHaveBeenCalledWith({
+        where: { id: 'rfq-1' },
+        data: { status: 'AWARDED' },
+      });
+      expect(mockPurchaseOrderService.generatePurchaseOrder).toHaveBeenCalledTimes(2);
+      expect(result.purchaseOrders.map(po => po.id)).toEqual(['po-quote-a', 'po-quote-b']);
+      expect(result.rejectedQuoteIds).toEqual(['quote-c']);
+    });
+
+    it('should fan awarded quotes on a consolidated RFQ out per vessel', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(consolidatedRfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 30 }),
+      ]));
+      mockPurchaseOrderService.generateConsolidatedPurchaseOrders.mockResolvedValue([
+        { id: 'po-vessel-1' },
+        { id: 'po-vessel-2' },
+      ]);
+
+      const result = await splitAwardService.awardLineItems({
+        rfqId: 'rfq-1',
+        awards: [{ quoteLineItemId: 'quote-a-engine-part' }],
+        approvedBy: 'user-1',
+        justification: 'Fleet order',
+      }, 'user-1');
+
+      expect(mockPurchaseOrderService.generatePurchaseOrder).not.toHaveBeenCalled();
+      expect(result.purchaseOrders.map(po => po.id)).toEqual(['po-vessel-1', 'po-vessel-2']);
+    });
+
+    it('should undo the award when a purchase order cannot be generated', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(rfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900, provisions: 30 }),
+        quote('quote-b', 'vendor-b', new Date('2024-02-25'), { 'engine-part': 1100, provisions: 20 }),
+      ]));
+      mockPurchaseOrderService.generatePurchaseOrder
+        .mockResolvedValueOnce({ id: 'po-quote-a' })
+        .mockRejectedValueOnce(new AppError('Failed to generate purchase order', 500, 'PO_GENERATION_FAILED'));
+
+      await expect(splitAwardService.awardLineItems({
+        rfqId: 'rfq-1',
+        awards: [
+          { quoteLineItemId: 'quote-a-engine-part' },
+          { quoteLineItemId: 'quote-b-provisions' },
+        ],
+        approvedBy: 'user-1',
+        justification: 'Lowest cost per line',
+      }, 'user-1')).rejects.toMatchObject({ errorCode: 'PO_GENERATION_FAILED' });
+
+      expect(mockPrisma.purchaseOrder.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['po-quote-a'] } } });
+      expect(mockPrisma.quoteLineItem.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['quote-a-engine-part', 'quote-b-provisions'] } },
+        data: { isAwarded: false, awardedAt: null },
+      });
+      expect(mockPrisma.quote.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['quote-a', 'quote-b'] } },
+        data: { status: 'SUBMITTED' },
+      });
+      expect(mockPrisma.rFQ.update).toHaveBeenLastCalledWith({
+        where: { id: 'rfq-1' },
+        data: { status: 'RESPONSES_RECEIVED' },
+      });
+    });
+
+    it('should reject awarding the same item to two vendors', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(rfq([
+        quote('quote-a', 'vendor-a', new Date('2024-02-20'), { 'engine-part': 900 }),
+        quote('quote-b', 'vendor-b', new Date('2024-02-25'), { 'engine-part': 1100 }),
+      ]));
+
+      await expect(
+        splitAwardService.awardLineItems({
+          rfqId: 'rfq-1',
+          awards: [
+            { quoteLineItemId: 'quote-a-engine-part' },
+            { quoteLineItemId: 'quote-b-engine-part' },
+          ],
+          approvedBy: 'user-1',
+          justification: 'Duplicate',
+        }, 'user-1')
+      ).rejects.toThrow(AppError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
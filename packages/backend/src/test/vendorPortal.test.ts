@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vendorPortalService } from '../services/vendorPortalService';
+import { generateVendorAccessToken, verifyAccessToken, verifyVendorAccessToken, generateAccessToken } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    rFQVendor: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    rFQ: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    quote: {
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    quoteLineItem: {
+      deleteMany: vi.fn(),
+    },
+    purchaseOrder: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../services/returnService', () => ({
+  returnService: {
+    acknowledgeReturn: vi.fn(),
+  },
+}));
+
+vi.mock('../services/rfqClarificationService', () => ({
+  rfqClarificationService: {
+    askQuestion: vi.fn(),
+  },
+}));
+
+vi.mock('../services/auctionService', () => ({
+  auctionService: {
+    placeBid: vi.fn(),
+  },
+}));
+
+vi.mock('../services/poAmendmentService', () => ({
+  poAmendmentService: {
+    acknowledgeAmendment: vi.fn(),
+  },
+}));
+
+vi.mock('../services/invoiceProcessingService', () => ({
+  invoiceProcessingService: {
+    processInvoice: vi.fn(),
+  },
+}));
+
+describe('Vendor portal', () => {
+  const actor = { vendorUserId: 'vendor-user-1', vendorId: 'vendor-1' };
+
+  const openRFQ = {
+    id: 'rfq-1',
+    status: 'SENT',
+    currency: 'USD',
+    revision: 1,
+    responseDeadline: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    requisition: {
+      vesselId: 'vessel-1',
+      items: [{ itemCatalogId: 'item-1', quantity: 10 }],
+    },
+    deliverySplits: [],
+    quotes: [],
+  };
+
+  const quoteData = {
+    lineItems: [{ itemCatalogId: 'item-1', quantity: 10, unitPrice: 12.5 }],
+    deliveryDate: new Date('2024-03-01'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.rFQVendor.findUnique.mockResolvedValue({ id: 'invite-1', sentAt: new Date() });
+  });
+
+  describe('submitQuote', () => {
+    it('should create a submitted quote and move the RFQ to responses received', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue(openRFQ);
+      mockPrisma.quote.count.mockResolvedValue(4);
+      mockPrisma.quote.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'quote-1', revision: 1, ...data }));
+
+      const quote = await vendorPortalService.submitQuote(actor, 'rfq-1', quoteData);
+
+      expect(mockPrisma.quote.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          vendorId: 'vendor-1',
+          status: 'SUBMITTED',
+          totalAmount: 125,
+          submittedById: 'vendor-user-1',
+          quoteNumber: expect.stringMatching(/^QT-\d{4}-0005$/),
+        }),
+      }));
+      expect(mockPrisma.rFQ.update).toHaveBeenCalledWith({
+        where: { id: 'rfq-1' },
+        data: { status: 'RESPONSES_RECEIVED' },
+      });
+      expect(quote.revision).toBe(1);
+    });
+
+    it('should revise an existing quote in place', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue({
+        ...openRFQ,
+        status: 'RESPONSES_RECEIVED',
+        quotes: [{ id: 'quote-1', quoteNumber: 'QT-2024-0005', status: 'SUBMITTED', totalAmount: 125, revision: 1 }],
+      });
+      mockPrisma.quote.update.mockResolvedValue({ id: 'quote-1', revision: 2 });
+
+      await vendorPortalService.submitQuote(actor, 'rfq-1', {
+        ...quoteData,
+        lineItems: [{ itemCatalogId: 'item-1', quantity: 10, unitPrice: 11 }],
+      });
+
+      expect(mockPrisma.quoteLineItem.deleteMany).toHaveBeenCalledWith({ where: { quoteId: 'quote-1' } });
+      expect(mockPrisma.quote.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'quote-1' },
+        data: expect.objectContaining({
+          totalAmount: 110,
+          revision: { increment: 1 },
+          exchangeRate: null,
+          exchangeRateDate: null,
+          normalisedAmount: null,
+          landedCost: null,
+        }),
+      }));
+      expect(mockPrisma.quote.create).not.toHaveBeenCalled();
+    });
+
+    it('should resubmit a quote superseded by an addendum against the current revision', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue({
+        ...openRFQ,
+        revision: 2,
+        quotes: [{ id: 'quote-1', quoteNumber: 'QT-2024-0005', status: 'SUPERSEDED', totalAmount: 125, revision: 1 }],
+      });
+      mockPrisma.quote.update.mockResolvedValue({ id: 'quote-1', revision: 2 });
+
+      await vendorPortalService.submitQuote(actor, 'rfq-1', quoteData);
+
+      expect(mockPrisma.quote.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'SUBMITTED', rfqRevision: 2 }),
+      }));
+    });
+
+    it('should hide RFQs the vendor was not invited to', async () => {
+      mockPrisma.rFQVendor.findUnique.mockResolvedValue(null);
+
+      await expect(vendorPortalService.submitQuote(actor, 'rfq-1', quoteData)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(mockPrisma.rFQ.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject quotes after the response deadline', async () => {
+      mockPrisma.rFQ.findUnique.mockResolvedValue({
+        ...openRFQ,
+        responseDeadline: new Date(Date.now() - 60 * 1000),
+      });
+
+      await expect(vendorPortalService.submitQuote(actor, 'rfq-1', quoteData)).rejects.toThrow(AppError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acknowledgePurchaseOrder', () => {
+    it('should acknowledge a sent purchase order', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue({
+        id: 'po-1', poNumber: 'PO-202401-0001', vendorId: 'vendor-1', vesselId: 'vessel-1', status: 'SENT', notes: null, deliveryDate: null,
+      });
+      mockPrisma.purchaseOrder.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'po-1', ...data }));
+
+      const po = await vendorPortalService.acknowledgePurchaseOrder(actor, 'po-1', {});
+
+      expect(po.status).toBe('ACKNOWLEDGED');
+      expect(po.acknowledgedById).toBe('vendor-user-1');
+    });
+
+    it('should not expose another vendor\'s purchase order', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue({ id: 'po-1', vendorId: 'vendor-2', status: 'SENT' });
+
+      await expect(vendorPortalService.acknowledgePurchaseOrder(actor, 'po-1', {})).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(mockPrisma.purchaseOrder.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPurchaseOrders', () => {
+    it('should keep drafts hidden even when the vendor filters by status', async () => {
+      mockPrisma.purchaseOrder.findMany.mockResolvedValue([]);
+
+      await vendorPortalService.getPurchaseOrders('vendor-1', 'DRAFT');
+
+      expect(mockPrisma.purchaseOrder.findMany.mock.calls[0][0].where).toEqual({
+        vendorId: 'vendor-1',
+        AND: [{ status: { not: 'DRAFT' } }, { status: 'DRAFT' }],
+      });
+    });
+  });
+
+  describe('token realms', () => {
+    beforeEach(() => {
+      process.env.JWT_SECRET = 'test-secret';
+    });
+
+    it('should not accept vendor tokens on internal routes or internal tokens on the portal', () => {
+      const vendorToken = generateVendorAccessToken({ vendorUserId: 'vendor-user-1', vendorId: 'vendor-1', email: 'sales@vendor.com' });
+      const internalToken = generateAccessToken({ userId: 'user-1', email: 'buyer@flowmarine.com', role: 'PROCUREMENT_MANAGER' });
+
+      expect(verifyVendorAccessToken(vendorToken).vendorId).toBe('vendor-1');
+      expect(() => verifyAccessToken(vendorToken)).toThrow();
+      expect(() => verifyVendorAccessToken(internalToken)).toThrow();
+    });
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { PrismaClient } from '@prisma/client';
 import { WorkflowEngine } from '../services/workflowEngine';
 import { AuditService } from '../services/auditService';
+import { workflowRuleService } from '../services/workflowRuleService';
+import { DEFAULT_WORKFLOW_RULES, DEFAULT_APPROVAL_SLAS } from '../models/WorkflowRule';
 
 // Mock Prisma
 const mockPrisma = {
@@ -15,18 +17,38 @@ const mockPrisma = {
     groupBy: vi.fn(),
     aggregate: vi.fn()
   },
+  approvalGroup: {
+    createMany: vi.fn(),
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    count: vi.fn()
+  },
   budget: {
     findFirst: vi.fn()
   },
   user: {
     findMany: vi.fn()
-  }
+  },
+  $transaction: vi.fn()
 } as unknown as PrismaClient;
 
 // Mock AuditService
 vi.mock('../services/auditService', () => ({
   AuditService: {
-    logWorkflowDecision: vi.fn()
+    logWorkflowDecision: vi.fn(),
+    log: vi.fn()
+  }
+}));
+
+// Mock rule set persistence
+vi.mock('../services/workflowRuleService', () => ({
+  workflowRuleService: {
+    resolveActiveRules: vi.fn(),
+    recordEvaluation: vi.fn(),
+    publishScopeUpdate: vi.fn(),
+    getApprovalSla: vi.fn()
   }
 }));
 
@@ -36,6 +58,13 @@ describe('WorkflowEngine', () => {
   beforeEach(() => {
     workflowEngine = new WorkflowEngine(mockPrisma);
     vi.clearAllMocks();
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma));
+    vi.mocked(mockPrisma.approvalGroup.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(workflowRuleService.resolveActiveRules).mockResolvedValue(DEFAULT_WORKFLOW_RULES);
+    vi.mocked(workflowRuleService.recordEvaluation).mockResolvedValue({ id: 'evaluation-1' } as any);
+    vi.mocked(workflowRuleService.getApprovalSla).mockImplementation((_rules, urgencyLevel) =>
+      DEFAULT_APPROVAL_SLAS.find(sla => sla.urgencyLevel === urgencyLevel)!
+    );
   });
 
   afterEach(() => {
@@ -200,13 +229,13 @@ describe('WorkflowEngine', () => {
     it('should escalate to fleet level when vessel budget exceeded', async () => {
       // Mock vessel budget that would be exceeded
       mockPrisma.budget.findFirst = vi.fn().mockResolvedValue({
-        amount: 5000,
+        amount: 3000,
         currency: 'USD'
       });
 
       const requisition = {
         ...mockRequisition,
-        totalAmount: 6000 // Exceeds vessel budget
+        totalAmount: 4000 // Within the vessel approval threshold but exceeds vessel budget
       };
 
       const decision = await workflowEngine.evaluateRequisition(requisition);
@@ -215,6 +244,24 @@ describe('WorkflowEngine', () => {
       expect(decision.approverRole).toBe('PROCUREMENT_MANAGER');
       expect(decision.reason).toContain('Escalated to FLEET');
     });
+
+    it('should escalate fleet-level requisitions to company level when vessel budget exceeded', async () => {
+      mockPrisma.budget.findFirst = vi.fn().mockResolvedValue({
+        amount: 5000,
+        currency: 'USD'
+      });
+
+      const requisition = {
+        ...mockRequisition,
+        totalAmount: 6000 // Fleet approval threshold
+      };
+
+      const decision = await workflowEngine.evaluateRequisition(requisition);
+
+      expect(decision.budgetHierarchy).toBe('COMPANY');
+      expect(decision.approverRole).toBe('FINANCE_TEAM');
+      expect(decision.reason).toContain('Escalated to COMPANY');
+    });
   });
 
   describe('createApprovalWorkflow', () => {
@@ -331,7 +378,22 @@ describe('WorkflowEngine', () => {
         }
       ];
 
-      await workflowEngine.updateApprovalThresholds(newThresholds);
+      vi.mocked(workflowRuleService.publishScopeUpdate).mockImplementation(async (changes: any) => {
+        vi.mocked(workflowRuleService.resolveActiveRules).mockResolvedValue({
+          ...DEFAULT_WORKFLOW_RULES,
+          ruleSetId: 'rule-set-2',
+          version: 2,
+          ...changes
+        });
+        return {} as any;
+      });
+
+      await workflowEngine.updateApprovalThresholds(newThresholds, 'admin-1');
+
+      expect(workflowRuleService.publishScopeUpdate).toHaveBeenCalledWith(
+        { approvalThresholds: newThresholds },
+        'admin-1'
+      );
 
       // Verify the thresholds were updated by testing evaluation
       const requisition = {
@@ -357,6 +419,7 @@ describe('WorkflowEngine', () => {
 
       const decision = await workflowEngine.evaluateRequisition(requisition);
       expect(decision.autoApprove).toBe(true);
+      expect(decision.ruleSetVersion).toBe(2);
     });
   });
 
@@ -372,7 +435,15 @@ describe('WorkflowEngine', () => {
         }
       ];
 
-      await workflowEngine.updateEmergencyBypasses(newBypasses);
+      vi.mocked(workflowRuleService.publishScopeUpdate).mockImplementation(async (changes: any) => {
+        vi.mocked(workflowRuleService.resolveActiveRules).mockResolvedValue({
+          ...DEFAULT_WORKFLOW_RULES,
+          ...changes
+        });
+        return {} as any;
+      });
+
+      await workflowEngine.updateEmergencyBypasses(newBypasses, 'admin-1');
 
       // Test that the new bypass rule works
       const requisition = {
@@ -400,4 +471,207 @@ describe('WorkflowEngine', () => {
       expect(decision.emergencyBypass).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('approval graphs', () => {
+    const graphRules = {
+      ...DEFAULT_WORKFLOW_RULES,
+      approvalThresholds: DEFAULT_WORKFLOW_RULES.approvalThresholds.map(threshold =>
+        threshold.requiredRole === 'PROCUREMENT_MANAGER'
+          ? {
+              ...threshold,
+              approvalGraph: {
+                stages: [
+                  {
+                    name: 'Technical and finance review',
+                    groups: [
+                      { key: 'technical', name: 'Technical superintendent', approverRoles: ['SUPERINTENDENT'], mode: 'ALL' as const },
+                      { key: 'finance', name: 'Finance', approverRoles: ['FINANCE_TEAM'], mode: 'ALL' as const },
+                      {
+                        key: 'safety',
+                        name: 'Safety officers',
+                        approverRoles: ['CAPTAIN', 'CHIEF_ENGINEER'],
+                        mode: 'ANY' as const,
+                        condition: { criticalityLevels: ['SAFETY_CRITICAL' as const] }
+                      }
+                    ]
+                  },
+                  {
+                    name: 'Procurement sign-off',
+                    groups: [
+                      { key: 'procurement', name: 'Procurement', approverRoles: ['PROCUREMENT_MANAGER'], mode: 'ALL' as const }
+                    ]
+                  }
+                ]
+              }
+            }
+          : threshold
+      )
+    };
+
+    const requisition = {
+      id: 'req-1',
+      vesselId: 'vessel-1',
+      requestedById: 'user-1',
+      urgencyLevel: 'ROUTINE' as const,
+      totalAmount: 8000,
+      currency: 'USD',
+      vessel: { id: 'vessel-1', name: 'Test Vessel' },
+      requestedBy: { id: 'user-1', role: 'VESSEL_CREW' as const },
+      items: [
+        {
+          itemCatalog: { criticalityLevel: 'ROUTINE' as const, category: 'ENGINE_PARTS' },
+          quantity: 1,
+          totalPrice: 8000
+        }
+      ]
+    };
+
+    it('should skip conditional branches that do not apply', async () => {
+      mockPrisma.budget.findFirst = vi.fn().mockResolvedValue(null);
+
+      const decision = await workflowEngine.evaluateRequisition(requisition as any, { rules: graphRules });
+
+      const applies = Object.fromEntries(decision.approvalGraph!.groups.map(group => [group.key, group.applies]));
+      expect(applies).toEqual({ technical: true, finance: true, safety: false, procurement: true });
+      expect(decision.approvalGraph!.groups.find(group => group.key === 'safety')!.conditionSummary)
+        .toBe('criticality in SAFETY_CRITICAL');
+    });
+
+    it('should open parallel groups of the first stage together', async () => {
+      mockPrisma.budget.findFirst = vi.fn().mockResolvedValue(null);
+      const decision = await workflowEngine.evaluateRequisition(requisition as any, { rules: graphRules });
+
+      mockPrisma.approvalGroup.findMany = vi.fn().mockResolvedValue([
+        { id: 'group-technical', stage: 1, mode: 'ALL', approverRoles: ['SUPERINTENDENT'], requiredApprovals: 1, name: 'Technical superintendent' },
+        { id: 'group-finance', stage: 1, mode: 'ALL', approverRoles: ['FINANCE_TEAM'], requiredApprovals: 1, name: 'Finance' },
+        { id: 'group-procurement', stage: 2, mode: 'ALL', approverRoles: ['PROCUREMENT_MANAGER'], requiredApprovals: 1, name: 'Procurement' }
+      ]);
+      mockPrisma.requisition.findUnique = vi.fn().mockResolvedValue({ vesselId: 'vessel-1' });
+      mockPrisma.user.findMany = vi.fn().mockResolvedValue([
+        { id: 'super-1', role: 'SUPERINTENDENT' },
+        { id: 'finance-1', role: 'FINANCE_TEAM' }
+      ]);
+
+      await workflowEngine.createApprovalWorkflow('req-1', decision);
+
+      expect(mockPrisma.approvalGroup.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({ key: 'safety', status: 'SKIPPED' }),
+          expect.objectContaining({ key: 'procurement', stage: 2, status: 'WAITING' })
+        ])
+      });
+      expect(mockPrisma.approval.create).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.approval.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ approverId: 'finance-1', approvalGroupId: 'group-finance', level: 1 })
+      });
+      expect(mockPrisma.approvalGroup.updateMany).not.toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'group-procurement', status: 'WAITING' }
+      }));
+    });
+
+    it('should satisfy any-of-N groups once enough approvers agree', () => {
+      const group = { mode: 'ANY' as const, requiredApprovals: 2 };
+
+      expect(workflowEngine.evaluateGroupOutcome(group, [
+        { status: 'APPROVED' }, { status: 'PENDING' }, { status: 'PENDING' }
+      ])).toBe('ACTIVE');
+      expect(workflowEngine.evaluateGroupOutcome(group, [
+        { status: 'APPROVED' }, { status: 'APPROVED' }, { status: 'PENDING' }
+      ])).toBe('APPROVED');
+      expect(workflowEngine.evaluateGroupOutcome(group, [
+        { status: 'APPROVED' }, { status: 'REJECTED' }, { status: 'REJECTED' }
+      ])).toBe('REJECTED');
+      expect(workflowEngine.evaluateGroupOutcome({ mode: 'ALL', requiredApprovals: 2 }, [
+        { status: 'APPROVED' }, { status: 'REJECTED' }
+      ])).toBe('REJECTED');
+    });
+
+    it('should only approve the requisition when the last stage is satisfied', async () => {
+      mockPrisma.approval.findUnique = vi.fn().mockResolvedValue({
+        id: 'approval-9', requisitionId: 'req-1', approverId: 'procurement-1', status: 'PENDING', approvalGroupId: 'group-procurement'
+      });
+      mockPrisma.approval.update = vi.fn();
+      mockPrisma.approval.deleteMany = vi.fn();
+      mockPrisma.approvalGroup.findUnique = vi.fn().mockResolvedValue({
+        id: 'group-procurement', status: 'ACTIVE', mode: 'ALL', requiredApprovals: 1,
+        approvals: [{ status: 'APPROVED' }]
+      });
+      mockPrisma.approvalGroup.count = vi.fn().mockResolvedValue(0);
+      mockPrisma.approvalGroup.findMany = vi.fn().mockResolvedValue([]);
+      mockPrisma.requisition.findUnique = vi.fn().mockResolvedValue({ id: 'req-1', status: 'APPROVED' });
+      mockPrisma.approval.findMany = vi.fn().mockResolvedValue([]);
+
+      await workflowEngine.recordApprovalDecision('approval-9', 'procurement-1', 'APPROVED');
+
+      expect(mockPrisma.requisition.update).toHaveBeenCalledWith({
+        where: { id: 'req-1' },
+        data: { status: 'APPROVED' }
+      });
+    });
+
+    it('should keep the requisition open while a parallel group is still active', async () => {
+      mockPrisma.approval.findUnique = vi.fn().mockResolvedValue({
+        id: 'approval-1', requisitionId: 'req-1', approverId: 'super-1', status: 'PENDING', approvalGroupId: 'group-technical'
+      });
+      mockPrisma.approval.update = vi.fn();
+      mockPrisma.approval.deleteMany = vi.fn();
+      mockPrisma.approvalGroup.findUnique = vi.fn().mockResolvedValue({
+        id: 'group-technical', status: 'ACTIVE', mode: 'ALL', requiredApprovals: 1,
+        approvals: [{ status: 'APPROVED' }]
+      });
+      mockPrisma.approvalGroup.count = vi.fn().mockResolvedValue(1);
+      mockPrisma.approvalGroup.findMany = vi.fn().mockResolvedValue([]);
+      mockPrisma.requisition.findUnique = vi.fn().mockResolvedValue({ id: 'req-1', status: 'UNDER_REVIEW' });
+      mockPrisma.approval.findMany = vi.fn().mockResolvedValue([]);
+
+      await workflowEngine.recordApprovalDecision('approval-1', 'super-1', 'APPROVED');
+
+      expect(mockPrisma.requisition.update).not.toHaveBeenCalled();
+      expect(mockPrisma.approvalGroup.updateMany).toHaveBeenCalledWith({
+        where: { id: 'group-technical', status: 'ACTIVE' },
+        data: { status: 'APPROVED', completedAt: expect.any(Date) }
+      });
+    });
+
+    it('should not open the next stage twice when concurrent approvals settle the last group', async () => {
+      mockPrisma.approval.findUnique = vi.fn().mockResolvedValue({
+        id: 'approval-1', requisitionId: 'req-1', approverId: 'super-1', status: 'PENDING', approvalGroupId: 'group-technical'
+      });
+      mockPrisma.approval.update = vi.fn();
+      mockPrisma.approval.deleteMany = vi.fn();
+      mockPrisma.approvalGroup.findUnique = vi.fn().mockResolvedValue({
+        id: 'group-technical', status: 'ACTIVE', mode: 'ALL', requiredApprovals: 1,
+        approvals: [{ status: 'APPROVED' }]
+      });
+      mockPrisma.approvalGroup.count = vi.fn().mockResolvedValue(0);
+      mockPrisma.approvalGroup.findMany = vi.fn().mockResolvedValue([
+        { id: 'group-procurement', stage: 2, mode: 'ALL', approverRoles: ['PROCUREMENT_MANAGER'], requiredApprovals: 1, name: 'Procurement' }
+      ]);
+      mockPrisma.requisition.findUnique = vi.fn().mockResolvedValue({ id: 'req-1', vesselId: 'vessel-1', status: 'UNDER_REVIEW' });
+      mockPrisma.user.findMany = vi.fn().mockResolvedValue([{ id: 'procurement-1', role: 'PROCUREMENT_MANAGER' }]);
+      mockPrisma.approval.findMany = vi.fn().mockResolvedValue([]);
+      // The other decision already opened the procurement stage
+      vi.mocked(mockPrisma.approvalGroup.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await workflowEngine.recordApprovalDecision('approval-1', 'super-1', 'APPROVED');
+
+      expect(mockPrisma.approvalGroup.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'group-procurement', status: 'WAITING' },
+        data: { status: 'ACTIVE', activatedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.approval.create).not.toHaveBeenCalled();
+      expect(mockPrisma.requisition.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let another user decide an assigned approval', async () => {
+      mockPrisma.approval.findUnique = vi.fn().mockResolvedValue({
+        id: 'approval-1', requisitionId: 'req-1', approverId: 'super-1', status: 'PENDING', approvalGroupId: 'group-technical'
+      });
+
+      await expect(workflowEngine.recordApprovalDecision('approval-1', 'someone-else', 'APPROVED'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+});
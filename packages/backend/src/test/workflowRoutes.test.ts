@@ -5,8 +5,10 @@ import { PrismaClient } from '@prisma/client';
 import workflowRoutes from '../routes/workflowRoutes';
 import { authenticateToken } from '../middleware/authentication';
 import { authorizeRole } from '../middleware/authorization';
-import { validateVesselAccess } from '../middleware/vesselAccess';
+import { validateVesselAccess, hasVesselAccess } from '../middleware/vesselAccess';
 import { auditLogger } from '../middleware/auditLogger';
+import { workflowRuleService } from '../services/workflowRuleService';
+import { DEFAULT_WORKFLOW_RULES } from '../models/WorkflowRule';
 
 // Mock middleware
 vi.mock('../middleware/authentication', () => ({
@@ -26,7 +28,8 @@ vi.mock('../middleware/authorization', () => ({
 }));
 
 vi.mock('../middleware/vesselAccess', () => ({
-  validateVesselAccess: vi.fn((req, res, next) => next())
+  validateVesselAccess: vi.fn((req, res, next) => next()),
+  hasVesselAccess: vi.fn(() => true)
 }));
 
 vi.mock('../middleware/auditLogger', () => ({
@@ -34,34 +37,62 @@ vi.mock('../middleware/auditLogger', () => ({
 }));
 
 // Mock Prisma
-const mockPrisma = {
-  requisition: {
-    findUnique: vi.fn(),
-    update: vi.fn()
-  },
-  approval: {
-    create: vi.fn(),
-    groupBy: vi.fn(),
-    aggregate: vi.fn()
-  },
-  vessel: {
-    findUnique: vi.fn()
-  },
-  budget: {
-    findFirst: vi.fn()
-  },
-  user: {
-    findMany: vi.fn()
-  }
-} as unknown as PrismaClient;
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma = {
+    requisition: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    approval: {
+      create: vi.fn(),
+      groupBy: vi.fn(),
+      aggregate: vi.fn()
+    },
+    vessel: {
+      findUnique: vi.fn()
+    },
+    budget: {
+      findFirst: vi.fn()
+    },
+    user: {
+      findMany: vi.fn()
+    }
+  } as any;
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma)
+}));
 
 // Mock WorkflowEngine
 vi.mock('../services/workflowEngine', () => ({
+  REQUISITION_WORKFLOW_INCLUDE: { vessel: true, requestedBy: true, items: true },
   workflowEngine: {
     evaluateRequisition: vi.fn(),
     createApprovalWorkflow: vi.fn(),
     updateApprovalThresholds: vi.fn(),
-    updateEmergencyBypasses: vi.fn()
+    updateEmergencyBypasses: vi.fn(),
+    simulateRequisition: vi.fn()
+  }
+}));
+
+// Mock rule set persistence
+vi.mock('../services/workflowRuleService', () => ({
+  workflowRuleService: {
+    resolveActiveRules: vi.fn(),
+    getRuleSet: vi.fn(),
+    toResolvedRules: vi.fn(),
+    validateRules: vi.fn(),
+    getEvaluationHistory: vi.fn()
+  }
+}));
+
+// Mock approval SLA monitoring
+vi.mock('../services/approvalSlaService', () => ({
+  approvalSlaService: {
+    getOverdueApprovals: vi.fn(),
+    processOverdueApprovals: vi.fn()
   }
 }));
 
@@ -81,10 +112,11 @@ describe('Workflow Routes', () => {
     app.use(express.json());
     app.use('/api/workflow', workflowRoutes);
     vi.clearAllMocks();
+    vi.mocked(workflowRuleService.resolveActiveRules).mockResolvedValue(DEFAULT_WORKFLOW_RULES);
   });
 
   afterEach(() => {
-    vi.resetAllMocks();
+    vi.restoreAllMocks();
   });
 
   describe('GET /api/workflow/requisitions/:requisitionId/evaluate', () => {
@@ -132,7 +164,7 @@ describe('Workflow Routes', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data.requisitionId).toBe('req-1');
       expect(response.body.data.decision).toEqual(mockDecision);
-      expect(workflowEngine.evaluateRequisition).toHaveBeenCalledWith(mockRequisition);
+      expect(workflowEngine.evaluateRequisition).toHaveBeenCalledWith(mockRequisition, { evaluatedById: 'user-1' });
     });
 
     it('should return 404 for non-existent requisition', async () => {
@@ -304,7 +336,7 @@ describe('Workflow Routes', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.message).toBe('Approval thresholds updated successfully');
-      expect(workflowEngine.updateApprovalThresholds).toHaveBeenCalledWith(newThresholds);
+      expect(workflowEngine.updateApprovalThresholds).toHaveBeenCalledWith(newThresholds, 'user-1');
     });
 
     it('should validate threshold structure', async () => {
@@ -371,7 +403,73 @@ describe('Workflow Routes', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.message).toBe('Emergency bypasses updated successfully');
-      expect(workflowEngine.updateEmergencyBypasses).toHaveBeenCalledWith(newBypasses);
+      expect(workflowEngine.updateEmergencyBypasses).toHaveBeenCalledWith(newBypasses, 'user-1');
+    });
+  });
+
+  describe('POST /api/workflow/requisitions/:requisitionId/simulate', () => {
+    it('should simulate a requisition against a draft rule set', async () => {
+      const draftRules = { ...DEFAULT_WORKFLOW_RULES, ruleSetId: 'rule-set-3', version: 3 };
+      vi.mocked(workflowRuleService.getRuleSet).mockResolvedValue({ id: 'rule-set-3' } as any);
+      vi.mocked(workflowRuleService.toResolvedRules).mockReturnValue(draftRules);
+
+      const { workflowEngine } = await import('../services/workflowEngine');
+      vi.mocked(workflowEngine.simulateRequisition).mockResolvedValue({
+        simulated: { approverRole: 'FINANCE_TEAM' },
+        current: { approverRole: 'PROCUREMENT_MANAGER' },
+        outcomeChanged: true
+      } as any);
+
+      const response = await request(app)
+        .post('/api/workflow/requisitions/req-1/simulate')
+        .send({ ruleSetId: 'rule-set-3' })
+        .expect(200);
+
+      expect(response.body.data.outcomeChanged).toBe(true);
+      expect(workflowEngine.simulateRequisition).toHaveBeenCalledWith('req-1', draftRules, 'user-1');
+    });
+
+    it('should require a rule set or inline rules', async () => {
+      const response = await request(app)
+        .post('/api/workflow/requisitions/req-1/simulate')
+        .send({})
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('GET /api/workflow/requisitions/:requisitionId/evaluations', () => {
+    it('should return the evaluation history of a requisition on an accessible vessel', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue({ vesselId: 'vessel-1' });
+      vi.mocked(workflowRuleService.getEvaluationHistory).mockResolvedValue([{ id: 'evaluation-1' }] as any);
+
+      const response = await request(app)
+        .get('/api/workflow/requisitions/req-1/evaluations')
+        .expect(200);
+
+      expect(response.body.data).toEqual([{ id: 'evaluation-1' }]);
+      expect(workflowRuleService.getEvaluationHistory).toHaveBeenCalledWith('req-1', false);
+    });
+
+    it('should deny access to a requisition on another vessel', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue({ vesselId: 'vessel-2' });
+      vi.mocked(hasVesselAccess).mockReturnValueOnce(false);
+
+      const response = await request(app)
+        .get('/api/workflow/requisitions/req-1/evaluations')
+        .expect(403);
+
+      expect(response.body.code).toBe('VESSEL_ACCESS_DENIED');
+      expect(workflowRuleService.getEvaluationHistory).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown requisition', async () => {
+      mockPrisma.requisition.findUnique.mockResolvedValue(null);
+
+      await request(app)
+        .get('/api/workflow/requisitions/req-404/evaluations')
+        .expect(404);
     });
   });
 
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { workflowRuleService } from '../services/workflowRuleService';
+import { DEFAULT_WORKFLOW_RULES } from '../models/WorkflowRule';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma: any = {
+    workflowRuleSet: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    workflowEvaluation: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  return { mockPrisma };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
+
+vi.mock('../services/auditService', () => ({
+  AuditService: {
+    log: vi.fn(),
+  },
+}));
+
+const ruleSet = (overrides: any = {}) => ({
+  id: 'rule-set-1',
+  name: 'Approval rules',
+  description: null,
+  fleet: null,
+  vesselType: null,
+  version: 1,
+  status: 'PUBLISHED',
+  approvalThresholds: DEFAULT_WORKFLOW_RULES.approvalThresholds,
+  emergencyBypasses: DEFAULT_WORKFLOW_RULES.emergencyBypasses,
+  effectiveFrom: new Date('2024-01-01'),
+  effectiveTo: null,
+  ...overrides,
+});
+
+describe('WorkflowRuleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+  });
+
+  describe('resolveActiveRules', () => {
+    it('should prefer the most specific rule set for the vessel', async () => {
+      mockPrisma.workflowRuleSet.findMany.mockResolvedValue([
+        ruleSet({ id: 'global', version: 4 }),
+        ruleSet({ id: 'tankers', vesselType: 'TANKER', version: 2 }),
+        ruleSet({ id: 'north-sea', fleet: 'NORTH_SEA', version: 1 }),
+        ruleSet({ id: 'other-fleet', fleet: 'ASIA', vesselType: 'TANKER', version: 7 }),
+      ]);
+
+      const rules = await workflowRuleService.resolveActiveRules({ fleet: 'NORTH_SEA', vesselType: 'TANKER' });
+
+      expect(rules.ruleSetId).toBe('north-sea');
+    });
+
+    it('should fall back to the built-in defaults when nothing is published', async () => {
+      mockPrisma.workflowRuleSet.findMany.mockResolvedValue([]);
+
+      const rules = await workflowRuleService.resolveActiveRules({ fleet: 'NORTH_SEA' });
+
+      expect(rules).toBe(DEFAULT_WORKFLOW_RULES);
+      expect(rules.ruleSetId).toBeNull();
+    });
+  });
+
+  describe('createDraft', () => {
+    it('should create the next version for the scope', async () => {
+      mockPrisma.workflowRuleSet.findMany.mockResolvedValue([]);
+      mockPrisma.workflowRuleSet.findFirst.mockResolvedValue({ version: 3 });
+      mockPrisma.workflowRuleSet.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'rule-set-4', ...data }));
+
+      const draft = await workflowRuleService.createDraft({ name: 'Tanker rules', vesselType: 'TANKER' }, 'admin-1');
+
+      expect(mockPrisma.workflowRuleSet.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { fleet: null, vesselType: 'TANKER' },
+      }));
+      expect(draft.version).toBe(4);
+      expect(draft.status).toBe('DRAFT');
+    });
+  });
+
+  describe('publishRuleSet', () => {
+    it('should close the previous version for the same scope', async () => {
+      const effectiveFrom = new Date('2024-06-01');
+      mockPrisma.workflowRuleSet.findUnique.mockResolvedValue(
+        ruleSet({ id: 'rule-set-2', fleet: 'NORTH_SEA', version: 2, status: 'DRAFT', effectiveFrom: null })
+      );
+      mockPrisma.workflowRuleSet.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'rule-set-2', ...data }));
+
+      const published = await workflowRuleService.publishRuleSet('rule-set-2', { effectiveFrom }, 'admin-1');
+
+      expect(mockPrisma.workflowRuleSet.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ fleet: 'NORTH_SEA', vesselType: null, status: 'PUBLISHED' }),
+        data: { effectiveTo: effectiveFrom },
+      }));
+      expect(published.status).toBe('PUBLISHED');
+      expect(published.publishedById).toBe('admin-1');
+    });
+
+    it('should not republish a published version', async () => {
+      mockPrisma.workflowRuleSet.findUnique.mockResolvedValue(ruleSet());
+
+      await expect(workflowRuleService.publishRuleSet('rule-set-1', {}, 'admin-1')).rejects.toMatchObject({
+        errorCode: 'RULE_SET_NOT_DRAFT',
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateRules', () => {
+    it('should reject thresholds that leave a gap', () => {
+      const [first, second, ...rest] = DEFAULT_WORKFLOW_RULES.approvalThresholds;
+
+      expect(() => workflowRuleService.validateRules({
+        approvalThresholds: [first, { ...second, minAmount: second.minAmount + 100 }, ...rest],
+        emergencyBypasses: [],
+      })).toThrow('contiguous');
+    });
+
+    it('should reject an SLA that escalates before the first reminder', () => {
+      expect(() => workflowRuleService.validateRules({
+        ...DEFAULT_WORKFLOW_RULES,
+        approvalSlas: [
+          { urgencyLevel: 'ROUTINE', reminderAfterHours: 30, reminderIntervalHours: 12, escalateAfterHours: 24, maxEscalations: 2 },
+        ],
+      })).toThrow('remind before');
+    });
+
+    it('should accept the built-in defaults', () => {
+      expect(() => workflowRuleService.validateRules(DEFAULT_WORKFLOW_RULES)).not.toThrow();
+    });
+  });
+});
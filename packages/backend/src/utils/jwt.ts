@@ -138,6 +138,76 @@ export const verifyRefreshToken = (token: string): { userId: string } => {
   }
 };
 
+// Vendor portal tokens use their own audience so they are never accepted on internal routes
+const VENDOR_AUDIENCE = 'flowmarine-vendors';
+
+export const VendorJWTPayloadSchema = z.object({
+  vendorUserId: z.string(),
+  vendorId: z.string(),
+  email: z.string().email(),
+  realm: z.literal('vendor'),
+  iat: z.number(),
+  exp: z.number()
+});
+
+export type VendorJWTPayload = z.infer<typeof VendorJWTPayloadSchema>;
+
+/**
+ * Generate JWT access token for a vendor portal user
+ */
+export const generateVendorAccessToken = (payload: {
+  vendorUserId: string;
+  vendorId: string;
+  email: string;
+}): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is required');
+  }
+
+  return jwt.sign(
+    {
+      vendorUserId: payload.vendorUserId,
+      vendorId: payload.vendorId,
+      email: payload.email,
+      realm: 'vendor'
+    },
+    secret,
+    {
+      expiresIn: (process.env.JWT_VENDOR_ACCESS_EXPIRY || '8h') as jwt.SignOptions['expiresIn'],
+      issuer: 'flowmarine',
+      audience: VENDOR_AUDIENCE
+    }
+  );
+};
+
+/**
+ * Verify and decode vendor portal access token
+ */
+export const verifyVendorAccessToken = (token: string): VendorJWTPayload => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is required');
+  }
+
+  try {
+    const decoded = jwt.verify(token, secret, {
+      issuer: 'flowmarine',
+      audience: VENDOR_AUDIENCE
+    }) as any;
+
+    return VendorJWTPayloadSchema.parse(decoded);
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('Token expired');
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new Error('Invalid token');
+    }
+    throw error;
+  }
+};
+
 /**
  * Check if token is close to expiry (within 5 minutes)
  */
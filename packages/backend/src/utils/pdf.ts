@@ -0,0 +1,80 @@
+import PDFDocument from 'pdfkit';
+
+export interface PDFStyling {
+  colors: {
+    primary: string;
+    secondary: string;
+    accent: string;
+    text: string;
+    background: string;
+  };
+  fonts: {
+    title: { family: string; size: number; weight: string; };
+    heading: { family: string; size: number; weight: string; };
+    body: { family: string; size: number; weight: string; };
+    caption: { family: string; size: number; weight: string; };
+  };
+  branding: {
+    logo?: string;
+    companyName: string;
+    tagline?: string;
+  };
+}
+
+export interface PDFPageSettings {
+  orientation: 'portrait' | 'landscape';
+  margins: { top: number; bottom: number; left: number; right: number; };
+}
+
+export const FLOWMARINE_PDF_STYLING: PDFStyling = {
+  colors: {
+    primary: '#1e40af',
+    secondary: '#0891b2',
+    accent: '#059669',
+    text: '#374151',
+    background: '#ffffff'
+  },
+  fonts: {
+    title: { family: 'Helvetica-Bold', size: 18, weight: 'bold' },
+    heading: { family: 'Helvetica-Bold', size: 14, weight: 'bold' },
+    body: { family: 'Helvetica', size: 10, weight: 'normal' },
+    caption: { family: 'Helvetica', size: 8, weight: 'normal' }
+  },
+  branding: {
+    companyName: 'FlowMarine',
+    tagline: 'Maritime Procurement Excellence'
+  }
+};
+
+export const DEFAULT_PDF_PAGE_SETTINGS: PDFPageSettings = {
+  orientation: 'portrait',
+  margins: { top: 50, bottom: 50, left: 50, right: 50 }
+};
+
+/**
+ * Render an A4 document and collect it into a buffer
+ */
+export async function renderPDF(
+  pageSettings: PDFPageSettings,
+  draw: (doc: PDFKit.PDFDocument) => void | Promise<void>,
+  info?: PDFKit.DocumentInfo
+): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: pageSettings.orientation,
+    margins: pageSettings.margins,
+    info
+  });
+
+  const chunks: Buffer[] = [];
+  const rendered = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  await draw(doc);
+  doc.end();
+
+  return rendered;
+}
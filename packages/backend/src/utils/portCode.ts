@@ -0,0 +1,9 @@
+/**
+ * UN/LOCODE in a free-text location, e.g. "Rotterdam NLRTM"
+ */
+export const extractPortCode = (location?: string | null): string | null => {
+  if (!location) return null;
+
+  const portCodeMatch = location.match(/\b([A-Z]{5})\b/);
+  return portCodeMatch ? portCodeMatch[1] : null;
+};
@@ -0,0 +1,433 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+
+interface LandedCostBreakdown {
+  goods: number;
+  freight: number;
+  duty: number;
+  customsClearance: number;
+  agencyFees: number;
+  total: number;
+  crossBorder: boolean;
+  customsDocuments: string[];
+  notes: string[];
+}
+
+interface QuoteExchangeRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  rateDate: string;
+  source: 'PARITY' | 'HISTORICAL' | 'CURRENT';
+}
+
+interface FxSensitivityScenario {
+  currency: string;
+  shiftPercent: number;
+  rankings: {
+    quoteId: string;
+    vendorName: string;
+    ranking: number;
+    totalScore: number;
+    landedCost: number;
+  }[];
+  recommendedQuoteId: string;
+  rankingChanged: boolean;
+}
+
+interface VendorScore {
+  vendorId: string;
+  vendorName: string;
+  quoteId: string;
+  scores: {
+    priceScore: number;
+    deliveryScore: number;
+    qualityScore: number;
+    locationScore: number;
+    totalScore: number;
+  };
+  ranking: number;
+  recommendation: 'HIGHLY_RECOMMENDED' | 'RECOMMENDED' | 'ACCEPTABLE' | 'NOT_RECOMMENDED';
+  totalAmount: number;
+  normalisedAmount: number;
+  exchangeRate?: QuoteExchangeRate;
+  landedCost?: LandedCostBreakdown;
+  currency: string;
+  deliveryDate?: Date;
+  notes?: string;
+}
+
+interface LandedCostAssumptions {
+  domesticFreightPercent: number;
+  internationalFreightPercent: number;
+  minimumFreight: number;
+  dutyRatePercent: number;
+  customsFeePerDocument: number;
+  agencyFee: number;
+  vendorOverrides?: Record<string, Partial<Record<'freight' | 'duty' | 'customsClearance' | 'agencyFees', number>>>;
+}
+
+interface SideBySideData {
+  rfqId: string;
+  rfqTitle: string;
+  quotes: VendorScore[];
+  comparisonMatrix: any[];
+  scoringCriteria: {
+    priceWeight: number;
+    deliveryWeight: number;
+    qualityWeight: number;
+    locationWeight: number;
+  };
+  landedCostAssumptions: LandedCostAssumptions;
+  currency: string;
+  fxSensitivity: FxSensitivityScenario[];
+}
+
+const ASSUMPTION_FIELDS: { key: keyof Omit<LandedCostAssumptions, 'vendorOverrides'>; label: string; step: string }[] = [
+  { key: 'domesticFreightPercent', label: 'Domestic Freight (%)', step: '0.5' },
+  { key: 'internationalFreightPercent', label: 'International Freight (%)', step: '0.5' },
+  { key: 'minimumFreight', label: 'Minimum Freight', step: '10' },
+  { key: 'dutyRatePercent', label: 'Customs Duty (%)', step: '0.5' },
+  { key: 'customsFeePerDocument', label: 'Clearance Fee per Document', step: '5' },
+  { key: 'agencyFee', label: 'Port Agency Fee', step: '10' }
+];
+
+const LANDED_COST_ROWS = ['Freight', 'Customs Duty', 'Customs Clearance', 'Agency Fees', 'Landed Cost'];
+
+const SideBySideComparison: React.FC = () => {
+  const { rfqId } = useParams<{ rfqId: string }>();
+  const [searchParams] = useSearchParams();
+  const quoteIds = searchParams.get('quoteIds');
+  const [comparison, setComparison] = useState<SideBySideData | null>(null);
+  const [assumptions, setAssumptions] = useState<LandedCostAssumptions | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAssumptions, setShowAssumptions] = useState(false);
+
+  useEffect(() => {
+    if (rfqId) {
+      fetchComparison();
+    }
+  }, [rfqId, quoteIds]);
+
+  const fetchComparison = async () => {
+    try {
+      setLoading(true);
+      const query = quoteIds ? `?quoteIds=${encodeURIComponent(quoteIds)}` : '';
+      const response = await fetch(`/api/quote-comparison/${rfqId}/side-by-side${query}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch side-by-side comparison');
+      }
+
+      const data = await response.json();
+      setComparison(data.data);
+      setAssumptions(data.data.landedCostAssumptions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveAssumptions = async () => {
+    if (!assumptions) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/quote-comparison/${rfqId}/landed-cost-assumptions`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify(assumptions)
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update landed cost assumptions');
+      }
+
+      // Re-score so price scores and the matrix reflect the new landed costs
+      const scoreResponse = await fetch(`/api/quote-comparison/${rfqId}/score`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({})
+      });
+
+      if (!scoreResponse.ok) {
+        throw new Error('Failed to re-score quotes');
+      }
+
+      await fetchComparison();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOverrideChange = (vendorId: string, component: 'freight' | 'duty' | 'customsClearance' | 'agencyFees', value: string) => {
+    if (!assumptions) return;
+
+    const vendorOverrides = { ...assumptions.vendorOverrides };
+    const overrides = { ...vendorOverrides[vendorId] };
+
+    if (value === '') {
+      delete overrides[component];
+    } else {
+      overrides[component] = parseFloat(value);
+    }
+
+    if (Object.keys(overrides).length === 0) {
+      delete vendorOverrides[vendorId];
+    } else {
+      vendorOverrides[vendorId] = overrides;
+    }
+
+    setAssumptions({ ...assumptions, vendorOverrides });
+  };
+
+  const getScoreColor = (score: number) => {
+    if (score >= 8) return 'text-green-600';
+    if (score >= 6) return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4">
+        <div className="flex">
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-red-800">Error</h3>
+            <div className="mt-2 text-sm text-red-700">{error}</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!comparison || !assumptions) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">No Comparison Available</h3>
+        <p className="text-gray-600">Score the quotes to compare them side by side.</p>
+      </div>
+    );
+  }
+
+  const [headerRow, ...matrixRows] = comparison.comparisonMatrix;
+  const vendorColumns = Object.keys(headerRow || {}).filter(key => key !== 'criteria');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{comparison.rfqTitle}</h1>
+            <p className="text-gray-600 mt-1">Side-by-Side Comparison</p>
+          </div>
+          <button
+            onClick={() => setShowAssumptions(!showAssumptions)}
+            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200"
+          >
+            Cost Assumptions
+          </button>
+        </div>
+      </div>
+
+      {/* Landed Cost Assumptions Panel */}
+      {showAssumptions && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Landed Cost Assumptions</h3>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {ASSUMPTION_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700">{field.label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={assumptions[field.key]}
+                  onChange={(e) => setAssumptions({ ...assumptions, [field.key]: parseFloat(e.target.value) || 0 })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          <h4 className="text-sm font-medium text-gray-900 mt-6 mb-2">Vendor Overrides</h4>
+          <p className="text-sm text-gray-500 mb-3">
+            Enter known amounts, such as freight included in the quote, to replace the estimates. Leave blank to use the assumptions above.
+          </p>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Freight</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duty</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Clearance</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agency</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {comparison.quotes.map(quote => (
+                <tr key={quote.quoteId}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{quote.vendorName}</td>
+                  {(['freight', 'duty', 'customsClearance', 'agencyFees'] as const).map(component => (
+                    <td key={component} className="px-4 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        placeholder={quote.landedCost ? quote.landedCost[component].toLocaleString() : ''}
+                        value={assumptions.vendorOverrides?.[quote.vendorId]?.[component] ?? ''}
+                        onChange={(e) => handleOverrideChange(quote.vendorId, component, e.target.value)}
+                        className="block w-28 border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={handleSaveAssumptions}
+              disabled={saving}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save and Re-score'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Comparison Matrix */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Comparison Matrix</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Criteria
+                </th>
+                {vendorColumns.map(column => (
+                  <th key={column} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {headerRow[column]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {matrixRows.map((row: any) => (
+                <tr key={row.criteria} className={row.criteria === 'Landed Cost' ? 'bg-blue-50 font-medium' : ''}>
+                  <td className={`px-6 py-3 whitespace-nowrap text-sm ${LANDED_COST_ROWS.includes(row.criteria) ? 'text-blue-900' : 'text-gray-900'}`}>
+                    {row.criteria}
+                  </td>
+                  {vendorColumns.map(column => (
+                    <td key={column} className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {typeof row[column] === 'number' ? (
+                        <span className={getScoreColor(row[column])}>{row[column].toFixed(1)}</span>
+                      ) : (
+                        row[column]
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* FX Sensitivity */}
+      {comparison.fxSensitivity.length > 0 && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">FX Sensitivity</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Ranking if a quoted currency moves 5% against {comparison.currency}. Quotes are converted at the rate on their submission date.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scenario</th>
+                  {comparison.quotes.map(quote => (
+                    <th key={quote.quoteId} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {quote.vendorName}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                <tr>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">As scored</td>
+                  {comparison.quotes.map(quote => (
+                    <td key={quote.quoteId} className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                      #{quote.ranking}
+                    </td>
+                  ))}
+                </tr>
+                {comparison.fxSensitivity.map(scenario => (
+                  <tr key={`${scenario.currency}-${scenario.shiftPercent}`} className={scenario.rankingChanged ? 'bg-yellow-50' : ''}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {scenario.currency} {scenario.shiftPercent > 0 ? '+' : ''}{scenario.shiftPercent}%
+                      {scenario.rankingChanged && <span className="ml-2 text-xs text-yellow-700">ranking changes</span>}
+                    </td>
+                    {comparison.quotes.map(quote => {
+                      const entry = scenario.rankings.find(ranking => ranking.quoteId === quote.quoteId);
+                      return (
+                        <td key={quote.quoteId} className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {entry ? `#${entry.ranking} (${comparison.currency} ${entry.landedCost.toLocaleString()})` : '-'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Landed Cost Notes */}
+      {comparison.quotes.some(quote => quote.landedCost && quote.landedCost.notes.length > 0) && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <h3 className="text-sm font-medium text-yellow-800 mb-2">Landed Cost Notes</h3>
+          <ul className="text-sm text-yellow-700 space-y-1">
+            {comparison.quotes.flatMap(quote =>
+              (quote.landedCost?.notes || []).map(note => (
+                <li key={`${quote.quoteId}-${note}`}>{quote.vendorName}: {note}</li>
+              ))
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SideBySideComparison;
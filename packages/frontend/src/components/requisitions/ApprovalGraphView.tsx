@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle, Clock, MinusCircle, GitBranch, Users } from 'lucide-react';
+import { Button, Card, Badge } from '../ui';
+import { useAppSelector } from '../../store/hooks';
+import { selectUser } from '../../store/slices/authSlice';
+import {
+  ApprovalGraphGroup,
+  useGetApprovalGraphQuery,
+  useRecordApprovalDecisionMutation,
+} from '../../store/api/requisitionApi';
+
+interface ApprovalGraphViewProps {
+  requisitionId: string;
+}
+
+const groupStatusConfig = {
+  WAITING: { color: 'bg-gray-100 text-gray-700', icon: Clock, label: 'Waiting' },
+  ACTIVE: { color: 'bg-yellow-100 text-yellow-800', icon: Clock, label: 'In progress' },
+  APPROVED: { color: 'bg-green-100 text-green-800', icon: CheckCircle, label: 'Approved' },
+  REJECTED: { color: 'bg-red-100 text-red-800', icon: XCircle, label: 'Rejected' },
+  SKIPPED: { color: 'bg-gray-50 text-gray-400', icon: MinusCircle, label: 'Not required' },
+};
+
+const describeMode = (group: ApprovalGraphGroup) =>
+  group.mode === 'ANY'
+    ? `Any ${group.requiredApprovals} of ${group.approverRoles.join(' / ')}`
+    : `All of ${group.approverRoles.join(', ')}`;
+
+export const ApprovalGraphView: React.FC<ApprovalGraphViewProps> = ({ requisitionId }) => {
+  const user = useAppSelector(selectUser);
+  const { data: graph, isLoading, error } = useGetApprovalGraphQuery(requisitionId);
+  const [recordDecision, { isLoading: isSubmitting }] = useRecordApprovalDecisionMutation();
+  const [comments, setComments] = useState('');
+
+  if (isLoading) {
+    return (
+      <Card className="p-6">
+        <p className="text-sm text-gray-500">Loading approval workflow...</p>
+      </Card>
+    );
+  }
+
+  if (error || !graph || graph.stages.length === 0) {
+    return null;
+  }
+
+  const myPendingApproval = graph.stages
+    .flatMap((stage) => stage.groups)
+    .flatMap((group) => group.approvals)
+    .find((approval) => approval.status === 'PENDING' && approval.approverId === user?.id);
+
+  const decide = async (status: 'APPROVED' | 'REJECTED') => {
+    if (!myPendingApproval) return;
+    await recordDecision({ approvalId: myPendingApproval.id, requisitionId, status, comments: comments || undefined });
+    setComments('');
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Approval Workflow</h3>
+        {graph.satisfied ? (
+          <Badge className="bg-green-100 text-green-800">Complete</Badge>
+        ) : graph.currentStage !== null ? (
+          <Badge className="bg-yellow-100 text-yellow-800">Stage {graph.currentStage}</Badge>
+        ) : null}
+      </div>
+
+      <div className="space-y-4">
+        {graph.stages.map((stage) => (
+          <div key={stage.stage}>
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+              Stage {stage.stage}: {stage.name}
+              {stage.groups.filter((group) => group.status !== 'SKIPPED').length > 1 && ' (parallel)'}
+            </p>
+            <div className="space-y-2">
+              {stage.groups.map((group) => {
+                const config = groupStatusConfig[group.status];
+                const StatusIcon = config.icon;
+                return (
+                  <div
+                    key={group.key}
+                    className={`border rounded-lg p-3 ${group.status === 'SKIPPED' ? 'border-dashed opacity-70' : 'border-gray-200'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium text-gray-900">{group.name}</p>
+                      <Badge className={config.color}>
+                        <StatusIcon className="h-3 w-3" />
+                        <span className="ml-1">{config.label}</span>
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1 flex items-center">
+                      <Users className="h-3 w-3 mr-1" />
+                      {describeMode(group)}
+                      {group.status !== 'SKIPPED' && ` · ${group.approvedCount}/${group.requiredApprovals} approved`}
+                    </p>
+                    {group.conditionSummary && (
+                      <p className="text-xs text-gray-500 mt-1 flex items-center">
+                        <GitBranch className="h-3 w-3 mr-1" />
+                        When {group.conditionSummary}
+                      </p>
+                    )}
+                    {group.approvals.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {group.approvals.map((approval) => (
+                          <li key={approval.id} className="text-sm text-gray-700">
+                            {approval.approverName} ({approval.approverRole}) — {approval.status.toLowerCase()}
+                            {approval.comments && (
+                              <span className="block text-xs text-gray-500">"{approval.comments}"</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {myPendingApproval && (
+        <div className="mt-4 space-y-2">
+          <textarea
+            className="w-full border border-gray-300 rounded p-2 text-sm"
+            placeholder="Comments (required to reject)"
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+          />
+          <div className="flex space-x-2">
+            <Button onClick={() => decide('APPROVED')} disabled={isSubmitting} className="flex-1">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => decide('REJECTED')}
+              disabled={isSubmitting || !comments}
+              className="flex-1"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
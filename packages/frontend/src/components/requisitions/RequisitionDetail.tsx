@@ -20,6 +20,7 @@ import {
 } from 'lucide-react';
 import { Button, Card, Badge } from '../ui';
 import { Requisition } from '../../types/requisition';
+import { ApprovalGraphView } from './ApprovalGraphView';
 
 interface RequisitionDetailProps {
   requisition: Requisition;
@@ -393,6 +394,11 @@ export const RequisitionDetail: React.FC<RequisitionDetailProps> = ({
             </div>
           </Card>
 
+          {/* Approval Workflow */}
+          {requisition.status !== 'draft' && (
+            <ApprovalGraphView requisitionId={requisition.id} />
+          )}
+
           {/* Approval History */}
           {requisition.approvalHistory.length > 0 && (
             <Card className="p-6">
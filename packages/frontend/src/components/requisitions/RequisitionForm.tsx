@@ -6,7 +6,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useCreateRequisitionMutation, useUpdateRequisitionMutation, Requisition } from '../../store/api/requisitionApi';
 import { useGetVesselsQuery } from '../../store/api/vesselApi';
-import { useGetItemCatalogQuery } from '../../store/api/itemCatalogApi';
+import { useGetItemCatalogQuery, ItemCatalog } from '../../store/api/itemCatalogApi';
 
 interface RequisitionFormProps {
   requisition?: Requisition;
@@ -16,6 +16,16 @@ interface RequisitionFormProps {
   mode?: 'create' | 'edit';
 }
 
+// Warning shown when an engineer picks a part number the maker has replaced
+const supersessionWarning = (item: ItemCatalog): string | null => {
+  const replacement = item.currentReplacement;
+  if (!item.supersededById || !replacement) {
+    return null;
+  }
+  const codes = replacement.impaCode ? ` (IMPA ${replacement.impaCode})` : '';
+  return `"${item.name}" has been superseded by "${replacement.name}"${codes}`;
+};
+
 interface FormData {
   vesselId: string;
   urgencyLevel: 'ROUTINE' | 'URGENT' | 'EMERGENCY';
@@ -99,11 +109,15 @@ export const RequisitionForm: React.FC<RequisitionFormProps> = ({
     // Filter by search term
     if (itemSearchTerm) {
       const searchLower = itemSearchTerm.toLowerCase();
+      const partNumberSearch = itemSearchTerm.toUpperCase().replace(/[^A-Z0-9]/g, '');
       filtered = filtered.filter(item =>
         item.name.toLowerCase().includes(searchLower) ||
         item.description?.toLowerCase().includes(searchLower) ||
         item.impaCode?.toLowerCase().includes(searchLower) ||
-        item.issaCode?.toLowerCase().includes(searchLower)
+        item.issaCode?.toLowerCase().includes(searchLower) ||
+        (partNumberSearch.length >= 3 && item.makerReferences?.some(reference =>
+          reference.partNumber.toUpperCase().replace(/[^A-Z0-9]/g, '').startsWith(partNumberSearch)
+        ))
       );
     }
 
@@ -236,6 +250,11 @@ export const RequisitionForm: React.FC<RequisitionFormProps> = ({
       if (catalogItem?.criticalityLevel === 'SAFETY_CRITICAL' && item.urgencyLevel === 'ROUTINE') {
         warnings.push(`Item ${index + 1}: Safety critical item marked as routine urgency`);
       }
+
+      const superseded = catalogItem && supersessionWarning(catalogItem);
+      if (superseded) {
+        warnings.push(`Item ${index + 1}: ${superseded}`);
+      }
     });
 
     setValidationErrors(errors);
@@ -298,6 +317,10 @@ export const RequisitionForm: React.FC<RequisitionFormProps> = ({
   }, []);
 
   const selectedCatalogItem = catalogItems.find(item => item.id === currentItem.itemCatalogId);
+  const selectedSupersession = selectedCatalogItem ? supersessionWarning(selectedCatalogItem) : null;
+  const selectedReplacement = selectedCatalogItem?.currentReplacement
+    ? catalogItems.find(item => item.id === selectedCatalogItem.currentReplacement?.id)
+    : undefined;
   const isSubmitting = isCreating || isUpdating;
 
   return (
@@ -481,10 +504,19 @@ export const RequisitionForm: React.FC<RequisitionFormProps> = ({
                             onClick={() => selectItem(item)}
                             className="p-3 hover:bg-gray-50 cursor-pointer border-b border-gray-100 last:border-b-0"
                           >
-                            <div className="font-medium text-gray-900">{item.name}</div>
+                            <div className="font-medium text-gray-900">
+                              {item.name}
+                              {item.supersededById && (
+                                <span className="ml-2 px-1.5 py-0.5 text-xs font-medium text-amber-800 bg-amber-100 rounded">
+                                  Superseded
+                                </span>
+                              )}
+                            </div>
                             <div className="text-sm text-gray-600">
                               {item.impaCode && `IMPA: ${item.impaCode}`}
                               {item.issaCode && ` | ISSA: ${item.issaCode}`}
+                              {item.makerReferences && item.makerReferences.length > 0 &&
+                                ` | ${item.makerReferences.map(reference => `${reference.maker} ${reference.partNumber}`).join(', ')}`}
                             </div>
                             <div className="text-sm text-gray-500">
                               {item.category} | {item.criticalityLevel}
@@ -500,6 +532,22 @@ export const RequisitionForm: React.FC<RequisitionFormProps> = ({
                     </div>
                   )}
                 </div>
+
+                {selectedSupersession && (
+                  <div className="mt-2 p-2 text-sm text-amber-800 bg-amber-50 border border-amber-300 rounded-md" role="alert">
+                    {selectedSupersession}
+                    {selectedCatalogItem?.supersessionNote && ` – ${selectedCatalogItem.supersessionNote}`}
+                    {selectedReplacement && (
+                      <button
+                        type="button"
+                        onClick={() => selectItem(selectedReplacement)}
+                        className="ml-2 font-medium underline hover:text-amber-900"
+                      >
+                        Use replacement
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div>
@@ -562,6 +610,11 @@ export const RequisitionForm: React.FC<RequisitionFormProps> = ({
                           {item.urgencyLevel}
                         </div>
                       )}
+                      {catalogItem && supersessionWarning(catalogItem) && (
+                        <div className="text-sm font-medium text-amber-700">
+                          {supersessionWarning(catalogItem)}
+                        </div>
+                      )}
                     </div>
                     <button
                       type="button"
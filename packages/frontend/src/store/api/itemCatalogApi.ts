@@ -6,6 +6,23 @@
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
 import { env } from '../../config/env';
 
+export interface ItemPartReference {
+  id: string;
+  maker: string;
+  partNumber: string;
+  notes?: string;
+}
+
+export interface SupersessionLink {
+  id: string;
+  name: string;
+  impaCode?: string | null;
+  issaCode?: string | null;
+  supersededById?: string | null;
+  supersededAt?: string | null;
+  supersessionNote?: string | null;
+}
+
 export interface ItemCatalog {
   id: string;
   impaCode?: string;
@@ -20,6 +37,24 @@ export interface ItemCatalog {
   unitOfMeasure: string;
   averagePrice?: number;
   leadTime?: number;
+  ihmRelevant?: boolean;
+  hazardousMaterials?: string[];
+  unNumber?: string | null;
+  properShippingName?: string | null;
+  imdgClass?: string | null;
+  subsidiaryRisks?: string[];
+  packingGroup?: 'I' | 'II' | 'III' | null;
+  marinePollutant?: boolean;
+  emsCode?: string | null;
+  flashPoint?: number | null;
+  hsCode?: string | null;
+  makerReferences?: ItemPartReference[];
+  equivalenceGroupId?: string | null;
+  supersededById?: string | null;
+  supersededAt?: string | null;
+  supersessionNote?: string | null;
+  supersededBy?: SupersessionLink | null;
+  currentReplacement?: SupersessionLink | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -30,6 +65,8 @@ export interface ItemCatalogFilters {
   criticalityLevel?: string;
   vesselType?: string;
   engineType?: string;
+  partNumber?: string;
+  maker?: string;
   page?: number;
   limit?: number;
 }
@@ -72,6 +109,18 @@ export const itemCatalogApi = createApi({
       },
       providesTags: ['ItemCatalog'],
     }),
+    getItemByPartNumber: builder.query<ItemCatalog, { partNumber: string; maker?: string }>({
+      query: ({ partNumber, maker }) => {
+        const params = new URLSearchParams();
+        if (maker) params.append('maker', maker);
+        return `/catalog/part-number/${encodeURIComponent(partNumber)}?${params.toString()}`;
+      },
+      providesTags: ['ItemCatalog'],
+    }),
+    getEquivalentItems: builder.query<ItemCatalog[], string>({
+      query: (id) => `/catalog/${id}/equivalents`,
+      providesTags: (result, error, id) => [{ type: 'ItemCatalog', id }],
+    }),
   }),
 });
 
@@ -79,4 +128,6 @@ export const {
   useGetItemCatalogQuery,
   useGetItemByIdQuery,
   useSearchItemsQuery,
+  useGetItemByPartNumberQuery,
+  useGetEquivalentItemsQuery,
 } = itemCatalogApi;
\ No newline at end of file
@@ -45,6 +45,51 @@ export interface CreateRequisitionRequest {
   items: Omit<RequisitionItem, 'id'>[];
 }
 
+export interface ApprovalGraphApproval {
+  id: string;
+  approverId: string;
+  approverName: string;
+  approverRole: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'DELEGATED';
+  comments: string | null;
+  approvedAt: string | null;
+}
+
+export interface ApprovalGraphGroup {
+  id: string | null;
+  key: string;
+  name: string;
+  mode: 'ALL' | 'ANY';
+  approverRoles: string[];
+  requiredApprovals: number;
+  approvedCount: number;
+  status: 'WAITING' | 'ACTIVE' | 'APPROVED' | 'REJECTED' | 'SKIPPED';
+  conditionSummary: string | null;
+  approvals: ApprovalGraphApproval[];
+}
+
+export interface ApprovalGraphStage {
+  stage: number;
+  name: string;
+  status: ApprovalGraphGroup['status'];
+  groups: ApprovalGraphGroup[];
+}
+
+export interface ApprovalGraph {
+  requisitionId: string;
+  requisitionStatus: string;
+  satisfied: boolean;
+  currentStage: number | null;
+  stages: ApprovalGraphStage[];
+}
+
+export interface ApprovalDecisionRequest {
+  approvalId: string;
+  requisitionId: string;
+  status: 'APPROVED' | 'REJECTED';
+  comments?: string;
+}
+
 export const requisitionApi = createApi({
   reducerPath: 'requisitionApi',
   baseQuery: fetchBaseQuery({
@@ -57,7 +102,7 @@ export const requisitionApi = createApi({
       return headers;
     },
   }),
-  tagTypes: ['Requisition'],
+  tagTypes: ['Requisition', 'ApprovalGraph'],
   endpoints: (builder) => ({
     getRequisitions: builder.query<Requisition[], void>({
       query: () => '/requisitions',
@@ -90,6 +135,23 @@ export const requisitionApi = createApi({
       }),
       invalidatesTags: (result, error, id) => [{ type: 'Requisition', id }],
     }),
+    getApprovalGraph: builder.query<ApprovalGraph, string>({
+      query: (requisitionId) => `/workflow/requisitions/${requisitionId}/approval-graph`,
+      transformResponse: (response: { data: ApprovalGraph }) => response.data,
+      providesTags: (result, error, requisitionId) => [{ type: 'ApprovalGraph', id: requisitionId }],
+    }),
+    recordApprovalDecision: builder.mutation<ApprovalGraph, ApprovalDecisionRequest>({
+      query: ({ approvalId, status, comments }) => ({
+        url: `/workflow/approvals/${approvalId}/decision`,
+        method: 'POST',
+        body: { status, comments },
+      }),
+      transformResponse: (response: { data: ApprovalGraph }) => response.data,
+      invalidatesTags: (result, error, { requisitionId }) => [
+        { type: 'ApprovalGraph', id: requisitionId },
+        { type: 'Requisition', id: requisitionId },
+      ],
+    }),
   }),
 });
 
@@ -99,4 +161,6 @@ export const {
   useCreateRequisitionMutation,
   useUpdateRequisitionMutation,
   useDeleteRequisitionMutation,
+  useGetApprovalGraphQuery,
+  useRecordApprovalDecisionMutation,
 } = requisitionApi;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, {useEffect, useState} from 'react';
+import React, {useCallback, useEffect, useState} from 'react';
 import {
   View,
   Text,
@@ -18,6 +18,7 @@ import {RootState} from '../../store';
 import {updateRequisition} from '../../store/slices/requisitionSlice';
 import {addSyncItem} from '../../store/slices/offlineSlice';
 import ErrorBoundary from '../../components/common/ErrorBoundary';
+import {apiService} from '../../services/api/apiService';
 
 type RequisitionStackParamList = {
   ApprovalWorkflow: {requisitionId: string};
@@ -26,18 +27,45 @@ type RequisitionStackParamList = {
 type ApprovalWorkflowScreenRouteProp = RouteProp<RequisitionStackParamList, 'ApprovalWorkflow'>;
 type ApprovalWorkflowScreenNavigationProp = StackNavigationProp<RequisitionStackParamList>;
 
-interface ApprovalStep {
+type ApprovalGroupStatus = 'WAITING' | 'ACTIVE' | 'APPROVED' | 'REJECTED' | 'SKIPPED';
+
+interface ApprovalGraphApproval {
   id: string;
-  step: number;
-  approverRole: string;
+  approverId: string;
   approverName: string;
+  approverRole: string;
   status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'DELEGATED';
-  approvedAt?: string;
-  comments?: string;
-  requiredAmount?: number;
+  comments?: string | null;
+  approvedAt?: string | null;
   delegatedTo?: string;
 }
 
+interface ApprovalGraphGroup {
+  key: string;
+  name: string;
+  mode: 'ALL' | 'ANY';
+  approverRoles: string[];
+  requiredApprovals: number;
+  approvedCount: number;
+  status: ApprovalGroupStatus;
+  conditionSummary?: string | null;
+  approvals: ApprovalGraphApproval[];
+}
+
+interface ApprovalGraphStage {
+  stage: number;
+  name: string;
+  status: ApprovalGroupStatus;
+  groups: ApprovalGraphGroup[];
+}
+
+interface ApprovalGraph {
+  requisitionId: string;
+  satisfied: boolean;
+  currentStage: number | null;
+  stages: ApprovalGraphStage[];
+}
+
 const ApprovalWorkflowScreen: React.FC = () => {
   const route = useRoute<ApprovalWorkflowScreenRouteProp>();
   const navigation = useNavigation<ApprovalWorkflowScreenNavigationProp>();
@@ -60,37 +88,16 @@ const ApprovalWorkflowScreen: React.FC = () => {
   const user = useSelector((state: RootState) => state.auth.user);
   const isOffline = useSelector((state: RootState) => !state.offline.isOnline);
 
-  // Mock approval workflow data - in real app, this would come from the server
-  const [approvalSteps, setApprovalSteps] = useState<ApprovalStep[]>([
-    {
-      id: 'step1',
-      step: 1,
-      approverRole: 'Chief Engineer',
-      approverName: 'John Smith',
-      status: 'APPROVED',
-      approvedAt: '2024-01-15T10:30:00Z',
-      comments: 'Approved - critical engine parts needed',
-      requiredAmount: 500,
-    },
-    {
-      id: 'step2',
-      step: 2,
-      approverRole: 'Superintendent',
-      approverName: 'Sarah Johnson',
-      status: 'APPROVED',
-      approvedAt: '2024-01-15T14:20:00Z',
-      comments: 'Budget approved for maintenance',
-      requiredAmount: 5000,
-    },
-    {
-      id: 'step3',
-      step: 3,
-      approverRole: 'Procurement Manager',
-      approverName: 'Mike Wilson',
-      status: 'PENDING',
-      requiredAmount: 25000,
-    },
-  ]);
+  const [graph, setGraph] = useState<ApprovalGraph | null>(null);
+
+  const loadGraph = useCallback(async () => {
+    const response = await apiService.get<{data: ApprovalGraph}>(
+      `/workflow/requisitions/${requisitionId}/approval-graph`,
+    );
+    if (response.success && response.data) {
+      setGraph(response.data.data);
+    }
+  }, [requisitionId]);
 
   useEffect(() => {
     if (!requisition) {
@@ -100,78 +107,100 @@ const ApprovalWorkflowScreen: React.FC = () => {
     }
   }, [requisition, navigation]);
 
+  useEffect(() => {
+    if (!isOffline) {
+      loadGraph();
+    }
+  }, [loadGraph, isOffline]);
+
   const onRefresh = async () => {
     setRefreshing(true);
-    // TODO: Fetch latest approval status from server
-    setTimeout(() => setRefreshing(false), 1000);
+    await loadGraph();
+    setRefreshing(false);
+  };
+
+  const groups = graph ? graph.stages.flatMap(stage => stage.groups) : [];
+  const myPendingApproval = groups
+    .flatMap(group => group.approvals)
+    .find(approval => approval.status === 'PENDING' && approval.approverId === user?.id);
+
+  // Offline decisions are shown locally until the sync queue reaches the server
+  const updateLocalApproval = (approvalId: string, changes: Partial<ApprovalGraphApproval>) => {
+    if (!graph) return;
+    setGraph({
+      ...graph,
+      stages: graph.stages.map(stage => ({
+        ...stage,
+        groups: stage.groups.map(group => ({
+          ...group,
+          approvals: group.approvals.map(approval =>
+            approval.id === approvalId ? {...approval, ...changes} : approval,
+          ),
+        })),
+      })),
+    });
   };
 
   const canApprove = () => {
     if (!user || !requisition) return false;
-    
-    const currentStep = approvalSteps.find(step => step.status === 'PENDING');
-    if (!currentStep) return false;
-
-    // Check if current user can approve this step
-    return user.role === currentStep.approverRole || user.permissions?.includes('APPROVE_REQUISITIONS');
+    return !!myPendingApproval;
   };
 
   const canDelegate = () => {
     if (!user || !requisition) return false;
-    
-    const currentStep = approvalSteps.find(step => step.status === 'PENDING');
-    if (!currentStep) return false;
-
-    return user.role === currentStep.approverRole;
+    return !!myPendingApproval;
   };
 
-  const handleApprove = async () => {
-    if (!requisition) return;
+  const submitDecision = async (status: 'APPROVED' | 'REJECTED', comments: string) => {
+    if (!myPendingApproval) return null;
 
-    const currentStep = approvalSteps.find(step => step.status === 'PENDING');
-    if (!currentStep) return;
+    if (isOffline) {
+      dispatch(addSyncItem({
+        type: 'approval',
+        action: 'update',
+        data: {
+          requisitionId,
+          action: status === 'APPROVED' ? 'approve' : 'reject',
+          comments,
+          approvalId: myPendingApproval.id,
+        },
+      }));
+      updateLocalApproval(myPendingApproval.id, {
+        status,
+        comments,
+        approvedAt: new Date().toISOString(),
+      });
+      return null;
+    }
 
-    const updatedSteps = approvalSteps.map(step => 
-      step.id === currentStep.id 
-        ? {
-            ...step,
-            status: 'APPROVED' as const,
-            approvedAt: new Date().toISOString(),
-            comments: approvalComments,
-          }
-        : step
+    const response = await apiService.post<{data: ApprovalGraph}>(
+      `/workflow/approvals/${myPendingApproval.id}/decision`,
+      {status, comments: comments || undefined},
     );
 
-    setApprovalSteps(updatedSteps);
+    if (!response.success || !response.data) {
+      Alert.alert('Error', response.error || 'Failed to record decision');
+      return null;
+    }
+
+    setGraph(response.data.data);
+    return response.data.data;
+  };
+
+  const handleApprove = async () => {
+    if (!requisition) return;
+
+    const updatedGraph = await submitDecision('APPROVED', approvalComments);
 
-    // Check if all steps are approved
-    const allApproved = updatedSteps.every(step => step.status === 'APPROVED');
-    
-    if (allApproved) {
-      const updatedRequisition = {
+    if (updatedGraph?.satisfied) {
+      dispatch(updateRequisition({
         ...requisition,
         status: 'APPROVED' as const,
         updatedAt: new Date().toISOString(),
-      };
-
-      dispatch(updateRequisition(updatedRequisition));
-
-      if (isOffline) {
-        dispatch(addSyncItem({
-          type: 'approval',
-          action: 'update',
-          data: {
-            requisitionId,
-            action: 'approve',
-            comments: approvalComments,
-            stepId: currentStep.id,
-          },
-        }));
-      }
-
+      }));
       Alert.alert('Success', 'Requisition approved successfully');
-    } else {
-      Alert.alert('Success', 'Approval recorded. Waiting for next approver.');
+    } else if (updatedGraph || isOffline) {
+      Alert.alert('Success', 'Approval recorded. Waiting for remaining approvers.');
     }
 
     setShowApprovalModal(false);
@@ -181,27 +210,22 @@ const ApprovalWorkflowScreen: React.FC = () => {
   const handleReject = async () => {
     if (!requisition) return;
 
-    const updatedRequisition = {
-      ...requisition,
-      status: 'REJECTED' as const,
-      updatedAt: new Date().toISOString(),
-    };
+    if (!rejectionComments.trim()) {
+      Alert.alert('Error', 'Please provide a reason for rejection');
+      return;
+    }
 
-    dispatch(updateRequisition(updatedRequisition));
+    const updatedGraph = await submitDecision('REJECTED', rejectionComments);
 
-    if (isOffline) {
-      dispatch(addSyncItem({
-        type: 'approval',
-        action: 'update',
-        data: {
-          requisitionId,
-          action: 'reject',
-          comments: rejectionComments,
-        },
+    if (updatedGraph || isOffline) {
+      dispatch(updateRequisition({
+        ...requisition,
+        status: 'REJECTED' as const,
+        updatedAt: new Date().toISOString(),
       }));
+      Alert.alert('Success', 'Requisition rejected');
     }
 
-    Alert.alert('Success', 'Requisition rejected');
     setShowRejectionModal(false);
     setRejectionComments('');
   };
@@ -212,21 +236,13 @@ const ApprovalWorkflowScreen: React.FC = () => {
       return;
     }
 
-    const currentStep = approvalSteps.find(step => step.status === 'PENDING');
-    if (!currentStep) return;
-
-    const updatedSteps = approvalSteps.map(step => 
-      step.id === currentStep.id 
-        ? {
-            ...step,
-            status: 'DELEGATED' as const,
-            delegatedTo: delegationTarget,
-            comments: delegationComments,
-          }
-        : step
-    );
+    if (!myPendingApproval) return;
 
-    setApprovalSteps(updatedSteps);
+    updateLocalApproval(myPendingApproval.id, {
+      status: 'DELEGATED',
+      delegatedTo: delegationTarget,
+      comments: delegationComments,
+    });
 
     if (isOffline) {
       dispatch(addSyncItem({
@@ -237,7 +253,7 @@ const ApprovalWorkflowScreen: React.FC = () => {
           action: 'delegate',
           delegatedTo: delegationTarget,
           comments: delegationComments,
-          stepId: currentStep.id,
+          approvalId: myPendingApproval.id,
         },
       }));
     }
@@ -251,9 +267,11 @@ const ApprovalWorkflowScreen: React.FC = () => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'PENDING': return '#f59e0b';
+      case 'ACTIVE': return '#f59e0b';
       case 'APPROVED': return '#10b981';
       case 'REJECTED': return '#ef4444';
       case 'DELEGATED': return '#8b5cf6';
+      case 'SKIPPED': return '#cbd5e1';
       default: return '#6b7280';
     }
   };
@@ -261,9 +279,12 @@ const ApprovalWorkflowScreen: React.FC = () => {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'PENDING': return 'schedule';
+      case 'ACTIVE': return 'schedule';
+      case 'WAITING': return 'hourglass-empty';
       case 'APPROVED': return 'check-circle';
       case 'REJECTED': return 'cancel';
       case 'DELEGATED': return 'forward';
+      case 'SKIPPED': return 'remove-circle-outline';
       default: return 'help';
     }
   };
@@ -276,10 +297,16 @@ const ApprovalWorkflowScreen: React.FC = () => {
     );
   }
 
-  const currentStep = approvalSteps.find(step => step.status === 'PENDING');
-  const completedSteps = approvalSteps.filter(step => step.status === 'APPROVED').length;
-  const totalSteps = approvalSteps.length;
-  const progressPercentage = (completedSteps / totalSteps) * 100;
+  const requiredGroups = groups.filter(group => group.status !== 'SKIPPED');
+  const completedGroups = requiredGroups.filter(group => group.status === 'APPROVED').length;
+  const totalGroups = requiredGroups.length;
+  const progressPercentage = totalGroups > 0 ? (completedGroups / totalGroups) * 100 : 0;
+  const activeGroups = groups.filter(group => group.status === 'ACTIVE');
+
+  const describeMode = (group: ApprovalGraphGroup) =>
+    group.mode === 'ANY'
+      ? `Any ${group.requiredApprovals} of ${group.approverRoles.join(' / ')}`
+      : `All of ${group.approverRoles.join(', ')}`;
 
   return (
     <ErrorBoundary>
@@ -311,7 +338,7 @@ const ApprovalWorkflowScreen: React.FC = () => {
               <View style={[styles.progressFill, {width: `${progressPercentage}%`}]} />
             </View>
             <Text style={styles.progressText}>
-              {completedSteps} of {totalSteps} approvals completed
+              {completedGroups} of {totalGroups} approval groups completed
             </Text>
           </View>
 
@@ -323,9 +350,9 @@ const ApprovalWorkflowScreen: React.FC = () => {
                 <Icon name={getStatusIcon(requisition.status)} size={16} color="#ffffff" />
                 <Text style={styles.statusText}>{requisition.status.replace('_', ' ')}</Text>
               </View>
-              {currentStep && (
+              {activeGroups.length > 0 && (
                 <Text style={styles.currentStepText}>
-                  Waiting for: {currentStep.approverName} ({currentStep.approverRole})
+                  Waiting for: {activeGroups.map(group => group.name).join(', ')}
                 </Text>
               )}
             </View>
@@ -334,46 +361,77 @@ const ApprovalWorkflowScreen: React.FC = () => {
           {/* Approval Steps */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Approval Workflow</Text>
-            {approvalSteps.map((step, index) => (
-              <View key={step.id} style={styles.stepCard}>
+            {!graph && (
+              <Text style={styles.stepAmount}>
+                {isOffline ? 'Approval workflow is unavailable offline' : 'Loading approval workflow...'}
+              </Text>
+            )}
+            {graph?.stages.map((stage, index) => (
+              <View key={stage.stage} style={styles.stepCard}>
                 <View style={styles.stepHeader}>
-                  <View style={styles.stepNumber}>
-                    <Text style={styles.stepNumberText}>{step.step}</Text>
+                  <View style={[styles.stepNumber, {backgroundColor: getStatusColor(stage.status)}]}>
+                    <Text style={styles.stepNumberText}>{stage.stage}</Text>
                   </View>
                   <View style={styles.stepInfo}>
-                    <Text style={styles.stepRole}>{step.approverRole}</Text>
-                    <Text style={styles.stepApprover}>{step.approverName}</Text>
-                    {step.delegatedTo && (
-                      <Text style={styles.delegatedText}>
-                        Delegated to: {step.delegatedTo}
-                      </Text>
+                    <Text style={styles.stepRole}>{stage.name}</Text>
+                    {stage.groups.filter(group => group.status !== 'SKIPPED').length > 1 && (
+                      <Text style={styles.stepApprover}>Parallel approvals</Text>
                     )}
                   </View>
-                  <View style={[styles.stepStatus, {backgroundColor: getStatusColor(step.status)}]}>
-                    <Icon name={getStatusIcon(step.status)} size={16} color="#ffffff" />
-                  </View>
                 </View>
 
-                {step.requiredAmount && (
-                  <Text style={styles.stepAmount}>
-                    Required for amounts ≥ ${step.requiredAmount.toLocaleString()}
-                  </Text>
-                )}
-
-                {step.approvedAt && (
-                  <Text style={styles.stepTimestamp}>
-                    {step.status === 'APPROVED' ? 'Approved' : 'Updated'}: {new Date(step.approvedAt).toLocaleString()}
-                  </Text>
-                )}
+                {stage.groups.map(group => (
+                  <View
+                    key={group.key}
+                    style={[styles.groupCard, group.status === 'SKIPPED' && styles.groupCardSkipped]}
+                  >
+                    <View style={styles.stepHeader}>
+                      <View style={styles.stepInfo}>
+                        <Text style={styles.stepRole}>{group.name}</Text>
+                        <Text style={styles.stepApprover}>
+                          {describeMode(group)}
+                          {group.status !== 'SKIPPED' && ` · ${group.approvedCount}/${group.requiredApprovals}`}
+                        </Text>
+                      </View>
+                      <View style={[styles.stepStatus, {backgroundColor: getStatusColor(group.status)}]}>
+                        <Icon name={getStatusIcon(group.status)} size={16} color="#ffffff" />
+                      </View>
+                    </View>
+
+                    {group.conditionSummary && (
+                      <Text style={styles.stepAmount}>
+                        {group.status === 'SKIPPED' ? 'Not required: ' : 'Required when '}
+                        {group.conditionSummary}
+                      </Text>
+                    )}
 
-                {step.comments && (
-                  <View style={styles.stepComments}>
-                    <Text style={styles.commentsLabel}>Comments:</Text>
-                    <Text style={styles.commentsText}>{step.comments}</Text>
+                    {group.approvals.map(approval => (
+                      <View key={approval.id} style={styles.groupApproval}>
+                        <Text style={styles.stepApprover}>
+                          {approval.approverName} ({approval.approverRole}) · {approval.status.toLowerCase()}
+                        </Text>
+                        {approval.delegatedTo && (
+                          <Text style={styles.delegatedText}>
+                            Delegated to: {approval.delegatedTo}
+                          </Text>
+                        )}
+                        {approval.approvedAt && (
+                          <Text style={styles.stepTimestamp}>
+                            {new Date(approval.approvedAt).toLocaleString()}
+                          </Text>
+                        )}
+                        {approval.comments && (
+                          <View style={styles.stepComments}>
+                            <Text style={styles.commentsLabel}>Comments:</Text>
+                            <Text style={styles.commentsText}>{approval.comments}</Text>
+                          </View>
+                        )}
+                      </View>
+                    ))}
                   </View>
-                )}
+                ))}
 
-                {index < approvalSteps.length - 1 && (
+                {index < graph.stages.length - 1 && (
                   <View style={styles.stepConnector} />
                 )}
               </View>
@@ -395,7 +453,7 @@ const ApprovalWorkflowScreen: React.FC = () => {
         </ScrollView>
 
         {/* Action Buttons */}
-        {currentStep && (
+        {myPendingApproval && (
           <View style={styles.actionButtons}>
             {canApprove() && (
               <>
@@ -727,6 +785,20 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     lineHeight: 16,
   },
+  groupCard: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  groupCardSkipped: {
+    borderStyle: 'dashed',
+    opacity: 0.6,
+  },
+  groupApproval: {
+    marginTop: 6,
+  },
   stepConnector: {
     position: 'absolute',
     left: 28,